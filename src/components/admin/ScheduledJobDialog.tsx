@@ -0,0 +1,233 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { CRON_PRESETS, getNextCronRuns } from '@/lib/cron';
+import { toast } from 'sonner';
+
+const ALL_COMPANIES = '__all__';
+
+export type ScheduledJob = Tables<'scheduled_jobs'>;
+
+interface ScheduledJobDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schedule?: ScheduledJob;
+  workflows: { id: string; name: string }[];
+  companies: { id: string; name: string }[];
+  defaultWorkflowId?: string;
+  onSave: () => void;
+}
+
+export function ScheduledJobDialog({
+  open,
+  onOpenChange,
+  schedule,
+  workflows,
+  companies,
+  defaultWorkflowId,
+  onSave,
+}: ScheduledJobDialogProps) {
+  const [name, setName] = useState('');
+  const [workflowId, setWorkflowId] = useState('');
+  const [companyId, setCompanyId] = useState(ALL_COMPANIES);
+  const [cronExpression, setCronExpression] = useState('0 6 * * 1');
+  const [inputData, setInputData] = useState('{}');
+  const [jsonError, setJsonError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (schedule) {
+      setName(schedule.name);
+      setWorkflowId(schedule.workflow_id);
+      setCompanyId(schedule.company_id || ALL_COMPANIES);
+      setCronExpression(schedule.cron_expression);
+      setInputData(JSON.stringify(schedule.input_data || {}, null, 2));
+    } else {
+      setName('');
+      setWorkflowId(defaultWorkflowId || '');
+      setCompanyId(ALL_COMPANIES);
+      setCronExpression('0 6 * * 1');
+      setInputData('{}');
+    }
+    setJsonError('');
+  }, [schedule, open, defaultWorkflowId]);
+
+  let nextRuns: Date[] = [];
+  let cronError = '';
+  try {
+    nextRuns = getNextCronRuns(cronExpression, 3);
+  } catch (e) {
+    cronError = e instanceof Error ? e.message : 'Invalid cron expression';
+  }
+
+  const handleInputDataChange = (value: string) => {
+    setInputData(value);
+    try {
+      JSON.parse(value);
+      setJsonError('');
+    } catch {
+      setJsonError('Invalid JSON syntax');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || !workflowId) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+    if (cronError || jsonError) {
+      toast.error('Please fix the errors before saving');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const values = {
+        name: name.trim(),
+        workflow_id: workflowId,
+        company_id: companyId === ALL_COMPANIES ? null : companyId,
+        cron_expression: cronExpression.trim(),
+        input_data: JSON.parse(inputData) as Json,
+        // Recomputed on every save so an edited expression takes effect immediately
+        next_run_at: nextRuns[0].toISOString(),
+      };
+
+      if (schedule) {
+        const { error } = await supabase.from('scheduled_jobs').update(values).eq('id', schedule.id);
+        if (error) throw error;
+        toast.success('Schedule updated');
+      } else {
+        const { error } = await supabase.from('scheduled_jobs').insert(values);
+        if (error) throw error;
+        toast.success('Schedule created');
+      }
+
+      onSave();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving schedule:', error);
+      toast.error('Failed to save schedule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{schedule ? 'Edit Schedule' : 'New Schedule'}</DialogTitle>
+          <DialogDescription>
+            Re-run a workflow on a cron schedule. Times are in UTC.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="schedule-name">Name</Label>
+            <Input
+              id="schedule-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Weekly competitor refresh"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Workflow</Label>
+              <Select value={workflowId} onValueChange={setWorkflowId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select workflow" />
+                </SelectTrigger>
+                <SelectContent className="bg-popover z-50">
+                  {workflows.map(w => (
+                    <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Company</Label>
+              <Select value={companyId} onValueChange={setCompanyId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover z-50">
+                  <SelectItem value={ALL_COMPANIES}>All active companies</SelectItem>
+                  {companies.map(c => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-cron">Cron Expression</Label>
+            <Input
+              id="schedule-cron"
+              value={cronExpression}
+              onChange={(e) => setCronExpression(e.target.value)}
+              placeholder="0 6 * * 1"
+              className="font-mono"
+            />
+            <div className="flex flex-wrap gap-2">
+              {CRON_PRESETS.map(preset => (
+                <Button
+                  key={preset.expression}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setCronExpression(preset.expression)}
+                >
+                  {preset.label}
+                </Button>
+              ))}
+            </div>
+            {cronError ? (
+              <p className="text-xs text-destructive">{cronError}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Next runs: {nextRuns.map(d => d.toLocaleString()).join(' · ')}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-input">Input Data (JSON)</Label>
+            <Textarea
+              id="schedule-input"
+              value={inputData}
+              onChange={(e) => handleInputDataChange(e.target.value)}
+              rows={5}
+              className="font-mono text-sm"
+            />
+            {jsonError && (
+              <p className="text-xs text-destructive">{jsonError}</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Stored on each run. Supports start_from_node_id and priority (low, normal, high, critical).
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !!jsonError || !!cronError}>
+              {isSaving ? 'Saving...' : schedule ? 'Save Changes' : 'Create Schedule'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
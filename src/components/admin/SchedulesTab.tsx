@@ -0,0 +1,378 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CalendarClock, Pencil, Play, Plus, RefreshCw, Trash2, History } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { getNextCronRun } from '@/lib/cron';
+import { ScheduledJob, ScheduledJobDialog } from './ScheduledJobDialog';
+
+interface ScheduleRunRecord {
+  id: string;
+  company_id: string | null;
+  status: string;
+  error_message: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+function StatusBadge({ status }: { status: string }) {
+  const variant = status === 'failed'
+    ? 'destructive'
+    : status === 'completed'
+      ? 'default'
+      : status === 'running'
+        ? 'secondary'
+        : 'outline';
+  return <Badge variant={variant}>{status}</Badge>;
+}
+
+export function SchedulesTab() {
+  const [schedules, setSchedules] = useState<ScheduledJob[]>([]);
+  const [workflows, setWorkflows] = useState<{ id: string; name: string }[]>([]);
+  const [companies, setCompanies] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [workflowFilter, setWorkflowFilter] = useState<string>('all');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<ScheduledJob | undefined>();
+  const [historySchedule, setHistorySchedule] = useState<ScheduledJob | null>(null);
+  const [history, setHistory] = useState<ScheduleRunRecord[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [runningId, setRunningId] = useState<string | null>(null);
+
+  const fetchSchedules = async () => {
+    const [schedulesResult, workflowsResult, companiesResult] = await Promise.all([
+      supabase.from('scheduled_jobs').select('*').order('created_at', { ascending: false }),
+      supabase.from('workflows').select('id, name').order('name'),
+      supabase.from('companies').select('id, name').order('name'),
+    ]);
+
+    if (schedulesResult.error) {
+      console.error('Error loading schedules:', schedulesResult.error);
+      toast.error('Failed to load schedules');
+    }
+    setSchedules(schedulesResult.data || []);
+    setWorkflows(workflowsResult.data || []);
+    setCompanies(companiesResult.data || []);
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      await fetchSchedules();
+      setLoading(false);
+    };
+    load();
+  }, []);
+
+  useEffect(() => {
+    if (!historySchedule) return;
+    const loadHistory = async () => {
+      setHistoryLoading(true);
+      const { data, error } = await supabase
+        .from('job_queue')
+        .select('id, company_id, status, error_message, created_at, completed_at')
+        .eq('payload->>scheduled_job_id', historySchedule.id)
+        .order('created_at', { ascending: false })
+        .limit(50);
+      if (error) console.error('Error loading schedule history:', error);
+      setHistory(data || []);
+      setHistoryLoading(false);
+    };
+    loadHistory();
+  }, [historySchedule]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await fetchSchedules();
+    setRefreshing(false);
+  };
+
+  const handleToggleActive = async (schedule: ScheduledJob, isActive: boolean) => {
+    // Resuming starts from now so a paused schedule does not fire for the time it missed
+    const { error } = await supabase
+      .from('scheduled_jobs')
+      .update({
+        is_active: isActive,
+        next_run_at: isActive ? getNextCronRun(schedule.cron_expression).toISOString() : schedule.next_run_at,
+      })
+      .eq('id', schedule.id);
+    if (error) {
+      toast.error('Failed to update schedule');
+      return;
+    }
+    toast.success(isActive ? 'Schedule resumed' : 'Schedule paused');
+    fetchSchedules();
+  };
+
+  const handleRunNow = async (schedule: ScheduledJob) => {
+    setRunningId(schedule.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('run-scheduled-jobs', {
+        body: { scheduled_job_id: schedule.id },
+      });
+      if (error) throw error;
+      toast.success(`Queued ${data?.jobs_queued ?? 0} job(s) for "${schedule.name}"`);
+      fetchSchedules();
+    } catch (error) {
+      console.error('Error running schedule:', error);
+      toast.error('Failed to run schedule');
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const handleDelete = async (schedule: ScheduledJob) => {
+    if (!confirm(`Delete schedule "${schedule.name}"?`)) return;
+    const { error } = await supabase.from('scheduled_jobs').delete().eq('id', schedule.id);
+    if (error) {
+      toast.error('Failed to delete schedule');
+      return;
+    }
+    toast.success('Schedule deleted');
+    fetchSchedules();
+  };
+
+  const workflowName = (id: string) => workflows.find(w => w.id === id)?.name || 'Unknown workflow';
+  const companyName = (id: string | null) =>
+    id ? companies.find(c => c.id === id)?.name || 'Unknown company' : 'All active companies';
+
+  const filteredSchedules = workflowFilter === 'all'
+    ? schedules
+    : schedules.filter(s => s.workflow_id === workflowFilter);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-2xl font-bold mb-2">Schedules</h2>
+          <p className="text-muted-foreground">
+            Re-run workflows automatically on a cron schedule (UTC)
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            setEditingSchedule(undefined);
+            setDialogOpen(true);
+          }}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Schedule
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-4">
+          <div className="flex flex-wrap gap-4 items-center">
+            <Select value={workflowFilter} onValueChange={setWorkflowFilter}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Workflow" />
+              </SelectTrigger>
+              <SelectContent className="bg-popover z-50">
+                <SelectItem value="all">All Workflows</SelectItem>
+                {workflows.map(w => (
+                  <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleRefresh} disabled={refreshing}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Schedule Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Scheduled Runs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12" />
+              ))}
+            </div>
+          ) : filteredSchedules.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <CalendarClock className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No schedules yet</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Workflow / Company</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Next Run</TableHead>
+                  <TableHead>Last Run</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredSchedules.map(schedule => (
+                  <TableRow key={schedule.id}>
+                    <TableCell className="font-medium">{schedule.name}</TableCell>
+                    <TableCell className="text-sm">
+                      <div>{workflowName(schedule.workflow_id)}</div>
+                      <div className="text-xs text-muted-foreground">{companyName(schedule.company_id)}</div>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{schedule.cron_expression}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {schedule.is_active && schedule.next_run_at
+                        ? formatDistanceToNow(new Date(schedule.next_run_at), { addSuffix: true })
+                        : '-'}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {schedule.last_run_at
+                        ? formatDistanceToNow(new Date(schedule.last_run_at), { addSuffix: true })
+                        : 'Never'}
+                      <div className="text-xs text-muted-foreground">{schedule.run_count} run{schedule.run_count === 1 ? '' : 's'}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={schedule.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(schedule, checked)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="Run now"
+                          onClick={() => handleRunNow(schedule)}
+                          disabled={runningId === schedule.id}
+                        >
+                          <Play className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="History"
+                          onClick={() => setHistorySchedule(schedule)}
+                        >
+                          <History className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="Edit"
+                          onClick={() => {
+                            setEditingSchedule(schedule);
+                            setDialogOpen(true);
+                          }}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="Delete"
+                          onClick={() => handleDelete(schedule)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ScheduledJobDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        schedule={editingSchedule}
+        workflows={workflows}
+        companies={companies}
+        defaultWorkflowId={workflowFilter === 'all' ? undefined : workflowFilter}
+        onSave={fetchSchedules}
+      />
+
+      {/* Run History Dialog */}
+      <Dialog open={!!historySchedule} onOpenChange={() => setHistorySchedule(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{historySchedule?.name} - Run History</DialogTitle>
+          </DialogHeader>
+          {historyLoading ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-10" />
+              ))}
+            </div>
+          ) : history.length === 0 ? (
+            <p className="text-center py-8 text-sm text-muted-foreground">This schedule has not queued any jobs yet</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Queued</TableHead>
+                    <TableHead>Company</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Error</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map(job => (
+                    <TableRow key={job.id}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {formatDistanceToNow(new Date(job.created_at), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell className="text-sm">{companyName(job.company_id)}</TableCell>
+                      <TableCell><StatusBadge status={job.status} /></TableCell>
+                      <TableCell className="max-w-xs truncate text-sm text-muted-foreground">
+                        {job.error_message || '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
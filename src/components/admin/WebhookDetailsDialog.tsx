@@ -0,0 +1,200 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Copy, Eye, EyeOff, RefreshCw, RotateCw } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { WebhookEndpoint } from './WebhookEndpointDialog';
+
+type WebhookDelivery = Tables<'webhook_deliveries'>;
+
+interface WebhookDetailsDialogProps {
+  endpoint: WebhookEndpoint | null;
+  onOpenChange: (open: boolean) => void;
+  onUpdate: () => void;
+}
+
+const getWebhookUrl = (endpointId: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/webhook-trigger/${endpointId}`;
+
+const SIGNING_EXAMPLE = `timestamp=$(date +%s)
+body='{"data": {"name": "Acme"}, "metadata": {}}'
+signature=$(printf '%s.%s' "$timestamp" "$body" | openssl dgst -sha256 -hmac "$SECRET" | cut -d' ' -f2)
+curl -X POST "$URL" \\
+  -H "Content-Type: application/json" \\
+  -H "X-Webhook-Timestamp: $timestamp" \\
+  -H "X-Webhook-Signature: sha256=$signature" \\
+  -d "$body"`;
+
+export function WebhookDetailsDialog({ endpoint, onOpenChange, onUpdate }: WebhookDetailsDialogProps) {
+  const [secret, setSecret] = useState('');
+  const [showSecret, setShowSecret] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [deliveriesLoading, setDeliveriesLoading] = useState(false);
+
+  const fetchDeliveries = async (endpointId: string) => {
+    setDeliveriesLoading(true);
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('webhook_endpoint_id', endpointId)
+      .order('received_at', { ascending: false })
+      .limit(25);
+    if (error) console.error('Error loading webhook deliveries:', error);
+    setDeliveries(data || []);
+    setDeliveriesLoading(false);
+  };
+
+  useEffect(() => {
+    if (!endpoint) return;
+    setSecret(endpoint.secret_key);
+    setShowSecret(false);
+    fetchDeliveries(endpoint.id);
+  }, [endpoint]);
+
+  const copyToClipboard = (value: string, label: string) => {
+    navigator.clipboard.writeText(value);
+    toast.success(`${label} copied`);
+  };
+
+  const handleRotate = async () => {
+    if (!endpoint) return;
+    if (!confirm('Rotate the signing secret? The current secret keeps working for 24 hours.')) return;
+
+    setIsRotating(true);
+    const { data, error } = await supabase.rpc('rotate_webhook_secret', { _endpoint_id: endpoint.id });
+    setIsRotating(false);
+    if (error || !data) {
+      console.error('Error rotating webhook secret:', error);
+      toast.error('Failed to rotate secret');
+      return;
+    }
+    setSecret(data);
+    setShowSecret(true);
+    toast.success('Secret rotated');
+    onUpdate();
+  };
+
+  const url = endpoint ? getWebhookUrl(endpoint.id) : '';
+
+  return (
+    <Dialog open={!!endpoint} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{endpoint?.name}</DialogTitle>
+          <DialogDescription>
+            Sign each request with HMAC-SHA256 over "timestamp.body" using the secret below.
+          </DialogDescription>
+        </DialogHeader>
+
+        {endpoint && (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label>Endpoint URL</Label>
+              <div className="flex gap-2">
+                <Input value={url} readOnly className="font-mono text-xs" />
+                <Button variant="outline" size="icon" onClick={() => copyToClipboard(url, 'URL')}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Signing Secret</Label>
+              <div className="flex gap-2">
+                <Input
+                  value={showSecret ? secret : 'whsec_' + '•'.repeat(24)}
+                  readOnly
+                  className="font-mono text-xs"
+                />
+                <Button variant="outline" size="icon" onClick={() => setShowSecret(!showSecret)}>
+                  {showSecret ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => copyToClipboard(secret, 'Secret')}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button variant="outline" onClick={handleRotate} disabled={isRotating}>
+                  <RotateCw className={`w-4 h-4 mr-2 ${isRotating ? 'animate-spin' : ''}`} />
+                  Rotate
+                </Button>
+              </div>
+              {endpoint.secret_rotated_at && (
+                <p className="text-xs text-muted-foreground">
+                  Last rotated {formatDistanceToNow(new Date(endpoint.secret_rotated_at), { addSuffix: true })}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Example</Label>
+              <pre className="bg-muted p-3 rounded text-xs overflow-auto whitespace-pre">{SIGNING_EXAMPLE}</pre>
+              <p className="text-xs text-muted-foreground">
+                Timestamps more than 5 minutes off are rejected, and each signature is accepted only once.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Recent Deliveries</Label>
+                <Button variant="ghost" size="sm" onClick={() => fetchDeliveries(endpoint.id)} disabled={deliveriesLoading}>
+                  <RefreshCw className={`w-4 h-4 ${deliveriesLoading ? 'animate-spin' : ''}`} />
+                </Button>
+              </div>
+              {deliveriesLoading ? (
+                <div className="space-y-2">
+                  {[...Array(3)].map((_, i) => (
+                    <Skeleton key={i} className="h-10" />
+                  ))}
+                </div>
+              ) : deliveries.length === 0 ? (
+                <p className="text-center py-6 text-sm text-muted-foreground">No deliveries yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Received</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Detail</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {deliveries.map(delivery => (
+                      <TableRow key={delivery.id}>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {formatDistanceToNow(new Date(delivery.received_at), { addSuffix: true })}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={delivery.status === 'accepted' ? 'default' : 'destructive'}>
+                            {delivery.status_code} {delivery.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="max-w-sm truncate text-sm text-muted-foreground">
+                          {delivery.error_message || (delivery.submission_id ? `Submission ${delivery.submission_id.slice(0, 8)}` : '-')}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
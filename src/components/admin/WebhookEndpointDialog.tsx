@@ -0,0 +1,123 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+
+export type WebhookEndpoint = Tables<'webhook_endpoints'>;
+
+interface WebhookEndpointDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workflows: { id: string; name: string }[];
+  companies: { id: string; name: string }[];
+  onCreated: (endpoint: WebhookEndpoint) => void;
+}
+
+export function WebhookEndpointDialog({ open, onOpenChange, workflows, companies, onCreated }: WebhookEndpointDialogProps) {
+  const [name, setName] = useState('');
+  const [workflowId, setWorkflowId] = useState('');
+  const [companyId, setCompanyId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName('');
+      setWorkflowId('');
+      setCompanyId('');
+    }
+  }, [open]);
+
+  const handleSave = async () => {
+    if (!name.trim() || !workflowId || !companyId) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // An empty secret is replaced by a generated whsec_ secret in the database
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .insert({ name: name.trim(), workflow_id: workflowId, company_id: companyId, secret_key: '' })
+        .select()
+        .single();
+      if (error) throw error;
+
+      toast.success('Webhook endpoint created');
+      onCreated(data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error creating webhook endpoint:', error);
+      toast.error('Failed to create webhook endpoint');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Webhook Endpoint</DialogTitle>
+          <DialogDescription>
+            Signed deliveries to this endpoint become submissions for the company and run the workflow.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-name">Name</Label>
+            <Input
+              id="webhook-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., CRM deal updates"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Workflow</Label>
+            <Select value={workflowId} onValueChange={setWorkflowId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select workflow" />
+              </SelectTrigger>
+              <SelectContent className="bg-popover z-50">
+                {workflows.map(w => (
+                  <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Company</Label>
+            <Select value={companyId} onValueChange={setCompanyId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select company" />
+              </SelectTrigger>
+              <SelectContent className="bg-popover z-50">
+                {companies.map(c => (
+                  <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Creating...' : 'Create Endpoint'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, RefreshCw, Settings2, Trash2, Webhook } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { WebhookEndpoint, WebhookEndpointDialog } from './WebhookEndpointDialog';
+import { WebhookDetailsDialog } from './WebhookDetailsDialog';
+
+export function WebhooksTab() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [workflows, setWorkflows] = useState<{ id: string; name: string }[]>([]);
+  const [companies, setCompanies] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [selectedEndpoint, setSelectedEndpoint] = useState<WebhookEndpoint | null>(null);
+
+  const fetchEndpoints = async () => {
+    const [endpointsResult, workflowsResult, companiesResult] = await Promise.all([
+      supabase.from('webhook_endpoints').select('*').order('created_at', { ascending: false }),
+      supabase.from('workflows').select('id, name').order('name'),
+      supabase.from('companies').select('id, name').order('name'),
+    ]);
+
+    if (endpointsResult.error) {
+      console.error('Error loading webhook endpoints:', endpointsResult.error);
+      toast.error('Failed to load webhook endpoints');
+    }
+    setEndpoints(endpointsResult.data || []);
+    setWorkflows(workflowsResult.data || []);
+    setCompanies(companiesResult.data || []);
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      await fetchEndpoints();
+      setLoading(false);
+    };
+    load();
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await fetchEndpoints();
+    setRefreshing(false);
+  };
+
+  const handleToggleActive = async (endpoint: WebhookEndpoint, isActive: boolean) => {
+    const { error } = await supabase
+      .from('webhook_endpoints')
+      .update({ is_active: isActive })
+      .eq('id', endpoint.id);
+    if (error) {
+      toast.error('Failed to update endpoint');
+      return;
+    }
+    toast.success(isActive ? 'Endpoint enabled' : 'Endpoint disabled');
+    fetchEndpoints();
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Delete webhook endpoint "${endpoint.name}"? Senders using it will get 404s.`)) return;
+    const { error } = await supabase.from('webhook_endpoints').delete().eq('id', endpoint.id);
+    if (error) {
+      toast.error('Failed to delete endpoint');
+      return;
+    }
+    toast.success('Endpoint deleted');
+    fetchEndpoints();
+  };
+
+  const workflowName = (id: string) => workflows.find(w => w.id === id)?.name || 'Unknown workflow';
+  const companyName = (id: string) => companies.find(c => c.id === id)?.name || 'Unknown company';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-2xl font-bold mb-2">Webhooks</h2>
+          <p className="text-muted-foreground">
+            Signed inbound endpoints that submit company data and trigger a workflow
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleRefresh} disabled={refreshing}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button onClick={() => setCreateOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Endpoint
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Endpoints</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12" />
+              ))}
+            </div>
+          ) : endpoints.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Webhook className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No webhook endpoints yet</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Workflow / Company</TableHead>
+                  <TableHead>Deliveries</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {endpoints.map(endpoint => (
+                  <TableRow key={endpoint.id}>
+                    <TableCell className="font-medium">{endpoint.name}</TableCell>
+                    <TableCell className="text-sm">
+                      <div>{workflowName(endpoint.workflow_id)}</div>
+                      <div className="text-xs text-muted-foreground">{companyName(endpoint.company_id)}</div>
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {endpoint.trigger_count}
+                      <div className="text-xs text-muted-foreground">
+                        {endpoint.last_triggered_at
+                          ? `Last ${formatDistanceToNow(new Date(endpoint.last_triggered_at), { addSuffix: true })}`
+                          : 'Never triggered'}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={endpoint.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(endpoint, checked)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="Details"
+                          onClick={() => setSelectedEndpoint(endpoint)}
+                        >
+                          <Settings2 className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="Delete"
+                          onClick={() => handleDelete(endpoint)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <WebhookEndpointDialog
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        workflows={workflows}
+        companies={companies}
+        onCreated={(endpoint) => {
+          fetchEndpoints();
+          setSelectedEndpoint(endpoint);
+        }}
+      />
+
+      <WebhookDetailsDialog
+        endpoint={selectedEndpoint}
+        onOpenChange={(open) => !open && setSelectedEndpoint(null)}
+        onUpdate={fetchEndpoints}
+      />
+    </div>
+  );
+}
@@ -19,7 +19,9 @@ import {
   ExternalLink,
   CheckCircle2,
   AlertCircle,
-  Square
+  Square,
+  RotateCcw,
+  PauseCircle
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
@@ -42,14 +44,23 @@ interface RunningWorkflow {
   workflow_id: string | null;
   workflow_name: string | null;
   node_label: string | null;
-  status: 'pending' | 'processing';
+  status: SubmissionStatus;
   source_type: string;
   trigger_type: string | null;
   started_at: string;
   progress: ProgressData | null;
   error_message: string | null;
+  // Failed cascade or force run that can be resumed from its failing node
+  resumable_run_id: string | null;
+  // Runs paused by a cost limit, continued together once approved
+  budget_paused_run_ids: string[];
 }
 
+type SubmissionStatus = 'pending' | 'processing' | 'budget_paused' | 'failed';
+
+// Failed submissions stay listed this long so they can be resumed
+const FAILED_VISIBLE_MS = 24 * 60 * 60 * 1000;
+
 export function WorkflowExecutionTracker() {
   const [workflows, setWorkflows] = useState<RunningWorkflow[]>([]);
   const [loading, setLoading] = useState(true);
@@ -61,7 +72,7 @@ export function WorkflowExecutionTracker() {
     const { data: fetchedSubmissions, error: subError } = await supabase
       .from('company_data_submissions')
       .select('id, company_id, status, source_type, raw_data, metadata, error_message, created_at, updated_at')
-      .in('status', ['pending', 'processing'])
+      .or(`status.in.(pending,processing,budget_paused),and(status.eq.failed,updated_at.gte.${new Date(Date.now() - FAILED_VISIBLE_MS).toISOString()})`)
       .order('created_at', { ascending: false });
 
     if (subError) {
@@ -77,8 +88,11 @@ export function WorkflowExecutionTracker() {
     // Auto-mark stale submissions (>10 min) as failed
     const STALE_THRESHOLD_MS = 10 * 60 * 1000;
     const now = Date.now();
+    // Pending portfolio-run submissions legitimately wait for a free concurrency slot
+    const isQueuedPortfolioRun = (s: (typeof fetchedSubmissions)[number]) =>
+      s.status === 'pending' && (s.raw_data as Record<string, unknown> | null)?._trigger === 'portfolio_run';
     const staleIds = fetchedSubmissions
-      .filter(s => now - new Date(s.updated_at).getTime() > STALE_THRESHOLD_MS)
+      .filter(s => (s.status === 'pending' || s.status === 'processing') && !isQueuedPortfolioRun(s) && now - new Date(s.updated_at).getTime() > STALE_THRESHOLD_MS)
       .map(s => s.id);
 
     if (staleIds.length > 0) {
@@ -111,13 +125,46 @@ export function WorkflowExecutionTracker() {
       })
       .filter((id): id is string => !!id);
 
-    const [companiesResult, workflowsResult] = await Promise.all([
+    const failedIds = activeSubmissions.filter(s => s.status === 'failed').map(s => s.id);
+    const budgetPausedIds = activeSubmissions.filter(s => s.status === 'budget_paused').map(s => s.id);
+
+    const [companiesResult, workflowsResult, runsResult, pausedRunsResult] = await Promise.all([
       supabase.from('companies').select('id, name').in('id', companyIds),
       workflowIds.length > 0 
         ? supabase.from('workflows').select('id, name').in('id', workflowIds)
         : Promise.resolve({ data: [] }),
+      failedIds.length > 0
+        ? supabase
+            .from('execution_runs')
+            .select('id, submission_id')
+            .in('submission_id', failedIds)
+            .in('status', ['failed', 'cancelled'])
+            .in('run_type', ['cascade', 'force_run'])
+            .order('created_at', { ascending: false })
+        : Promise.resolve({ data: [] }),
+      budgetPausedIds.length > 0
+        ? supabase
+            .from('execution_runs')
+            .select('id, submission_id')
+            .in('submission_id', budgetPausedIds)
+            .eq('status', 'budget_paused')
+        : Promise.resolve({ data: [] }),
     ]);
 
+    // Latest resumable run per failed submission
+    const resumableRunMap = new Map<string, string>();
+    for (const run of runsResult.data || []) {
+      if (run.submission_id && !resumableRunMap.has(run.submission_id)) {
+        resumableRunMap.set(run.submission_id, run.id);
+      }
+    }
+
+    const pausedRunMap = new Map<string, string[]>();
+    for (const run of pausedRunsResult.data || []) {
+      if (!run.submission_id) continue;
+      pausedRunMap.set(run.submission_id, [...(pausedRunMap.get(run.submission_id) || []), run.id]);
+    }
+
     const companyMap = new Map(
       (companiesResult.data || []).map(c => [c.id, c.name])
     );
@@ -140,18 +187,21 @@ export function WorkflowExecutionTracker() {
         workflow_id: workflowId,
         workflow_name: workflowId ? workflowMap.get(workflowId) || null : null,
         node_label: nodeLabel,
-        status: s.status as 'pending' | 'processing',
+        status: s.status as SubmissionStatus,
         source_type: s.source_type,
         trigger_type: trigger,
         started_at: s.status === 'processing' ? s.updated_at : s.created_at,
         progress,
         error_message: s.error_message,
+        resumable_run_id: resumableRunMap.get(s.id) || null,
+        budget_paused_run_ids: pausedRunMap.get(s.id) || [],
       };
     });
 
+    // Running first, then queued, then awaiting budget approval, then failed
+    const statusRank: Record<SubmissionStatus, number> = { processing: 0, pending: 1, budget_paused: 2, failed: 3 };
     running.sort((a, b) => {
-      if (a.status === 'processing' && b.status !== 'processing') return -1;
-      if (a.status !== 'processing' && b.status === 'processing') return 1;
+      if (a.status !== b.status) return statusRank[a.status] - statusRank[b.status];
       return new Date(b.started_at).getTime() - new Date(a.started_at).getTime();
     });
 
@@ -197,10 +247,17 @@ export function WorkflowExecutionTracker() {
 
   const runningCount = workflows.filter(w => w.status === 'processing').length;
   const queuedCount = workflows.filter(w => w.status === 'pending').length;
+  const failedCount = workflows.filter(w => w.status === 'failed').length;
+  const budgetPausedCount = workflows.filter(w => w.status === 'budget_paused').length;
 
   const handleStop = async (submissionId: string) => {
     // Signal cancellation to the in-browser orchestration loop
     useWorkflowStore.getState().cancelCascade(submissionId);
+    // Budget-paused runs become cancelled, so they can still be resumed later
+    await supabase.from('execution_runs')
+      .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+      .eq('submission_id', submissionId)
+      .eq('status', 'budget_paused');
     // Fallback: directly update DB for runs from other tabs
     const { error } = await supabase.from('company_data_submissions')
       .update({ status: 'failed', error_message: 'Cancelled by user' })
@@ -213,6 +270,37 @@ export function WorkflowExecutionTracker() {
     }
   };
 
+  // Resume on the job queue: same run and submission, only the failed node onwards re-runs
+  const handleResume = async (runId: string) => {
+    const { data, error } = await supabase.functions.invoke('run-company-workflows', {
+      body: { resume_run_id: runId },
+    });
+    if (error || !data?.success) {
+      console.error('Error resuming run:', error || data);
+      toast.error(data?.error || 'Failed to resume workflow');
+      return;
+    }
+    toast.success('Workflow resumed');
+    await fetchRunningWorkflows();
+  };
+
+  // Approve spending past the cost limit: every paused run of the cascade continues on the job queue
+  const handleApproveBudget = async (runIds: string[]) => {
+    for (const runId of runIds) {
+      const { data, error } = await supabase.functions.invoke('run-company-workflows', {
+        body: { resume_run_id: runId, approve_budget: true },
+      });
+      if (error || !data?.success) {
+        console.error('Error approving budget-paused run:', error || data);
+        toast.error(data?.error || 'Failed to continue workflow');
+        await fetchRunningWorkflows();
+        return;
+      }
+    }
+    toast.success('Approved - workflow continuing');
+    await fetchRunningWorkflows();
+  };
+
   const getSourceLabel = (sourceType: string, triggerType: string | null) => {
     if (triggerType === 'force_run' || triggerType === 'canvas_force_run') return 'Force Run';
     if (triggerType === 'node_force_run') return 'Node Force Run';
@@ -250,6 +338,18 @@ export function WorkflowExecutionTracker() {
                   <Clock className="w-3 h-3 mr-1" />
                   Queued ({queuedCount})
                 </Badge>
+                {budgetPausedCount > 0 && (
+                  <Badge variant="outline" className="border-amber-500 text-amber-600">
+                    <PauseCircle className="w-3 h-3 mr-1" />
+                    Awaiting approval ({budgetPausedCount})
+                  </Badge>
+                )}
+                {failedCount > 0 && (
+                  <Badge variant="destructive">
+                    <AlertCircle className="w-3 h-3 mr-1" />
+                    Failed ({failedCount})
+                  </Badge>
+                )}
               </div>
             </div>
             <Button 
@@ -284,6 +384,8 @@ export function WorkflowExecutionTracker() {
                     workflow={workflow} 
                     onNavigate={(id) => navigate(`/workflow/${id}`)}
                     onStop={handleStop}
+                    onResume={handleResume}
+                    onApproveBudget={handleApproveBudget}
                   />
                 ))}
               </div>
@@ -299,11 +401,18 @@ function WorkflowCard({
   workflow, 
   onNavigate,
   onStop,
+  onResume,
+  onApproveBudget,
 }: { 
   workflow: RunningWorkflow; 
   onNavigate: (id: string) => void;
   onStop: (submissionId: string) => void;
+  onResume: (runId: string) => void;
+  onApproveBudget: (runIds: string[]) => void;
 }) {
+  const isFailed = workflow.status === 'failed';
+  const isBudgetPaused = workflow.status === 'budget_paused';
+
   const progress = workflow.progress;
   const progressPercent = progress && progress.total > 0 
     ? Math.round((progress.completed_nodes / progress.total) * 100) 
@@ -323,18 +432,28 @@ function WorkflowCard({
       <div className="flex items-start justify-between">
         <div className="space-y-1 flex-1">
           <div className="flex items-center gap-2">
-            {workflow.status === 'processing' ? (
+            {isFailed ? (
+              <AlertCircle className="w-4 h-4 text-destructive" />
+            ) : isBudgetPaused ? (
+              <PauseCircle className="w-4 h-4 text-amber-500" />
+            ) : workflow.status === 'processing' ? (
               <Play className="w-4 h-4 text-blue-500 fill-blue-500" />
             ) : (
               <Clock className="w-4 h-4 text-muted-foreground" />
             )}
             <span className="font-medium">{workflow.company_name}</span>
-            <Badge 
-              variant={workflow.status === 'processing' ? 'default' : 'secondary'}
-              className={workflow.status === 'processing' ? 'bg-blue-500/10 text-blue-600 border-blue-200' : ''}
-            >
-              {workflow.status === 'processing' ? 'Running' : 'Queued'}
-            </Badge>
+            {isFailed ? (
+              <Badge variant="destructive">Failed</Badge>
+            ) : isBudgetPaused ? (
+              <Badge variant="outline" className="border-amber-500 text-amber-600">Budget paused</Badge>
+            ) : (
+              <Badge 
+                variant={workflow.status === 'processing' ? 'default' : 'secondary'}
+                className={workflow.status === 'processing' ? 'bg-blue-500/10 text-blue-600 border-blue-200' : ''}
+              >
+                {workflow.status === 'processing' ? 'Running' : 'Queued'}
+              </Badge>
+            )}
           </div>
           
           {/* Current execution info */}
@@ -349,6 +468,10 @@ function WorkflowCard({
                 {progress.current_workflow_name ? `${progress.current_workflow_name} > ` : ''}
                 {progress.current_node_label}
               </span>
+            ) : isFailed && workflow.error_message ? (
+              <span className="text-destructive">{workflow.error_message}</span>
+            ) : isBudgetPaused && workflow.error_message ? (
+              <span className="text-amber-600">{workflow.error_message}</span>
             ) : workflow.workflow_name ? (
               <span>Workflow: {workflow.workflow_name}</span>
             ) : workflow.node_label ? (
@@ -366,15 +489,42 @@ function WorkflowCard({
         </div>
         
         <div className="flex items-center gap-1">
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => onStop(workflow.id)}
-            className="text-destructive hover:text-destructive"
-          >
-            <Square className="w-3.5 h-3.5 mr-1 fill-current" />
-            Stop
-          </Button>
+          {isFailed ? (
+            workflow.resumable_run_id && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onResume(workflow.resumable_run_id!)}
+                title="Re-run the failed node and everything after it, reusing completed outputs"
+              >
+                <RotateCcw className="w-3.5 h-3.5 mr-1" />
+                Resume
+              </Button>
+            )
+          ) : (
+            <>
+              {isBudgetPaused && workflow.budget_paused_run_ids.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onApproveBudget(workflow.budget_paused_run_ids)}
+                  title="Allow this cascade to spend past the cost limit and finish its remaining nodes"
+                >
+                  <Play className="w-3.5 h-3.5 mr-1" />
+                  Approve &amp; continue
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onStop(workflow.id)}
+                className="text-destructive hover:text-destructive"
+              >
+                <Square className="w-3.5 h-3.5 mr-1 fill-current" />
+                Stop
+              </Button>
+            </>
+          )}
           {workflow.workflow_id && (
             <Button
               variant="ghost"
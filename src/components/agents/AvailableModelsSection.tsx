@@ -9,6 +9,7 @@ import {
   LAST_UPDATED, 
   formatTokenCount, 
   formatCost,
+  type ModelProvider,
 } from '@/lib/modelRegistry';
 import { useModelPricing } from '@/hooks/useModelPricing';
 import { ManualOverrideDialog } from './ManualOverrideDialog';
@@ -16,7 +17,7 @@ import { ManualOverrideDialog } from './ManualOverrideDialog';
 interface EffectiveModelInfo {
   id: string;
   displayName: string;
-  provider: 'google' | 'openai' | 'perplexity';
+  provider: ModelProvider;
   description: string;
   contextWindow: number;
   maxOutputTokens: number;
@@ -107,7 +108,7 @@ function ProviderSection({
   title, 
   models 
 }: { 
-  provider: 'google' | 'openai' | 'perplexity'; 
+  provider: ModelProvider;
   title: string; 
   models: EffectiveModelInfo[];
 }) {
@@ -183,6 +184,8 @@ export function AvailableModelsSection() {
         <ProviderSection provider="google" title="Google Gemini" models={models} />
         <ProviderSection provider="openai" title="OpenAI GPT" models={models} />
         <ProviderSection provider="perplexity" title="Perplexity Sonar" models={models} />
+        <ProviderSection provider="self-hosted" title="Self-hosted" models={models} />
+        <ProviderSection provider="mock" title="Testing" models={models} />
       </div>
 
       <Alert>
@@ -169,7 +169,8 @@ export function ModelVerificationPanel() {
     setIsVerifying(true);
     try {
       const { data, error } = await supabase.functions.invoke('verify-model-data', {
-        body: { models: MODEL_REGISTRY },
+        // Self-hosted and mock models have no published pricing to research
+        body: { models: MODEL_REGISTRY.filter(m => m.provider !== 'self-hosted' && m.provider !== 'mock') },
       });
 
       if (error) throw error;
@@ -2,7 +2,9 @@ import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Coins, Hash, Zap, TrendingUp } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Coins, Hash, Zap, TrendingUp, Wallet } from 'lucide-react';
+import { format, startOfMonth } from 'date-fns';
 
 interface CategoryBreakdown {
   generation: { calls: number; cost: number; tokens: number };
@@ -21,6 +23,25 @@ interface UsageSummary {
   categoryBreakdown: CategoryBreakdown;
 }
 
+interface CompanyBudgetUsage {
+  companyId: string;
+  companyName: string;
+  tokensUsed: number;
+  tokenBudget: number | null;
+  costUsed: number;
+  costBudget: number | null;
+  apiRequests: number;
+}
+
+// Share of the tighter budget used, 0-100; null when the company has no budget
+const budgetUsedPercent = (usage: CompanyBudgetUsage): number | null => {
+  const shares = [
+    usage.tokenBudget ? usage.tokensUsed / usage.tokenBudget : null,
+    usage.costBudget ? usage.costUsed / usage.costBudget : null,
+  ].filter((share): share is number => share !== null);
+  return shares.length > 0 ? Math.min(Math.max(...shares) * 100, 100) : null;
+};
+
 export const AIUsageOverview = () => {
   const { data: summary, isLoading } = useQuery({
     queryKey: ['ai-usage', 'summary'],
@@ -108,6 +129,43 @@ export const AIUsageOverview = () => {
     staleTime: 30000,
   });
 
+  // This month's per-company usage (rolled up into company_usage) against monthly budgets
+  const { data: companyBudgets } = useQuery({
+    queryKey: ['ai-usage', 'company-budgets'],
+    queryFn: async (): Promise<CompanyBudgetUsage[]> => {
+      const period = format(startOfMonth(new Date()), 'yyyy-MM-dd');
+      const [companiesResult, usageResult] = await Promise.all([
+        supabase.from('companies').select('id, name, monthly_token_budget, monthly_cost_budget'),
+        supabase
+          .from('company_usage')
+          .select('company_id, ai_tokens_used, ai_cost, api_requests')
+          .eq('period', period),
+      ]);
+
+      if (companiesResult.error) throw companiesResult.error;
+      if (usageResult.error) throw usageResult.error;
+
+      const usageByCompany = new Map((usageResult.data || []).map(u => [u.company_id, u]));
+      return (companiesResult.data || [])
+        .map(company => {
+          const usage = usageByCompany.get(company.id);
+          return {
+            companyId: company.id,
+            companyName: company.name,
+            tokensUsed: usage?.ai_tokens_used || 0,
+            tokenBudget: company.monthly_token_budget,
+            costUsed: Number(usage?.ai_cost) || 0,
+            costBudget: company.monthly_cost_budget !== null ? Number(company.monthly_cost_budget) : null,
+            apiRequests: usage?.api_requests || 0,
+          };
+        })
+        .filter(u => u.tokenBudget !== null || u.costBudget !== null || u.tokensUsed > 0)
+        .sort((a, b) => (budgetUsedPercent(b) ?? -1) - (budgetUsedPercent(a) ?? -1) || b.costUsed - a.costUsed);
+    },
+    refetchOnWindowFocus: true,
+    staleTime: 30000,
+  });
+
   const formatNumber = (num: number): string => {
     if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(2)}M`;
     if (num >= 1_000) return `${(num / 1_000).toFixed(1)}K`;
@@ -143,61 +201,104 @@ export const AIUsageOverview = () => {
   }
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Total Tokens</CardTitle>
-          <Hash className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">{formatNumber(summary?.totalTokens || 0)}</div>
-          <p className="text-xs text-muted-foreground">
-            {formatNumber(summary?.promptTokens || 0)} in / {formatNumber(summary?.completionTokens || 0)} out
-          </p>
-        </CardContent>
-      </Card>
-
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Estimated Cost</CardTitle>
-          <Coins className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">${formatCost(summary?.totalCost || 0)}</div>
-          <p className="text-xs text-muted-foreground">
-            Gen: ${formatCost(summary?.categoryBreakdown?.generation?.cost || 0)} • 
-            Eval: ${formatCost(summary?.categoryBreakdown?.evaluation?.cost || 0)}
-          </p>
-        </CardContent>
-      </Card>
-
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">AI Calls</CardTitle>
-          <Zap className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">{summary?.totalCalls || 0}</div>
-          <p className="text-xs text-muted-foreground">
-            Total API calls
-          </p>
-        </CardContent>
-      </Card>
-
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Most Used Model</CardTitle>
-          <TrendingUp className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold truncate">
-            {formatModelName(summary?.mostUsedModel || null)}
-          </div>
-          <p className="text-xs text-muted-foreground">
-            By call count
-          </p>
-        </CardContent>
-      </Card>
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Tokens</CardTitle>
+            <Hash className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatNumber(summary?.totalTokens || 0)}</div>
+            <p className="text-xs text-muted-foreground">
+              {formatNumber(summary?.promptTokens || 0)} in / {formatNumber(summary?.completionTokens || 0)} out
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Estimated Cost</CardTitle>
+            <Coins className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">${formatCost(summary?.totalCost || 0)}</div>
+            <p className="text-xs text-muted-foreground">
+              Gen: ${formatCost(summary?.categoryBreakdown?.generation?.cost || 0)} • 
+              Eval: ${formatCost(summary?.categoryBreakdown?.evaluation?.cost || 0)}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">AI Calls</CardTitle>
+            <Zap className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary?.totalCalls || 0}</div>
+            <p className="text-xs text-muted-foreground">
+              Total API calls
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Most Used Model</CardTitle>
+            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold truncate">
+              {formatModelName(summary?.mostUsedModel || null)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              By call count
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {companyBudgets && companyBudgets.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Company Budgets ({format(new Date(), 'MMMM')})</CardTitle>
+            <Wallet className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {companyBudgets.map(usage => {
+              const percent = budgetUsedPercent(usage);
+              return (
+                <div key={usage.companyId} className="space-y-1">
+                  <div className="flex items-center justify-between gap-4 text-sm">
+                    <span className="font-medium truncate">{usage.companyName}</span>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {formatNumber(usage.tokensUsed)}{usage.tokenBudget !== null && ` / ${formatNumber(usage.tokenBudget)}`} tokens •{' '}
+                      ${formatCost(usage.costUsed)}{usage.costBudget !== null && ` / $${usage.costBudget.toFixed(2)}`} •{' '}
+                      {usage.apiRequests} API requests
+                    </span>
+                  </div>
+                  {percent !== null ? (
+                    <div className="flex items-center gap-2">
+                      <Progress value={percent} className="h-2" />
+                      <span className={`text-xs whitespace-nowrap ${percent >= 100 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                        {percent >= 100
+                          ? 'Budget exhausted'
+                          : [
+                              usage.tokenBudget !== null && `${formatNumber(usage.tokenBudget - usage.tokensUsed)} tokens left`,
+                              usage.costBudget !== null && `$${(usage.costBudget - usage.costUsed).toFixed(2)} left`,
+                            ].filter(Boolean).join(' • ')}
+                      </span>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">No budget set</p>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Json } from '@/integrations/supabase/types';
+
+interface CostBudgetSettings {
+  enabled: boolean;
+  per_run_usd: number | null;
+  per_company_daily_usd: number | null;
+  daily_usd: number | null;
+}
+
+type LimitKey = Exclude<keyof CostBudgetSettings, 'enabled'>;
+
+const LIMIT_FIELDS: Array<{ key: LimitKey; label: string; hint: string }> = [
+  { key: 'per_run_usd', label: 'Per run ($)', hint: 'One cascade for one company' },
+  { key: 'per_company_daily_usd', label: 'Per company per day ($)', hint: 'All cascades for a company today (UTC)' },
+  { key: 'daily_usd', label: 'Per day ($)', hint: 'All companies today (UTC)' },
+];
+
+const DEFAULT_SETTINGS: CostBudgetSettings = {
+  enabled: false,
+  per_run_usd: null,
+  per_company_daily_usd: null,
+  daily_usd: null,
+};
+
+export function CascadeCostLimitsCard() {
+  const [settingsId, setSettingsId] = useState<string | null>(null);
+  const [enabled, setEnabled] = useState(false);
+  const [limits, setLimits] = useState<Record<LimitKey, string>>({ per_run_usd: '', per_company_daily_usd: '', daily_usd: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('id, cost_budget_settings')
+        .limit(1)
+        .maybeSingle();
+      if (error) console.error('Error loading cost limits:', error);
+
+      const settings = { ...DEFAULT_SETTINGS, ...(data?.cost_budget_settings as Partial<CostBudgetSettings> | null) };
+      setSettingsId(data?.id ?? null);
+      setEnabled(settings.enabled);
+      setLimits({
+        per_run_usd: settings.per_run_usd?.toString() ?? '',
+        per_company_daily_usd: settings.per_company_daily_usd?.toString() ?? '',
+        daily_usd: settings.daily_usd?.toString() ?? '',
+      });
+      setLoading(false);
+    };
+    loadSettings();
+  }, []);
+
+  const handleSave = async () => {
+    const settings: CostBudgetSettings = { ...DEFAULT_SETTINGS, enabled };
+    for (const { key, label } of LIMIT_FIELDS) {
+      const value = limits[key].trim();
+      if (!value) continue;
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || parsed < 0) {
+        toast.error(`${label} must be a non-negative number`);
+        return;
+      }
+      settings[key] = parsed;
+    }
+
+    setSaving(true);
+    const payload = settings as unknown as Json;
+    const { error } = settingsId
+      ? await supabase
+          .from('app_settings')
+          .update({ cost_budget_settings: payload, updated_at: new Date().toISOString() })
+          .eq('id', settingsId)
+      : await supabase.from('app_settings').insert({ cost_budget_settings: payload });
+    setSaving(false);
+
+    if (error) {
+      toast.error('Failed to save cost limits: ' + error.message);
+      return;
+    }
+    toast.success('Cost limits saved');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-4 w-4" />
+              Cascade Cost Limits
+            </CardTitle>
+            <CardDescription>
+              Cascades that would cross a limit pause and wait for approval in Errors &amp; Alerts. Empty means no limit.
+            </CardDescription>
+          </div>
+          <Switch checked={enabled} onCheckedChange={setEnabled} disabled={loading} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <Skeleton className="h-16" />
+        ) : (
+          <div className="grid gap-4 md:grid-cols-3">
+            {LIMIT_FIELDS.map(({ key, label, hint }) => (
+              <div key={key} className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{label}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={limits[key]}
+                  onChange={e => setLimits(prev => ({ ...prev, [key]: e.target.value }))}
+                  placeholder="No limit"
+                  className="h-8"
+                  disabled={!enabled}
+                />
+                <p className="text-xs text-muted-foreground">{hint}</p>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={loading || saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Limits
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Company } from '@/types/company';
+
+interface BudgetStatus {
+  allowed: boolean;
+  reset_at: string;
+  tokens_used: number;
+  token_budget: number | null;
+  cost_used: number;
+  cost_budget: number | null;
+}
+
+interface CompanyUsageLimitsCardProps {
+  company: Company;
+  onUpdated: (changes: Pick<Company, 'monthly_token_budget' | 'monthly_cost_budget'>) => void;
+}
+
+// Empty input means no budget
+const parseBudget = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : NaN;
+};
+
+export function CompanyUsageLimitsCard({ company, onUpdated }: CompanyUsageLimitsCardProps) {
+  const [tokenBudget, setTokenBudget] = useState('');
+  const [costBudget, setCostBudget] = useState('');
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setTokenBudget(company.monthly_token_budget?.toString() ?? '');
+    setCostBudget(company.monthly_cost_budget?.toString() ?? '');
+  }, [company.id, company.monthly_token_budget, company.monthly_cost_budget]);
+
+  const fetchBudget = useCallback(async () => {
+    const { data, error } = await supabase.rpc('check_company_budget', { _company_id: company.id });
+    if (error) {
+      console.error('Error loading company budget:', error);
+      return;
+    }
+    setBudget(data as unknown as BudgetStatus);
+  }, [company.id]);
+
+  useEffect(() => {
+    fetchBudget();
+  }, [fetchBudget]);
+
+  const handleSave = async () => {
+    const monthlyTokenBudget = parseBudget(tokenBudget);
+    const monthlyCostBudget = parseBudget(costBudget);
+    if (Number.isNaN(monthlyTokenBudget) || Number.isNaN(monthlyCostBudget)) {
+      toast.error('Budgets must be non-negative numbers');
+      return;
+    }
+
+    setSaving(true);
+    const changes = {
+      monthly_token_budget: monthlyTokenBudget === null ? null : Math.round(monthlyTokenBudget),
+      monthly_cost_budget: monthlyCostBudget,
+    };
+    const { error } = await supabase.from('companies').update(changes).eq('id', company.id);
+    setSaving(false);
+
+    if (error) {
+      toast.error('Failed to update budgets: ' + error.message);
+      return;
+    }
+    toast.success('Budgets updated');
+    onUpdated(changes);
+    fetchBudget();
+  };
+
+  const tokenPercent = budget?.token_budget ? Math.min((budget.tokens_used / budget.token_budget) * 100, 100) : null;
+  const costPercent = budget?.cost_budget ? Math.min((Number(budget.cost_used) / Number(budget.cost_budget)) * 100, 100) : null;
+  const changed =
+    tokenBudget !== (company.monthly_token_budget?.toString() ?? '') ||
+    costBudget !== (company.monthly_cost_budget?.toString() ?? '');
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium">Usage Limits</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label className="text-xs text-muted-foreground">Rate Limit</Label>
+            <div className="font-medium">{company.rate_limit_rpm} req/min</div>
+          </div>
+          <div>
+            <Label className="text-xs text-muted-foreground">Storage Quota</Label>
+            <div className="font-medium">{company.storage_quota_mb} MB</div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Monthly Token Budget</Label>
+            <Input
+              type="number"
+              min={0}
+              value={tokenBudget}
+              onChange={e => setTokenBudget(e.target.value)}
+              placeholder="Unlimited"
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Monthly Cost Budget ($)</Label>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              value={costBudget}
+              onChange={e => setCostBudget(e.target.value)}
+              placeholder="Unlimited"
+              className="h-8"
+            />
+          </div>
+        </div>
+        {changed && (
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Budgets
+            </Button>
+          </div>
+        )}
+
+        {budget && (
+          <div className="space-y-2 pt-3 border-t">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>This month</span>
+              {!budget.allowed && <span className="text-destructive font-medium">Budget exhausted</span>}
+            </div>
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span>{budget.tokens_used.toLocaleString()} tokens</span>
+                {budget.token_budget !== null && <span>of {budget.token_budget.toLocaleString()}</span>}
+              </div>
+              {tokenPercent !== null && <Progress value={tokenPercent} className="h-2" />}
+            </div>
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span>${Number(budget.cost_used).toFixed(4)}</span>
+                {budget.cost_budget !== null && <span>of ${Number(budget.cost_budget).toFixed(2)}</span>}
+              </div>
+              {costPercent !== null && <Progress value={costPercent} className="h-2" />}
+            </div>
+            <p className="text-xs text-muted-foreground">Resets {budget.reset_at}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,6 +8,8 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   History,
   ArrowRight,
@@ -20,10 +22,12 @@ import {
   Trash2,
   CheckCircle2,
   Loader2,
+  GitBranch,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { CompanyDomain } from '@/types/company-master';
+import { FieldLineageView, type MasterDataSourceReference } from './FieldLineageView';
 
 interface HistoryRecord {
   id: string;
@@ -67,10 +71,19 @@ export function FieldHistoryDialog({
 }: FieldHistoryDialogProps) {
   const [history, setHistory] = useState<HistoryRecord[]>([]);
   const [loading, setLoading] = useState(false);
+  const [activeTab, setActiveTab] = useState('history');
+  const [referenceLoading, setReferenceLoading] = useState(false);
+  const [companyId, setCompanyId] = useState<string | null>(null);
+  const [currentReference, setCurrentReference] = useState<MasterDataSourceReference | null>(null);
+  // Revision whose lineage is shown instead of the current value's
+  const [lineageRecord, setLineageRecord] = useState<HistoryRecord | null>(null);
 
   useEffect(() => {
     if (open && field) {
+      setActiveTab('history');
+      setLineageRecord(null);
       fetchHistory(field.id);
+      fetchSourceReference(field.id);
     }
   }, [open, field]);
 
@@ -88,6 +101,27 @@ export function FieldHistoryDialog({
     setLoading(false);
   };
 
+  const fetchSourceReference = async (masterDataId: string) => {
+    setReferenceLoading(true);
+    const { data } = await supabase
+      .from('company_master_data')
+      .select('company_id, source_reference')
+      .eq('id', masterDataId)
+      .maybeSingle();
+
+    setCompanyId(data?.company_id ?? null);
+    setCurrentReference((data?.source_reference as MasterDataSourceReference | null) ?? null);
+    setReferenceLoading(false);
+  };
+
+  const getRecordReference = (record: HistoryRecord): MasterDataSourceReference | null =>
+    (record.change_metadata?.source_reference as MasterDataSourceReference | undefined) ?? null;
+
+  const showRecordLineage = (record: HistoryRecord) => {
+    setLineageRecord(record);
+    setActiveTab('lineage');
+  };
+
   const formatValue = (value: unknown): string => {
     if (value === null || value === undefined) return 'null';
     if (typeof value === 'object') return JSON.stringify(value);
@@ -184,96 +218,129 @@ export function FieldHistoryDialog({
           </div>
         </div>
 
-        <Separator />
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 min-h-0">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="history">Revision Timeline</TabsTrigger>
+            <TabsTrigger value="lineage">Lineage</TabsTrigger>
+          </TabsList>
 
-        {/* Timeline */}
-        <div className="flex-1 min-h-0">
-          <h4 className="text-sm font-medium text-muted-foreground mb-3">
-            Revision Timeline
-          </h4>
-
-          {loading ? (
-            <div className="flex items-center justify-center py-8">
-              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
-            </div>
-          ) : history.length === 0 ? (
-            <div className="flex flex-col items-center justify-center py-8 text-center">
-              <History className="h-8 w-8 text-muted-foreground mb-2" />
-              <p className="text-sm text-muted-foreground">
-                No revision history available
-              </p>
-            </div>
-          ) : (
-            <ScrollArea className="h-[300px] pr-4">
-              <div className="space-y-4">
-                {history.map((record, index) => (
-                  <div key={record.id} className="relative">
-                    {/* Timeline line */}
-                    {index < history.length - 1 && (
-                      <div className="absolute left-[7px] top-8 bottom-0 w-px bg-border" />
-                    )}
+          {/* Timeline */}
+          <TabsContent value="history" className="min-h-0">
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : history.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-8 text-center">
+                <History className="h-8 w-8 text-muted-foreground mb-2" />
+                <p className="text-sm text-muted-foreground">
+                  No revision history available
+                </p>
+              </div>
+            ) : (
+              <ScrollArea className="h-[300px] pr-4">
+                <div className="space-y-4">
+                  {history.map((record, index) => (
+                    <div key={record.id} className="relative">
+                      {/* Timeline line */}
+                      {index < history.length - 1 && (
+                        <div className="absolute left-[7px] top-8 bottom-0 w-px bg-border" />
+                      )}
 
-                    <div className="flex gap-3">
-                      {/* Timeline dot */}
-                      <div className="flex-shrink-0 mt-1">
-                        <div className={`w-4 h-4 rounded-full flex items-center justify-center ${
-                          index === 0 
-                            ? 'bg-primary' 
-                            : 'bg-muted border-2 border-border'
-                        }`}>
-                          {index === 0 && (
-                            <div className="w-2 h-2 rounded-full bg-primary-foreground" />
-                          )}
+                      <div className="flex gap-3">
+                        {/* Timeline dot */}
+                        <div className="flex-shrink-0 mt-1">
+                          <div className={`w-4 h-4 rounded-full flex items-center justify-center ${
+                            index === 0 
+                              ? 'bg-primary' 
+                              : 'bg-muted border-2 border-border'
+                          }`}>
+                            {index === 0 && (
+                              <div className="w-2 h-2 rounded-full bg-primary-foreground" />
+                            )}
+                          </div>
                         </div>
-                      </div>
 
-                      {/* Content */}
-                      <div className="flex-1 pb-4">
-                        <div className="flex items-center gap-2 mb-1">
-                          <Badge 
-                            variant="outline" 
-                            className="text-xs gap-1"
-                          >
-                            {getChangeTypeIcon(record.change_type)}
-                            {getChangeTypeLabel(record.change_type)}
-                          </Badge>
-                          <Badge variant="secondary" className="text-xs">
-                            v{record.version}
-                          </Badge>
-                        </div>
+                        {/* Content */}
+                        <div className="flex-1 pb-4">
+                          <div className="flex items-center gap-2 mb-1">
+                            <Badge 
+                              variant="outline" 
+                              className="text-xs gap-1"
+                            >
+                              {getChangeTypeIcon(record.change_type)}
+                              {getChangeTypeLabel(record.change_type)}
+                            </Badge>
+                            <Badge variant="secondary" className="text-xs">
+                              v{record.version}
+                            </Badge>
+                          </div>
 
-                        <p className="text-xs text-muted-foreground mb-2">
-                          {record.created_at
-                            ? format(new Date(record.created_at), 'MMM d, yyyy \'at\' h:mm a')
-                            : 'Unknown date'}
-                        </p>
+                          <p className="text-xs text-muted-foreground mb-2">
+                            {record.created_at
+                              ? format(new Date(record.created_at), 'MMM d, yyyy \'at\' h:mm a')
+                              : 'Unknown date'}
+                          </p>
 
-                        {/* Value change */}
-                        <div className="bg-muted/30 rounded p-2 text-xs space-y-1">
-                          <div className="flex items-center gap-2 flex-wrap">
-                            <span className="text-muted-foreground line-through">
-                              {truncateValue(formatValue(record.previous_value))}
-                            </span>
-                            <ArrowRight className="h-3 w-3 text-muted-foreground flex-shrink-0" />
-                            <span className="font-medium">
-                              {truncateValue(formatValue(record.new_value))}
-                            </span>
+                          {/* Value change */}
+                          <div className="bg-muted/30 rounded p-2 text-xs space-y-1">
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <span className="text-muted-foreground line-through">
+                                {truncateValue(formatValue(record.previous_value))}
+                              </span>
+                              <ArrowRight className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+                              <span className="font-medium">
+                                {truncateValue(formatValue(record.new_value))}
+                              </span>
+                            </div>
                           </div>
-                        </div>
 
-                        {/* Source */}
-                        <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
-                          {getSourceIcon(record.change_source)}
-                          <span>Source: {getSourceLabel(record.change_source)}</span>
+                          {/* Source */}
+                          <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+                            {getSourceIcon(record.change_source)}
+                            <span>Source: {getSourceLabel(record.change_source)}</span>
+                            {getRecordReference(record)?.source_node_id && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 px-2 ml-auto text-xs gap-1"
+                                onClick={() => showRecordLineage(record)}
+                              >
+                                <GitBranch className="h-3 w-3" />
+                                Lineage
+                              </Button>
+                            )}
+                          </div>
                         </div>
                       </div>
                     </div>
-                  </div>
-                ))}
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </TabsContent>
+
+          <TabsContent value="lineage" className="min-h-0">
+            {lineageRecord && (
+              <div className="flex items-center gap-2 mb-2 text-xs text-muted-foreground">
+                <span>Showing lineage of v{lineageRecord.version}</span>
+                <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setLineageRecord(null)}>
+                  Show current value
+                </Button>
               </div>
-            </ScrollArea>
-          )}
-        </div>
+            )}
+            {referenceLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <FieldLineageView
+                companyId={companyId}
+                sourceReference={lineageRecord ? getRecordReference(lineageRecord) : currentReference}
+              />
+            )}
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,271 @@
+import { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, ArrowDown, FileText, GitBranch, Loader2, Workflow } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { getSourceDisplayName } from '@/lib/submissionUtils';
+
+// Written by the SSOT map on company_master_data.source_reference
+export interface MasterDataSourceReference {
+  workflow_id?: string;
+  node_id?: string;
+  node_label?: string;
+  source_workflow_id?: string;
+  source_node_id?: string;
+  source_node_label?: string;
+  source_content_hash?: string;
+  json_path?: string;
+  mapped_at?: string;
+}
+
+// Written by the edge functions on company_node_data.lineage
+interface NodeLineage {
+  inputs?: Array<{ workflow_id: string; node_id: string; content_hash: string | null }>;
+  submission_id?: string | null;
+  intake_fields?: string[];
+}
+
+interface LineageStep {
+  key: string;
+  depth: number;
+  nodeId: string;
+  workflowId: string;
+  label: string;
+  nodeType: string | null;
+  excerpt: string | null;
+  lastExecutedAt: string | null;
+  // The downstream output was computed from a different version of this output
+  changedSince: boolean;
+  missing: boolean;
+}
+
+interface LineageSubmission {
+  id: string;
+  sourceType: string;
+  submittedAt: string;
+  fields: Array<{ key: string; value: string }>;
+}
+
+interface FieldLineageViewProps {
+  companyId: string | null;
+  sourceReference: MasterDataSourceReference | null;
+}
+
+// Upstream outputs walked before giving up on very wide graphs
+const MAX_LINEAGE_STEPS = 50;
+
+const excerptOf = (value: unknown, maxLength = 240): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > maxLength ? `${text.substring(0, maxLength)}...` : text;
+};
+
+// Outputs stored before lineage was recorded only have dependency hashes, keyed "node" or "workflow:node"
+const inputsFromDependencyHashes = (hashes: unknown, workflowId: string): NonNullable<NodeLineage['inputs']> =>
+  Object.entries((hashes as Record<string, string> | null) || {}).map(([key, hash]) => {
+    const [depWorkflowId, depNodeId] = key.includes(':') ? key.split(':') : [workflowId, key];
+    return { workflow_id: depWorkflowId, node_id: depNodeId, content_hash: hash || null };
+  });
+
+export function FieldLineageView({ companyId, sourceReference }: FieldLineageViewProps) {
+  const [steps, setSteps] = useState<LineageStep[]>([]);
+  const [submissions, setSubmissions] = useState<LineageSubmission[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const sourceNodeId = sourceReference?.source_node_id;
+    const sourceWorkflowId = sourceReference?.source_workflow_id || sourceReference?.workflow_id;
+    if (!companyId || !sourceNodeId || !sourceWorkflowId) {
+      setSteps([]);
+      setSubmissions([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const walkLineage = async () => {
+      setLoading(true);
+      const found: LineageStep[] = [];
+      const submissionFields = new Map<string, Set<string>>();
+      const visited = new Set<string>();
+      const queue = [{ workflowId: sourceWorkflowId, nodeId: sourceNodeId, expectedHash: sourceReference?.source_content_hash ?? null, depth: 0 }];
+
+      while (queue.length > 0 && found.length < MAX_LINEAGE_STEPS) {
+        const next = queue.shift()!;
+        const key = `${next.workflowId}:${next.nodeId}`;
+        if (visited.has(key)) continue;
+        visited.add(key);
+
+        const { data: row } = await supabase
+          .from('company_node_data')
+          .select('node_label, node_type, data, content_hash, dependency_hashes, lineage, last_executed_at')
+          .match({ company_id: companyId, workflow_id: next.workflowId, node_id: next.nodeId })
+          .maybeSingle();
+
+        const output = (row?.data as { output?: unknown } | null)?.output;
+        found.push({
+          key,
+          depth: next.depth,
+          nodeId: next.nodeId,
+          workflowId: next.workflowId,
+          label: row?.node_label || next.nodeId,
+          nodeType: row?.node_type ?? null,
+          excerpt: excerptOf(output),
+          lastExecutedAt: row?.last_executed_at ?? null,
+          changedSince: !!(row?.content_hash && next.expectedHash && row.content_hash !== next.expectedHash),
+          missing: !row,
+        });
+        if (!row) continue;
+
+        const lineage = row.lineage as NodeLineage | null;
+        if (lineage?.submission_id) {
+          const fields = submissionFields.get(lineage.submission_id) || new Set<string>();
+          (lineage.intake_fields || []).forEach(field => fields.add(field));
+          submissionFields.set(lineage.submission_id, fields);
+        }
+        const inputs = lineage?.inputs ?? inputsFromDependencyHashes(row.dependency_hashes, next.workflowId);
+        for (const input of inputs) {
+          queue.push({ workflowId: input.workflow_id, nodeId: input.node_id, expectedHash: input.content_hash, depth: next.depth + 1 });
+        }
+      }
+
+      const submissionIds = Array.from(submissionFields.keys());
+      let loadedSubmissions: LineageSubmission[] = [];
+      if (submissionIds.length > 0) {
+        const { data, error } = await supabase
+          .from('company_data_submissions')
+          .select('id, raw_data, source_type, submitted_at')
+          .in('id', submissionIds);
+        if (error) console.error('Error loading lineage submissions:', error);
+        loadedSubmissions = (data || []).map(submission => {
+          const intakeFields = ((submission.raw_data as Record<string, unknown> | null)?.intake_fields || {}) as Record<string, { value?: unknown } | null>;
+          const contributing = submissionFields.get(submission.id)!;
+          const keys = contributing.size > 0 ? Array.from(contributing) : Object.keys(intakeFields);
+          return {
+            id: submission.id,
+            sourceType: submission.source_type,
+            submittedAt: submission.submitted_at,
+            fields: keys
+              .map(fieldKey => ({ key: fieldKey, value: excerptOf(intakeFields[fieldKey]?.value, 400) }))
+              .filter((field): field is { key: string; value: string } => field.value !== null),
+          };
+        });
+      }
+
+      if (cancelled) return;
+      setSteps(found);
+      setSubmissions(loadedSubmissions);
+      setTruncated(queue.length > 0);
+      setLoading(false);
+    };
+
+    walkLineage();
+    return () => {
+      cancelled = true;
+    };
+  }, [companyId, sourceReference]);
+
+  if (!sourceReference?.source_node_id) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-center">
+        <GitBranch className="h-8 w-8 text-muted-foreground mb-2" />
+        <p className="text-sm text-muted-foreground">
+          This value was not written by a workflow, so it has no lineage
+        </p>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-[360px] pr-4">
+      <div className="space-y-2">
+        {/* Mapping into master data */}
+        <div className="rounded-md border bg-muted/30 p-2 text-xs space-y-1">
+          <div className="flex items-center gap-2 font-medium">
+            <Workflow className="h-3 w-3 text-muted-foreground" />
+            Mapped by {sourceReference.node_label || sourceReference.node_id}
+          </div>
+          <p className="text-muted-foreground">
+            From <span className="font-mono">{sourceReference.json_path || 'output'}</span>
+            {sourceReference.mapped_at && ` on ${format(new Date(sourceReference.mapped_at), 'MMM d, yyyy \'at\' h:mm a')}`}
+          </p>
+        </div>
+
+        {steps.map(step => (
+          <div key={step.key} style={{ marginLeft: Math.min(step.depth, 6) * 12 }}>
+            <ArrowDown className="h-3 w-3 text-muted-foreground mb-1" />
+            <div className="rounded-md border p-2 text-xs space-y-1">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-medium">{step.label}</span>
+                {step.nodeType && <Badge variant="outline" className="text-[10px]">{step.nodeType}</Badge>}
+                {step.changedSince && (
+                  <Badge
+                    variant="outline"
+                    className="text-[10px] gap-1 text-amber-600 border-amber-500/50"
+                    title="This output has been recomputed since the value below it was derived"
+                  >
+                    <AlertTriangle className="h-3 w-3" />
+                    Changed since
+                  </Badge>
+                )}
+              </div>
+              {step.missing ? (
+                <p className="text-muted-foreground italic">Output no longer stored</p>
+              ) : (
+                <>
+                  {step.excerpt && <p className="text-muted-foreground whitespace-pre-wrap break-words">{step.excerpt}</p>}
+                  {step.lastExecutedAt && (
+                    <p className="text-muted-foreground/70">
+                      Produced {format(new Date(step.lastExecutedAt), 'MMM d, yyyy \'at\' h:mm a')}
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {truncated && (
+          <p className="text-xs text-muted-foreground italic">
+            Showing the first {MAX_LINEAGE_STEPS} upstream outputs
+          </p>
+        )}
+
+        {submissions.map(submission => (
+          <div key={submission.id}>
+            <ArrowDown className="h-3 w-3 text-muted-foreground mb-1" />
+            <div className="rounded-md border border-primary/30 p-2 text-xs space-y-2">
+              <div className="flex items-center gap-2 font-medium">
+                <FileText className="h-3 w-3 text-muted-foreground" />
+                Submission from {getSourceDisplayName(submission.sourceType)}
+                <span className="font-normal text-muted-foreground">
+                  {format(new Date(submission.submittedAt), 'MMM d, yyyy')}
+                </span>
+              </div>
+              {submission.fields.length === 0 ? (
+                <p className="text-muted-foreground italic">No intake fields recorded</p>
+              ) : (
+                submission.fields.map(field => (
+                  <div key={field.key}>
+                    <p className="font-mono text-muted-foreground">{field.key}</p>
+                    <p className="whitespace-pre-wrap break-words">{field.value}</p>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </ScrollArea>
+  );
+}
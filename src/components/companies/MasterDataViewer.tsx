@@ -484,8 +484,8 @@ export function MasterDataViewer({
           const IconComponent = IconMap[iconName] || Database;
           const hasHierarchy = hierarchy.l2Fields.length > 0;
           const l1Summary = getL1SummaryData(domainDef.domain);
-          // Use L1 score if available, otherwise fall back to domain_scores table
-          const displayScore = l1Summary.score ?? domainScore?.score ?? null;
+          // Computed domain score first; the L1 summary score is prompt-written
+          const displayScore = domainScore?.score ?? l1Summary.score ?? null;
 
           return (
             <AccordionItem
@@ -0,0 +1,297 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { formatCost } from '@/lib/modelRegistry';
+import type { PortfolioCompanyStatus, PortfolioRun, PortfolioRunCompany } from '@/types/portfolio-run';
+
+type RunSummary = Pick<PortfolioRun, 'id' | 'workflow_id' | 'status' | 'concurrency' | 'created_at' | 'completed_at'> & {
+  workflow_name: string;
+};
+
+interface PortfolioRunDashboardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Run to show first; defaults to the most recent one
+  runId?: string | null;
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+const STATUS_ORDER: PortfolioCompanyStatus[] = ['running', 'queued', 'failed', 'completed', 'skipped'];
+
+const STATUS_BADGES: Record<PortfolioCompanyStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline'; className?: string }> = {
+  queued: { label: 'Queued', variant: 'outline' },
+  running: { label: 'Running', variant: 'default', className: 'bg-blue-500 hover:bg-blue-600' },
+  completed: { label: 'Done', variant: 'secondary' },
+  failed: { label: 'Failed', variant: 'destructive' },
+  skipped: { label: 'Skipped', variant: 'outline', className: 'text-muted-foreground' },
+};
+
+export function PortfolioRunDashboard({ open, onOpenChange, runId }: PortfolioRunDashboardProps) {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [rows, setRows] = useState<PortfolioRunCompany[]>([]);
+  const [companyNames, setCompanyNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [retrying, setRetrying] = useState(false);
+
+  const fetchRuns = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('portfolio_runs')
+      .select('id, workflow_id, status, concurrency, created_at, completed_at, workflows(name)')
+      .order('created_at', { ascending: false })
+      .limit(20);
+    if (error) {
+      console.error('Error loading portfolio runs:', error);
+      return;
+    }
+    setRuns(
+      (data || []).map(run => ({
+        id: run.id,
+        workflow_id: run.workflow_id,
+        status: run.status as PortfolioRun['status'],
+        concurrency: run.concurrency,
+        created_at: run.created_at,
+        completed_at: run.completed_at,
+        workflow_name: run.workflows?.name || 'Unknown workflow',
+      }))
+    );
+    setSelectedRunId(current => current ?? data?.[0]?.id ?? null);
+  }, []);
+
+  const fetchRows = useCallback(async () => {
+    if (!selectedRunId) return;
+    const { data, error } = await supabase
+      .from('portfolio_run_companies')
+      .select('*')
+      .eq('portfolio_run_id', selectedRunId);
+    if (error) {
+      console.error('Error loading portfolio run companies:', error);
+      return;
+    }
+    setRows((data || []) as PortfolioRunCompany[]);
+  }, [selectedRunId]);
+
+  const unnamedCompanyIds = useMemo(
+    () => rows.map(row => row.company_id).filter(id => !(id in companyNames)),
+    [rows, companyNames]
+  );
+
+  useEffect(() => {
+    if (unnamedCompanyIds.length === 0) return;
+    const fetchCompanyNames = async () => {
+      const { data, error } = await supabase.from('companies').select('id, name').in('id', unnamedCompanyIds);
+      if (error) console.error('Error loading company names:', error);
+      const names = new Map((data || []).map(c => [c.id, c.name]));
+      // Deleted companies fall back to their id so they are not looked up again
+      setCompanyNames(prev => ({
+        ...prev,
+        ...Object.fromEntries(unnamedCompanyIds.map(id => [id, names.get(id) || id])),
+      }));
+    };
+    fetchCompanyNames();
+  }, [unnamedCompanyIds]);
+
+  useEffect(() => {
+    if (!open) return;
+    if (runId) setSelectedRunId(runId);
+    fetchRuns();
+  }, [open, runId, fetchRuns]);
+
+  useEffect(() => {
+    if (!open || !selectedRunId) return;
+    const load = async () => {
+      setLoading(true);
+      await fetchRows();
+      setLoading(false);
+    };
+    load();
+  }, [open, selectedRunId, fetchRows]);
+
+  const selectedRun = runs.find(run => run.id === selectedRunId);
+  const isActive = selectedRun?.status === 'running' || rows.some(row => row.status === 'queued' || row.status === 'running');
+
+  // Poll while companies are still queued or running
+  useEffect(() => {
+    if (!open || !isActive) return;
+    const interval = setInterval(() => {
+      fetchRows();
+      fetchRuns();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [open, isActive, fetchRows, fetchRuns]);
+
+  const counts = useMemo(() => {
+    const result: Record<PortfolioCompanyStatus, number> = { queued: 0, running: 0, completed: 0, failed: 0, skipped: 0 };
+    for (const row of rows) result[row.status]++;
+    return result;
+  }, [rows]);
+  const totalCost = rows.reduce((sum, row) => sum + Number(row.cost || 0), 0);
+  const finished = counts.completed + counts.failed + counts.skipped;
+  const progressPercent = rows.length > 0 ? Math.round((finished / rows.length) * 100) : 0;
+
+  const sortedRows = useMemo(
+    () =>
+      [...rows].sort((a, b) => {
+        const rank = STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status);
+        if (rank !== 0) return rank;
+        return (companyNames[a.company_id] || '').localeCompare(companyNames[b.company_id] || '');
+      }),
+    [rows, companyNames]
+  );
+
+  const handleRetryFailed = async () => {
+    if (!selectedRunId) return;
+    setRetrying(true);
+    const { data, error } = await supabase.functions.invoke('run-company-workflows', {
+      body: { retry_portfolio_run_id: selectedRunId },
+    });
+    setRetrying(false);
+    if (error || !data?.success) {
+      console.error('Error retrying portfolio run:', error || data);
+      toast.error(data?.error || 'Failed to retry companies');
+      return;
+    }
+    toast.success(`Re-queued ${data.queued} companies`);
+    fetchRows();
+    fetchRuns();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Portfolio Runs</DialogTitle>
+          <DialogDescription>Per-company progress and cost for workflows run across the portfolio.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Select value={selectedRunId ?? undefined} onValueChange={setSelectedRunId}>
+            <SelectTrigger className="w-[360px]">
+              <SelectValue placeholder="No portfolio runs yet" />
+            </SelectTrigger>
+            <SelectContent>
+              {runs.map(run => (
+                <SelectItem key={run.id} value={run.id}>
+                  {run.workflow_name} · {formatDistanceToNow(new Date(run.created_at), { addSuffix: true })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="icon" className="h-9 w-9" onClick={() => { fetchRuns(); fetchRows(); }}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+          <div className="ml-auto">
+            <Button size="sm" variant="outline" onClick={handleRetryFailed} disabled={counts.failed === 0 || retrying}>
+              {retrying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+              Retry failed ({counts.failed})
+            </Button>
+          </div>
+        </div>
+
+        {selectedRun && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-6 gap-2 text-center">
+              {STATUS_ORDER.map(status => (
+                <div key={status} className="rounded-md border p-2">
+                  <div className="text-xl font-semibold">{counts[status]}</div>
+                  <div className="text-xs text-muted-foreground">{STATUS_BADGES[status].label}</div>
+                </div>
+              ))}
+              <div className="rounded-md border p-2">
+                <div className="text-xl font-semibold">{formatCost(totalCost)}</div>
+                <div className="text-xs text-muted-foreground">Cost</div>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Progress value={progressPercent} className="h-2" />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>
+                  {finished} / {rows.length} companies · up to {selectedRun.concurrency} at once
+                </span>
+                <span>{selectedRun.status === 'completed' ? 'Completed' : `${progressPercent}%`}</span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <ScrollArea className="flex-1 min-h-0 border rounded-md">
+          {loading ? (
+            <div className="space-y-2 p-2">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-10" />
+              ))}
+            </div>
+          ) : sortedRows.length === 0 ? (
+            <p className="text-center py-12 text-sm text-muted-foreground">No companies in this run</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Company</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Attempts</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedRows.map(row => {
+                  const badge = STATUS_BADGES[row.status];
+                  return (
+                    <TableRow key={row.id}>
+                      <TableCell className="font-medium">{companyNames[row.company_id] ?? '…'}</TableCell>
+                      <TableCell>
+                        <Badge variant={badge.variant} className={badge.className}>{badge.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{row.attempts}</TableCell>
+                      <TableCell className="text-right">{formatCost(Number(row.cost || 0))}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-[280px] truncate" title={row.error_message || undefined}>
+                        {row.error_message
+                          ? row.error_message
+                          : row.completed_at
+                            ? `Finished ${formatDistanceToNow(new Date(row.completed_at), { addSuffix: true })}`
+                            : row.started_at
+                              ? `Started ${formatDistanceToNow(new Date(row.started_at), { addSuffix: true })}`
+                              : null}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2, Play } from 'lucide-react';
+import { toast } from 'sonner';
+import type { PortfolioCandidate } from '@/types/portfolio-run';
+
+const COMPANY_STATUSES = ['active', 'inactive', 'suspended'];
+const MAX_CONCURRENCY = 20;
+
+interface PortfolioRunDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onStarted: (portfolioRunId: string) => void;
+}
+
+export function PortfolioRunDialog({ open, onOpenChange, onStarted }: PortfolioRunDialogProps) {
+  const [workflows, setWorkflows] = useState<Array<{ id: string; name: string }>>([]);
+  const [workflowId, setWorkflowId] = useState<string>('');
+  const [statuses, setStatuses] = useState<string[]>(['active']);
+  const [staleOnly, setStaleOnly] = useState(false);
+  const [missingOnly, setMissingOnly] = useState(false);
+  const [concurrency, setConcurrency] = useState('5');
+  const [force, setForce] = useState(false);
+  const [candidates, setCandidates] = useState<PortfolioCandidate[] | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [starting, setStarting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const fetchWorkflows = async () => {
+      const { data, error } = await supabase.from('workflows').select('id, name').order('name');
+      if (error) console.error('Error loading workflows:', error);
+      setWorkflows(data || []);
+    };
+    fetchWorkflows();
+  }, [open]);
+
+  // Preview which companies the filters match
+  useEffect(() => {
+    if (!open || !workflowId) {
+      setCandidates(null);
+      return;
+    }
+    let cancelled = false;
+    const fetchCandidates = async () => {
+      setPreviewLoading(true);
+      const { data, error } = await supabase.rpc('select_portfolio_companies', {
+        _workflow_id: workflowId,
+        _statuses: statuses.length > 0 ? statuses : undefined,
+        _stale_only: staleOnly,
+        _missing_outputs_only: missingOnly,
+      });
+      if (cancelled) return;
+      if (error) console.error('Error previewing portfolio run:', error);
+      setCandidates(data || []);
+      setPreviewLoading(false);
+    };
+    fetchCandidates();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, workflowId, statuses, staleOnly, missingOnly]);
+
+  const toggleStatus = (status: string, checked: boolean) => {
+    setStatuses(prev => (checked ? [...prev, status] : prev.filter(s => s !== status)));
+  };
+
+  const handleStart = async () => {
+    const parsedConcurrency = Number(concurrency);
+    if (!Number.isInteger(parsedConcurrency) || parsedConcurrency < 1 || parsedConcurrency > MAX_CONCURRENCY) {
+      toast.error(`Concurrency must be a whole number from 1 to ${MAX_CONCURRENCY}`);
+      return;
+    }
+
+    setStarting(true);
+    const { data, error } = await supabase.functions.invoke('run-company-workflows', {
+      body: {
+        portfolio: {
+          workflow_id: workflowId,
+          statuses: statuses.length > 0 ? statuses : null,
+          stale_only: staleOnly,
+          missing_outputs_only: missingOnly,
+          concurrency: parsedConcurrency,
+          force,
+        },
+      },
+    });
+    setStarting(false);
+
+    if (error || !data?.success) {
+      console.error('Error starting portfolio run:', error || data);
+      toast.error(data?.error || 'Failed to start portfolio run');
+      return;
+    }
+    toast.success(`Queued ${data.queued} companies${data.skipped ? `, skipped ${data.skipped}` : ''}`);
+    onOpenChange(false);
+    onStarted(data.portfolio_run_id);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Run for Portfolio</DialogTitle>
+          <DialogDescription>
+            Queue a workflow's cascade for every company matching the filters. At most the chosen number of companies run at once.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Workflow</Label>
+            <Select value={workflowId} onValueChange={setWorkflowId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select workflow" />
+              </SelectTrigger>
+              <SelectContent>
+                {workflows.map(workflow => (
+                  <SelectItem key={workflow.id} value={workflow.id}>
+                    {workflow.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Company status</Label>
+            <div className="flex gap-4">
+              {COMPANY_STATUSES.map(status => (
+                <label key={status} className="flex items-center gap-2 text-sm capitalize">
+                  <Checkbox
+                    checked={statuses.includes(status)}
+                    onCheckedChange={checked => toggleStatus(status, checked === true)}
+                  />
+                  {status}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="flex items-center justify-between gap-2 text-sm">
+              <span>
+                Only stale companies
+                <span className="block text-xs text-muted-foreground">Not run since the current workflow version</span>
+              </span>
+              <Switch checked={staleOnly} onCheckedChange={setStaleOnly} />
+            </label>
+            <label className="flex items-center justify-between gap-2 text-sm">
+              <span>
+                Only missing outputs
+                <span className="block text-xs text-muted-foreground">At least one node has no output</span>
+              </span>
+              <Switch checked={missingOnly} onCheckedChange={setMissingOnly} />
+            </label>
+            <div className="space-y-1">
+              <Label className="text-sm">Concurrent companies</Label>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_CONCURRENCY}
+                value={concurrency}
+                onChange={e => setConcurrency(e.target.value)}
+                className="h-8"
+              />
+            </div>
+            <label className="flex items-center justify-between gap-2 text-sm">
+              <span>
+                Force re-run
+                <span className="block text-xs text-muted-foreground">Re-execute nodes even if inputs are unchanged</span>
+              </span>
+              <Switch checked={force} onCheckedChange={setForce} />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Matching companies</Label>
+            {!workflowId ? (
+              <p className="text-sm text-muted-foreground">Select a workflow to preview</p>
+            ) : previewLoading || !candidates ? (
+              <Skeleton className="h-24" />
+            ) : candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No companies match these filters</p>
+            ) : (
+              <ScrollArea className="h-40 border rounded-md">
+                <div className="p-2 space-y-1">
+                  {candidates.map(candidate => (
+                    <div key={candidate.company_id} className="flex items-center justify-between text-sm">
+                      <span>{candidate.company_name}</span>
+                      <div className="flex gap-1">
+                        {candidate.stale && <Badge variant="outline">Stale</Badge>}
+                        {candidate.missing_outputs > 0 && (
+                          <Badge variant="secondary">{candidate.missing_outputs} missing</Badge>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={starting}>
+            Cancel
+          </Button>
+          <Button onClick={handleStart} disabled={!workflowId || !candidates?.length || starting}>
+            {starting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+            Run for {candidates?.length ?? 0} companies
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -71,7 +71,13 @@ export function SSOTChangeReviewDialog({
     change.target_path.l4,
   ].filter(Boolean).join(' → ');
 
+  // Quarantined: held for review because the value broke the field's validation rules
+  const isQuarantined = change.status === 'pending' && change.validation_status === 'invalid';
+
   const getStatusBadge = () => {
+    if (isQuarantined) {
+      return <Badge variant="destructive">Quarantined</Badge>;
+    }
     if (change.validation_status === 'invalid') {
       return <Badge variant="destructive">Validation Failed</Badge>;
     }
@@ -206,6 +212,11 @@ export function SSOTChangeReviewDialog({
               <>
                 <Separator />
                 <div className="space-y-2">
+                  {isQuarantined && (
+                    <Label className="text-xs text-muted-foreground">
+                      This value violates the field's validation rules. Fix the rules or reject the change.
+                    </Label>
+                  )}
                   {change.validation_errors?.map((error, i) => (
                     <div key={i} className="flex items-start gap-2 text-sm text-destructive">
                       <XCircle className="w-4 h-4 mt-0.5 shrink-0" />
@@ -241,7 +252,7 @@ export function SSOTChangeReviewDialog({
           </div>
         </ScrollArea>
 
-        {change.status === 'pending' && change.validation_status !== 'invalid' && (
+        {change.status === 'pending' && (
           <DialogFooter className="flex gap-2">
             <Button
               variant="outline"
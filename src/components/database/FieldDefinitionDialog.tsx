@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { triggerSchemaSync } from '@/lib/schemaSync';
@@ -24,11 +24,12 @@ import {
 } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { AlertCircle } from 'lucide-react';
-import type { Database } from '@/integrations/supabase/types';
+import type { Database, Json } from '@/integrations/supabase/types';
 
 type CompanyDomain = Database['public']['Enums']['company_domain'];
 type SSOTLevel = Database['public']['Enums']['ssot_level'];
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScoreInfluencesEditor, type ContextFactOption, type ScoreInfluenceDraft } from './ScoreInfluencesEditor';
 
 interface DomainDefinition {
   domain: string;
@@ -47,6 +48,8 @@ interface FieldDefinition {
   is_scored: boolean | null;
   evaluation_method: string | null;
   evaluation_config: any | null;
+  benchmark_reference?: unknown;
+  validation_rules?: unknown;
   score_weight: number | null;
   sort_order: number | null;
   is_required: boolean | null;
@@ -87,6 +90,10 @@ const evaluationMethods = [
   { value: 'weighted_aggregate', label: 'Weighted Aggregate' },
 ];
 
+const toJsonText = (value: unknown) => (value ? JSON.stringify(value, null, 2) : '');
+
+const parseJsonText = (text: string): unknown => (text.trim() ? JSON.parse(text) : null);
+
 export function FieldDefinitionDialog({
   open,
   onOpenChange,
@@ -104,11 +111,14 @@ export function FieldDefinitionDialog({
     display_name: '',
     description: '',
     field_type: 'text',
+    validation_rules: '',
     domain: '',
     level: 'L2',
     parent_field_id: '',
     is_scored: false,
     evaluation_method: '',
+    evaluation_config: '',
+    benchmark_reference: '',
     score_weight: 1,
     semantic_description: '',
     semantic_tags: '',
@@ -116,6 +126,9 @@ export function FieldDefinitionDialog({
     is_primary_score: false,
     is_primary_description: false,
   });
+  const [influences, setInfluences] = useState<ScoreInfluenceDraft[]>([]);
+  const [savedInfluenceIds, setSavedInfluenceIds] = useState<string[]>([]);
+  const [contextFacts, setContextFacts] = useState<ContextFactOption[]>([]);
   const [validationError, setValidationError] = useState<string | null>(null);
   const { toast } = useToast();
 
@@ -128,11 +141,14 @@ export function FieldDefinitionDialog({
         display_name: field.display_name,
         description: field.description || '',
         field_type: field.field_type,
+        validation_rules: toJsonText(field.validation_rules),
         domain: field.domain,
         level: field.level || 'L4',
         parent_field_id: field.parent_field_id || '',
         is_scored: field.is_scored || false,
         evaluation_method: field.evaluation_method || '',
+        evaluation_config: toJsonText(field.evaluation_config),
+        benchmark_reference: toJsonText(field.benchmark_reference),
         score_weight: field.score_weight || 1,
         semantic_description: field.semantic_description || '',
         semantic_tags: field.semantic_tags?.join(', ') || '',
@@ -154,11 +170,14 @@ export function FieldDefinitionDialog({
         display_name: '',
         description: '',
         field_type: 'text',
+        validation_rules: '',
         domain: defaultDomain || (domains[0]?.domain || ''),
         level,
         parent_field_id: defaultParentId || '',
         is_scored: level === 'L2', // L2 must be scored
         evaluation_method: level === 'L2' ? 'ai_assessment' : '',
+        evaluation_config: '',
+        benchmark_reference: '',
         score_weight: 1,
         semantic_description: '',
         semantic_tags: '',
@@ -170,6 +189,62 @@ export function FieldDefinitionDialog({
     setValidationError(null);
   }, [field, defaultDomain, defaultParentId, domains, fields]);
 
+  const fetchInfluences = useCallback(async () => {
+    const [factsRes, influencesRes] = await Promise.all([
+      supabase
+        .from('context_fact_definitions')
+        .select('fact_key, display_name, allowed_values')
+        .order('sort_order'),
+      field
+        ? supabase
+            .from('score_influence_references')
+            .select('id, fact_key, influence_type, influence_config, description')
+            .eq('field_definition_id', field.id)
+            .order('created_at')
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+    if (factsRes.error) console.error('Error loading context facts:', factsRes.error);
+    if (influencesRes.error) console.error('Error loading score influences:', influencesRes.error);
+
+    const loaded = influencesRes.data || [];
+    setContextFacts(factsRes.data || []);
+    setSavedInfluenceIds(loaded.map(i => i.id));
+    setInfluences(loaded.map(i => ({
+      id: i.id,
+      fact_key: i.fact_key,
+      influence_type: i.influence_type,
+      config: toJsonText(i.influence_config),
+      description: i.description || '',
+    })));
+  }, [field]);
+
+  useEffect(() => {
+    if (open) fetchInfluences();
+  }, [open, fetchInfluences]);
+
+  // Replace the field's influences with the edited list
+  const saveInfluences = async (fieldDefinitionId: string) => {
+    const keptIds = influences.map(i => i.id).filter(Boolean);
+    const removedIds = savedInfluenceIds.filter(id => !keptIds.includes(id));
+    if (removedIds.length > 0) {
+      const { error } = await supabase.from('score_influence_references').delete().in('id', removedIds);
+      if (error) throw error;
+    }
+    if (influences.length > 0) {
+      const { error } = await supabase.from('score_influence_references').upsert(
+        influences.map(i => ({
+          field_definition_id: fieldDefinitionId,
+          fact_key: i.fact_key,
+          influence_type: i.influence_type,
+          influence_config: parseJsonText(i.config) as Json,
+          description: i.description.trim() || null,
+        })),
+        { onConflict: 'field_definition_id,fact_key' }
+      );
+      if (error) throw error;
+    }
+  };
+
   const validate = (): boolean => {
     // L4 cannot be scored
     if (formData.level === 'L4' && formData.is_scored) {
@@ -200,6 +275,44 @@ export function FieldDefinitionDialog({
       return false;
     }
 
+    try {
+      parseJsonText(formData.validation_rules);
+    } catch {
+      setValidationError('Validation rules must be valid JSON');
+      return false;
+    }
+
+    if (formData.is_scored) {
+      for (const [label, text] of [['Evaluation config', formData.evaluation_config], ['Benchmarks', formData.benchmark_reference]]) {
+        try {
+          parseJsonText(text);
+        } catch {
+          setValidationError(`${label} must be valid JSON`);
+          return false;
+        }
+      }
+
+      const factKeys = new Set<string>();
+      for (const influence of influences) {
+        if (!influence.fact_key) {
+          setValidationError('Each score influence needs a context fact');
+          return false;
+        }
+        if (factKeys.has(influence.fact_key)) {
+          setValidationError(`Only one influence per context fact (${influence.fact_key})`);
+          return false;
+        }
+        factKeys.add(influence.fact_key);
+        try {
+          const config = parseJsonText(influence.config);
+          if (!config || typeof config !== 'object') throw new Error('not an object');
+        } catch {
+          setValidationError(`Influence config for ${influence.fact_key} must be a JSON object`);
+          return false;
+        }
+      }
+    }
+
     // Parent validation
     if (formData.parent_field_id) {
       const parent = fields.find(f => f.id === formData.parent_field_id);
@@ -248,11 +361,14 @@ export function FieldDefinitionDialog({
         display_name: formData.display_name.trim(),
         description: formData.description.trim() || null,
         field_type: formData.field_type,
+        validation_rules: parseJsonText(formData.validation_rules) as Json,
         domain: formData.domain as CompanyDomain,
         level: formData.level as SSOTLevel,
         parent_field_id: formData.parent_field_id || null,
         is_scored: formData.is_scored,
         evaluation_method: formData.is_scored ? formData.evaluation_method : null,
+        evaluation_config: formData.is_scored ? parseJsonText(formData.evaluation_config) as Json : null,
+        benchmark_reference: formData.is_scored ? parseJsonText(formData.benchmark_reference) as Json : null,
         score_weight: formData.is_scored ? formData.score_weight : null,
         semantic_description: formData.semantic_description.trim() || null,
         semantic_tags: formData.semantic_tags
@@ -270,6 +386,7 @@ export function FieldDefinitionDialog({
           .eq('id', field.id);
 
         if (error) throw error;
+        if (formData.is_scored) await saveInfluences(field.id);
         toast({ title: 'Field updated' });
         
         // Trigger schema sync (non-blocking)
@@ -280,11 +397,14 @@ export function FieldDefinitionDialog({
           domain: payload.domain,
         });
       } else {
-        const { error } = await supabase
+        const { data: created, error } = await supabase
           .from('company_field_definitions')
-          .insert(payload);
+          .insert(payload)
+          .select('id')
+          .single();
 
         if (error) throw error;
+        if (formData.is_scored) await saveInfluences(created.id);
         toast({ title: 'Field created' });
         
         // Trigger schema sync (non-blocking)
@@ -423,6 +543,21 @@ export function FieldDefinitionDialog({
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="validation_rules">Validation Rules (JSON)</Label>
+            <Textarea
+              id="validation_rules"
+              value={formData.validation_rules}
+              onChange={e => setFormData(prev => ({ ...prev, validation_rules: e.target.value }))}
+              placeholder='{ "min": 0, "max": 100, "pattern": "^[A-Z]", "enum": ["a", "b"], "max_items": 10 }'
+              rows={2}
+              className="font-mono text-xs"
+            />
+            <p className="text-xs text-muted-foreground">
+              SSOT writes that break these rules are quarantined for review
+            </p>
+          </div>
+
           {/* Hierarchy */}
           <Separator />
           <div className="grid grid-cols-2 gap-4">
@@ -520,6 +655,41 @@ export function FieldDefinitionDialog({
                     </div>
                   </div>
                 )}
+
+                {formData.is_scored && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="evaluation_config">Evaluation Config (JSON)</Label>
+                      <Textarea
+                        id="evaluation_config"
+                        value={formData.evaluation_config}
+                        onChange={e => setFormData(prev => ({ ...prev, evaluation_config: e.target.value }))}
+                        placeholder='{ "rubrics": { "enterprise": [{ "min": 0, "score": 20 }] } }'
+                        rows={3}
+                        className="font-mono text-xs"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="benchmark_reference">Benchmarks (JSON)</Label>
+                      <Textarea
+                        id="benchmark_reference"
+                        value={formData.benchmark_reference}
+                        onChange={e => setFormData(prev => ({ ...prev, benchmark_reference: e.target.value }))}
+                        placeholder='{ "min": 0, "max": 100, "seed": { "min": 0, "max": 20 } }'
+                        rows={3}
+                        className="font-mono text-xs"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {formData.is_scored && (
+                  <ScoreInfluencesEditor
+                    influences={influences}
+                    facts={contextFacts}
+                    onChange={setInfluences}
+                  />
+                )}
               </div>
             </>
           )}
@@ -0,0 +1,127 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+
+export interface ContextFactOption {
+  fact_key: string;
+  display_name: string;
+  allowed_values: unknown;
+}
+
+export interface ScoreInfluenceDraft {
+  id?: string;
+  fact_key: string;
+  influence_type: string;
+  config: string;
+  description: string;
+}
+
+interface ScoreInfluencesEditorProps {
+  influences: ScoreInfluenceDraft[];
+  facts: ContextFactOption[];
+  onChange: (influences: ScoreInfluenceDraft[]) => void;
+}
+
+const influenceTypes = [
+  { value: 'benchmark_selector', label: 'Benchmark Selector', example: '{ "values": { "Seed": "seed" }, "default": "series_a" }' },
+  { value: 'rubric_selector', label: 'Rubric Selector', example: '{ "values": { "B2B": "enterprise" } }' },
+  { value: 'weight_modifier', label: 'Weight Modifier', example: '{ "values": { "B2C": 1.5 }, "default": 1 }' },
+];
+
+export function ScoreInfluencesEditor({ influences, facts, onChange }: ScoreInfluencesEditorProps) {
+  const update = (index: number, changes: Partial<ScoreInfluenceDraft>) => {
+    onChange(influences.map((influence, i) => (i === index ? { ...influence, ...changes } : influence)));
+  };
+
+  const add = () => {
+    onChange([
+      ...influences,
+      { fact_key: '', influence_type: 'benchmark_selector', config: '', description: '' },
+    ]);
+  };
+
+  const remove = (index: number) => {
+    onChange(influences.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <Label>Score Influences</Label>
+          <p className="text-xs text-muted-foreground">
+            Let a company's context facts pick the benchmark, rubric or weight used for this field
+          </p>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={add}>
+          <Plus className="h-3 w-3 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {influences.map((influence, index) => {
+        const fact = facts.find(f => f.fact_key === influence.fact_key);
+        const type = influenceTypes.find(t => t.value === influence.influence_type);
+        return (
+          <div key={influence.id || index} className="border rounded-md p-3 space-y-2">
+            <div className="grid grid-cols-[1fr_1fr_auto] gap-2">
+              <Select value={influence.fact_key} onValueChange={v => update(index, { fact_key: v })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Context fact" />
+                </SelectTrigger>
+                <SelectContent>
+                  {facts.map(f => (
+                    <SelectItem key={f.fact_key} value={f.fact_key}>
+                      {f.display_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={influence.influence_type} onValueChange={v => update(index, { influence_type: v })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {influenceTypes.map(t => (
+                    <SelectItem key={t.value} value={t.value}>
+                      {t.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <Textarea
+              value={influence.config}
+              onChange={e => update(index, { config: e.target.value })}
+              placeholder={type?.example}
+              rows={2}
+              className="font-mono text-xs"
+            />
+            {Array.isArray(fact?.allowed_values) && fact.allowed_values.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Values: {fact.allowed_values.map(String).join(', ')}
+              </p>
+            )}
+            <Input
+              value={influence.description}
+              onChange={e => update(index, { description: e.target.value })}
+              placeholder="Why this fact changes the score (optional)"
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Copy, Pencil, Trash2 } from "lucide-react";
+import { Copy, History, Pencil, Trash2 } from "lucide-react";
 import { Dataset } from "@/types/dataset";
 
 interface DatasetCardProps {
@@ -9,9 +9,10 @@ interface DatasetCardProps {
   onEdit: (dataset: Dataset) => void;
   onDuplicate: (dataset: Dataset) => void;
   onDelete: (dataset: Dataset) => void;
+  onVersions: (dataset: Dataset) => void;
 }
 
-export const DatasetCard = ({ dataset, onEdit, onDuplicate, onDelete }: DatasetCardProps) => {
+export const DatasetCard = ({ dataset, onEdit, onDuplicate, onDelete, onVersions }: DatasetCardProps) => {
   const dependencyCount = dataset.dependencies.length;
   const previewDependencies = dataset.dependencies.slice(0, 3);
   const remainingCount = dependencyCount - 3;
@@ -35,9 +36,14 @@ export const DatasetCard = ({ dataset, onEdit, onDuplicate, onDelete }: DatasetC
       </CardHeader>
       <CardContent>
         <div className="space-y-3">
-          <Badge variant="secondary" className="mb-2">
-            {dependencyCount} {dependencyCount === 1 ? 'Dependency' : 'Dependencies'}
-          </Badge>
+          <div className="flex items-center gap-2 mb-2">
+            <Badge variant="secondary">
+              {dependencyCount} {dependencyCount === 1 ? 'Dependency' : 'Dependencies'}
+            </Badge>
+            {dataset.auto_snapshot && (
+              <Badge variant="outline">Auto-snapshot</Badge>
+            )}
+          </div>
           
           {previewDependencies.length > 0 && (
             <div className="text-sm text-muted-foreground space-y-1">
@@ -84,6 +90,18 @@ export const DatasetCard = ({ dataset, onEdit, onDuplicate, onDelete }: DatasetC
               <Copy className="h-4 w-4 mr-1" />
               Duplicate
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={(e) => {
+                e.stopPropagation();
+                onVersions(dataset);
+              }}
+              className="flex-1"
+            >
+              <History className="h-4 w-4 mr-1" />
+              Versions
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -12,6 +12,7 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -68,6 +69,7 @@ const formSchema = z.object({
     workflowId: z.string(),
     workflowName: z.string(),
   })).min(1, "At least one dependency is required"),
+  auto_snapshot: z.boolean().optional(),
 });
 
 interface SortableDependencyItemProps {
@@ -155,6 +157,7 @@ export const DatasetForm = ({ initialData, onSubmit, onCancel }: DatasetFormProp
       description: "",
       category: "general",
       dependencies: [],
+      auto_snapshot: false,
     },
   });
 
@@ -353,6 +356,24 @@ export const DatasetForm = ({ initialData, onSubmit, onCancel }: DatasetFormProp
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="auto_snapshot"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between rounded-md border p-3">
+                <div className="space-y-0.5">
+                  <FormLabel>Auto-snapshot</FormLabel>
+                  <p className="text-sm text-muted-foreground">
+                    Save a new version whenever a dependency's output changes for a company
+                  </p>
+                </div>
+                <FormControl>
+                  <Switch checked={!!field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
           <div className="flex justify-end gap-2 pt-4">
             <Button type="button" variant="outline" onClick={onCancel}>
               Cancel
@@ -0,0 +1,290 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Dataset, DatasetSnapshot, DatasetSnapshotRow } from "@/types/dataset";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Camera, Clock, Loader2, RefreshCw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { useWorkflowStore } from "@/store/workflowStore";
+import { diffSnapshots, formatSnapshotOutput } from "@/lib/datasetSnapshotDiff";
+
+type SnapshotSummary = Omit<DatasetSnapshot, "snapshot_data">;
+
+interface DatasetVersionsDialogProps {
+  dataset?: Dataset;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatBytes = (bytes: number | null) => {
+  if (!bytes) return "0 B";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export function DatasetVersionsDialog({ dataset, open, onOpenChange }: DatasetVersionsDialogProps) {
+  const { selectedCompanyId } = useWorkflowStore();
+  const [companies, setCompanies] = useState<Array<{ id: string; name: string }>>([]);
+  const [companyId, setCompanyId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<SnapshotSummary[]>([]);
+  const [versionsLoading, setVersionsLoading] = useState(false);
+  const [snapshots, setSnapshots] = useState<Record<string, DatasetSnapshotRow[]>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [snapshotting, setSnapshotting] = useState(false);
+
+  const datasetId = dataset?.id;
+
+  useEffect(() => {
+    if (!open) return;
+    const fetchCompanies = async () => {
+      const { data, error } = await supabase.from("companies").select("id, name").order("name");
+      if (error) console.error("Error loading companies:", error);
+      const list = data || [];
+      setCompanies(list);
+      setCompanyId(current => current ?? (list.find(c => c.id === selectedCompanyId)?.id || list[0]?.id || null));
+    };
+    fetchCompanies();
+  }, [open, selectedCompanyId]);
+
+  const fetchVersions = useCallback(async () => {
+    if (!datasetId || !companyId) return;
+    setVersionsLoading(true);
+    const { data, error } = await supabase
+      .from("data_snapshots")
+      .select("id, dataset_id, company_id, version, row_count, size_bytes, created_by, created_at")
+      .eq("dataset_id", datasetId)
+      .eq("company_id", companyId)
+      .order("version", { ascending: false })
+      .limit(100);
+    if (error) console.error("Error loading dataset snapshots:", error);
+    setVersions(data || []);
+    setVersionsLoading(false);
+  }, [datasetId, companyId]);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelectedId(null);
+    setSnapshots({});
+    fetchVersions();
+  }, [open, fetchVersions]);
+
+  const fetchSnapshot = async (snapshotId: string) => {
+    if (snapshots[snapshotId]) return;
+    const { data, error } = await supabase
+      .from("data_snapshots")
+      .select("id, snapshot_data")
+      .eq("id", snapshotId)
+      .single();
+    if (error) console.error("Error loading dataset snapshot:", error);
+    if (data) {
+      setSnapshots(prev => ({ ...prev, [snapshotId]: (data.snapshot_data as unknown as DatasetSnapshotRow[]) || [] }));
+    }
+  };
+
+  const selectedIndex = versions.findIndex(v => v.id === selectedId);
+  const selected = versions[selectedIndex];
+  const previous = selectedIndex >= 0 ? versions[selectedIndex + 1] : undefined;
+
+  const handleSelect = (snapshotId: string) => {
+    setSelectedId(snapshotId);
+    fetchSnapshot(snapshotId);
+    const index = versions.findIndex(v => v.id === snapshotId);
+    if (versions[index + 1]) fetchSnapshot(versions[index + 1].id);
+  };
+
+  // Changes relative to the previous snapshot for the same company; the first one is all additions
+  const diff = useMemo(() => {
+    if (!selected || !snapshots[selected.id]) return null;
+    if (!previous) return diffSnapshots([], snapshots[selected.id]);
+    if (!snapshots[previous.id]) return null;
+    return diffSnapshots(snapshots[previous.id], snapshots[selected.id]);
+  }, [selected, previous, snapshots]);
+
+  const handleSnapshotNow = async () => {
+    if (!datasetId || !companyId) return;
+    setSnapshotting(true);
+    const { data, error } = await supabase.rpc("create_dataset_snapshot", {
+      _dataset_id: datasetId,
+      _company_id: companyId,
+    });
+    setSnapshotting(false);
+    if (error) {
+      toast.error("Failed to snapshot dataset: " + error.message);
+      return;
+    }
+    const result = data as { version: number; created: boolean } | null;
+    if (result?.created) {
+      toast.success(`Saved snapshot v${result.version}`);
+    } else {
+      toast.info(`No changes since v${result?.version}`);
+    }
+    fetchVersions();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Versions: {dataset?.name}</DialogTitle>
+          <DialogDescription>
+            Frozen copies of this dataset per company. Dataset nodes can pin a version so re-runs use the same data.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Select value={companyId ?? undefined} onValueChange={setCompanyId}>
+            <SelectTrigger className="w-[260px]">
+              <SelectValue placeholder="Select company" />
+            </SelectTrigger>
+            <SelectContent>
+              {companies.map(company => (
+                <SelectItem key={company.id} value={company.id}>
+                  {company.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" className="gap-2" onClick={handleSnapshotNow} disabled={!companyId || snapshotting}>
+            {snapshotting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}
+            Snapshot now
+          </Button>
+          {dataset?.auto_snapshot && <Badge variant="outline">Auto-snapshot on</Badge>}
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-[300px_1fr] gap-4">
+          {/* Version list */}
+          <div className="flex flex-col min-h-0 border border-border rounded-md">
+            <div className="flex items-center justify-between p-2 border-b border-border">
+              <span className="text-sm text-muted-foreground">{versions.length} versions</span>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={fetchVersions} disabled={versionsLoading}>
+                <RefreshCw className={cn("w-4 h-4", versionsLoading && "animate-spin")} />
+              </Button>
+            </div>
+            <ScrollArea className="flex-1">
+              {versionsLoading ? (
+                <div className="space-y-2 p-2">
+                  {[...Array(5)].map((_, i) => (
+                    <Skeleton key={i} className="h-14" />
+                  ))}
+                </div>
+              ) : versions.length === 0 ? (
+                <div className="text-center py-12 text-sm text-muted-foreground">
+                  <Clock className="w-10 h-10 mx-auto mb-3 opacity-50" />
+                  No snapshots for this company yet
+                </div>
+              ) : (
+                <div className="p-1">
+                  {versions.map(version => (
+                    <div
+                      key={version.id}
+                      className={cn(
+                        "p-2 rounded cursor-pointer hover:bg-accent",
+                        version.id === selectedId && "bg-accent"
+                      )}
+                      onClick={() => handleSelect(version.id)}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium">v{version.version}</span>
+                        <Badge variant={version.created_by ? "default" : "secondary"}>
+                          {version.created_by ? "Manual" : "Auto"}
+                        </Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {version.row_count} rows · {formatBytes(version.size_bytes)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+
+          {/* Diff */}
+          <ScrollArea className="min-h-0 border border-border rounded-md">
+            <div className="p-4">
+              {!selected ? (
+                <p className="text-center py-12 text-sm text-muted-foreground">Select a version to see its changes</p>
+              ) : !diff ? (
+                <Skeleton className="h-24" />
+              ) : (
+                <div className="space-y-4 text-sm">
+                  <div className="text-xs text-muted-foreground">
+                    {previous ? `Changes since v${previous.version}` : "First snapshot"} · {diff.added.length} added,{" "}
+                    {diff.removed.length} removed, {diff.changed.length} changed, {diff.unchanged} unchanged
+                  </div>
+                  {diff.added.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="text-xs font-medium text-muted-foreground">Rows added</div>
+                      {diff.added.map(row => (
+                        <div key={row.key} className="border border-border rounded p-2 space-y-2">
+                          <div className="text-green-600">+ {row.node_name} <span className="text-xs text-muted-foreground font-mono">{row.key}</span></div>
+                          <pre className="bg-muted p-2 rounded text-xs overflow-auto whitespace-pre-wrap break-words max-h-60">
+                            {formatSnapshotOutput(row.output)}
+                          </pre>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {diff.removed.length > 0 && (
+                    <div className="space-y-1">
+                      <div className="text-xs font-medium text-muted-foreground">Rows removed</div>
+                      {diff.removed.map(row => (
+                        <div key={row.key} className="text-destructive">− {row.node_name} <span className="text-xs text-muted-foreground font-mono">{row.key}</span></div>
+                      ))}
+                    </div>
+                  )}
+                  {diff.changed.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="text-xs font-medium text-muted-foreground">Rows changed</div>
+                      {diff.changed.map(change => (
+                        <div key={change.key} className="border border-border rounded p-2 space-y-2">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{change.nodeName}</span>
+                            <span className="text-xs text-muted-foreground font-mono">{change.key}</span>
+                          </div>
+                          <pre className="bg-muted p-2 rounded text-xs overflow-auto whitespace-pre-wrap break-words max-h-80">
+                            {change.lines.map((line, i) => (
+                              <div
+                                key={i}
+                                className={cn(
+                                  line.type === "added" && "text-green-600 bg-green-500/10",
+                                  line.type === "removed" && "text-destructive bg-destructive/10"
+                                )}
+                              >
+                                {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                                {line.text}
+                              </div>
+                            ))}
+                          </pre>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0 && (
+                    <p className="text-center py-6 text-sm text-muted-foreground">No row changes</p>
+                  )}
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
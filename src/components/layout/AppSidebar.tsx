@@ -31,6 +31,8 @@ import {
   ChevronRight,
   Settings,
   AlertTriangle,
+  CalendarClock,
+  Webhook,
   Bell,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -152,6 +154,8 @@ export function AppSidebar() {
     { id: 'integrations', title: 'Integrations', icon: Plug },
     { id: 'analytics', title: 'Analytics', icon: BarChart3 },
     { id: 'errors', title: 'Errors & Alerts', icon: AlertTriangle },
+    { id: 'schedules', title: 'Schedules', icon: CalendarClock },
+    { id: 'webhooks', title: 'Webhooks', icon: Webhook },
     ...(isSuperAdmin ? [{ id: 'users', title: 'Users', icon: Users }] : []),
     { id: 'agents', title: 'Agents', icon: Bot },
   ];
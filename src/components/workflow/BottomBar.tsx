@@ -1,4 +1,4 @@
-import { CheckCircle2, Play, Save, Loader2, Sparkles, Building2, Square } from 'lucide-react';
+import { CheckCircle2, Play, Save, Loader2, Sparkles, Building2, Square, History, ClipboardList, Clock, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useWorkflowStore } from '@/store/workflowStore';
 import { useState, useEffect, useCallback } from 'react';
@@ -9,6 +9,10 @@ import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { Progress } from '@/components/ui/progress';
 import { getSaveState, type SaveState } from '@/hooks/useSaveOnEvent';
+import { RunHistoryDialog } from './RunHistoryDialog';
+import { CascadePlanDialog } from './CascadePlanDialog';
+import { VersionHistoryDialog } from './VersionHistoryDialog';
+import { StalenessReportDialog } from './StalenessReportDialog';
 
 interface BottomBarProps {
   onValidate: () => void;
@@ -24,6 +28,7 @@ export function BottomBar({ onValidate, validateButtonText = 'Validate', isValid
     toggleAIConversation,
     companies,
     selectedCompanyId,
+    selectedCompanyName,
     setSelectedCompany,
     loadCompanies,
     forceRunCascade,
@@ -31,8 +36,14 @@ export function BottomBar({ onValidate, validateButtonText = 'Validate', isValid
     isSystemRunning,
     cascadeProgress,
     cancelCascade,
+    staleOutputs,
+    validateGraph,
   } = useWorkflowStore();
   const [isSaving, setIsSaving] = useState(false);
+  const [runHistoryOpen, setRunHistoryOpen] = useState(false);
+  const [planOpen, setPlanOpen] = useState(false);
+  const [versionsOpen, setVersionsOpen] = useState(false);
+  const [staleReportOpen, setStaleReportOpen] = useState(false);
   const [globalSaveState, setGlobalSaveState] = useState<SaveState>({ isSaving: false });
 
   // Subscribe to global save state changes (for auto-saves)
@@ -52,7 +63,13 @@ export function BottomBar({ onValidate, validateButtonText = 'Validate', isValid
     setIsSaving(true);
     try {
       const { saveCurrentWorkflow } = await import('@/hooks/useSaveOnEvent');
-      await saveCurrentWorkflow();
+      const result = await saveCurrentWorkflow('user');
+      if (result.success && !isNewWorkflow) {
+        const errorCount = (await validateGraph()).filter(issue => issue.severity === 'error').length;
+        if (errorCount > 0) {
+          toast.warning(`Saved with ${errorCount} graph error(s) - cascades are blocked until they are fixed`);
+        }
+      }
     } finally {
       setIsSaving(false);
     }
@@ -89,6 +106,8 @@ export function BottomBar({ onValidate, validateButtonText = 'Validate', isValid
   const isNewWorkflow = workflow.id === '1' || workflow.id.startsWith('temp-');
   const canForceRun = !isNewWorkflow && !!selectedCompanyId && !isForceRunning;
 
+  const staleCount = staleOutputs?.workflowId === workflow.id ? staleOutputs.outputs.length : 0;
+
   // Calculate progress percentage
   const progressPercent = cascadeProgress 
     ? Math.round((cascadeProgress.current / Math.max(1, cascadeProgress.total)) * 100)
@@ -141,7 +160,46 @@ export function BottomBar({ onValidate, validateButtonText = 'Validate', isValid
             </TooltipContent>
           </Tooltip>
         </TooltipProvider>
-        
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setRunHistoryOpen(true)}
+          disabled={isNewWorkflow}
+          className="gap-2"
+        >
+          <History className="w-4 h-4" />
+          Runs
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setPlanOpen(true)}
+          disabled={isNewWorkflow || !selectedCompanyId}
+          className="gap-2"
+        >
+          <ClipboardList className="w-4 h-4" />
+          Plan
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setVersionsOpen(true)}
+          disabled={isNewWorkflow}
+          className="gap-2"
+        >
+          <Clock className="w-4 h-4" />
+          Versions
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setStaleReportOpen(true)}
+          disabled={isNewWorkflow}
+          className={cn("gap-2", staleCount > 0 && "text-amber-600 border-amber-500/50")}
+        >
+          <AlertTriangle className="w-4 h-4" />
+          Stale{staleCount > 0 ? ` (${staleCount})` : ''}
+        </Button>
         
         {/* Progress bar during cascade */}
         {(isForceRunning || isSystemRunning) && cascadeProgress && (
@@ -219,6 +277,28 @@ export function BottomBar({ onValidate, validateButtonText = 'Validate', isValid
           Automagic
         </Button>
       </div>
+
+      <RunHistoryDialog
+        open={runHistoryOpen}
+        onOpenChange={setRunHistoryOpen}
+        workflowId={workflow.id}
+      />
+      <CascadePlanDialog
+        open={planOpen}
+        onOpenChange={setPlanOpen}
+        workflowId={workflow.id}
+        companyId={selectedCompanyId}
+        companyName={selectedCompanyName}
+      />
+      <VersionHistoryDialog
+        open={versionsOpen}
+        onOpenChange={setVersionsOpen}
+        workflowId={workflow.id}
+      />
+      <StalenessReportDialog
+        open={staleReportOpen}
+        onOpenChange={setStaleReportOpen}
+      />
     </div>
   );
 }
@@ -0,0 +1,262 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ClipboardList, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatCost, formatTokenCount } from '@/lib/modelRegistry';
+import { getModelDisplayName } from '@/lib/modelPricing';
+
+type PlannedNodeStatus = 'would_execute' | 'cache_hit' | 'paused' | 'stop_trigger' | 'condition_skipped' | 'out_of_scope';
+
+interface PlannedNode {
+  node_id: string;
+  node_label: string;
+  node_type: string;
+  status: PlannedNodeStatus;
+  reason: string;
+  destinations: string[];
+  model?: string;
+  estimated_prompt_tokens?: number;
+  estimated_completion_tokens?: number;
+  estimated_cost?: number;
+  per_item?: boolean;
+  note?: string;
+}
+
+interface PlanTotals {
+  would_execute: number;
+  cache_hit: number;
+  paused: number;
+  stop_trigger: number;
+  condition_skipped: number;
+  out_of_scope: number;
+  estimated_prompt_tokens: number;
+  estimated_completion_tokens: number;
+  estimated_cost: number;
+}
+
+interface CascadePlan {
+  success: boolean;
+  error?: string;
+  message?: string;
+  workflows?: Array<{
+    workflow_id: string;
+    workflow_name: string;
+    status: 'would_run' | 'cached';
+    message?: string;
+    nodes: PlannedNode[];
+    totals: PlanTotals;
+  }>;
+  totals?: PlanTotals;
+  writes?: {
+    abi: number;
+    abivc: number;
+    ssot: number;
+    ssot_updates: number;
+    shared_cache: number;
+  };
+}
+
+interface CascadePlanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workflowId: string;
+  companyId: string | null;
+  companyName?: string | null;
+}
+
+const STATUS_LABELS: Record<PlannedNodeStatus, string> = {
+  would_execute: 'Would run',
+  cache_hit: 'Cache hit',
+  paused: 'Paused',
+  stop_trigger: 'Stop trigger',
+  condition_skipped: 'Branch skipped',
+  out_of_scope: 'Not in scope',
+};
+
+const STATUS_VARIANTS: Record<PlannedNodeStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  would_execute: 'default',
+  cache_hit: 'secondary',
+  paused: 'outline',
+  stop_trigger: 'destructive',
+  condition_skipped: 'outline',
+  out_of_scope: 'outline',
+};
+
+// Plan reasons come back as "kind" or "kind:detail"
+const formatReason = (reason: string) => {
+  const [kind, ...rest] = reason.split(':');
+  const detail = rest.join(':');
+  const text = kind.replace(/_/g, ' ');
+  return detail ? `${text}: ${detail}` : text;
+};
+
+export function CascadePlanDialog({ open, onOpenChange, workflowId, companyId, companyName }: CascadePlanDialogProps) {
+  const [plan, setPlan] = useState<CascadePlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [force, setForce] = useState(false);
+  const [allWorkflows, setAllWorkflows] = useState(false);
+
+  const fetchPlan = useCallback(async () => {
+    if (!companyId) return;
+    setLoading(true);
+    const { data, error } = await supabase.functions.invoke('run-company-workflows', {
+      body: {
+        company_id: companyId,
+        workflow_id: allWorkflows ? undefined : workflowId,
+        force,
+        dry_run: true,
+      },
+    });
+    if (error) {
+      console.error('Error building cascade plan:', error);
+      setPlan({ success: false, error: error.message });
+    } else {
+      setPlan(data as CascadePlan);
+    }
+    setLoading(false);
+  }, [companyId, workflowId, force, allWorkflows]);
+
+  useEffect(() => {
+    if (open) fetchPlan();
+  }, [open, fetchPlan]);
+
+  const totals = plan?.totals;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Cascade Plan</DialogTitle>
+          <DialogDescription>
+            What a cascade for {companyName || 'this company'} would do right now. Nothing is executed or saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-6 text-sm">
+          <div className="flex items-center gap-2">
+            <Switch id="plan-force" checked={force} onCheckedChange={setForce} />
+            <Label htmlFor="plan-force">Force (ignore cache)</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="plan-all-workflows" checked={allWorkflows} onCheckedChange={setAllWorkflows} />
+            <Label htmlFor="plan-all-workflows">All company workflows</Label>
+          </div>
+          <Button variant="ghost" size="sm" className="ml-auto gap-2" onClick={fetchPlan} disabled={loading}>
+            <RefreshCw className={cn('w-4 h-4', loading && 'animate-spin')} />
+            Refresh
+          </Button>
+        </div>
+
+        {totals && !loading && (
+          <div className="grid grid-cols-4 gap-2 text-sm">
+            <div className="border border-border rounded p-2">
+              <div className="text-xs text-muted-foreground">Would run</div>
+              <div className="font-medium">{totals.would_execute}</div>
+            </div>
+            <div className="border border-border rounded p-2">
+              <div className="text-xs text-muted-foreground">Cache hits</div>
+              <div className="font-medium">{totals.cache_hit}</div>
+            </div>
+            <div className="border border-border rounded p-2">
+              <div className="text-xs text-muted-foreground">Paused / stopped / skipped</div>
+              <div className="font-medium">{totals.paused} / {totals.stop_trigger} / {totals.condition_skipped}</div>
+            </div>
+            <div className="border border-border rounded p-2">
+              <div className="text-xs text-muted-foreground">Estimated tokens · cost</div>
+              <div className="font-medium">
+                {formatTokenCount(totals.estimated_prompt_tokens + totals.estimated_completion_tokens)} · {formatCost(totals.estimated_cost)}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {plan?.writes && !loading && (
+          <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+            <span>Would write:</span>
+            <Badge variant="outline">Abi {plan.writes.abi}</Badge>
+            <Badge variant="outline">AbiVC {plan.writes.abivc}</Badge>
+            <Badge variant="outline">SSOT fields {plan.writes.ssot}</Badge>
+            <Badge variant="outline">SSOT updates {plan.writes.ssot_updates}</Badge>
+            <Badge variant="outline">Shared cache {plan.writes.shared_cache}</Badge>
+          </div>
+        )}
+
+        <ScrollArea className="flex-1 min-h-0 border border-border rounded-md">
+          <div className="p-4 space-y-4">
+            {loading ? (
+              <div className="space-y-2">
+                {[...Array(5)].map((_, i) => (
+                  <Skeleton key={i} className="h-10" />
+                ))}
+              </div>
+            ) : !companyId ? (
+              <p className="text-center py-12 text-sm text-muted-foreground">Select a company to plan a cascade</p>
+            ) : !plan ? null : !plan.success ? (
+              <p className="text-center py-12 text-sm text-destructive">{plan.error || 'Could not build the plan'}</p>
+            ) : !plan.workflows || plan.workflows.length === 0 ? (
+              <div className="text-center py-12 text-sm text-muted-foreground">
+                <ClipboardList className="w-10 h-10 mx-auto mb-3 opacity-50" />
+                {plan.message || 'No workflows would run'}
+              </div>
+            ) : (
+              plan.workflows.map(workflowPlan => (
+                <div key={workflowPlan.workflow_id} className="space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium">{workflowPlan.workflow_name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {workflowPlan.message || `${workflowPlan.totals.would_execute} would run · ${formatCost(workflowPlan.totals.estimated_cost)}`}
+                    </span>
+                  </div>
+                  {workflowPlan.nodes.map(node => (
+                    <div
+                      key={node.node_id}
+                      className={cn(
+                        'flex items-start justify-between gap-4 p-2 border border-border rounded text-sm',
+                        node.status !== 'would_execute' && 'opacity-70'
+                      )}
+                    >
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="truncate font-medium">{node.node_label}</span>
+                          <span className="text-xs text-muted-foreground">{node.node_type}</span>
+                        </div>
+                        <div className="text-xs text-muted-foreground capitalize">{formatReason(node.reason)}</div>
+                        {node.note && <div className="text-xs text-muted-foreground">{node.note}</div>}
+                        {node.destinations.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {node.destinations.map(destination => (
+                              <Badge key={destination} variant="outline" className="text-xs">{destination}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                        <Badge variant={STATUS_VARIANTS[node.status]}>{STATUS_LABELS[node.status]}</Badge>
+                        {node.model && (
+                          <span className="text-xs text-muted-foreground">{getModelDisplayName(node.model)}</span>
+                        )}
+                        {node.estimated_cost !== undefined && (
+                          <span className="text-xs text-muted-foreground">
+                            ~{formatTokenCount((node.estimated_prompt_tokens || 0) + (node.estimated_completion_tokens || 0))} tokens · {formatCost(node.estimated_cost)}
+                            {node.per_item && ' per item'}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,11 @@
 import { useWorkflowStore } from '@/store/workflowStore';
 import { useViewport, useReactFlow, useNodesInitialized } from 'reactflow';
 import { cn } from '@/lib/utils';
+import { RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
 
 export function CascadeStatusOverlay() {
-  const { workflow, cascadeProgress } = useWorkflowStore();
+  const { workflow, cascadeProgress, isForceRunning, resumeCascade } = useWorkflowStore();
   const { x, y, zoom } = useViewport();
   const { getNodes } = useReactFlow();
   const nodesInitialized = useNodesInitialized();
@@ -38,7 +40,17 @@ export function CascadeStatusOverlay() {
     };
   };
 
-  const { executingNodeIds = [], completedNodeIds = [], failedNodeId } = cascadeProgress;
+  const { executingNodeIds = [], completedNodeIds = [], failedNodeId, executionRunId } = cascadeProgress;
+  const canResume = !!failedNodeId && !!executionRunId && !isForceRunning;
+
+  const handleResume = async () => {
+    const result = await resumeCascade();
+    if (result.success) {
+      toast.success(result.message);
+    } else {
+      toast.error(result.message);
+    }
+  };
 
   return (
     <div 
@@ -88,6 +100,16 @@ export function CascadeStatusOverlay() {
                   "Idle"
                 }
               />
+              {isFailed && canResume && (
+                <button
+                  onClick={handleResume}
+                  className="pointer-events-auto absolute left-5 -top-1 flex items-center gap-1 rounded-md border border-border bg-card px-2 py-0.5 text-xs font-medium shadow-md hover:bg-accent whitespace-nowrap"
+                  title="Re-run this node and everything after it, reusing the outputs this run already produced"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  Resume
+                </button>
+              )}
             </div>
           );
         })}
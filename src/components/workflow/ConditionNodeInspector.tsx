@@ -0,0 +1,221 @@
+import { useState, useEffect } from 'react';
+import { useWorkflowStore } from '@/store/workflowStore';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { DependencySelector } from '@/components/workflow/DependencySelector';
+import { ConditionConfig, PromptPart } from '@/types/workflow';
+import { evaluateCondition, extractConditionReferences } from '@/lib/conditionExpression';
+import { Plus, Trash2, CheckCircle2, AlertCircle, GitBranch } from 'lucide-react';
+
+interface ConditionNodeInspectorProps {
+  nodeId: string;
+}
+
+export function ConditionNodeInspector({ nodeId }: ConditionNodeInspectorProps) {
+  const { workflow, updateNodeConfig, nodePreviewData, loadNodePreview, selectedCompanyId } = useWorkflowStore();
+  const [dependencySelectorOpen, setDependencySelectorOpen] = useState(false);
+
+  const node = workflow.nodes.find(n => n.id === nodeId);
+  const config = (node?.config || {}) as ConditionConfig;
+  const expression = config.expression || '';
+  const promptParts: PromptPart[] = config.promptParts || [];
+  const dependencies = promptParts.filter(p => p.type === 'dependency');
+
+  // Load dependency previews so the expression can be evaluated against the latest outputs
+  const dependencyIds = dependencies.map(dep => dep.value).join(',');
+  useEffect(() => {
+    if (selectedCompanyId && dependencyIds) {
+      dependencyIds.split(',').forEach(id => loadNodePreview(id));
+    }
+  }, [dependencyIds, selectedCompanyId, loadNodePreview]);
+
+  if (!node) return null;
+
+  const getDependencyLabel = (dep: PromptPart) =>
+    workflow.nodes.find(n => n.id === dep.value)?.label || dep.nodeLabel || dep.value;
+
+  // Resolve a reference name the same way the edge functions do (label, output name or node id)
+  const findDependency = (name: string | null): PromptPart | undefined => {
+    if (name === null) return dependencies[0];
+    const target = name.trim().toLowerCase();
+    return dependencies.find(dep => {
+      const depNode = workflow.nodes.find(n => n.id === dep.value);
+      return [dep.value, dep.nodeLabel, depNode?.label, depNode?.config?.outputName]
+        .some(c => typeof c === 'string' && c.trim().toLowerCase() === target);
+    });
+  };
+
+  // Validate syntax and references; evaluate when every referenced preview is loaded
+  let validationError: string | null = null;
+  let preview: ReturnType<typeof evaluateCondition> | null = null;
+  if (expression.trim()) {
+    try {
+      const references = extractConditionReferences(expression);
+      const missing = references.find(ref => !findDependency(ref.name));
+      if (missing) {
+        validationError = missing.name === null
+          ? 'Add a dependency to use $'
+          : `{{${missing.name}}} is not one of this node's dependencies`;
+      } else {
+        const canEvaluate = references.every(ref => {
+          const data = nodePreviewData.get(findDependency(ref.name)!.value);
+          return data && !data.isLoading;
+        });
+        if (canEvaluate) {
+          preview = evaluateCondition(expression, name => {
+            const dep = findDependency(name);
+            return dep ? nodePreviewData.get(dep.value)?.output : undefined;
+          });
+        }
+      }
+    } catch (error) {
+      validationError = error instanceof Error ? error.message : 'Invalid expression';
+    }
+  }
+
+  const handleAddDependency = (
+    depNodeId: string,
+    nodeLabel: string,
+    _nodeType: string,
+    workflowId: string,
+    workflowName: string
+  ) => {
+    const newPart: PromptPart = {
+      id: crypto.randomUUID(),
+      type: 'dependency',
+      value: depNodeId,
+      order: promptParts.length,
+      workflowId,
+      workflowName,
+      nodeLabel,
+    };
+    updateNodeConfig(nodeId, { promptParts: [...promptParts, newPart] });
+  };
+
+  const handleRemoveDependency = (partId: string) => {
+    updateNodeConfig(nodeId, {
+      promptParts: promptParts
+        .filter(p => p.id !== partId)
+        .map((part, index) => ({ ...part, order: index })),
+    });
+  };
+
+  const insertReference = (dep: PromptPart) => {
+    const reference = `{{${getDependencyLabel(dep)}}}`;
+    updateNodeConfig(nodeId, {
+      expression: expression ? `${expression.trimEnd()} ${reference}` : reference,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-sm font-semibold">Dependencies</Label>
+        <p className="text-xs text-muted-foreground mb-2">
+          Upstream nodes the expression can read. Click one to insert a reference.
+        </p>
+        <div className="space-y-1">
+          {dependencies.map(dep => (
+            <div key={dep.id} className="flex items-center gap-2 rounded-md border border-border px-2 py-1">
+              <button
+                type="button"
+                className="flex-1 text-left text-sm truncate hover:text-primary"
+                onClick={() => insertReference(dep)}
+              >
+                {getDependencyLabel(dep)}
+                {dep.workflowId && dep.workflowId !== workflow.id && (
+                  <span className="text-xs text-muted-foreground"> · {dep.workflowName}</span>
+                )}
+              </button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => handleRemoveDependency(dep.id)}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setDependencySelectorOpen(true)}
+          className="w-full mt-2"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Dependency
+        </Button>
+      </div>
+
+      <div>
+        <Label htmlFor="condition-expression" className="text-sm font-semibold">Expression</Label>
+        <Textarea
+          id="condition-expression"
+          value={expression}
+          onChange={e => updateNodeConfig(nodeId, { expression: e.target.value })}
+          placeholder='{{Market Analysis}}.score >= 70 && $.verdict == "go"'
+          rows={4}
+          className="font-mono text-xs mt-1"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Reference outputs with {'{{Node Label}}'} or $ (first dependency), followed by a JSON path.
+          Operators: == != &gt; &gt;= &lt; &lt;= contains, &amp;&amp; || ! (and / or / not).
+        </p>
+        {validationError && (
+          <div className="flex items-center gap-1 text-xs text-destructive mt-2">
+            <AlertCircle className="w-3 h-3" />
+            {validationError}
+          </div>
+        )}
+        {!validationError && expression.trim() && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground mt-2">
+            <CheckCircle2 className="w-3 h-3 text-green-600" />
+            Valid expression
+          </div>
+        )}
+      </div>
+
+      {preview && (
+        <div className="rounded-md border border-border p-2 space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium">Preview with latest outputs</span>
+            <Badge variant={preview.result ? 'default' : 'secondary'}>
+              {preview.result ? 'true' : 'false'}
+            </Badge>
+          </div>
+          {Object.entries(preview.resolved).map(([ref, value]) => (
+            <div key={ref} className="flex justify-between gap-2 text-xs">
+              <span className="font-mono truncate">{ref}</span>
+              <span className="text-muted-foreground truncate">
+                {value === undefined ? 'undefined' : JSON.stringify(value)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-start gap-2 rounded-md bg-muted/50 p-2 text-xs text-muted-foreground">
+        <GitBranch className="w-3 h-3 mt-0.5 shrink-0" />
+        <span>
+          Wire the <strong>true</strong> and <strong>false</strong> ports to the nodes each branch should run.
+          Nodes on the branch not taken are recorded as skipped.
+        </span>
+      </div>
+
+      <DependencySelector
+        open={dependencySelectorOpen}
+        onOpenChange={setDependencySelectorOpen}
+        currentWorkflowId={workflow.id}
+        currentNodeId={nodeId}
+        onSelect={handleAddDependency}
+        selectedIds={dependencies.map(d => d.value)}
+        title="Add Dependency"
+        description="Select a node whose output the condition should evaluate"
+      />
+    </div>
+  );
+}
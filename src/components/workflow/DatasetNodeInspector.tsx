@@ -63,6 +63,24 @@ export function DatasetNodeInspector({ nodeId }: DatasetNodeInspectorProps) {
     }
   });
 
+  const pinnedDatasetId = selectedNode?.config?.datasetId as string | undefined;
+  const { data: datasetSnapshots } = useQuery({
+    queryKey: ['data_snapshots', pinnedDatasetId, selectedCompanyId],
+    enabled: !!pinnedDatasetId,
+    queryFn: async () => {
+      let query = supabase
+        .from('data_snapshots')
+        .select('version, company_id, row_count, created_at')
+        .eq('dataset_id', pinnedDatasetId!)
+        .order('version', { ascending: false })
+        .limit(50);
+      if (selectedCompanyId) query = query.eq('company_id', selectedCompanyId);
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    }
+  });
+
   const queryClient = useQueryClient();
   const [showCreateCacheDialog, setShowCreateCacheDialog] = useState(false);
 
@@ -147,6 +165,7 @@ export function DatasetNodeInspector({ nodeId }: DatasetNodeInspectorProps) {
         sourceType: undefined,
         datasetId: undefined,
         datasetName: undefined,
+        snapshotVersion: undefined,
       });
       return;
     }
@@ -157,6 +176,7 @@ export function DatasetNodeInspector({ nodeId }: DatasetNodeInspectorProps) {
         sourceType: 'dataset',
         datasetId: dataset.id,
         datasetName: dataset.name,
+        snapshotVersion: undefined,
         integrationId: undefined,
         integrationName: undefined,
         source: dataset.category === 'workflow' 
@@ -500,6 +520,38 @@ export function DatasetNodeInspector({ nodeId }: DatasetNodeInspectorProps) {
               {selectedDataset.description && (
                 <p className="text-xs text-muted-foreground">{selectedDataset.description}</p>
               )}
+              <div className="space-y-1 pt-1">
+                <Label className="text-xs">Snapshot</Label>
+                <Select
+                  value={selectedNode.config.snapshotVersion ? String(selectedNode.config.snapshotVersion) : 'live'}
+                  onValueChange={(value) => updateNodeConfig(nodeId, {
+                    snapshotVersion: value === 'live' ? undefined : Number(value),
+                  })}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="live">Live data</SelectItem>
+                    {selectedNode.config.snapshotVersion &&
+                      !datasetSnapshots?.some(s => s.version === selectedNode.config.snapshotVersion) && (
+                        <SelectItem value={String(selectedNode.config.snapshotVersion)}>
+                          v{selectedNode.config.snapshotVersion}
+                        </SelectItem>
+                      )}
+                    {datasetSnapshots?.map(snapshot => (
+                      <SelectItem key={`${snapshot.version}-${snapshot.company_id}`} value={String(snapshot.version)}>
+                        v{snapshot.version} · {snapshot.row_count} rows · {new Date(snapshot.created_at).toLocaleDateString()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {selectedNode.config.snapshotVersion
+                    ? `Runs use each company's latest snapshot at or before v${selectedNode.config.snapshotVersion}`
+                    : 'Runs read the current output of each dependency'}
+                </p>
+              </div>
             </div>
           )}
 
@@ -32,6 +32,7 @@ import {
   FileText,
   User,
   GitFork,
+  Repeat,
   Plug,
   Minus,
   Square,
@@ -71,7 +72,7 @@ const nodeTypeIcons: Record<NodeType | 'integration', LucideIcon> = {
   dataset: Database,
   variable: Settings,
   condition: GitFork,
-  foreach: GitFork,
+  foreach: Repeat,
   framework: FileCode,
   agent: User,
   note: StickyNote,
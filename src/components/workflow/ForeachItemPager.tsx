@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { NodeItemResult } from '@/types/workflow';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+
+interface ForeachItemPagerProps {
+  companyId: string;
+  workflowId: string;
+  nodeId: string;
+  // Changes whenever the node re-executes, so the pager reloads
+  executedAt?: string | null;
+  formatOutput: (output: unknown) => string;
+}
+
+// Pages through the per-item results a foreach run stored for this node (the foreach itself or a body node)
+export function ForeachItemPager({ companyId, workflowId, nodeId, executedAt, formatOutput }: ForeachItemPagerProps) {
+  const [index, setIndex] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [result, setResult] = useState<NodeItemResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setIndex(0);
+  }, [nodeId, companyId, executedAt]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadItem = async () => {
+      setIsLoading(true);
+      const { data, count, error } = await supabase
+        .from('company_node_item_results')
+        .select('foreach_node_id, node_id, item_index, item, output, status, error, execution_time_ms', { count: 'exact' })
+        .eq('company_id', companyId)
+        .eq('workflow_id', workflowId)
+        .eq('node_id', nodeId)
+        .order('item_index', { ascending: true })
+        .range(index, index);
+
+      if (cancelled) return;
+      if (error) {
+        console.error('[ForeachItemPager] Failed to load item results:', error);
+      }
+      setTotal(count || 0);
+      setResult((data?.[0] as NodeItemResult | undefined) || null);
+      setIsLoading(false);
+    };
+    loadItem();
+    return () => {
+      cancelled = true;
+    };
+  }, [companyId, workflowId, nodeId, index, executedAt]);
+
+  if (total === 0) return null;
+
+  return (
+    <div className="space-y-2 flex-shrink-0">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-muted-foreground">Per-item results:</p>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => setIndex(i => Math.max(i - 1, 0))}
+            disabled={index === 0 || isLoading}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-xs tabular-nums">
+            Item {index + 1} of {total}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => setIndex(i => Math.min(i + 1, total - 1))}
+            disabled={index >= total - 1 || isLoading}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading || !result ? (
+        <div className="flex items-center justify-center p-3">
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Badge variant={result.status === 'failed' ? 'destructive' : result.status === 'skipped' ? 'secondary' : 'default'}>
+              {result.status}
+            </Badge>
+            {result.execution_time_ms !== null && (
+              <span className="text-xs text-muted-foreground">{result.execution_time_ms}ms</span>
+            )}
+          </div>
+          {result.error && (
+            <p className="text-xs text-destructive">{result.error}</p>
+          )}
+          <div>
+            <p className="text-xs text-muted-foreground mb-1">Item</p>
+            <ScrollArea className="max-h-[120px] rounded-lg border border-border bg-muted/30">
+              <pre className="p-2 text-xs whitespace-pre-wrap break-words font-mono">{formatOutput(result.item)}</pre>
+            </ScrollArea>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground mb-1">Output</p>
+            <ScrollArea className="max-h-[200px] rounded-lg border border-border bg-background">
+              <pre className="p-2 text-xs whitespace-pre-wrap break-words font-mono">{formatOutput(result.output)}</pre>
+            </ScrollArea>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
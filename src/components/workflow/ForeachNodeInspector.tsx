@@ -0,0 +1,238 @@
+import { useState, useEffect } from 'react';
+import { useWorkflowStore } from '@/store/workflowStore';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DependencySelector } from '@/components/workflow/DependencySelector';
+import { CONDITION_BRANCH_PORTS, Edge, ForeachConfig, FOREACH_ITEM_PORT, NodeBase, PromptPart } from '@/types/workflow';
+import { resolveConditionPath } from '@/lib/conditionExpression';
+import { Plus, Trash2, CheckCircle2, AlertCircle, Repeat } from 'lucide-react';
+
+const LAST_BODY_NODE = '__last__';
+
+interface ForeachNodeInspectorProps {
+  nodeId: string;
+}
+
+// Nodes wired to the item port plus everything downstream of them, matching execute-single-node
+function getBodyNodeIds(foreachNodeId: string, nodes: NodeBase[], edges: Edge[]): string[] {
+  const body = new Set<string>();
+  const queue = edges
+    .filter(e => e.from.node === foreachNodeId && e.from.port === FOREACH_ITEM_PORT)
+    .map(e => e.to.node);
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    if (currentId === foreachNodeId || body.has(currentId)) continue;
+    body.add(currentId);
+    for (const node of nodes) {
+      const dependsOn =
+        (node.type === 'agent' && node.config?.sourceNodeId === currentId) ||
+        (node.config?.promptParts || []).some((p: PromptPart) => p.type === 'dependency' && p.value === currentId) ||
+        edges.some(e => e.from.node === currentId && e.to.node === node.id && ([...CONDITION_BRANCH_PORTS, FOREACH_ITEM_PORT] as string[]).includes(e.from.port));
+      if (dependsOn) queue.push(node.id);
+    }
+  }
+  return Array.from(body);
+}
+
+export function ForeachNodeInspector({ nodeId }: ForeachNodeInspectorProps) {
+  const { workflow, updateNodeConfig, nodePreviewData, loadNodePreview, selectedCompanyId } = useWorkflowStore();
+  const [dependencySelectorOpen, setDependencySelectorOpen] = useState(false);
+
+  const node = workflow.nodes.find(n => n.id === nodeId);
+  const config = (node?.config || {}) as ForeachConfig;
+  const promptParts: PromptPart[] = config.promptParts || [];
+  const source = promptParts.find(p => p.type === 'dependency');
+
+  // Load the source preview so the items path can be checked against the latest output
+  const sourceId = source?.value;
+  useEffect(() => {
+    if (selectedCompanyId && sourceId) {
+      loadNodePreview(sourceId);
+    }
+  }, [sourceId, selectedCompanyId, loadNodePreview]);
+
+  if (!node) return null;
+
+  const bodyNodes = getBodyNodeIds(nodeId, workflow.nodes, workflow.edges)
+    .map(id => workflow.nodes.find(n => n.id === id))
+    .filter((n): n is NodeBase => !!n);
+
+  const sourceLabel = source
+    ? workflow.nodes.find(n => n.id === source.value)?.label || source.nodeLabel || source.value
+    : null;
+
+  // Resolve the items path against the source's latest output
+  let itemsPreview: { count: number } | { error: string } | null = null;
+  const sourcePreview = sourceId ? nodePreviewData.get(sourceId) : undefined;
+  if (sourcePreview && !sourcePreview.isLoading && sourcePreview.output !== undefined && sourcePreview.output !== null) {
+    const path = (config.itemsPath || '').trim().replace(/^\$?\.?/, '');
+    const value = resolveConditionPath(sourcePreview.output, path);
+    itemsPreview = Array.isArray(value)
+      ? { count: value.length }
+      : { error: `${path ? `"${path}"` : 'The output'} is not an array` };
+  }
+
+  const handleSelectSource = (
+    depNodeId: string,
+    nodeLabel: string,
+    _nodeType: string,
+    workflowId: string,
+    workflowName: string
+  ) => {
+    const newPart: PromptPart = {
+      id: crypto.randomUUID(),
+      type: 'dependency',
+      value: depNodeId,
+      order: 0,
+      workflowId,
+      workflowName,
+      nodeLabel,
+    };
+    updateNodeConfig(nodeId, { promptParts: [newPart] });
+  };
+
+  const handleNumberChange = (key: 'concurrency' | 'maxItems', value: string, max: number) => {
+    const parsed = parseInt(value, 10);
+    updateNodeConfig(nodeId, { [key]: Number.isNaN(parsed) ? undefined : Math.min(Math.max(parsed, 1), max) });
+  };
+
+  const maxItems = config.maxItems ?? 25;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-sm font-semibold">Array Source</Label>
+        <p className="text-xs text-muted-foreground mb-2">
+          Upstream node whose output contains the items to loop over.
+        </p>
+        {source ? (
+          <div className="flex items-center gap-2 rounded-md border border-border px-2 py-1">
+            <span className="flex-1 text-sm truncate">
+              {sourceLabel}
+              {source.workflowId && source.workflowId !== workflow.id && (
+                <span className="text-xs text-muted-foreground"> · {source.workflowName}</span>
+              )}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => updateNodeConfig(nodeId, { promptParts: [] })}
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDependencySelectorOpen(true)}
+            className="w-full"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Select Source
+          </Button>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="foreach-items-path" className="text-sm font-semibold">Items Path</Label>
+        <Input
+          id="foreach-items-path"
+          value={config.itemsPath || ''}
+          onChange={e => updateNodeConfig(nodeId, { itemsPath: e.target.value })}
+          placeholder="competitors"
+          className="font-mono text-xs mt-1"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          JSON path to the array in the source output, e.g. founders or analysis.competitors. Leave empty if the output is the array.
+        </p>
+        {itemsPreview && 'error' in itemsPreview && (
+          <div className="flex items-center gap-1 text-xs text-destructive mt-2">
+            <AlertCircle className="w-3 h-3" />
+            {itemsPreview.error}
+          </div>
+        )}
+        {itemsPreview && 'count' in itemsPreview && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground mt-2">
+            <CheckCircle2 className="w-3 h-3 text-green-600" />
+            {itemsPreview.count} item{itemsPreview.count === 1 ? '' : 's'} in the latest output
+            {itemsPreview.count > maxItems && ` (only the first ${maxItems} will run)`}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor="foreach-concurrency" className="text-sm font-semibold">Concurrency</Label>
+          <Input
+            id="foreach-concurrency"
+            type="number"
+            min={1}
+            max={10}
+            value={config.concurrency ?? 3}
+            onChange={e => handleNumberChange('concurrency', e.target.value, 10)}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="foreach-max-items" className="text-sm font-semibold">Max Items</Label>
+          <Input
+            id="foreach-max-items"
+            type="number"
+            min={1}
+            max={100}
+            value={maxItems}
+            onChange={e => handleNumberChange('maxItems', e.target.value, 100)}
+            className="mt-1"
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label className="text-sm font-semibold">Collect Output From</Label>
+        <p className="text-xs text-muted-foreground mb-2">
+          Node inside the loop whose per-item output is gathered into this node's array output.
+        </p>
+        <Select
+          value={config.collectNodeId && bodyNodes.some(n => n.id === config.collectNodeId) ? config.collectNodeId : LAST_BODY_NODE}
+          onValueChange={value => updateNodeConfig(nodeId, { collectNodeId: value === LAST_BODY_NODE ? undefined : value })}
+          disabled={bodyNodes.length === 0}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={LAST_BODY_NODE}>Last node in the loop</SelectItem>
+            {bodyNodes.map(bodyNode => (
+              <SelectItem key={bodyNode.id} value={bodyNode.id}>{bodyNode.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-start gap-2 rounded-md bg-muted/50 p-2 text-xs text-muted-foreground">
+        <Repeat className="w-3 h-3 mt-0.5 shrink-0" />
+        <span>
+          Wire the <strong>each item</strong> port to the nodes that should run per item, and add this node as
+          their dependency to read the current item. Nodes outside the loop that depend on this node receive the
+          collected array.
+          {bodyNodes.length === 0 && ' No nodes are connected yet.'}
+        </span>
+      </div>
+
+      <DependencySelector
+        open={dependencySelectorOpen}
+        onOpenChange={setDependencySelectorOpen}
+        currentWorkflowId={workflow.id}
+        currentNodeId={nodeId}
+        onSelect={handleSelectSource}
+        selectedIds={source ? [source.value] : []}
+        title="Select Array Source"
+        description="Select a node whose output contains the items to loop over"
+      />
+    </div>
+  );
+}
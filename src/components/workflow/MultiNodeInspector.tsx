@@ -154,6 +154,14 @@ export function MultiNodeInspector() {
                     </SelectItem>
                   ))}
                 </SelectGroup>
+                <SelectGroup>
+                  <SelectLabel>Self-hosted &amp; Testing</SelectLabel>
+                  {AI_MODELS.filter(m => m.provider === 'self-hosted' || m.provider === 'mock').map(model => (
+                    <SelectItem key={model.value} value={model.value}>
+                      {model.label}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
               </SelectContent>
             </Select>
           </div>
@@ -19,6 +19,10 @@ import { IngestNodeInspector } from '@/components/workflow/IngestNodeInspector';
 import { IntegrationNodeInspector } from '@/components/workflow/IntegrationNodeInspector';
 import { AgentNodeInspector } from '@/components/workflow/AgentNodeInspector';
 import { TransformationNodeInspector } from '@/components/workflow/TransformationNodeInspector';
+import { ConditionNodeInspector } from '@/components/workflow/ConditionNodeInspector';
+import { ForeachNodeInspector } from '@/components/workflow/ForeachNodeInspector';
+import { OutputSchemaSection } from '@/components/workflow/OutputSchemaSection';
+import { ReliabilitySection } from '@/components/workflow/ReliabilitySection';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { AI_MODELS } from '@/types/ai-agent';
 
@@ -182,6 +186,17 @@ export function NodeInspector() {
                 </SelectItem>
               ))}
             </SelectGroup>
+            <SelectGroup>
+              <SelectLabel>Self-hosted &amp; Testing</SelectLabel>
+              {AI_MODELS.filter(m => m.provider === 'self-hosted' || m.provider === 'mock').map(model => (
+                <SelectItem key={model.value} value={model.value} className="py-2.5">
+                  <div className="flex flex-col items-start gap-0.5">
+                    <span className="font-medium">{model.label}</span>
+                    <span className="text-xs text-muted-foreground leading-relaxed">{model.description}</span>
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectGroup>
           </SelectContent>
         </Select>
       </div>
@@ -235,6 +250,18 @@ export function NodeInspector() {
         </div>
       </div>
 
+      {/* Retries & Fallbacks Section */}
+      <ReliabilitySection
+        config={selectedNode.config}
+        onConfigChange={updates => updateNodeConfig(selectedNode.id, updates)}
+      />
+
+      {/* Output Schema Section */}
+      <OutputSchemaSection
+        config={selectedNode.config}
+        onConfigChange={updates => updateNodeConfig(selectedNode.id, updates)}
+      />
+
       {/* Toggles Section */}
       <div className="pt-4 border-t border-border space-y-3">
         {/* Web Search toggle - only for Gemini models */}
@@ -685,5 +712,7 @@ export function NodeInspector() {
       {selectedNode.type === 'workflow' && <WorkflowNodeInspector nodeId={selectedNode.id} />}
       {selectedNode.type === 'integration' && <IntegrationNodeInspector nodeId={selectedNode.id} />}
       {selectedNode.type === 'agent' && <AgentNodeInspector nodeId={selectedNode.id} />}
+      {selectedNode.type === 'condition' && <ConditionNodeInspector nodeId={selectedNode.id} />}
+      {selectedNode.type === 'foreach' && <ForeachNodeInspector nodeId={selectedNode.id} />}
     </div>;
 }
\ No newline at end of file
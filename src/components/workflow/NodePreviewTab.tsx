@@ -2,11 +2,13 @@ import { useEffect, useState } from 'react';
 import { useWorkflowStore } from '@/store/workflowStore';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { RefreshCw, Clock, CheckCircle2, AlertCircle, Loader2, Zap, AlertTriangle, Database } from 'lucide-react';
+import { RefreshCw, Clock, CheckCircle2, AlertCircle, Loader2, Zap, AlertTriangle, Database, Braces } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { ForeachItemPager } from './ForeachItemPager';
 import {
   Tooltip,
   TooltipContent,
@@ -33,9 +35,10 @@ export function NodePreviewTab({ nodeId }: NodePreviewTabProps) {
   
   const previewData = nodePreviewData.get(nodeId);
   const node = workflow.nodes.find(n => n.id === nodeId);
+  const schemaValidation = previewData?.isLoading ? null : previewData?.schemaValidation;
   
   // Check if this node type supports force run
-  const supportsForceRun = node && ['promptTemplate', 'ingest', 'dataset', 'agent'].includes(node.type);
+  const supportsForceRun = node && ['promptTemplate', 'ingest', 'dataset', 'agent', 'foreach'].includes(node.type);
   
   useEffect(() => {
     // Load preview data when component mounts OR when company changes
@@ -187,6 +190,39 @@ export function NodePreviewTab({ nodeId }: NodePreviewTabProps) {
         </div>
       )}
       
+      {/* Output schema validation */}
+      {schemaValidation && (
+        <div
+          className={cn(
+            "p-3 rounded-lg border flex-shrink-0 space-y-1",
+            schemaValidation.valid ? "border-green-500/30 bg-green-500/5" : "border-destructive/20 bg-destructive/10"
+          )}
+        >
+          <div className="flex items-center gap-2">
+            <Braces className="w-4 h-4 text-muted-foreground" />
+            <p className="text-sm font-medium">Output schema</p>
+            <Badge
+              variant="outline"
+              className={cn("text-[10px]", schemaValidation.valid ? "text-green-600 border-green-500/50" : "text-destructive border-destructive/50")}
+            >
+              {schemaValidation.valid ? 'Passed' : 'Failed'}
+            </Badge>
+            {schemaValidation.repaired && (
+              <span className="text-xs text-muted-foreground">
+                repaired after {schemaValidation.attempts} attempts
+              </span>
+            )}
+          </div>
+          {!schemaValidation.valid && (
+            <ul className="text-xs text-destructive font-mono space-y-0.5">
+              {schemaValidation.errors.map((validationError, index) => (
+                <li key={index} className="break-words">{validationError}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      
       {/* Output Display */}
       <div className="flex-1 min-h-0">
         <p className="text-xs font-medium text-muted-foreground mb-2">Output:</p>
@@ -215,6 +251,17 @@ export function NodePreviewTab({ nodeId }: NodePreviewTabProps) {
           </ScrollArea>
         )}
       </div>
+
+      {/* Per-item results of foreach runs (foreach nodes and the nodes in their loop) */}
+      {selectedCompanyId && workflow.id && (
+        <ForeachItemPager
+          companyId={selectedCompanyId}
+          workflowId={workflow.id}
+          nodeId={nodeId}
+          executedAt={previewData?.executedAt}
+          formatOutput={formatOutput}
+        />
+      )}
       
       {/* Help text */}
       {!previewData?.executedAt && !previewData?.isLoading && (
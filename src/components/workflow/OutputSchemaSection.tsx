@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, BookOpen, CheckCircle2, X } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FrameworkSelector } from '@/components/workflow/FrameworkSelector';
+import { supabase } from '@/integrations/supabase/client';
+import type { OutputSchemaSource, PromptTemplateConfig } from '@/types/workflow';
+
+interface OutputSchemaSectionProps {
+  config: Partial<PromptTemplateConfig>;
+  onConfigChange: (updates: Partial<PromptTemplateConfig>) => void;
+}
+
+const SCHEMA_PLACEHOLDER = `{
+  "type": "object",
+  "properties": {
+    "summary": { "type": "string" },
+    "score": { "type": "integer", "minimum": 1, "maximum": 5 }
+  },
+  "required": ["summary", "score"]
+}`;
+
+// Same check the edge functions apply before validating against a schema
+const isJsonSchema = (value: unknown): boolean =>
+  !!value && typeof value === 'object' && !Array.isArray(value) &&
+  ['type', 'properties', 'items', 'anyOf', 'oneOf', 'allOf', 'enum', '$schema'].some(key => key in (value as Record<string, unknown>));
+
+const checkSchemaText = (text: string): string | null => {
+  try {
+    return isJsonSchema(JSON.parse(text)) ? null : 'Not a JSON Schema (expected "type", "properties" or similar)';
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid JSON';
+  }
+};
+
+export function OutputSchemaSection({ config, onConfigChange }: OutputSchemaSectionProps) {
+  const [showFrameworkSelector, setShowFrameworkSelector] = useState(false);
+  const [frameworkSchemaUsable, setFrameworkSchemaUsable] = useState<boolean | null>(null);
+
+  const source: OutputSchemaSource = config.outputSchemaSource || 'none';
+  const inlineError = useMemo(
+    () => (source === 'inline' && config.outputSchema?.trim() ? checkSchemaText(config.outputSchema) : null),
+    [source, config.outputSchema]
+  );
+
+  // Frameworks hold all kinds of schemas; only JSON Schemas can validate output
+  useEffect(() => {
+    if (source !== 'framework' || !config.outputSchemaFrameworkId) {
+      setFrameworkSchemaUsable(null);
+      return;
+    }
+    let cancelled = false;
+    const loadSchema = async () => {
+      const { data, error } = await supabase
+        .from('frameworks')
+        .select('schema')
+        .eq('id', config.outputSchemaFrameworkId!)
+        .maybeSingle();
+      if (cancelled) return;
+      if (error) {
+        console.error('Error loading framework schema:', error);
+        setFrameworkSchemaUsable(null);
+        return;
+      }
+      const schema = typeof data?.schema === 'string' ? (() => {
+        try {
+          return JSON.parse(data.schema);
+        } catch {
+          return null;
+        }
+      })() : data?.schema;
+      setFrameworkSchemaUsable(isJsonSchema(schema));
+    };
+    loadSchema();
+    return () => {
+      cancelled = true;
+    };
+  }, [source, config.outputSchemaFrameworkId]);
+
+  return (
+    <div className="pt-4 border-t border-border space-y-3">
+      <div>
+        <Label htmlFor="outputSchemaSource">Output Schema</Label>
+        <p className="text-xs text-muted-foreground mt-1">
+          Require JSON output. Sent as a response format where the model supports it; replies that do not validate are repaired automatically.
+        </p>
+      </div>
+
+      <Select
+        value={source}
+        onValueChange={value => onConfigChange({ outputSchemaSource: value as OutputSchemaSource })}
+      >
+        <SelectTrigger id="outputSchemaSource">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">None (free-form output)</SelectItem>
+          <SelectItem value="inline">Inline JSON Schema</SelectItem>
+          <SelectItem value="framework">From framework</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {source === 'inline' && (
+        <div className="space-y-1">
+          <Textarea
+            value={config.outputSchema || ''}
+            onChange={e => onConfigChange({ outputSchema: e.target.value })}
+            placeholder={SCHEMA_PLACEHOLDER}
+            rows={8}
+            className="font-mono text-xs"
+          />
+          {config.outputSchema?.trim() && (
+            inlineError ? (
+              <p className="text-xs text-destructive flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                {inlineError}
+              </p>
+            ) : (
+              <p className="text-xs text-green-600 flex items-center gap-1">
+                <CheckCircle2 className="w-3 h-3 flex-shrink-0" />
+                Valid JSON Schema
+              </p>
+            )
+          )}
+        </div>
+      )}
+
+      {source === 'framework' && (
+        <div className="space-y-1">
+          {config.outputSchemaFrameworkId ? (
+            <div className="flex items-center gap-2 p-2 rounded-md border border-border bg-muted/50">
+              <BookOpen className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+              <span className="text-sm flex-1 truncate">{config.outputSchemaFrameworkName || config.outputSchemaFrameworkId}</span>
+              <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => setShowFrameworkSelector(true)}>
+                Change
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => onConfigChange({ outputSchemaFrameworkId: undefined, outputSchemaFrameworkName: undefined })}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          ) : (
+            <Button variant="outline" size="sm" className="w-full" onClick={() => setShowFrameworkSelector(true)}>
+              <BookOpen className="w-4 h-4 mr-2" />
+              Choose framework
+            </Button>
+          )}
+          {frameworkSchemaUsable === false && (
+            <p className="text-xs text-amber-600 flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+              This framework's schema is not a JSON Schema, so output will not be validated
+            </p>
+          )}
+        </div>
+      )}
+
+      <FrameworkSelector
+        open={showFrameworkSelector}
+        onOpenChange={setShowFrameworkSelector}
+        onSelect={(frameworkId, frameworkName) => {
+          onConfigChange({ outputSchemaFrameworkId: frameworkId, outputSchemaFrameworkName: frameworkName });
+          setShowFrameworkSelector(false);
+        }}
+        selectedIds={config.outputSchemaFrameworkId ? [config.outputSchemaFrameworkId] : []}
+        title="Output Schema Framework"
+        description="Choose a framework whose schema is a JSON Schema for this node's output"
+      />
+    </div>
+  );
+}
@@ -16,14 +16,14 @@ import {
   Database,
   Activity
 } from 'lucide-react';
-import { MODEL_REGISTRY, getModelById, formatTokenCount, formatCost } from '@/lib/modelRegistry';
+import { MODEL_REGISTRY, getModelById, formatTokenCount, formatCost, type ModelProvider } from '@/lib/modelRegistry';
 import { getEffectiveModel } from '@/hooks/useModelPricing';
 import { cn } from '@/lib/utils';
 
 interface EffectiveModelInfo {
   id: string;
   displayName: string;
-  provider: 'google' | 'openai' | 'perplexity';
+  provider: ModelProvider;
   description: string;
   contextWindow: number;
   maxOutputTokens: number;
@@ -176,14 +176,22 @@ export function PerformancePanel() {
               <span className="font-medium">
                 {getModelById(nodeData.lastExecutedModel || '')?.displayName || nodeData.lastExecutedModel || 'Unknown'}
               </span>
-              {nodeData.modelMismatch ? (
+              {nodeData.servedByFallback ? (
+                <AlertTriangle className="w-4 h-4 text-amber-500" />
+              ) : nodeData.modelMismatch ? (
                 <XCircle className="w-4 h-4 text-red-500" />
               ) : (
                 <CheckCircle2 className="w-4 h-4 text-green-500" />
               )}
             </div>
           </div>
-          {nodeData.modelMismatch && (
+          {nodeData.servedByFallback ? (
+            <Alert className="mt-2 border-amber-500/50 bg-amber-500/10">
+              <AlertDescription className="text-xs">
+                Served by a fallback model after the configured model failed.
+              </AlertDescription>
+            </Alert>
+          ) : nodeData.modelMismatch && (
             <Alert variant="destructive" className="mt-2">
               <AlertDescription className="text-xs">
                 Model mismatch detected! The executed model differs from configuration.
@@ -0,0 +1,141 @@
+import { ArrowDown, ArrowUp, X } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AI_MODELS } from '@/types/ai-agent';
+import { DEFAULT_RETRY_POLICY, type NodeRetryPolicy, type PromptTemplateConfig } from '@/types/workflow';
+
+interface ReliabilitySectionProps {
+  config: Partial<PromptTemplateConfig>;
+  onConfigChange: (updates: Partial<PromptTemplateConfig>) => void;
+}
+
+// Statuses worth retrying on the same model; others go straight to the next fallback
+const RETRYABLE_STATUSES: Array<{ status: number; label: string }> = [
+  { status: 408, label: '408 Timeout' },
+  { status: 429, label: '429 Rate limited' },
+  { status: 500, label: '500 Server error' },
+  { status: 502, label: '502 Bad gateway' },
+  { status: 503, label: '503 Unavailable' },
+  { status: 504, label: '504 Gateway timeout' },
+];
+
+const modelLabel = (modelId: string) => AI_MODELS.find(m => m.value === modelId)?.label || modelId;
+
+export function ReliabilitySection({ config, onConfigChange }: ReliabilitySectionProps) {
+  const policy: NodeRetryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retryPolicy };
+  const fallbackModels = config.fallbackModels || [];
+  const primaryModel = config.model || 'google/gemini-3-flash-preview';
+  const availableFallbacks = AI_MODELS.filter(m => m.value !== primaryModel && !fallbackModels.includes(m.value));
+
+  const updatePolicy = (updates: Partial<NodeRetryPolicy>) => onConfigChange({ retryPolicy: { ...policy, ...updates } });
+
+  const toggleStatus = (status: number, checked: boolean) => {
+    const retryOnStatus = checked
+      ? [...policy.retryOnStatus, status].sort((a, b) => a - b)
+      : policy.retryOnStatus.filter(s => s !== status);
+    updatePolicy({ retryOnStatus });
+  };
+
+  const moveFallback = (index: number, offset: number) => {
+    const updated = [...fallbackModels];
+    const [model] = updated.splice(index, 1);
+    updated.splice(index + offset, 0, model);
+    onConfigChange({ fallbackModels: updated });
+  };
+
+  return (
+    <div className="pt-4 border-t border-border space-y-3">
+      <Label>Retries &amp; Fallbacks</Label>
+
+      {/* Retry count */}
+      <div>
+        <span className="text-xs text-muted-foreground">Retries per model</span>
+        <div className="flex items-center gap-4">
+          <Slider
+            value={[policy.maxRetries]}
+            onValueChange={([value]) => updatePolicy({ maxRetries: value })}
+            min={0}
+            max={5}
+            step={1}
+            className="flex-1"
+          />
+          <span className="text-sm text-muted-foreground w-12 text-right">{policy.maxRetries}</span>
+        </div>
+      </div>
+
+      {/* Backoff */}
+      <div>
+        <span className="text-xs text-muted-foreground">Initial backoff (ms)</span>
+        <Input
+          type="number"
+          min={0}
+          step={250}
+          value={policy.baseDelayMs}
+          onChange={e => updatePolicy({ baseDelayMs: Math.max(0, Number(e.target.value) || 0) })}
+          className="h-8"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Doubles after each retry, with jitter. A Retry-After header from the provider takes precedence.
+        </p>
+      </div>
+
+      {/* Retryable statuses */}
+      <div>
+        <span className="text-xs text-muted-foreground">Retry on</span>
+        <div className="grid grid-cols-2 gap-1.5 mt-1">
+          {RETRYABLE_STATUSES.map(({ status, label }) => (
+            <div key={status} className="flex items-center space-x-2">
+              <Checkbox
+                id={`retry-${status}`}
+                checked={policy.retryOnStatus.includes(status)}
+                onCheckedChange={checked => toggleStatus(status, !!checked)}
+              />
+              <Label htmlFor={`retry-${status}`} className="text-xs font-normal">{label}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Fallback chain */}
+      <div className="space-y-1.5">
+        <span className="text-xs text-muted-foreground">Fallback models (tried in order)</span>
+        {fallbackModels.map((modelId, index) => (
+          <div key={modelId} className="flex items-center gap-1 p-1.5 rounded-md border border-border bg-muted/50">
+            <span className="text-xs text-muted-foreground w-4 text-right">{index + 1}.</span>
+            <span className="text-sm flex-1 truncate">{modelLabel(modelId)}</span>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={index === 0} onClick={() => moveFallback(index, -1)}>
+              <ArrowUp className="w-3 h-3" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={index === fallbackModels.length - 1} onClick={() => moveFallback(index, 1)}>
+              <ArrowDown className="w-3 h-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => onConfigChange({ fallbackModels: fallbackModels.filter(m => m !== modelId) })}
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        ))}
+        {availableFallbacks.length > 0 && (
+          <Select value="" onValueChange={value => onConfigChange({ fallbackModels: [...fallbackModels, value] })}>
+            <SelectTrigger className="h-8">
+              <SelectValue placeholder="Add fallback model..." />
+            </SelectTrigger>
+            <SelectContent>
+              {availableFallbacks.map(model => (
+                <SelectItem key={model.value} value={model.value}>{model.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    </div>
+  );
+}
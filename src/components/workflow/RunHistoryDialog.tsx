@@ -0,0 +1,387 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GitCompare, History, RefreshCw, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { useWorkflowStore } from '@/store/workflowStore';
+
+type ExecutionRun = Tables<'execution_runs'>;
+type ExecutionStep = Tables<'execution_steps'>;
+
+interface RunHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workflowId: string;
+}
+
+const RUN_TYPE_LABELS: Record<string, string> = {
+  cascade: 'Cascade',
+  force_run: 'Force run',
+  node_run: 'Node run',
+  test_run: 'Test run',
+  entity_run: 'Entity run',
+};
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  completed: 'default',
+  failed: 'destructive',
+  running: 'secondary',
+  queued: 'secondary',
+  cancelled: 'outline',
+  skipped: 'outline',
+};
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—';
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+};
+
+const formatJson = (value: Json | null | undefined) =>
+  value === null || value === undefined ? '—' : JSON.stringify(value, null, 2);
+
+const getStepOutput = (step: ExecutionStep | undefined): Json | undefined => {
+  const data = step?.output_data;
+  if (data && typeof data === 'object' && !Array.isArray(data)) return data.output;
+  return undefined;
+};
+
+// Last attempt per node: a retried or resumed run can hold several steps for one node
+const latestStepPerNode = (steps: ExecutionStep[]) => {
+  const byNode = new Map<string, ExecutionStep>();
+  for (const step of steps) byNode.set(step.node_id, step);
+  return byNode;
+};
+
+function StatusBadge({ status }: { status: string }) {
+  return <Badge variant={STATUS_VARIANTS[status] || 'outline'} className="capitalize">{status}</Badge>;
+}
+
+function JsonBlock({ value }: { value: Json | null | undefined }) {
+  return (
+    <pre className="bg-muted p-3 rounded text-xs overflow-auto whitespace-pre-wrap break-words max-h-80">
+      {formatJson(value)}
+    </pre>
+  );
+}
+
+export function RunHistoryDialog({ open, onOpenChange, workflowId }: RunHistoryDialogProps) {
+  const { companies, selectedCompanyId } = useWorkflowStore();
+  const [runs, setRuns] = useState<ExecutionRun[]>([]);
+  const [runsLoading, setRunsLoading] = useState(false);
+  const [companyFilter, setCompanyFilter] = useState('all');
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [stepsByRun, setStepsByRun] = useState<Record<string, ExecutionStep[]>>({});
+  const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
+  const [expandedNodeId, setExpandedNodeId] = useState<string | null>(null);
+
+  const fetchRuns = useCallback(async () => {
+    setRunsLoading(true);
+    let query = supabase
+      .from('execution_runs')
+      .select('*')
+      .eq('workflow_id', workflowId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+    if (companyFilter !== 'all') query = query.eq('company_id', companyFilter);
+    const { data, error } = await query;
+    if (error) console.error('Error loading execution runs:', error);
+    setRuns(data || []);
+    setRunsLoading(false);
+  }, [workflowId, companyFilter]);
+
+  const fetchSteps = async (runId: string) => {
+    if (stepsByRun[runId]) return;
+    const { data, error } = await supabase
+      .from('execution_steps')
+      .select('*')
+      .eq('execution_run_id', runId)
+      .order('execution_order', { ascending: true })
+      .order('created_at', { ascending: true });
+    if (error) console.error('Error loading execution steps:', error);
+    setStepsByRun(prev => ({ ...prev, [runId]: data || [] }));
+  };
+
+  useEffect(() => {
+    if (open) setCompanyFilter(selectedCompanyId || 'all');
+  }, [open, selectedCompanyId]);
+
+  useEffect(() => {
+    if (!open || !workflowId) return;
+    setSelectedRunId(null);
+    setCompareIds([]);
+    setSelectedStepId(null);
+    setStepsByRun({});
+    fetchRuns();
+  }, [open, workflowId, fetchRuns]);
+
+  const handleSelectRun = (runId: string) => {
+    setSelectedRunId(runId);
+    setSelectedStepId(null);
+    setCompareIds([]);
+    fetchSteps(runId);
+  };
+
+  const handleToggleCompare = (runId: string, checked: boolean) => {
+    const next = checked ? [...compareIds, runId].slice(-2) : compareIds.filter(id => id !== runId);
+    setCompareIds(next);
+    setExpandedNodeId(null);
+    next.forEach(fetchSteps);
+  };
+
+  const companyName = (id: string | null) =>
+    id ? companies.find(c => c.id === id)?.name || 'Unknown company' : 'No company';
+
+  const selectedRun = runs.find(r => r.id === selectedRunId);
+  const selectedSteps = selectedRunId ? stepsByRun[selectedRunId] : undefined;
+  const selectedStep = selectedSteps?.find(s => s.id === selectedStepId);
+  const isComparing = compareIds.length === 2;
+
+  // Compare view rows: every node either run touched, in execution order
+  const comparison = useMemo(() => {
+    if (!isComparing) return null;
+    const [stepsA, stepsB] = compareIds.map(id => stepsByRun[id]);
+    if (!stepsA || !stepsB) return null;
+    const byNodeA = latestStepPerNode(stepsA);
+    const byNodeB = latestStepPerNode(stepsB);
+    const nodeIds = Array.from(new Set([...byNodeA.keys(), ...byNodeB.keys()]));
+    const orderOf = (nodeId: string) =>
+      Math.min(byNodeA.get(nodeId)?.execution_order ?? Infinity, byNodeB.get(nodeId)?.execution_order ?? Infinity);
+    nodeIds.sort((a, b) => orderOf(a) - orderOf(b));
+    return nodeIds.map(nodeId => {
+      const a = byNodeA.get(nodeId);
+      const b = byNodeB.get(nodeId);
+      return {
+        nodeId,
+        label: a?.node_label || b?.node_label || nodeId,
+        a,
+        b,
+        outputChanged: JSON.stringify(getStepOutput(a) ?? null) !== JSON.stringify(getStepOutput(b) ?? null),
+      };
+    });
+  }, [isComparing, compareIds, stepsByRun]);
+
+  const runLabel = (run: ExecutionRun | undefined) =>
+    run ? `${RUN_TYPE_LABELS[run.run_type] || run.run_type} · ${formatDistanceToNow(new Date(run.created_at), { addSuffix: true })}` : '';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Run History</DialogTitle>
+          <DialogDescription>
+            Cascades, force runs, test runs and entity runs of this workflow. Tick two runs to compare them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 grid grid-cols-[320px_1fr] gap-4">
+          {/* Run list */}
+          <div className="flex flex-col min-h-0 border border-border rounded-md">
+            <div className="flex items-center gap-2 p-2 border-b border-border">
+              <Select value={companyFilter} onValueChange={setCompanyFilter}>
+                <SelectTrigger className="h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover z-50">
+                  <SelectItem value="all">All companies</SelectItem>
+                  {companies.map(c => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0" onClick={fetchRuns} disabled={runsLoading}>
+                <RefreshCw className={cn('w-4 h-4', runsLoading && 'animate-spin')} />
+              </Button>
+            </div>
+            <ScrollArea className="flex-1">
+              {runsLoading ? (
+                <div className="space-y-2 p-2">
+                  {[...Array(5)].map((_, i) => (
+                    <Skeleton key={i} className="h-14" />
+                  ))}
+                </div>
+              ) : runs.length === 0 ? (
+                <div className="text-center py-12 text-sm text-muted-foreground">
+                  <History className="w-10 h-10 mx-auto mb-3 opacity-50" />
+                  No runs recorded yet
+                </div>
+              ) : (
+                <div className="p-1">
+                  {runs.map(run => (
+                    <div
+                      key={run.id}
+                      className={cn(
+                        'flex items-start gap-2 p-2 rounded cursor-pointer hover:bg-accent',
+                        run.id === selectedRunId && !isComparing && 'bg-accent'
+                      )}
+                      onClick={() => handleSelectRun(run.id)}
+                    >
+                      <Checkbox
+                        className="mt-1"
+                        checked={compareIds.includes(run.id)}
+                        onClick={(e) => e.stopPropagation()}
+                        onCheckedChange={(checked) => handleToggleCompare(run.id, checked === true)}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm font-medium truncate">{RUN_TYPE_LABELS[run.run_type] || run.run_type}</span>
+                          <StatusBadge status={run.status} />
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {companyName(run.company_id)} · {formatDuration(run.execution_time_ms)}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(run.created_at), { addSuffix: true })}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+
+          {/* Run detail or comparison */}
+          <ScrollArea className="min-h-0 border border-border rounded-md">
+            <div className="p-4">
+              {isComparing ? (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      <GitCompare className="w-4 h-4" />
+                      Comparing runs
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => setCompareIds([])}>
+                      <X className="w-4 h-4 mr-1" />
+                      Clear
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-[1fr_1fr_1fr] gap-2 text-xs text-muted-foreground">
+                    <span>Node</span>
+                    <span>A: {runLabel(runs.find(r => r.id === compareIds[0]))}</span>
+                    <span>B: {runLabel(runs.find(r => r.id === compareIds[1]))}</span>
+                  </div>
+                  {!comparison ? (
+                    <Skeleton className="h-24" />
+                  ) : comparison.length === 0 ? (
+                    <p className="text-center py-6 text-sm text-muted-foreground">Neither run recorded any steps</p>
+                  ) : (
+                    comparison.map(row => (
+                      <div key={row.nodeId} className="border border-border rounded">
+                        <button
+                          className="w-full grid grid-cols-[1fr_1fr_1fr] gap-2 p-2 text-left text-sm hover:bg-accent"
+                          onClick={() => setExpandedNodeId(expandedNodeId === row.nodeId ? null : row.nodeId)}
+                        >
+                          <span className="flex items-center gap-2 min-w-0">
+                            <span className="truncate font-medium">{row.label}</span>
+                            {row.a && row.b && (
+                              <Badge variant={row.outputChanged ? 'secondary' : 'outline'} className="flex-shrink-0">
+                                {row.outputChanged ? 'Changed' : 'Same'}
+                              </Badge>
+                            )}
+                          </span>
+                          {[row.a, row.b].map((step, i) => (
+                            <span key={i} className="flex items-center gap-2 text-xs text-muted-foreground">
+                              {step ? (
+                                <>
+                                  <StatusBadge status={step.status} />
+                                  {formatDuration(step.execution_time_ms)}
+                                  {step.tokens_used ? ` · ${step.tokens_used} tokens` : ''}
+                                </>
+                              ) : (
+                                'Not in run'
+                              )}
+                            </span>
+                          ))}
+                        </button>
+                        {expandedNodeId === row.nodeId && (
+                          <div className="grid grid-cols-2 gap-2 p-2 border-t border-border">
+                            <JsonBlock value={getStepOutput(row.a)} />
+                            <JsonBlock value={getStepOutput(row.b)} />
+                          </div>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              ) : !selectedRun ? (
+                <p className="text-center py-12 text-sm text-muted-foreground">Select a run to see its steps</p>
+              ) : (
+                <div className="space-y-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="text-sm font-medium">{runLabel(selectedRun)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {companyName(selectedRun.company_id)} · {selectedRun.trigger_type} · {formatDuration(selectedRun.execution_time_ms)}
+                      </div>
+                      {selectedRun.error_message && (
+                        <div className="text-xs text-destructive mt-1">{selectedRun.error_message}</div>
+                      )}
+                    </div>
+                    <StatusBadge status={selectedRun.status} />
+                  </div>
+
+                  {!selectedSteps ? (
+                    <Skeleton className="h-24" />
+                  ) : selectedSteps.length === 0 ? (
+                    <p className="text-center py-6 text-sm text-muted-foreground">No steps recorded for this run</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {selectedSteps.map(step => (
+                        <div key={step.id} className="border border-border rounded">
+                          <button
+                            className={cn(
+                              'w-full flex items-center justify-between gap-2 p-2 text-left text-sm hover:bg-accent',
+                              step.id === selectedStepId && 'bg-accent'
+                            )}
+                            onClick={() => setSelectedStepId(step.id === selectedStepId ? null : step.id)}
+                          >
+                            <span className="flex items-center gap-2 min-w-0">
+                              <span className="text-xs text-muted-foreground w-6">{step.execution_order + 1}</span>
+                              <span className="truncate font-medium">{step.node_label || step.node_id}</span>
+                              <span className="text-xs text-muted-foreground">{step.node_type}</span>
+                            </span>
+                            <span className="flex items-center gap-2 text-xs text-muted-foreground flex-shrink-0">
+                              {step.tokens_used ? `${step.tokens_used} tokens` : null}
+                              {formatDuration(step.execution_time_ms)}
+                              <StatusBadge status={step.status} />
+                            </span>
+                          </button>
+                          {step.id === selectedStepId && selectedStep && (
+                            <div className="space-y-3 p-2 border-t border-border">
+                              {selectedStep.error_message && (
+                                <p className="text-xs text-destructive">{selectedStep.error_message}</p>
+                              )}
+                              <div className="grid grid-cols-2 gap-2">
+                                <div className="space-y-1">
+                                  <div className="text-xs font-medium text-muted-foreground">Input</div>
+                                  <JsonBlock value={selectedStep.input_data} />
+                                </div>
+                                <div className="space-y-1">
+                                  <div className="text-xs font-medium text-muted-foreground">Output</div>
+                                  <JsonBlock value={selectedStep.output_data} />
+                                </div>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
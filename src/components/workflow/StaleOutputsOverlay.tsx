@@ -0,0 +1,87 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useWorkflowStore } from '@/store/workflowStore';
+import { useViewport, useReactFlow, useNodesInitialized } from 'reactflow';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+
+// Badge on nodes whose stored company outputs came from an older config of the node
+export function StaleOutputsOverlay() {
+  const { workflow, staleOutputs, loadStaleOutputs, refreshStaleOutputs } = useWorkflowStore();
+  const { x, y, zoom } = useViewport();
+  const { getNodes } = useReactFlow();
+  const nodesInitialized = useNodesInitialized();
+  const [refreshingNodeId, setRefreshingNodeId] = useState<string | null>(null);
+
+  // Compare against the saved config only; edits count once they are saved
+  useEffect(() => {
+    if (workflow.unsavedChanges) return;
+    loadStaleOutputs();
+  }, [workflow.id, workflow.unsavedChanges, loadStaleOutputs]);
+
+  const staleCompanyCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    if (staleOutputs?.workflowId !== workflow.id) return counts;
+    for (const output of staleOutputs.outputs) {
+      counts.set(output.node_id, (counts.get(output.node_id) || 0) + 1);
+    }
+    return counts;
+  }, [staleOutputs, workflow.id]);
+
+  if (!nodesInitialized || staleCompanyCounts.size === 0) {
+    return null;
+  }
+
+  const reactFlowNodes = getNodes();
+
+  const handleRefresh = async (nodeId: string) => {
+    setRefreshingNodeId(nodeId);
+    const result = await refreshStaleOutputs({ nodeId });
+    setRefreshingNodeId(null);
+    if (result.success) {
+      toast.success(result.message);
+    } else {
+      toast.error(result.message);
+    }
+  };
+
+  return (
+    <div
+      className="absolute inset-0 pointer-events-none z-[15]"
+      style={{
+        transform: `translate(${x}px, ${y}px) scale(${zoom})`,
+        transformOrigin: '0 0'
+      }}
+    >
+      {workflow.nodes.map(node => {
+        const count = staleCompanyCounts.get(node.id);
+        if (!count) return null;
+        const width = reactFlowNodes.find(n => n.id === node.id)?.width ?? 200;
+        const isRefreshing = refreshingNodeId === node.id;
+
+        return (
+          <div
+            key={node.id}
+            className="absolute flex -translate-y-1/2 items-center gap-1"
+            style={{ left: node.position.x + width - 12, top: node.position.y }}
+          >
+            <span
+              className="rounded-full bg-amber-500 px-2 py-0.5 text-[10px] font-semibold text-white shadow-md whitespace-nowrap"
+              title={`${count} ${count === 1 ? 'company has' : 'companies have'} output from an older version of this node`}
+            >
+              {count} stale
+            </span>
+            <button
+              onClick={() => handleRefresh(node.id)}
+              disabled={isRefreshing}
+              className="pointer-events-auto flex items-center gap-1 rounded-md border border-border bg-card px-1.5 py-0.5 text-[10px] font-medium shadow-md hover:bg-accent whitespace-nowrap disabled:opacity-60"
+              title="Re-run stale nodes for these companies"
+            >
+              {isRefreshing ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+              Refresh
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { useWorkflowStore, type StaleNodeOutput } from '@/store/workflowStore';
+
+interface StalenessReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface StaleGroup {
+  id: string;
+  label: string;
+  outputs: StaleNodeOutput[];
+}
+
+const groupOutputs = (outputs: StaleNodeOutput[], by: 'node' | 'company'): StaleGroup[] => {
+  const groups = new Map<string, StaleGroup>();
+  for (const output of outputs) {
+    const id = by === 'node' ? output.node_id : output.company_id;
+    const label = by === 'node' ? output.node_label || output.node_id : output.company_name;
+    if (!groups.has(id)) groups.set(id, { id, label, outputs: [] });
+    groups.get(id)!.outputs.push(output);
+  }
+  return Array.from(groups.values()).sort((a, b) => b.outputs.length - a.outputs.length || a.label.localeCompare(b.label));
+};
+
+export function StalenessReportDialog({ open, onOpenChange }: StalenessReportDialogProps) {
+  const { workflow, staleOutputs, loadStaleOutputs, refreshStaleOutputs } = useWorkflowStore();
+  const [loading, setLoading] = useState(false);
+  const [refreshingKey, setRefreshingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const load = async () => {
+      setLoading(true);
+      await loadStaleOutputs();
+      setLoading(false);
+    };
+    load();
+  }, [open, loadStaleOutputs]);
+
+  const outputs = useMemo(
+    () => (staleOutputs?.workflowId === workflow.id ? staleOutputs.outputs : []),
+    [staleOutputs, workflow.id]
+  );
+  const byNode = useMemo(() => groupOutputs(outputs, 'node'), [outputs]);
+  const byCompany = useMemo(() => groupOutputs(outputs, 'company'), [outputs]);
+
+  const handleRefresh = async (key: string, scope: { nodeId?: string; companyId?: string }) => {
+    setRefreshingKey(key);
+    const result = await refreshStaleOutputs(scope);
+    setRefreshingKey(null);
+    if (result.success) {
+      toast.success(result.message);
+    } else {
+      toast.error(result.message);
+    }
+  };
+
+  const renderGroups = (groups: StaleGroup[], by: 'node' | 'company') => (
+    <ScrollArea className="h-[400px] border rounded-md">
+      {groups.length === 0 ? (
+        <p className="text-center py-12 text-sm text-muted-foreground">No stale outputs</p>
+      ) : (
+        <div className="divide-y">
+          {groups.map(group => {
+            const key = `${by}:${group.id}`;
+            return (
+              <div key={key} className="p-3 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm truncate">{group.label}</span>
+                  <Badge variant="outline" className="text-amber-600 border-amber-500/50">
+                    {group.outputs.length} stale
+                  </Badge>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="ml-auto h-7 gap-1"
+                    disabled={refreshingKey !== null}
+                    onClick={() => handleRefresh(key, by === 'node' ? { nodeId: group.id } : { companyId: group.id })}
+                  >
+                    {refreshingKey === key ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                    Refresh
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {group.outputs.map(output => (
+                    <span
+                      key={`${output.company_id}:${output.node_id}`}
+                      className="text-xs text-muted-foreground rounded bg-muted px-1.5 py-0.5"
+                      title={output.last_executed_at ? `Produced ${formatDistanceToNow(new Date(output.last_executed_at), { addSuffix: true })}` : undefined}
+                    >
+                      {by === 'node' ? output.company_name : output.node_label || output.node_id}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </ScrollArea>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Stale Outputs</DialogTitle>
+          <DialogDescription>
+            Company outputs produced before the node's prompt or settings last changed. Refreshing re-runs only the stale nodes and what depends on them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          {loading ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <span>
+              {outputs.length} stale {outputs.length === 1 ? 'output' : 'outputs'} across {byCompany.length} {byCompany.length === 1 ? 'company' : 'companies'}
+            </span>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            className="ml-auto gap-2"
+            disabled={outputs.length === 0 || refreshingKey !== null}
+            onClick={() => handleRefresh('all', {})}
+          >
+            {refreshingKey === 'all' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            Refresh all stale
+          </Button>
+        </div>
+
+        <Tabs defaultValue="node">
+          <TabsList>
+            <TabsTrigger value="node">By node ({byNode.length})</TabsTrigger>
+            <TabsTrigger value="company">By company ({byCompany.length})</TabsTrigger>
+          </TabsList>
+          <TabsContent value="node">{renderGroups(byNode, 'node')}</TabsContent>
+          <TabsContent value="company">{renderGroups(byCompany, 'company')}</TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,22 +1,51 @@
-import { AlertCircle, X } from 'lucide-react';
+import { AlertCircle, AlertTriangle, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { GraphValidationIssue } from '@/lib/graphValidation';
 
 interface ValidationBannerProps {
-  errors: string[];
+  issues: GraphValidationIssue[];
+  onSelectNode?: (nodeId: string) => void;
   onClose: () => void;
 }
 
-export function ValidationBanner({ errors, onClose }: ValidationBannerProps) {
-  if (errors.length === 0) return null;
+export function ValidationBanner({ issues, onSelectNode, onClose }: ValidationBannerProps) {
+  if (issues.length === 0) return null;
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+  const summary = [
+    errorCount > 0 && `${errorCount} error${errorCount === 1 ? '' : 's'}`,
+    warningCount > 0 && `${warningCount} warning${warningCount === 1 ? '' : 's'}`,
+  ].filter(Boolean).join(', ');
 
   return (
     <div className="bg-warning/10 border-l-4 border-warning p-4 flex items-start gap-3">
       <AlertCircle className="w-5 h-5 text-warning flex-shrink-0 mt-0.5" />
       <div className="flex-1">
-        <h3 className="font-semibold text-foreground mb-1">Preview validation failed</h3>
-        <ul className="text-sm text-foreground space-y-1">
-          {errors.map((error, index) => (
-            <li key={index}>• {error}</li>
+        <h3 className="font-semibold text-foreground mb-1">
+          Graph validation: {summary}
+        </h3>
+        {errorCount > 0 && (
+          <p className="text-xs text-muted-foreground mb-2">Cascades are blocked until the errors are fixed</p>
+        )}
+        <ul className="text-sm text-foreground space-y-1 max-h-40 overflow-y-auto">
+          {issues.map((issue, index) => (
+            <li key={index} className="flex items-start gap-2">
+              {issue.severity === 'error' ? (
+                <AlertCircle className="w-4 h-4 text-destructive flex-shrink-0 mt-0.5" />
+              ) : (
+                <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
+              )}
+              <button
+                type="button"
+                className={cn('text-left', onSelectNode && issue.nodeIds.length > 0 && 'hover:underline')}
+                disabled={!onSelectNode || issue.nodeIds.length === 0}
+                onClick={() => onSelectNode?.(issue.nodeIds[0])}
+              >
+                {issue.message}
+              </button>
+            </li>
           ))}
         </ul>
       </div>
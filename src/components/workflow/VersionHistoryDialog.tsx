@@ -0,0 +1,296 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { Edge, NodeBase, VariableDef, WorkflowSettings } from '@/types/workflow';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Clock, Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useWorkflowStore } from '@/store/workflowStore';
+import { diffWorkflows, isEmptyDiff, type WorkflowSnapshot } from '@/lib/workflowDiff';
+
+type WorkflowVersion = Tables<'workflow_versions'>;
+type VersionSummary = Pick<WorkflowVersion, 'id' | 'version' | 'name' | 'source' | 'author_email' | 'restored_from_version' | 'created_at'>;
+
+interface VersionHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workflowId: string;
+}
+
+const SOURCE_VARIANTS: Record<string, 'default' | 'secondary' | 'outline'> = {
+  user: 'default',
+  autosave: 'secondary',
+  rollback: 'outline',
+  migration: 'outline',
+};
+
+const toSnapshot = (version: WorkflowVersion): WorkflowSnapshot => ({
+  name: version.name,
+  nodes: version.nodes as unknown as NodeBase[],
+  edges: version.edges as unknown as Edge[],
+  variables: version.variables as unknown as VariableDef[],
+  settings: version.settings as unknown as WorkflowSettings | null,
+});
+
+export function VersionHistoryDialog({ open, onOpenChange, workflowId }: VersionHistoryDialogProps) {
+  const { workflow, restoreWorkflowVersion } = useWorkflowStore();
+  const [versions, setVersions] = useState<VersionSummary[]>([]);
+  const [versionsLoading, setVersionsLoading] = useState(false);
+  const [snapshots, setSnapshots] = useState<Record<string, WorkflowVersion>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<'previous' | 'current'>('previous');
+  const [restoring, setRestoring] = useState(false);
+
+  const fetchVersions = useCallback(async () => {
+    setVersionsLoading(true);
+    const { data, error } = await supabase
+      .from('workflow_versions')
+      .select('id, version, name, source, author_email, restored_from_version, created_at')
+      .eq('workflow_id', workflowId)
+      .order('version', { ascending: false })
+      .limit(100);
+    if (error) console.error('Error loading workflow versions:', error);
+    setVersions(data || []);
+    setVersionsLoading(false);
+  }, [workflowId]);
+
+  const fetchSnapshot = async (versionId: string) => {
+    if (snapshots[versionId]) return;
+    const { data, error } = await supabase
+      .from('workflow_versions')
+      .select('*')
+      .eq('id', versionId)
+      .single();
+    if (error) console.error('Error loading workflow version:', error);
+    if (data) setSnapshots(prev => ({ ...prev, [versionId]: data }));
+  };
+
+  useEffect(() => {
+    if (!open || !workflowId) return;
+    setSelectedId(null);
+    setSnapshots({});
+    fetchVersions();
+  }, [open, workflowId, fetchVersions]);
+
+  const selectedIndex = versions.findIndex(v => v.id === selectedId);
+  const selected = versions[selectedIndex];
+  const previous = selectedIndex >= 0 ? versions[selectedIndex + 1] : undefined;
+
+  const handleSelect = (versionId: string) => {
+    setSelectedId(versionId);
+    fetchSnapshot(versionId);
+    const index = versions.findIndex(v => v.id === versionId);
+    if (versions[index + 1]) fetchSnapshot(versions[index + 1].id);
+  };
+
+  // "previous": what this version changed. "current": what restoring it would change.
+  const diff = useMemo(() => {
+    if (!selected || !snapshots[selected.id]) return null;
+    const selectedSnapshot = toSnapshot(snapshots[selected.id]);
+    if (compareTo === 'current') {
+      return diffWorkflows(
+        { name: workflow.name, nodes: workflow.nodes, edges: workflow.edges, variables: workflow.variables, settings: workflow.settings },
+        selectedSnapshot
+      );
+    }
+    if (!previous) return diffWorkflows({ name: selectedSnapshot.name, nodes: [], edges: [], variables: [], settings: null }, selectedSnapshot);
+    if (!snapshots[previous.id]) return null;
+    return diffWorkflows(toSnapshot(snapshots[previous.id]), selectedSnapshot);
+  }, [selected, previous, snapshots, compareTo, workflow]);
+
+  const nodeLabel = (nodeId: string) => workflow.nodes.find(n => n.id === nodeId)?.label || nodeId;
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setRestoring(true);
+    const result = await restoreWorkflowVersion(selected.id);
+    setRestoring(false);
+    if (result.success) {
+      toast.success(result.message);
+      fetchVersions();
+    } else {
+      toast.error(result.message);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            Every save of this workflow. Select a version to see what changed or restore it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 grid grid-cols-[300px_1fr] gap-4">
+          {/* Version list */}
+          <div className="flex flex-col min-h-0 border border-border rounded-md">
+            <div className="flex items-center justify-between p-2 border-b border-border">
+              <span className="text-sm text-muted-foreground">Current: v{workflow.version}</span>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={fetchVersions} disabled={versionsLoading}>
+                <RefreshCw className={cn('w-4 h-4', versionsLoading && 'animate-spin')} />
+              </Button>
+            </div>
+            <ScrollArea className="flex-1">
+              {versionsLoading ? (
+                <div className="space-y-2 p-2">
+                  {[...Array(5)].map((_, i) => (
+                    <Skeleton key={i} className="h-14" />
+                  ))}
+                </div>
+              ) : versions.length === 0 ? (
+                <div className="text-center py-12 text-sm text-muted-foreground">
+                  <Clock className="w-10 h-10 mx-auto mb-3 opacity-50" />
+                  No versions saved yet
+                </div>
+              ) : (
+                <div className="p-1">
+                  {versions.map(version => (
+                    <div
+                      key={version.id}
+                      className={cn(
+                        'p-2 rounded cursor-pointer hover:bg-accent',
+                        version.id === selectedId && 'bg-accent'
+                      )}
+                      onClick={() => handleSelect(version.id)}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium">v{version.version}</span>
+                        <Badge variant={SOURCE_VARIANTS[version.source] || 'outline'} className="capitalize">{version.source}</Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {version.author_email || 'Unknown author'}
+                        {version.restored_from_version && ` · restored v${version.restored_from_version}`}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+
+          {/* Diff */}
+          <ScrollArea className="min-h-0 border border-border rounded-md">
+            <div className="p-4">
+              {!selected ? (
+                <p className="text-center py-12 text-sm text-muted-foreground">Select a version to see its changes</p>
+              ) : (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant={compareTo === 'previous' ? 'secondary' : 'ghost'}
+                        size="sm"
+                        onClick={() => setCompareTo('previous')}
+                      >
+                        Changes in v{selected.version}
+                      </Button>
+                      <Button
+                        variant={compareTo === 'current' ? 'secondary' : 'ghost'}
+                        size="sm"
+                        onClick={() => setCompareTo('current')}
+                      >
+                        Current → v{selected.version}
+                      </Button>
+                    </div>
+                    <Button
+                      size="sm"
+                      className="gap-2"
+                      onClick={handleRestore}
+                      disabled={restoring || selected.version === workflow.version}
+                    >
+                      {restoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                      Restore v{selected.version}
+                    </Button>
+                  </div>
+
+                  {!diff ? (
+                    <Skeleton className="h-24" />
+                  ) : isEmptyDiff(diff) ? (
+                    <p className="text-center py-6 text-sm text-muted-foreground">No structural changes</p>
+                  ) : (
+                    <div className="space-y-4 text-sm">
+                      {diff.renamed && (
+                        <div>Renamed <span className="font-medium">{diff.renamed.from}</span> → <span className="font-medium">{diff.renamed.to}</span></div>
+                      )}
+                      {diff.addedNodes.length > 0 && (
+                        <div className="space-y-1">
+                          <div className="text-xs font-medium text-muted-foreground">Nodes added</div>
+                          {diff.addedNodes.map(node => (
+                            <div key={node.id} className="text-green-600">+ {node.label || node.id} <span className="text-xs text-muted-foreground">{node.type}</span></div>
+                          ))}
+                        </div>
+                      )}
+                      {diff.removedNodes.length > 0 && (
+                        <div className="space-y-1">
+                          <div className="text-xs font-medium text-muted-foreground">Nodes removed</div>
+                          {diff.removedNodes.map(node => (
+                            <div key={node.id} className="text-destructive">− {node.label || node.id} <span className="text-xs text-muted-foreground">{node.type}</span></div>
+                          ))}
+                        </div>
+                      )}
+                      {(diff.addedEdges.length > 0 || diff.removedEdges.length > 0) && (
+                        <div className="text-xs text-muted-foreground">
+                          Connections: {diff.addedEdges.length} added, {diff.removedEdges.length} removed
+                        </div>
+                      )}
+                      {(diff.variablesChanged || diff.settingsChanged) && (
+                        <div className="text-xs text-muted-foreground">
+                          {[diff.variablesChanged && 'Variables changed', diff.settingsChanged && 'Settings changed'].filter(Boolean).join(' · ')}
+                        </div>
+                      )}
+                      {diff.changedNodes.length > 0 && (
+                        <div className="space-y-2">
+                          <div className="text-xs font-medium text-muted-foreground">Nodes changed</div>
+                          {diff.changedNodes.map(change => (
+                            <div key={change.nodeId} className="border border-border rounded p-2 space-y-2">
+                              <div className="flex items-center gap-2">
+                                <span className="font-medium">{change.label || nodeLabel(change.nodeId)}</span>
+                                <span className="text-xs text-muted-foreground">{change.type}</span>
+                              </div>
+                              <div className="flex flex-wrap gap-1">
+                                {change.changedFields.map(field => (
+                                  <Badge key={field} variant="outline" className="text-xs font-mono">{field}</Badge>
+                                ))}
+                              </div>
+                              {change.promptDiff && (
+                                <pre className="bg-muted p-2 rounded text-xs overflow-auto whitespace-pre-wrap break-words max-h-80">
+                                  {change.promptDiff.map((line, i) => (
+                                    <div
+                                      key={i}
+                                      className={cn(
+                                        line.type === 'added' && 'text-green-600 bg-green-500/10',
+                                        line.type === 'removed' && 'text-destructive bg-destructive/10'
+                                      )}
+                                    >
+                                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                                      {line.text}
+                                    </div>
+                                  ))}
+                                </pre>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
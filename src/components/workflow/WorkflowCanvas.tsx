@@ -24,6 +24,7 @@ import { CustomEdge } from './CustomEdge';
 import { ImprovementOverlay } from './ImprovementOverlay';
 import { CascadeStatusOverlay } from './CascadeStatusOverlay';
 import { PerformanceOverlay } from './PerformanceOverlay';
+import { StaleOutputsOverlay } from './StaleOutputsOverlay';
 import { CanvasContextMenu } from './CanvasContextMenu';
 import { NodeBase } from '@/types/workflow';
 import { useSaveOnDeselection, getBackup, clearBackup, type BackupData } from '@/hooks/useSaveOnEvent';
@@ -71,12 +72,15 @@ export function WorkflowCanvas() {
     deleteNode, 
     deleteEdge, 
     deleteSelectedNodes,
-    updateNode,
+    moveNodes,
     updateNodeConfig,
     currentLayer,
     improvementData,
     getImprovementDataForNode,
     loadWorkflow,
+    undo,
+    redo,
+    historyTransaction,
   } = useWorkflowStore();
 
   // Recovery dialog state
@@ -117,6 +121,24 @@ export function WorkflowCanvas() {
     return () => document.removeEventListener('keydown', handleKeyDown, true);
   }, [selectedNodeIds]);
 
+  // Ctrl+Z / Ctrl+Shift+Z undo and redo canvas edits; text fields keep their native undo
+  useEffect(() => {
+    const handleUndoKeys = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const tag = (e.target as HTMLElement)?.tagName;
+      if (tag === 'INPUT' || tag === 'TEXTAREA' || (e.target as HTMLElement)?.isContentEditable) return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    document.addEventListener('keydown', handleUndoKeys);
+    return () => document.removeEventListener('keydown', handleUndoKeys);
+  }, [undo, redo]);
+
   const handleRecoverBackup = useCallback(() => {
     if (!recoveryBackup) return;
     
@@ -272,11 +294,12 @@ export function WorkflowCanvas() {
         }, 150);
       }
     } else {
-      // Only data changed, preserve positions and selection
+      // Only data changed, preserve selection. Positions follow the store, which drags keep
+      // in sync, so an undone move puts the node back.
       setNodes(prevNodes => 
         prevNodes.map(node => {
           const workflowNode = workflow.nodes.find(n => n.id === node.id);
-          return workflowNode ? { ...node, data: workflowNode } : node;
+          return workflowNode ? { ...node, data: workflowNode, position: workflowNode.position } : node;
         })
       );
     }
@@ -313,11 +336,9 @@ export function WorkflowCanvas() {
       change.type === 'position' && change.position
     );
     
-    // Apply all position updates to store synchronously
+    // Apply all position updates to store synchronously, as one move per batch
     if (positionChanges.length > 0) {
-      positionChanges.forEach((change: any) => {
-        updateNode(change.id, { position: change.position });
-      });
+      moveNodes(positionChanges.map((change: any) => ({ nodeId: change.id, position: change.position })));
     }
     
     // Handle dimension changes for resizable nodes (shapes)
@@ -334,7 +355,7 @@ export function WorkflowCanvas() {
         });
       }
     });
-  }, [onNodesChange, updateNode, updateNodeConfig, workflow.nodes]);
+  }, [onNodesChange, moveNodes, updateNodeConfig, workflow.nodes]);
 
   const handleEdgesChange = useCallback((changes: any) => {
     onEdgesChange(changes);
@@ -400,29 +421,32 @@ export function WorkflowCanvas() {
           // Create a floating endpoint for this dangling edge
           const endpointId = `floating-endpoint-${Date.now()}`;
           
-          // Add floating endpoint node at drop position
-          addNode({
-            id: endpointId,
-            type: 'floatingEndpoint',
-            label: '',
-            position: flowPosition,
-            ports: [
-              { id: 'top', kind: 'text', direction: 'in' },
-              { id: 'bottom', kind: 'text', direction: 'in' },
-              { id: 'left', kind: 'text', direction: 'in' },
-              { id: 'right', kind: 'text', direction: 'in' },
-            ],
-            config: {},
-          });
+          // Endpoint and edge are undone together
+          historyTransaction(() => {
+            // Add floating endpoint node at drop position
+            addNode({
+              id: endpointId,
+              type: 'floatingEndpoint',
+              label: '',
+              position: flowPosition,
+              ports: [
+                { id: 'top', kind: 'text', direction: 'in' },
+                { id: 'bottom', kind: 'text', direction: 'in' },
+                { id: 'left', kind: 'text', direction: 'in' },
+                { id: 'right', kind: 'text', direction: 'in' },
+              ],
+              config: {},
+            });
           
-          // Create edge from source to floating endpoint
-          addWorkflowEdge({
-            id: `e${nodeId}-${endpointId}-${Date.now()}`,
-            from: { 
-              node: nodeId, 
-              port: handleId || 'bottom' 
-            },
-            to: { node: endpointId, port: 'top' },
+            // Create edge from source to floating endpoint
+            addWorkflowEdge({
+              id: `e${nodeId}-${endpointId}-${Date.now()}`,
+              from: { 
+                node: nodeId, 
+                port: handleId || 'bottom' 
+              },
+              to: { node: endpointId, port: 'top' },
+            });
           });
         }
       }
@@ -430,7 +454,7 @@ export function WorkflowCanvas() {
       // Reset connection start state
       connectStartRef.current = { nodeId: null, handleId: null };
     },
-    [addNode, addWorkflowEdge]
+    [addNode, addWorkflowEdge, historyTransaction]
   );
 
   const onSelectionChange = useCallback(
@@ -592,9 +616,21 @@ export function WorkflowCanvas() {
                type === 'dataset' ? 'Dataset' :
                type === 'variable' ? 'Transformation' :
                type === 'framework' ? 'Framework' :
+               type === 'condition' ? 'Condition' :
+               type === 'foreach' ? 'For Each' :
                type === 'note' ? 'Note' : type,
         position,
-        ports: type === 'note' ? [] : [
+        ports: type === 'note' ? [] : type === 'condition' ? [
+          { id: 'top', kind: 'text', direction: 'in' },
+          { id: 'left', kind: 'text', direction: 'in' },
+          { id: 'true', kind: 'text', direction: 'out' },
+          { id: 'false', kind: 'text', direction: 'out' },
+        ] : type === 'foreach' ? [
+          { id: 'top', kind: 'text', direction: 'in' },
+          { id: 'left', kind: 'text', direction: 'in' },
+          { id: 'item', kind: 'text', direction: 'out' },
+          { id: 'right', kind: 'text', direction: 'out' },
+        ] : [
           { id: 'top', kind: 'text', direction: 'in' },
           { id: 'bottom', kind: 'text', direction: 'out' },
           { id: 'left', kind: 'text', direction: 'in' },
@@ -618,6 +654,14 @@ export function WorkflowCanvas() {
           type: 'string',
           default: '',
           scope: 'global',
+        } : type === 'condition' ? {
+          expression: '',
+          promptParts: [],
+        } : type === 'foreach' ? {
+          promptParts: [],
+          itemsPath: '',
+          concurrency: 3,
+          maxItems: 25,
         } : type === 'note' ? {
           text: 'New Note',
           fontSize: 'medium',
@@ -689,6 +733,8 @@ export function WorkflowCanvas() {
         {currentLayer === 'performance' && <PerformanceOverlay />}
         {/* Cascade status overlay - shows real-time execution progress */}
         <CascadeStatusOverlay />
+        {/* Stale output badges - companies holding output from an older node config */}
+        <StaleOutputsOverlay />
       </ReactFlow>
       
       {/* Canvas context menu */}
@@ -721,7 +767,7 @@ export function WorkflowCanvas() {
                   <>
                     This will permanently remove: <strong>{names.join(', ')}</strong>
                     {remaining > 0 && ` and ${remaining} more`}.
-                    This action cannot be undone.
+                    Press Ctrl+Z to undo.
                   </>
                 );
               })()}
@@ -30,8 +30,9 @@ import {
 import { Input } from '@/components/ui/input';
 import { toast } from 'sonner';
 import { useEffect, useState } from 'react';
-import { Workflow, WorkflowSettings, defaultWorkflowSettings, DataAttributionType } from '@/types/workflow';
+import { Workflow, WorkflowSettings, WorkflowExecutionSettings, defaultWorkflowSettings, DataAttributionType, DEFAULT_WORKFLOW_EXECUTION_SETTINGS } from '@/types/workflow';
 import { supabase } from '@/integrations/supabase/client';
+import type { ModelProvider } from '@/lib/modelRegistry';
 import { WorkflowMenuItem } from './WorkflowMenuItem';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
@@ -44,6 +45,16 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 
+const MAX_PARALLEL_NODES = 16;
+
+// Model providers that can be capped separately; ids match the model prefix (e.g. "google/...")
+const EXECUTION_PROVIDERS: Array<{ id: ModelProvider; label: string }> = [
+  { id: 'google', label: 'Google' },
+  { id: 'openai', label: 'OpenAI' },
+  { id: 'perplexity', label: 'Perplexity' },
+  { id: 'self-hosted', label: 'Self-hosted' },
+];
+
 export function WorkflowHeader() {
   const {
     workflow, 
@@ -71,6 +82,22 @@ export function WorkflowHeader() {
   const [editName, setEditName] = useState('');
   const [editSettings, setEditSettings] = useState<WorkflowSettings>(defaultWorkflowSettings);
   const [editParentId, setEditParentId] = useState<string | null>(null);
+  const editExecution = editSettings.execution || DEFAULT_WORKFLOW_EXECUTION_SETTINGS;
+
+  const updateEditExecution = (updates: Partial<WorkflowExecutionSettings>) => {
+    setEditSettings(prev => ({
+      ...prev,
+      execution: { ...(prev.execution || DEFAULT_WORKFLOW_EXECUTION_SETTINGS), ...updates },
+    }));
+  };
+
+  const setProviderConcurrency = (providerId: string, value: string) => {
+    const limit = Math.max(0, Math.floor(Number(value) || 0));
+    const providerConcurrency = { ...editExecution.provider_concurrency };
+    if (limit > 0) providerConcurrency[providerId] = limit;
+    else delete providerConcurrency[providerId];
+    updateEditExecution({ provider_concurrency: providerConcurrency });
+  };
 
   const fetchWorkflows = async () => {
     const data = await loadWorkflows();
@@ -352,7 +379,15 @@ export function WorkflowHeader() {
       }
 
       // Cast to Json-compatible type for Supabase
-      const settingsJson = { data_attribution: editSettings.data_attribution };
+      const settingsJson = {
+        data_attribution: editSettings.data_attribution,
+        ...(editSettings.execution && {
+          execution: {
+            max_parallel_nodes: editSettings.execution.max_parallel_nodes,
+            provider_concurrency: { ...editSettings.execution.provider_concurrency },
+          },
+        }),
+      };
       const { error } = await supabase
         .from('workflows')
         .update({ 
@@ -571,6 +606,42 @@ export function WorkflowHeader() {
                 </div>
               </RadioGroup>
             </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <Label htmlFor="max-parallel-nodes">Parallel Execution</Label>
+              <p className="text-sm text-muted-foreground">
+                Nodes that do not depend on each other run at the same time, up to these limits
+              </p>
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-sm">Nodes at once</span>
+                <Input
+                  id="max-parallel-nodes"
+                  type="number"
+                  min={1}
+                  max={MAX_PARALLEL_NODES}
+                  className="w-24 h-8"
+                  value={editExecution.max_parallel_nodes}
+                  onChange={(e) => updateEditExecution({
+                    max_parallel_nodes: Math.min(MAX_PARALLEL_NODES, Math.max(1, Math.floor(Number(e.target.value) || 1))),
+                  })}
+                />
+              </div>
+              {EXECUTION_PROVIDERS.map(provider => (
+                <div key={provider.id} className="flex items-center justify-between gap-4">
+                  <span className="text-sm">{provider.label} calls at once</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    className="w-24 h-8"
+                    placeholder="No cap"
+                    value={editExecution.provider_concurrency[provider.id] || ''}
+                    onChange={(e) => setProviderConcurrency(provider.id, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
             
             {workflowToEdit && !workflowToEdit.id.startsWith('temp-') && (
               <>
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { Handle, Position } from 'reactflow';
-import { MessageSquare, Puzzle, Database, Variable, AlertCircle, Book, Bot, Network, ArrowRight, Download, Plug, Copy, Pause, Zap, Loader2, Trash2, Globe } from 'lucide-react';
+import { MessageSquare, Puzzle, Database, Variable, AlertCircle, AlertTriangle, Book, Bot, Network, ArrowRight, Download, Plug, Copy, Pause, Zap, Loader2, Trash2, Globe, GitBranch, Repeat } from 'lucide-react';
 import { NodeBase } from '@/types/workflow';
 import { cn } from '@/lib/utils';
 import { useNavigate } from 'react-router-dom';
@@ -17,7 +17,7 @@ interface WorkflowNodeProps {
 
 export function WorkflowNode({ data: node, selected }: WorkflowNodeProps) {
   const navigate = useNavigate();
-  const { loadWorkflow, loadWorkflows, workflow, duplicateNode, forceRunCascade, runSystemWorkflows, selectedCompanyId, isForceRunning, isSystemRunning, deleteNode, cascadeProgress, updateNodeConfig } = useWorkflowStore();
+  const { loadWorkflow, loadWorkflows, workflow, duplicateNode, forceRunCascade, runSystemWorkflows, selectedCompanyId, isForceRunning, isSystemRunning, deleteNode, cascadeProgress, updateNodeConfig, graphValidation } = useWorkflowStore();
   const [isRunningThisNode, setIsRunningThisNode] = useState(false);
   const [isRunningSystem, setIsRunningSystem] = useState(false);
 
@@ -107,6 +107,10 @@ export function WorkflowNode({ data: node, selected }: WorkflowNodeProps) {
         return Network;
       case 'integration':
         return Plug;
+      case 'condition':
+        return GitBranch;
+      case 'foreach':
+        return Repeat;
       default:
         return MessageSquare;
     }
@@ -138,7 +142,11 @@ export function WorkflowNode({ data: node, selected }: WorkflowNodeProps) {
   };
 
   const Icon = getIcon();
-  const hasErrors = node.errors && node.errors.length > 0;
+  const graphIssues = graphValidation?.workflowId === workflow.id
+    ? graphValidation.issues.filter(issue => issue.nodeIds.includes(node.id))
+    : [];
+  const hasErrors = (node.errors && node.errors.length > 0) || graphIssues.some(issue => issue.severity === 'error');
+  const hasWarnings = !hasErrors && graphIssues.length > 0;
   const isPaused = node.config?.paused === true;
 
   return (
@@ -147,6 +155,7 @@ export function WorkflowNode({ data: node, selected }: WorkflowNodeProps) {
         "bg-background border rounded-lg shadow-md min-w-[200px] transition-all relative",
         selected ? "border-primary shadow-lg" : "border-node-border",
         hasErrors && "border-destructive",
+        hasWarnings && "border-amber-500",
         isPaused && "opacity-60 border-dashed"
       )}
     >
@@ -213,8 +222,12 @@ export function WorkflowNode({ data: node, selected }: WorkflowNodeProps) {
               <h3 className="font-semibold text-sm text-foreground truncate">
                 {node.label}
               </h3>
-              {hasErrors && (
-                <AlertCircle className="w-4 h-4 text-destructive flex-shrink-0" />
+              {(hasErrors || hasWarnings) && (
+                <span className="flex-shrink-0" title={[...(node.errors || []), ...graphIssues.map(issue => issue.message)].join('\n')}>
+                  {hasErrors
+                    ? <AlertCircle className="w-4 h-4 text-destructive" />
+                    : <AlertTriangle className="w-4 h-4 text-amber-500" />}
+                </span>
               )}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
@@ -245,6 +258,16 @@ export function WorkflowNode({ data: node, selected }: WorkflowNodeProps) {
                   ? `${node.config.integrationName}: ${node.config.capability}`
                   : (node.config.integrationName || 'Select integration')
               )}
+              {node.type === 'condition' && (
+                node.config.expression
+                  ? truncateText(node.config.expression, 30)
+                  : 'Set expression...'
+              )}
+              {node.type === 'foreach' && (
+                node.config.promptParts?.some((p: { type: string }) => p.type === 'dependency')
+                  ? `Each of ${truncateText(node.config.itemsPath || 'output', 24)}`
+                  : 'Select array source...'
+              )}
             </p>
             {node.config.name && node.type === 'variable' && (
               <p className="text-xs text-primary mt-0.5">${node.config.name}</p>
@@ -253,25 +276,76 @@ export function WorkflowNode({ data: node, selected }: WorkflowNodeProps) {
         </div>
       </div>
 
-      <Handle
-        type="source"
-        position={Position.Right}
-        className={cn(
-          "w-3 h-3 !bg-gray-300 transition-opacity",
-          isHandleConnected('right') ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
-        )}
-        id="right"
-      />
+      {node.type === 'condition' ? (
+        // Condition nodes branch through labeled true/false ports instead of right/bottom
+        <>
+          <Handle
+            type="source"
+            position={Position.Bottom}
+            className="w-3 h-3 !bg-green-500"
+            style={{ left: '30%' }}
+            id="true"
+          />
+          <span className="absolute -bottom-5 text-[10px] font-medium text-green-600" style={{ left: 'calc(30% - 10px)' }}>
+            true
+          </span>
+          <Handle
+            type="source"
+            position={Position.Bottom}
+            className="w-3 h-3 !bg-red-500"
+            style={{ left: '70%' }}
+            id="false"
+          />
+          <span className="absolute -bottom-5 text-[10px] font-medium text-red-600" style={{ left: 'calc(70% - 12px)' }}>
+            false
+          </span>
+        </>
+      ) : node.type === 'foreach' ? (
+        // Foreach nodes run the nodes wired to their item port once per item; the right port
+        // carries the aggregated output like any other node
+        <>
+          <Handle
+            type="source"
+            position={Position.Right}
+            className={cn(
+              "w-3 h-3 !bg-gray-300 transition-opacity",
+              isHandleConnected('right') ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+            )}
+            id="right"
+          />
+          <Handle
+            type="source"
+            position={Position.Bottom}
+            className="w-3 h-3 !bg-blue-500"
+            id="item"
+          />
+          <span className="absolute -bottom-5 left-1/2 -translate-x-1/2 text-[10px] font-medium text-blue-600">
+            each item
+          </span>
+        </>
+      ) : (
+        <>
+          <Handle
+            type="source"
+            position={Position.Right}
+            className={cn(
+              "w-3 h-3 !bg-gray-300 transition-opacity",
+              isHandleConnected('right') ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+            )}
+            id="right"
+          />
 
-      <Handle
-        type="source"
-        position={Position.Bottom}
-        className={cn(
-          "w-3 h-3 !bg-gray-300 transition-opacity",
-          isHandleConnected('bottom') ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
-        )}
-        id="bottom"
-      />
+          <Handle
+            type="source"
+            position={Position.Bottom}
+            className={cn(
+              "w-3 h-3 !bg-gray-300 transition-opacity",
+              isHandleConnected('bottom') ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+            )}
+            id="bottom"
+          />
+        </>
+      )}
 
       {/* Status indicator light - bottom right (only show when no cascade active, overlay handles cascade status) */}
       {!cascadeProgress && (
@@ -108,8 +108,9 @@ let saveInProgress: Promise<SaveResult> | null = null;
  * Save the current workflow to the database.
  * Serialized - waits for any in-flight save to complete before starting.
  * Returns success/failure result for navigation blocking.
+ * `source` is recorded in the version history ('user' for explicit saves).
  */
-export async function saveCurrentWorkflow(): Promise<SaveResult> {
+export async function saveCurrentWorkflow(source: 'user' | 'autosave' = 'autosave'): Promise<SaveResult> {
   // Wait for any in-flight save to complete
   if (saveInProgress) {
     await saveInProgress;
@@ -132,7 +133,7 @@ export async function saveCurrentWorkflow(): Promise<SaveResult> {
   setSaveState(true);
   
   // Execute save with retry logic
-  saveInProgress = executeSave(workflow);
+  saveInProgress = executeSave(workflow, source);
   
   try {
     const result = await saveInProgress;
@@ -147,7 +148,8 @@ export async function saveCurrentWorkflow(): Promise<SaveResult> {
  * Internal save execution with version conflict retry
  */
 async function executeSave(
-  workflow: ReturnType<typeof useWorkflowStore.getState>['workflow']
+  workflow: ReturnType<typeof useWorkflowStore.getState>['workflow'],
+  source: 'user' | 'autosave'
 ): Promise<SaveResult> {
   const identity = workflow._loadedIdentity;
   
@@ -164,7 +166,7 @@ async function executeSave(
         variables: workflow.variables,
         settings: workflow.settings,
         expected_version: workflow.version,
-        _source: 'event',
+        _source: source,
         _identity_name: identity?.name,
         _identity_token: identity?.token,
       }
@@ -200,7 +202,7 @@ async function executeSave(
           variables: currentState.variables,
           settings: currentState.settings,
           expected_version: freshVersion,
-          _source: 'event-retry',
+          _source: source,
           _identity_name: currentState._loadedIdentity?.name,
           _identity_token: currentState._loadedIdentity?.token,
         }
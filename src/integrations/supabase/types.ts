@@ -180,6 +180,7 @@ export type Database = {
       }
       ai_usage_logs: {
         Row: {
+          attempt_count: number
           company_id: string | null
           completion_tokens: number
           created_at: string
@@ -190,11 +191,13 @@ export type Database = {
           model: string
           node_id: string | null
           prompt_tokens: number
+          requested_model: string | null
           total_tokens: number
           usage_category: string | null
           workflow_id: string | null
         }
         Insert: {
+          attempt_count?: number
           company_id?: string | null
           completion_tokens?: number
           created_at?: string
@@ -205,11 +208,13 @@ export type Database = {
           model: string
           node_id?: string | null
           prompt_tokens?: number
+          requested_model?: string | null
           total_tokens?: number
           usage_category?: string | null
           workflow_id?: string | null
         }
         Update: {
+          attempt_count?: number
           company_id?: string | null
           completion_tokens?: number
           created_at?: string
@@ -220,6 +225,7 @@ export type Database = {
           model?: string
           node_id?: string | null
           prompt_tokens?: number
+          requested_model?: string | null
           total_tokens?: number
           usage_category?: string | null
           workflow_id?: string | null
@@ -244,6 +250,7 @@ export type Database = {
       app_settings: {
         Row: {
           app_name: string
+          cost_budget_settings: Json
           created_at: string
           id: string
           improvement_summaries: Json | null
@@ -256,6 +263,7 @@ export type Database = {
         }
         Insert: {
           app_name?: string
+          cost_budget_settings?: Json
           created_at?: string
           id?: string
           improvement_summaries?: Json | null
@@ -268,6 +276,7 @@ export type Database = {
         }
         Update: {
           app_name?: string
+          cost_budget_settings?: Json
           created_at?: string
           id?: string
           improvement_summaries?: Json | null
@@ -288,6 +297,8 @@ export type Database = {
           created_at: string
           id: string
           metadata: Json | null
+          monthly_cost_budget: number | null
+          monthly_token_budget: number | null
           name: string
           plan_tier: Database["public"]["Enums"]["plan_tier"]
           rate_limit_rpm: number
@@ -304,6 +315,8 @@ export type Database = {
           created_at?: string
           id?: string
           metadata?: Json | null
+          monthly_cost_budget?: number | null
+          monthly_token_budget?: number | null
           name: string
           plan_tier?: Database["public"]["Enums"]["plan_tier"]
           rate_limit_rpm?: number
@@ -320,6 +333,8 @@ export type Database = {
           created_at?: string
           id?: string
           metadata?: Json | null
+          monthly_cost_budget?: number | null
+          monthly_token_budget?: number | null
           name?: string
           plan_tier?: Database["public"]["Enums"]["plan_tier"]
           rate_limit_rpm?: number
@@ -845,48 +860,57 @@ export type Database = {
       company_node_data: {
         Row: {
           company_id: string
+          config_hash: string | null
           content_hash: string | null
           created_at: string | null
           data: Json | null
           dependency_hashes: Json | null
           id: string
           last_executed_at: string | null
+          lineage: Json | null
           low_quality_fields: Json | null
           node_id: string
           node_label: string | null
           node_type: string
+          status: string
           updated_at: string | null
           version: number | null
           workflow_id: string
         }
         Insert: {
           company_id: string
+          config_hash?: string | null
           content_hash?: string | null
           created_at?: string | null
           data?: Json | null
           dependency_hashes?: Json | null
           id?: string
           last_executed_at?: string | null
+          lineage?: Json | null
           low_quality_fields?: Json | null
           node_id: string
           node_label?: string | null
           node_type: string
+          status?: string
           updated_at?: string | null
           version?: number | null
           workflow_id: string
         }
         Update: {
           company_id?: string
+          config_hash?: string | null
           content_hash?: string | null
           created_at?: string | null
           data?: Json | null
           dependency_hashes?: Json | null
           id?: string
           last_executed_at?: string | null
+          lineage?: Json | null
           low_quality_fields?: Json | null
           node_id?: string
           node_label?: string | null
           node_type?: string
+          status?: string
           updated_at?: string | null
           version?: number | null
           workflow_id?: string
@@ -908,6 +932,69 @@ export type Database = {
           },
         ]
       }
+      company_node_item_results: {
+        Row: {
+          company_id: string
+          created_at: string | null
+          error: string | null
+          execution_time_ms: number | null
+          foreach_node_id: string
+          id: string
+          item: Json | null
+          item_index: number
+          node_id: string
+          output: Json | null
+          status: string
+          updated_at: string | null
+          workflow_id: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string | null
+          error?: string | null
+          execution_time_ms?: number | null
+          foreach_node_id: string
+          id?: string
+          item?: Json | null
+          item_index: number
+          node_id: string
+          output?: Json | null
+          status?: string
+          updated_at?: string | null
+          workflow_id: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string | null
+          error?: string | null
+          execution_time_ms?: number | null
+          foreach_node_id?: string
+          id?: string
+          item?: Json | null
+          item_index?: number
+          node_id?: string
+          output?: Json | null
+          status?: string
+          updated_at?: string | null
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "company_node_item_results_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "company_node_item_results_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       company_outputs: {
         Row: {
           company_id: string
@@ -963,9 +1050,37 @@ export type Database = {
           },
         ]
       }
+      company_rate_limit_windows: {
+        Row: {
+          company_id: string
+          request_count: number
+          window_start: string
+        }
+        Insert: {
+          company_id: string
+          request_count?: number
+          window_start: string
+        }
+        Update: {
+          company_id?: string
+          request_count?: number
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "company_rate_limit_windows_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       company_usage: {
         Row: {
+          ai_cost: number
           ai_tokens_used: number
+          api_requests: number
           company_id: string
           created_at: string
           data_processed_mb: number
@@ -975,7 +1090,9 @@ export type Database = {
           workflow_executions: number
         }
         Insert: {
+          ai_cost?: number
           ai_tokens_used?: number
+          api_requests?: number
           company_id: string
           created_at?: string
           data_processed_mb?: number
@@ -985,7 +1102,9 @@ export type Database = {
           workflow_executions?: number
         }
         Update: {
+          ai_cost?: number
           ai_tokens_used?: number
+          api_requests?: number
           company_id?: string
           created_at?: string
           data_processed_mb?: number
@@ -1111,6 +1230,7 @@ export type Database = {
       }
       datasets: {
         Row: {
+          auto_snapshot: boolean
           category: string | null
           company_id: string | null
           created_at: string
@@ -1122,6 +1242,7 @@ export type Database = {
           user_id: string | null
         }
         Insert: {
+          auto_snapshot?: boolean
           category?: string | null
           company_id?: string | null
           created_at?: string
@@ -1133,6 +1254,7 @@ export type Database = {
           user_id?: string | null
         }
         Update: {
+          auto_snapshot?: boolean
           category?: string | null
           company_id?: string | null
           created_at?: string
@@ -1370,6 +1492,7 @@ export type Database = {
           company_id: string | null
           completed_at: string | null
           created_at: string
+          entity_id: string | null
           error_message: string | null
           execution_time_ms: number | null
           id: string
@@ -1377,8 +1500,10 @@ export type Database = {
           max_retries: number
           output_data: Json | null
           retry_count: number
+          run_type: string
           started_at: string | null
           status: Database["public"]["Enums"]["execution_status"]
+          submission_id: string | null
           trigger_type: Database["public"]["Enums"]["trigger_type"]
           triggered_by: string | null
           updated_at: string
@@ -1388,6 +1513,7 @@ export type Database = {
           company_id?: string | null
           completed_at?: string | null
           created_at?: string
+          entity_id?: string | null
           error_message?: string | null
           execution_time_ms?: number | null
           id?: string
@@ -1395,8 +1521,10 @@ export type Database = {
           max_retries?: number
           output_data?: Json | null
           retry_count?: number
+          run_type?: string
           started_at?: string | null
           status?: Database["public"]["Enums"]["execution_status"]
+          submission_id?: string | null
           trigger_type?: Database["public"]["Enums"]["trigger_type"]
           triggered_by?: string | null
           updated_at?: string
@@ -1406,6 +1534,7 @@ export type Database = {
           company_id?: string | null
           completed_at?: string | null
           created_at?: string
+          entity_id?: string | null
           error_message?: string | null
           execution_time_ms?: number | null
           id?: string
@@ -1413,8 +1542,10 @@ export type Database = {
           max_retries?: number
           output_data?: Json | null
           retry_count?: number
+          run_type?: string
           started_at?: string | null
           status?: Database["public"]["Enums"]["execution_status"]
+          submission_id?: string | null
           trigger_type?: Database["public"]["Enums"]["trigger_type"]
           triggered_by?: string | null
           updated_at?: string
@@ -1428,6 +1559,20 @@ export type Database = {
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "execution_runs_entity_id_fkey"
+            columns: ["entity_id"]
+            isOneToOne: false
+            referencedRelation: "entities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "execution_runs_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "company_data_submissions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "execution_runs_workflow_id_fkey"
             columns: ["workflow_id"]
@@ -1683,6 +1828,7 @@ export type Database = {
           max_retries: number
           payload: Json
           picked_up_at: string | null
+          portfolio_run_id: string | null
           priority: Database["public"]["Enums"]["job_priority"]
           result: Json | null
           retry_count: number
@@ -1702,6 +1848,7 @@ export type Database = {
           max_retries?: number
           payload?: Json
           picked_up_at?: string | null
+          portfolio_run_id?: string | null
           priority?: Database["public"]["Enums"]["job_priority"]
           result?: Json | null
           retry_count?: number
@@ -1721,6 +1868,7 @@ export type Database = {
           max_retries?: number
           payload?: Json
           picked_up_at?: string | null
+          portfolio_run_id?: string | null
           priority?: Database["public"]["Enums"]["job_priority"]
           result?: Json | null
           retry_count?: number
@@ -1745,6 +1893,13 @@ export type Database = {
             referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "job_queue_portfolio_run_id_fkey"
+            columns: ["portfolio_run_id"]
+            isOneToOne: false
+            referencedRelation: "portfolio_runs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "job_queue_workflow_id_fkey"
             columns: ["workflow_id"]
@@ -1945,6 +2100,127 @@ export type Database = {
         }
         Relationships: []
       }
+      portfolio_run_companies: {
+        Row: {
+          attempts: number
+          company_id: string
+          completed_at: string | null
+          cost: number
+          created_at: string
+          error_message: string | null
+          execution_run_id: string | null
+          id: string
+          portfolio_run_id: string
+          started_at: string | null
+          status: string
+          submission_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          company_id: string
+          completed_at?: string | null
+          cost?: number
+          created_at?: string
+          error_message?: string | null
+          execution_run_id?: string | null
+          id?: string
+          portfolio_run_id: string
+          started_at?: string | null
+          status?: string
+          submission_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          company_id?: string
+          completed_at?: string | null
+          cost?: number
+          created_at?: string
+          error_message?: string | null
+          execution_run_id?: string | null
+          id?: string
+          portfolio_run_id?: string
+          started_at?: string | null
+          status?: string
+          submission_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "portfolio_run_companies_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "portfolio_run_companies_execution_run_id_fkey"
+            columns: ["execution_run_id"]
+            isOneToOne: false
+            referencedRelation: "execution_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "portfolio_run_companies_portfolio_run_id_fkey"
+            columns: ["portfolio_run_id"]
+            isOneToOne: false
+            referencedRelation: "portfolio_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "portfolio_run_companies_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "company_data_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      portfolio_runs: {
+        Row: {
+          completed_at: string | null
+          concurrency: number
+          created_at: string
+          filters: Json
+          force: boolean
+          id: string
+          status: string
+          updated_at: string
+          workflow_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          concurrency?: number
+          created_at?: string
+          filters?: Json
+          force?: boolean
+          id?: string
+          status?: string
+          updated_at?: string
+          workflow_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          concurrency?: number
+          created_at?: string
+          filters?: Json
+          force?: boolean
+          id?: string
+          status?: string
+          updated_at?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "portfolio_runs_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       prompt_snippets: {
         Row: {
           content: string
@@ -1989,7 +2265,7 @@ export type Database = {
       }
       scheduled_jobs: {
         Row: {
-          company_id: string
+          company_id: string | null
           created_at: string
           cron_expression: string
           id: string
@@ -2003,7 +2279,7 @@ export type Database = {
           workflow_id: string
         }
         Insert: {
-          company_id: string
+          company_id?: string | null
           created_at?: string
           cron_expression: string
           id?: string
@@ -2017,7 +2293,7 @@ export type Database = {
           workflow_id: string
         }
         Update: {
-          company_id?: string
+          company_id?: string | null
           created_at?: string
           cron_expression?: string
           id?: string
@@ -2423,6 +2699,80 @@ export type Database = {
         }
         Relationships: []
       }
+      webhook_deliveries: {
+        Row: {
+          company_id: string | null
+          error_message: string | null
+          id: string
+          job_id: string | null
+          payload_preview: string | null
+          received_at: string
+          request_timestamp: string | null
+          signature: string | null
+          status: string
+          status_code: number
+          submission_id: string | null
+          webhook_endpoint_id: string
+        }
+        Insert: {
+          company_id?: string | null
+          error_message?: string | null
+          id?: string
+          job_id?: string | null
+          payload_preview?: string | null
+          received_at?: string
+          request_timestamp?: string | null
+          signature?: string | null
+          status: string
+          status_code: number
+          submission_id?: string | null
+          webhook_endpoint_id: string
+        }
+        Update: {
+          company_id?: string | null
+          error_message?: string | null
+          id?: string
+          job_id?: string | null
+          payload_preview?: string | null
+          received_at?: string
+          request_timestamp?: string | null
+          signature?: string | null
+          status?: string
+          status_code?: number
+          submission_id?: string | null
+          webhook_endpoint_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "job_queue"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "company_data_submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_webhook_endpoint_id_fkey"
+            columns: ["webhook_endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       webhook_endpoints: {
         Row: {
           company_id: string
@@ -2431,7 +2781,9 @@ export type Database = {
           is_active: boolean
           last_triggered_at: string | null
           name: string
+          previous_secret_key: string | null
           secret_key: string
+          secret_rotated_at: string | null
           trigger_count: number
           updated_at: string
           workflow_id: string
@@ -2443,7 +2795,9 @@ export type Database = {
           is_active?: boolean
           last_triggered_at?: string | null
           name: string
+          previous_secret_key?: string | null
           secret_key: string
+          secret_rotated_at?: string | null
           trigger_count?: number
           updated_at?: string
           workflow_id: string
@@ -2455,7 +2809,9 @@ export type Database = {
           is_active?: boolean
           last_triggered_at?: string | null
           name?: string
+          previous_secret_key?: string | null
           secret_key?: string
+          secret_rotated_at?: string | null
           trigger_count?: number
           updated_at?: string
           workflow_id?: string
@@ -2593,6 +2949,65 @@ export type Database = {
           },
         ]
       }
+      workflow_versions: {
+        Row: {
+          author_email: string | null
+          client_transaction_id: string | null
+          created_at: string
+          created_by: string | null
+          edges: Json
+          id: string
+          name: string
+          nodes: Json
+          restored_from_version: number | null
+          settings: Json | null
+          source: string
+          variables: Json
+          version: number
+          workflow_id: string
+        }
+        Insert: {
+          author_email?: string | null
+          client_transaction_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          edges?: Json
+          id?: string
+          name: string
+          nodes?: Json
+          restored_from_version?: number | null
+          settings?: Json | null
+          source?: string
+          variables?: Json
+          version: number
+          workflow_id: string
+        }
+        Update: {
+          author_email?: string | null
+          client_transaction_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          edges?: Json
+          id?: string
+          name?: string
+          nodes?: Json
+          restored_from_version?: number | null
+          settings?: Json | null
+          source?: string
+          variables?: Json
+          version?: number
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_versions_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workflows: {
         Row: {
           company_id: string | null
@@ -2667,10 +3082,63 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      build_dataset_snapshot_rows: {
+        Args: { _company_id: string; _dataset_id: string }
+        Returns: Json
+      }
+      check_company_budget: { Args: { _company_id: string }; Returns: Json }
+      check_company_rate_limit: {
+        Args: { _company_id: string }
+        Returns: Json
+      }
+      claim_next_job: {
+        Args: { _lease_seconds?: number; _worker_id: string }
+        Returns: {
+          company_id: string | null
+          completed_at: string | null
+          created_at: string
+          error_message: string | null
+          execution_run_id: string | null
+          id: string
+          max_retries: number
+          payload: Json
+          picked_up_at: string | null
+          portfolio_run_id: string | null
+          priority: Database["public"]["Enums"]["job_priority"]
+          result: Json | null
+          retry_count: number
+          scheduled_for: string
+          status: Database["public"]["Enums"]["execution_status"]
+          updated_at: string
+          worker_id: string | null
+          workflow_id: string
+        }[]
+      }
       cleanup_evaluation_history: {
         Args: { _keep_limit?: number }
         Returns: number
       }
+      create_dataset_snapshot: {
+        Args: { _company_id: string; _dataset_id: string }
+        Returns: Json
+      }
+      describe_score_influences: {
+        Args: { _influences: Json }
+        Returns: string
+      }
+      evaluate_field_score: {
+        Args: {
+          _company_id: string
+          _domain: Database["public"]["Enums"]["company_domain"]
+          _field_key: string
+          _value: Json
+        }
+        Returns: Json
+      }
+      get_cascade_spend: {
+        Args: { _company_id: string; _run_started_at: string }
+        Returns: Json
+      }
       get_company_by_api_key: { Args: { _api_key: string }; Returns: string }
       get_company_cost_summaries: {
         Args: never
@@ -2694,6 +3162,28 @@ export type Database = {
         Args: { _org_id: string; _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      get_portfolio_company_readiness: {
+        Args: { _company_ids: string[] }
+        Returns: {
+          budget_allowed: boolean
+          company_id: string
+          has_data: boolean
+        }[]
+      }
+      get_stale_node_outputs: {
+        Args: {
+          _company_id?: string
+          _config_hashes: Json
+          _workflow_id: string
+        }
+        Returns: {
+          company_id: string
+          company_name: string
+          last_executed_at: string
+          node_id: string
+          node_label: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -2721,8 +3211,58 @@ export type Database = {
         Args: { _entity_id: string; _nodes: Json; _workflow_id: string }
         Returns: undefined
       }
+      recalculate_company_domain_scores: {
+        Args: { _company_id: string }
+        Returns: undefined
+      }
+      record_webhook_trigger: {
+        Args: { _endpoint_id: string }
+        Returns: undefined
+      }
+      refresh_company_domain_score: {
+        Args: {
+          _company_id: string
+          _domain: Database["public"]["Enums"]["company_domain"]
+        }
+        Returns: undefined
+      }
+      rescore_company_fields: {
+        Args: { _company_id: string; _field_definition_ids: string[] }
+        Returns: undefined
+      }
+      rescore_field_definition: {
+        Args: { _field_definition_id: string }
+        Returns: undefined
+      }
+      resolve_score_influences: {
+        Args: { _company_id: string; _field_definition_id: string }
+        Returns: Json
+      }
+      rotate_webhook_secret: {
+        Args: { _endpoint_id: string }
+        Returns: string
+      }
+      select_portfolio_companies: {
+        Args: {
+          _missing_outputs_only?: boolean
+          _stale_only?: boolean
+          _statuses?: string[]
+          _workflow_id: string
+        }
+        Returns: {
+          company_id: string
+          company_name: string
+          company_status: string
+          missing_outputs: number
+          stale: boolean
+        }[]
+      }
       show_limit: { Args: never; Returns: number }
       show_trgm: { Args: { "": string }; Returns: string[] }
+      snapshot_dataset: {
+        Args: { _company_id: string; _dataset_id: string }
+        Returns: Json
+      }
       upsert_connection_alert: {
         Args: {
           _error_message: string
@@ -2840,6 +3380,8 @@ export type Database = {
         | "completed"
         | "failed"
         | "cancelled"
+        | "skipped"
+        | "budget_paused"
       job_priority: "low" | "normal" | "high" | "critical"
       plan_tier: "free" | "starter" | "professional" | "enterprise"
       ssot_level: "L1" | "L1C" | "L2" | "L3" | "L4"
@@ -2990,6 +3532,8 @@ export const Constants = {
         "completed",
         "failed",
         "cancelled",
+        "skipped",
+        "budget_paused",
       ],
       job_priority: ["low", "normal", "high", "critical"],
       plan_tier: ["free", "starter", "professional", "enterprise"],
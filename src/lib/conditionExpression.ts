@@ -0,0 +1,362 @@
+// Expression language for Condition nodes.
+//
+// Expressions reference upstream outputs and compare them:
+//   {{Market Analysis}}.score >= 70 && {{Founder Fit}}.verdict == "strong"
+//   $.competitors contains "Acme" or not $.is_regulated
+//
+// `{{Label}}` resolves a dependency by node label / output name, `$` is the
+// first dependency. Paths after a reference use the same dot/bracket notation
+// as the SSOT map JSON paths (see jsonPathUtils). The edge functions carry an
+// equivalent evaluator in supabase/functions/_shared/conditionExpression.ts - keep
+// the grammar in sync when changing it here.
+
+export type ConditionToken =
+  | { kind: 'ref'; name: string | null; path: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'literal'; value: boolean | null }
+  | { kind: 'op'; value: string }
+  | { kind: 'paren'; value: '(' | ')' };
+
+export type ConditionAst =
+  | { type: 'literal'; value: unknown }
+  | { type: 'ref'; name: string | null; path: string }
+  | { type: 'not'; operand: ConditionAst }
+  | { type: 'logical'; op: '&&' | '||'; left: ConditionAst; right: ConditionAst }
+  | { type: 'compare'; op: string; left: ConditionAst; right: ConditionAst };
+
+export interface ConditionEvaluation {
+  result: boolean;
+  // Resolved value of every reference, keyed by its source text - shown in previews
+  resolved: Record<string, unknown>;
+}
+
+const COMPARISON_OPS = ['==', '!=', '>=', '<=', '>', '<', 'contains'];
+
+const WORD_OPS: Record<string, string> = {
+  and: '&&',
+  or: '||',
+  not: '!',
+  contains: 'contains',
+};
+
+// Read a trailing JSON path (".a.b[0]") starting at index i
+function readPath(input: string, start: number): { path: string; end: number } {
+  let i = start;
+  let path = '';
+  while (i < input.length) {
+    const ch = input[i];
+    if (ch === '.' && /[A-Za-z_]/.test(input[i + 1] || '')) {
+      let j = i + 1;
+      while (j < input.length && /[A-Za-z0-9_-]/.test(input[j])) j++;
+      path += (path ? '.' : '') + input.slice(i + 1, j);
+      i = j;
+    } else if (ch === '[') {
+      const close = input.indexOf(']', i);
+      if (close === -1 || !/^\d+$/.test(input.slice(i + 1, close))) {
+        throw new Error(`Invalid array index at position ${i}`);
+      }
+      path += input.slice(i, close + 1);
+      i = close + 1;
+    } else {
+      break;
+    }
+  }
+  return { path, end: i };
+}
+
+export function tokenizeCondition(input: string): ConditionToken[] {
+  const tokens: ConditionToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (input.startsWith('{{', i)) {
+      const close = input.indexOf('}}', i + 2);
+      if (close === -1) throw new Error(`Unclosed reference at position ${i}`);
+      const name = input.slice(i + 2, close).trim();
+      if (!name) throw new Error(`Empty reference at position ${i}`);
+      const { path, end } = readPath(input, close + 2);
+      tokens.push({ kind: 'ref', name, path });
+      i = end;
+      continue;
+    }
+
+    if (ch === '$') {
+      const { path, end } = readPath(input, i + 1);
+      tokens.push({ kind: 'ref', name: null, path });
+      i = end;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      let value = '';
+      while (j < input.length && input[j] !== ch) {
+        if (input[j] === '\\' && j + 1 < input.length) {
+          value += input[j + 1];
+          j += 2;
+        } else {
+          value += input[j];
+          j++;
+        }
+      }
+      if (j >= input.length) throw new Error(`Unclosed string at position ${i}`);
+      tokens.push({ kind: 'string', value });
+      i = j + 1;
+      continue;
+    }
+
+    const numberMatch = input.slice(i).match(/^-?\d+(\.\d+)?/);
+    if (numberMatch && (ch !== '-' || tokens.length === 0 || tokens[tokens.length - 1].kind === 'op' || tokens[tokens.length - 1].kind === 'paren')) {
+      tokens.push({ kind: 'number', value: parseFloat(numberMatch[0]) });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    if (ch === '(' || ch === ')') {
+      tokens.push({ kind: 'paren', value: ch });
+      i++;
+      continue;
+    }
+
+    const symbol = ['&&', '||', '==', '!=', '>=', '<=', '>', '<', '!'].find(op => input.startsWith(op, i));
+    if (symbol) {
+      tokens.push({ kind: 'op', value: symbol });
+      i += symbol.length;
+      continue;
+    }
+
+    const wordMatch = input.slice(i).match(/^[A-Za-z_]+/);
+    if (wordMatch) {
+      const word = wordMatch[0].toLowerCase();
+      if (word === 'true' || word === 'false') {
+        tokens.push({ kind: 'literal', value: word === 'true' });
+      } else if (word === 'null') {
+        tokens.push({ kind: 'literal', value: null });
+      } else if (WORD_OPS[word]) {
+        tokens.push({ kind: 'op', value: WORD_OPS[word] });
+      } else {
+        throw new Error(`Unknown word "${wordMatch[0]}" - wrap text in quotes or node names in {{ }}`);
+      }
+      i += wordMatch[0].length;
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${ch}" at position ${i}`);
+  }
+
+  return tokens;
+}
+
+export function parseCondition(input: string): ConditionAst {
+  const tokens = tokenizeCondition(input);
+  if (tokens.length === 0) throw new Error('Expression is empty');
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => {
+    const token = peek();
+    return token?.kind === 'op' && token.value === value;
+  };
+
+  const parseOr = (): ConditionAst => {
+    let left = parseAnd();
+    while (isOp('||')) {
+      pos++;
+      left = { type: 'logical', op: '||', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ConditionAst => {
+    let left = parseNot();
+    while (isOp('&&')) {
+      pos++;
+      left = { type: 'logical', op: '&&', left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): ConditionAst => {
+    if (isOp('!')) {
+      pos++;
+      return { type: 'not', operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): ConditionAst => {
+    const left = parseValue();
+    const token = peek();
+    if (token?.kind === 'op' && COMPARISON_OPS.includes(token.value)) {
+      pos++;
+      return { type: 'compare', op: token.value, left, right: parseValue() };
+    }
+    return left;
+  };
+
+  const parseValue = (): ConditionAst => {
+    const token = tokens[pos++];
+    if (!token) throw new Error('Unexpected end of expression');
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+      case 'literal':
+        return { type: 'literal', value: token.value };
+      case 'ref':
+        return { type: 'ref', name: token.name, path: token.path };
+      case 'paren': {
+        if (token.value !== '(') throw new Error('Unexpected ")"');
+        const inner = parseOr();
+        const close = tokens[pos++];
+        if (!close || close.kind !== 'paren' || close.value !== ')') throw new Error('Missing ")"');
+        return inner;
+      }
+      default:
+        throw new Error(`Unexpected operator "${token.value}"`);
+    }
+  };
+
+  const ast = parseOr();
+  if (pos < tokens.length) {
+    throw new Error('Unexpected input after end of expression');
+  }
+  return ast;
+}
+
+// Collect every reference used by an expression (name === null means `$`)
+export function extractConditionReferences(input: string): Array<{ name: string | null; path: string }> {
+  const refs: Array<{ name: string | null; path: string }> = [];
+  for (const token of tokenizeCondition(input)) {
+    if (token.kind === 'ref') refs.push({ name: token.name, path: token.path });
+  }
+  return refs;
+}
+
+// Parse AI output strings (optionally fenced) into JSON where possible
+function parseOutput(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  let jsonStr = value.trim();
+  const codeBlockMatch = jsonStr.match(/^```(?:json)?\s*([\s\S]*?)```$/);
+  if (codeBlockMatch) jsonStr = codeBlockMatch[1].trim();
+  if (!jsonStr.startsWith('{') && !jsonStr.startsWith('[')) return value;
+  try {
+    return JSON.parse(jsonStr);
+  } catch {
+    return value;
+  }
+}
+
+export function resolveConditionPath(value: unknown, path: string): unknown {
+  let current = parseOutput(value);
+  if (!path) return current;
+  for (const segment of path.split('.')) {
+    const arrayMatch = segment.match(/^([^[]*)((?:\[\d+\])+)$/);
+    const key = arrayMatch ? arrayMatch[1] : segment;
+    if (key) {
+      if (current === null || typeof current !== 'object') return undefined;
+      current = parseOutput((current as Record<string, unknown>)[key]);
+    }
+    if (arrayMatch) {
+      for (const index of arrayMatch[2].match(/\d+/g) || []) {
+        if (!Array.isArray(current)) return undefined;
+        current = parseOutput(current[parseInt(index, 10)]);
+      }
+    }
+  }
+  return current;
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return null;
+};
+
+export const isConditionTruthy = (value: unknown): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim() !== '' && value.trim().toLowerCase() !== 'false';
+  return Boolean(value);
+};
+
+function compareValues(op: string, left: unknown, right: unknown): boolean {
+  if (op === 'contains') {
+    if (Array.isArray(left)) return left.some(item => compareValues('==', item, right));
+    if (typeof left === 'string') return left.toLowerCase().includes(String(right ?? '').toLowerCase());
+    if (left && typeof left === 'object') return Object.prototype.hasOwnProperty.call(left, String(right));
+    return false;
+  }
+
+  const leftNum = toNumber(left);
+  const rightNum = toNumber(right);
+  if (leftNum !== null && rightNum !== null) {
+    switch (op) {
+      case '==': return leftNum === rightNum;
+      case '!=': return leftNum !== rightNum;
+      case '>': return leftNum > rightNum;
+      case '>=': return leftNum >= rightNum;
+      case '<': return leftNum < rightNum;
+      case '<=': return leftNum <= rightNum;
+    }
+  }
+
+  switch (op) {
+    case '==':
+      if (typeof left === 'string' && typeof right === 'string') return left.trim().toLowerCase() === right.trim().toLowerCase();
+      return JSON.stringify(left ?? null) === JSON.stringify(right ?? null);
+    case '!=':
+      return !compareValues('==', left, right);
+    // Ordering comparisons only apply to numbers
+    case '>':
+    case '>=':
+    case '<':
+    case '<=':
+      return false;
+    default:
+      throw new Error(`Unknown operator "${op}"`);
+  }
+}
+
+/**
+ * Evaluate a condition expression.
+ * resolveRef receives the reference name (null for `$`) and returns the raw
+ * upstream output, or undefined when the reference cannot be resolved.
+ */
+export function evaluateCondition(
+  input: string,
+  resolveRef: (name: string | null) => unknown
+): ConditionEvaluation {
+  const ast = parseCondition(input);
+  const resolved: Record<string, unknown> = {};
+
+  const evalNode = (node: ConditionAst): unknown => {
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+      case 'ref': {
+        const value = resolveConditionPath(resolveRef(node.name), node.path);
+        const key = `${node.name === null ? '$' : `{{${node.name}}}`}${node.path ? `.${node.path}`.replace('.[', '[') : ''}`;
+        resolved[key] = value;
+        return value;
+      }
+      case 'not':
+        return !isConditionTruthy(evalNode(node.operand));
+      case 'logical': {
+        const left = isConditionTruthy(evalNode(node.left));
+        if (node.op === '&&') return left && isConditionTruthy(evalNode(node.right));
+        return left || isConditionTruthy(evalNode(node.right));
+      }
+      case 'compare':
+        return compareValues(node.op, evalNode(node.left), evalNode(node.right));
+    }
+  };
+
+  return { result: isConditionTruthy(evalNode(ast)), resolved };
+}
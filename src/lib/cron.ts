@@ -0,0 +1,198 @@
+// Cron expressions for scheduled workflow runs.
+//
+// Standard 5-field syntax, evaluated in UTC:
+//   minute hour day-of-month month day-of-week
+//   0 6 * * MON        every Monday at 06:00
+//   */30 9-17 * * 1-5  every 30 minutes during weekday working hours
+//
+// Fields accept `*`, lists, ranges and steps; months and weekdays also accept
+// names (JAN, MON), and Sunday is 0 or 7. The @hourly/@daily/@weekly/@monthly/
+// @yearly shortcuts are supported. When both day fields are restricted a day
+// matches if either does, as in Vixie cron. The run-scheduled-jobs edge
+// function carries an equivalent parser - keep them in sync.
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Whether the day fields were `*`, which decides how they combine
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  aliases?: Record<string, number>;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, aliases: Object.fromEntries(MONTH_NAMES.map((m, i) => [m, i + 1])) },
+  { name: 'day of week', min: 0, max: 7, aliases: Object.fromEntries(DAY_NAMES.map((d, i) => [d, i])) },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+export const CRON_PRESETS: { label: string; expression: string }[] = [
+  { label: 'Every hour', expression: '0 * * * *' },
+  { label: 'Every day at 06:00', expression: '0 6 * * *' },
+  { label: 'Every Monday at 06:00', expression: '0 6 * * 1' },
+  { label: 'First of the month at 06:00', expression: '0 6 1 * *' },
+];
+
+// Look far enough ahead to find rare dates such as Feb 29 on a given weekday
+const MAX_SEARCH_YEARS = 30;
+
+function parseValue(raw: string, spec: FieldSpec): number {
+  const alias = spec.aliases?.[raw.toUpperCase()];
+  if (alias !== undefined) return alias;
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`Invalid ${spec.name} value "${raw}"`);
+  }
+  const value = parseInt(raw, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${spec.name} value ${value} is out of range (${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rest.length > 0 || rangePart === '') {
+      throw new Error(`Invalid ${spec.name} field "${field}"`);
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || parseInt(stepPart, 10) === 0) {
+        throw new Error(`Invalid ${spec.name} step "${stepPart}"`);
+      }
+      step = parseInt(stepPart, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Invalid ${spec.name} range "${rangePart}"`);
+      }
+    } else {
+      start = parseValue(rangePart, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepPart !== undefined ? spec.max : start;
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+// Parse a cron expression; throws with a readable message when it is invalid
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] || trimmed;
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Expected 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((f, i) => parseField(f, FIELDS[i]));
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) return true;
+  if (schedule.anyDayOfMonth) return dowMatch;
+  if (schedule.anyDayOfWeek) return domMatch;
+  return domMatch || dowMatch;
+}
+
+// First time strictly after `from` that matches the expression
+export function getNextCronRun(expression: string, from: Date = new Date()): Date {
+  const schedule = parseCron(expression);
+  const next = new Date(from.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  const limit = from.getUTCFullYear() + MAX_SEARCH_YEARS;
+  while (next.getUTCFullYear() <= limit) {
+    if (!schedule.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return next;
+  }
+  throw new Error(`"${expression}" never matches a date`);
+}
+
+// The next `count` run times, for previews
+export function getNextCronRuns(expression: string, count: number, from: Date = new Date()): Date[] {
+  const runs: Date[] = [];
+  let cursor = from;
+  for (let i = 0; i < count; i++) {
+    cursor = getNextCronRun(expression, cursor);
+    runs.push(cursor);
+  }
+  return runs;
+}
@@ -0,0 +1,55 @@
+// Row-level diff between two snapshots of a dataset (dataset versions dialog)
+
+import type { DatasetSnapshotRow } from '@/types/dataset';
+import { diffLines, type DiffLine } from '@/lib/workflowDiff';
+
+export interface SnapshotRowChange {
+  key: string;
+  nodeName: string;
+  lines: DiffLine[];
+}
+
+export interface SnapshotDiff {
+  added: DatasetSnapshotRow[];
+  removed: DatasetSnapshotRow[];
+  changed: SnapshotRowChange[];
+  unchanged: number;
+}
+
+// Node outputs are usually JSON strings; pretty-print them so line diffs are meaningful
+export const formatSnapshotOutput = (output: unknown): string => {
+  if (typeof output === 'string') {
+    try {
+      return JSON.stringify(JSON.parse(output), null, 2);
+    } catch {
+      return output;
+    }
+  }
+  return JSON.stringify(output ?? null, null, 2);
+};
+
+export const diffSnapshots = (before: DatasetSnapshotRow[], after: DatasetSnapshotRow[]): SnapshotDiff => {
+  const beforeRows = new Map(before.map(row => [row.key, row]));
+  const afterKeys = new Set(after.map(row => row.key));
+
+  const changed: SnapshotRowChange[] = [];
+  let unchanged = 0;
+  for (const row of after) {
+    const previous = beforeRows.get(row.key);
+    if (!previous) continue;
+    const beforeText = formatSnapshotOutput(previous.output);
+    const afterText = formatSnapshotOutput(row.output);
+    if (beforeText === afterText) {
+      unchanged++;
+    } else {
+      changed.push({ key: row.key, nodeName: row.node_name, lines: diffLines(beforeText, afterText) });
+    }
+  }
+
+  return {
+    added: after.filter(row => !beforeRows.has(row.key)),
+    removed: before.filter(row => !afterKeys.has(row.key)),
+    changed,
+    unchanged,
+  };
+};
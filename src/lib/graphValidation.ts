@@ -0,0 +1,302 @@
+// Static checks of a workflow graph, run before cascades and from the Validate button.
+// Errors block runs; warnings are only reported. The graph checks are mirrored in
+// supabase/functions/_shared/graphValidation.ts, which blocks server-started runs - keep them in sync.
+
+import { extractJsonPaths } from '@/lib/jsonPathUtils';
+import { getModelById } from '@/lib/modelRegistry';
+import {
+  CONDITION_BRANCH_PORTS,
+  FOREACH_ITEM_PORT,
+  type Edge,
+  type NodeBase,
+  type PromptPart,
+  type SSOTMapDependency,
+} from '@/types/workflow';
+
+export type GraphIssueSeverity = 'error' | 'warning';
+
+export type GraphIssueCode =
+  | 'cycle'
+  | 'dangling_dependency'
+  | 'dangling_edge'
+  | 'port_kind_mismatch'
+  | 'missing_model'
+  | 'unknown_model'
+  | 'ssot_path';
+
+export interface GraphValidationIssue {
+  severity: GraphIssueSeverity;
+  code: GraphIssueCode;
+  message: string;
+  // Nodes of the validated workflow to highlight on the canvas
+  nodeIds: string[];
+}
+
+export interface GraphValidationInput {
+  workflowId: string;
+  nodes: NodeBase[];
+  edges: Edge[];
+  // The other workflows; null when they could not be loaded, which skips cross-workflow checks
+  otherWorkflows: Array<{ id: string; name: string; nodes: NodeBase[]; edges?: Edge[] }> | null;
+  // Stored outputs keyed "workflowId:nodeId", used to check SSOT map paths
+  outputs?: Map<string, unknown>;
+}
+
+// Wires leaving a condition node's true/false ports or a foreach node's item port are real
+// dependencies, unlike other wires
+export const isControlEdge = (edge: Edge): boolean =>
+  ([...CONDITION_BRANCH_PORTS, FOREACH_ITEM_PORT] as string[]).includes(edge.from.port);
+
+// Model ids outside the registry that the edge functions still accept
+const OPEN_MODEL_PREFIXES = ['self-hosted/', 'mock/'];
+
+const nodeKey = (workflowId: string, nodeId: string) => `${workflowId}:${nodeId}`;
+
+interface NodeReference {
+  workflowId: string;
+  nodeId: string;
+  // Orders execution (a non-triggering dependency only reads the stored output)
+  triggering: boolean;
+  viaWire: boolean;
+  label?: string;
+}
+
+// Same upstream references the cascade resolves: prompt part dependencies, agent source,
+// SSOT map sources and control wires
+const nodeReferences = (node: NodeBase, workflowId: string, edges: Edge[]): NodeReference[] => {
+  const refs: NodeReference[] = [];
+  for (const part of (node.config?.promptParts || []) as PromptPart[]) {
+    if (part.type !== 'dependency' || !part.value) continue;
+    refs.push({
+      workflowId: part.workflowId || workflowId,
+      nodeId: part.value,
+      triggering: part.triggersExecution !== false,
+      viaWire: false,
+      label: part.nodeLabel,
+    });
+  }
+  if (node.type === 'agent' && node.config?.sourceNodeId) {
+    refs.push({ workflowId, nodeId: node.config.sourceNodeId, triggering: true, viaWire: false, label: node.config.sourceNodeLabel });
+  }
+  if (node.type === 'variable' && node.config?.ssotMapMode) {
+    for (const dep of (node.config.ssotMapDependencies || []) as SSOTMapDependency[]) {
+      if (dep.nodeId) refs.push({ workflowId: dep.workflowId || workflowId, nodeId: dep.nodeId, triggering: true, viaWire: false, label: dep.nodeLabel });
+    }
+  }
+  for (const edge of edges) {
+    if (edge.to.node === node.id && isControlEdge(edge)) {
+      refs.push({ workflowId, nodeId: edge.from.node, triggering: true, viaWire: true });
+    }
+  }
+  return refs;
+};
+
+// Strongly connected components (Tarjan) with more than one node or a self-reference
+const findCycles = (graph: Map<string, Set<string>>): string[][] => {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (key: string) => {
+    index.set(key, counter);
+    lowLink.set(key, counter);
+    counter++;
+    stack.push(key);
+    onStack.add(key);
+    for (const next of graph.get(key) || []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(key, Math.min(lowLink.get(key)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(key, Math.min(lowLink.get(key)!, index.get(next)!));
+      }
+    }
+    if (lowLink.get(key) === index.get(key)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== key);
+      if (component.length > 1 || graph.get(key)?.has(key)) cycles.push(component.reverse());
+    }
+  };
+
+  for (const key of graph.keys()) {
+    if (!index.has(key)) visit(key);
+  }
+  return cycles;
+};
+
+// Normalize "items[0].name" and "output.items.3.name" to "items.0.name" for comparison
+const normalizePath = (path: string) =>
+  path.replace(/^output\./, '').replace(/\[(\d+)\]/g, '.$1').replace(/\.\d+(?=\.|$)/g, '.0');
+
+export function validateWorkflowGraph(input: GraphValidationInput): GraphValidationIssue[] {
+  const { workflowId, nodes, edges, otherWorkflows, outputs } = input;
+  const issues: GraphValidationIssue[] = [];
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+
+  const workflows = new Map<string, { name: string; nodes: Map<string, NodeBase>; edges: Edge[] }>();
+  workflows.set(workflowId, { name: 'this workflow', nodes: nodeMap, edges });
+  for (const other of otherWorkflows || []) {
+    if (other.id === workflowId) continue;
+    workflows.set(other.id, { name: other.name, nodes: new Map((other.nodes || []).map(n => [n.id, n])), edges: other.edges || [] });
+  }
+  const describe = (key: string) => {
+    const separator = key.indexOf(':');
+    const wfId = key.slice(0, separator);
+    const nodeId = key.slice(separator + 1);
+    const wf = workflows.get(wfId);
+    const label = wf?.nodes.get(nodeId)?.label || nodeId;
+    return wfId === workflowId ? `"${label}"` : `"${label}" (${wf?.name || wfId})`;
+  };
+
+  // Dangling references (wires are checked below)
+  for (const node of nodes) {
+    for (const ref of nodeReferences(node, workflowId, edges)) {
+      if (ref.viaWire) continue;
+      const crossWorkflow = ref.workflowId !== workflowId;
+      if (crossWorkflow && !otherWorkflows) continue;
+      const target = workflows.get(ref.workflowId);
+      if (!target) {
+        issues.push({
+          severity: 'error',
+          code: 'dangling_dependency',
+          message: `"${node.label}" depends on "${ref.label || ref.nodeId}" in a workflow that no longer exists`,
+          nodeIds: [node.id],
+        });
+      } else if (!target.nodes.has(ref.nodeId)) {
+        issues.push({
+          severity: 'error',
+          code: 'dangling_dependency',
+          message: `"${node.label}" depends on "${ref.label || ref.nodeId}"${crossWorkflow ? ` in ${target.name}` : ''}, which has been deleted`,
+          nodeIds: [node.id],
+        });
+      }
+    }
+  }
+
+  // Wires: both ends must exist and connect ports of the same kind
+  for (const edge of edges) {
+    const from = nodeMap.get(edge.from.node);
+    const to = nodeMap.get(edge.to.node);
+    if (!from || !to) {
+      const ends = [from && `from "${from.label}"`, to && `to "${to.label}"`].filter(Boolean).join(' ');
+      issues.push({
+        severity: 'warning',
+        code: 'dangling_edge',
+        message: `A wire ${ends ? `${ends} ` : ''}points to a deleted node`,
+        nodeIds: [from?.id, to?.id].filter((id): id is string => !!id),
+      });
+      continue;
+    }
+    const fromPort = from.ports?.find(p => p.id === edge.from.port);
+    const toPort = to.ports?.find(p => p.id === edge.to.port);
+    if (fromPort && toPort && fromPort.kind !== toPort.kind) {
+      issues.push({
+        severity: 'error',
+        code: 'port_kind_mismatch',
+        message: `Wire from "${from.label}" (${fromPort.kind}) to "${to.label}" (${toPort.kind}) connects ports of different kinds`,
+        nodeIds: [from.id, to.id],
+      });
+    }
+  }
+
+  // Cycles through references that order execution, within and across workflows
+  const graph = new Map<string, Set<string>>();
+  for (const [wfId, wf] of workflows) {
+    for (const node of wf.nodes.values()) {
+      const upstream = new Set<string>();
+      for (const ref of nodeReferences(node, wfId, wf.edges)) {
+        if (ref.triggering && workflows.get(ref.workflowId)?.nodes.has(ref.nodeId)) upstream.add(nodeKey(ref.workflowId, ref.nodeId));
+      }
+      graph.set(nodeKey(wfId, node.id), upstream);
+    }
+  }
+  for (const cycle of findCycles(graph)) {
+    const localIds = cycle.filter(key => key.startsWith(`${workflowId}:`)).map(key => key.slice(workflowId.length + 1));
+    if (localIds.length === 0) continue;
+    const acrossWorkflows = localIds.length < cycle.length;
+    const members = cycle.length === 1
+      ? `${describe(cycle[0])} depends on itself`
+      : `${cycle.map(describe).join(', ')} depend on each other`;
+    issues.push({
+      severity: 'error',
+      code: 'cycle',
+      message: `Dependency cycle${acrossWorkflows ? ' across workflows' : ''}: ${members}. Make one of the dependencies non-triggering to break it`,
+      nodeIds: localIds,
+    });
+  }
+
+  // Model configuration of prompt nodes
+  for (const node of nodes) {
+    if (node.type !== 'promptTemplate') continue;
+    const model: string | undefined = node.config?.model;
+    const isKnownModel = (id: string) => !!getModelById(id) || OPEN_MODEL_PREFIXES.some(prefix => id.startsWith(prefix));
+    if (!model) {
+      issues.push({
+        severity: 'warning',
+        code: 'missing_model',
+        message: `"${node.label}" has no model selected and will use the default model`,
+        nodeIds: [node.id],
+      });
+    } else if (!isKnownModel(model)) {
+      // Short legacy names without a provider prefix are still mapped by the edge functions
+      issues.push({
+        severity: model.includes('/') ? 'error' : 'warning',
+        code: 'unknown_model',
+        message: model.includes('/')
+          ? `"${node.label}" uses unknown model "${model}"`
+          : `"${node.label}" uses legacy model name "${model}"; select a current model`,
+        nodeIds: [node.id],
+      });
+    }
+    for (const fallback of (node.config?.fallbackModels || []) as string[]) {
+      if (!isKnownModel(fallback)) {
+        issues.push({
+          severity: 'error',
+          code: 'unknown_model',
+          message: `"${node.label}" has unknown fallback model "${fallback}"`,
+          nodeIds: [node.id],
+        });
+      }
+    }
+  }
+
+  // SSOT map paths, checked against the stored output of each source node where there is one
+  for (const node of nodes) {
+    if (node.type !== 'variable' || !node.config?.ssotMapMode) continue;
+    for (const dep of (node.config.ssotMapDependencies || []) as SSOTMapDependency[]) {
+      if (!dep.nodeId) continue;
+      const target = dep.targetDomain && dep.targetFieldKey ? `${dep.targetDomain}.${dep.targetFieldKey}` : 'an SSOT field';
+      if (!dep.jsonPath?.trim()) {
+        issues.push({
+          severity: 'warning',
+          code: 'ssot_path',
+          message: `"${node.label}" maps ${target} without a source path`,
+          nodeIds: [node.id],
+        });
+        continue;
+      }
+      const output = outputs?.get(nodeKey(dep.workflowId || workflowId, dep.nodeId));
+      if (output === undefined || output === null) continue;
+      const available = extractJsonPaths(output).map(p => normalizePath(p.path));
+      const path = normalizePath(dep.jsonPath.trim());
+      if (!available.some(p => p === path || p.startsWith(`${path}.`))) {
+        issues.push({
+          severity: 'warning',
+          code: 'ssot_path',
+          message: `"${node.label}" maps ${target} from "${dep.jsonPath}", which is not in the latest output of "${dep.nodeLabel || dep.nodeId}"`,
+          nodeIds: [node.id],
+        });
+      }
+    }
+  }
+
+  return issues;
+}
@@ -1,12 +1,12 @@
 // Model pricing configuration - derived from unified registry with database overrides
 // To update pricing, use the Model Verification Panel to approve changes from research
 
-import { MODEL_REGISTRY, getModelById } from '@/lib/modelRegistry';
+import { MODEL_REGISTRY, getModelById, type ModelProvider } from '@/lib/modelRegistry';
 
 export interface ModelPricing {
   inputPerMillion: number;
   outputPerMillion: number;
-  provider: 'google' | 'openai' | 'perplexity';
+  provider: ModelProvider;
   displayName: string;
 }
 
@@ -1,10 +1,18 @@
 // Unified Model Registry - Single source of truth for all AI model information
 // Last updated: 2026-01-25
 
+export type ModelProvider = 'google' | 'openai' | 'perplexity' | 'self-hosted' | 'mock';
+
+// How the edge functions reach a model (supabase/functions/_shared/llm.ts). The adapter is
+// picked from the model id prefix there, so ids must keep the prefix of their adapter:
+// perplexity/* -> perplexity, self-hosted/* -> openai-compatible, mock/* -> mock, else the gateway
+export type ModelAdapter = 'lovable-gateway' | 'perplexity' | 'openai-compatible' | 'mock';
+
 export interface ModelInfo {
   id: string;
   displayName: string;
-  provider: 'google' | 'openai' | 'perplexity';
+  provider: ModelProvider;
+  adapter: ModelAdapter;
   description: string;
   contextWindow: number;
   maxOutputTokens: number;
@@ -24,6 +32,7 @@ export const MODEL_REGISTRY: ModelInfo[] = [
     id: 'google/gemini-3-flash-preview',
     displayName: 'Gemini 3 Flash (Preview)',
     provider: 'google',
+    adapter: 'lovable-gateway',
     description: 'Fast next-gen model. Balanced speed and capability.',
     contextWindow: 1000000,
     maxOutputTokens: 65536,
@@ -40,6 +49,7 @@ export const MODEL_REGISTRY: ModelInfo[] = [
     id: 'google/gemini-3-pro-preview',
     displayName: 'Gemini 3 Pro (Preview)',
     provider: 'google',
+    adapter: 'lovable-gateway',
     description: 'Next-generation Gemini. Enhanced reasoning capabilities.',
     contextWindow: 1000000,
     maxOutputTokens: 65536,
@@ -56,6 +66,7 @@ export const MODEL_REGISTRY: ModelInfo[] = [
     id: 'google/gemini-2.5-pro',
     displayName: 'Gemini 2.5 Pro',
     provider: 'google',
+    adapter: 'lovable-gateway',
     description: 'Top-tier. Best for image+text, complex reasoning, large contexts.',
     contextWindow: 1000000,
     maxOutputTokens: 65536,
@@ -72,6 +83,7 @@ export const MODEL_REGISTRY: ModelInfo[] = [
     id: 'google/gemini-2.5-flash',
     displayName: 'Gemini 2.5 Flash',
     provider: 'google',
+    adapter: 'lovable-gateway',
     description: 'Balanced cost and latency. Good multimodal and reasoning.',
     contextWindow: 1000000,
     maxOutputTokens: 65536,
@@ -88,6 +100,7 @@ export const MODEL_REGISTRY: ModelInfo[] = [
     id: 'google/gemini-2.5-flash-lite',
     displayName: 'Gemini 2.5 Flash Lite',
     provider: 'google',
+    adapter: 'lovable-gateway',
     description: 'Fastest and cheapest. Best for simple tasks and high volume.',
     contextWindow: 1000000,
     maxOutputTokens: 65536,
@@ -105,6 +118,7 @@ export const MODEL_REGISTRY: ModelInfo[] = [
     id: 'openai/gpt-5.2',
     displayName: 'GPT-5.2',
     provider: 'openai',
+    adapter: 'lovable-gateway',
     description: 'Latest OpenAI. Enhanced reasoning for complex problems.',
     contextWindow: 128000,
     maxOutputTokens: 16384,
@@ -121,6 +135,7 @@ export const MODEL_REGISTRY: ModelInfo[] = [
     id: 'openai/gpt-5',
     displayName: 'GPT-5',
     provider: 'openai',
+    adapter: 'lovable-gateway',
     description: 'Powerful all-rounder. Excellent reasoning and multimodal.',
     contextWindow: 128000,
     maxOutputTokens: 16384,
@@ -137,6 +152,7 @@ export const MODEL_REGISTRY: ModelInfo[] = [
     id: 'openai/gpt-5-mini',
     displayName: 'GPT-5 Mini',
     provider: 'openai',
+    adapter: 'lovable-gateway',
     description: 'Lower cost, keeps most capabilities. Good balance.',
     contextWindow: 128000,
     maxOutputTokens: 16384,
@@ -153,6 +169,7 @@ export const MODEL_REGISTRY: ModelInfo[] = [
     id: 'openai/gpt-5-nano',
     displayName: 'GPT-5 Nano',
     provider: 'openai',
+    adapter: 'lovable-gateway',
     description: 'Speed and cost optimized. Best for high-volume simple tasks.',
     contextWindow: 128000,
     maxOutputTokens: 16384,
@@ -170,6 +187,7 @@ export const MODEL_REGISTRY: ModelInfo[] = [
     id: 'perplexity/sonar',
     displayName: 'Sonar',
     provider: 'perplexity',
+    adapter: 'perplexity',
     description: 'Fast, cost-efficient. Best for Q&A and real-time news.',
     contextWindow: 128000,
     maxOutputTokens: 16384,
@@ -186,6 +204,7 @@ export const MODEL_REGISTRY: ModelInfo[] = [
     id: 'perplexity/sonar-pro',
     displayName: 'Sonar Pro',
     provider: 'perplexity',
+    adapter: 'perplexity',
     description: 'Detailed research with deeper content understanding.',
     contextWindow: 200000,
     maxOutputTokens: 16384,
@@ -202,6 +221,7 @@ export const MODEL_REGISTRY: ModelInfo[] = [
     id: 'perplexity/sonar-reasoning-pro',
     displayName: 'Sonar Reasoning Pro',
     provider: 'perplexity',
+    adapter: 'perplexity',
     description: 'Multi-step logic and chain-of-thought reasoning.',
     contextWindow: 128000,
     maxOutputTokens: 16384,
@@ -218,6 +238,7 @@ export const MODEL_REGISTRY: ModelInfo[] = [
     id: 'perplexity/sonar-deep-research',
     displayName: 'Sonar Deep Research',
     provider: 'perplexity',
+    adapter: 'perplexity',
     description: 'Exhaustive synthesis across hundreds of sources.',
     contextWindow: 128000,
     maxOutputTokens: 16384,
@@ -230,6 +251,41 @@ export const MODEL_REGISTRY: ModelInfo[] = [
     },
     recommended: false,
   },
+  // Self-hosted and testing
+  {
+    id: 'self-hosted/default',
+    displayName: 'Self-hosted Model',
+    provider: 'self-hosted',
+    adapter: 'openai-compatible',
+    description: 'OpenAI-compatible endpoint set by SELF_HOSTED_LLM_URL (vLLM, Ollama, etc.).',
+    contextWindow: 32768,
+    maxOutputTokens: 8192,
+    inputCostPerMillion: 0,
+    outputCostPerMillion: 0,
+    capabilities: {
+      webSearch: false,
+      multimodal: false,
+      reasoning: 'standard',
+    },
+    recommended: false,
+  },
+  {
+    id: 'mock/deterministic',
+    displayName: 'Mock (Deterministic)',
+    provider: 'mock',
+    adapter: 'mock',
+    description: 'No network calls. Replays LLM_MOCK_FIXTURES or returns a stable placeholder. For tests and staging.',
+    contextWindow: 1000000,
+    maxOutputTokens: 65536,
+    inputCostPerMillion: 0,
+    outputCostPerMillion: 0,
+    capabilities: {
+      webSearch: false,
+      multimodal: false,
+      reasoning: 'basic',
+    },
+    recommended: false,
+  },
 ];
 
 export const LAST_UPDATED = '2026-01-25';
@@ -239,7 +295,7 @@ export const getModelById = (id: string): ModelInfo | undefined => {
   return MODEL_REGISTRY.find(m => m.id === id);
 };
 
-export const getModelsByProvider = (provider: 'google' | 'openai' | 'perplexity'): ModelInfo[] => {
+export const getModelsByProvider = (provider: ModelProvider): ModelInfo[] => {
   return MODEL_REGISTRY.filter(m => m.provider === provider);
 };
 
@@ -0,0 +1,54 @@
+// Hash of the parts of a node that determine its output. Stored on company_node_data.config_hash
+// by the edge functions; must stay in sync with supabase/functions/_shared/nodeConfigHash.ts.
+
+import type { NodeBase } from '@/types/workflow';
+
+// Config keys that only affect display or where the output is written
+const NON_OUTPUT_CONFIG_KEYS = new Set([
+  'description',
+  'paused',
+  'color',
+  'icon',
+  'customIcon',
+  'outputDestinations',
+  'sharedCacheOutputs',
+  'sharedCacheName',
+  'isAbiOutput',
+  'isAbiVCOutput',
+  'isMasterDataOutput',
+  'masterDataMapping',
+  'workflowName',
+  'nodeLabel',
+  'frameworkName',
+  'systemPromptName',
+  'integrationName',
+  'datasetName',
+  'sourceNodeLabel',
+  'outputSchemaFrameworkName',
+  'retryPolicy',
+]);
+
+// JSON with code-point sorted keys and display-only keys dropped at every level
+const canonicalConfigJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalConfigJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([k, v]) => v !== undefined && !NON_OUTPUT_CONFIG_KEYS.has(k))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalConfigJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export async function hashNodeConfig(node: Pick<NodeBase, 'type' | 'config'>): Promise<string> {
+  const data = new TextEncoder().encode(canonicalConfigJson({ type: node.type, config: node.config || {} }));
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function hashWorkflowNodeConfigs(nodes: Array<Pick<NodeBase, 'id' | 'type' | 'config'>>): Promise<Record<string, string>> {
+  const entries = await Promise.all(nodes.map(async node => [node.id, await hashNodeConfig(node)] as const));
+  return Object.fromEntries(entries);
+}
@@ -316,6 +316,7 @@ export const defaultIconNames: Record<string, string> = {
   note: 'StickyNote',
   workflow: 'Network',
   condition: 'GitBranch',
+  foreach: 'Repeat',
   integration: 'Plug',
 };
 
@@ -386,8 +387,15 @@ export const defaultPaletteItems: PaletteItem[] = [
   {
     type: 'condition',
     icon: GitBranch,
-    title: 'Automate',
-    description: 'Automation functions',
+    title: 'Condition',
+    description: 'Branch on upstream output',
+    category: 'connect',
+  },
+  {
+    type: 'foreach',
+    icon: Repeat,
+    title: 'For Each',
+    description: 'Run nodes once per array item',
     category: 'connect',
   },
   {
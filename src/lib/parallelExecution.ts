@@ -0,0 +1,93 @@
+// Level-based parallel execution for canvas cascades. Must stay in sync with
+// buildExecutionLevels and runWithConcurrency in run-company-workflows.
+
+import { getModelById } from '@/lib/modelRegistry';
+import {
+  DEFAULT_WORKFLOW_EXECUTION_SETTINGS,
+  type NodeBase,
+  type WorkflowExecutionSettings,
+  type WorkflowSettings,
+} from '@/types/workflow';
+
+// Execution limits of a workflow, with invalid values replaced by the defaults
+export function resolveExecutionSettings(settings?: WorkflowSettings | null): WorkflowExecutionSettings {
+  const execution = settings?.execution;
+  const maxParallel = Math.floor(Number(execution?.max_parallel_nodes));
+  const providerConcurrency: Record<string, number> = {};
+  for (const [provider, limit] of Object.entries(execution?.provider_concurrency || {})) {
+    if (Number(limit) >= 1) providerConcurrency[provider] = Math.floor(Number(limit));
+  }
+  return {
+    max_parallel_nodes: maxParallel >= 1 ? maxParallel : DEFAULT_WORKFLOW_EXECUTION_SETTINGS.max_parallel_nodes,
+    provider_concurrency: providerConcurrency,
+  };
+}
+
+// Group a topological order into levels that can run in parallel. A node goes one level after
+// the latest dependency that comes earlier in the order, so it sees the same outputs it would
+// if the nodes ran one by one.
+export function buildExecutionLevels(sortedNodeIds: string[], dependenciesOf: (nodeId: string) => string[]): string[][] {
+  const position = new Map(sortedNodeIds.map((id, index) => [id, index]));
+  const levelOf = new Map<string, number>();
+  const levels: string[][] = [];
+  sortedNodeIds.forEach((nodeId, index) => {
+    let level = 0;
+    for (const depId of dependenciesOf(nodeId)) {
+      const depPosition = position.get(depId);
+      if (depPosition !== undefined && depPosition < index) {
+        level = Math.max(level, (levelOf.get(depId) ?? 0) + 1);
+      }
+    }
+    levelOf.set(nodeId, level);
+    (levels[level] ||= []).push(nodeId);
+  });
+  return levels;
+}
+
+// Model provider a node calls ("google", "openai", ...), used for per-provider caps
+export function nodeProvider(node: NodeBase | undefined): string | null {
+  if (node?.type !== 'promptTemplate') return null;
+  const model: string = node.config?.model || 'google/gemini-3-flash-preview';
+  return getModelById(model)?.provider ?? model.split('/')[0];
+}
+
+// Run items with at most `limit` in flight and at most keyLimits[key] per key. Items start
+// in order, but one whose key is saturated lets later items with a free key go first.
+export function runWithConcurrency(
+  items: string[],
+  limit: number,
+  keyOf: (item: string) => string | null,
+  keyLimits: Record<string, number>,
+  run: (item: string) => Promise<void>
+): Promise<void> {
+  const pending = [...items];
+  const inFlightByKey = new Map<string, number>();
+  let inFlight = 0;
+
+  return new Promise((resolve, reject) => {
+    const hasCapacity = (item: string) => {
+      const key = keyOf(item);
+      return !key || !keyLimits[key] || (inFlightByKey.get(key) || 0) < keyLimits[key];
+    };
+    const startNext = () => {
+      if (pending.length === 0 && inFlight === 0) {
+        resolve();
+        return;
+      }
+      while (inFlight < limit) {
+        const index = pending.findIndex(hasCapacity);
+        if (index < 0) break;
+        const [item] = pending.splice(index, 1);
+        const key = keyOf(item);
+        inFlight++;
+        if (key) inFlightByKey.set(key, (inFlightByKey.get(key) || 0) + 1);
+        run(item).then(() => {
+          inFlight--;
+          if (key) inFlightByKey.set(key, (inFlightByKey.get(key) || 1) - 1);
+          startNext();
+        }, reject);
+      }
+    };
+    startNext();
+  });
+}
@@ -1,6 +1,42 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
 import { SSOTPendingChange } from '@/types/ssot-changes';
 import { toast } from 'sonner';
+import { resolveValueRules, validateSSOTValue } from '@/lib/ssotValueValidation';
+
+type CompanyDomain = Database['public']['Enums']['company_domain'];
+
+/**
+ * Check a change's proposed value against the current field or fact definition
+ * @returns violations prefixed with the field key; empty when valid or undefined
+ */
+export async function getValueViolations(change: SSOTPendingChange): Promise<string[]> {
+  if (change.action === 'create_field') return [];
+
+  if (change.target_level === 'L1C') {
+    const factKey = change.target_path.l4 || change.target_path.l3 || change.target_path.l2 || change.change_id;
+    const { data: factDef } = await supabase
+      .from('context_fact_definitions')
+      .select('fact_type, allowed_values, validation_rules')
+      .eq('fact_key', factKey)
+      .maybeSingle();
+    if (!factDef) return [];
+    const rules = resolveValueRules(factDef.fact_type, factDef.validation_rules, factDef.allowed_values);
+    return validateSSOTValue(change.proposed_value, rules).map(v => `${factKey}: ${v}`);
+  }
+
+  const fieldKey = change.target_path.l4 || change.target_path.l3 || change.target_path.l2;
+  if (!fieldKey) return [];
+  const { data: fieldDef } = await supabase
+    .from('company_field_definitions')
+    .select('field_type, validation_rules')
+    .eq('domain', change.target_domain as CompanyDomain)
+    .eq('field_key', fieldKey)
+    .maybeSingle();
+  if (!fieldDef) return [];
+  const rules = resolveValueRules(fieldDef.field_type, fieldDef.validation_rules);
+  return validateSSOTValue(change.proposed_value, rules).map(v => `${fieldKey}: ${v}`);
+}
 
 /**
  * Approve an SSOT pending change and apply it to the appropriate table
@@ -11,6 +47,17 @@ export async function approveSSOTChange(change: SSOTPendingChange): Promise<bool
     const { data: userData } = await supabase.auth.getUser();
     const userId = userData.user?.id;
 
+    // Re-check against the current rules; quarantined values pass once the value or rules are fixed
+    const violations = await getValueViolations(change);
+    if (violations.length > 0) {
+      await supabase
+        .from('ssot_pending_changes')
+        .update({ validation_status: 'invalid', validation_errors: violations })
+        .eq('id', change.id);
+      toast.error(`Value rejected: ${violations[0]}`);
+      return false;
+    }
+
     // Update the pending change status FIRST
     const { error: updateError } = await supabase
       .from('ssot_pending_changes')
@@ -18,6 +65,8 @@ export async function approveSSOTChange(change: SSOTPendingChange): Promise<bool
         status: 'approved',
         reviewed_by: userId,
         reviewed_at: new Date().toISOString(),
+        validation_status: 'valid',
+        validation_errors: [],
       })
       .eq('id', change.id);
 
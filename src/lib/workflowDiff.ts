@@ -0,0 +1,154 @@
+// Structural diff between two saved versions of a workflow (version history panel)
+
+import type { Edge, NodeBase, VariableDef, WorkflowSettings } from '@/types/workflow';
+
+export interface WorkflowSnapshot {
+  name: string;
+  nodes: NodeBase[];
+  edges: Edge[];
+  variables: VariableDef[];
+  settings?: WorkflowSettings | null;
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface NodeChange {
+  nodeId: string;
+  label: string;
+  type: string;
+  changedFields: string[];
+  promptDiff: DiffLine[] | null;
+}
+
+export interface WorkflowDiff {
+  renamed: { from: string; to: string } | null;
+  addedNodes: NodeBase[];
+  removedNodes: NodeBase[];
+  changedNodes: NodeChange[];
+  addedEdges: Edge[];
+  removedEdges: Edge[];
+  variablesChanged: boolean;
+  settingsChanged: boolean;
+}
+
+// JSON with sorted keys so key order never counts as a change
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const edgeKey = (edge: Edge) => `${edge.from.node}:${edge.from.port}->${edge.to.node}:${edge.to.port}`;
+
+// Readable prompt text: text parts as-is, references as placeholders
+export const promptText = (node: NodeBase): string | null => {
+  const parts = node.config?.promptParts;
+  if (!Array.isArray(parts) || parts.length === 0) return null;
+  return parts.map((part: { type: string; value: string; nodeLabel?: string; frameworkName?: string; systemPromptName?: string; systemPromptId?: string }) => {
+    if (part.systemPromptId) return `[System prompt: ${part.systemPromptName || part.systemPromptId}]`;
+    if (part.type === 'dependency') return `{{${part.nodeLabel || part.value}}}`;
+    if (part.type === 'framework') return `[Framework: ${part.frameworkName || part.value}]`;
+    return part.value;
+  }).join('\n');
+};
+
+// Line diff via longest common subsequence
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+};
+
+// Fields that changed between two versions of a node. Position and ports are layout, not structure.
+const changedNodeFields = (before: NodeBase, after: NodeBase): string[] => {
+  const fields: string[] = [];
+  if (before.label !== after.label) fields.push('label');
+  if (before.type !== after.type) fields.push('type');
+  const configKeys = new Set([...Object.keys(before.config || {}), ...Object.keys(after.config || {})]);
+  for (const key of configKeys) {
+    if (key === 'promptParts') continue;
+    if (stableStringify(before.config?.[key]) !== stableStringify(after.config?.[key])) {
+      fields.push(`config.${key}`);
+    }
+  }
+  return fields.sort();
+};
+
+export const diffWorkflows = (before: WorkflowSnapshot, after: WorkflowSnapshot): WorkflowDiff => {
+  const beforeNodes = new Map(before.nodes.map(n => [n.id, n]));
+  const afterNodes = new Map(after.nodes.map(n => [n.id, n]));
+
+  const changedNodes: NodeChange[] = [];
+  for (const node of after.nodes) {
+    const previous = beforeNodes.get(node.id);
+    if (!previous) continue;
+    const changedFields = changedNodeFields(previous, node);
+    const beforePrompt = promptText(previous);
+    const afterPrompt = promptText(node);
+    const promptChanged = (beforePrompt ?? '') !== (afterPrompt ?? '');
+    if (promptChanged) changedFields.push('prompt');
+    if (changedFields.length > 0) {
+      changedNodes.push({
+        nodeId: node.id,
+        label: node.label || node.id,
+        type: node.type,
+        changedFields,
+        promptDiff: promptChanged ? diffLines(beforePrompt ?? '', afterPrompt ?? '') : null,
+      });
+    }
+  }
+
+  const beforeEdges = new Set(before.edges.map(edgeKey));
+  const afterEdges = new Set(after.edges.map(edgeKey));
+
+  return {
+    renamed: before.name !== after.name ? { from: before.name, to: after.name } : null,
+    addedNodes: after.nodes.filter(n => !beforeNodes.has(n.id)),
+    removedNodes: before.nodes.filter(n => !afterNodes.has(n.id)),
+    changedNodes,
+    addedEdges: after.edges.filter(e => !beforeEdges.has(edgeKey(e))),
+    removedEdges: before.edges.filter(e => !afterEdges.has(edgeKey(e))),
+    variablesChanged: stableStringify(before.variables) !== stableStringify(after.variables),
+    settingsChanged: stableStringify(before.settings ?? null) !== stableStringify(after.settings ?? null),
+  };
+};
+
+export const isEmptyDiff = (diff: WorkflowDiff): boolean =>
+  !diff.renamed &&
+  diff.addedNodes.length === 0 &&
+  diff.removedNodes.length === 0 &&
+  diff.changedNodes.length === 0 &&
+  diff.addedEdges.length === 0 &&
+  diff.removedEdges.length === 0 &&
+  !diff.variablesChanged &&
+  !diff.settingsChanged;
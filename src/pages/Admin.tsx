@@ -11,6 +11,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { useToast } from '@/hooks/use-toast';
 import { Upload, Trash2, Plus, RefreshCw } from 'lucide-react';
 import { AIUsageOverview } from '@/components/analytics/AIUsageOverview';
+import { CascadeCostLimitsCard } from '@/components/analytics/CascadeCostLimitsCard';
 import { UsageByModelChart } from '@/components/analytics/UsageByModelChart';
 import { UsageOverTimeChart } from '@/components/analytics/UsageOverTimeChart';
 import { RecentUsageTable } from '@/components/analytics/RecentUsageTable';
@@ -31,6 +32,8 @@ import { SystemPromptsTab } from '@/components/agents/SystemPromptsTab';
 import { AgentsModels } from '@/components/agents/AgentsModels';
 import { NodeMigration } from '@/components/agents/NodeMigration';
 import { ErrorsAlertsTab } from '@/components/admin/ErrorsAlertsTab';
+import { SchedulesTab } from '@/components/admin/SchedulesTab';
+import { WebhooksTab } from '@/components/admin/WebhooksTab';
 import { OverviewTab } from '@/components/self-improvement/OverviewTab';
 import { CurrentDataTab } from '@/components/self-improvement/CurrentDataTab';
 import { MasterSchemaTab } from '@/components/database/MasterSchemaTab';
@@ -723,6 +726,7 @@ export default function Admin() {
                   
                   <TabsContent value="ai" className="mt-6 space-y-6">
                     <AIUsageOverview />
+                    <CascadeCostLimitsCard />
                     <div className="grid gap-6 lg:grid-cols-3">
                       <UsageByModelChart />
                       <CostCategoryBreakdown />
@@ -739,6 +743,16 @@ export default function Admin() {
             <ErrorsAlertsTab />
           )}
 
+          {/* Schedules Section */}
+          {activeTab === 'schedules' && (
+            <SchedulesTab />
+          )}
+
+          {/* Webhooks Section */}
+          {activeTab === 'webhooks' && (
+            <WebhooksTab />
+          )}
+
           {/* Users Section - Super Admin Only */}
           {activeTab === 'users' && isSuperAdmin && (
             <UserManagement />
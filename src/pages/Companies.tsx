@@ -49,9 +49,14 @@ import { QualityWarningsSection } from '@/components/companies/QualityWarningsSe
 import { MasterDataViewer } from '@/components/companies/MasterDataViewer';
 import { SSOTChangeReviewDialog } from '@/components/companies/SSOTChangeReviewDialog';
 import { AbiSyncLogCard } from '@/components/companies/AbiSyncLogCard';
+import { CompanyUsageLimitsCard } from '@/components/companies/CompanyUsageLimitsCard';
+import { PortfolioRunDialog } from '@/components/companies/PortfolioRunDialog';
+import { PortfolioRunDashboard } from '@/components/companies/PortfolioRunDashboard';
 import { SSOTPendingChange } from '@/types/ssot-changes';
 import { EntitiesTab } from '@/components/entities/EntitiesTab';
 import { Submission } from '@/lib/submissionUtils';
+import { hashNodeConfig } from '@/lib/nodeConfigHash';
+import type { NodeBase } from '@/types/workflow';
 import { formatCost } from '@/lib/modelRegistry';
 import { CompanyDomain } from '@/types/company-master';
 import {
@@ -81,6 +86,7 @@ import {
   RotateCcw,
   Cloud,
   AlertTriangle,
+  Activity,
 } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
 import {
@@ -223,6 +229,7 @@ interface NodeData {
   node_label: string | null;
   data: { output?: any } | null;
   content_hash: string | null;
+  config_hash: string | null;
   last_executed_at: string | null;
   version: number | null;
 }
@@ -275,6 +282,9 @@ const [workflows, setWorkflows] = useState<{ id: string; name: string; settings?
   const [submissionsLoading, setSubmissionsLoading] = useState(false);
   const [nodeData, setNodeData] = useState<NodeData[]>([]);
   const [nodeDataLoading, setNodeDataLoading] = useState(false);
+  // company_node_data ids whose output came from an older config of the node
+  const [staleNodeDataIds, setStaleNodeDataIds] = useState<Set<string>>(new Set());
+  const [refreshingStaleWorkflowId, setRefreshingStaleWorkflowId] = useState<string | null>(null);
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
   const [activeTab, setActiveTab] = useState('details');
   const [mainView, setMainView] = useState<'companies' | 'entities'>('companies');
@@ -284,6 +294,8 @@ const [workflows, setWorkflows] = useState<{ id: string; name: string; settings?
   const [runningWorkflows, setRunningWorkflows] = useState(false);
   const [runningAllCompanies, setRunningAllCompanies] = useState(false);
   const [showBulkConfirmDialog, setShowBulkConfirmDialog] = useState<'all' | 'empty' | null>(null);
+  const [showPortfolioRunDialog, setShowPortfolioRunDialog] = useState(false);
+  const [portfolioDashboard, setPortfolioDashboard] = useState<{ open: boolean; runId: string | null }>({ open: false, runId: null });
   const [nodeConfigLookup, setNodeConfigLookup] = useState<Map<string, any>>(new Map());
   const [masterData, setMasterData] = useState<MasterDataField[]>([]);
   const [masterDataLoading, setMasterDataLoading] = useState(false);
@@ -568,6 +580,19 @@ const [workflows, setWorkflows] = useState<{ id: string; name: string; settings?
           });
         });
         setNodeConfigLookup(lookup);
+
+        const workflowNodes = new Map<string, NodeBase>();
+        workflowsData?.forEach(wf => {
+          ((wf.nodes || []) as unknown as NodeBase[]).forEach(node => workflowNodes.set(`${wf.id}:${node.id}`, node));
+        });
+        const staleIds = new Set<string>();
+        for (const row of (data || []) as NodeData[]) {
+          const workflowNode = workflowNodes.get(`${row.workflow_id}:${row.node_id}`);
+          if (row.config_hash && workflowNode && row.config_hash !== await hashNodeConfig(workflowNode)) {
+            staleIds.add(row.id);
+          }
+        }
+        setStaleNodeDataIds(staleIds);
       }
     } catch (error) {
       console.error('Error fetching node data:', error);
@@ -804,6 +829,36 @@ const [workflows, setWorkflows] = useState<{ id: string; name: string; settings?
     }
   };
 
+  // Re-run only the stale nodes (and their downstream) of one workflow for one company
+  const handleRefreshStaleOutputs = async (companyId: string, workflowId: string) => {
+    setRefreshingStaleWorkflowId(workflowId);
+    const { data, error } = await supabase.functions.invoke('run-company-workflows', {
+      body: {
+        portfolio: {
+          workflow_id: workflowId,
+          company_ids: [companyId],
+          refresh_stale: true,
+          force: false,
+        },
+      },
+    });
+    setRefreshingStaleWorkflowId(null);
+
+    if (error || !data?.success || data.queued === 0) {
+      console.error('Error refreshing stale outputs:', error || data);
+      toast({
+        title: 'Error',
+        description: data?.error || (data?.success ? 'This workflow does not run for this company' : 'Failed to queue refresh'),
+        variant: 'destructive',
+      });
+      return;
+    }
+    toast({
+      title: 'Refresh queued',
+      description: 'Stale nodes will re-run in the background.',
+    });
+  };
+
   const handleRunAllWorkflowsForAllCompanies = async (emptyOnly: boolean) => {
     try {
       setRunningAllCompanies(true);
@@ -1538,24 +1593,13 @@ const [workflows, setWorkflows] = useState<{ id: string; name: string; settings?
                         </CardContent>
                       </Card>
 
-                      {/* Rate Limits */}
-                      <Card>
-                        <CardHeader className="pb-3">
-                          <CardTitle className="text-sm font-medium">Usage Limits</CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="grid grid-cols-2 gap-4">
-                            <div>
-                              <Label className="text-xs text-muted-foreground">Rate Limit</Label>
-                              <div className="font-medium">{selectedCompany.rate_limit_rpm} req/min</div>
-                            </div>
-                            <div>
-                              <Label className="text-xs text-muted-foreground">Storage Quota</Label>
-                              <div className="font-medium">{selectedCompany.storage_quota_mb} MB</div>
-                            </div>
-                          </div>
-                        </CardContent>
-                      </Card>
+                      <CompanyUsageLimitsCard
+                        company={selectedCompany}
+                        onUpdated={(changes) => {
+                          setSelectedCompany({ ...selectedCompany, ...changes });
+                          fetchCompanies();
+                        }}
+                      />
 
                       {/* Timestamps */}
                       <Card>
@@ -1710,6 +1754,7 @@ const [workflows, setWorkflows] = useState<{ id: string; name: string; settings?
                         ).map(([workflowId, nodes]) => {
                           const workflow = workflows.find(w => w.id === workflowId);
                           const workflowName = workflow ? getWorkflowDisplayName(workflow) : 'Unknown Workflow';
+                          const staleCount = nodes.filter(n => staleNodeDataIds.has(n.id)).length;
                           return (
                             <Card key={workflowId}>
                               <CardHeader className="py-3">
@@ -1720,6 +1765,27 @@ const [workflows, setWorkflows] = useState<{ id: string; name: string; settings?
                                   <span className="text-muted-foreground text-xs">
                                     {nodes.length} node{nodes.length !== 1 ? 's' : ''}
                                   </span>
+                                  {staleCount > 0 && (
+                                    <>
+                                      <Badge variant="outline" className="text-xs text-amber-600 border-amber-500/50">
+                                        {staleCount} stale
+                                      </Badge>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 px-2 text-xs ml-auto"
+                                        disabled={refreshingStaleWorkflowId !== null}
+                                        onClick={() => handleRefreshStaleOutputs(selectedCompany.id, workflowId)}
+                                      >
+                                        {refreshingStaleWorkflowId === workflowId ? (
+                                          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                                        ) : (
+                                          <RefreshCw className="h-3 w-3 mr-1" />
+                                        )}
+                                        Refresh stale
+                                      </Button>
+                                    </>
+                                  )}
                                 </CardTitle>
                               </CardHeader>
                               <CardContent className="pt-0 space-y-2">
@@ -1743,6 +1809,15 @@ const [workflows, setWorkflows] = useState<{ id: string; name: string; settings?
                                           <Badge variant="secondary" className="text-xs">
                                             {node.node_type}
                                           </Badge>
+                                          {staleNodeDataIds.has(node.id) && (
+                                            <Badge
+                                              variant="outline"
+                                              className="text-xs text-amber-600 border-amber-500/50"
+                                              title="Produced by an older version of this node's prompt or settings"
+                                            >
+                                              Stale
+                                            </Badge>
+                                          )}
                                         </div>
                                         {node.last_executed_at && (
                                           <div className="text-xs text-muted-foreground">
@@ -2071,6 +2146,15 @@ const [workflows, setWorkflows] = useState<{ id: string; name: string; settings?
                             <Wand2 className="h-4 w-4 mr-2" />
                             Run Empty Workflows for All Companies
                           </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem onClick={() => setShowPortfolioRunDialog(true)}>
+                            <Layers className="h-4 w-4 mr-2" />
+                            Run for Portfolio…
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setPortfolioDashboard({ open: true, runId: null })}>
+                            <Activity className="h-4 w-4 mr-2" />
+                            Portfolio Runs
+                          </DropdownMenuItem>
                         </DropdownMenuContent>
                       </DropdownMenu>
 
@@ -2281,6 +2365,17 @@ const [workflows, setWorkflows] = useState<{ id: string; name: string; settings?
                 </AlertDialogFooter>
               </AlertDialogContent>
             </AlertDialog>
+
+            <PortfolioRunDialog
+              open={showPortfolioRunDialog}
+              onOpenChange={setShowPortfolioRunDialog}
+              onStarted={runId => setPortfolioDashboard({ open: true, runId })}
+            />
+            <PortfolioRunDashboard
+              open={portfolioDashboard.open}
+              onOpenChange={open => setPortfolioDashboard(prev => ({ ...prev, open }))}
+              runId={portfolioDashboard.runId}
+            />
             {/* Search */}
             <div className="relative max-w-md">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -27,6 +27,7 @@ import type { Dataset, DatasetFormData } from "@/types/dataset";
 import { DatasetCard } from "@/components/datasets/DatasetCard";
 import { DatasetForm } from "@/components/datasets/DatasetForm";
 import { DatasetCategoryFilter } from "@/components/datasets/DatasetCategoryFilter";
+import { DatasetVersionsDialog } from "@/components/datasets/DatasetVersionsDialog";
 import { Skeleton } from "@/components/ui/skeleton";
 
 const Dataset = () => {
@@ -34,6 +35,7 @@ const Dataset = () => {
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
   const [editingDataset, setEditingDataset] = useState<Dataset | undefined>();
   const [deletingDataset, setDeletingDataset] = useState<Dataset | undefined>();
+  const [versionsDataset, setVersionsDataset] = useState<Dataset | undefined>();
   const [activeCategory, setActiveCategory] = useState("all");
   const [selectedWorkflowId, setSelectedWorkflowId] = useState<string | null>(null);
 
@@ -72,6 +74,7 @@ const Dataset = () => {
           description: newDataset.description || null,
           category: newDataset.category,
           dependencies: newDataset.dependencies as any,
+          auto_snapshot: newDataset.auto_snapshot ?? false,
         },
       ]);
 
@@ -98,6 +101,7 @@ const Dataset = () => {
           description: data.description || null,
           category: data.category,
           dependencies: data.dependencies as any,
+          auto_snapshot: data.auto_snapshot ?? false,
         })
         .eq("id", id);
 
@@ -148,6 +152,7 @@ const Dataset = () => {
       description: dataset.description || "",
       category: dataset.category,
       dependencies: dataset.dependencies,
+      auto_snapshot: dataset.auto_snapshot,
     };
     createDataset.mutate(duplicateData);
   };
@@ -304,6 +309,7 @@ const Dataset = () => {
                   onEdit={handleEdit}
                   onDuplicate={handleDuplicate}
                   onDelete={handleDelete}
+                  onVersions={setVersionsDataset}
                 />
               ))}
             </div>
@@ -331,6 +337,7 @@ const Dataset = () => {
                       description: editingDataset.description || "",
                       category: editingDataset.category,
                       dependencies: editingDataset.dependencies,
+                      auto_snapshot: editingDataset.auto_snapshot,
                     }
                   : undefined
               }
@@ -344,6 +351,12 @@ const Dataset = () => {
         </SheetContent>
       </Sheet>
 
+      <DatasetVersionsDialog
+        dataset={versionsDataset}
+        open={!!versionsDataset}
+        onOpenChange={(open) => !open && setVersionsDataset(undefined)}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!deletingDataset} onOpenChange={() => setDeletingDataset(undefined)}>
         <AlertDialogContent>
@@ -12,8 +12,9 @@ import { WorkflowHeader } from '@/components/workflow/WorkflowHeader';
 const Index = () => {
   const { 
     workflow, 
-    setValidationErrors, 
-    validationErrors, 
+    graphValidation, 
+    validateGraph, 
+    setSelectedNodes, 
     initializeWorkflow, 
     isLoading, 
     currentLayer, 
@@ -28,6 +29,13 @@ const Index = () => {
     initializeWorkflow();
   }, []);
 
+  const validationIssues = graphValidation?.workflowId === workflow.id ? graphValidation.issues : [];
+
+  // Show the banner whenever a validation (Validate, save or a blocked run) finds issues
+  useEffect(() => {
+    setShowValidationBanner(graphValidation?.workflowId === workflow.id && graphValidation.issues.length > 0);
+  }, [graphValidation, workflow.id]);
+
   const handleValidate = async () => {
     // If nodes are selected, run them as tests instead of validation
     if (selectedNodeIds.length > 0) {
@@ -35,36 +43,16 @@ const Index = () => {
       return;
     }
     
-    // Otherwise, run validation checks
-    const errors: string[] = [];
-
-    // Check for cycles (simplified - would need proper graph traversal)
-    if (workflow.nodes.length > 0 && workflow.edges.length === 0) {
-      errors.push('No connections between nodes');
-    }
-
-    // Check required fields for each node type
-    workflow.nodes.forEach(node => {
-      if (node.type === 'promptTemplate') {
-        if (!node.config.name) errors.push(`Prompt Template "${node.label}" missing name`);
-        if (!node.config.model) errors.push(`Prompt Template "${node.label}" missing model`);
-      }
-      if (node.type === 'dataset' && !node.config.source) {
-        errors.push(`Dataset "${node.label}" missing source`);
-      }
-      if (node.type === 'variable' && !node.config.name) {
-        errors.push(`Variable "${node.label}" missing name`);
-      }
-    });
-
-    setValidationErrors(errors);
+    // Otherwise, run graph validation
+    const issues = await validateGraph();
+    const errorCount = issues.filter(issue => issue.severity === 'error').length;
 
-    if (errors.length > 0) {
-      setShowValidationBanner(true);
+    if (errorCount > 0) {
       toast.error('Validation failed - see errors above');
+    } else if (issues.length > 0) {
+      toast.warning('Validation passed with warnings');
     } else {
       toast.success('Validation passed!');
-      setShowValidationBanner(false);
     }
   };
 
@@ -87,7 +75,8 @@ const Index = () => {
       
       {showValidationBanner && (
         <ValidationBanner
-          errors={validationErrors}
+          issues={validationIssues}
+          onSelectNode={(nodeId) => setSelectedNodes([nodeId])}
           onClose={() => setShowValidationBanner(false)}
         />
       )}
@@ -1,8 +1,11 @@
 import { create } from 'zustand';
-import { Workflow, NodeBase, Edge, VariableDef, NodeImprovementData, NodePerformanceData, WorkflowHierarchyItem, WorkflowLoadedIdentity } from '@/types/workflow';
+import { Workflow, NodeBase, Edge, VariableDef, NodeImprovementData, NodePerformanceData, WorkflowHierarchyItem, WorkflowLoadedIdentity, WorkflowSettings, OutputSchemaValidation, SSOTMapDependency } from '@/types/workflow';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { getModelById, MODEL_REGISTRY } from '@/lib/modelRegistry';
+import { hashWorkflowNodeConfigs } from '@/lib/nodeConfigHash';
+import { buildExecutionLevels, nodeProvider, resolveExecutionSettings, runWithConcurrency } from '@/lib/parallelExecution';
+import { isControlEdge, validateWorkflowGraph, type GraphValidationIssue } from '@/lib/graphValidation';
 
 export interface NodePreviewData {
   output: any;
@@ -10,6 +13,7 @@ export interface NodePreviewData {
   isLoading: boolean;
   cached: boolean;
   error?: string;
+  schemaValidation?: OutputSchemaValidation | null;
 }
 
 // Cascade progress tracking
@@ -24,11 +28,35 @@ export interface CascadeProgress {
   failedNodeId: string | null;
   error: string | null;
   submissionId: string | null;
+  executionRunId: string | null;
+}
+
+// A company output produced by an older config of its node (get_stale_node_outputs)
+export interface StaleNodeOutput {
+  company_id: string;
+  company_name: string;
+  node_id: string;
+  node_label: string;
+  last_executed_at: string;
 }
 
 // Non-executable node types (decorative canvas elements)
 const NON_EXECUTABLE_TYPES = new Set(['note', 'divider', 'shape', 'floatingEndpoint']);
 
+// Undo/redo: each entry is the graph before one edit. Store updates are immutable,
+// so entries share arrays with the workflow instead of copying them.
+interface WorkflowHistoryEntry {
+  nodes: NodeBase[];
+  edges: Edge[];
+  variables: VariableDef[];
+}
+
+const HISTORY_LIMIT = 100;
+// Repeated edits with the same key inside this window (typing, dragging) form one step
+const HISTORY_COALESCE_MS = 1000;
+let lastHistoryCommit: { key: string; at: number } | null = null;
+let historyTransactionDepth = 0;
+
 interface WorkflowState {
   workflow: Workflow;
   selectedNodeIds: string[];
@@ -44,6 +72,9 @@ interface WorkflowState {
   isForceRunning: boolean;
   isSystemRunning: boolean;
   cascadeProgress: CascadeProgress | null;  // Track cascade execution progress
+  staleOutputs: { workflowId: string; outputs: StaleNodeOutput[] } | null;
+  // Result of the last graph validation; errors block cascades
+  graphValidation: { workflowId: string; issues: GraphValidationIssue[] } | null;
   isInspectorOpen: boolean;
   inspectorTab: 'inspector' | 'prompt-builder' | 'preview' | 'loading';
   // Company selection state
@@ -54,10 +85,15 @@ interface WorkflowState {
   isNavigationLocked: boolean;
   // Cancellation mechanism for running cascades
   cancelledCascadeIds: Set<string>;
+  // Undo/redo history for the loaded workflow
+  historyPast: WorkflowHistoryEntry[];
+  historyFuture: WorkflowHistoryEntry[];
+  historyWorkflowId: string | null;
   
   // Actions
   addNode: (node: NodeBase) => void;
   updateNode: (nodeId: string, updates: Partial<NodeBase>) => void;
+  moveNodes: (positions: Array<{ nodeId: string; position: NodeBase['position'] }>) => void;
   deleteNode: (nodeId: string) => void;
   addEdge: (edge: Edge) => void;
   deleteEdge: (edgeId: string) => void;
@@ -66,6 +102,10 @@ interface WorkflowState {
   setInspectorTab: (tab: 'inspector' | 'prompt-builder' | 'preview' | 'loading') => void;
   loadPerformanceData: (workflowId: string, companyId?: string) => Promise<void>;
   loadImprovementData: (workflowId: string, companyId?: string) => Promise<void>;
+  loadStaleOutputs: () => Promise<void>;
+  validateGraph: () => Promise<GraphValidationIssue[]>;
+  // Queue a portfolio run that re-runs stale nodes for the affected companies
+  refreshStaleOutputs: (scope?: { nodeId?: string; companyId?: string }) => Promise<{ success: boolean; message: string }>;
   toggleSelection: (nodeId: string) => void;
   clearSelection: () => void;
   deleteSelectedNodes: () => void;
@@ -107,8 +147,9 @@ interface WorkflowState {
   forceRunWorkflow: () => Promise<{ success: boolean; message: string }>;
   forceRunNode: (nodeId: string) => Promise<{ success: boolean; message: string }>;
   // New cascade orchestration
-  forceRunCascade: (startNodeId?: string) => Promise<{ success: boolean; message: string }>;
-  executeSingleNode: (nodeId: string, workflowIdOverride?: string) => Promise<{ success: boolean; output?: any; nextNodes: string[]; error?: string }>;
+  forceRunCascade: (startNodeId?: string, resume?: { executionRunId: string; submissionId: string | null }) => Promise<{ success: boolean; message: string }>;
+  resumeCascade: () => Promise<{ success: boolean; message: string }>;
+  executeSingleNode: (nodeId: string, workflowIdOverride?: string, run?: { executionRunId: string; executionOrder: number }) => Promise<{ success: boolean; output?: any; nextNodes: string[]; skippedNodes?: string[]; fanoutNodes?: string[]; error?: string }>;
   // Cross-workflow system trigger with client-side orchestration
   runSystemWorkflows: (triggerNodeId?: string) => Promise<{ success: boolean; message: string }>;
   // Sync shared caches without re-running nodes
@@ -122,8 +163,50 @@ interface WorkflowState {
   saveWorkflowDirect: (workflowData: Partial<Workflow> & { id: string }) => Promise<{ success: boolean; error?: string }>;
   // Safe metadata update - updates name/settings WITHOUT triggering loadWorkflow's beacon save
   updateWorkflowMetadata: (updates: Partial<Pick<Workflow, 'name' | 'settings' | 'parent_id'>>) => void;
+  undo: () => void;
+  redo: () => void;
+  // Run several mutations as a single undo step
+  historyTransaction: (fn: () => void) => void;
+  // Restore a saved version snapshot as the next version (optimistic-lock save)
+  restoreWorkflowVersion: (versionId: string) => Promise<{ success: boolean; message: string }>;
 }
 
+const historyEntryOf = (workflow: Workflow): WorkflowHistoryEntry => ({
+  nodes: workflow.nodes,
+  edges: workflow.edges,
+  variables: workflow.variables,
+});
+
+// History fields to set alongside a mutation. The pre-edit graph is pushed unless the edit
+// continues the previous one (same coalesce key) or runs inside a transaction. History
+// recorded for another workflow is dropped rather than carried over.
+const withHistory = (
+  state: Pick<WorkflowState, 'workflow' | 'historyPast' | 'historyWorkflowId'>,
+  coalesceKey?: string
+): Partial<WorkflowState> => {
+  const sameWorkflow = state.historyWorkflowId === state.workflow.id;
+  if (historyTransactionDepth > 0 && sameWorkflow) return {};
+
+  const now = Date.now();
+  if (sameWorkflow && coalesceKey && lastHistoryCommit?.key === coalesceKey && now - lastHistoryCommit.at < HISTORY_COALESCE_MS) {
+    lastHistoryCommit.at = now;
+    return { historyFuture: [] };
+  }
+  lastHistoryCommit = coalesceKey ? { key: coalesceKey, at: now } : null;
+
+  const past = sameWorkflow ? state.historyPast : [];
+  return {
+    historyPast: [...past, historyEntryOf(state.workflow)].slice(-HISTORY_LIMIT),
+    historyFuture: [],
+    historyWorkflowId: state.workflow.id,
+  };
+};
+
+const resetHistory = (workflowId: string | null): Partial<WorkflowState> => {
+  lastHistoryCommit = null;
+  return { historyPast: [], historyFuture: [], historyWorkflowId: workflowId };
+};
+
 const initialWorkflow: Workflow = {
   id: '1',
   name: 'New Workflow',
@@ -181,6 +264,8 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
   isForceRunning: false,
   isSystemRunning: false,
   cascadeProgress: null,
+  staleOutputs: null,
+  graphValidation: null,
   isInspectorOpen: true,
   inspectorTab: 'inspector',
   // Company selection state
@@ -190,6 +275,9 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
   // Navigation lock for critical multi-step operations
   isNavigationLocked: false,
   cancelledCascadeIds: new Set(),
+  historyPast: [],
+  historyFuture: [],
+  historyWorkflowId: null,
 
   addNode: (node) => {
     // Add default config for promptTemplate nodes
@@ -296,6 +384,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     
     // Apply state change - unified autosave will handle persistence
     set((state) => ({
+      ...withHistory(state),
       workflow: {
         ...state.workflow,
         nodes: [...state.workflow.nodes, node],
@@ -304,19 +393,41 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     }));
   },
 
-  updateNode: (nodeId, updates) => set((state) => ({
-    workflow: {
-      ...state.workflow,
-      nodes: state.workflow.nodes.map(node => 
-        node.id === nodeId ? { ...node, ...updates } : node
-      ),
-      unsavedChanges: true,
-    }
-  })),
+  // Keyed by node and fields so repeated edits of the same fields coalesce into one step
+  updateNode: (nodeId, updates) => set((state) => {
+    const keys = Object.keys(updates).sort().join(',');
+    return {
+      ...withHistory(state, `node:${nodeId}:${keys}`),
+      workflow: {
+        ...state.workflow,
+        nodes: state.workflow.nodes.map(node => 
+          node.id === nodeId ? { ...node, ...updates } : node
+        ),
+        unsavedChanges: true,
+      }
+    };
+  }),
+
+  // Keyed by the moved nodes, so a drag of one selection is one step but moving
+  // another node right after it is a separate one
+  moveNodes: (positions) => set((state) => {
+    const byId = new Map(positions.map(p => [p.nodeId, p.position]));
+    return {
+      ...withHistory(state, `move:${[...byId.keys()].sort().join(',')}`),
+      workflow: {
+        ...state.workflow,
+        nodes: state.workflow.nodes.map(node =>
+          byId.has(node.id) ? { ...node, position: byId.get(node.id)! } : node
+        ),
+        unsavedChanges: true,
+      }
+    };
+  }),
 
   deleteNode: (nodeId) => {
     // Apply state change - unified autosave will handle persistence
     set((state) => ({
+      ...withHistory(state),
       workflow: {
         ...state.workflow,
         nodes: state.workflow.nodes.filter(node => node.id !== nodeId),
@@ -332,6 +443,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
   addEdge: (edge) => {
     // Apply state change - unified autosave will handle persistence
     set((state) => ({
+      ...withHistory(state),
       workflow: {
         ...state.workflow,
         edges: [...state.workflow.edges, edge],
@@ -365,6 +477,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
       });
       
       return {
+        ...withHistory(state),
         workflow: {
           ...state.workflow,
           edges: newEdges,
@@ -435,6 +548,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     set((state) => {
       const selectedIds = new Set(state.selectedNodeIds);
       return {
+        ...withHistory(state),
         workflow: {
           ...state.workflow,
           nodes: state.workflow.nodes.filter(node => !selectedIds.has(node.id)),
@@ -469,6 +583,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     
     // Apply state change - unified autosave will handle persistence
     set((state) => ({
+      ...withHistory(state),
       workflow: {
         ...state.workflow,
         nodes: [...state.workflow.nodes, newNode],
@@ -478,7 +593,9 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     }));
   },
 
+  // Keyed by node and fields so typing into one field coalesces into a single step
   updateNodeConfig: (nodeId, config) => set((state) => ({
+    ...withHistory(state, `config:${nodeId}:${Object.keys(config).sort().join(',')}`),
     workflow: {
       ...state.workflow,
       nodes: state.workflow.nodes.map(node =>
@@ -489,6 +606,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
   })),
 
   addVariable: (variable) => set((state) => ({
+    ...withHistory(state),
     workflow: {
       ...state.workflow,
       variables: [...state.workflow.variables, variable],
@@ -497,6 +615,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
   })),
 
   updateVariable: (name, updates) => set((state) => ({
+    ...withHistory(state, `variable:${name}:${Object.keys(updates).sort().join(',')}`),
     workflow: {
       ...state.workflow,
       variables: state.workflow.variables.map(v =>
@@ -507,6 +626,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
   })),
 
   deleteVariable: (name) => set((state) => ({
+    ...withHistory(state),
     workflow: {
       ...state.workflow,
       variables: state.workflow.variables.filter(v => v.name !== name),
@@ -517,9 +637,9 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
   setValidationErrors: (errors) => set({ validationErrors: errors }),
 
   // Delegate to event-driven save system
-  saveWorkflow: async (_options?: { silent?: boolean; source?: 'user' | 'autosave' }) => {
+  saveWorkflow: async (options?: { silent?: boolean; source?: 'user' | 'autosave' }) => {
     const { saveCurrentWorkflow } = await import('@/hooks/useSaveOnEvent');
-    await saveCurrentWorkflow();
+    await saveCurrentWorkflow(options?.source);
   },
 
   loadWorkflow: (newWorkflow) => {
@@ -570,7 +690,8 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     
     console.log(`[loadWorkflow] Loaded: ID=${newIdentity.id}, Name="${newIdentity.name}"`);
     
-    set({ workflow: migratedWorkflow });
+    // Undo history belongs to the workflow it was recorded on
+    set({ workflow: migratedWorkflow, ...resetHistory(newWorkflow.id) });
     localStorage.setItem('currentWorkflowId', newWorkflow.id);
   },
 
@@ -649,7 +770,8 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     set({ 
       workflow: newWorkflow,
       selectedNodeIds: [],
-      validationErrors: []
+      validationErrors: [],
+      ...resetHistory(newId),
     });
     localStorage.removeItem('currentWorkflowId');
   },
@@ -833,6 +955,109 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     return { performanceData: newMap };
   }),
 
+  loadStaleOutputs: async () => {
+    const { workflow } = get();
+    if (workflow.id === '1' || workflow.id.startsWith('temp-')) {
+      set({ staleOutputs: null });
+      return;
+    }
+    const configHashes = await hashWorkflowNodeConfigs(workflow.nodes.filter(n => !NON_EXECUTABLE_TYPES.has(n.type)));
+    const { data, error } = await supabase.rpc('get_stale_node_outputs', {
+      _workflow_id: workflow.id,
+      _config_hashes: configHashes,
+    });
+    if (error) {
+      console.error('Error loading stale outputs:', error);
+      return;
+    }
+    // Another workflow may have been opened while this one loaded
+    if (get().workflow.id !== workflow.id) return;
+    set({ staleOutputs: { workflowId: workflow.id, outputs: data || [] } });
+  },
+
+  validateGraph: async () => {
+    const { workflow, selectedCompanyId } = get();
+
+    // Other workflows, for cross-workflow dependencies and cycles
+    const { data: workflows, error: workflowsError } = await supabase
+      .from('workflows')
+      .select('id, name, nodes, edges');
+    if (workflowsError) console.error('Error loading workflows for validation:', workflowsError);
+
+    // Latest outputs of SSOT map sources for the selected company, to check mapped paths
+    const outputs = new Map<string, unknown>();
+    const ssotSourceIds = new Set(
+      workflow.nodes
+        .filter(n => n.type === 'variable' && n.config?.ssotMapMode)
+        .flatMap(n => ((n.config.ssotMapDependencies || []) as SSOTMapDependency[]).map(dep => dep.nodeId))
+        .filter(Boolean)
+    );
+    if (selectedCompanyId && ssotSourceIds.size > 0) {
+      const { data: rows, error: outputsError } = await supabase
+        .from('company_node_data')
+        .select('workflow_id, node_id, data')
+        .eq('company_id', selectedCompanyId)
+        .in('node_id', Array.from(ssotSourceIds));
+      if (outputsError) console.error('Error loading outputs for validation:', outputsError);
+      for (const row of rows || []) {
+        outputs.set(`${row.workflow_id}:${row.node_id}`, (row.data as { output?: unknown } | null)?.output);
+      }
+    }
+
+    const issues = validateWorkflowGraph({
+      workflowId: workflow.id,
+      nodes: workflow.nodes,
+      edges: workflow.edges,
+      otherWorkflows: workflowsError ? null : (workflows || []).map(w => ({
+        id: w.id,
+        name: w.name,
+        nodes: (w.nodes as unknown as NodeBase[] | null) || [],
+        edges: (w.edges as unknown as Edge[] | null) || [],
+      })),
+      outputs,
+    });
+    set({
+      graphValidation: { workflowId: workflow.id, issues },
+      validationErrors: issues.map(issue => issue.message),
+    });
+    return issues;
+  },
+
+  refreshStaleOutputs: async (scope = {}) => {
+    const { workflow, staleOutputs } = get();
+    if (workflow.unsavedChanges) {
+      return { success: false, message: 'Save the workflow before refreshing stale outputs' };
+    }
+    const outputs = staleOutputs?.workflowId === workflow.id ? staleOutputs.outputs : [];
+    const companyIds = Array.from(new Set(
+      outputs
+        .filter(o => (!scope.nodeId || o.node_id === scope.nodeId) && (!scope.companyId || o.company_id === scope.companyId))
+        .map(o => o.company_id)
+    ));
+    if (companyIds.length === 0) {
+      return { success: false, message: 'No stale outputs to refresh' };
+    }
+
+    const { data, error } = await supabase.functions.invoke('run-company-workflows', {
+      body: {
+        portfolio: {
+          workflow_id: workflow.id,
+          company_ids: companyIds,
+          refresh_stale: true,
+          force: false,
+        },
+      },
+    });
+    if (error || !data?.success) {
+      console.error('Error refreshing stale outputs:', error || data);
+      return { success: false, message: data?.error || 'Failed to queue refresh' };
+    }
+    return {
+      success: true,
+      message: `Refreshing stale outputs for ${data.queued} ${data.queued === 1 ? 'company' : 'companies'}${data.skipped ? ` (${data.skipped} skipped)` : ''}`,
+    };
+  },
+
   loadPerformanceData: async (workflowId: string, companyId?: string) => {
     try {
       // Build query
@@ -944,6 +1169,8 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
           !l.usage_category || l.usage_category === 'generation'
         );
         const lastExecutedModel = generationLogs[0]?.model;
+        const fallbackModels: string[] = node?.config?.fallbackModels || [];
+        const servedByFallback = !!lastExecutedModel && lastExecutedModel !== configuredModel && fallbackModels.includes(lastExecutedModel);
         
         const perfData: NodePerformanceData = {
           nodeId,
@@ -964,6 +1191,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
           configuredModel,
           lastExecutedModel,
           modelMismatch: lastExecutedModel !== configuredModel,
+          servedByFallback,
           modelThreshold: maxOutputTokens,
           overallScore,
           suggestions: suggestions.length > 0 ? suggestions : undefined,
@@ -971,8 +1199,8 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
         
         get().updatePerformanceData(nodeId, perfData);
         
-        // Create system alert for model mismatch
-        if (lastExecutedModel && configuredModel && lastExecutedModel !== configuredModel) {
+        // Create system alert for model mismatch; a configured fallback serving is expected
+        if (lastExecutedModel && configuredModel && lastExecutedModel !== configuredModel && !servedByFallback) {
           try {
             await supabase.rpc('upsert_model_mismatch_alert', {
               _workflow_id: workflowId,
@@ -1392,6 +1620,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
             executedAt: nodeData?.last_executed_at ?? null,
             isLoading: false,
             cached: !!nodeData?.content_hash,
+            schemaValidation: (dataObj?.schema_validation as OutputSchemaValidation | undefined) ?? null,
           });
           return { nodePreviewData: newMap };
         });
@@ -1445,6 +1674,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
               isLoading: false,
               cached: result.cached,
               error: undefined,
+              schemaValidation: result.schemaValidation ?? null,
             });
           }
         }
@@ -1478,6 +1708,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
             isLoading: false,
             cached: existing?.cached ?? false,
             error: error instanceof Error ? error.message : 'Unknown error',
+            schemaValidation: existing?.schemaValidation ?? null,
           });
         }
         
@@ -1726,7 +1957,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
 
   // Execute a single node via the new edge function
   // Supports optional workflowIdOverride for cross-workflow execution
-  executeSingleNode: async (nodeId: string, workflowIdOverride?: string) => {
+  executeSingleNode: async (nodeId: string, workflowIdOverride?: string, run?: { executionRunId: string; executionOrder: number }) => {
     const state = get();
     const workflowId = workflowIdOverride || state.workflow.id;
     const companyId = state.selectedCompanyId;
@@ -1753,6 +1984,9 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
           workflow_id: workflowId,
           node_id: nodeId,
           force: true,
+          // Part of a cascade run: recorded as one of its steps instead of its own run
+          execution_run_id: run?.executionRunId,
+          execution_order: run?.executionOrder,
         },
         signal: controller.signal,
       });
@@ -1777,6 +2011,8 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
         success: true,
         output: result.output,
         nextNodes: result.next_nodes || [],
+        skippedNodes: result.skipped_nodes || [],
+        fanoutNodes: result.fanout_nodes || [],
       };
     } catch (error) {
       clearTimeout(timeoutId);
@@ -1795,7 +2031,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
   },
 
   // Client-side cascade orchestration - bulletproof one-node-at-a-time execution
-  forceRunCascade: async (startNodeId?: string) => {
+  forceRunCascade: async (startNodeId?: string, resume?: { executionRunId: string; submissionId: string | null }) => {
     const state = get();
     const workflowId = state.workflow.id;
     const companyId = state.selectedCompanyId;
@@ -1817,6 +2053,12 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
       await saveCurrentWorkflow();
     }
 
+    // Cycles, dangling dependencies and broken configs would run the cascade out of order or fail midway
+    const graphErrors = (await get().validateGraph()).filter(issue => issue.severity === 'error');
+    if (graphErrors.length > 0) {
+      return { success: false, message: `Fix ${graphErrors.length} graph error(s) before running: ${graphErrors[0].message}` };
+    }
+
     // Build topological order of nodes to execute
     const nodes = state.workflow.nodes;
     const edges = state.workflow.edges;
@@ -1831,7 +2073,8 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
         
         // NOTE: Visual edges (wires) are NOT used for cascade discovery
         // The Prompt Builder's dependency configuration is the single source of truth
-        // Wires on the canvas are purely cosmetic and do not affect execution order
+        // Wires on the canvas are purely cosmetic and do not affect execution order,
+        // except the true/false branch wires of condition nodes (handled below)
         
         // Agent nodes referencing this node - SKIP IF PAUSED
         for (const node of nodes) {
@@ -1880,6 +2123,16 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
             }
           }
         }
+        
+        // Targets of condition branch and foreach item wires - SKIP IF PAUSED
+        for (const edge of edges) {
+          if (edge.from.node !== currentId || !isControlEdge(edge)) continue;
+          const target = nodes.find(n => n.id === edge.to.node);
+          if (target && !downstream.has(target.id) && target.config?.paused !== true) {
+            downstream.add(target.id);
+            queue.push(target.id);
+          }
+        }
       }
       
       return downstream;
@@ -1930,7 +2183,17 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     
     // NOTE: Visual edges (wires) are NOT used for execution ordering
     // The Prompt Builder's dependency configuration determines execution order
-    // Only promptParts and agent sourceNodeId dependencies are considered below
+    // Only promptParts, agent sourceNodeId, ssotMap and control wire dependencies are considered below
+
+    // Condition branch and foreach item wires order their targets after their source node
+    for (const edge of edges) {
+      if (!isControlEdge(edge)) continue;
+      if (!nodesToExecute.includes(edge.from.node) || !nodesToExecute.includes(edge.to.node)) continue;
+      if (!adjacency.get(edge.from.node)?.includes(edge.to.node)) {
+        adjacency.get(edge.from.node)?.push(edge.to.node);
+        inDegree.set(edge.to.node, (inDegree.get(edge.to.node) || 0) + 1);
+      }
+    }
 
     // Add promptParts and agent sourceNodeId dependencies to the graph
     for (const node of nodes) {
@@ -2001,36 +2264,121 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
       }
     }
 
-    // Create a trigger submission to track this cascade run
-    const { data: cascadeSubmission, error: cascadeSubError } = await supabase
-      .from('company_data_submissions')
-      .insert({
-        company_id: companyId,
-        source_type: 'canvas_force_run',
-        raw_data: { 
-          _trigger: startNodeId ? 'node_force_run' : 'force_run', 
+    // Create a trigger submission and run record to track this cascade, or reuse the ones
+    // of the run being resumed so its costs and history stay attributed to it
+    let cascadeSubmissionId: string | undefined;
+    let executionRunId: string | undefined;
+    let runStartedAt = Date.now();
+    // Nodes the resumed run already finished; their outputs are reused, not recomputed
+    const resumedNodes = new Set<string>();
+
+    if (resume) {
+      cascadeSubmissionId = resume.submissionId || undefined;
+      executionRunId = resume.executionRunId;
+
+      const { data: resumedRun } = await supabase
+        .from('execution_runs')
+        .select('started_at')
+        .eq('id', executionRunId)
+        .single();
+      if (resumedRun?.started_at) runStartedAt = new Date(resumedRun.started_at).getTime();
+
+      const { data: steps } = await supabase
+        .from('execution_steps')
+        .select('node_id, status')
+        .eq('execution_run_id', executionRunId)
+        .order('created_at', { ascending: true });
+      const failedIds = new Set<string>();
+      for (const step of steps || []) {
+        if (step.status === 'completed' || step.status === 'skipped') {
+          resumedNodes.add(step.node_id);
+          failedIds.delete(step.node_id);
+        } else {
+          resumedNodes.delete(step.node_id);
+          if (step.status === 'failed') failedIds.add(step.node_id);
+        }
+      }
+      // The failed node and everything after it run again
+      failedIds.forEach(id => findDownstream(id).forEach(staleId => resumedNodes.delete(staleId)));
+
+      if (cascadeSubmissionId) {
+        await supabase.from('company_data_submissions')
+          .update({ status: 'processing', error_message: null, processed_at: null })
+          .eq('id', cascadeSubmissionId);
+      }
+      await supabase.from('execution_runs')
+        .update({ status: 'running', error_message: null, completed_at: null })
+        .eq('id', executionRunId);
+    } else {
+      const { data: cascadeSubmission, error: cascadeSubError } = await supabase
+        .from('company_data_submissions')
+        .insert({
+          company_id: companyId,
+          source_type: 'canvas_force_run',
+          raw_data: { 
+            _trigger: startNodeId ? 'node_force_run' : 'force_run', 
+            workflow_id: workflowId,
+            start_from_node_id: startNodeId || null,
+          },
+          status: 'processing',
+          metadata: JSON.parse(JSON.stringify({
+            progress: {
+              current: 0,
+              total: sortedNodes.length,
+              current_node_label: null,
+              current_workflow_name: workflowName,
+              completed_nodes: 0,
+              failed_at_node: null,
+            }
+          }))
+        })
+        .select('id')
+        .single();
+
+      if (cascadeSubError) {
+        console.warn('[forceRunCascade] Failed to create tracking submission:', cascadeSubError);
+      }
+      cascadeSubmissionId = cascadeSubmission?.id;
+
+      // Record the cascade in run history; each node records its own step
+      const { data: executionRun, error: executionRunError } = await supabase
+        .from('execution_runs')
+        .insert({
           workflow_id: workflowId,
-          start_from_node_id: startNodeId || null,
-        },
-        status: 'processing',
-        metadata: JSON.parse(JSON.stringify({
-          progress: {
-            current: 0,
-            total: sortedNodes.length,
-            current_node_label: null,
-            current_workflow_name: workflowName,
-            completed_nodes: 0,
-            failed_at_node: null,
-          }
-        }))
-      })
-      .select('id')
-      .single();
+          company_id: companyId,
+          run_type: 'force_run',
+          trigger_type: 'manual',
+          status: 'running',
+          submission_id: cascadeSubmissionId || null,
+          input_data: { start_from_node_id: startNodeId || null },
+          started_at: new Date(runStartedAt).toISOString(),
+        })
+        .select('id')
+        .single();
 
-    if (cascadeSubError) {
-      console.warn('[forceRunCascade] Failed to create tracking submission:', cascadeSubError);
+      if (executionRunError) {
+        console.warn('[forceRunCascade] Failed to create execution run:', executionRunError);
+      }
+      executionRunId = executionRun?.id;
+      if (executionRunId && cascadeSubmissionId) {
+        await supabase.from('company_data_submissions')
+          .update({ execution_run_id: executionRunId })
+          .eq('id', cascadeSubmissionId);
+      }
     }
-    const cascadeSubmissionId = cascadeSubmission?.id;
+
+    const finishExecutionRun = async (status: 'completed' | 'failed' | 'cancelled', errorMessage: string | null = null) => {
+      if (!executionRunId) return;
+      await supabase.from('execution_runs')
+        .update({
+          status,
+          error_message: errorMessage,
+          output_data: { completed_nodes: completedNodes.length, total: sortedNodes.length },
+          completed_at: new Date().toISOString(),
+          execution_time_ms: Date.now() - runStartedAt,
+        })
+        .eq('id', executionRunId);
+    };
 
     // Initialize progress
     set({ 
@@ -2046,10 +2394,15 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
         failedNodeId: null,
         error: null,
         submissionId: cascadeSubmissionId || null,
+        executionRunId: executionRunId || null,
       }
     });
 
     const completedNodes: string[] = [];
+    // Nodes on untaken condition branches, reported back by execute-single-node
+    const skippedNodes = new Set<string>();
+    // Foreach body nodes, already run per item by their foreach node
+    const fannedOutNodes = new Set<string>();
     let failedNode: { id: string; error: string } | null = null;
 
     // Helper to update submission progress metadata
@@ -2060,73 +2413,151 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
         .eq('id', cascadeSubmissionId);
     };
 
-    try {
-      // Execute nodes in topological order
-      for (let i = 0; i < sortedNodes.length; i++) {
-        const nodeId = sortedNodes[i];
-        const node = nodes.find(n => n.id === nodeId);
-
-        // Check for cancellation before each node
-        if (cascadeSubmissionId && get().cancelledCascadeIds.has(cascadeSubmissionId)) {
-          console.log('[forceRunCascade] Cancelled by user');
-          await supabase.from('company_data_submissions')
-            .update({ status: 'failed', error_message: 'Cancelled by user', processed_at: new Date().toISOString() })
-            .eq('id', cascadeSubmissionId);
-          const cancelled = get().cancelledCascadeIds;
-          const next = new Set(cancelled);
-          next.delete(cascadeSubmissionId);
-          set({ cancelledCascadeIds: next, isForceRunning: false, cascadeProgress: null });
-          return { success: false, message: 'Cancelled by user' };
-        }
-        
-        // Skip paused nodes
-        if (node?.config?.paused === true) {
-          console.log(`[forceRunCascade] Skipping paused node: ${node.label || nodeId}`);
-          completedNodes.push(nodeId);
-          continue;
+    // Same-workflow nodes a node reads from, including non-triggering dependencies, so
+    // parallel levels never run a node before an output it reads
+    const dependenciesOf = (nodeId: string): string[] => {
+      const node = nodes.find(n => n.id === nodeId);
+      if (!node) return [];
+      const depIds: string[] = [];
+      for (const part of node.config?.promptParts || []) {
+        if (part.type === 'dependency' && (!part.workflowId || part.workflowId === workflowId)) depIds.push(part.value);
+      }
+      if (node.type === 'agent' && node.config?.sourceNodeId) depIds.push(node.config.sourceNodeId);
+      if (node.type === 'variable' && node.config?.ssotMapMode) {
+        for (const dep of node.config.ssotMapDependencies || []) {
+          if (dep.nodeId && (!dep.workflowId || dep.workflowId === workflowId)) depIds.push(dep.nodeId);
         }
-        
-        const nodeLabel = node?.label || nodeId;
+      }
+      for (const edge of edges) {
+        if (edge.to.node === nodeId && isControlEdge(edge)) depIds.push(edge.from.node);
+      }
+      return depIds;
+    };
 
-        // Update progress (local + DB)
-        set({
-          cascadeProgress: {
-            current: i,
-            total: sortedNodes.length,
-            currentNodeId: nodeId,
-            currentNodeLabel: nodeLabel,
-            currentWorkflowName: workflowName,
-            executingNodeIds: [nodeId],
-            completedNodeIds: [...completedNodes],
-            failedNodeId: null,
-            error: null,
-            submissionId: cascadeSubmissionId || null,
-          }
-        });
+    const executionSettings = resolveExecutionSettings(state.workflow.settings);
+    const executionLevels = buildExecutionLevels(sortedNodes, dependenciesOf);
+    const executingNodes: string[] = [];
+    let cancelled = false;
 
-        updateSubmissionProgress({
-          current: i,
+    const reportProgress = () => {
+      const executingLabels = executingNodes.map(id => nodes.find(n => n.id === id)?.label || id);
+      set({
+        cascadeProgress: {
+          current: completedNodes.length,
           total: sortedNodes.length,
-          current_node_label: nodeLabel,
-          current_workflow_name: workflowName,
-          completed_nodes: completedNodes.length,
-          failed_at_node: null,
-        });
-
-        console.log(`[forceRunCascade] Executing node ${i + 1}/${sortedNodes.length}: ${nodeLabel}`);
-        
-        const result = await get().executeSingleNode(nodeId);
-        
-        if (!result.success) {
-          failedNode = { id: nodeId, error: result.error || 'Unknown error' };
-          console.error(`[forceRunCascade] Node failed: ${nodeLabel} - ${result.error}`);
-          break;
+          currentNodeId: executingNodes[0] || null,
+          currentNodeLabel: executingLabels.join(', ') || null,
+          currentWorkflowName: workflowName,
+          executingNodeIds: [...executingNodes],
+          completedNodeIds: [...completedNodes],
+          failedNodeId: null,
+          error: null,
+          submissionId: cascadeSubmissionId || null,
+          executionRunId: executionRunId || null,
         }
-        
+      });
+      updateSubmissionProgress({
+        current: completedNodes.length,
+        total: sortedNodes.length,
+        current_node_label: executingLabels.join(', ') || null,
+        current_workflow_name: workflowName,
+        completed_nodes: completedNodes.length,
+        failed_at_node: null,
+      });
+    };
+
+    const runCascadeNode = async (nodeId: string) => {
+      // Nothing new starts after a failure or cancellation; nodes in flight finish
+      if (failedNode || cancelled) return;
+      if (cascadeSubmissionId && get().cancelledCascadeIds.has(cascadeSubmissionId)) {
+        cancelled = true;
+        return;
+      }
+
+      const node = nodes.find(n => n.id === nodeId);
+
+      // Resuming: keep what the run already finished
+      if (resumedNodes.has(nodeId)) {
+        completedNodes.push(nodeId);
+        return;
+      }
+
+      // Skip paused nodes
+      if (node?.config?.paused === true) {
+        console.log(`[forceRunCascade] Skipping paused node: ${node.label || nodeId}`);
+        completedNodes.push(nodeId);
+        return;
+      }
+
+      // Skip nodes on a condition branch that was not taken (already recorded server-side)
+      if (skippedNodes.has(nodeId)) {
+        console.log(`[forceRunCascade] Skipping node on untaken branch: ${node?.label || nodeId}`);
+        completedNodes.push(nodeId);
+        await get().loadNodePreview(nodeId);
+        return;
+      }
+
+      if (fannedOutNodes.has(nodeId)) {
         completedNodes.push(nodeId);
-        
-        // Refresh preview for this node
         await get().loadNodePreview(nodeId);
+        return;
+      }
+
+      const nodeLabel = node?.label || nodeId;
+      const executionOrder = sortedNodes.indexOf(nodeId);
+
+      executingNodes.push(nodeId);
+      reportProgress();
+
+      console.log(`[forceRunCascade] Executing node ${executionOrder + 1}/${sortedNodes.length}: ${nodeLabel}`);
+
+      const result = await get().executeSingleNode(
+        nodeId,
+        undefined,
+        executionRunId ? { executionRunId, executionOrder } : undefined
+      );
+      executingNodes.splice(executingNodes.indexOf(nodeId), 1);
+
+      if (!result.success) {
+        if (!failedNode) failedNode = { id: nodeId, error: result.error || 'Unknown error' };
+        console.error(`[forceRunCascade] Node failed: ${nodeLabel} - ${result.error}`);
+        return;
+      }
+
+      completedNodes.push(nodeId);
+      result.skippedNodes?.forEach(id => skippedNodes.add(id));
+      result.fanoutNodes?.forEach(id => fannedOutNodes.add(id));
+
+      // Refresh preview for this node
+      await get().loadNodePreview(nodeId);
+      if (!failedNode) reportProgress();
+    };
+
+    try {
+      // Execute nodes level by level; nodes within a level do not depend on each other
+      console.log(`[forceRunCascade] ${executionLevels.length} execution levels, up to ${executionSettings.max_parallel_nodes} nodes at once`);
+      for (const levelNodeIds of executionLevels) {
+        await runWithConcurrency(
+          levelNodeIds,
+          executionSettings.max_parallel_nodes,
+          id => nodeProvider(nodes.find(n => n.id === id)),
+          executionSettings.provider_concurrency,
+          runCascadeNode
+        );
+        if (failedNode || cancelled) break;
+      }
+
+      if (cancelled && cascadeSubmissionId) {
+        console.log('[forceRunCascade] Cancelled by user');
+        await supabase.from('company_data_submissions')
+          .update({ status: 'failed', error_message: 'Cancelled by user', processed_at: new Date().toISOString() })
+          .eq('id', cascadeSubmissionId);
+        await finishExecutionRun('cancelled', 'Cancelled by user');
+        const cancelledIds = get().cancelledCascadeIds;
+        const next = new Set(cancelledIds);
+        next.delete(cascadeSubmissionId);
+        set({ cancelledCascadeIds: next, isForceRunning: false, cascadeProgress: null });
+        return { success: false, message: 'Cancelled by user' };
       }
 
       // Final state update
@@ -2154,6 +2585,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
             })
             .eq('id', cascadeSubmissionId);
         }
+        await finishExecutionRun('failed', `Failed at "${failedLabel}": ${failedNode.error}`);
 
         set({
           isForceRunning: false,
@@ -2168,6 +2600,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
             failedNodeId: failedNode.id,
             error: failedNode.error,
             submissionId: cascadeSubmissionId || null,
+            executionRunId: executionRunId || null,
           },
         });
 
@@ -2196,15 +2629,18 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
           })
           .eq('id', cascadeSubmissionId);
       }
+      await finishExecutionRun('completed');
 
       set({
         isForceRunning: false,
         cascadeProgress: null,
       });
 
+      const skippedCount = completedNodes.filter(id => skippedNodes.has(id)).length;
       return {
         success: true,
-        message: `${workflowName}: Executed ${completedNodes.length} node(s)`
+        message: `${workflowName}: Executed ${completedNodes.length - skippedCount} node(s)` +
+          (skippedCount > 0 ? `, skipped ${skippedCount} on untaken branches` : '')
       };
 
     } catch (error) {
@@ -2219,6 +2655,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
           })
           .eq('id', cascadeSubmissionId);
       }
+      await finishExecutionRun('failed', error instanceof Error ? error.message : 'Unknown error');
 
       set({ 
         isForceRunning: false,
@@ -2231,6 +2668,29 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     }
   },
 
+  // Re-run a failed force run from its failing node, reusing the outputs it already produced
+  resumeCascade: async () => {
+    const progress = get().cascadeProgress;
+    if (!progress?.failedNodeId || !progress.executionRunId) {
+      return { success: false, message: 'There is no failed run to resume' };
+    }
+
+    const { data: run, error } = await supabase
+      .from('execution_runs')
+      .select('input_data')
+      .eq('id', progress.executionRunId)
+      .single();
+    if (error || !run) {
+      return { success: false, message: 'Run not found' };
+    }
+
+    const input = run.input_data as { start_from_node_id?: string | null } | null;
+    return get().forceRunCascade(input?.start_from_node_id || undefined, {
+      executionRunId: progress.executionRunId,
+      submissionId: progress.submissionId,
+    });
+  },
+
   // Cross-workflow system trigger with client-side orchestration
   // Fetches ALL relevant workflows, builds unified dependency graph, executes sequentially
   runSystemWorkflows: async (triggerNodeId?: string) => {
@@ -2249,6 +2709,11 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
       await get().saveWorkflow({ silent: true });
     }
 
+    const graphErrors = (await get().validateGraph()).filter(issue => issue.severity === 'error');
+    if (graphErrors.length > 0) {
+      return { success: false, message: `Fix ${graphErrors.length} graph error(s) before running: ${graphErrors[0].message}` };
+    }
+
     // Create trigger submission
     const { data: submission, error: insertError } = await supabase
       .from('company_data_submissions')
@@ -2376,6 +2841,15 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
               }
             }
           }
+
+          // Condition branch and foreach item wires (always same workflow)
+          const workflowEdges = (workflow.edges as unknown as Edge[]) || [];
+          for (const edge of workflowEdges) {
+            if (edge.to?.node !== node.id || !isControlEdge(edge)) continue;
+            if (nodeRegistry.has(`${workflow.id}:${edge.from.node}`)) {
+              crossNode.dependencies.push({ nodeId: edge.from.node, workflowId: workflow.id });
+            }
+          }
         }
       }
 
@@ -2499,10 +2973,15 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
           failedNodeId: null,
           error: null,
           submissionId: submissionId,
+          executionRunId: null,
         }
       });
 
       const completedNodes: string[] = [];
+      // "workflowId:nodeId" keys on untaken condition branches
+      const skippedKeys = new Set<string>();
+      // "workflowId:nodeId" keys of foreach body nodes, already run per item
+      const fannedOutKeys = new Set<string>();
       let failedNode: { key: string; label: string; error: string } | null = null;
 
       // === Sequential execution (one node at a time, strict ordering) ===
@@ -2513,6 +2992,21 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
         const crossNode = nodeRegistry.get(key);
         if (!crossNode) { completedNodes.push(key); continue; }
 
+        // Skip nodes on a condition branch that was not taken (already recorded server-side)
+        if (skippedKeys.has(key)) {
+          console.log(`[runSystemWorkflows] Skipping node on untaken branch: ${crossNode.workflowName} > ${crossNode.node.label || crossNode.nodeId}`);
+          completedNodes.push(key);
+          continue;
+        }
+
+        if (fannedOutKeys.has(key)) {
+          completedNodes.push(key);
+          if (crossNode.workflowId === currentWorkflowId) {
+            await get().loadNodePreview(crossNode.nodeId);
+          }
+          continue;
+        }
+
         // Check for cancellation before each node
         if (get().cancelledCascadeIds.has(submissionId)) {
           console.log('[runSystemWorkflows] Cancelled by user');
@@ -2541,6 +3035,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
             failedNodeId: null,
             error: null,
             submissionId: submissionId,
+            executionRunId: null,
           }
         });
 
@@ -2573,6 +3068,8 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
         }
 
         completedNodes.push(key);
+        result.skippedNodes?.forEach(id => skippedKeys.add(`${crossNode.workflowId}:${id}`));
+        result.fanoutNodes?.forEach(id => fannedOutKeys.add(`${crossNode.workflowId}:${id}`));
 
         // Refresh preview if this node is in the current workflow
         if (crossNode.workflowId === currentWorkflowId) {
@@ -2615,6 +3112,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
             failedNodeId: failedNode.key,
             error: failedNode.error,
             submissionId: submissionId,
+            executionRunId: null,
           }
         });
 
@@ -2798,4 +3296,124 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
       }
     }));
   },
+
+  undo: () => {
+    const state = get();
+    if (state.historyWorkflowId !== state.workflow.id) {
+      set(resetHistory(state.workflow.id));
+      return;
+    }
+    const previous = state.historyPast[state.historyPast.length - 1];
+    if (!previous) return;
+    lastHistoryCommit = null;
+    set({
+      workflow: { ...state.workflow, ...previous, unsavedChanges: true },
+      historyPast: state.historyPast.slice(0, -1),
+      historyFuture: [...state.historyFuture, historyEntryOf(state.workflow)],
+      selectedNodeIds: state.selectedNodeIds.filter(id => previous.nodes.some(n => n.id === id)),
+    });
+  },
+
+  redo: () => {
+    const state = get();
+    if (state.historyWorkflowId !== state.workflow.id) {
+      set(resetHistory(state.workflow.id));
+      return;
+    }
+    const next = state.historyFuture[state.historyFuture.length - 1];
+    if (!next) return;
+    lastHistoryCommit = null;
+    set({
+      workflow: { ...state.workflow, ...next, unsavedChanges: true },
+      historyPast: [...state.historyPast, historyEntryOf(state.workflow)],
+      historyFuture: state.historyFuture.slice(0, -1),
+      selectedNodeIds: state.selectedNodeIds.filter(id => next.nodes.some(n => n.id === id)),
+    });
+  },
+
+  // The pre-transaction graph is pushed once fn has run, and only if fn changed it, so a
+  // no-op transaction neither adds an undo step nor clears the redo stack
+  historyTransaction: (fn) => {
+    if (historyTransactionDepth > 0) {
+      fn();
+      return;
+    }
+    if (get().historyWorkflowId !== get().workflow.id) set(resetHistory(get().workflow.id));
+    const before = get().workflow;
+    historyTransactionDepth++;
+    try {
+      fn();
+    } finally {
+      historyTransactionDepth--;
+      lastHistoryCommit = null;
+      const after = get().workflow;
+      const changed = after.nodes !== before.nodes || after.edges !== before.edges || after.variables !== before.variables;
+      if (changed && after.id === before.id) {
+        set((state) => ({
+          historyPast: [...state.historyPast, historyEntryOf(before)].slice(-HISTORY_LIMIT),
+          historyFuture: [],
+        }));
+      }
+    }
+  },
+
+  // Rollback goes through save-workflow with expected_version, so a concurrent save wins
+  // and the restore is recorded as a new version rather than rewriting history
+  restoreWorkflowVersion: async (versionId: string) => {
+    const { saveCurrentWorkflow } = await import('@/hooks/useSaveOnEvent');
+    const flushed = await saveCurrentWorkflow();
+    if (!flushed.success) {
+      return { success: false, message: `Save pending changes first: ${flushed.error || 'save failed'}` };
+    }
+
+    const { workflow } = get();
+    const { data: snapshot, error: snapshotError } = await supabase
+      .from('workflow_versions')
+      .select('*')
+      .eq('id', versionId)
+      .eq('workflow_id', workflow.id)
+      .single();
+    if (snapshotError || !snapshot) {
+      return { success: false, message: 'Version not found' };
+    }
+
+    const nodes = snapshot.nodes as unknown as NodeBase[];
+    const edges = snapshot.edges as unknown as Edge[];
+    const variables = snapshot.variables as unknown as VariableDef[];
+    const settings = (snapshot.settings as unknown as WorkflowSettings | null) || workflow.settings;
+
+    const response = await supabase.functions.invoke('save-workflow', {
+      body: {
+        id: workflow.id,
+        name: workflow.name,
+        description: null,
+        nodes,
+        edges,
+        variables,
+        settings,
+        expected_version: workflow.version,
+        _source: 'user',
+        _transaction_id: `rollback-${Date.now()}`,
+        _restored_from_version: snapshot.version,
+        _identity_name: workflow._loadedIdentity?.name,
+        _identity_token: workflow._loadedIdentity?.token,
+      }
+    });
+
+    if (response.error) {
+      console.error('[restoreWorkflowVersion] Save failed:', response.error);
+      return { success: false, message: `Rollback failed: ${response.error.message}` };
+    }
+
+    get().loadWorkflow({
+      ...workflow,
+      nodes,
+      edges,
+      variables,
+      settings,
+      version: response.data.version,
+    });
+    window.dispatchEvent(new CustomEvent('workflowSaved'));
+    return { success: true, message: `Restored version ${snapshot.version} as version ${response.data.version}` };
+  },
 }));
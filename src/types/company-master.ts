@@ -106,6 +106,18 @@ export interface FieldDefinition {
   related_fields: string[] | null;
 }
 
+// One scored L2 field in a domain score breakdown (see refresh_company_domain_score)
+export interface DomainScoreContribution {
+  field_key: string;
+  display_name: string;
+  score: number | null;
+  confidence: number;
+  weight: number;
+  source: 'field' | 'rollup' | 'missing';
+  influences: Array<{ fact_key: string; fact_value: string | null; influence_type: string; selected: unknown }>;
+  children: Array<{ field_key: string; score: number | null; confidence: number | null; weight: number }>;
+}
+
 export interface CompanyDomainScore {
   id: string;
   company_id: string;
@@ -113,7 +125,7 @@ export interface CompanyDomainScore {
   score: number | null;
   confidence: number | null;
   reasoning: string | null;
-  contributing_fields: Array<{ field_key: string; score: number }> | null;
+  contributing_fields: DomainScoreContribution[] | null;
   calculated_at: string;
   created_at: string;
   updated_at: string;
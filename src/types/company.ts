@@ -10,6 +10,8 @@ export interface Company {
   plan_tier: 'free' | 'starter' | 'professional' | 'enterprise';
   rate_limit_rpm: number;
   storage_quota_mb: number;
+  monthly_token_budget: number | null;
+  monthly_cost_budget: number | null;
   settings: Record<string, unknown>;
   created_at: string;
   updated_at: string;
@@ -4,6 +4,7 @@ export interface Dataset {
   description: string | null;
   category: string;
   dependencies: DatasetDependency[];
+  auto_snapshot: boolean;
   user_id: string | null;
   created_at: string;
   updated_at: string;
@@ -23,4 +24,26 @@ export interface DatasetFormData {
   description: string;
   category: string;
   dependencies: DatasetDependency[];
+  auto_snapshot?: boolean;
+}
+
+// One dependency's output frozen in a snapshot (see build_dataset_snapshot_rows)
+export interface DatasetSnapshotRow {
+  key: string;
+  workflow_id: string;
+  node_id: string;
+  node_name: string;
+  output: unknown;
+}
+
+export interface DatasetSnapshot {
+  id: string;
+  dataset_id: string;
+  company_id: string | null;
+  version: number;
+  snapshot_data: DatasetSnapshotRow[];
+  row_count: number;
+  size_bytes: number | null;
+  created_by: string | null;
+  created_at: string;
 }
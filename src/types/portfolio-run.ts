@@ -0,0 +1,48 @@
+export type PortfolioRunStatus = 'running' | 'completed';
+
+export type PortfolioCompanyStatus = 'queued' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface PortfolioRunFilters {
+  statuses: string[] | null;
+  stale_only: boolean;
+  missing_outputs_only: boolean;
+  company_ids?: string[] | null;
+  // Stale-output refresh: only nodes built from an older config (and their downstream) re-run
+  refresh_stale?: boolean;
+}
+
+export interface PortfolioRun {
+  id: string;
+  workflow_id: string;
+  filters: PortfolioRunFilters;
+  concurrency: number;
+  force: boolean;
+  status: PortfolioRunStatus;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface PortfolioRunCompany {
+  id: string;
+  portfolio_run_id: string;
+  company_id: string;
+  status: PortfolioCompanyStatus;
+  submission_id: string | null;
+  execution_run_id: string | null;
+  error_message: string | null;
+  attempts: number;
+  cost: number;
+  started_at: string | null;
+  completed_at: string | null;
+  updated_at: string;
+}
+
+// A company that matches the portfolio filters (select_portfolio_companies)
+export interface PortfolioCandidate {
+  company_id: string;
+  company_name: string;
+  company_status: string;
+  stale: boolean;
+  missing_outputs: number;
+}
@@ -57,9 +57,23 @@ export interface VariableDef {
 
 export type DataAttributionType = 'company_data' | 'company_related_data' | 'entity_data' | 'unrelated_data';
 
+// Parallel execution limits for cascades. Independent nodes run side by side up to
+// max_parallel_nodes; provider_concurrency caps prompt nodes per model provider
+// (e.g. { google: 2 }), with a missing or 0 entry meaning no provider cap.
+export interface WorkflowExecutionSettings {
+  max_parallel_nodes: number;
+  provider_concurrency: Record<string, number>;
+}
+
+export const DEFAULT_WORKFLOW_EXECUTION_SETTINGS: WorkflowExecutionSettings = {
+  max_parallel_nodes: 4,
+  provider_concurrency: {},
+};
+
 export interface WorkflowSettings {
   data_attribution: DataAttributionType;
   assigned_entity_id?: string;
+  execution?: WorkflowExecutionSettings;
 }
 
 export const defaultWorkflowSettings: WorkflowSettings = {
@@ -141,6 +155,39 @@ export interface PromptTemplateConfig {
   // Global System Prompt reference (for node-level override)
   systemPromptId?: string;
   systemPromptName?: string;
+  // Structured output: JSON Schema the reply must conform to, inline or from a framework
+  outputSchemaSource?: OutputSchemaSource;
+  outputSchema?: string;
+  outputSchemaFrameworkId?: string;
+  outputSchemaFrameworkName?: string;
+  // Reliability: retries on the configured model, then these models in order
+  retryPolicy?: NodeRetryPolicy;
+  fallbackModels?: string[];
+}
+
+// Mirrors RetryPolicy in supabase/functions/_shared/llm.ts
+export interface NodeRetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  retryOnStatus: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: NodeRetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+};
+
+export type OutputSchemaSource = 'none' | 'inline' | 'framework';
+
+// Stored by the edge functions on company_node_data.data.schema_validation
+export interface OutputSchemaValidation {
+  valid: boolean;
+  errors: string[];
+  attempts: number;
+  repaired: boolean;
+  schema_source: 'inline' | 'framework';
+  validated_at: string;
 }
 
 export interface PromptPieceConfig {
@@ -177,6 +224,8 @@ export interface IngestField {
 export interface DatasetConfig {
   datasetId?: string;
   datasetName?: string;
+  // Pinned data_snapshots version; unset means live data
+  snapshotVersion?: number;
   source: string;
   path: string;
   sample_size: number;
@@ -260,6 +309,65 @@ export interface VariableConfig {
   ssotMapDependencies?: SSOTMapDependency[];
 }
 
+// Condition nodes route the cascade through their 'true' / 'false' output ports.
+// Nodes wired to the branch that was not taken are recorded as skipped.
+export type ConditionBranch = 'true' | 'false';
+
+export const CONDITION_BRANCH_PORTS: ConditionBranch[] = ['true', 'false'];
+
+export interface ConditionConfig {
+  expression: string;       // e.g. {{Market Analysis}}.score >= 70 && $.verdict == "go"
+  description?: string;
+  promptParts?: PromptPart[]; // Upstream dependencies the expression can reference
+  outputName?: string;
+}
+
+// Stored output of an executed condition node
+export interface ConditionOutput {
+  result: boolean;
+  branch: ConditionBranch;
+  expression: string;
+  resolved: Record<string, unknown>;
+  error?: string;
+}
+
+// Foreach nodes run the nodes wired to their 'item' port (and everything downstream of them)
+// once per item of an upstream array, then aggregate the collect node's outputs.
+export const FOREACH_ITEM_PORT = 'item';
+
+export interface ForeachConfig {
+  promptParts?: PromptPart[]; // First dependency provides the array
+  itemsPath?: string;         // JSON path to the array in the dependency output, e.g. competitors
+  concurrency?: number;       // Items processed in parallel (default 3, max 10)
+  maxItems?: number;          // Items beyond this are dropped (default 25, max 100)
+  collectNodeId?: string;     // Body node whose per-item output is aggregated (default: last body node)
+  outputName?: string;
+}
+
+// Summary stored alongside a foreach node's aggregated output
+export interface ForeachSummary {
+  item_count: number;
+  total_items: number;
+  failed_count: number;
+  collect_node_id: string;
+  body_node_ids: string[];
+}
+
+// Row of company_node_item_results
+export interface NodeItemResult {
+  foreach_node_id: string;
+  node_id: string;
+  item_index: number;
+  item: unknown;
+  output: unknown;
+  status: 'completed' | 'failed' | 'skipped';
+  error: string | null;
+  execution_time_ms: number | null;
+}
+
+// Execution status recorded on company_node_data.status
+export type NodeExecutionStatus = 'completed' | 'skipped';
+
 export interface FrameworkConfig {
   frameworkId?: string; // Reference to database framework
   name: string;
@@ -407,6 +515,7 @@ export interface NodePerformanceData {
   configuredModel?: string;     // What's configured
   lastExecutedModel?: string;   // What was actually used
   modelMismatch?: boolean;      // Config vs execution mismatch
+  servedByFallback?: boolean;   // Last generation came from one of the node's fallback models
   // For model switching analysis
   modelThreshold?: number;      // Current model's max output tokens
   // Overall
@@ -0,0 +1,462 @@
+// What a company cascade does after its nodes have run, shared by the inline runner
+// (run-company-workflows) and the job queue worker (process-job-queue):
+//   - push node outputs to their destinations (Abi, AbiVC, Master Data, SSOT Update)
+//   - find workflows in other cascades that read the nodes that just ran
+//   - record the per-company execution summary alert
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Step message of a node whose stored output was still valid and reused
+export const CACHED_STEP_MESSAGE = 'Up to date - cached output reused';
+
+interface SSOTUpdateConfig {
+  target_company_source?: 'current' | 'from_input';
+  auto_approve_l4?: boolean;
+  require_approval_create?: boolean;
+}
+
+interface OutputDestination {
+  enabled?: boolean;
+  destination_name?: string;
+  field_mapping?: { domain?: string; field_key?: string };
+  config?: SSOTUpdateConfig;
+}
+
+interface CascadeNode {
+  id: string;
+  type: string;
+  label?: string;
+  config?: {
+    outputDestinations?: OutputDestination[];
+    // Legacy destination flags
+    isAbiOutput?: boolean;
+    isAbiVCOutput?: boolean;
+    isMasterDataOutput?: boolean;
+    masterDataMapping?: { domain: string; field_key: string };
+    promptParts?: Array<{ type: string; value: string; workflowId?: string }>;
+  };
+  data?: { label?: string };
+}
+
+interface PlatformOutput {
+  node_id: string;
+  node_label: string;
+  node_type: string;
+  workflow_id: string;
+  workflow_name: string;
+  data: { output: unknown };
+  version: number;
+  updated_at: string;
+}
+
+interface MasterDataOutput {
+  node_id: string;
+  node_label: string;
+  workflow_id: string;
+  domain: string;
+  field_key: string;
+  value: unknown;
+}
+
+// AI-generated SSOT change plans
+interface SSOTUpdateOutput {
+  node_id: string;
+  node_label: string;
+  workflow_id: string;
+  output: unknown;
+  config?: SSOTUpdateConfig;
+}
+
+interface SSOTChangePlan {
+  plan_summary?: unknown;
+  validated_changes?: Array<{
+    change_id?: unknown;
+    target_path?: { l1?: unknown };
+    target_level?: unknown;
+    action?: unknown;
+    value_to_write?: unknown;
+  }>;
+  new_structure_additions?: unknown[];
+}
+
+export interface CascadeOutputs {
+  abi: PlatformOutput[];
+  abivc: PlatformOutput[];
+  masterData: MasterDataOutput[];
+  ssotUpdates: SSOTUpdateOutput[];
+}
+
+export const createCascadeOutputs = (): CascadeOutputs => ({ abi: [], abivc: [], masterData: [], ssotUpdates: [] });
+
+// Queue a freshly executed node's output for the destinations configured on the node
+export function collectOutputDestinations(
+  outputs: CascadeOutputs,
+  node: CascadeNode,
+  workflow: { id: string; name: string },
+  output: unknown,
+  version: number,
+  updatedAt: string
+) {
+  const nodeLabel = node.label || node.data?.label || node.type;
+  const platformOutput = (): PlatformOutput => ({
+    node_id: node.id,
+    node_label: nodeLabel,
+    node_type: node.type,
+    workflow_id: workflow.id,
+    workflow_name: workflow.name,
+    data: { output },
+    version,
+    updated_at: updatedAt,
+  });
+
+  // NEW FORMAT: Check unified outputDestinations array first
+  if (Array.isArray(node.config?.outputDestinations) && node.config.outputDestinations.length > 0) {
+    for (const dest of node.config.outputDestinations) {
+      if (!dest.enabled) continue;
+
+      const destName = dest.destination_name || '';
+
+      // Abi Platform
+      if (destName.includes('Abi Platform')) {
+        console.log(`[cascadePostProcessing] Node "${node.label || node.id}" -> Abi Platform (new format)`);
+        outputs.abi.push(platformOutput());
+      }
+      // AbiVC Platform
+      else if (destName.includes('AbiVC')) {
+        console.log(`[cascadePostProcessing] Node "${node.label || node.id}" -> AbiVC Platform (new format)`);
+        outputs.abivc.push(platformOutput());
+      }
+      // Master Data (SSOT)
+      else if (destName.includes('Master Data') && dest.field_mapping?.domain && dest.field_mapping?.field_key) {
+        console.log(`[cascadePostProcessing] Node "${node.label || node.id}" -> Master Data: ${dest.field_mapping.domain}.${dest.field_mapping.field_key} (new format)`);
+        outputs.masterData.push({
+          node_id: node.id,
+          node_label: nodeLabel,
+          workflow_id: workflow.id,
+          domain: dest.field_mapping.domain,
+          field_key: dest.field_mapping.field_key,
+          value: output,
+        });
+      }
+      // SSOT Update (AI-generated change plans)
+      else if (destName.includes('SSOT Update')) {
+        console.log(`[cascadePostProcessing] Node "${node.label || node.id}" -> SSOT Update (new format)`);
+        outputs.ssotUpdates.push({
+          node_id: node.id,
+          node_label: nodeLabel,
+          workflow_id: workflow.id,
+          output,
+          config: dest.config || {},
+        });
+      }
+    }
+    return;
+  }
+
+  // LEGACY FORMAT: Fall back to individual flags for backward compatibility
+  if (node.config?.isAbiOutput) {
+    console.log(`[cascadePostProcessing] Node "${node.label || node.id}" marked as Abi output (legacy)`);
+    outputs.abi.push(platformOutput());
+  }
+
+  if (node.config?.isAbiVCOutput) {
+    console.log(`[cascadePostProcessing] Node "${node.label || node.id}" marked as AbiVC output (legacy)`);
+    outputs.abivc.push(platformOutput());
+  }
+
+  if (node.config?.isMasterDataOutput && node.config?.masterDataMapping) {
+    const mapping = node.config.masterDataMapping;
+    console.log(`[cascadePostProcessing] Node "${node.label || node.id}" marked for Master Data: ${mapping.domain}.${mapping.field_key} (legacy)`);
+    outputs.masterData.push({
+      node_id: node.id,
+      node_label: nodeLabel,
+      workflow_id: workflow.id,
+      domain: mapping.domain,
+      field_key: mapping.field_key,
+      value: output,
+    });
+  }
+}
+
+// Post a batch of outputs to a sync function. Sync failures never fail the cascade.
+async function postOutputs(functionName: string, body: Record<string, unknown>) {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/${functionName}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseServiceKey}`,
+      },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+    console.log(`[cascadePostProcessing] ${functionName} result:`, result);
+  } catch (syncError) {
+    console.error(`[cascadePostProcessing] Error calling ${functionName}:`, syncError);
+  }
+}
+
+// Parse and validate an SSOT Update node's output as an SSOT_CHANGE_PLAN; null if unusable
+function parseSSOTChangePlan(ssotNode: SSOTUpdateOutput): SSOTChangePlan | null {
+  let changePlan: SSOTChangePlan | null = null;
+
+  console.log(`[cascadePostProcessing] Processing SSOT Update node "${ssotNode.node_label}"`);
+
+  if (typeof ssotNode.output === 'string') {
+    console.log(`[cascadePostProcessing] SSOT output preview: ${ssotNode.output.substring(0, 500)}...`);
+
+    // Try to extract JSON from potential markdown code blocks
+    let jsonStr = ssotNode.output.trim();
+    const jsonMatch = ssotNode.output.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (jsonMatch) {
+      jsonStr = jsonMatch[1].trim();
+    }
+
+    try {
+      changePlan = JSON.parse(jsonStr);
+    } catch (e) {
+      console.error(`[cascadePostProcessing] SSOT Update node "${ssotNode.node_label}" output is not valid JSON: ${e instanceof Error ? e.message : e}`);
+      console.error(`[cascadePostProcessing] First 200 chars of attempted parse: ${jsonStr.substring(0, 200)}`);
+    }
+  } else if (typeof ssotNode.output === 'object' && ssotNode.output !== null) {
+    changePlan = ssotNode.output as SSOTChangePlan;
+  }
+
+  if (!changePlan) {
+    console.error(`[cascadePostProcessing] SSOT Update node "${ssotNode.node_label}": Failed to parse output as JSON. The node's prompt must be configured to output valid JSON with the SSOT_CHANGE_PLAN schema.`);
+    return null;
+  }
+
+  const validationErrors: string[] = [];
+  if (!Array.isArray(changePlan.plan_summary)) {
+    validationErrors.push('Missing or invalid "plan_summary" (expected array of strings)');
+  }
+  if (!Array.isArray(changePlan.validated_changes)) {
+    if (!Array.isArray(changePlan.new_structure_additions) || changePlan.new_structure_additions.length === 0) {
+      validationErrors.push('Missing or invalid "validated_changes" or "new_structure_additions" (expected at least one array)');
+    }
+  }
+
+  if (Array.isArray(changePlan.validated_changes)) {
+    for (let i = 0; i < changePlan.validated_changes.length; i++) {
+      const change = changePlan.validated_changes[i];
+      if (!change.change_id) validationErrors.push(`validated_changes[${i}]: missing change_id`);
+      if (!change.target_path?.l1) validationErrors.push(`validated_changes[${i}]: missing target_path.l1 (domain)`);
+      if (!change.target_level) validationErrors.push(`validated_changes[${i}]: missing target_level`);
+      if (!change.action) validationErrors.push(`validated_changes[${i}]: missing action`);
+      if (change.value_to_write === undefined) validationErrors.push(`validated_changes[${i}]: missing value_to_write`);
+    }
+  }
+
+  if (validationErrors.length > 0) {
+    console.error(`[cascadePostProcessing] SSOT Update node "${ssotNode.node_label}" has invalid SSOT_CHANGE_PLAN structure:`);
+    validationErrors.forEach(err => console.error(`  - ${err}`));
+    console.error('[cascadePostProcessing] The node\'s prompt must be updated to output the correct JSON schema.');
+    return null;
+  }
+  return changePlan;
+}
+
+// Push collected outputs to Abi, AbiVC and Master Data, and execute SSOT change plans
+export async function syncCascadeOutputs(companyId: string, submissionId: string | null, outputs: CascadeOutputs) {
+  if (outputs.abi.length > 0) {
+    console.log(`[cascadePostProcessing] Syncing ${outputs.abi.length} Abi output nodes to Abi platform`);
+    await postOutputs('sync-output-to-abi', { company_id: companyId, outputs: outputs.abi });
+  }
+
+  if (outputs.abivc.length > 0) {
+    console.log(`[cascadePostProcessing] Syncing ${outputs.abivc.length} AbiVC output nodes to AbiVC platform`);
+    await postOutputs('sync-output-to-abivc', { company_id: companyId, outputs: outputs.abivc });
+  }
+
+  if (outputs.masterData.length > 0) {
+    console.log(`[cascadePostProcessing] Syncing ${outputs.masterData.length} Master Data output nodes`);
+    await postOutputs('sync-to-master-data', { company_id: companyId, outputs: outputs.masterData });
+  }
+
+  for (const ssotNode of outputs.ssotUpdates) {
+    const changePlan = parseSSOTChangePlan(ssotNode);
+    if (!changePlan) continue;
+
+    console.log(`[cascadePostProcessing] Executing SSOT Change Plan from node "${ssotNode.node_label}": ${changePlan.validated_changes?.length || 0} changes, ${changePlan.new_structure_additions?.length || 0} additions`);
+    await postOutputs('execute-ssot-changes', {
+      company_id: companyId,
+      workflow_id: ssotNode.workflow_id,
+      node_id: ssotNode.node_id,
+      execution_run_id: submissionId, // Use submission ID as execution context
+      plan: changePlan,
+      config: ssotNode.config,
+    });
+  }
+}
+
+// Company-relevant workflows, other than the excluded ones, with a prompt dependency on
+// one of the executed nodes
+export async function findDependentWorkflows(
+  supabase: SupabaseClient,
+  executedNodes: Array<{ workflowId: string; nodeId: string }>,
+  excludeWorkflowIds: Set<string>
+): Promise<Array<{ id: string; name: string }>> {
+  if (executedNodes.length === 0) return [];
+
+  const { data: allWorkflows } = await supabase
+    .from('workflows')
+    .select('id, name, nodes, settings');
+
+  const dependents: Array<{ id: string; name: string }> = [];
+  for (const targetWorkflow of (allWorkflows || []) as Array<{ id: string; name: string; nodes: CascadeNode[] | null; settings: unknown }>) {
+    if (excludeWorkflowIds.has(targetWorkflow.id)) continue;
+
+    // Only workflows with company-relevant data attribution
+    const settings = targetWorkflow.settings as { data_attribution?: string } | null;
+    const attribution = settings?.data_attribution || 'company_data';
+    if (attribution !== 'company_data' && attribution !== 'company_related_data') continue;
+
+    const hasCrossWorkflowDep = (targetWorkflow.nodes || []).some(node =>
+      (node.config?.promptParts || []).some(p =>
+        p.type === 'dependency' &&
+        p.workflowId &&
+        executedNodes.some(exec => exec.workflowId === p.workflowId && exec.nodeId === p.value)
+      )
+    );
+    if (hasCrossWorkflowDep) dependents.push({ id: targetWorkflow.id, name: targetWorkflow.name });
+  }
+  return dependents;
+}
+
+// One workflow's part of a company cascade, as reported in the summary
+export interface WorkflowRunResult {
+  workflow_id: string;
+  workflow_name: string;
+  status: string;
+  message?: string;
+  executed?: string[];
+  cached?: string[];
+  skipped?: string[];
+}
+
+export interface ExecutionSummary {
+  totalWorkflows: number;
+  executedWorkflows: number;
+  cachedWorkflows: number;
+  skippedWorkflows: number;
+  totalNodes: number;
+  executedNodes: number;
+  cachedNodes: number;
+  pausedNodes: number;
+  skippedNodes: number;
+  emptyOutputs: number;
+  issues: Array<{ type: string; node_id?: string; node_label?: string; workflow_id?: string; workflow_name?: string; message: string }>;
+}
+
+// Aggregate a company cascade for monitoring and upsert its execution summary alert
+export async function upsertExecutionSummaryAlert(
+  supabase: SupabaseClient,
+  companyId: string,
+  workflowResults: WorkflowRunResult[],
+  counts: { totalWorkflows: number; pausedNodes: number }
+): Promise<ExecutionSummary> {
+  const executionSummary: ExecutionSummary = {
+    totalWorkflows: counts.totalWorkflows,
+    executedWorkflows: workflowResults.filter(w => w.status === 'completed').length,
+    cachedWorkflows: workflowResults.filter(w => w.status === 'cached').length,
+    skippedWorkflows: workflowResults.filter(w => w.status === 'skipped' || !w.status).length,
+    totalNodes: 0,
+    executedNodes: 0,
+    cachedNodes: 0,
+    pausedNodes: counts.pausedNodes,
+    skippedNodes: 0,
+    emptyOutputs: 0,
+    issues: [],
+  };
+
+  for (const wr of workflowResults) {
+    if (wr.executed) executionSummary.executedNodes += wr.executed.length;
+    if (wr.cached) executionSummary.cachedNodes += wr.cached.length;
+    if (wr.skipped) executionSummary.skippedNodes += wr.skipped.length;
+    executionSummary.totalNodes += (wr.executed?.length || 0) + (wr.cached?.length || 0) + (wr.skipped?.length || 0);
+  }
+
+  // Check for empty outputs across the cascade's workflows
+  if (workflowResults.length > 0) {
+    const { data: nodeDataRecords } = await supabase
+      .from('company_node_data')
+      .select('node_id, node_label, workflow_id, data')
+      .eq('company_id', companyId)
+      .eq('status', 'completed')
+      .in('workflow_id', workflowResults.map(w => w.workflow_id));
+
+    for (const record of (nodeDataRecords || []) as Array<{ node_id: string; node_label: string | null; workflow_id: string; data: { output?: unknown } | null }>) {
+      const output = record.data?.output;
+      const isEmpty = output === null || output === undefined || output === '' ||
+        (typeof output === 'object' && Object.keys(output).length === 0);
+
+      if (isEmpty) {
+        executionSummary.emptyOutputs++;
+        executionSummary.issues.push({
+          type: 'empty_output',
+          node_id: record.node_id,
+          node_label: record.node_label || undefined,
+          workflow_id: record.workflow_id,
+          message: `Node "${record.node_label || record.node_id}" has empty output`
+        });
+      }
+    }
+  }
+
+  // Workflow-level issues
+  for (const wr of workflowResults) {
+    if (wr.status === 'cached') {
+      executionSummary.issues.push({
+        type: 'workflow_cached',
+        workflow_id: wr.workflow_id,
+        workflow_name: wr.workflow_name,
+        message: `Workflow "${wr.workflow_name}" was cached (data unchanged)`
+      });
+    }
+    if (wr.message?.includes('no source node') || wr.message?.includes('No source')) {
+      executionSummary.issues.push({
+        type: 'no_source',
+        workflow_id: wr.workflow_id,
+        workflow_name: wr.workflow_name,
+        message: `Workflow "${wr.workflow_name}" has no source node`
+      });
+    }
+  }
+
+  // Only alert when there were workflows to process
+  if (executionSummary.totalWorkflows > 0) {
+    const { data: companyData } = await supabase
+      .from('companies')
+      .select('name')
+      .eq('id', companyId)
+      .single();
+    const companyName = (companyData as { name?: string } | null)?.name || 'Unknown Company';
+
+    try {
+      await supabase.rpc('upsert_execution_summary_alert', {
+        _company_id: companyId,
+        _company_name: companyName,
+        _workflow_ids: workflowResults.map(w => w.workflow_id),
+        _total_workflows: executionSummary.totalWorkflows,
+        _executed_workflows: executionSummary.executedWorkflows,
+        _skipped_workflows: executionSummary.skippedWorkflows,
+        _total_nodes: executionSummary.totalNodes,
+        _executed_nodes: executionSummary.executedNodes,
+        _cached_nodes: executionSummary.cachedNodes,
+        _paused_nodes: executionSummary.pausedNodes,
+        _empty_outputs: executionSummary.emptyOutputs,
+        _issues: executionSummary.issues
+      });
+      console.log(`[cascadePostProcessing] Created execution summary alert for ${companyName}`);
+    } catch (alertErr) {
+      console.error('[cascadePostProcessing] Failed to create execution summary alert:', alertErr);
+    }
+  }
+
+  return executionSummary;
+}
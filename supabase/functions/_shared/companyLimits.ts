@@ -0,0 +1,82 @@
+// Per-company request rate limit (companies.rate_limit_rpm) and monthly AI budget, checked by
+// the functions external callers reach (ingest-data, get-company-output, abicore-platform-api,
+// run-company-workflows). Both checks fail open so a limiter problem never takes the API down.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number | null;
+  remaining: number | null;
+  retry_after: number;
+}
+
+export interface BudgetStatus {
+  allowed: boolean;
+  period: string;
+  reset_at: string;
+  tokens_used: number;
+  token_budget: number | null;
+  tokens_remaining: number | null;
+  cost_used: number;
+  cost_budget: number | null;
+  cost_remaining: number | null;
+}
+
+// null when the check itself fails
+export async function checkCompanyRateLimit(supabase: SupabaseClient, companyId: string): Promise<RateLimitResult | null> {
+  const { data, error } = await supabase.rpc('check_company_rate_limit', { _company_id: companyId });
+  if (error) {
+    console.error('[companyLimits] Rate limit check failed:', error);
+    return null;
+  }
+  return data as RateLimitResult;
+}
+
+// This month's AI usage against the company's token/cost budgets; null when the check itself fails
+export async function checkCompanyBudget(supabase: SupabaseClient, companyId: string): Promise<BudgetStatus | null> {
+  const { data, error } = await supabase.rpc('check_company_budget', { _company_id: companyId });
+  if (error) {
+    console.error('[companyLimits] Budget check failed:', error);
+    return null;
+  }
+  return data as BudgetStatus;
+}
+
+// Seconds until the budget period resets
+export const budgetRetryAfter = (budget: BudgetStatus): number =>
+  Math.max(Math.ceil((new Date(budget.reset_at).getTime() - Date.now()) / 1000), 1);
+
+const limitResponse = (body: Record<string, unknown>, retryAfter: number, corsHeaders: Record<string, string>) =>
+  new Response(JSON.stringify({ success: false, ...body, retry_after: retryAfter }), {
+    status: 429,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) },
+  });
+
+export const rateLimitExceededResponse = (result: RateLimitResult, corsHeaders: Record<string, string>): Response =>
+  limitResponse({ error: 'Rate limit exceeded', code: 'RATE_LIMIT_EXCEEDED', limit: result.limit, remaining: 0 }, result.retry_after, corsHeaders);
+
+export const budgetExceededResponse = (budget: BudgetStatus, corsHeaders: Record<string, string>): Response =>
+  limitResponse({ error: 'Monthly AI budget exceeded', code: 'BUDGET_EXCEEDED', budget }, budgetRetryAfter(budget), corsHeaders);
+
+// Structured 429 when the company is over its per-minute limit; null when the request may proceed
+export async function enforceRateLimit(
+  supabase: SupabaseClient,
+  companyId: string,
+  corsHeaders: Record<string, string>
+): Promise<Response | null> {
+  const result = await checkCompanyRateLimit(supabase, companyId);
+  return result && !result.allowed ? rateLimitExceededResponse(result, corsHeaders) : null;
+}
+
+// Structured 429 when the company has used up this month's AI token or cost budget
+export async function enforceBudget(
+  supabase: SupabaseClient,
+  companyId: string,
+  corsHeaders: Record<string, string>
+): Promise<Response | null> {
+  const budget = await checkCompanyBudget(supabase, companyId);
+  return budget && !budget.allowed ? budgetExceededResponse(budget, corsHeaders) : null;
+}
@@ -0,0 +1,255 @@
+// Condition node expressions, shared by the functions that run condition nodes
+// (execute-single-node, run-company-workflows, execute-workflow).
+// Mirrors src/lib/conditionExpression.ts - keep the grammar in sync.
+// {{Label}} references a dependency by label/output name, $ is the first dependency,
+// followed by an optional JSON path. Supports == != > >= < <= contains, && || !, and/or/not.
+
+export const CONDITION_BRANCH_PORTS = ['true', 'false'];
+
+// Only the wiring a branch lookup needs
+interface ConditionEdge {
+  from: { node: string; port: string };
+  to: { node: string };
+}
+
+type ConditionToken = { kind: string; value?: unknown; name?: string | null; path?: string };
+
+const readConditionPath = (input: string, start: number): { path: string; end: number } => {
+  let i = start;
+  let path = '';
+  while (i < input.length) {
+    if (input[i] === '.' && /[A-Za-z_]/.test(input[i + 1] || '')) {
+      let j = i + 1;
+      while (j < input.length && /[A-Za-z0-9_-]/.test(input[j])) j++;
+      path += (path ? '.' : '') + input.slice(i + 1, j);
+      i = j;
+    } else if (input[i] === '[') {
+      const close = input.indexOf(']', i);
+      if (close === -1 || !/^\d+$/.test(input.slice(i + 1, close))) {
+        throw new Error(`Invalid array index at position ${i}`);
+      }
+      path += input.slice(i, close + 1);
+      i = close + 1;
+    } else {
+      break;
+    }
+  }
+  return { path, end: i };
+};
+
+const tokenizeCondition = (input: string): ConditionToken[] => {
+  const tokens: ConditionToken[] = [];
+  const wordOps: Record<string, string> = { and: '&&', or: '||', not: '!', contains: 'contains' };
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (input.startsWith('{{', i)) {
+      const close = input.indexOf('}}', i + 2);
+      if (close === -1) throw new Error(`Unclosed reference at position ${i}`);
+      const name = input.slice(i + 2, close).trim();
+      if (!name) throw new Error(`Empty reference at position ${i}`);
+      const { path, end } = readConditionPath(input, close + 2);
+      tokens.push({ kind: 'ref', name, path });
+      i = end;
+      continue;
+    }
+    if (ch === '$') {
+      const { path, end } = readConditionPath(input, i + 1);
+      tokens.push({ kind: 'ref', name: null, path });
+      i = end;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      let value = '';
+      while (j < input.length && input[j] !== ch) {
+        if (input[j] === '\\' && j + 1 < input.length) { value += input[j + 1]; j += 2; }
+        else { value += input[j]; j++; }
+      }
+      if (j >= input.length) throw new Error(`Unclosed string at position ${i}`);
+      tokens.push({ kind: 'string', value });
+      i = j + 1;
+      continue;
+    }
+    const numberMatch = input.slice(i).match(/^-?\d+(\.\d+)?/);
+    const prev = tokens[tokens.length - 1];
+    if (numberMatch && (ch !== '-' || !prev || prev.kind === 'op' || prev.kind === 'paren')) {
+      tokens.push({ kind: 'number', value: parseFloat(numberMatch[0]) });
+      i += numberMatch[0].length;
+      continue;
+    }
+    if (ch === '(' || ch === ')') { tokens.push({ kind: 'paren', value: ch }); i++; continue; }
+    const symbol = ['&&', '||', '==', '!=', '>=', '<=', '>', '<', '!'].find(op => input.startsWith(op, i));
+    if (symbol) { tokens.push({ kind: 'op', value: symbol }); i += symbol.length; continue; }
+    const wordMatch = input.slice(i).match(/^[A-Za-z_]+/);
+    if (wordMatch) {
+      const word = wordMatch[0].toLowerCase();
+      if (word === 'true' || word === 'false') tokens.push({ kind: 'literal', value: word === 'true' });
+      else if (word === 'null') tokens.push({ kind: 'literal', value: null });
+      else if (wordOps[word]) tokens.push({ kind: 'op', value: wordOps[word] });
+      else throw new Error(`Unknown word "${wordMatch[0]}" - wrap text in quotes or node names in {{ }}`);
+      i += wordMatch[0].length;
+      continue;
+    }
+    throw new Error(`Unexpected character "${ch}" at position ${i}`);
+  }
+  return tokens;
+};
+
+export const parseConditionOutput = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  let jsonStr = value.trim();
+  const codeBlockMatch = jsonStr.match(/^```(?:json)?\s*([\s\S]*?)```$/);
+  if (codeBlockMatch) jsonStr = codeBlockMatch[1].trim();
+  if (!jsonStr.startsWith('{') && !jsonStr.startsWith('[')) return value;
+  try { return JSON.parse(jsonStr); } catch { return value; }
+};
+
+export const resolveConditionPath = (value: unknown, path: string): unknown => {
+  let current = parseConditionOutput(value);
+  if (!path) return current;
+  for (const segment of path.split('.')) {
+    const arrayMatch = segment.match(/^([^[]*)((?:\[\d+\])+)$/);
+    const key = arrayMatch ? arrayMatch[1] : segment;
+    if (key) {
+      if (current === null || typeof current !== 'object') return undefined;
+      current = parseConditionOutput((current as Record<string, unknown>)[key]);
+    }
+    if (arrayMatch) {
+      for (const index of arrayMatch[2].match(/\d+/g) || []) {
+        if (!Array.isArray(current)) return undefined;
+        current = parseConditionOutput(current[parseInt(index, 10)]);
+      }
+    }
+  }
+  return current;
+};
+
+const isConditionTruthy = (value: unknown): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim() !== '' && value.trim().toLowerCase() !== 'false';
+  return Boolean(value);
+};
+
+const compareConditionValues = (op: string, left: unknown, right: unknown): boolean => {
+  if (op === 'contains') {
+    if (Array.isArray(left)) return left.some(item => compareConditionValues('==', item, right));
+    if (typeof left === 'string') return left.toLowerCase().includes(String(right ?? '').toLowerCase());
+    if (left && typeof left === 'object') return Object.prototype.hasOwnProperty.call(left, String(right));
+    return false;
+  }
+  const toNumber = (v: unknown): number | null => {
+    if (typeof v === 'number') return Number.isFinite(v) ? v : null;
+    if (typeof v === 'string' && v.trim() !== '' && Number.isFinite(Number(v))) return Number(v);
+    return null;
+  };
+  const l = toNumber(left);
+  const r = toNumber(right);
+  if (l !== null && r !== null) {
+    switch (op) {
+      case '==': return l === r;
+      case '!=': return l !== r;
+      case '>': return l > r;
+      case '>=': return l >= r;
+      case '<': return l < r;
+      case '<=': return l <= r;
+    }
+  }
+  switch (op) {
+    case '==':
+      if (typeof left === 'string' && typeof right === 'string') return left.trim().toLowerCase() === right.trim().toLowerCase();
+      return JSON.stringify(left ?? null) === JSON.stringify(right ?? null);
+    case '!=': return !compareConditionValues('==', left, right);
+    // Ordering comparisons only apply to numbers
+    case '>': case '>=': case '<': case '<=': return false;
+    default: throw new Error(`Unknown operator "${op}"`);
+  }
+};
+
+// Parse and evaluate in one pass; resolveRef returns the raw upstream output for a reference
+export const evaluateConditionExpression = (
+  input: string,
+  resolveRef: (name: string | null) => unknown
+): { result: boolean; resolved: Record<string, unknown> } => {
+  const tokens = tokenizeCondition(input);
+  if (tokens.length === 0) throw new Error('Expression is empty');
+  const resolved: Record<string, unknown> = {};
+  let pos = 0;
+  const isOp = (value: string) => tokens[pos]?.kind === 'op' && tokens[pos].value === value;
+
+  // Each parse step returns a thunk so && / || short-circuit like the UI evaluator
+  const parseOr = (): () => unknown => {
+    let left = parseAnd();
+    while (isOp('||')) {
+      pos++;
+      const l = left, r = parseAnd();
+      left = () => isConditionTruthy(l()) || isConditionTruthy(r());
+    }
+    return left;
+  };
+  const parseAnd = (): () => unknown => {
+    let left = parseNot();
+    while (isOp('&&')) {
+      pos++;
+      const l = left, r = parseNot();
+      left = () => isConditionTruthy(l()) && isConditionTruthy(r());
+    }
+    return left;
+  };
+  const parseNot = (): () => unknown => {
+    if (isOp('!')) {
+      pos++;
+      const operand = parseNot();
+      return () => !isConditionTruthy(operand());
+    }
+    const left = parseValue();
+    const token = tokens[pos];
+    if (token?.kind === 'op' && ['==', '!=', '>=', '<=', '>', '<', 'contains'].includes(token.value as string)) {
+      pos++;
+      const right = parseValue();
+      return () => compareConditionValues(token.value as string, left(), right());
+    }
+    return left;
+  };
+  const parseValue = (): () => unknown => {
+    const token = tokens[pos++];
+    if (!token) throw new Error('Unexpected end of expression');
+    if (token.kind === 'number' || token.kind === 'string' || token.kind === 'literal') return () => token.value;
+    if (token.kind === 'ref') {
+      return () => {
+        const value = resolveConditionPath(resolveRef(token.name ?? null), token.path || '');
+        const key = `${token.name === null ? '$' : `{{${token.name}}}`}${token.path ? `.${token.path}`.replace('.[', '[') : ''}`;
+        resolved[key] = value;
+        return value;
+      };
+    }
+    if (token.kind === 'paren' && token.value === '(') {
+      const inner = parseOr();
+      const close = tokens[pos++];
+      if (!close || close.kind !== 'paren' || close.value !== ')') throw new Error('Missing ")"');
+      return inner;
+    }
+    throw new Error(`Unexpected token "${token.value}"`);
+  };
+
+  const evaluate = parseOr();
+  if (pos < tokens.length) throw new Error('Unexpected input after end of expression');
+  return { result: isConditionTruthy(evaluate()), resolved };
+};
+
+// Branch a condition node took, read from its stored output (null when it errored)
+export const getConditionBranch = (output: unknown): 'true' | 'false' | null => {
+  const parsed = parseConditionOutput(output) as { branch?: unknown; error?: unknown } | null;
+  if (parsed && typeof parsed === 'object' && (parsed.branch === 'true' || parsed.branch === 'false') && !parsed.error) {
+    return parsed.branch;
+  }
+  return null;
+};
+
+// Nodes wired to a condition node's output port
+export const getConditionBranchTargets = (conditionNodeId: string, edges: ConditionEdge[], branch: string): string[] => {
+  return edges
+    .filter(e => e.from?.node === conditionNodeId && e.from?.port === branch)
+    .map(e => e.to.node);
+};
@@ -0,0 +1,82 @@
+// Cascade cost limits: hard USD limits from app_settings.cost_budget_settings, checked before
+// each AI call of a cascade, inline (run-company-workflows) or queued (execute-single-node).
+// A call that would cross a limit pauses the cascade as budget_paused until an admin approves it.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// null means no limit
+export interface CostBudgetSettings {
+  enabled?: boolean;
+  per_run_usd?: number | null;
+  per_company_daily_usd?: number | null;
+  daily_usd?: number | null;
+}
+
+export interface CostLimitBreach {
+  limit: 'per_run' | 'per_company_daily' | 'daily';
+  limit_usd: number;
+  spent_usd: number;
+  estimated_usd: number;
+}
+
+const COST_LIMIT_LABELS: Record<CostLimitBreach['limit'], string> = {
+  per_run: 'per-run',
+  per_company_daily: 'per-company daily',
+  daily: 'daily',
+};
+
+// Rough prompt size estimate, used before the call when the real usage is not known yet
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export async function loadCostBudgetSettings(supabase: SupabaseClient): Promise<CostBudgetSettings> {
+  const { data } = await supabase
+    .from('app_settings')
+    .select('cost_budget_settings')
+    .limit(1)
+    .maybeSingle();
+  return (data?.cost_budget_settings as CostBudgetSettings | null) || { enabled: false };
+}
+
+// The limit the next AI call would cross, if any; null when limits are off or the check fails.
+// reservedUsd is the estimated cost of calls already in flight, which are not logged yet.
+export async function checkCascadeCostLimits(
+  supabase: SupabaseClient,
+  settings: CostBudgetSettings,
+  companyId: string,
+  cascadeStartedAt: number,
+  estimatedCost: number,
+  reservedUsd: number = 0
+): Promise<CostLimitBreach | null> {
+  if (!settings.enabled) return null;
+
+  const { data, error } = await supabase.rpc('get_cascade_spend', {
+    _company_id: companyId,
+    _run_started_at: new Date(cascadeStartedAt).toISOString(),
+  });
+  if (error || !data) {
+    console.error('[costLimits] Cascade spend check failed:', error);
+    return null;
+  }
+
+  const spend = data as { run_cost: number; company_daily_cost: number; daily_cost: number };
+  const limits: Array<[CostLimitBreach['limit'], number | null | undefined, number]> = [
+    ['per_run', settings.per_run_usd, spend.run_cost],
+    ['per_company_daily', settings.per_company_daily_usd, spend.company_daily_cost],
+    ['daily', settings.daily_usd, spend.daily_cost],
+  ];
+  for (const [limit, limitUsd, spent] of limits) {
+    if (limitUsd === null || limitUsd === undefined) continue;
+    if (Number(spent) + reservedUsd + estimatedCost > Number(limitUsd)) {
+      return { limit, limit_usd: Number(limitUsd), spent_usd: Number(spent) + reservedUsd, estimated_usd: estimatedCost };
+    }
+  }
+  return null;
+}
+
+export const describeCostBreach = (breach: CostLimitBreach): string =>
+  `The ${COST_LIMIT_LABELS[breach.limit]} cost limit of $${breach.limit_usd.toFixed(2)} would be exceeded ` +
+  `($${breach.spent_usd.toFixed(4)} spent, next call ~$${breach.estimated_usd.toFixed(4)})`;
@@ -0,0 +1,258 @@
+// Static checks of a workflow graph, run before a cascade so runs started outside the editor
+// (ingest, webhooks, schedules, portfolio runs) are blocked on the same errors as the
+// Validate button. Mirrors the graph checks of src/lib/graphValidation.ts - keep them in sync.
+// Model and SSOT path checks stay in the app: they need its model registry and stored outputs.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export type GraphIssueSeverity = 'error' | 'warning';
+
+export type GraphIssueCode =
+  | 'cycle'
+  | 'dangling_dependency'
+  | 'dangling_edge'
+  | 'port_kind_mismatch';
+
+export interface GraphValidationIssue {
+  severity: GraphIssueSeverity;
+  code: GraphIssueCode;
+  message: string;
+  nodeIds: string[];
+}
+
+// Only the parts of nodes and wires the checks read
+interface GraphNode {
+  id: string;
+  type: string;
+  label?: string;
+  config?: {
+    promptParts?: Array<{ type: string; value: string; workflowId?: string; nodeLabel?: string; triggersExecution?: boolean }>;
+    sourceNodeId?: string;
+    sourceNodeLabel?: string;
+    ssotMapMode?: boolean;
+    ssotMapDependencies?: Array<{ nodeId?: string; workflowId?: string; nodeLabel?: string }>;
+  };
+  ports?: Array<{ id: string; kind?: string }>;
+}
+
+interface GraphEdge {
+  from: { node: string; port: string };
+  to: { node: string; port: string };
+}
+
+export interface GraphValidationInput {
+  workflowId: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  // The other workflows; null when they could not be loaded, which skips cross-workflow checks
+  otherWorkflows: Array<{ id: string; name: string; nodes: GraphNode[]; edges?: GraphEdge[] }> | null;
+}
+
+// Wires leaving a condition node's true/false ports or a foreach node's item port are real
+// dependencies, unlike other wires
+const CONTROL_EDGE_PORTS = ['true', 'false', 'item'];
+
+const isControlEdge = (edge: GraphEdge): boolean => CONTROL_EDGE_PORTS.includes(edge.from?.port);
+
+const nodeKey = (workflowId: string, nodeId: string) => `${workflowId}:${nodeId}`;
+
+interface NodeReference {
+  workflowId: string;
+  nodeId: string;
+  // Orders execution (a non-triggering dependency only reads the stored output)
+  triggering: boolean;
+  viaWire: boolean;
+  label?: string;
+}
+
+// Same upstream references the cascade resolves: prompt part dependencies, agent source,
+// SSOT map sources and control wires
+const nodeReferences = (node: GraphNode, workflowId: string, edges: GraphEdge[]): NodeReference[] => {
+  const refs: NodeReference[] = [];
+  for (const part of node.config?.promptParts || []) {
+    if (part.type !== 'dependency' || !part.value) continue;
+    refs.push({
+      workflowId: part.workflowId || workflowId,
+      nodeId: part.value,
+      triggering: part.triggersExecution !== false,
+      viaWire: false,
+      label: part.nodeLabel,
+    });
+  }
+  if (node.type === 'agent' && node.config?.sourceNodeId) {
+    refs.push({ workflowId, nodeId: node.config.sourceNodeId, triggering: true, viaWire: false, label: node.config.sourceNodeLabel });
+  }
+  if (node.type === 'variable' && node.config?.ssotMapMode) {
+    for (const dep of node.config.ssotMapDependencies || []) {
+      if (dep.nodeId) refs.push({ workflowId: dep.workflowId || workflowId, nodeId: dep.nodeId, triggering: true, viaWire: false, label: dep.nodeLabel });
+    }
+  }
+  for (const edge of edges) {
+    if (edge.to?.node === node.id && isControlEdge(edge)) {
+      refs.push({ workflowId, nodeId: edge.from.node, triggering: true, viaWire: true });
+    }
+  }
+  return refs;
+};
+
+// Strongly connected components (Tarjan) with more than one node or a self-reference
+const findCycles = (graph: Map<string, Set<string>>): string[][] => {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (key: string) => {
+    index.set(key, counter);
+    lowLink.set(key, counter);
+    counter++;
+    stack.push(key);
+    onStack.add(key);
+    for (const next of graph.get(key) || []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(key, Math.min(lowLink.get(key)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(key, Math.min(lowLink.get(key)!, index.get(next)!));
+      }
+    }
+    if (lowLink.get(key) === index.get(key)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== key);
+      if (component.length > 1 || graph.get(key)?.has(key)) cycles.push(component.reverse());
+    }
+  };
+
+  for (const key of graph.keys()) {
+    if (!index.has(key)) visit(key);
+  }
+  return cycles;
+};
+
+export function validateWorkflowGraph(input: GraphValidationInput): GraphValidationIssue[] {
+  const { workflowId, nodes, edges, otherWorkflows } = input;
+  const issues: GraphValidationIssue[] = [];
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+
+  const workflows = new Map<string, { name: string; nodes: Map<string, GraphNode>; edges: GraphEdge[] }>();
+  workflows.set(workflowId, { name: 'this workflow', nodes: nodeMap, edges });
+  for (const other of otherWorkflows || []) {
+    if (other.id === workflowId) continue;
+    workflows.set(other.id, { name: other.name, nodes: new Map((other.nodes || []).map(n => [n.id, n])), edges: other.edges || [] });
+  }
+  const describe = (key: string) => {
+    const separator = key.indexOf(':');
+    const wfId = key.slice(0, separator);
+    const nodeId = key.slice(separator + 1);
+    const wf = workflows.get(wfId);
+    const label = wf?.nodes.get(nodeId)?.label || nodeId;
+    return wfId === workflowId ? `"${label}"` : `"${label}" (${wf?.name || wfId})`;
+  };
+
+  // Dangling references (wires are checked below)
+  for (const node of nodes) {
+    for (const ref of nodeReferences(node, workflowId, edges)) {
+      if (ref.viaWire) continue;
+      const crossWorkflow = ref.workflowId !== workflowId;
+      if (crossWorkflow && !otherWorkflows) continue;
+      const target = workflows.get(ref.workflowId);
+      if (!target) {
+        issues.push({
+          severity: 'error',
+          code: 'dangling_dependency',
+          message: `"${node.label}" depends on "${ref.label || ref.nodeId}" in a workflow that no longer exists`,
+          nodeIds: [node.id],
+        });
+      } else if (!target.nodes.has(ref.nodeId)) {
+        issues.push({
+          severity: 'error',
+          code: 'dangling_dependency',
+          message: `"${node.label}" depends on "${ref.label || ref.nodeId}"${crossWorkflow ? ` in ${target.name}` : ''}, which has been deleted`,
+          nodeIds: [node.id],
+        });
+      }
+    }
+  }
+
+  // Wires: both ends must exist and connect ports of the same kind
+  for (const edge of edges) {
+    const from = nodeMap.get(edge.from?.node);
+    const to = nodeMap.get(edge.to?.node);
+    if (!from || !to) {
+      const ends = [from && `from "${from.label}"`, to && `to "${to.label}"`].filter(Boolean).join(' ');
+      issues.push({
+        severity: 'warning',
+        code: 'dangling_edge',
+        message: `A wire ${ends ? `${ends} ` : ''}points to a deleted node`,
+        nodeIds: [from?.id, to?.id].filter((id): id is string => !!id),
+      });
+      continue;
+    }
+    const fromPort = from.ports?.find(p => p.id === edge.from.port);
+    const toPort = to.ports?.find(p => p.id === edge.to.port);
+    if (fromPort && toPort && fromPort.kind !== toPort.kind) {
+      issues.push({
+        severity: 'error',
+        code: 'port_kind_mismatch',
+        message: `Wire from "${from.label}" (${fromPort.kind}) to "${to.label}" (${toPort.kind}) connects ports of different kinds`,
+        nodeIds: [from.id, to.id],
+      });
+    }
+  }
+
+  // Cycles through references that order execution, within and across workflows
+  const graph = new Map<string, Set<string>>();
+  for (const [wfId, wf] of workflows) {
+    for (const node of wf.nodes.values()) {
+      const upstream = new Set<string>();
+      for (const ref of nodeReferences(node, wfId, wf.edges)) {
+        if (ref.triggering && workflows.get(ref.workflowId)?.nodes.has(ref.nodeId)) upstream.add(nodeKey(ref.workflowId, ref.nodeId));
+      }
+      graph.set(nodeKey(wfId, node.id), upstream);
+    }
+  }
+  for (const cycle of findCycles(graph)) {
+    const localIds = cycle.filter(key => key.startsWith(`${workflowId}:`)).map(key => key.slice(workflowId.length + 1));
+    if (localIds.length === 0) continue;
+    const acrossWorkflows = localIds.length < cycle.length;
+    const members = cycle.length === 1
+      ? `${describe(cycle[0])} depends on itself`
+      : `${cycle.map(describe).join(', ')} depend on each other`;
+    issues.push({
+      severity: 'error',
+      code: 'cycle',
+      message: `Dependency cycle${acrossWorkflows ? ' across workflows' : ''}: ${members}. Make one of the dependencies non-triggering to break it`,
+      nodeIds: localIds,
+    });
+  }
+
+  return issues;
+}
+
+// Other workflows for the cross-workflow checks; null when they could not be loaded
+export async function loadOtherWorkflows(supabase: SupabaseClient): Promise<GraphValidationInput['otherWorkflows']> {
+  const { data, error } = await supabase.from('workflows').select('id, name, nodes, edges');
+  if (error) {
+    console.error('[graphValidation] Failed to load workflows:', error);
+    return null;
+  }
+  return ((data || []) as Array<{ id: string; name: string; nodes: GraphNode[] | null; edges: GraphEdge[] | null }>).map(w => ({
+    id: w.id,
+    name: w.name,
+    nodes: w.nodes || [],
+    edges: w.edges || [],
+  }));
+}
+
+// Error messages that block a run of the workflow; empty when it may run
+export const getGraphErrors = (input: GraphValidationInput): string[] =>
+  validateWorkflowGraph(input).filter(issue => issue.severity === 'error').map(issue => issue.message);
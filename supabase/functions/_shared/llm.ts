@@ -0,0 +1,461 @@
+// Shared LLM provider layer for the edge functions.
+// Every adapter speaks the OpenAI chat completions wire format (JSON or SSE), so
+// chatCompletion() hands back a fetch Response and callers keep their own status,
+// streaming, tool-call and usage handling.
+//
+// Adapters are picked per model from the id prefix, mirroring ModelInfo.adapter in
+// src/lib/modelRegistry.ts:
+//   perplexity/*   -> Perplexity API (PERPLEXITY_API_KEY)
+//   self-hosted/*  -> OpenAI-compatible endpoint (SELF_HOSTED_LLM_URL, SELF_HOSTED_LLM_API_KEY, SELF_HOSTED_LLM_MODEL)
+//   mock/*         -> deterministic mock, no network (LLM_MOCK_FIXTURES)
+//   anything else  -> Lovable AI gateway (LOVABLE_API_KEY)
+// Setting LLM_PROVIDER to an adapter id routes every call through that adapter, e.g.
+// LLM_PROVIDER=mock runs whole cascades offline in tests and staging.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export type LlmAdapter = 'lovable-gateway' | 'perplexity' | 'openai-compatible' | 'mock';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: unknown;
+  tool_calls?: unknown[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  stream?: boolean;
+  tools?: unknown[];
+  tool_choice?: unknown;
+  response_format?: unknown;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  temperature?: number;
+  [key: string]: unknown;
+}
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+const LOVABLE_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1/chat/completions';
+const PERPLEXITY_URL = 'https://api.perplexity.ai/chat/completions';
+
+const ADAPTERS: LlmAdapter[] = ['lovable-gateway', 'perplexity', 'openai-compatible', 'mock'];
+
+// Default model pricing configuration (per 1 million tokens) - used as fallback
+export const DEFAULT_MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'google/gemini-3-flash-preview': { input: 0.10, output: 0.40 },
+  'google/gemini-3-pro-preview': { input: 1.25, output: 10.00 },
+  'google/gemini-2.5-pro': { input: 1.25, output: 10.00 },
+  'google/gemini-2.5-flash': { input: 0.15, output: 0.60 },
+  'google/gemini-2.5-flash-lite': { input: 0.075, output: 0.30 },
+  'openai/gpt-5.2': { input: 2.50, output: 10.00 },
+  'openai/gpt-5': { input: 2.50, output: 10.00 },
+  'openai/gpt-5-mini': { input: 0.30, output: 1.20 },
+  'openai/gpt-5-nano': { input: 0.10, output: 0.40 },
+  'perplexity/sonar': { input: 1.00, output: 1.00 },
+  'perplexity/sonar-pro': { input: 3.00, output: 15.00 },
+  'perplexity/sonar-reasoning-pro': { input: 2.00, output: 8.00 },
+  'perplexity/sonar-deep-research': { input: 2.00, output: 8.00 },
+  'self-hosted/default': { input: 0, output: 0 },
+  'mock/deterministic': { input: 0, output: 0 },
+};
+
+// Load pricing overrides from database
+export async function loadPricingOverrides(supabase: SupabaseClient): Promise<Record<string, { input: number; output: number }>> {
+  try {
+    const { data } = await supabase
+      .from('model_pricing_overrides')
+      .select('model_id, input_cost_per_million, output_cost_per_million');
+
+    if (!data) return {};
+
+    const overrides: Record<string, { input: number; output: number }> = {};
+    for (const row of data as Array<{ model_id: string; input_cost_per_million: number | null; output_cost_per_million: number | null }>) {
+      if (row.input_cost_per_million !== null || row.output_cost_per_million !== null) {
+        const defaultPricing = DEFAULT_MODEL_PRICING[row.model_id] || { input: 0.10, output: 0.40 };
+        overrides[row.model_id] = {
+          input: row.input_cost_per_million ?? defaultPricing.input,
+          output: row.output_cost_per_million ?? defaultPricing.output,
+        };
+      }
+    }
+    return overrides;
+  } catch (error) {
+    console.error('[loadPricingOverrides] Error:', error);
+    return {};
+  }
+}
+
+// Calculate cost based on model and token usage with overrides
+export function calculateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  overrides: Record<string, { input: number; output: number }> = {}
+): number {
+  const pricing = overrides[model] || DEFAULT_MODEL_PRICING[model] || { input: 0.10, output: 0.40 };
+  return ((promptTokens * pricing.input) + (completionTokens * pricing.output)) / 1_000_000;
+}
+
+// Map UI model names to registry model ids
+export const mapModelName = (uiModel: string): string => {
+  const modelMap: Record<string, string> = {
+    // Legacy model mappings (deprecated models -> current equivalents)
+    'openai-gpt-4o': 'google/gemini-3-flash-preview',
+    'gpt-4o': 'google/gemini-3-flash-preview',
+    'gpt-4': 'openai/gpt-5',
+    'claude-3.5': 'google/gemini-2.5-pro',
+    'sonar': 'google/gemini-2.5-flash',
+    'local-vllm': 'google/gemini-2.5-flash',
+    // Short name mappings
+    'gemini-2.5-pro': 'google/gemini-2.5-pro',
+    'gemini-2.5-flash': 'google/gemini-2.5-flash',
+    'gemini-2.5-flash-lite': 'google/gemini-2.5-flash-lite',
+    'gemini-3-flash-preview': 'google/gemini-3-flash-preview',
+    'gemini-3-pro-preview': 'google/gemini-3-pro-preview',
+    'gpt-5': 'openai/gpt-5',
+    'gpt-5-mini': 'openai/gpt-5-mini',
+    'gpt-5-nano': 'openai/gpt-5-nano',
+    'gpt-5.2': 'openai/gpt-5.2',
+  };
+  return modelMap[uiModel] || uiModel;
+};
+
+export function resolveAdapter(model: string): LlmAdapter {
+  const forced = Deno.env.get('LLM_PROVIDER') as LlmAdapter | undefined;
+  if (forced && ADAPTERS.includes(forced)) return forced;
+  if (model.startsWith('mock/')) return 'mock';
+  if (model.startsWith('perplexity/')) return 'perplexity';
+  if (model.startsWith('self-hosted/')) return 'openai-compatible';
+  return 'lovable-gateway';
+}
+
+// Google Search grounding (tools: [{ googleSearch: {} }]) is only available for Gemini through the gateway
+export const supportsSearchGrounding = (model: string): boolean =>
+  resolveAdapter(model) === 'lovable-gateway' && model.startsWith('google/');
+
+// response_format json_schema; gateway models other than Gemini and GPT ignore it.
+// Self-hosted servers without guided decoding can opt out with SELF_HOSTED_LLM_RESPONSE_FORMAT=false.
+export function supportsResponseFormat(model: string): boolean {
+  switch (resolveAdapter(model)) {
+    case 'mock':
+    case 'perplexity':
+      return true;
+    case 'openai-compatible':
+      return Deno.env.get('SELF_HOSTED_LLM_RESPONSE_FORMAT') !== 'false';
+    default:
+      return model.startsWith('google/') || model.startsWith('openai/');
+  }
+}
+
+// Human-readable reason the model cannot be called, or null when its adapter is configured
+export function getProviderConfigError(model: string): string | null {
+  switch (resolveAdapter(model)) {
+    case 'mock':
+      return null;
+    case 'perplexity':
+      return Deno.env.get('PERPLEXITY_API_KEY') ? null : 'PERPLEXITY_API_KEY not configured';
+    case 'openai-compatible':
+      return Deno.env.get('SELF_HOSTED_LLM_URL') ? null : 'SELF_HOSTED_LLM_URL not configured';
+    default:
+      return Deno.env.get('LOVABLE_API_KEY') ? null : 'LOVABLE_API_KEY not configured';
+  }
+}
+
+// Normalized token usage from a completion body or a final stream chunk
+export function extractUsage(data: { usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | null } | null): ChatUsage | null {
+  const usage = data?.usage;
+  if (!usage) return null;
+  const promptTokens = usage.prompt_tokens || 0;
+  const completionTokens = usage.completion_tokens || 0;
+  return { promptTokens, completionTokens, totalTokens: usage.total_tokens || promptTokens + completionTokens };
+}
+
+// Send a chat completion to the model's adapter. Non-2xx responses are returned as-is
+// so callers can keep their 429/402/model-unavailable handling.
+export async function chatCompletion(request: ChatCompletionRequest): Promise<Response> {
+  const adapter = resolveAdapter(request.model);
+  if (adapter === 'mock') return mockCompletion(request);
+
+  const configError = getProviderConfigError(request.model);
+  if (configError) {
+    return new Response(JSON.stringify({ error: { message: configError } }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  let url = LOVABLE_GATEWAY_URL;
+  let apiKey = Deno.env.get('LOVABLE_API_KEY');
+  let body: ChatCompletionRequest = request;
+
+  if (adapter === 'perplexity') {
+    url = PERPLEXITY_URL;
+    apiKey = Deno.env.get('PERPLEXITY_API_KEY');
+    body = { ...request, model: request.model.replace(/^perplexity\//, '') };
+  } else if (adapter === 'openai-compatible') {
+    url = `${Deno.env.get('SELF_HOSTED_LLM_URL')!.replace(/\/+$/, '')}/chat/completions`;
+    apiKey = Deno.env.get('SELF_HOSTED_LLM_API_KEY');
+    const model = request.model.replace(/^self-hosted\//, '');
+    body = { ...request, model: model === 'default' ? Deno.env.get('SELF_HOSTED_LLM_MODEL') || model : model };
+  }
+
+  // Gateway-only options that other OpenAI-compatible servers reject
+  if (adapter !== 'lovable-gateway' && Array.isArray(body.tools)) {
+    const tools = body.tools.filter(tool => !(tool && typeof tool === 'object' && 'googleSearch' in tool));
+    body = { ...body, tools: tools.length > 0 ? tools : undefined };
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+  return await fetch(url, { method: 'POST', headers, body: JSON.stringify(body) });
+}
+
+// ============= RETRIES AND FALLBACK MODELS =============
+// Per-node policy from PromptTemplateConfig.retryPolicy; retryable statuses are retried on the
+// same model with exponential backoff and jitter, then each of config.fallbackModels is tried
+// in order. Any other failure moves straight on to the next model.
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  retryOnStatus: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+};
+
+// Upper bound on a single backoff so retries fit in an edge function invocation
+const MAX_RETRY_DELAY_MS = 20_000;
+
+// No retry or fallback starts after this long, so a failing provider cannot run the
+// invocation past the edge function's wall-clock limit
+const DEFAULT_RETRY_DEADLINE_MS = 120_000;
+
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy> | null): RetryPolicy {
+  return {
+    maxRetries: Math.max(0, Math.min(5, policy?.maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries)),
+    baseDelayMs: Math.max(0, policy?.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs),
+    retryOnStatus: Array.isArray(policy?.retryOnStatus) ? policy!.retryOnStatus : DEFAULT_RETRY_POLICY.retryOnStatus,
+  };
+}
+
+// Exponential backoff with equal jitter; a Retry-After header wins when the provider sends one
+const retryDelayMs = (policy: RetryPolicy, retry: number, response: Response): number => {
+  const retryAfter = Number(response.headers.get('retry-after'));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+  const exponential = Math.min(policy.baseDelayMs * 2 ** retry, MAX_RETRY_DELAY_MS);
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+export interface ChatAttempt {
+  model: string;
+  status: number;
+  error?: string;
+}
+
+export interface ChatCompletionWithFallbackResult {
+  response: Response;
+  // The model that produced response (the last one tried when every attempt failed)
+  model: string;
+  attempts: ChatAttempt[];
+}
+
+// chatCompletion with the node's retry policy and fallback chain. The returned response is
+// unread; when every model failed it is the last failure, so callers keep their error handling.
+// The first attempt always runs; later ones only while deadlineMs has not passed.
+export async function chatCompletionWithFallback(
+  request: ChatCompletionRequest,
+  options: { fallbackModels?: string[]; retryPolicy?: Partial<RetryPolicy> | null; deadlineMs?: number } = {}
+): Promise<ChatCompletionWithFallbackResult> {
+  const policy = resolveRetryPolicy(options.retryPolicy);
+  const models = Array.from(new Set([request.model, ...(options.fallbackModels || []).map(mapModelName)]));
+  const deadline = Date.now() + (options.deadlineMs ?? DEFAULT_RETRY_DEADLINE_MS);
+  const attempts: ChatAttempt[] = [];
+  let lastFailure: { response: Response; model: string } | null = null;
+
+  for (const model of models) {
+    if (lastFailure && Date.now() >= deadline) {
+      console.warn(`[llm] Retry deadline reached after ${attempts.length} attempts, not trying ${model}`);
+      break;
+    }
+    for (let retry = 0; retry <= policy.maxRetries; retry++) {
+      let response: Response;
+      try {
+        response = await chatCompletion({ ...request, model });
+      } catch (error) {
+        // Network failures count as a retryable gateway error
+        const message = error instanceof Error ? error.message : 'Network error';
+        response = new Response(JSON.stringify({ error: { message } }), { status: 503, headers: { 'Content-Type': 'application/json' } });
+      }
+
+      if (response.ok) {
+        attempts.push({ model, status: response.status });
+        if (model !== request.model) {
+          console.log(`[llm] ${request.model} failed, served by fallback ${model} after ${attempts.length} attempts`);
+        }
+        return { response, model, attempts };
+      }
+
+      // Read the failed body so it can be logged and handed back intact
+      const errorText = await response.text();
+      attempts.push({ model, status: response.status, error: errorText.substring(0, 500) });
+      lastFailure = { response: new Response(errorText, { status: response.status, headers: response.headers }), model };
+
+      if (!policy.retryOnStatus.includes(response.status) || retry === policy.maxRetries) break;
+      const delay = retryDelayMs(policy, retry, response);
+      // A backoff that would end past the deadline moves on to the next model instead
+      if (Date.now() + delay >= deadline) break;
+      console.warn(`[llm] ${model} returned ${response.status}, retrying in ${Math.round(delay)}ms (${retry + 1}/${policy.maxRetries})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  return { response: lastFailure!.response, model: lastFailure!.model, attempts };
+}
+
+// ============= MOCK PROVIDER =============
+// LLM_MOCK_FIXTURES is a JSON array of canned replies, first match wins:
+//   [{ "model"?: "...", "match"?: "substring of the messages", "content"?: "...", "tool_calls"?: [...], "status"?: 503 }]
+// A fixture with an error status fails the call, e.g. to exercise retries and fallback models.
+// Without a matching fixture the reply is a placeholder derived from a hash of the request,
+// so the same prompt always yields the same output (and the same content hash downstream).
+
+interface MockFixture {
+  model?: string;
+  match?: string;
+  content?: string;
+  tool_calls?: Array<{ id?: string; type?: string; function: { name: string; arguments: string } }>;
+  status?: number;
+}
+
+const loadMockFixtures = (): MockFixture[] => {
+  const raw = Deno.env.get('LLM_MOCK_FIXTURES');
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('[llm] Invalid LLM_MOCK_FIXTURES:', error);
+    return [];
+  }
+};
+
+const messageText = (messages: ChatMessage[]): string =>
+  messages.map(m => (typeof m.content === 'string' ? m.content : JSON.stringify(m.content ?? ''))).join('\n');
+
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Smallest value satisfying the common parts of a JSON Schema, for mock structured output
+const sampleFromSchema = (schema: Record<string, unknown> | undefined, seed: string): unknown => {
+  if (!schema) return null;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  if ('const' in schema) return schema.const;
+  const variants = (schema.anyOf || schema.oneOf) as Array<Record<string, unknown>> | undefined;
+  if (Array.isArray(variants) && variants.length > 0) return sampleFromSchema(variants[0], seed);
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type ?? (schema.properties ? 'object' : schema.items ? 'array' : 'string')) {
+    case 'object': {
+      const properties = (schema.properties || {}) as Record<string, Record<string, unknown>>;
+      return Object.fromEntries(Object.entries(properties).map(([key, sub]) => [key, sampleFromSchema(sub, seed)]));
+    }
+    case 'array': {
+      const minItems = typeof schema.minItems === 'number' ? schema.minItems : 1;
+      return Array.from({ length: minItems }, () => sampleFromSchema(schema.items as Record<string, unknown>, seed));
+    }
+    case 'integer':
+    case 'number':
+      return typeof schema.minimum === 'number' ? schema.minimum : 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default: {
+      const minLength = typeof schema.minLength === 'number' ? schema.minLength : 0;
+      return `mock ${seed}`.padEnd(minLength, '.');
+    }
+  }
+};
+
+async function mockCompletion(request: ChatCompletionRequest): Promise<Response> {
+  const prompt = messageText(request.messages);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${request.model}\n${prompt}`));
+  const requestHash = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('').slice(0, 12);
+
+  const fixture = loadMockFixtures().find(f =>
+    (!f.model || f.model === request.model) && (!f.match || prompt.includes(f.match))
+  );
+  if (fixture?.status && fixture.status >= 400) {
+    return new Response(JSON.stringify({ error: { message: `Mock ${fixture.status} for ${request.model}` } }), {
+      status: fixture.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // A fixture's tool calls answer the original request only, not the follow-up carrying tool results
+  const answeringToolResults = request.messages[request.messages.length - 1]?.role === 'tool';
+  const wantsJson = !!request.response_format || /\bjson\b/i.test(prompt);
+  const responseSchema = (request.response_format as { json_schema?: { schema?: Record<string, unknown> } } | undefined)?.json_schema?.schema;
+  const content = fixture && (fixture.content !== undefined || !answeringToolResults)
+    ? fixture.content ?? null
+    : responseSchema
+      ? JSON.stringify(sampleFromSchema(responseSchema, requestHash))
+      : wantsJson
+        ? JSON.stringify({ mock: true, request_hash: requestHash })
+        : `[mock ${request.model}] Deterministic response ${requestHash}`;
+  const toolCalls = answeringToolResults ? undefined : fixture?.tool_calls?.map((call, index) => ({
+    id: call.id || `call_${requestHash}_${index}`,
+    type: call.type || 'function',
+    function: call.function,
+  }));
+
+  const promptTokens = estimateTokens(prompt);
+  const completionTokens = estimateTokens((content || '') + JSON.stringify(toolCalls || ''));
+  const usage = { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+  const finishReason = toolCalls?.length ? 'tool_calls' : 'stop';
+  const id = `mock-${requestHash}`;
+
+  if (!request.stream) {
+    return new Response(JSON.stringify({
+      id,
+      object: 'chat.completion',
+      model: request.model,
+      choices: [{ index: 0, message: { role: 'assistant', content, ...(toolCalls ? { tool_calls: toolCalls } : {}) }, finish_reason: finishReason }],
+      usage,
+    }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  }
+
+  // Same reply as server-sent events, in small content deltas like a real stream
+  const chunks: unknown[] = [];
+  const text = content || '';
+  for (let i = 0; i < text.length; i += 40) {
+    chunks.push({ id, model: request.model, choices: [{ index: 0, delta: { content: text.slice(i, i + 40) } }] });
+  }
+  toolCalls?.forEach((call, index) => {
+    chunks.push({ id, model: request.model, choices: [{ index: 0, delta: { tool_calls: [{ index, ...call }] } }] });
+  });
+  chunks.push({ id, model: request.model, choices: [{ index: 0, delta: {}, finish_reason: finishReason }], usage });
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+  return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
@@ -0,0 +1,33 @@
+// Node config hashing, shared by the functions that write company_node_data.config_hash.
+// Mirrors src/lib/nodeConfigHash.ts - keep the ignored keys and the canonical form in sync.
+
+// SHA-256 of content as lowercase hex
+export const hashContent = async (content: string): Promise<string> => {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Config keys that only affect display or where the output is written
+const NON_OUTPUT_CONFIG_KEYS = new Set([
+  'description', 'paused', 'color', 'icon', 'customIcon', 'outputDestinations', 'sharedCacheOutputs',
+  'sharedCacheName', 'isAbiOutput', 'isAbiVCOutput', 'isMasterDataOutput', 'masterDataMapping',
+  'workflowName', 'nodeLabel', 'frameworkName', 'systemPromptName', 'integrationName', 'datasetName',
+  'sourceNodeLabel',
+  'outputSchemaFrameworkName',
+  'retryPolicy',
+]);
+
+const canonicalConfigJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalConfigJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([k, v]) => v !== undefined && !NON_OUTPUT_CONFIG_KEYS.has(k))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalConfigJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+// Hash of the node type and output-affecting config, stored as company_node_data.config_hash
+export const hashNodeConfig = (node: { type: string; config?: unknown }): Promise<string> =>
+  hashContent(canonicalConfigJson({ type: node.type, config: node.config || {} }));
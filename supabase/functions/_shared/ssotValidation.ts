@@ -0,0 +1,139 @@
+// Value validation for SSOT writes, shared by execute-ssot-changes and sync-to-master-data.
+// Mirrors src/lib/ssotValueValidation.ts - keep the rules in sync.
+
+export interface ValueValidationRules {
+  type?: string;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  min_length?: number;
+  max_length?: number;
+  pattern?: string;
+  enum?: unknown[];
+  min_items?: number;
+  max_items?: number;
+}
+
+// Combine a definition's declared type, validation_rules and allowed_values
+export function resolveValueRules(
+  fieldType: string | null | undefined,
+  validationRules: unknown,
+  allowedValues?: unknown
+): ValueValidationRules {
+  const rules: ValueValidationRules =
+    validationRules && typeof validationRules === 'object' && !Array.isArray(validationRules)
+      ? { ...(validationRules as ValueValidationRules) }
+      : {};
+  if (!rules.type && fieldType) rules.type = fieldType;
+  if (!rules.enum && Array.isArray(allowedValues) && allowedValues.length > 0) rules.enum = allowedValues;
+  return rules;
+}
+
+// Values written as { value: x } are checked as x
+const unwrap = (value: unknown): unknown => {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const keys = Object.keys(value);
+    if (keys.length === 1 && keys[0] === 'value') return (value as { value: unknown }).value;
+  }
+  return value;
+};
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+const matchesEnum = (value: unknown, allowed: unknown[]) =>
+  allowed.some(option => option === value || String(option) === String(value));
+
+// Returns human-readable violations; empty when the value is acceptable
+export function validateSSOTValue(rawValue: unknown, rules: ValueValidationRules): string[] {
+  const value = unwrap(rawValue);
+  const violations: string[] = [];
+
+  if (isEmpty(value)) {
+    if (rules.required) violations.push('Value is required');
+    return violations;
+  }
+
+  switch (rules.type) {
+    case 'number': {
+      const num = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+      if (!Number.isFinite(num)) {
+        violations.push(`Expected a number, got ${JSON.stringify(value)}`);
+        break;
+      }
+      if (rules.min !== undefined && num < rules.min) violations.push(`${num} is below the minimum of ${rules.min}`);
+      if (rules.max !== undefined && num > rules.max) violations.push(`${num} is above the maximum of ${rules.max}`);
+      break;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean' && !['true', 'false'].includes(String(value).toLowerCase())) {
+        violations.push(`Expected true or false, got ${JSON.stringify(value)}`);
+      }
+      break;
+    case 'date':
+      if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(Date.parse(value))) {
+        violations.push(`Expected a date (YYYY-MM-DD), got ${JSON.stringify(value)}`);
+      }
+      break;
+    case 'url': {
+      let valid = false;
+      try {
+        const url = new URL(String(value));
+        valid = url.protocol === 'http:' || url.protocol === 'https:';
+      } catch {
+        valid = false;
+      }
+      if (!valid) violations.push(`Expected an http(s) URL, got ${JSON.stringify(value)}`);
+      break;
+    }
+    case 'array':
+    case 'multi_select':
+      if (!Array.isArray(value)) {
+        violations.push('Expected a list of values');
+        break;
+      }
+      if (rules.min_items !== undefined && value.length < rules.min_items) {
+        violations.push(`Expected at least ${rules.min_items} items, got ${value.length}`);
+      }
+      if (rules.max_items !== undefined && value.length > rules.max_items) {
+        violations.push(`Expected at most ${rules.max_items} items, got ${value.length}`);
+      }
+      if (rules.enum) {
+        const invalid = value.filter(item => !matchesEnum(item, rules.enum!));
+        if (invalid.length > 0) {
+          violations.push(`Not an allowed value: ${invalid.map(String).join(', ')}`);
+        }
+      }
+      return violations;
+    case 'json':
+      break;
+    default:
+      // text, select and unknown types hold a single scalar
+      if (typeof value === 'object') {
+        violations.push('Expected a single value, got an object or list');
+        return violations;
+      }
+  }
+
+  if (typeof value === 'string') {
+    if (rules.min_length !== undefined && value.length < rules.min_length) {
+      violations.push(`Expected at least ${rules.min_length} characters`);
+    }
+    if (rules.max_length !== undefined && value.length > rules.max_length) {
+      violations.push(`Expected at most ${rules.max_length} characters`);
+    }
+    if (rules.pattern) {
+      try {
+        if (!new RegExp(rules.pattern).test(value)) violations.push(`Does not match pattern ${rules.pattern}`);
+      } catch {
+        violations.push(`Invalid pattern in validation rules: ${rules.pattern}`);
+      }
+    }
+  }
+
+  if (rules.enum && !Array.isArray(value) && !matchesEnum(value, rules.enum)) {
+    violations.push(`${JSON.stringify(value)} is not one of: ${rules.enum.map(String).join(', ')}`);
+  }
+
+  return violations;
+}
@@ -0,0 +1,288 @@
+// Structured JSON output for prompt template nodes.
+// A node can carry an output JSON Schema, written inline (config.outputSchema) or taken from a
+// framework (config.outputSchemaFrameworkId). The schema is sent as response_format where the
+// model supports it, otherwise spelled out in the system prompt, and the reply is validated
+// afterwards. Invalid replies are sent back to the model with the errors for repair.
+//
+// Only the parts of JSON Schema that matter for model output are checked: type, enum, const,
+// properties, required, additionalProperties, items, min/max, lengths, pattern, anyOf/oneOf/allOf.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { chatCompletion, extractUsage, supportsResponseFormat, type ChatCompletionRequest, type ChatUsage } from './llm.ts';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  pattern?: string;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  title?: string;
+  description?: string;
+  [key: string]: unknown;
+}
+
+export interface OutputSchemaConfig {
+  outputSchemaSource?: 'none' | 'inline' | 'framework';
+  outputSchema?: string;
+  outputSchemaFrameworkId?: string;
+}
+
+// Stored on company_node_data.data.schema_validation next to the output
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: string[];
+  attempts: number;
+  repaired: boolean;
+  schema_source: 'inline' | 'framework';
+  validated_at: string;
+}
+
+// Repair round-trips after the first reply before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+// Errors listed in a repair prompt and kept on the stored result
+const MAX_REPORTED_ERRORS = 20;
+
+const isJsonSchema = (value: unknown): value is JsonSchema =>
+  !!value && typeof value === 'object' && !Array.isArray(value) &&
+  ['type', 'properties', 'items', 'anyOf', 'oneOf', 'allOf', 'enum', '$schema'].some(key => key in (value as Record<string, unknown>));
+
+// The node's output schema, or null when it has none or the schema cannot be used
+export async function resolveOutputSchema(supabase: SupabaseClient, config: OutputSchemaConfig): Promise<JsonSchema | null> {
+  let raw: unknown = null;
+  if (config.outputSchemaSource === 'inline' && config.outputSchema?.trim()) {
+    raw = config.outputSchema;
+  } else if (config.outputSchemaSource === 'framework' && config.outputSchemaFrameworkId) {
+    const { data: framework, error } = await supabase
+      .from('frameworks')
+      .select('schema')
+      .eq('id', config.outputSchemaFrameworkId)
+      .maybeSingle();
+    if (error) console.error('[structuredOutput] Failed to load framework schema:', error);
+    raw = (framework as { schema?: unknown } | null)?.schema ?? null;
+  }
+  if (raw === null) return null;
+
+  let schema = raw;
+  if (typeof raw === 'string') {
+    try {
+      schema = JSON.parse(raw);
+    } catch {
+      console.warn('[structuredOutput] Output schema is not valid JSON, skipping validation');
+      return null;
+    }
+  }
+  if (!isJsonSchema(schema)) {
+    console.warn('[structuredOutput] Output schema is not a JSON Schema, skipping validation');
+    return null;
+  }
+  return schema;
+}
+
+// OpenAI-style structured output request; name must match ^[a-zA-Z0-9_-]+$
+export const buildResponseFormat = (schema: JsonSchema, name: string) => ({
+  type: 'json_schema',
+  json_schema: {
+    name: name.replace(/[^a-zA-Z0-9_-]+/g, '_').slice(0, 64) || 'node_output',
+    schema,
+  },
+});
+
+// Instruction for models that cannot take response_format
+export const schemaInstruction = (schema: JsonSchema): string =>
+  `Respond with a single JSON value that conforms to this JSON Schema. Do not add commentary or code fences.\n\n${JSON.stringify(schema, null, 2)}`;
+
+// Add the schema to a chat request the way the model supports
+export function applyOutputSchema(request: ChatCompletionRequest, schema: JsonSchema, name: string): ChatCompletionRequest {
+  // Gemini cannot combine search grounding with a response schema
+  const hasGrounding = Array.isArray(request.tools) && request.tools.some(tool => !!tool && typeof tool === 'object' && 'googleSearch' in tool);
+  if (supportsResponseFormat(request.model) && !hasGrounding) {
+    return { ...request, response_format: buildResponseFormat(schema, name) };
+  }
+  const [first, ...rest] = request.messages;
+  if (first?.role === 'system' && typeof first.content === 'string') {
+    return { ...request, messages: [{ ...first, content: `${first.content}\n\n${schemaInstruction(schema)}` }, ...rest] };
+  }
+  return { ...request, messages: [{ role: 'system', content: schemaInstruction(schema) }, ...request.messages] };
+}
+
+// Parse model text as JSON, tolerating code fences and prose around a single object or array
+export function parseJsonOutput(text: string): { ok: boolean; value?: unknown; error?: string } {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*\n?/i, '').replace(/\n?```\s*$/, '').trim();
+  try {
+    return { ok: true, value: JSON.parse(trimmed) };
+  } catch (error) {
+    const start = trimmed.search(/[[{]/);
+    const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+    if (start >= 0 && end > start) {
+      try {
+        return { ok: true, value: JSON.parse(trimmed.slice(start, end + 1)) };
+      } catch {
+        // fall through to the original parse error
+      }
+    }
+    return { ok: false, error: error instanceof Error ? error.message : 'Invalid JSON' };
+  }
+}
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+// Validation errors as "path: message", empty when the value conforms
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    if (schema.pattern) {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) errors.push(`${path}: must match /${schema.pattern}/`);
+      } catch {
+        // an invalid pattern in the schema is not the output's fault
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  } else if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in record)) errors.push(`${path}: missing required property "${key}"`);
+    }
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(propertyValue, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(propertyValue, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (schema.allOf) {
+    schema.allOf.forEach(subschema => errors.push(...validateJsonSchema(value, subschema, path)));
+  }
+  if (schema.anyOf && !schema.anyOf.some(subschema => validateJsonSchema(value, subschema, path).length === 0)) {
+    errors.push(`${path}: does not match any of the allowed schemas`);
+  }
+  if (schema.oneOf && schema.oneOf.filter(subschema => validateJsonSchema(value, subschema, path).length === 0).length !== 1) {
+    errors.push(`${path}: must match exactly one of the allowed schemas`);
+  }
+
+  return errors;
+}
+
+const checkOutput = (text: string, schema: JsonSchema): { value: unknown; errors: string[] } => {
+  const parsed = parseJsonOutput(text);
+  if (!parsed.ok) return { value: undefined, errors: [`$: output is not valid JSON (${parsed.error})`] };
+  return { value: parsed.value, errors: validateJsonSchema(parsed.value, schema).slice(0, MAX_REPORTED_ERRORS) };
+};
+
+// Validate a reply against the schema, asking the model to repair it while it does not conform.
+// Returns the output to store (normalized JSON when valid), the validation result and the
+// token usage of the repair calls so callers can log it alongside the original call.
+export async function enforceOutputSchema(options: {
+  request: ChatCompletionRequest;
+  content: string;
+  schema: JsonSchema;
+  schemaSource: 'inline' | 'framework';
+}): Promise<{ output: string; validation: SchemaValidationResult; repairUsage: ChatUsage | null }> {
+  const { request, schema, schemaSource } = options;
+  let content = options.content;
+  let check = checkOutput(content, schema);
+  let attempts = 1;
+  let repairUsage: ChatUsage | null = null;
+
+  while (check.errors.length > 0 && attempts <= MAX_REPAIR_ATTEMPTS) {
+    console.log(`[structuredOutput] Output failed schema validation (${check.errors.length} errors), repair attempt ${attempts}`);
+    const response = await chatCompletion({
+      ...request,
+      stream: false,
+      messages: [
+        ...request.messages,
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `Your response does not conform to the required JSON Schema:\n${check.errors.map(e => `- ${e}`).join('\n')}\n\nReturn the corrected JSON only.`,
+        },
+      ],
+    });
+    if (!response.ok) {
+      console.error(`[structuredOutput] Repair call failed: ${response.status} - ${await response.text()}`);
+      break;
+    }
+    const data = await response.json();
+    const usage = extractUsage(data);
+    if (usage) {
+      repairUsage = {
+        promptTokens: (repairUsage?.promptTokens || 0) + usage.promptTokens,
+        completionTokens: (repairUsage?.completionTokens || 0) + usage.completionTokens,
+        totalTokens: (repairUsage?.totalTokens || 0) + usage.totalTokens,
+      };
+    }
+    content = data.choices?.[0]?.message?.content || '';
+    check = checkOutput(content, schema);
+    attempts++;
+  }
+
+  const valid = check.errors.length === 0;
+  return {
+    output: valid ? JSON.stringify(check.value, null, 2) : content,
+    validation: {
+      valid,
+      errors: check.errors,
+      attempts,
+      repaired: valid && attempts > 1,
+      schema_source: schemaSource,
+      validated_at: new Date().toISOString(),
+    },
+    repairUsage,
+  };
+}
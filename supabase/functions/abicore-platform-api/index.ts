@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { budgetRetryAfter, checkCompanyBudget, checkCompanyRateLimit } from "../_shared/companyLimits.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -28,6 +29,45 @@ function createErrorResponse(
   );
 }
 
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Structured 429 when the company is over its per-minute limit or monthly AI budget; null otherwise
+async function enforceCompanyLimits(supabase: SupabaseClient, companyId: string): Promise<Response | null> {
+  const rate = await checkCompanyRateLimit(supabase, companyId);
+  if (rate && !rate.allowed) {
+    const response = createErrorResponse(
+      "Rate limit exceeded",
+      {
+        code: "RATE_LIMIT_EXCEEDED",
+        message: `Company is limited to ${rate.limit} requests per minute. Retry in ${rate.retry_after}s.`,
+        field: "company_uuid",
+        received: companyId,
+      },
+      429
+    );
+    response.headers.set("Retry-After", String(rate.retry_after));
+    return response;
+  }
+
+  const budget = await checkCompanyBudget(supabase, companyId);
+  if (budget && !budget.allowed) {
+    const response = createErrorResponse(
+      "Monthly AI budget exceeded",
+      {
+        code: "BUDGET_EXCEEDED",
+        message: `Company has used ${budget.tokens_used} tokens ($${Number(budget.cost_used).toFixed(2)}) this month. Budget resets on ${budget.reset_at}.`,
+        field: "company_uuid",
+        received: companyId,
+      },
+      429
+    );
+    response.headers.set("Retry-After", String(budgetRetryAfter(budget)));
+    return response;
+  }
+
+  return null;
+}
+
 // AbiVC data structures
 interface CompanyData {
   id: string;
@@ -309,6 +349,9 @@ Deno.serve(async (req) => {
         }
 
         const { company_uuid, company_data, synced_at, ingest_point } = payload!;
+
+        const limited = await enforceCompanyLimits(supabase, company_uuid);
+        if (limited) return limited;
         
         // Get intake_submissions - AbiVC sends it INSIDE company_data, not as separate field
         const intake_submissions = company_data.intake_submissions || payload!.intake_submissions || [];
@@ -1,29 +1,13 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { calculateCost, chatCompletion, getProviderConfigError } from '../_shared/llm.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Calculate cost based on model and token usage
-function calculateCost(model: string, promptTokens: number, completionTokens: number): number {
-  const pricing: Record<string, { input: number; output: number }> = {
-    'google/gemini-3-flash-preview': { input: 0.10, output: 0.40 },
-    'google/gemini-3-pro-preview': { input: 1.25, output: 10.00 },
-    'google/gemini-2.5-pro': { input: 1.25, output: 10.00 },
-    'google/gemini-2.5-flash': { input: 0.15, output: 0.60 },
-    'google/gemini-2.5-flash-lite': { input: 0.075, output: 0.30 },
-    'openai/gpt-5.2': { input: 2.50, output: 10.00 },
-    'openai/gpt-5': { input: 2.50, output: 10.00 },
-    'openai/gpt-5-mini': { input: 0.30, output: 1.20 },
-    'openai/gpt-5-nano': { input: 0.10, output: 0.40 },
-  };
-  const p = pricing[model] || { input: 0.10, output: 0.40 };
-  return ((promptTokens * p.input) + (completionTokens * p.output)) / 1_000_000;
-}
-
 async function executeToolCall(toolName: string, toolArgs: any) {
   const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
   const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY')!;
@@ -52,7 +36,6 @@ async function streamWithToolCalls(
   messages: any[],
   tools: any[],
   model: string,
-  lovableApiKey: string,
   writer: WritableStreamDefaultWriter<Uint8Array>,
   encoder: TextEncoder,
   preventWorkflowTools: boolean = false,
@@ -73,14 +56,7 @@ async function streamWithToolCalls(
     requestBody.tools = filteredTools;
   }
 
-  const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${lovableApiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(requestBody),
-  });
+  const response = await chatCompletion(requestBody);
 
   if (!response.ok) {
     if (response.status === 429) {
@@ -201,7 +177,7 @@ async function streamWithToolCalls(
     ];
 
     // Prevent workflow tools on recursive call if we just executed them
-    await streamWithToolCalls(newMessages, tools, model, lovableApiKey, writer, encoder, hasWorkflowTools, accumulatedContent);
+    await streamWithToolCalls(newMessages, tools, model, writer, encoder, hasWorkflowTools, accumulatedContent);
   }
 }
 
@@ -250,18 +226,9 @@ serve(async (req) => {
     
     // Default to 'user' agent for planning, or use specified type
     const requestedAgentType = agentType || 'user';
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
     const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
-    if (!LOVABLE_API_KEY) {
-      console.error('LOVABLE_API_KEY not configured');
-      return new Response(
-        JSON.stringify({ error: 'AI service not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     // Initialize Supabase client
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
@@ -281,6 +248,15 @@ serve(async (req) => {
       );
     }
 
+    const providerError = getProviderConfigError(agent.model);
+    if (providerError) {
+      console.error(providerError);
+      return new Response(
+        JSON.stringify({ error: 'AI service not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     console.log('Using agent configuration:', {
       name: agent.name,
       type: requestedAgentType,
@@ -414,7 +390,7 @@ IMPORTANT FOR CREATING NODES WITH DEPENDENCIES:
     // Stream response in background
     (async () => {
       try {
-        await streamWithToolCalls(messages, tools, agent.model, LOVABLE_API_KEY, writer, encoder, false, accumulatedContent);
+        await streamWithToolCalls(messages, tools, agent.model, writer, encoder, false, accumulatedContent);
         
         // Log estimated usage after streaming completes
         const estimatedPromptTokens = Math.ceil(promptContent.length / 4);
@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { calculateCost, chatCompletion, extractUsage, getProviderConfigError } from "../_shared/llm.ts";
+
+const IMPROVE_PROMPT_MODEL = 'openai/gpt-5-mini';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,13 +16,13 @@ serve(async (req) => {
 
   try {
     const { prompt, userPrompt } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
     
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY not configured');
+    const providerError = getProviderConfigError(IMPROVE_PROMPT_MODEL);
+    if (providerError) {
+      throw new Error(providerError);
     }
 
     let finalPrompt: string;
@@ -60,19 +63,12 @@ serve(async (req) => {
       throw new Error('Either prompt or userPrompt must be provided');
     }
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'openai/gpt-5-mini',
-        messages: [
-          { role: 'user', content: finalPrompt }
-        ],
-        stream: true,
-      }),
+    const response = await chatCompletion({
+      model: IMPROVE_PROMPT_MODEL,
+      messages: [
+        { role: 'user', content: finalPrompt }
+      ],
+      stream: true,
     });
 
     if (!response.ok) {
@@ -128,13 +124,11 @@ serve(async (req) => {
           controller.close();
 
           // Fire-and-forget: log usage
-          const promptTokens = usageData?.prompt_tokens || 0;
-          const completionTokens = usageData?.completion_tokens || 0;
-          const totalTokens = usageData?.total_tokens || promptTokens + completionTokens;
-          const estimatedCost = ((promptTokens * 0.30) + (completionTokens * 1.20)) / 1_000_000;
+          const { promptTokens, completionTokens, totalTokens } = extractUsage({ usage: usageData }) ?? { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+          const estimatedCost = calculateCost(IMPROVE_PROMPT_MODEL, promptTokens, completionTokens);
 
           supabase.from('ai_usage_logs').insert({
-            model: 'openai/gpt-5-mini',
+            model: IMPROVE_PROMPT_MODEL,
             prompt_tokens: promptTokens,
             completion_tokens: completionTokens,
             total_tokens: totalTokens,
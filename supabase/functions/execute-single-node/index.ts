@@ -1,5 +1,25 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { calculateCost, chatCompletionWithFallback, extractUsage, getProviderConfigError, loadPricingOverrides, mapModelName } from '../_shared/llm.ts';
+import { applyOutputSchema, enforceOutputSchema, resolveOutputSchema, type SchemaValidationResult } from '../_shared/structuredOutput.ts';
+import { CACHED_STEP_MESSAGE } from '../_shared/cascadePostProcessing.ts';
+import {
+  checkCascadeCostLimits,
+  describeCostBreach,
+  estimateTokens,
+  loadCostBudgetSettings,
+  type CostBudgetSettings,
+  type CostLimitBreach,
+} from '../_shared/costLimits.ts';
+import { hashContent, hashNodeConfig } from '../_shared/nodeConfigHash.ts';
+import {
+  CONDITION_BRANCH_PORTS,
+  evaluateConditionExpression,
+  getConditionBranch,
+  getConditionBranchTargets,
+  parseConditionOutput,
+  resolveConditionPath,
+} from '../_shared/conditionExpression.ts';
 
 // Version for deployment verification
 const FUNCTION_VERSION = "1.0.0-2025-01-30";
@@ -9,6 +29,8 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+type SupabaseClient = ReturnType<typeof createClient>;
+
 interface Node {
   id: string;
   type: string;
@@ -17,6 +39,28 @@ interface Node {
   data?: Record<string, any>;
 }
 
+// Stored on company_node_data.lineage: the upstream outputs a node read, or for ingest
+// nodes the submission and the intake fields it carried
+interface NodeLineage {
+  inputs?: Array<{ workflow_id: string; node_id: string; content_hash: string | null }>;
+  submission_id?: string | null;
+  intake_fields?: string[];
+}
+
+// Details an executor reports for storage next to the node's output
+interface NodeRunDetails {
+  schemaValidation?: SchemaValidationResult;
+  // Set when an AI call was not made because it would cross a cascade cost limit
+  costBreach?: CostLimitBreach;
+}
+
+// Cost limits a queued cascade applies to this node's AI calls, counted from the run's start
+interface CascadeCostLimits {
+  settings: CostBudgetSettings;
+  runStartedAt: number;
+  pricingOverrides: Record<string, { input: number; output: number }>;
+}
+
 interface Edge {
   from: { node: string; port: string };
   to: { node: string; port: string };
@@ -27,28 +71,11 @@ interface PromptPart {
   value: string;
   workflowId?: string;
   workflowName?: string;
+  nodeLabel?: string;
   frameworkName?: string;
   triggersExecution?: boolean;
 }
 
-// Default model pricing (per 1 million tokens)
-const DEFAULT_MODEL_PRICING: Record<string, { input: number; output: number }> = {
-  'google/gemini-3-flash-preview': { input: 0.10, output: 0.40 },
-  'google/gemini-3-pro-preview': { input: 1.25, output: 10.00 },
-  'google/gemini-2.5-pro': { input: 1.25, output: 10.00 },
-  'google/gemini-2.5-flash': { input: 0.15, output: 0.60 },
-  'google/gemini-2.5-flash-lite': { input: 0.075, output: 0.30 },
-  'openai/gpt-5.2': { input: 2.50, output: 10.00 },
-  'openai/gpt-5': { input: 2.50, output: 10.00 },
-  'openai/gpt-5-mini': { input: 0.30, output: 1.20 },
-  'openai/gpt-5-nano': { input: 0.10, output: 0.40 },
-  // Perplexity models
-  'perplexity/sonar': { input: 1.00, output: 1.00 },
-  'perplexity/sonar-pro': { input: 3.00, output: 15.00 },
-  'perplexity/sonar-reasoning-pro': { input: 2.00, output: 8.00 },
-  'perplexity/sonar-deep-research': { input: 2.00, output: 8.00 },
-};
-
 // Strip markdown code fences from AI output strings
 function stripCodeFences(text: string): string {
   if (typeof text !== 'string') return text;
@@ -60,42 +87,76 @@ function stripCodeFences(text: string): string {
   return s.trim();
 }
 
-// Map UI model names to Lovable AI model names
-const mapModelName = (uiModel: string): string => {
-  const modelMap: Record<string, string> = {
-    'openai-gpt-4o': 'google/gemini-3-flash-preview',
-    'gpt-4o': 'google/gemini-3-flash-preview',
-    'claude-3.5': 'google/gemini-2.5-pro',
-    'sonar': 'google/gemini-2.5-flash',
-    'local-vllm': 'google/gemini-2.5-flash',
-    'gemini-2.5-pro': 'google/gemini-2.5-pro',
-    'gemini-2.5-flash': 'google/gemini-2.5-flash',
-    'gemini-3-flash-preview': 'google/gemini-3-flash-preview',
-    'gemini-3-pro-preview': 'google/gemini-3-pro-preview',
-    'gpt-5': 'openai/gpt-5',
-    'gpt-5-mini': 'openai/gpt-5-mini',
-    'gpt-5-nano': 'openai/gpt-5-nano',
-    'gpt-5.2': 'openai/gpt-5.2',
-  };
-  return modelMap[uiModel] || uiModel;
+// ============= CONDITION NODES =============
+// Match a condition reference against the node's dependencies by label, output name or node id.
+// A null name ($) is the first dependency.
+const findConditionDependency = (name: string | null, promptParts: PromptPart[], nodes: Node[]): PromptPart | undefined => {
+  const deps = promptParts.filter(p => p.type === 'dependency');
+  if (name === null) return deps[0];
+  const target = name.trim().toLowerCase();
+  return deps.find(part => {
+    const depNode = nodes.find(n => n.id === part.value);
+    const candidates = [part.value, part.nodeLabel, depNode?.label, depNode?.data?.label, depNode?.config?.outputName];
+    return candidates.some(c => typeof c === 'string' && c.trim().toLowerCase() === target);
+  });
 };
 
-// Generate SHA-256 hash of content
-const hashContent = async (content: string): Promise<string> => {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(content);
-  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+// ============= FOREACH NODES =============
+// A foreach node reads an array from its first dependency (optionally at config.itemsPath) and runs
+// the nodes wired to its "item" port, plus everything downstream of them, once per item. Inside that
+// body the foreach dependency resolves to the current item; everywhere else it is the aggregated array.
+
+const FOREACH_ITEM_PORT = 'item';
+const DEFAULT_FOREACH_CONCURRENCY = 3;
+const MAX_FOREACH_CONCURRENCY = 10;
+const DEFAULT_FOREACH_MAX_ITEMS = 25;
+const MAX_FOREACH_ITEMS = 100;
+
+// Edges that carry control flow (condition branches, foreach item ports); all other edges are cosmetic
+const isControlEdge = (edge: Edge): boolean =>
+  [...CONDITION_BRANCH_PORTS, FOREACH_ITEM_PORT].includes(edge.from?.port);
+
+// Same-workflow nodes downstream of the given nodes (promptParts, agent sourceNodeId,
+// ssotMapDependencies and control edges)
+const collectDownstreamNodes = (startIds: string[], nodes: Node[], edges: Edge[]): Set<string> => {
+  const found = new Set<string>();
+  const visit = (nodeId: string) => {
+    for (const node of nodes) {
+      if (found.has(node.id)) continue;
+      const dependsOn =
+        (node.type === 'agent' && node.config?.sourceNodeId === nodeId) ||
+        (node.config?.promptParts || []).some((p: PromptPart) => p.type === 'dependency' && p.value === nodeId) ||
+        (node.type === 'variable' && node.config?.ssotMapMode &&
+          (node.config?.ssotMapDependencies || []).some((d: { nodeId?: string; workflowId?: string }) => d.nodeId === nodeId)) ||
+        edges.some(e => e.from?.node === nodeId && e.to?.node === node.id && isControlEdge(e));
+      if (dependsOn) {
+        found.add(node.id);
+        visit(node.id);
+      }
+    }
+  };
+  for (const id of startIds) visit(id);
+  return found;
 };
 
-// Calculate cost
-function calculateCost(model: string, promptTokens: number, completionTokens: number): number {
-  const pricing = DEFAULT_MODEL_PRICING[model] || { input: 0.10, output: 0.40 };
-  return ((promptTokens * pricing.input) + (completionTokens * pricing.output)) / 1_000_000;
-}
+// Nodes to skip after a condition resolved: everything reachable from the untaken branch
+// that is not also reachable from the taken one. A null branch (evaluation error) skips both.
+const getConditionSkipSet = (conditionNodeId: string, branch: string | null, nodes: Node[], edges: Edge[]): Set<string> => {
+  const untakenRoots = CONDITION_BRANCH_PORTS
+    .filter(port => port !== branch)
+    .flatMap(port => getConditionBranchTargets(conditionNodeId, edges, port));
+  const skip = new Set([...untakenRoots, ...collectDownstreamNodes(untakenRoots, nodes, edges)]);
+  if (branch) {
+    const takenRoots = getConditionBranchTargets(conditionNodeId, edges, branch);
+    for (const id of [...takenRoots, ...collectDownstreamNodes(takenRoots, nodes, edges)]) {
+      skip.delete(id);
+    }
+  }
+  return skip;
+};
 
-// Get all dependencies for a node (promptParts + ssotMapDependencies only, NOT visual edges)
+// Get all dependencies for a node (promptParts + ssotMapDependencies + control edges;
+// other visual edges are cosmetic)
 const getAllDependencies = (node: Node, edges: Edge[]): Array<{nodeId: string, workflowId?: string}> => {
   const promptParts: PromptPart[] = node.config?.promptParts || [];
   const promptPartDeps = promptParts
@@ -112,9 +173,14 @@ const getAllDependencies = (node: Node, edges: Edge[]): Array<{nodeId: string, w
     }
   }
   
-  // Combine and deduplicate (visual edges are cosmetic and excluded)
+  // Condition or foreach nodes gating this node via a control edge
+  const branchDeps: Array<{nodeId: string, workflowId?: string}> = edges
+    .filter(e => e.to?.node === node.id && isControlEdge(e))
+    .map(e => ({ nodeId: e.from.node }));
+  
+  // Combine and deduplicate
   const allDeps: Array<{nodeId: string, workflowId?: string}> = [...promptPartDeps];
-  for (const dep of ssotMapDeps) {
+  for (const dep of [...ssotMapDeps, ...branchDeps]) {
     if (!allDeps.some(d => d.nodeId === dep.nodeId && d.workflowId === dep.workflowId)) {
       allDeps.push(dep);
     }
@@ -123,7 +189,8 @@ const getAllDependencies = (node: Node, edges: Edge[]): Array<{nodeId: string, w
 };
 
 // Find downstream nodes (for cascade continuation)
-// NOTE: Visual edges (wires) are NOT used for downstream discovery
+// NOTE: Visual edges (wires) are NOT used for downstream discovery, except control
+// edges (condition true/false branches and foreach item ports).
 // The Prompt Builder's dependency configuration is the single source of truth
 function getDownstreamNodes(
   nodeId: string, 
@@ -161,9 +228,253 @@ function getDownstreamNodes(
     }
   }
   
+  // Targets of control edges
+  for (const edge of edges) {
+    if (edge.from?.node === nodeId && isControlEdge(edge)) {
+      downstream.add(edge.to.node);
+    }
+  }
+  
   return Array.from(downstream);
 }
 
+// Nodes run once per item by a foreach node, in execution order
+const getForeachBody = (foreachNodeId: string, nodes: Node[], edges: Edge[]): string[] => {
+  const roots = edges
+    .filter(e => e.from?.node === foreachNodeId && e.from?.port === FOREACH_ITEM_PORT)
+    .map(e => e.to.node);
+  const remaining = new Set([...roots, ...collectDownstreamNodes(roots, nodes, edges)]);
+  remaining.delete(foreachNodeId);
+
+  const ordered: string[] = [];
+  while (remaining.size > 0) {
+    const ready = [...remaining].filter(id => {
+      const bodyNode = nodes.find(n => n.id === id);
+      return !bodyNode || getAllDependencies(bodyNode, edges).every(d => d.nodeId === id || !remaining.has(d.nodeId));
+    });
+    // A cycle inside the body: run the rest in declaration order
+    const batch = ready.length > 0 ? ready : [...remaining];
+    for (const id of batch) {
+      ordered.push(id);
+      remaining.delete(id);
+    }
+  }
+  return ordered;
+};
+
+// The foreach node whose body contains the given node, if any
+const findOwningForeach = (nodeId: string, nodes: Node[], edges: Edge[]): Node | undefined => {
+  return nodes.find(n => n.type === 'foreach' && n.id !== nodeId && getForeachBody(n.id, nodes, edges).includes(nodeId));
+};
+
+// Read the array a foreach node iterates over from its first dependency
+const resolveForeachItems = (node: Node, dependencyOutputs: Record<string, unknown>, nodes: Node[]): unknown[] => {
+  const source = findConditionDependency(null, node.config?.promptParts || [], nodes);
+  if (!source) {
+    throw new Error('Foreach node has no source dependency');
+  }
+  const itemsPath = String(node.config?.itemsPath || '').trim().replace(/^\$?\.?/, '');
+  const value = resolveConditionPath(dependencyOutputs[source.value], itemsPath);
+  if (!Array.isArray(value)) {
+    throw new Error(`${itemsPath ? `"${itemsPath}"` : 'Source output'} is not an array`);
+  }
+  return value;
+};
+
+// Run worker over items with at most `limit` in flight, preserving order
+const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+};
+
+// ============= CASCADE CACHE =============
+// Cascades without force reuse a node's stored output while its config and the content
+// of its triggering dependencies are unchanged, like the cascade in run-company-workflows.
+
+// Ingest nodes read the latest submission, so they always run
+const isIngestNode = (node: Node): boolean =>
+  node.type === 'ingest' || (node.type === 'dataset' && node.config?.sourceType === 'company_ingest');
+
+// The node's stored output when it is still valid, or null when the node has to run.
+// currentHashes holds the current content hash of each dependency, keyed like dependency_hashes.
+async function findReusableOutput(
+  supabase: SupabaseClient,
+  node: Node,
+  nodes: Node[],
+  dependencies: Array<{ nodeId: string; workflowId?: string }>,
+  currentHashes: Record<string, string>,
+  companyId: string,
+  workflowId: string
+): Promise<{ output: unknown } | null> {
+  const { data: stored } = await supabase
+    .from('company_node_data')
+    .select('data, content_hash, config_hash, dependency_hashes')
+    .match({ company_id: companyId, workflow_id: workflowId, node_id: node.id })
+    .maybeSingle();
+
+  let reason: string | null = null;
+  if (!stored || !stored.content_hash) {
+    reason = 'never_executed';
+  } else if (stored.config_hash && stored.config_hash !== await hashNodeConfig(node)) {
+    reason = 'config_changed';
+  } else {
+    const storedHashes: Record<string, string> = stored.dependency_hashes || {};
+    const promptParts: PromptPart[] = node.config?.promptParts || [];
+    for (const dep of dependencies) {
+      // Live-fetch dependencies and non-triggering dependencies never cause a re-run
+      if (nodes.find(n => n.id === dep.nodeId)?.config?.fetchLive === true) continue;
+      const promptPart = promptParts.find(p =>
+        p.type === 'dependency' &&
+        p.value === dep.nodeId &&
+        (!p.workflowId || p.workflowId === dep.workflowId)
+      );
+      if (promptPart?.triggersExecution === false) continue;
+
+      const depKey = dep.workflowId ? `${dep.workflowId}:${dep.nodeId}` : dep.nodeId;
+      if (currentHashes[depKey] !== storedHashes[depKey]) {
+        reason = `dependency_changed:${dep.nodeId}`;
+        break;
+      }
+    }
+  }
+
+  if (reason) {
+    console.log(`[execute-single-node] Node ${node.id} needs execution: ${reason}`);
+    return null;
+  }
+  return { output: stored?.data?.output ?? null };
+}
+
+// ============= RUN HISTORY =============
+// Runs are recorded in execution_runs with one execution_steps row per node.
+// Recording is best-effort: a failed insert is logged and never fails the run.
+
+interface ExecutionRunFields {
+  workflow_id: string;
+  company_id: string | null;
+  run_type: 'cascade' | 'force_run' | 'node_run' | 'test_run' | 'entity_run';
+  trigger_type?: 'manual' | 'scheduled' | 'webhook' | 'api';
+  submission_id?: string | null;
+  entity_id?: string | null;
+  input_data?: Record<string, unknown>;
+}
+
+interface ExecutionStepFields {
+  node_id: string;
+  node_type: string;
+  node_label: string;
+  status: 'completed' | 'failed' | 'skipped' | 'budget_paused';
+  execution_order: number;
+  // Epoch ms when the node started
+  started_at: number;
+  input_data?: Record<string, unknown> | null;
+  output_data?: Record<string, unknown> | null;
+  error_message?: string | null;
+  tokens_used?: number | null;
+}
+
+async function startExecutionRun(supabase: SupabaseClient, fields: ExecutionRunFields): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('execution_runs')
+    .insert({
+      trigger_type: 'manual',
+      ...fields,
+      status: 'running',
+      started_at: new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+  if (error || !data) {
+    console.error('[execute-single-node] Failed to start execution run:', error);
+    return null;
+  }
+  return data.id as string;
+}
+
+// Tokens default to the AI usage the node logged since it started
+async function recordExecutionStep(
+  supabase: SupabaseClient,
+  runId: string | null,
+  companyId: string | null,
+  workflowId: string,
+  step: ExecutionStepFields
+): Promise<string | null> {
+  if (!runId) return null;
+
+  let tokensUsed = step.tokens_used;
+  if (tokensUsed === undefined && step.status !== 'skipped' && step.status !== 'budget_paused') {
+    let usageQuery = supabase
+      .from('ai_usage_logs')
+      .select('total_tokens')
+      .eq('workflow_id', workflowId)
+      .eq('node_id', step.node_id)
+      .gte('created_at', new Date(step.started_at).toISOString());
+    if (companyId) usageQuery = usageQuery.eq('company_id', companyId);
+    const { data: usage } = await usageQuery;
+    tokensUsed = (usage || []).reduce((sum: number, row: { total_tokens: number | null }) => sum + (row.total_tokens || 0), 0);
+  }
+
+  const completedAt = Date.now();
+  const { data, error } = await supabase
+    .from('execution_steps')
+    .insert({
+      execution_run_id: runId,
+      node_id: step.node_id,
+      node_type: step.node_type,
+      node_label: step.node_label,
+      status: step.status,
+      execution_order: step.execution_order,
+      input_data: step.input_data ?? null,
+      output_data: step.output_data ?? null,
+      error_message: step.error_message ?? null,
+      tokens_used: tokensUsed ?? null,
+      started_at: new Date(step.started_at).toISOString(),
+      completed_at: new Date(completedAt).toISOString(),
+      execution_time_ms: completedAt - step.started_at,
+    })
+    .select('id')
+    .single();
+  if (error || !data) {
+    console.error(`[execute-single-node] Failed to record step for node ${step.node_id}:`, error);
+    return null;
+  }
+  return data.id as string;
+}
+
+async function finishExecutionRun(
+  supabase: SupabaseClient,
+  runId: string | null,
+  startedAt: number,
+  status: 'completed' | 'failed',
+  outputData: Record<string, unknown>,
+  errorMessage: string | null = null
+): Promise<void> {
+  if (!runId) return;
+  const { error } = await supabase
+    .from('execution_runs')
+    .update({
+      status,
+      output_data: outputData,
+      error_message: errorMessage,
+      completed_at: new Date().toISOString(),
+      execution_time_ms: Date.now() - startedAt,
+    })
+    .eq('id', runId);
+  if (error) console.error('[execute-single-node] Failed to finish execution run:', error);
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -185,10 +496,24 @@ Deno.serve(async (req) => {
   const startTime = Date.now();
   
   try {
-    const { company_id, workflow_id, node_id, force = true } = await req.json();
+    const {
+      company_id,
+      workflow_id,
+      node_id: requestedNodeId,
+      // Without force, a node whose config and triggering inputs are unchanged reuses its stored output
+      force = true,
+      // The submission a cascade runs for; ingest nodes read it instead of the latest one
+      submission_id: submissionId = null,
+      // Cascades pass their run so this node is recorded as one of its steps
+      execution_run_id: parentRunId = null,
+      execution_order = 0,
+      run_type = 'node_run',
+      // Queued cascades pass their run's start so the node pauses rather than cross a cost limit
+      cost_limits_since: costLimitsSince = null,
+    } = await req.json();
 
     // Validate required fields
-    if (!company_id || !workflow_id || !node_id) {
+    if (!company_id || !workflow_id || !requestedNodeId) {
       return new Response(JSON.stringify({
         success: false,
         error: 'Missing required fields: company_id, workflow_id, node_id'
@@ -204,7 +529,7 @@ Deno.serve(async (req) => {
     const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    console.log(`[execute-single-node] v${FUNCTION_VERSION} - Starting execution for node ${node_id}`);
+    console.log(`[execute-single-node] v${FUNCTION_VERSION} - Starting execution for node ${requestedNodeId}`);
 
     // 1. Load workflow
     const { data: workflow, error: workflowError } = await supabase
@@ -225,9 +550,9 @@ Deno.serve(async (req) => {
 
     const nodes: Node[] = workflow.nodes || [];
     const edges: Edge[] = workflow.edges || [];
-    const node = nodes.find(n => n.id === node_id);
+    const requestedNode = nodes.find(n => n.id === requestedNodeId);
 
-    if (!node) {
+    if (!requestedNode) {
       return new Response(JSON.stringify({
         success: false,
         error: 'Node not found in workflow'
@@ -237,15 +562,41 @@ Deno.serve(async (req) => {
       });
     }
 
+    // Nodes inside a foreach body only run per item, so run the owning foreach instead
+    const owningForeach = findOwningForeach(requestedNodeId, nodes, edges);
+    if (owningForeach) {
+      console.log(`[execute-single-node] Node ${requestedNodeId} runs inside foreach ${owningForeach.id}, executing the foreach`);
+    }
+    const node = owningForeach || requestedNode;
+    const node_id = node.id;
+    const nodeLabel = node.label || node.data?.label || node.type;
+
+    // Run on its own: record a single-node run
+    const runId: string | null = parentRunId || await startExecutionRun(supabase, {
+      workflow_id,
+      company_id,
+      run_type,
+      input_data: { node_id: requestedNodeId, force },
+    });
+    const stepFields = { node_id, node_type: node.type, node_label: nodeLabel, execution_order, started_at: startTime };
+
     // 2. Check if node is paused
     if (node.config?.paused === true) {
       console.log(`[execute-single-node] Node ${node_id} is paused, skipping`);
+      const stepId = await recordExecutionStep(supabase, runId, company_id, workflow_id, {
+        ...stepFields,
+        status: 'skipped',
+        error_message: 'Node is paused',
+      });
+      if (!parentRunId) await finishExecutionRun(supabase, runId, startTime, 'completed', { node_id, skipped: true });
       return new Response(JSON.stringify({
         success: true,
         skipped: true,
         reason: 'paused',
         output: null,
         next_nodes: [],
+        execution_run_id: runId,
+        step_id: stepId,
         execution_time_ms: Date.now() - startTime
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -256,6 +607,22 @@ Deno.serve(async (req) => {
     const dependencies = getAllDependencies(node, edges);
     const dependencyOutputs: Record<string, any> = {};
     const dependencyHashes: Record<string, string> = {};
+    const lineage: NodeLineage = { inputs: [] };
+
+    // Within a run, same-workflow dependencies use the outputs that run produced, so a
+    // resumed run carries on from its own state rather than whatever was stored since
+    const runOutputs = new Map<string, unknown>();
+    if (parentRunId) {
+      const { data: runSteps } = await supabase
+        .from('execution_steps')
+        .select('node_id, output_data')
+        .eq('execution_run_id', parentRunId)
+        .eq('status', 'completed')
+        .order('created_at', { ascending: true });
+      for (const step of runSteps || []) {
+        if (step.output_data && 'output' in step.output_data) runOutputs.set(step.node_id, step.output_data.output);
+      }
+    }
 
     for (const dep of dependencies) {
       const targetWorkflowId = dep.workflowId || workflow_id;
@@ -264,43 +631,50 @@ Deno.serve(async (req) => {
         .select('data, content_hash')
         .match({ company_id, workflow_id: targetWorkflowId, node_id: dep.nodeId })
         .single();
+      lineage.inputs!.push({ workflow_id: targetWorkflowId, node_id: dep.nodeId, content_hash: depData?.content_hash ?? null });
+      if (depData?.content_hash) {
+        const depKey = dep.workflowId ? `${dep.workflowId}:${dep.nodeId}` : dep.nodeId;
+        dependencyHashes[depKey] = depData.content_hash;
+      }
       
       if (depData?.data?.output !== undefined) {
-        const depKey = dep.workflowId ? `${dep.workflowId}:${dep.nodeId}` : dep.nodeId;
         dependencyOutputs[dep.nodeId] = depData.data.output;
-        dependencyHashes[depKey] = depData.content_hash || '';
+      }
+      if (!dep.workflowId && runOutputs.has(dep.nodeId)) {
+        dependencyOutputs[dep.nodeId] = runOutputs.get(dep.nodeId);
       }
     }
 
+    // 3b. Reuse the stored output when nothing it was produced from has changed
+    const cached = force || isIngestNode(node)
+      ? null
+      : await findReusableOutput(supabase, node, nodes, dependencies, dependencyHashes, company_id, workflow_id);
+
+    const costLimits: CascadeCostLimits | null = costLimitsSince
+      ? {
+        settings: await loadCostBudgetSettings(supabase),
+        runStartedAt: new Date(costLimitsSince).getTime(),
+        pricingOverrides: await loadPricingOverrides(supabase),
+      }
+      : null;
+
     // 4. Execute node based on type
     let output: any = '';
     let error: string | undefined;
+    let foreachSummary: Record<string, unknown> | undefined;
+    const runDetails: NodeRunDetails = {};
+    const fanoutNodes = node.type === 'foreach' ? getForeachBody(node_id, nodes, edges) : [];
 
     try {
-      if (node.type === 'promptTemplate') {
-        output = await executePromptTemplate(node, dependencyOutputs, supabase, lovableApiKey, workflow_id, company_id);
-      } else if (node.type === 'promptPiece') {
-        output = await executePromptPiece(node, dependencyOutputs);
-      } else if (node.type === 'ingest' || (node.type === 'dataset' && node.config?.sourceType === 'company_ingest')) {
-        output = await executeIngest(node, company_id, supabase);
-      } else if (node.type === 'dataset') {
-        output = await executeDataset(node, company_id, supabase);
-      } else if (node.type === 'agent') {
-        output = await executeAgent(node, dependencyOutputs, supabase, workflow_id, company_id);
-      } else if (node.type === 'variable' && node.config?.ssotMapMode) {
-        // SSOT Map mode for Transformation nodes
-        output = await executeSSOTMap(node, dependencyOutputs, supabase, company_id, workflow_id);
-      } else if (node.type === 'integration') {
-        // Integration nodes (Firecrawl, etc.)
-        output = await executeIntegration(node, dependencyOutputs, company_id, workflow_id);
+      if (cached) {
+        console.log(`[execute-single-node] Node ${node_id} is up to date, reusing its stored output`);
+        output = cached.output;
+      } else if (node.type === 'foreach') {
+        const result = await executeForeach(node, dependencyOutputs, nodes, edges, supabase, lovableApiKey, workflow_id, company_id, runDetails, costLimits);
+        output = result.output;
+        foreachSummary = result.summary;
       } else {
-        // For unknown types, just pass through existing data
-        const { data: existing } = await supabase
-          .from('company_node_data')
-          .select('data')
-          .match({ company_id, workflow_id, node_id })
-          .single();
-        output = existing?.data?.output || '';
+        output = await executeNodeByType(node, dependencyOutputs, nodes, supabase, lovableApiKey, workflow_id, company_id, lineage, runDetails, submissionId, costLimits);
       }
     } catch (execError) {
       console.error(`[execute-single-node] Execution error for node ${node_id}:`, execError);
@@ -308,88 +682,211 @@ Deno.serve(async (req) => {
       output = `[Error: ${error}]`;
     }
 
-    // 5. Store result
-    const outputStr = typeof output === 'string' ? output : JSON.stringify(output);
-    const outputHash = await hashContent(outputStr);
+    // 4b. A cost limit stopped the node before its AI call: nothing is stored and the caller
+    // pauses the cascade here
+    if (runDetails.costBreach) {
+      const reason = describeCostBreach(runDetails.costBreach);
+      console.warn(`[execute-single-node] Pausing at node ${node_id}: ${reason}`);
+      const stepId = await recordExecutionStep(supabase, runId, company_id, workflow_id, {
+        ...stepFields,
+        status: 'budget_paused',
+        error_message: reason,
+      });
+      if (!parentRunId) await finishExecutionRun(supabase, runId, startTime, 'failed', { node_id, cost_limit: runDetails.costBreach }, reason);
+      return new Response(JSON.stringify({
+        success: false,
+        budget_paused: true,
+        cost_limit: runDetails.costBreach,
+        node_id,
+        error: reason,
+        execution_run_id: runId,
+        step_id: stepId,
+        execution_time_ms: Date.now() - startTime
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // 5. Store result (a reused output is already stored)
+    if (!cached) {
+      const outputStr = typeof output === 'string' ? output : JSON.stringify(output);
+      const outputHash = await hashContent(outputStr);
 
-    const { data: existing } = await supabase
-      .from('company_node_data')
-      .select('version')
-      .match({ company_id, workflow_id, node_id })
-      .single();
+      const { data: existing } = await supabase
+        .from('company_node_data')
+        .select('version')
+        .match({ company_id, workflow_id, node_id })
+        .single();
 
-    const newVersion = (existing?.version || 0) + 1;
+      const newVersion = (existing?.version || 0) + 1;
 
-    await supabase
-      .from('company_node_data')
-      .upsert({
-        company_id,
-        workflow_id,
-        node_id,
-        node_type: node.type,
-        node_label: node.label || node.data?.label || node.type,
-        data: { output },
-        content_hash: outputHash,
-        dependency_hashes: dependencyHashes,
-        last_executed_at: new Date().toISOString(),
-        version: newVersion,
-        updated_at: new Date().toISOString()
-      }, {
-        onConflict: 'company_id,workflow_id,node_id'
-      });
+      await supabase
+        .from('company_node_data')
+        .upsert({
+          company_id,
+          workflow_id,
+          node_id,
+          node_type: node.type,
+          node_label: nodeLabel,
+          data: {
+            output,
+            ...(foreachSummary ? { foreach: foreachSummary } : {}),
+            ...(runDetails.schemaValidation ? { schema_validation: runDetails.schemaValidation } : {}),
+          },
+          content_hash: outputHash,
+          config_hash: await hashNodeConfig(node),
+          dependency_hashes: dependencyHashes,
+          lineage,
+          status: 'completed',
+          last_executed_at: new Date().toISOString(),
+          version: newVersion,
+          updated_at: new Date().toISOString()
+        }, {
+          onConflict: 'company_id,workflow_id,node_id'
+        });
 
-    // 5b. Process shared cache outputs
-    if (node.config?.sharedCacheOutputs && Array.isArray(node.config.sharedCacheOutputs)) {
-      for (const cacheConfig of node.config.sharedCacheOutputs) {
-        if (!cacheConfig.enabled) continue;
+      // 5b. Process shared cache outputs
+      if (node.config?.sharedCacheOutputs && Array.isArray(node.config.sharedCacheOutputs)) {
+        for (const cacheConfig of node.config.sharedCacheOutputs) {
+          if (!cacheConfig.enabled) continue;
         
-        const cacheId = cacheConfig.shared_cache_id;
-        if (!cacheId) continue;
+          const cacheId = cacheConfig.shared_cache_id;
+          if (!cacheId) continue;
         
-        console.log(`[execute-single-node] Writing to shared cache: ${cacheConfig.shared_cache_name || cacheId}`);
+          console.log(`[execute-single-node] Writing to shared cache: ${cacheConfig.shared_cache_name || cacheId}`);
         
-        try {
-          const { error: cacheError } = await supabase
-            .from('shared_cache_data')
-            .upsert({
-              shared_cache_id: cacheId,
-              company_id,
-              workflow_id,
-              node_id,
-              node_label: node.label || node.data?.label || node.type,
-              data: { output },
-              content_hash: outputHash,
-              version: newVersion,
-              updated_at: new Date().toISOString()
-            }, {
-              onConflict: 'shared_cache_id,company_id,workflow_id,node_id'
-            });
+          try {
+            const { error: cacheError } = await supabase
+              .from('shared_cache_data')
+              .upsert({
+                shared_cache_id: cacheId,
+                company_id,
+                workflow_id,
+                node_id,
+                node_label: node.label || node.data?.label || node.type,
+                data: { output },
+                content_hash: outputHash,
+                version: newVersion,
+                updated_at: new Date().toISOString()
+              }, {
+                onConflict: 'shared_cache_id,company_id,workflow_id,node_id'
+              });
             
-          if (cacheError) {
-            console.error(`[execute-single-node] Failed to write to shared cache ${cacheId}:`, cacheError);
-          } else {
-            console.log(`[execute-single-node] Successfully wrote to shared cache: ${cacheConfig.shared_cache_name}`);
+            if (cacheError) {
+              console.error(`[execute-single-node] Failed to write to shared cache ${cacheId}:`, cacheError);
+            } else {
+              console.log(`[execute-single-node] Successfully wrote to shared cache: ${cacheConfig.shared_cache_name}`);
+            }
+          } catch (cacheErr) {
+            console.error(`[execute-single-node] Error writing to shared cache:`, cacheErr);
           }
-        } catch (cacheErr) {
-          console.error(`[execute-single-node] Error writing to shared cache:`, cacheErr);
         }
       }
     }
 
     // 6. Get downstream nodes for cascade
-    const nextNodes = getDownstreamNodes(node_id, nodes, edges);
+    // Foreach body nodes already ran per item, so they are not part of the cascade
+    let nextNodes = getDownstreamNodes(node_id, nodes, edges).filter(id => !fanoutNodes.includes(id));
+    let skippedNodes: string[] = [];
+
+    // 6b. Condition nodes: record the untaken branch as skipped and drop it from the cascade
+    if (node.type === 'condition' && !error) {
+      const branch = getConditionBranch(output);
+      const skipSet = getConditionSkipSet(node_id, branch, nodes, edges);
+      skippedNodes = Array.from(skipSet);
+      nextNodes = nextNodes.filter(id => !skipSet.has(id));
+
+      for (const skippedId of skippedNodes) {
+        const skippedNode = nodes.find(n => n.id === skippedId);
+        await supabase
+          .from('company_node_data')
+          .upsert({
+            company_id,
+            workflow_id,
+            node_id: skippedId,
+            node_type: skippedNode?.type || 'unknown',
+            node_label: skippedNode?.label || skippedNode?.data?.label || skippedNode?.type || skippedId,
+            data: {
+              output: null,
+              skipped: {
+                condition_node_id: node_id,
+                branch,
+                reason: branch ? `Condition took the "${branch}" branch` : 'Condition could not be evaluated',
+              },
+            },
+            content_hash: null,
+            config_hash: null,
+            dependency_hashes: {},
+            status: 'skipped',
+            updated_at: new Date().toISOString()
+          }, {
+            onConflict: 'company_id,workflow_id,node_id'
+          });
+      }
+      console.log(`[execute-single-node] Condition ${node_id} -> ${branch ?? 'error'}, skipped ${skippedNodes.length} nodes`);
+    }
+
+    // 7. Record run history: this node, then the foreach body and untaken branches it settled
+    const stepId = await recordExecutionStep(supabase, runId, company_id, workflow_id, {
+      ...stepFields,
+      status: cached ? 'skipped' : error ? 'failed' : 'completed',
+      input_data: { dependencies: dependencyOutputs },
+      output_data: foreachSummary ? { output, foreach: foreachSummary } : { output },
+      error_message: cached ? CACHED_STEP_MESSAGE : error || null,
+    });
+
+    if (runId && fanoutNodes.length > 0 && !cached) {
+      const { data: bodyRows } = await supabase
+        .from('company_node_data')
+        .select('node_id, node_type, node_label, data')
+        .match({ company_id, workflow_id })
+        .in('node_id', fanoutNodes);
+      for (const row of bodyRows || []) {
+        await recordExecutionStep(supabase, runId, company_id, workflow_id, {
+          node_id: row.node_id,
+          node_type: row.node_type,
+          node_label: row.node_label || row.node_id,
+          status: 'completed',
+          execution_order,
+          started_at: startTime,
+          output_data: { output: row.data?.output ?? null, foreach_node_id: node_id },
+        });
+      }
+    }
+
+    for (const skippedId of skippedNodes) {
+      const skippedNode = nodes.find(n => n.id === skippedId);
+      await recordExecutionStep(supabase, runId, company_id, workflow_id, {
+        node_id: skippedId,
+        node_type: skippedNode?.type || 'unknown',
+        node_label: skippedNode?.label || skippedNode?.data?.label || skippedNode?.type || skippedId,
+        status: 'skipped',
+        execution_order,
+        started_at: Date.now(),
+        error_message: `Condition branch not taken (${nodeLabel})`,
+      });
+    }
+
+    if (!parentRunId) {
+      await finishExecutionRun(supabase, runId, startTime, error ? 'failed' : 'completed', { node_id, skipped_nodes: skippedNodes.length }, error || null);
+    }
 
     const executionTime = Date.now() - startTime;
     console.log(`[execute-single-node] Completed node ${node_id} in ${executionTime}ms, ${nextNodes.length} downstream nodes`);
 
     return new Response(JSON.stringify({
       success: !error,
+      ...(cached ? { skipped: true, reason: 'cache_valid' } : {}),
       node_id,
       node_label: node.label || node_id,
       node_type: node.type,
       output: error ? undefined : output,
       error,
       next_nodes: nextNodes,
+      skipped_nodes: skippedNodes,
+      fanout_nodes: fanoutNodes,
+      execution_run_id: runId,
+      step_id: stepId,
       execution_time_ms: executionTime
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -410,16 +907,268 @@ Deno.serve(async (req) => {
 
 // ============= Node Type Executors =============
 
+// Dispatch a node to the executor for its type
+async function executeNodeByType(
+  node: Node,
+  dependencyOutputs: Record<string, unknown>,
+  nodes: Node[],
+  supabase: ReturnType<typeof createClient>,
+  lovableApiKey: string | undefined,
+  workflowId: string,
+  companyId: string,
+  lineage?: NodeLineage,
+  details?: NodeRunDetails,
+  submissionId?: string | null,
+  costLimits?: CascadeCostLimits | null
+): Promise<unknown> {
+  if (node.type === 'promptTemplate') {
+    return await executePromptTemplate(node, dependencyOutputs, supabase, lovableApiKey, workflowId, companyId, details, costLimits);
+  } else if (node.type === 'promptPiece') {
+    return await executePromptPiece(node, dependencyOutputs);
+  } else if (node.type === 'ingest' || (node.type === 'dataset' && node.config?.sourceType === 'company_ingest')) {
+    return await executeIngest(node, companyId, supabase, lineage, submissionId);
+  } else if (node.type === 'dataset') {
+    return await executeDataset(node, companyId, supabase);
+  } else if (node.type === 'agent') {
+    return await executeAgent(node, dependencyOutputs, supabase, workflowId, companyId);
+  } else if (node.type === 'variable' && node.config?.ssotMapMode) {
+    // SSOT Map mode for Transformation nodes
+    return await executeSSOTMap(node, dependencyOutputs, supabase, companyId, workflowId);
+  } else if (node.type === 'integration') {
+    // Integration nodes (Firecrawl, etc.)
+    return await executeIntegration(node, dependencyOutputs, companyId, workflowId);
+  } else if (node.type === 'condition') {
+    return executeCondition(node, dependencyOutputs, nodes);
+  } else if (node.type === 'foreach') {
+    throw new Error('Nested foreach nodes are not supported');
+  }
+
+  // For unknown types, just pass through existing data
+  const { data: existing } = await supabase
+    .from('company_node_data')
+    .select('data')
+    .match({ company_id: companyId, workflow_id: workflowId, node_id: node.id })
+    .single();
+  return existing?.data?.output || '';
+}
+
+interface ForeachItemResult {
+  foreach_node_id: string;
+  node_id: string;
+  item_index: number;
+  item: unknown;
+  output: unknown;
+  status: 'completed' | 'failed' | 'skipped';
+  error: string | null;
+  execution_time_ms: number;
+}
+
+// Run the foreach body once per item and aggregate the collect node's outputs.
+// Per-item results go to company_node_item_results; each body node's company_node_data
+// holds the array of its per-item outputs.
+async function executeForeach(
+  node: Node,
+  dependencyOutputs: Record<string, unknown>,
+  nodes: Node[],
+  edges: Edge[],
+  supabase: ReturnType<typeof createClient>,
+  lovableApiKey: string | undefined,
+  workflowId: string,
+  companyId: string,
+  details?: NodeRunDetails,
+  costLimits?: CascadeCostLimits | null
+): Promise<{ output: unknown[]; summary: Record<string, unknown> }> {
+  const config = node.config || {};
+  const body = getForeachBody(node.id, nodes, edges);
+  if (body.length === 0) {
+    throw new Error('Connect the "item" port to the nodes that should run for each item');
+  }
+
+  const allItems = resolveForeachItems(node, dependencyOutputs, nodes);
+  const maxItems = Math.min(Math.max(Number(config.maxItems) || DEFAULT_FOREACH_MAX_ITEMS, 1), MAX_FOREACH_ITEMS);
+  const concurrency = Math.min(Math.max(Number(config.concurrency) || DEFAULT_FOREACH_CONCURRENCY, 1), MAX_FOREACH_CONCURRENCY);
+  const items = allItems.slice(0, maxItems);
+  if (allItems.length > items.length) {
+    console.log(`[execute-single-node] Foreach ${node.id}: limiting ${allItems.length} items to ${maxItems}`);
+  }
+
+  // The collect node's per-item output becomes the aggregated output (defaults to the last body node)
+  const collectNodeId = body.includes(config.collectNodeId) ? config.collectNodeId : body[body.length - 1];
+
+  // Outputs of nodes outside the body that body nodes read are the same for every item
+  const sharedOutputs: Record<string, unknown> = {};
+  for (const bodyId of body) {
+    const bodyNode = nodes.find(n => n.id === bodyId);
+    if (!bodyNode) continue;
+    for (const dep of getAllDependencies(bodyNode, edges)) {
+      if (dep.nodeId === node.id || body.includes(dep.nodeId) || dep.nodeId in sharedOutputs) continue;
+      if (dep.nodeId in dependencyOutputs) {
+        sharedOutputs[dep.nodeId] = dependencyOutputs[dep.nodeId];
+        continue;
+      }
+      const { data: depData } = await supabase
+        .from('company_node_data')
+        .select('data')
+        .match({ company_id: companyId, workflow_id: dep.workflowId || workflowId, node_id: dep.nodeId })
+        .maybeSingle();
+      if (depData?.data?.output !== undefined) {
+        sharedOutputs[dep.nodeId] = depData.data.output;
+      }
+    }
+  }
+
+  console.log(`[execute-single-node] Foreach ${node.id}: ${items.length} items x ${body.length} nodes, concurrency ${concurrency}`);
+
+  const itemRuns = await runWithConcurrency(items, concurrency, async (item, index) => {
+    const outputs: Record<string, unknown> = {};
+    const skipped = new Set<string>();
+    const results: ForeachItemResult[] = [];
+    let firstError: string | null = null;
+
+    for (const bodyId of body) {
+      const bodyNode = nodes.find(n => n.id === bodyId);
+      if (!bodyNode) continue;
+      const base = { foreach_node_id: node.id, node_id: bodyId, item_index: index, item };
+
+      if (skipped.has(bodyId) || bodyNode.config?.paused === true) {
+        results.push({ ...base, output: null, status: 'skipped', error: null, execution_time_ms: 0 });
+        continue;
+      }
+
+      const nodeStart = Date.now();
+      try {
+        const output = await executeNodeByType(
+          bodyNode,
+          { ...sharedOutputs, [node.id]: item, ...outputs },
+          nodes,
+          supabase,
+          lovableApiKey,
+          workflowId,
+          companyId,
+          undefined,
+          details,
+          null,
+          costLimits
+        );
+        outputs[bodyId] = output;
+        results.push({ ...base, output, status: 'completed', error: null, execution_time_ms: Date.now() - nodeStart });
+
+        if (bodyNode.type === 'condition') {
+          for (const id of getConditionSkipSet(bodyId, getConditionBranch(output), nodes, edges)) skipped.add(id);
+        }
+      } catch (itemError) {
+        const message = itemError instanceof Error ? itemError.message : 'Execution failed';
+        console.error(`[execute-single-node] Foreach ${node.id} item ${index} failed at ${bodyId}:`, itemError);
+        firstError = firstError || message;
+        results.push({ ...base, output: null, status: 'failed', error: message, execution_time_ms: Date.now() - nodeStart });
+        // Nothing downstream of a failed node can run for this item
+        for (const id of collectDownstreamNodes([bodyId], nodes, edges)) skipped.add(id);
+      }
+    }
+
+    const collected = collectNodeId in outputs ? parseConditionOutput(outputs[collectNodeId]) : null;
+    results.push({
+      foreach_node_id: node.id,
+      node_id: node.id,
+      item_index: index,
+      item,
+      output: collected,
+      status: firstError ? 'failed' : 'completed',
+      error: firstError,
+      execution_time_ms: results.reduce((sum, r) => sum + r.execution_time_ms, 0),
+    });
+    return { results, collected, failed: firstError !== null };
+  });
+
+  // Paused by a cost limit: keep the previous results, the whole foreach runs again on resume
+  if (details?.costBreach) {
+    throw new Error(describeCostBreach(details.costBreach));
+  }
+
+  // Replace the previous run's per-item results
+  const now = new Date().toISOString();
+  await supabase
+    .from('company_node_item_results')
+    .delete()
+    .match({ company_id: companyId, workflow_id: workflowId, foreach_node_id: node.id });
+
+  const rows = itemRuns.flatMap(run => run.results).map(r => ({
+    ...r,
+    company_id: companyId,
+    workflow_id: workflowId,
+    created_at: now,
+    updated_at: now,
+  }));
+  for (let i = 0; i < rows.length; i += 500) {
+    const { error: insertError } = await supabase
+      .from('company_node_item_results')
+      .insert(rows.slice(i, i + 500));
+    if (insertError) {
+      console.error(`[execute-single-node] Failed to store foreach item results:`, insertError);
+    }
+  }
+
+  // Each body node's stored output is the array of its per-item outputs
+  const { data: existingBodyRows } = await supabase
+    .from('company_node_data')
+    .select('node_id, version')
+    .eq('company_id', companyId)
+    .eq('workflow_id', workflowId)
+    .in('node_id', body);
+  const versions = new Map<string, number>((existingBodyRows || []).map((r: { node_id: string; version: number | null }) => [r.node_id, r.version || 0]));
+
+  for (const bodyId of body) {
+    const bodyNode = nodes.find(n => n.id === bodyId);
+    const perItem = itemRuns.map(run => run.results.find(r => r.node_id === bodyId)?.output ?? null);
+    await supabase
+      .from('company_node_data')
+      .upsert({
+        company_id: companyId,
+        workflow_id: workflowId,
+        node_id: bodyId,
+        node_type: bodyNode?.type || 'unknown',
+        node_label: bodyNode?.label || bodyNode?.data?.label || bodyNode?.type || bodyId,
+        data: { output: perItem, foreach: { node_id: node.id, item_count: items.length } },
+        content_hash: await hashContent(JSON.stringify(perItem)),
+        config_hash: bodyNode ? await hashNodeConfig(bodyNode) : null,
+        dependency_hashes: {},
+        status: 'completed',
+        last_executed_at: now,
+        version: (versions.get(bodyId) || 0) + 1,
+        updated_at: now
+      }, {
+        onConflict: 'company_id,workflow_id,node_id'
+      });
+  }
+
+  const failedCount = itemRuns.filter(run => run.failed).length;
+  console.log(`[execute-single-node] Foreach ${node.id} completed: ${items.length - failedCount}/${items.length} items succeeded`);
+
+  return {
+    output: itemRuns.map(run => run.collected),
+    summary: {
+      item_count: items.length,
+      total_items: allItems.length,
+      failed_count: failedCount,
+      collect_node_id: collectNodeId,
+      body_node_ids: body,
+    },
+  };
+}
+
 async function executePromptTemplate(
   node: Node,
   dependencyOutputs: Record<string, any>,
   supabase: any,
   lovableApiKey: string | undefined,
   workflowId: string,
-  companyId: string
+  companyId: string,
+  details?: NodeRunDetails,
+  costLimits?: CascadeCostLimits | null
 ): Promise<string> {
   const config = node.config || {};
   const model = mapModelName(config.model || 'google/gemini-3-flash-preview');
+  const fallbackModels: string[] = Array.isArray(config.fallbackModels) ? config.fallbackModels : [];
   const maxTokens = config.maxTokens || config.max_tokens || 8000;
   const promptParts: PromptPart[] = config.promptParts || [];
 
@@ -455,44 +1204,43 @@ async function executePromptTemplate(
     return '[No data available - prompt was empty]';
   }
 
-  // Determine API endpoint based on model provider
-  const isPerplexityModel = model.startsWith('perplexity/');
-  const perplexityApiKey = Deno.env.get('PERPLEXITY_API_KEY');
-  
-  const apiUrl = isPerplexityModel 
-    ? 'https://api.perplexity.ai/chat/completions'
-    : 'https://ai.gateway.lovable.dev/v1/chat/completions';
-  
-  const apiKey = isPerplexityModel ? perplexityApiKey : lovableApiKey;
-  
-  if (!apiKey) {
-    throw new Error(isPerplexityModel 
-      ? 'PERPLEXITY_API_KEY not configured'
-      : 'LOVABLE_API_KEY not configured');
+  const providerError = getProviderConfigError(model);
+  if (providerError && fallbackModels.length === 0) {
+    throw new Error(providerError);
   }
-  
-  // For Perplexity, strip the provider prefix from model name
-  const apiModel = isPerplexityModel ? model.replace('perplexity/', '') : model;
 
-  console.log(`[execute-single-node] Calling ${isPerplexityModel ? 'Perplexity' : 'Lovable'} AI for "${node.label}" with model ${apiModel}, prompt length: ${prompt.length}`);
+  // Stop before a call that would cross a cascade cost limit (or after another foreach item hit one)
+  if (costLimits) {
+    const estimatedCost = calculateCost(model, estimateTokens(prompt.trim()), maxTokens, costLimits.pricingOverrides);
+    const breach = details?.costBreach
+      || await checkCascadeCostLimits(supabase, costLimits.settings, companyId, costLimits.runStartedAt, estimatedCost);
+    if (breach) {
+      if (details) details.costBreach = breach;
+      throw new Error(describeCostBreach(breach));
+    }
+  }
+
+  console.log(`[execute-single-node] Calling AI for "${node.label}" with model ${model}, prompt length: ${prompt.length}`);
+
+  // Constrain the reply to the node's output schema, if it has one
+  const outputSchema = await resolveOutputSchema(supabase, config);
+  const baseRequest = {
+    model,
+    messages: [{ role: 'user' as const, content: prompt.trim() }],
+    max_completion_tokens: maxTokens,
+  };
+  const chatRequest = outputSchema ? applyOutputSchema(baseRequest, outputSchema, node.label || node.id) : baseRequest;
 
   const aiCallStart = Date.now();
-  const response = await fetch(apiUrl, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: apiModel,
-      messages: [{ role: 'user', content: prompt.trim() }],
-      max_completion_tokens: maxTokens,
-    }),
+  // Retries and fallback models per the node's policy; servedModel is the one that answered
+  const { response, model: servedModel, attempts } = await chatCompletionWithFallback(chatRequest, {
+    fallbackModels,
+    retryPolicy: config.retryPolicy,
   });
 
   if (!response.ok) {
     const errorText = await response.text();
-    console.error(`[execute-single-node] AI error: ${response.status} - ${errorText}`);
+    console.error(`[execute-single-node] AI error after ${attempts.length} attempt(s): ${response.status} - ${errorText}`);
     
     // Detect 5xx gateway errors and create alert
     const isGatewayError = response.status >= 500 && response.status < 600;
@@ -505,26 +1253,26 @@ async function executePromptTemplate(
     if (isGatewayError) {
       try {
         await supabase.rpc('upsert_gateway_alert', {
-          _model: model,
+          _model: servedModel,
           _error_message: errorText,
           _node_id: node.id,
           _node_label: node.label || node.id,
           _workflow_id: workflowId,
           _status_code: response.status
         });
-        console.log(`[execute-single-node] Created gateway alert for ${response.status} on model ${model}`);
+        console.log(`[execute-single-node] Created gateway alert for ${response.status} on model ${servedModel}`);
       } catch (alertError) {
         console.error('[execute-single-node] Failed to create gateway alert:', alertError);
       }
     } else if (isModelError) {
       try {
         await supabase.rpc('upsert_model_alert', {
-          _model: model,
+          _model: servedModel,
           _error_message: errorText,
           _node_id: node.id,
           _status_code: response.status
         });
-        console.log(`[execute-single-node] Created model alert for ${model}`);
+        console.log(`[execute-single-node] Created model alert for ${servedModel}`);
       } catch (alertError) {
         console.error('[execute-single-node] Failed to create model alert:', alertError);
       }
@@ -534,29 +1282,57 @@ async function executePromptTemplate(
   }
 
   const data = await response.json();
-  const output = stripCodeFences(data.choices?.[0]?.message?.content || '');
+  let output = stripCodeFences(data.choices?.[0]?.message?.content || '');
   const aiCallDuration = Date.now() - aiCallStart;
 
   // Log usage
-  const usage = data.usage;
+  const usage = extractUsage(data);
   if (usage) {
-    const promptTokens = usage.prompt_tokens || 0;
-    const completionTokens = usage.completion_tokens || 0;
-    const cost = calculateCost(model, promptTokens, completionTokens);
+    const { promptTokens, completionTokens, totalTokens } = usage;
+    const cost = calculateCost(servedModel, promptTokens, completionTokens);
     
     await supabase.from('ai_usage_logs').insert({
       workflow_id: workflowId,
       company_id: companyId,
       node_id: node.id,
-      model,
+      model: servedModel,
+      requested_model: model,
+      attempt_count: attempts.length,
       prompt_tokens: promptTokens,
       completion_tokens: completionTokens,
-      total_tokens: usage.total_tokens || promptTokens + completionTokens,
+      total_tokens: totalTokens,
       estimated_cost: cost,
       execution_time_ms: aiCallDuration,
     });
     
-    console.log(`[execute-single-node] AI completed in ${aiCallDuration}ms, ${usage.total_tokens} tokens, $${cost.toFixed(6)}`);
+    console.log(`[execute-single-node] AI completed in ${aiCallDuration}ms, ${totalTokens} tokens, $${cost.toFixed(6)}`);
+  }
+
+  // Validate against the output schema, asking the model to repair invalid replies
+  if (outputSchema) {
+    const enforced = await enforceOutputSchema({
+      request: { ...chatRequest, model: servedModel },
+      content: output,
+      schema: outputSchema,
+      schemaSource: config.outputSchemaSource === 'framework' ? 'framework' : 'inline',
+    });
+    output = stripCodeFences(enforced.output);
+    if (details) details.schemaValidation = enforced.validation;
+    console.log(`[execute-single-node] Schema validation ${enforced.validation.valid ? 'passed' : 'failed'} after ${enforced.validation.attempts} attempt(s)`);
+
+    if (enforced.repairUsage) {
+      await supabase.from('ai_usage_logs').insert({
+        workflow_id: workflowId,
+        company_id: companyId,
+        node_id: node.id,
+        model: servedModel,
+        requested_model: model,
+        prompt_tokens: enforced.repairUsage.promptTokens,
+        completion_tokens: enforced.repairUsage.completionTokens,
+        total_tokens: enforced.repairUsage.totalTokens,
+        estimated_cost: calculateCost(servedModel, enforced.repairUsage.promptTokens, enforced.repairUsage.completionTokens),
+      });
+    }
   }
 
   return output;
@@ -584,11 +1360,51 @@ async function executePromptPiece(
   return text || config.text || '';
 }
 
+function executeCondition(
+  node: Node,
+  dependencyOutputs: Record<string, unknown>,
+  nodes: Node[]
+): string {
+  const config = node.config || {};
+  const expression = (config.expression || '').trim();
+  const promptParts: PromptPart[] = config.promptParts || [];
+
+  try {
+    const evaluation = evaluateConditionExpression(expression, (name) => {
+      const part = findConditionDependency(name, promptParts, nodes);
+      if (!part) {
+        throw new Error(name === null ? 'No dependency selected for $' : `Unknown reference {{${name}}}`);
+      }
+      return dependencyOutputs[part.value];
+    });
+    return JSON.stringify({
+      result: evaluation.result,
+      branch: evaluation.result ? 'true' : 'false',
+      expression,
+      resolved: evaluation.resolved,
+    });
+  } catch (condError) {
+    console.error(`[execute-single-node] Condition evaluation error:`, condError);
+    return `[Condition error: ${condError instanceof Error ? condError.message : 'Evaluation failed'}]`;
+  }
+}
+
 async function executeIngest(
   node: Node,
   companyId: string,
-  supabase: any
+  supabase: any,
+  lineage?: NodeLineage,
+  submissionId?: string | null
 ): Promise<any> {
+  // Record which submission (and which of its intake fields) the output came from
+  const recordSubmission = (submission: { id: string; raw_data?: { intake_fields?: Record<string, { value?: unknown } | null> } | null }) => {
+    if (!lineage) return;
+    lineage.submission_id = submission.id;
+    lineage.intake_fields = Object.entries(submission.raw_data?.intake_fields || {})
+      .filter(([, field]) => field?.value !== null && field?.value !== undefined && field?.value !== '')
+      .map(([key]) => key);
+  };
+
   const config = node.config || {};
   const integrationId = config.integrationId; // 'abivc' or 'abi'
   const ingestPointId = config.ingestPointId; // 'initial_submission', etc.
@@ -600,6 +1416,21 @@ async function executeIngest(
   };
   const targetSourceType = integrationId ? sourceTypeMap[integrationId] : null;
 
+  // A cascade for a specific submission reads that submission, unless it is only a run trigger
+  if (submissionId) {
+    const { data: submission } = await supabase
+      .from('company_data_submissions')
+      .select('id, raw_data')
+      .eq('id', submissionId)
+      .eq('company_id', companyId)
+      .maybeSingle();
+    if (submission?.raw_data && !submission.raw_data._trigger) {
+      console.log(`[executeIngest] Using cascade submission ${submission.id}`);
+      recordSubmission(submission);
+      return submission.raw_data;
+    }
+  }
+
   console.log(`[executeIngest] Looking for data: integration=${integrationId}, ingestPoint=${ingestPointId}, company=${companyId}`);
 
   // Query 1: Try to find matching submission with intake_fields
@@ -628,6 +1459,7 @@ async function executeIngest(
 
   if (matchingSubmission) {
     console.log(`[executeIngest] Found submission with intake_fields: ${matchingSubmission.id}`);
+    recordSubmission(matchingSubmission);
     return matchingSubmission.raw_data;
   }
 
@@ -650,6 +1482,7 @@ async function executeIngest(
 
   if (realSubmission) {
     console.log(`[executeIngest] Found real submission from sync source: ${realSubmission.id}`);
+    recordSubmission(realSubmission);
     return realSubmission.raw_data;
   }
 
@@ -669,6 +1502,7 @@ async function executeIngest(
 
   if (fallbackSubmission) {
     console.log(`[executeIngest] Using fallback submission: ${fallbackSubmission.id}`);
+    recordSubmission(fallbackSubmission);
     return fallbackSubmission.raw_data;
   }
 
@@ -891,8 +1725,10 @@ async function executeSSOTMap(
       workflow_id: workflowId,
       node_id: node.id,
       node_label: node.label || node.id,
+      source_workflow_id: mapping.workflowId || workflowId,
       source_node_id: mapping.nodeId,
       source_node_label: mapping.nodeLabel,
+      source_content_hash: await hashContent(typeof depOutput === 'string' ? depOutput : JSON.stringify(depOutput)),
       json_path: mapping.jsonPath,
       mapped_at: new Date().toISOString()
     };
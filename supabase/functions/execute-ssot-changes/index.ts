@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { resolveValueRules, validateSSOTValue } from "../_shared/ssotValidation.ts";
 
 // Version for deployment verification
 const FUNCTION_VERSION = "2.5.0-2025-01-29";
@@ -161,6 +162,37 @@ function validateStructureAddition(addition: StructureAddition): ValidationResul
   };
 }
 
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Check a change's value against its field or fact definition; violations are prefixed with the key
+async function getValueViolations(supabase: SupabaseClient, change: SSOTChange): Promise<string[]> {
+  if (change.action === "create_field") return [];
+
+  if (change.target_level === "L1C") {
+    const factKey = change.target_path.l4 || change.target_path.l3 || change.target_path.l2 || change.change_id;
+    const { data: factDef } = await supabase
+      .from("context_fact_definitions")
+      .select("fact_type, allowed_values, validation_rules")
+      .eq("fact_key", factKey)
+      .maybeSingle();
+    if (!factDef) return [];
+    const rules = resolveValueRules(factDef.fact_type, factDef.validation_rules, factDef.allowed_values);
+    return validateSSOTValue(change.value_to_write, rules).map(v => `${factKey}: ${v}`);
+  }
+
+  const fieldKey = change.target_path.l4 || change.target_path.l3 || change.target_path.l2;
+  if (!fieldKey) return [];
+  const { data: fieldDef } = await supabase
+    .from("company_field_definitions")
+    .select("field_type, validation_rules")
+    .eq("domain", change.target_path.l1)
+    .eq("field_key", fieldKey)
+    .maybeSingle();
+  if (!fieldDef) return [];
+  const rules = resolveValueRules(fieldDef.field_type, fieldDef.validation_rules);
+  return validateSSOTValue(change.value_to_write, rules).map(v => `${fieldKey}: ${v}`);
+}
+
 serve(async (req) => {
   // Health check endpoint for deployment verification
   const url = new URL(req.url);
@@ -245,6 +277,12 @@ serve(async (req) => {
       }
 
       const validation = validateChange(change);
+      const valueViolations = await getValueViolations(supabase, change);
+      if (valueViolations.length > 0) {
+        console.log(`[execute-ssot-changes] Value rules rejected ${change.change_id}: ${valueViolations.join("; ")}`);
+        validation.errors.push(...valueViolations);
+        validation.valid = false;
+      }
 
       // Determine if auto-approve applies
       const shouldAutoApprove = 
@@ -1,6 +1,20 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import {
+  calculateCost,
+  chatCompletion,
+  getProviderConfigError,
+  loadPricingOverrides,
+  mapModelName,
+  supportsSearchGrounding,
+} from "../_shared/llm.ts";
+import {
+  CONDITION_BRANCH_PORTS,
+  evaluateConditionExpression,
+  getConditionBranch,
+  getConditionBranchTargets,
+} from "../_shared/conditionExpression.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -26,86 +40,9 @@ interface PromptPart {
   value: string;
   workflowId?: string;   // Cross-workflow dependency support
   workflowName?: string; // For display purposes
+  nodeLabel?: string;    // Stored node label for cross-workflow deps
 }
 
-// Default model pricing configuration (per 1 million tokens) - used as fallback
-const DEFAULT_MODEL_PRICING: Record<string, { input: number; output: number }> = {
-  'google/gemini-3-flash-preview': { input: 0.10, output: 0.40 },
-  'google/gemini-3-pro-preview': { input: 1.25, output: 10.00 },
-  'google/gemini-2.5-pro': { input: 1.25, output: 10.00 },
-  'google/gemini-2.5-flash': { input: 0.15, output: 0.60 },
-  'google/gemini-2.5-flash-lite': { input: 0.075, output: 0.30 },
-  'openai/gpt-5.2': { input: 2.50, output: 10.00 },
-  'openai/gpt-5': { input: 2.50, output: 10.00 },
-  'openai/gpt-5-mini': { input: 0.30, output: 1.20 },
-  'openai/gpt-5-nano': { input: 0.10, output: 0.40 },
-  'perplexity/sonar': { input: 1.00, output: 1.00 },
-  'perplexity/sonar-pro': { input: 3.00, output: 15.00 },
-  'perplexity/sonar-reasoning-pro': { input: 2.00, output: 8.00 },
-  'perplexity/sonar-deep-research': { input: 2.00, output: 8.00 },
-};
-
-// Load pricing overrides from database
-async function loadPricingOverrides(supabase: any): Promise<Record<string, { input: number; output: number }>> {
-  try {
-    const { data } = await supabase
-      .from('model_pricing_overrides')
-      .select('model_id, input_cost_per_million, output_cost_per_million');
-    
-    if (!data) return {};
-    
-    return data.reduce((acc: Record<string, { input: number; output: number }>, row: any) => {
-      if (row.input_cost_per_million !== null || row.output_cost_per_million !== null) {
-        const defaultPricing = DEFAULT_MODEL_PRICING[row.model_id] || { input: 0.10, output: 0.40 };
-        acc[row.model_id] = {
-          input: row.input_cost_per_million ?? defaultPricing.input,
-          output: row.output_cost_per_million ?? defaultPricing.output,
-        };
-      }
-      return acc;
-    }, {} as Record<string, { input: number; output: number }>);
-  } catch (error) {
-    console.error('[loadPricingOverrides] Error:', error);
-    return {};
-  }
-}
-
-// Calculate cost based on token usage with overrides
-const calculateCost = (
-  model: string, 
-  promptTokens: number, 
-  completionTokens: number,
-  overrides: Record<string, { input: number; output: number }> = {}
-): number => {
-  const pricing = overrides[model] || DEFAULT_MODEL_PRICING[model] || { input: 0.10, output: 0.40 };
-  return ((promptTokens * pricing.input) + (completionTokens * pricing.output)) / 1_000_000;
-};
-
-// Map UI model names to Lovable AI model names (standardized across all edge functions)
-const mapModelName = (uiModel: string): string => {
-  const modelMap: { [key: string]: string } = {
-    // Legacy model mappings (deprecated -> current equivalents)
-    'openai-gpt-4o': 'google/gemini-3-flash-preview',
-    'gpt-4o': 'google/gemini-3-flash-preview',
-    'gpt-4': 'openai/gpt-5',
-    'claude-3.5': 'google/gemini-2.5-pro',
-    'sonar': 'google/gemini-2.5-flash',
-    'local-vllm': 'google/gemini-2.5-flash',
-    // Short name mappings (without provider prefix)
-    'gemini-2.5-pro': 'google/gemini-2.5-pro',
-    'gemini-2.5-flash': 'google/gemini-2.5-flash',
-    'gemini-2.5-flash-lite': 'google/gemini-2.5-flash-lite',
-    'gemini-3-flash-preview': 'google/gemini-3-flash-preview',
-    'gemini-3-pro-preview': 'google/gemini-3-pro-preview',
-    'gpt-5': 'openai/gpt-5',
-    'gpt-5-mini': 'openai/gpt-5-mini',
-    'gpt-5-nano': 'openai/gpt-5-nano',
-    'gpt-5.2': 'openai/gpt-5.2',
-  };
-  // Return mapped model or input as-is (allows full model IDs to pass through)
-  return modelMap[uiModel] || uiModel;
-};
-
 // Generate SHA-256 hash of content for change detection
 const hashContent = async (content: string): Promise<string> => {
   const encoder = new TextEncoder();
@@ -162,6 +99,52 @@ const shouldExecuteNode = async (
   return { needsExecution: false, reason: 'cache_valid' };
 };
 
+// ============= CONDITION NODES =============
+// Match a condition reference against the node's dependencies by label, output name or node id.
+// A null name ($) is the first dependency.
+const findConditionDependency = (name: string | null, promptParts: PromptPart[], nodes: Node[]): PromptPart | undefined => {
+  const deps = promptParts.filter(p => p.type === 'dependency');
+  if (name === null) return deps[0];
+  const target = name.trim().toLowerCase();
+  return deps.find(part => {
+    const depNode = nodes.find(n => n.id === part.value);
+    const candidates = [part.value, part.nodeLabel, depNode?.data?.label, depNode?.data?.config?.outputName];
+    return candidates.some(c => typeof c === 'string' && c.trim().toLowerCase() === target);
+  });
+};
+
+// Nodes reachable over edges from the given nodes (every edge is a dependency here)
+const collectEdgeDownstream = (startIds: string[], edges: Edge[]): Set<string> => {
+  const found = new Set<string>();
+  const queue = [...startIds];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.from?.node === current && edge.to?.node && !found.has(edge.to.node)) {
+        found.add(edge.to.node);
+        queue.push(edge.to.node);
+      }
+    }
+  }
+  return found;
+};
+
+// Nodes to skip after a condition resolved: everything reachable from the untaken branch
+// that is not also reachable from the taken one. A null branch (evaluation error) skips both.
+const getConditionSkipSet = (conditionNodeId: string, branch: string | null, edges: Edge[]): Set<string> => {
+  const untakenRoots = CONDITION_BRANCH_PORTS
+    .filter(port => port !== branch)
+    .flatMap(port => getConditionBranchTargets(conditionNodeId, edges, port));
+  const skip = new Set([...untakenRoots, ...collectEdgeDownstream(untakenRoots, edges)]);
+  if (branch) {
+    const takenRoots = getConditionBranchTargets(conditionNodeId, edges, branch);
+    for (const id of [...takenRoots, ...collectEdgeDownstream(takenRoots, edges)]) {
+      skip.delete(id);
+    }
+  }
+  return skip;
+};
+
 // Extract dependency node IDs from promptParts
 const getDependencyNodeIds = (node: Node): string[] => {
   const promptParts: PromptPart[] = node.data.config?.promptParts || [];
@@ -245,10 +228,54 @@ serve(async (req) => {
     };
     const startTime = Date.now();
 
+    // Nodes on a condition branch that was not taken
+    const skippedNodes = new Map<string, { condition_node_id: string; branch: string | null }>();
+    const applyConditionBranch = (conditionNodeId: string, conditionOutput: unknown) => {
+      const branch = getConditionBranch(conditionOutput);
+      for (const id of getConditionSkipSet(conditionNodeId, branch, edges)) {
+        if (!skippedNodes.has(id)) {
+          skippedNodes.set(id, { condition_node_id: conditionNodeId, branch });
+        }
+      }
+    };
+
     for (const nodeId of sorted) {
       const node = nodeMap.get(nodeId);
       if (!node) continue;
 
+      const skipInfo = skippedNodes.get(nodeId);
+      if (skipInfo) {
+        if (companyId) {
+          await supabase
+            .from('company_node_data')
+            .upsert({
+              company_id: companyId,
+              workflow_id: workflowId,
+              node_id: nodeId,
+              node_type: node.type,
+              node_label: node.data?.label || node.type,
+              data: {
+                output: null,
+                skipped: {
+                  ...skipInfo,
+                  reason: skipInfo.branch
+                    ? `Condition took the "${skipInfo.branch}" branch`
+                    : 'Condition could not be evaluated',
+                },
+              },
+              content_hash: null,
+              dependency_hashes: {},
+              status: 'skipped',
+              updated_at: new Date().toISOString()
+            }, {
+              onConflict: 'company_id,workflow_id,node_id'
+            });
+        }
+        executionStats.skipped.push(nodeId);
+        console.log(`Node ${nodeId}: SKIPPED (condition branch not taken)`);
+        continue;
+      }
+
       // Get dependencies from promptParts (for promptTemplate nodes)
       const promptPartDeps = getDependencyNodeIds(node);
       // Combine with edge dependencies for full picture
@@ -275,6 +302,9 @@ serve(async (req) => {
         results.set(nodeId, cached?.data?.output || '');
         executionStats.cached.push(nodeId);
         console.log(`Node ${nodeId}: CACHED (${executionReason})`);
+        if (node.type === 'condition') {
+          applyConditionBranch(nodeId, cached?.data?.output);
+        }
         continue;
       }
 
@@ -340,26 +370,14 @@ serve(async (req) => {
           console.warn(`Skipping AI call for node ${nodeId}: empty prompt`);
           results.set(nodeId, '[No data available - prompt was empty]');
         } else {
-        // Determine API endpoint and auth based on model provider
-          const isPerplexityModel = model.startsWith('perplexity/');
-          const perplexityApiKey = Deno.env.get('PERPLEXITY_API_KEY');
-          const apiUrl = isPerplexityModel 
-            ? 'https://api.perplexity.ai/chat/completions'
-            : 'https://ai.gateway.lovable.dev/v1/chat/completions';
-          const apiKey = isPerplexityModel ? perplexityApiKey : lovableApiKey;
-          
-          if (!apiKey) {
-            throw new Error(isPerplexityModel 
-              ? 'PERPLEXITY_API_KEY not configured'
-              : 'LOVABLE_API_KEY not configured');
+          const providerError = getProviderConfigError(model);
+          if (providerError) {
+            throw new Error(providerError);
           }
-          
-          // For Perplexity, strip the provider prefix from model name
-          const apiModel = isPerplexityModel ? model.replace('perplexity/', '') : model;
 
           // Build request body
           const requestBody: any = {
-            model: apiModel,
+            model,
             messages: [
               { role: 'user', content: trimmedPrompt }
             ],
@@ -369,19 +387,12 @@ serve(async (req) => {
 
           // Add Google Search grounding for Gemini models when webSearch is enabled
           // (Perplexity models have built-in web search)
-          if (!isPerplexityModel && config.webSearch && model.startsWith('google/')) {
+          if (config.webSearch && supportsSearchGrounding(model)) {
             requestBody.tools = [{ googleSearch: {} }];
           }
 
-          // Call AI API (Perplexity or Lovable Gateway)
-          const response = await fetch(apiUrl, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${apiKey}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(requestBody),
-          });
+          // Call the model's provider (gateway, Perplexity, self-hosted or mock)
+          const response = await chatCompletion(requestBody);
 
           if (!response.ok) {
             const errorText = await response.text();
@@ -576,41 +587,69 @@ serve(async (req) => {
           results.set(nodeId, JSON.stringify(schemaSnapshot, null, 2));
           console.log(`[execute-workflow] SSOT Schema snapshot: ${schemaSnapshot.total_domains} domains, ${schemaSnapshot.total_fields} fields, ${schemaSnapshot.total_context_facts} context facts (with hierarchy)`);
         } else if (config.sourceType === 'dataset' && config.datasetId && companyId) {
-          // Fetch the dataset definition to get its dependencies
-          const { data: dataset } = await supabase
-            .from('datasets')
-            .select('dependencies')
-            .eq('id', config.datasetId)
-            .maybeSingle();
-          
-          const dependencies = (dataset?.dependencies || []) as Array<{
-            workflowId: string;
-            nodeId: string;
-            nodeName: string;
-          }>;
           const aggregatedData: Record<string, any> = {};
-          
-          // For each dependency, load its output from company_node_data
-          for (const dep of dependencies) {
-            const { data: depNodeData } = await supabase
-              .from('company_node_data')
-              .select('data, node_label')
-              .match({ 
-                company_id: companyId, 
-                workflow_id: dep.workflowId, 
-                node_id: dep.nodeId 
-              })
+          let snapshotError: string | null = null;
+
+          if (config.snapshotVersion) {
+            // Pinned: use this company's latest snapshot at or before the pinned version
+            const { data: snapshot } = await supabase
+              .from('data_snapshots')
+              .select('version, snapshot_data')
+              .eq('dataset_id', config.datasetId)
+              .eq('company_id', companyId)
+              .lte('version', config.snapshotVersion)
+              .order('version', { ascending: false })
+              .limit(1)
               .maybeSingle();
+
+            for (const row of (snapshot?.snapshot_data || []) as Array<{ key: string; output: unknown }>) {
+              aggregatedData[row.key] = row.output;
+            }
+            if (!snapshot) {
+              // A pinned node must not silently run on empty data
+              snapshotError = `[Dataset error: no snapshot at or before v${config.snapshotVersion} for this company]`;
+              console.warn(`[execute-workflow] Dataset node ${nodeId}: no snapshot at or before v${config.snapshotVersion}`);
+            }
+          } else {
+            // Fetch the dataset definition to get its dependencies
+            const { data: dataset } = await supabase
+              .from('datasets')
+              .select('dependencies')
+              .eq('id', config.datasetId)
+              .maybeSingle();
+          
+            const dependencies = (dataset?.dependencies || []) as Array<{
+              workflowId: string;
+              nodeId: string;
+              nodeName: string;
+            }>;
+          
+            // For each dependency, load its output from company_node_data
+            for (const dep of dependencies) {
+              const { data: depNodeData } = await supabase
+                .from('company_node_data')
+                .select('data, node_label')
+                .match({ 
+                  company_id: companyId, 
+                  workflow_id: dep.workflowId, 
+                  node_id: dep.nodeId 
+                })
+                .maybeSingle();
             
-            if (depNodeData?.data?.output) {
-              // Use nodeName as key (converted to snake_case for consistency)
-              const key = dep.nodeName.toLowerCase().replace(/\s+/g, '_');
-              aggregatedData[key] = depNodeData.data.output;
+              if (depNodeData?.data?.output) {
+                // Use nodeName as key (converted to snake_case for consistency)
+                const key = dep.nodeName.toLowerCase().replace(/\s+/g, '_');
+                aggregatedData[key] = depNodeData.data.output;
+              }
             }
           }
           
-          results.set(nodeId, JSON.stringify(aggregatedData));
-          console.log(`[execute-workflow] Dataset node ${nodeId}: aggregated ${Object.keys(aggregatedData).length} dependencies`);
+          if (snapshotError) {
+            results.set(nodeId, snapshotError);
+          } else {
+            results.set(nodeId, JSON.stringify(aggregatedData));
+            console.log(`[execute-workflow] Dataset node ${nodeId}: aggregated ${Object.keys(aggregatedData).length} dependencies`);
+          }
         } else {
           const datasetData = config.data || [];
           results.set(nodeId, JSON.stringify(datasetData));
@@ -689,6 +728,45 @@ serve(async (req) => {
           // Unknown integration
           results.set(nodeId, `[Unknown integration: ${integrationId}]`);
         }
+      } else if (node.type === 'condition') {
+        const config = node.data.config || {};
+        const expression = (config.expression || '').trim();
+        const promptParts: PromptPart[] = config.promptParts || [];
+
+        // Load dependency outputs up front - the evaluator resolves references synchronously
+        const depOutputs = new Map<PromptPart, unknown>();
+        for (const part of promptParts.filter(p => p.type === 'dependency')) {
+          let depResult = results.get(part.value);
+          if (depResult === undefined && part.workflowId && companyId) {
+            const { data: crossWorkflowData } = await supabase
+              .from('company_node_data')
+              .select('data')
+              .match({ company_id: companyId, workflow_id: part.workflowId, node_id: part.value })
+              .single();
+            depResult = crossWorkflowData?.data?.output;
+          }
+          depOutputs.set(part, depResult);
+        }
+
+        try {
+          const evaluation = evaluateConditionExpression(expression, (name) => {
+            const part = findConditionDependency(name, promptParts, nodes);
+            if (!part) {
+              throw new Error(name === null ? 'No dependency selected for $' : `Unknown reference {{${name}}}`);
+            }
+            return depOutputs.get(part);
+          });
+          results.set(nodeId, JSON.stringify({
+            result: evaluation.result,
+            branch: evaluation.result ? 'true' : 'false',
+            expression,
+            resolved: evaluation.resolved,
+          }));
+        } catch (condError) {
+          console.error(`Condition error for node ${nodeId}:`, condError);
+          results.set(nodeId, `[Condition error: ${condError instanceof Error ? condError.message : 'Evaluation failed'}]`);
+        }
+        applyConditionBranch(nodeId, results.get(nodeId));
       }
 
       // Store result with content hash if companyId provided
@@ -729,6 +807,7 @@ serve(async (req) => {
             data: { output },
             content_hash: contentHash,
             dependency_hashes: dependencyHashes,
+            status: 'completed',
             last_executed_at: new Date().toISOString(),
             version: newVersion,
             updated_at: new Date().toISOString()
@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { calculateCost, chatCompletion } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -41,7 +42,6 @@ interface NodeSummaries {
 async function generateSummaryForMetric(
   metricName: string,
   scores: { score: number; reasoning: string | null; timestamp: string }[],
-  apiKey: string,
   nodeLabel: string | null,
   supabase: any,
   workflowId?: string,
@@ -112,21 +112,14 @@ Provide a 2-3 sentence summary that:
 Keep it concise and actionable. Focus on patterns, not individual evaluations.`;
 
   try {
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash-lite",
-        messages: [
-          { role: "system", content: "You are a concise quality analyst. Provide brief, actionable summaries." },
-          { role: "user", content: prompt }
-        ],
-        max_tokens: 200,
-        temperature: 0.3,
-      }),
+    const response = await chatCompletion({
+      model: "google/gemini-2.5-flash-lite",
+      messages: [
+        { role: "system", content: "You are a concise quality analyst. Provide brief, actionable summaries." },
+        { role: "user", content: prompt }
+      ],
+      max_tokens: 200,
+      temperature: 0.3,
     });
 
     if (!response.ok) {
@@ -151,8 +144,7 @@ Keep it concise and actionable. Focus on patterns, not individual evaluations.`;
       const promptTokens = usage.prompt_tokens || 0;
       const completionTokens = usage.completion_tokens || 0;
       const totalTokens = usage.total_tokens || promptTokens + completionTokens;
-      // Default pricing for gemini-2.5-flash-lite
-      const cost = ((promptTokens * 0.075) + (completionTokens * 0.30)) / 1_000_000;
+      const cost = calculateCost("google/gemini-2.5-flash-lite", promptTokens, completionTokens);
       
       await supabase.from('ai_usage_logs').insert({
         workflow_id: workflowId || null,
@@ -195,7 +187,6 @@ Deno.serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const lovableApiKey = Deno.env.get("LOVABLE_API_KEY")!;
     
     const supabase = createClient(supabaseUrl, supabaseKey);
     
@@ -297,9 +288,9 @@ Deno.serve(async (req) => {
       
       // Generate summaries in parallel for this node with usage tracking
       const [hallucinationSummary, dataQualitySummary, complexitySummary] = await Promise.all([
-        generateSummaryForMetric('hallucination', hallucinationData, lovableApiKey, nodeLabel, supabase, wfId, ndId),
-        generateSummaryForMetric('data_quality', dataQualityData, lovableApiKey, nodeLabel, supabase, wfId, ndId),
-        generateSummaryForMetric('complexity', complexityData, lovableApiKey, nodeLabel, supabase, wfId, ndId)
+        generateSummaryForMetric('hallucination', hallucinationData, nodeLabel, supabase, wfId, ndId),
+        generateSummaryForMetric('data_quality', dataQualityData, nodeLabel, supabase, wfId, ndId),
+        generateSummaryForMetric('complexity', complexityData, nodeLabel, supabase, wfId, ndId)
       ]);
       
       nodeSummaries[nodeKey] = {
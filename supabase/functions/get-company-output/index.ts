@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { enforceRateLimit } from '../_shared/companyLimits.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -38,6 +39,9 @@ Deno.serve(async (req) => {
       );
     }
 
+    const rateLimited = await enforceRateLimit(supabase, companyId, corsHeaders);
+    if (rateLimited) return rateLimited;
+
     // Parse query parameters
     const url = new URL(req.url);
     const outputId = url.searchParams.get('id');
@@ -1,5 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { calculateCost, chatCompletion, loadPricingOverrides, mapModelName } from '../_shared/llm.ts';
+import { enforceBudget, enforceRateLimit } from '../_shared/companyLimits.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -30,84 +32,6 @@ interface PromptPart {
   value: string;
 }
 
-// Default model pricing configuration (per 1 million tokens) - used as fallback
-const DEFAULT_MODEL_PRICING: Record<string, { input: number; output: number }> = {
-  'google/gemini-3-flash-preview': { input: 0.10, output: 0.40 },
-  'google/gemini-3-pro-preview': { input: 1.25, output: 10.00 },
-  'google/gemini-2.5-pro': { input: 1.25, output: 10.00 },
-  'google/gemini-2.5-flash': { input: 0.15, output: 0.60 },
-  'google/gemini-2.5-flash-lite': { input: 0.075, output: 0.30 },
-  'openai/gpt-5.2': { input: 2.50, output: 10.00 },
-  'openai/gpt-5': { input: 2.50, output: 10.00 },
-  'openai/gpt-5-mini': { input: 0.30, output: 1.20 },
-  'openai/gpt-5-nano': { input: 0.10, output: 0.40 },
-  'perplexity/sonar': { input: 1.00, output: 1.00 },
-  'perplexity/sonar-pro': { input: 3.00, output: 15.00 },
-  'perplexity/sonar-reasoning-pro': { input: 2.00, output: 8.00 },
-  'perplexity/sonar-deep-research': { input: 2.00, output: 8.00 },
-};
-
-// Load pricing overrides from database
-async function loadPricingOverrides(supabase: any): Promise<Record<string, { input: number; output: number }>> {
-  try {
-    const { data } = await supabase
-      .from('model_pricing_overrides')
-      .select('model_id, input_cost_per_million, output_cost_per_million');
-    
-    if (!data) return {};
-    
-    return data.reduce((acc: Record<string, { input: number; output: number }>, row: any) => {
-      if (row.input_cost_per_million !== null || row.output_cost_per_million !== null) {
-        const defaultPricing = DEFAULT_MODEL_PRICING[row.model_id] || { input: 0.10, output: 0.40 };
-        acc[row.model_id] = {
-          input: row.input_cost_per_million ?? defaultPricing.input,
-          output: row.output_cost_per_million ?? defaultPricing.output,
-        };
-      }
-      return acc;
-    }, {} as Record<string, { input: number; output: number }>);
-  } catch (error) {
-    console.error('[loadPricingOverrides] Error:', error);
-    return {};
-  }
-}
-
-// Calculate cost based on model and token usage with overrides
-function calculateCost(
-  model: string, 
-  promptTokens: number, 
-  completionTokens: number,
-  overrides: Record<string, { input: number; output: number }> = {}
-): number {
-  const pricing = overrides[model] || DEFAULT_MODEL_PRICING[model] || { input: 0.10, output: 0.40 };
-  return ((promptTokens * pricing.input) + (completionTokens * pricing.output)) / 1_000_000;
-}
-
-// Map UI model names to Lovable AI model names (standardized across all edge functions)
-const mapModelName = (uiModel: string): string => {
-  const modelMap: { [key: string]: string } = {
-    // Legacy model mappings (deprecated -> current equivalents)
-    'openai-gpt-4o': 'google/gemini-3-flash-preview',
-    'gpt-4o': 'google/gemini-3-flash-preview',
-    'gpt-4': 'openai/gpt-5',
-    'claude-3.5': 'google/gemini-2.5-pro',
-    'sonar': 'google/gemini-2.5-flash',
-    'local-vllm': 'google/gemini-2.5-flash',
-    // Short name mappings (without provider prefix)
-    'gemini-2.5-pro': 'google/gemini-2.5-pro',
-    'gemini-2.5-flash': 'google/gemini-2.5-flash',
-    'gemini-2.5-flash-lite': 'google/gemini-2.5-flash-lite',
-    'gemini-3-flash-preview': 'google/gemini-3-flash-preview',
-    'gemini-3-pro-preview': 'google/gemini-3-pro-preview',
-    'gpt-5': 'openai/gpt-5',
-    'gpt-5-mini': 'openai/gpt-5-mini',
-    'gpt-5-nano': 'openai/gpt-5-nano',
-    'gpt-5.2': 'openai/gpt-5.2',
-  };
-  // Return mapped model or input as-is (allows full model IDs to pass through)
-  return modelMap[uiModel] || uiModel;
-};
-
 // Generate SHA-256 hash of content for change detection
 const hashContent = async (content: string): Promise<string> => {
   const encoder = new TextEncoder();
@@ -220,7 +144,7 @@ Deno.serve(async (req) => {
     // Get company details
     const { data: company, error: companyDetailsError } = await supabase
       .from('companies')
-      .select('id, name, rate_limit_rpm, assigned_workflow_id')
+      .select('id, name, assigned_workflow_id')
       .eq('id', companyId)
       .single();
 
@@ -241,23 +165,13 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Check rate limiting
-    const oneMinuteAgo = new Date(Date.now() - 60 * 1000).toISOString();
-    const { count: recentSubmissions } = await supabase
-      .from('company_data_submissions')
-      .select('*', { count: 'exact', head: true })
-      .eq('company_id', companyId)
-      .gte('submitted_at', oneMinuteAgo);
+    const rateLimited = await enforceRateLimit(supabase, companyId, corsHeaders);
+    if (rateLimited) return rateLimited;
 
-    if (recentSubmissions !== null && recentSubmissions >= company.rate_limit_rpm) {
-      return new Response(
-        JSON.stringify({ 
-          error: 'Rate limit exceeded',
-          limit: company.rate_limit_rpm,
-          retry_after: 60
-        }),
-        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    // An assigned workflow means LLM calls, so the AI budget must have room
+    if (company.assigned_workflow_id) {
+      const overBudget = await enforceBudget(supabase, companyId, corsHeaders);
+      if (overBudget) return overBudget;
     }
 
     // Store the submission
@@ -529,18 +443,10 @@ Deno.serve(async (req) => {
         // Track AI call timing
         const aiCallStart = Date.now();
 
-        // Call Lovable AI
-        const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${lovableApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model,
-            messages: [{ role: 'user', content: prompt }],
-            max_completion_tokens: maxTokens,
-          }),
+        const response = await chatCompletion({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          max_completion_tokens: maxTokens,
         });
 
         if (!response.ok) {
@@ -0,0 +1,904 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import {
+  CACHED_STEP_MESSAGE,
+  collectOutputDestinations,
+  createCascadeOutputs,
+  findDependentWorkflows,
+  syncCascadeOutputs,
+  upsertExecutionSummaryAlert,
+  type WorkflowRunResult,
+} from '../_shared/cascadePostProcessing.ts';
+import { describeCostBreach, type CostLimitBreach } from '../_shared/costLimits.ts';
+import { hashNodeConfig } from '../_shared/nodeConfigHash.ts';
+import { getGraphErrors, loadOtherWorkflows } from '../_shared/graphValidation.ts';
+
+// Version for deployment verification
+const FUNCTION_VERSION = "1.0.0-2026-02-12";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Stop taking on new nodes after this long so the invocation ends before the edge timeout.
+// Unfinished jobs go back to the queue and the worker re-invokes itself to continue.
+const WORKER_TIME_BUDGET_MS = 100_000;
+// A running job whose worker has not heartbeated for this long is considered abandoned
+const JOB_LEASE_SECONDS = 600;
+const MAX_JOBS_PER_INVOCATION = 20;
+// Failed jobs are retried after 1, 2, 4... minutes
+const RETRY_BASE_DELAY_MS = 60_000;
+
+// Decorative canvas elements are never executed
+const NON_EXECUTABLE_TYPES = new Set(['note', 'divider', 'shape', 'floatingEndpoint']);
+// Condition branch and foreach item ports carry control flow; other edges are cosmetic
+const CONTROL_EDGE_PORTS = ['true', 'false', 'item'];
+
+interface Node {
+  id: string;
+  type: string;
+  label?: string;
+  config?: {
+    promptParts?: PromptPart[];
+    sourceNodeId?: string;
+    ssotMapMode?: boolean;
+    ssotMapDependencies?: Array<{ nodeId?: string; workflowId?: string }>;
+    paused?: boolean;
+    sourceType?: string;
+  };
+  data?: { label?: string };
+}
+
+interface Edge {
+  from: { node: string; port: string };
+  to: { node: string; port: string };
+}
+
+interface PromptPart {
+  type: 'text' | 'prompt' | 'dependency' | 'framework';
+  value: string;
+  workflowId?: string;
+  triggersExecution?: boolean;
+}
+
+interface Job {
+  id: string;
+  company_id: string | null;
+  workflow_id: string;
+  execution_run_id: string | null;
+  payload: {
+    type?: string;
+    company_id?: string;
+    submission_id?: string | null;
+    force?: boolean;
+    start_from_node_id?: string | null;
+    // Only run nodes with outputs from an older node config, plus their downstream;
+    // the resolved node ids are saved on first pickup so later invocations keep the same scope
+    refresh_stale?: boolean;
+    refresh_node_ids?: string[];
+    trigger_type?: string;
+    // Queue the company's workflows that read this workflow's outputs once it completes
+    cascade_dependents?: boolean;
+  };
+  priority: string;
+  retry_count: number;
+  max_retries: number;
+}
+
+// Response shape of execute-single-node
+interface NodeExecutionResult {
+  success: boolean;
+  skipped?: boolean;
+  reason?: string;
+  output?: unknown;
+  error?: string;
+  skipped_nodes?: string[];
+  fanout_nodes?: string[];
+  step_id?: string | null;
+  // The node stopped before an AI call that would cross a cascade cost limit
+  budget_paused?: boolean;
+  cost_limit?: CostLimitBreach;
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+type JobOutcome = 'completed' | 'failed' | 'retrying' | 'yielded' | 'budget_paused';
+
+// job_queue.result of a finished cascade job
+interface CascadeJobResult {
+  workflow_name: string;
+  // 'cached' when nothing past the ingest nodes had to run
+  status: 'completed' | 'cached';
+  total_nodes: number;
+  completed: number;
+  skipped: number;
+  paused_nodes: number;
+  node_ids: { executed: string[]; cached: string[]; skipped: string[] };
+}
+
+// Same-workflow nodes this node waits for (promptParts, agent sourceNodeId, ssotMapDependencies, control edges).
+// Non-triggering prompt dependencies only read the stored output, so they do not order execution.
+const getUpstreamNodeIds = (node: Node, edges: Edge[], workflowId: string): string[] => {
+  const upstream = new Set<string>();
+  for (const part of node.config?.promptParts || []) {
+    if (part.type === 'dependency' && part.triggersExecution !== false && (!part.workflowId || part.workflowId === workflowId)) {
+      upstream.add(part.value);
+    }
+  }
+  if (node.type === 'agent' && node.config?.sourceNodeId) {
+    upstream.add(node.config.sourceNodeId);
+  }
+  if (node.type === 'variable' && node.config?.ssotMapMode) {
+    for (const dep of node.config?.ssotMapDependencies || []) {
+      if (dep.nodeId && (!dep.workflowId || dep.workflowId === workflowId)) upstream.add(dep.nodeId);
+    }
+  }
+  for (const edge of edges) {
+    if (edge.to?.node === node.id && CONTROL_EDGE_PORTS.includes(edge.from?.port)) {
+      upstream.add(edge.from.node);
+    }
+  }
+  upstream.delete(node.id);
+  return Array.from(upstream);
+};
+
+// Kahn's algorithm over executable nodes. Nodes in a dependency cycle, or downstream of one,
+// have no valid position and are returned as blocked (same as orderNodes in run-company-workflows).
+const getExecutionOrder = (nodes: Node[], edges: Edge[], workflowId: string): { order: string[]; blocked: string[] } => {
+  const executable = nodes.filter(n => !NON_EXECUTABLE_TYPES.has(n.type));
+  const ids = new Set(executable.map(n => n.id));
+  const inDegree = new Map<string, number>();
+  const dependents = new Map<string, string[]>();
+  for (const node of executable) {
+    const upstream = getUpstreamNodeIds(node, edges, workflowId).filter(id => ids.has(id));
+    inDegree.set(node.id, upstream.length);
+    for (const id of upstream) {
+      dependents.set(id, [...(dependents.get(id) || []), node.id]);
+    }
+  }
+
+  const queue = executable.filter(n => inDegree.get(n.id) === 0).map(n => n.id);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    order.push(current);
+    for (const next of dependents.get(current) || []) {
+      inDegree.set(next, (inDegree.get(next) || 0) - 1);
+      if (inDegree.get(next) === 0) queue.push(next);
+    }
+  }
+  const ordered = new Set(order);
+  return { order, blocked: executable.filter(n => !ordered.has(n.id)).map(n => n.id) };
+};
+
+// Nodes downstream of the given nodes (transitively)
+const collectDownstream = (startIds: string[], nodes: Node[], edges: Edge[], workflowId: string): Set<string> => {
+  const found = new Set<string>();
+  const queue = [...startIds];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const node of nodes) {
+      if (found.has(node.id)) continue;
+      if (getUpstreamNodeIds(node, edges, workflowId).includes(current)) {
+        found.add(node.id);
+        queue.push(node.id);
+      }
+    }
+  }
+  return found;
+};
+
+// Nodes whose stored output for the company was produced by a different node config
+async function findStaleNodeIds(supabase: SupabaseClient, companyId: string, workflowId: string, nodes: Node[]): Promise<string[]> {
+  const { data: rows, error } = await supabase
+    .from('company_node_data')
+    .select('node_id, config_hash')
+    .eq('company_id', companyId)
+    .eq('workflow_id', workflowId)
+    .not('config_hash', 'is', null);
+  if (error) throw new Error(`Failed to load stored outputs: ${error.message}`);
+
+  const storedHashes = new Map((rows || []).map((row: { node_id: string; config_hash: string }) => [row.node_id, row.config_hash]));
+  const stale: string[] = [];
+  for (const node of nodes) {
+    const storedHash = storedHashes.get(node.id);
+    if (storedHash && storedHash !== await hashNodeConfig(node)) stale.push(node.id);
+  }
+  return stale;
+}
+
+// Run one node through execute-single-node, which loads dependencies, stores the output
+// and records the node's steps on the run
+async function executeNode(
+  supabaseUrl: string,
+  serviceKey: string,
+  job: Job,
+  companyId: string,
+  nodeId: string,
+  runId: string,
+  executionOrder: number,
+  costLimitsSince: string | null
+): Promise<NodeExecutionResult> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/execute-single-node`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${serviceKey}`,
+    },
+    body: JSON.stringify({
+      company_id: companyId,
+      workflow_id: job.workflow_id,
+      node_id: nodeId,
+      // Without force, nodes whose config and inputs are unchanged reuse their stored output
+      force: job.payload.force === true,
+      submission_id: job.payload.submission_id || null,
+      execution_run_id: runId,
+      execution_order: executionOrder,
+      cost_limits_since: costLimitsSince,
+    }),
+  });
+  try {
+    return await response.json();
+  } catch {
+    return { success: false, error: `execute-single-node returned ${response.status}` };
+  }
+}
+
+// Execution summary alert of a company cascade, from its finished jobs
+async function reportCascadeSummary(
+  supabase: SupabaseClient,
+  companyId: string,
+  jobs: Array<{ workflow_id: string; status: string; result: CascadeJobResult | null }>
+) {
+  const { data: workflows } = await supabase
+    .from('workflows')
+    .select('id, name')
+    .in('id', jobs.map(j => j.workflow_id));
+  const names = new Map<string, string>((workflows || []).map((w: { id: string; name: string }) => [w.id, w.name]));
+
+  const workflowResults: WorkflowRunResult[] = jobs.map(j => ({
+    workflow_id: j.workflow_id,
+    workflow_name: j.result?.workflow_name || names.get(j.workflow_id) || j.workflow_id,
+    status: j.status === 'completed' ? j.result?.status || 'completed' : j.status,
+    executed: j.result?.node_ids?.executed,
+    cached: j.result?.node_ids?.cached,
+    skipped: j.result?.node_ids?.skipped,
+  }));
+  await upsertExecutionSummaryAlert(supabase, companyId, workflowResults, {
+    totalWorkflows: jobs.length,
+    pausedNodes: jobs.reduce((sum, j) => sum + (j.result?.paused_nodes || 0), 0),
+  });
+}
+
+// Once no other job of the job's submission is pending, mark the submission done and
+// record the cascade's summary alert. A job without a submission is its own cascade.
+async function finalizeSubmission(supabase: SupabaseClient, job: Job, runId: string | null) {
+  const submissionId = job.payload.submission_id;
+  const companyId = job.payload.company_id || job.company_id;
+
+  let jobsQuery = supabase.from('job_queue').select('workflow_id, status, result');
+  if (submissionId) {
+    const { count } = await supabase
+      .from('job_queue')
+      .select('id', { count: 'exact', head: true })
+      .eq('payload->>submission_id', submissionId)
+      .in('status', ['queued', 'running']);
+    if ((count || 0) > 0) return;
+    jobsQuery = jobsQuery.eq('payload->>submission_id', submissionId);
+  } else {
+    jobsQuery = jobsQuery.eq('id', job.id);
+  }
+  const { data: jobs } = await jobsQuery;
+  const cascadeJobs = (jobs || []) as Array<{ workflow_id: string; status: string; result: CascadeJobResult | null }>;
+
+  if (submissionId) {
+    const failedCount = cascadeJobs.filter(j => j.status === 'failed').length;
+    const pausedCount = cascadeJobs.filter(j => j.status === 'budget_paused').length;
+    await supabase
+      .from('company_data_submissions')
+      .update({
+        status: failedCount > 0 ? 'failed' : pausedCount > 0 ? 'budget_paused' : 'completed',
+        error_message: failedCount > 0
+          ? `${failedCount} workflow job(s) failed`
+          : pausedCount > 0 ? `${pausedCount} workflow job(s) paused by a cost limit` : null,
+        ...(runId ? { execution_run_id: runId } : {}),
+        processed_at: new Date().toISOString(),
+      })
+      .eq('id', submissionId);
+  }
+
+  if (companyId && cascadeJobs.length > 0) {
+    await reportCascadeSummary(supabase, companyId, cascadeJobs);
+  }
+}
+
+// Push the outputs of the nodes a run executed to their configured destinations
+async function syncExecutedOutputs(
+  supabase: SupabaseClient,
+  job: Job,
+  companyId: string,
+  workflow: { id: string; name: string },
+  nodes: Node[],
+  executedIds: string[]
+) {
+  if (executedIds.length === 0) return;
+  const { data: rows } = await supabase
+    .from('company_node_data')
+    .select('node_id, data, version, updated_at')
+    .eq('company_id', companyId)
+    .eq('workflow_id', workflow.id)
+    .in('node_id', executedIds);
+
+  const outputs = createCascadeOutputs();
+  for (const row of (rows || []) as Array<{ node_id: string; data: { output?: unknown } | null; version: number; updated_at: string }>) {
+    const node = nodes.find(n => n.id === row.node_id);
+    if (node) collectOutputDestinations(outputs, node, workflow, row.data?.output, row.version, row.updated_at);
+  }
+  await syncCascadeOutputs(companyId, job.payload.submission_id || null, outputs);
+}
+
+// Queue the company's other workflows that read nodes this job executed, unless the
+// cascade already has a job for them
+async function enqueueDependentWorkflows(supabase: SupabaseClient, job: Job, companyId: string, executedIds: string[]) {
+  const covered = new Set([job.workflow_id]);
+  if (job.payload.submission_id) {
+    const { data: cascadeJobs } = await supabase
+      .from('job_queue')
+      .select('workflow_id')
+      .eq('payload->>submission_id', job.payload.submission_id);
+    for (const cascadeJob of (cascadeJobs || []) as Array<{ workflow_id: string }>) covered.add(cascadeJob.workflow_id);
+  }
+
+  const executed = executedIds.map(nodeId => ({ workflowId: job.workflow_id, nodeId }));
+  for (const dependent of await findDependentWorkflows(supabase, executed, covered)) {
+    const { error } = await supabase.from('job_queue').insert({
+      company_id: companyId,
+      workflow_id: dependent.id,
+      priority: job.priority,
+      payload: {
+        type: 'company_cascade',
+        company_id: companyId,
+        submission_id: job.payload.submission_id || null,
+        force: false,
+        start_from_node_id: null,
+        trigger_type: job.payload.trigger_type || 'api',
+      },
+    });
+    if (error) {
+      console.error(`[process-job-queue] Failed to queue dependent workflow ${dependent.id}:`, error);
+    } else {
+      console.log(`[process-job-queue] Cross-workflow cascade: queued workflow "${dependent.name}" (${dependent.id})`);
+    }
+  }
+}
+
+// Retry with exponential backoff, or fail the job and its run once out of retries.
+// runId is null when the job failed before its run was created.
+async function failJob(supabase: SupabaseClient, job: Job, runId: string | null, message: string): Promise<JobOutcome> {
+  const retryCount = job.retry_count + 1;
+  const now = new Date();
+
+  if (retryCount > job.max_retries) {
+    await supabase
+      .from('job_queue')
+      .update({ status: 'failed', retry_count: retryCount, error_message: message, completed_at: now.toISOString(), worker_id: null })
+      .eq('id', job.id);
+    if (runId) {
+      await supabase
+        .from('execution_runs')
+        .update({ status: 'failed', error_message: message, retry_count: retryCount, completed_at: now.toISOString() })
+        .eq('id', runId);
+    }
+    await finalizeSubmission(supabase, job, runId);
+    console.error(`[process-job-queue] Job ${job.id} failed permanently: ${message}`);
+    return 'failed';
+  }
+
+  const delayMs = RETRY_BASE_DELAY_MS * Math.pow(2, retryCount - 1);
+  await supabase
+    .from('job_queue')
+    .update({
+      status: 'queued',
+      retry_count: retryCount,
+      error_message: message,
+      scheduled_for: new Date(now.getTime() + delayMs).toISOString(),
+      worker_id: null,
+      picked_up_at: null,
+    })
+    .eq('id', job.id);
+  if (runId) {
+    await supabase
+      .from('execution_runs')
+      .update({ status: 'queued', error_message: message, retry_count: retryCount })
+      .eq('id', runId);
+  }
+  console.warn(`[process-job-queue] Job ${job.id} failed (attempt ${retryCount}/${job.max_retries + 1}), retrying in ${delayMs / 1000}s: ${message}`);
+  return 'retrying';
+}
+
+// A cost limit stopped the job: its run waits as budget_paused until an admin approves
+// continuation, which re-queues the job (run-company-workflows resume_run_id + approve_budget)
+async function pauseJobForBudget(
+  supabase: SupabaseClient,
+  job: Job,
+  runId: string,
+  companyId: string,
+  workflowName: string,
+  breach: CostLimitBreach,
+  pausedNodeIds: string[]
+): Promise<JobOutcome> {
+  const reason = describeCostBreach(breach);
+  const now = new Date().toISOString();
+
+  await supabase
+    .from('job_queue')
+    .update({ status: 'budget_paused', error_message: reason, completed_at: now, worker_id: null })
+    .eq('id', job.id);
+  const { data: run } = await supabase
+    .from('execution_runs')
+    .select('started_at')
+    .eq('id', runId)
+    .single();
+  await supabase
+    .from('execution_runs')
+    .update({
+      status: 'budget_paused',
+      output_data: { budget_paused: pausedNodeIds.length, cost_limit: breach },
+      error_message: reason,
+      execution_time_ms: run?.started_at ? Date.now() - new Date(run.started_at).getTime() : null,
+    })
+    .eq('id', runId);
+
+  // One open alert per cascade; later paused jobs of the same submission add their nodes to it
+  const affectedModel = job.payload.submission_id ? `submission:${job.payload.submission_id}` : `run:${runId}`;
+  const { data: openAlert } = await supabase
+    .from('system_alerts')
+    .select('id, affected_nodes')
+    .eq('alert_type', 'budget_paused')
+    .eq('affected_model', affectedModel)
+    .eq('is_resolved', false)
+    .limit(1)
+    .maybeSingle();
+  if (openAlert) {
+    await supabase
+      .from('system_alerts')
+      .update({ affected_nodes: [...new Set([...(openAlert.affected_nodes || []), ...pausedNodeIds])] })
+      .eq('id', openAlert.id);
+  } else {
+    const { data: company } = await supabase
+      .from('companies')
+      .select('name')
+      .eq('id', companyId)
+      .single();
+    const { error: alertError } = await supabase
+      .from('system_alerts')
+      .insert({
+        alert_type: 'budget_paused',
+        severity: 'warning',
+        title: `Cascade Paused by Cost Limit: ${company?.name || 'Unknown Company'}`,
+        description: `${reason}. ${pausedNodeIds.length} node(s) in "${workflowName}" are waiting. Approve continuation from Workflow Execution Status.`,
+        affected_model: affectedModel,
+        affected_nodes: pausedNodeIds,
+        action_url: '/admin?tab=errors',
+      });
+    if (alertError) {
+      console.error('[process-job-queue] Failed to create budget pause alert:', alertError);
+    }
+  }
+
+  await finalizeSubmission(supabase, job, runId);
+  console.warn(`[process-job-queue] Job ${job.id} paused by cost limit: ${pausedNodeIds.length} node(s) waiting`);
+  return 'budget_paused';
+}
+
+// Run a company cascade job node by node. Steps already completed or skipped in this run
+// (from an earlier attempt or invocation) are not executed again.
+async function processCompanyCascadeJob(
+  supabase: SupabaseClient,
+  job: Job,
+  deadline: number,
+  workerId: string
+): Promise<JobOutcome> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const companyId = job.payload.company_id || job.company_id;
+  const workflowId = job.workflow_id;
+  const startTime = Date.now();
+
+  // 1. Create or resume the execution run
+  let runId = job.execution_run_id;
+  // Cost limits count the run's spend from its start; an approved budget pause lifts them
+  let costLimitsSince: string | null = new Date().toISOString();
+  if (!runId) {
+    const { data: run, error: runError } = await supabase
+      .from('execution_runs')
+      .insert({
+        workflow_id: workflowId,
+        company_id: companyId,
+        status: 'running',
+        run_type: 'cascade',
+        trigger_type: job.payload.trigger_type || 'api',
+        submission_id: job.payload.submission_id || null,
+        input_data: job.payload,
+        max_retries: job.max_retries,
+        started_at: costLimitsSince,
+      })
+      .select('id')
+      .single();
+    if (runError || !run) throw new Error(`Failed to create execution run: ${runError?.message}`);
+    runId = run.id as string;
+    await supabase.from('job_queue').update({ execution_run_id: runId }).eq('id', job.id);
+  } else {
+    const { data: run } = await supabase
+      .from('execution_runs')
+      .update({ status: 'running', retry_count: job.retry_count, error_message: null })
+      .eq('id', runId)
+      .select('started_at, input_data')
+      .single();
+    costLimitsSince = run?.input_data?.budget_approved_at ? null : run?.started_at || costLimitsSince;
+  }
+
+  if (!companyId) {
+    return await failJob(supabase, { ...job, retry_count: job.max_retries }, runId, 'Job payload is missing company_id');
+  }
+
+  // Over-budget companies fail without retrying; the budget only frees up next month
+  const { data: budget, error: budgetError } = await supabase.rpc('check_company_budget', { _company_id: companyId });
+  if (budgetError) {
+    console.error('[process-job-queue] Budget check failed:', budgetError);
+  } else if (budget && !(budget as { allowed: boolean }).allowed) {
+    return await failJob(supabase, { ...job, retry_count: job.max_retries }, runId, 'Monthly AI budget exceeded');
+  }
+
+  if (job.payload.submission_id) {
+    await supabase
+      .from('company_data_submissions')
+      .update({ status: 'processing', execution_run_id: runId })
+      .eq('id', job.payload.submission_id)
+      .eq('status', 'pending');
+  }
+
+  // 2. Load the workflow and work out what to run
+  const { data: workflow, error: workflowError } = await supabase
+    .from('workflows')
+    .select('id, name, nodes, edges')
+    .eq('id', workflowId)
+    .single();
+  if (workflowError || !workflow) {
+    return await failJob(supabase, { ...job, retry_count: job.max_retries }, runId, 'Workflow not found');
+  }
+
+  const nodes: Node[] = workflow.nodes || [];
+  const edges: Edge[] = workflow.edges || [];
+  // Graph errors (dangling dependencies, mismatched wires, cycles across workflows) do not go away on retry
+  const graphErrors = getGraphErrors({ workflowId, nodes, edges, otherWorkflows: await loadOtherWorkflows(supabase) });
+  if (graphErrors.length > 0) {
+    console.error(`[process-job-queue] Workflow "${workflow.name}" has graph errors, not running: ${graphErrors.join('; ')}`);
+    return await failJob(supabase, { ...job, retry_count: job.max_retries }, runId, graphErrors.join('; '));
+  }
+  const { order: sortedIds, blocked: cycleIds } = getExecutionOrder(nodes, edges, workflowId);
+  // A dependency cycle has no valid order and does not go away on retry
+  if (cycleIds.length > 0) {
+    const cycleLabels = cycleIds.map(id => {
+      const node = nodes.find(n => n.id === id);
+      return node?.label || node?.data?.label || id;
+    }).join(', ');
+    console.error(`[process-job-queue] Dependency cycle in workflow "${workflow.name}", not running: ${cycleLabels}`);
+    return await failJob(supabase, { ...job, retry_count: job.max_retries }, runId, `Dependency cycle involving ${cycleLabels}`);
+  }
+  let order = sortedIds;
+
+  const startNodeId = job.payload.start_from_node_id;
+  if (startNodeId) {
+    const inScope = new Set([startNodeId, ...collectDownstream([startNodeId], nodes, edges, workflowId)]);
+    order = order.filter(id => inScope.has(id));
+  }
+
+  if (job.payload.refresh_stale) {
+    let refreshIds = job.payload.refresh_node_ids;
+    if (!refreshIds) {
+      const staleIds = await findStaleNodeIds(supabase, companyId, workflowId, nodes);
+      refreshIds = [...staleIds, ...collectDownstream(staleIds, nodes, edges, workflowId)];
+      const payload = { ...job.payload, refresh_node_ids: refreshIds };
+      await supabase.from('job_queue').update({ payload }).eq('id', job.id);
+      await supabase.from('execution_runs').update({ input_data: payload }).eq('id', runId);
+      console.log(`[process-job-queue] Job ${job.id}: ${staleIds.length} stale node(s), refreshing ${refreshIds.length}`);
+    }
+    const inScope = new Set(refreshIds);
+    order = order.filter(id => inScope.has(id));
+  }
+
+  // Paused nodes and everything downstream of them are left alone
+  const pausedIds = nodes.filter(n => n.config?.paused === true).map(n => n.id);
+  const blocked = new Set([...pausedIds, ...collectDownstream(pausedIds, nodes, edges, workflowId)]);
+
+  // 3. Resume: skip nodes already finished in this run
+  const { data: existingSteps } = await supabase
+    .from('execution_steps')
+    .select('node_id, status')
+    .eq('execution_run_id', runId)
+    .order('created_at', { ascending: true });
+  const finished = new Set<string>();
+  const failed = new Set<string>();
+  for (const step of existingSteps || []) {
+    if (step.status === 'completed' || step.status === 'skipped') {
+      finished.add(step.node_id);
+      failed.delete(step.node_id);
+    } else {
+      finished.delete(step.node_id);
+      if (step.status === 'failed') failed.add(step.node_id);
+    }
+  }
+  // Anything downstream of a failed node saw its bad output, so it runs again too
+  for (const staleId of collectDownstream(Array.from(failed), nodes, edges, workflowId)) {
+    finished.delete(staleId);
+  }
+  if (finished.size > 0) {
+    console.log(`[process-job-queue] Resuming job ${job.id}: ${finished.size}/${order.length} nodes already done`);
+  }
+
+  const recordStep = async (node: Node | undefined, nodeId: string, fields: Record<string, unknown>) => {
+    const now = new Date().toISOString();
+    await supabase.from('execution_steps').insert({
+      execution_run_id: runId,
+      node_id: nodeId,
+      node_type: node?.type || 'unknown',
+      node_label: node?.label || node?.data?.label || nodeId,
+      execution_order: order.indexOf(nodeId),
+      started_at: now,
+      completed_at: now,
+      execution_time_ms: 0,
+      ...fields,
+    });
+    finished.add(nodeId);
+  };
+
+  let executedCount = 0;
+
+  // 4. Execute in order
+  for (const nodeId of order) {
+    if (finished.has(nodeId)) continue;
+    const node = nodes.find(n => n.id === nodeId);
+
+    if (blocked.has(nodeId)) {
+      await recordStep(node, nodeId, { status: 'skipped', error_message: 'Paused or downstream of a paused node' });
+      continue;
+    }
+
+    // Out of time: hand the job back to the queue and let the next invocation continue
+    if (Date.now() > deadline) {
+      await supabase
+        .from('job_queue')
+        .update({ status: 'queued', worker_id: null, picked_up_at: null, scheduled_for: new Date().toISOString() })
+        .eq('id', job.id);
+      console.log(`[process-job-queue] Job ${job.id} yielded after ${executedCount} nodes (time budget reached)`);
+      return 'yielded';
+    }
+
+    // Heartbeat so the lease does not expire while this worker is alive
+    await supabase.from('job_queue').update({ worker_id: workerId }).eq('id', job.id);
+
+    const result = await executeNode(supabaseUrl, serviceKey, job, companyId, nodeId, runId, order.indexOf(nodeId), costLimitsSince);
+    executedCount++;
+
+    // Paused by a cost limit: the rest of the workflow waits as budget_paused steps on the same run
+    if (result.budget_paused && result.cost_limit) {
+      const reason = describeCostBreach(result.cost_limit);
+      const pendingIds = order.filter(id => id !== nodeId && !finished.has(id) && !blocked.has(id));
+      for (const pendingId of pendingIds) {
+        await recordStep(nodes.find(n => n.id === pendingId), pendingId, { status: 'budget_paused', error_message: reason });
+      }
+      return await pauseJobForBudget(supabase, job, runId, companyId, workflow.name, result.cost_limit, [nodeId, ...pendingIds]);
+    }
+
+    if (!result.success) {
+      // execute-single-node records failed steps itself; only a failed call leaves no step
+      if (!result.step_id) {
+        await recordStep(node, nodeId, { status: 'failed', error_message: result.error || 'Execution failed' });
+      }
+      const label = node?.label || nodeId;
+      return await failJob(supabase, job, runId, `Failed at "${label}": ${result.error || 'Execution failed'}`);
+    }
+
+    // The node, its foreach body and untaken condition branches are all recorded by now
+    finished.add(nodeId);
+    for (const settledId of [...(result.skipped_nodes || []), ...(result.fanout_nodes || [])]) {
+      finished.add(settledId);
+    }
+  }
+
+  // 5. Done
+  const { data: steps } = await supabase
+    .from('execution_steps')
+    .select('node_id, status, error_message')
+    .eq('execution_run_id', runId)
+    .order('created_at', { ascending: true });
+  const summary = {
+    total_nodes: order.length,
+    completed: (steps || []).filter((s: { status: string }) => s.status === 'completed').length,
+    skipped: (steps || []).filter((s: { status: string }) => s.status === 'skipped').length,
+  };
+  // Each node's latest step decides whether it ran, reused its output or was skipped
+  const latestSteps = new Map<string, { status: string; error_message: string | null }>();
+  for (const step of (steps || []) as Array<{ node_id: string; status: string; error_message: string | null }>) {
+    latestSteps.set(step.node_id, step);
+  }
+  const nodeIds: CascadeJobResult['node_ids'] = { executed: [], cached: [], skipped: [] };
+  for (const [nodeId, step] of latestSteps) {
+    if (step.status === 'completed') nodeIds.executed.push(nodeId);
+    else if (step.status === 'skipped' && step.error_message === CACHED_STEP_MESSAGE) nodeIds.cached.push(nodeId);
+    else if (step.status === 'skipped') nodeIds.skipped.push(nodeId);
+  }
+  const isIngest = (node?: Node) => node?.type === 'ingest' || (node?.type === 'dataset' && node.config?.sourceType === 'company_ingest');
+  const onlyIngestRan = nodeIds.executed.every(id => isIngest(nodes.find(n => n.id === id)));
+  const result: CascadeJobResult = {
+    workflow_name: workflow.name,
+    status: nodeIds.cached.length > 0 && onlyIngestRan ? 'cached' : 'completed',
+    ...summary,
+    paused_nodes: pausedIds.length,
+    node_ids: nodeIds,
+  };
+  const completedAt = new Date().toISOString();
+
+  await supabase
+    .from('job_queue')
+    .update({ status: 'completed', result, error_message: null, completed_at: completedAt, worker_id: null })
+    .eq('id', job.id);
+
+  const { data: run } = await supabase
+    .from('execution_runs')
+    .select('started_at')
+    .eq('id', runId)
+    .single();
+  await supabase
+    .from('execution_runs')
+    .update({
+      status: 'completed',
+      output_data: summary,
+      error_message: null,
+      completed_at: completedAt,
+      execution_time_ms: run?.started_at ? Date.now() - new Date(run.started_at).getTime() : Date.now() - startTime,
+    })
+    .eq('id', runId);
+
+  // 6. The same post-processing as an inline cascade: output destinations, then the
+  // dependent workflows, which are queued before the submission can be finalized
+  await syncExecutedOutputs(supabase, job, companyId, { id: workflowId, name: workflow.name }, nodes, nodeIds.executed);
+  if (job.payload.cascade_dependents && nodeIds.executed.length > 0) {
+    await enqueueDependentWorkflows(supabase, job, companyId, nodeIds.executed);
+  }
+
+  await finalizeSubmission(supabase, job, runId);
+  console.log(`[process-job-queue] Job ${job.id} completed: ${nodeIds.executed.length} executed, ${nodeIds.cached.length} cached, ${nodeIds.skipped.length} skipped`);
+  return 'completed';
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Health check endpoint
+  const url = new URL(req.url);
+  if (url.searchParams.get('health') === 'true') {
+    return new Response(JSON.stringify({
+      status: 'healthy',
+      version: FUNCTION_VERSION,
+      timestamp: new Date().toISOString()
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+
+  const startTime = Date.now();
+  const deadline = startTime + WORKER_TIME_BUDGET_MS;
+  const workerId = `worker-${crypto.randomUUID()}`;
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const maxJobs = Math.min(Number(body.max_jobs) || MAX_JOBS_PER_INVOCATION, MAX_JOBS_PER_INVOCATION);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log(`[process-job-queue] v${FUNCTION_VERSION} - ${workerId} starting`);
+
+    const processed: Array<{ job_id: string; workflow_id: string; outcome: JobOutcome; error?: string }> = [];
+    let shouldContinue = false;
+
+    while (processed.length < maxJobs) {
+      if (Date.now() > deadline) {
+        shouldContinue = true;
+        break;
+      }
+
+      const { data: claimed, error: claimError } = await supabase.rpc('claim_next_job', {
+        _worker_id: workerId,
+        _lease_seconds: JOB_LEASE_SECONDS,
+      });
+      if (claimError) throw claimError;
+
+      const job = (claimed || [])[0] as Job | undefined;
+      if (!job) break;
+
+      console.log(`[process-job-queue] Claimed job ${job.id} (workflow ${job.workflow_id}, attempt ${job.retry_count + 1})`);
+
+      try {
+        if ((job.payload?.type || 'company_cascade') !== 'company_cascade') {
+          await supabase
+            .from('job_queue')
+            .update({ status: 'failed', error_message: `Unknown job type "${job.payload.type}"`, completed_at: new Date().toISOString(), worker_id: null })
+            .eq('id', job.id);
+          processed.push({ job_id: job.id, workflow_id: job.workflow_id, outcome: 'failed', error: 'Unknown job type' });
+          continue;
+        }
+
+        const outcome = await processCompanyCascadeJob(supabase, job, deadline, workerId);
+        processed.push({ job_id: job.id, workflow_id: job.workflow_id, outcome });
+        if (outcome === 'yielded') {
+          shouldContinue = true;
+          break;
+        }
+      } catch (jobError) {
+        // Unexpected errors count as a failed attempt; the lease covers jobs we could not update
+        const message = jobError instanceof Error ? jobError.message : 'Job processing failed';
+        console.error(`[process-job-queue] Job ${job.id} error:`, jobError);
+        try {
+          // The run may have been created after the job was claimed
+          const { data: current } = await supabase
+            .from('job_queue')
+            .select('execution_run_id')
+            .eq('id', job.id)
+            .maybeSingle();
+          const runId = (current?.execution_run_id as string | null | undefined) || job.execution_run_id;
+          const outcome = await failJob(supabase, job, runId, message);
+          processed.push({ job_id: job.id, workflow_id: job.workflow_id, outcome, error: message });
+        } catch (failError) {
+          console.error(`[process-job-queue] Failed to record the failure of job ${job.id}:`, failError);
+          processed.push({ job_id: job.id, workflow_id: job.workflow_id, outcome: 'failed', error: message });
+        }
+      }
+    }
+
+    if (processed.length >= maxJobs) shouldContinue = true;
+
+    // More work is waiting: chain another invocation rather than running past the edge timeout
+    if (shouldContinue) {
+      fetch(`${supabaseUrl}/functions/v1/process-job-queue`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${supabaseServiceKey}`
+        },
+        body: JSON.stringify({})
+      }).catch(err => console.error('[process-job-queue] Failed to chain worker:', err));
+    }
+
+    const executionTime = Date.now() - startTime;
+    console.log(`[process-job-queue] ${workerId} processed ${processed.length} job(s) in ${executionTime}ms`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      worker_id: workerId,
+      processed,
+      continued: shouldContinue,
+      execution_time_ms: executionTime
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('[process-job-queue] Unexpected error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unexpected error',
+      execution_time_ms: Date.now() - startTime
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
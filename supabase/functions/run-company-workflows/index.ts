@@ -1,5 +1,40 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import {
+  calculateCost,
+  chatCompletion,
+  chatCompletionWithFallback,
+  getProviderConfigError,
+  loadPricingOverrides,
+  mapModelName,
+  supportsSearchGrounding,
+  type RetryPolicy,
+} from '../_shared/llm.ts';
+import { applyOutputSchema, enforceOutputSchema, resolveOutputSchema, type SchemaValidationResult } from '../_shared/structuredOutput.ts';
+import {
+  CACHED_STEP_MESSAGE,
+  collectOutputDestinations,
+  createCascadeOutputs,
+  findDependentWorkflows,
+  syncCascadeOutputs,
+  upsertExecutionSummaryAlert,
+} from '../_shared/cascadePostProcessing.ts';
+import {
+  checkCascadeCostLimits,
+  describeCostBreach,
+  estimateTokens,
+  type CostBudgetSettings,
+  type CostLimitBreach,
+} from '../_shared/costLimits.ts';
+import { hashContent, hashNodeConfig } from '../_shared/nodeConfigHash.ts';
+import { getGraphErrors, loadOtherWorkflows } from '../_shared/graphValidation.ts';
+import {
+  CONDITION_BRANCH_PORTS,
+  evaluateConditionExpression,
+  getConditionBranch,
+  getConditionBranchTargets,
+} from '../_shared/conditionExpression.ts';
+import { budgetExceededResponse, checkCompanyBudget } from '../_shared/companyLimits.ts';
 
 // Version for deployment verification
 const FUNCTION_VERSION = "3.0.0-2025-01-29";
@@ -9,6 +44,8 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+type SupabaseClient = ReturnType<typeof createClient>;
+
 interface Node {
   id: string;
   type: string;
@@ -24,6 +61,11 @@ interface Node {
     schema?: string;
     data?: any[];
     text?: string;
+    outputSchemaSource?: 'none' | 'inline' | 'framework';
+    outputSchema?: string;
+    outputSchemaFrameworkId?: string;
+    fallbackModels?: string[];
+    retryPolicy?: Partial<RetryPolicy>;
     [key: string]: any;
   };
   data?: {
@@ -42,12 +84,26 @@ interface PromptPart {
   value: string;
   workflowId?: string;   // Cross-workflow dependency support
   workflowName?: string; // For display purposes
+  nodeLabel?: string;    // Stored node label for cross-workflow deps
   frameworkName?: string; // For framework display
   triggersExecution?: boolean; // Controls if this dependency triggers re-execution (default: true)
   systemPromptId?: string;    // Reference to system_prompts.id
   systemPromptName?: string;  // Cached name for display
 }
 
+// Stored on company_node_data.lineage: what an output was computed from. Nodes record the
+// upstream outputs they read; the source node records the submission and its filled intake fields
+interface NodeLineage {
+  inputs?: Array<{ workflow_id: string; node_id: string; content_hash: string | null }>;
+  submission_id?: string | null;
+  intake_fields?: string[];
+}
+
+const getFilledIntakeFields = (rawData: { intake_fields?: Record<string, { value?: unknown } | null> } | null): string[] =>
+  Object.entries(rawData?.intake_fields || {})
+    .filter(([, field]) => field?.value !== null && field?.value !== undefined && field?.value !== '')
+    .map(([key]) => key);
+
 // Strip markdown code fences from AI output strings
 function stripCodeFences(text: string): string {
   if (typeof text !== 'string') return text;
@@ -66,92 +122,6 @@ function stripCodeFences(text: string): string {
 const STOP_TRIGGER_CODE = 'f8Tsc';
 const STOP_TRIGGER_INSTRUCTION = '\n\nIf none matched, ONLY output "f8Tsc".';
 
-// Default model pricing configuration (per 1 million tokens) - used as fallback
-const DEFAULT_MODEL_PRICING: Record<string, { input: number; output: number }> = {
-  'google/gemini-3-flash-preview': { input: 0.10, output: 0.40 },
-  'google/gemini-3-pro-preview': { input: 1.25, output: 10.00 },
-  'google/gemini-2.5-pro': { input: 1.25, output: 10.00 },
-  'google/gemini-2.5-flash': { input: 0.15, output: 0.60 },
-  'google/gemini-2.5-flash-lite': { input: 0.075, output: 0.30 },
-  'openai/gpt-5.2': { input: 2.50, output: 10.00 },
-  'openai/gpt-5': { input: 2.50, output: 10.00 },
-  'openai/gpt-5-mini': { input: 0.30, output: 1.20 },
-  'openai/gpt-5-nano': { input: 0.10, output: 0.40 },
-  'perplexity/sonar': { input: 1.00, output: 1.00 },
-  'perplexity/sonar-pro': { input: 3.00, output: 15.00 },
-  'perplexity/sonar-reasoning-pro': { input: 2.00, output: 8.00 },
-  'perplexity/sonar-deep-research': { input: 2.00, output: 8.00 },
-};
-
-// Load pricing overrides from database
-async function loadPricingOverrides(supabase: any): Promise<Record<string, { input: number; output: number }>> {
-  try {
-    const { data } = await supabase
-      .from('model_pricing_overrides')
-      .select('model_id, input_cost_per_million, output_cost_per_million');
-    
-    if (!data) return {};
-    
-    return data.reduce((acc: Record<string, { input: number; output: number }>, row: any) => {
-      if (row.input_cost_per_million !== null || row.output_cost_per_million !== null) {
-        const defaultPricing = DEFAULT_MODEL_PRICING[row.model_id] || { input: 0.10, output: 0.40 };
-        acc[row.model_id] = {
-          input: row.input_cost_per_million ?? defaultPricing.input,
-          output: row.output_cost_per_million ?? defaultPricing.output,
-        };
-      }
-      return acc;
-    }, {} as Record<string, { input: number; output: number }>);
-  } catch (error) {
-    console.error('[loadPricingOverrides] Error:', error);
-    return {};
-  }
-}
-
-// Calculate cost based on model and token usage with overrides
-function calculateCost(
-  model: string, 
-  promptTokens: number, 
-  completionTokens: number,
-  overrides: Record<string, { input: number; output: number }> = {}
-): number {
-  const pricing = overrides[model] || DEFAULT_MODEL_PRICING[model] || { input: 0.10, output: 0.40 };
-  return ((promptTokens * pricing.input) + (completionTokens * pricing.output)) / 1_000_000;
-}
-
-// Map UI model names to Lovable AI model names
-const mapModelName = (uiModel: string): string => {
-  const modelMap: { [key: string]: string } = {
-    // Legacy model mappings (deprecated models -> current equivalents)
-    'openai-gpt-4o': 'google/gemini-3-flash-preview',
-    'gpt-4o': 'google/gemini-3-flash-preview',
-    'gpt-4': 'openai/gpt-5',
-    'claude-3.5': 'google/gemini-2.5-pro',
-    'sonar': 'google/gemini-2.5-flash',
-    'local-vllm': 'google/gemini-2.5-flash',
-    // Short name mappings
-    'gemini-2.5-pro': 'google/gemini-2.5-pro',
-    'gemini-2.5-flash': 'google/gemini-2.5-flash',
-    'gemini-2.5-flash-lite': 'google/gemini-2.5-flash-lite',
-    'gemini-3-flash-preview': 'google/gemini-3-flash-preview',
-    'gemini-3-pro-preview': 'google/gemini-3-pro-preview',
-    'gpt-5': 'openai/gpt-5',
-    'gpt-5-mini': 'openai/gpt-5-mini',
-    'gpt-5-nano': 'openai/gpt-5-nano',
-    'gpt-5.2': 'openai/gpt-5.2',
-  };
-  return modelMap[uiModel] || uiModel;
-};
-
-// Generate SHA-256 hash of content for change detection
-const hashContent = async (content: string): Promise<string> => {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(content);
-  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-};
-
 // Helper function to extract value from JSON using dot-notation path
 // Supports nested paths like "output.market_growth_score" and handles stringified JSON
 const getValueByPath = (data: any, path: string): any => {
@@ -225,6 +195,130 @@ const getValueByPath = (data: any, path: string): any => {
   return current;
 };
 
+// ============= RUN HISTORY =============
+// Runs are recorded in execution_runs with one execution_steps row per node.
+// Recording is best-effort: a failed insert is logged and never fails the run.
+
+// Node outputs like "[AI Error: ...]" or "[Agent error: ...]" mark a failed node
+const ERROR_OUTPUT_PATTERN = /^\[(?:[A-Za-z ]+ )?error\b/i;
+
+const isErrorOutput = (output: unknown): boolean =>
+  typeof output === 'string' && ERROR_OUTPUT_PATTERN.test(output);
+
+interface ExecutionRunFields {
+  workflow_id: string;
+  company_id: string | null;
+  run_type: 'cascade' | 'force_run' | 'node_run' | 'test_run' | 'entity_run';
+  trigger_type?: 'manual' | 'scheduled' | 'webhook' | 'api';
+  submission_id?: string | null;
+  entity_id?: string | null;
+  input_data?: Record<string, unknown>;
+}
+
+interface ExecutionStepFields {
+  node_id: string;
+  node_type: string;
+  node_label: string;
+  status: 'completed' | 'failed' | 'skipped' | 'budget_paused';
+  execution_order: number;
+  // Epoch ms when the node started
+  started_at: number;
+  input_data?: Record<string, unknown> | null;
+  output_data?: Record<string, unknown> | null;
+  error_message?: string | null;
+  tokens_used?: number | null;
+}
+
+async function startExecutionRun(supabase: SupabaseClient, fields: ExecutionRunFields): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('execution_runs')
+    .insert({
+      trigger_type: 'manual',
+      ...fields,
+      status: 'running',
+      started_at: new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+  if (error || !data) {
+    console.error('[run-company-workflows] Failed to start execution run:', error);
+    return null;
+  }
+  return data.id as string;
+}
+
+// Tokens default to the AI usage the node logged since it started
+async function recordExecutionStep(
+  supabase: SupabaseClient,
+  runId: string | null,
+  companyId: string | null,
+  workflowId: string,
+  step: ExecutionStepFields
+): Promise<string | null> {
+  if (!runId) return null;
+
+  let tokensUsed = step.tokens_used;
+  if (tokensUsed === undefined && step.status !== 'skipped' && step.status !== 'budget_paused') {
+    let usageQuery = supabase
+      .from('ai_usage_logs')
+      .select('total_tokens')
+      .eq('workflow_id', workflowId)
+      .eq('node_id', step.node_id)
+      .gte('created_at', new Date(step.started_at).toISOString());
+    if (companyId) usageQuery = usageQuery.eq('company_id', companyId);
+    const { data: usage } = await usageQuery;
+    tokensUsed = (usage || []).reduce((sum: number, row: { total_tokens: number | null }) => sum + (row.total_tokens || 0), 0);
+  }
+
+  const completedAt = Date.now();
+  const { data, error } = await supabase
+    .from('execution_steps')
+    .insert({
+      execution_run_id: runId,
+      node_id: step.node_id,
+      node_type: step.node_type,
+      node_label: step.node_label,
+      status: step.status,
+      execution_order: step.execution_order,
+      input_data: step.input_data ?? null,
+      output_data: step.output_data ?? null,
+      error_message: step.error_message ?? null,
+      tokens_used: tokensUsed ?? null,
+      started_at: new Date(step.started_at).toISOString(),
+      completed_at: new Date(completedAt).toISOString(),
+      execution_time_ms: completedAt - step.started_at,
+    })
+    .select('id')
+    .single();
+  if (error || !data) {
+    console.error(`[run-company-workflows] Failed to record step for node ${step.node_id}:`, error);
+    return null;
+  }
+  return data.id as string;
+}
+
+async function finishExecutionRun(
+  supabase: SupabaseClient,
+  runId: string | null,
+  startedAt: number,
+  status: 'completed' | 'failed',
+  outputData: Record<string, unknown>,
+  errorMessage: string | null = null
+): Promise<void> {
+  if (!runId) return;
+  const { error } = await supabase
+    .from('execution_runs')
+    .update({
+      status,
+      output_data: outputData,
+      error_message: errorMessage,
+      completed_at: new Date().toISOString(),
+      execution_time_ms: Date.now() - startedAt,
+    })
+    .eq('id', runId);
+  if (error) console.error('[run-company-workflows] Failed to finish execution run:', error);
+}
+
 // ============= EVALUATION SYSTEM =============
 interface EvaluationResult {
   hallucination: { score: number; reasoning: string };
@@ -247,21 +341,14 @@ async function runSingleEvaluation(
   pricingOverrides: Record<string, { input: number; output: number }> = {}
 ): Promise<{ score: number; reasoning: string }> {
   try {
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash-lite',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userMessage }
-        ],
-        temperature: 0.3,
-        max_tokens: 300,
-      }),
+    const response = await chatCompletion({
+      model: 'google/gemini-2.5-flash-lite',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userMessage }
+      ],
+      temperature: 0.3,
+      max_tokens: 300,
     });
 
     if (!response.ok) {
@@ -426,6 +513,79 @@ async function evaluateGeneration(
   };
 }
 
+// ============= CONDITION NODES =============
+// Match a condition reference against the node's dependencies by label, output name or node id.
+// A null name ($) is the first dependency.
+const findConditionDependency = (name: string | null, promptParts: PromptPart[], nodes: Node[]): PromptPart | undefined => {
+  const deps = promptParts.filter(p => p.type === 'dependency');
+  if (name === null) return deps[0];
+  const target = name.trim().toLowerCase();
+  return deps.find(part => {
+    const depNode = nodes.find(n => n.id === part.value);
+    const candidates = [part.value, part.nodeLabel, depNode?.label, depNode?.data?.label, depNode?.config?.outputName];
+    return candidates.some(c => typeof c === 'string' && c.trim().toLowerCase() === target);
+  });
+};
+
+// ============= FOREACH NODES =============
+// Foreach nodes run the nodes wired to their "item" port (and everything downstream of them)
+// once per item. The fan-out itself lives in execute-single-node; this function delegates to it.
+
+const FOREACH_ITEM_PORT = 'item';
+
+// Edges that carry control flow (condition branches, foreach item ports); all other edges are cosmetic
+const isControlEdge = (edge: Edge): boolean =>
+  [...CONDITION_BRANCH_PORTS, FOREACH_ITEM_PORT].includes(edge.from?.port);
+
+// Same-workflow nodes downstream of the given nodes (promptParts, agent sourceNodeId,
+// ssotMapDependencies and control edges)
+const collectDownstreamNodes = (startIds: string[], nodes: Node[], edges: Edge[]): Set<string> => {
+  const found = new Set<string>();
+  const visit = (nodeId: string) => {
+    for (const node of nodes) {
+      if (found.has(node.id)) continue;
+      const dependsOn =
+        (node.type === 'agent' && node.config?.sourceNodeId === nodeId) ||
+        (node.config?.promptParts || []).some((p: PromptPart) => p.type === 'dependency' && p.value === nodeId) ||
+        (node.type === 'variable' && node.config?.ssotMapMode &&
+          (node.config?.ssotMapDependencies || []).some((d: { nodeId?: string; workflowId?: string }) => d.nodeId === nodeId)) ||
+        edges.some(e => e.from?.node === nodeId && e.to?.node === node.id && isControlEdge(e));
+      if (dependsOn) {
+        found.add(node.id);
+        visit(node.id);
+      }
+    }
+  };
+  for (const id of startIds) visit(id);
+  return found;
+};
+
+// Nodes to skip after a condition resolved: everything reachable from the untaken branch
+// that is not also reachable from the taken one. A null branch (evaluation error) skips both.
+const getConditionSkipSet = (conditionNodeId: string, branch: string | null, nodes: Node[], edges: Edge[]): Set<string> => {
+  const untakenRoots = CONDITION_BRANCH_PORTS
+    .filter(port => port !== branch)
+    .flatMap(port => getConditionBranchTargets(conditionNodeId, edges, port));
+  const skip = new Set([...untakenRoots, ...collectDownstreamNodes(untakenRoots, nodes, edges)]);
+  if (branch) {
+    const takenRoots = getConditionBranchTargets(conditionNodeId, edges, branch);
+    for (const id of [...takenRoots, ...collectDownstreamNodes(takenRoots, nodes, edges)]) {
+      skip.delete(id);
+    }
+  }
+  return skip;
+};
+
+// Nodes run once per item by a foreach node
+const getForeachBody = (foreachNodeId: string, nodes: Node[], edges: Edge[]): Set<string> => {
+  const roots = edges
+    .filter(e => e.from?.node === foreachNodeId && e.from?.port === FOREACH_ITEM_PORT)
+    .map(e => e.to.node);
+  const body = new Set([...roots, ...collectDownstreamNodes(roots, nodes, edges)]);
+  body.delete(foreachNodeId);
+  return body;
+};
+
 // Extract dependency node IDs from promptParts with workflow context
 const getDependencyNodeIds = (node: Node): Array<{nodeId: string, workflowId?: string}> => {
   const promptParts: PromptPart[] = node.config?.promptParts || [];
@@ -445,8 +605,10 @@ const findSourceNode = (nodes: Node[]): Node | undefined => {
 };
 
 // Build topological order of nodes using Kahn's algorithm based on promptParts,
-// agent sourceNodeId, and ssotMapDependencies (NOT visual edges, which are cosmetic)
-const topologicalSort = (nodes: Node[], edges: Edge[]): string[] => {
+// agent sourceNodeId, ssotMapDependencies and condition branch edges
+// (other visual edges are cosmetic). Nodes in a dependency cycle, or downstream of
+// one, have no valid position and are returned as blocked.
+const orderNodes = (nodes: Node[], edges: Edge[]): { sorted: string[]; blocked: string[] } => {
   const nodeIds = new Set(nodes.map(n => n.id));
   // Build adjacency: for each node, which nodes depend on it (downstream)
   const downstream = new Map<string, Set<string>>();
@@ -494,6 +656,13 @@ const topologicalSort = (nodes: Node[], edges: Edge[]): string[] => {
     }
   }
   
+  // 4. Control edges (condition true/false ports, foreach item ports) gate their targets
+  for (const edge of edges) {
+    if (isControlEdge(edge)) {
+      addDep(edge.from.node, edge.to.node);
+    }
+  }
+  
   // Kahn's algorithm
   const queue: string[] = [];
   for (const [id, deg] of inDegree) {
@@ -511,15 +680,18 @@ const topologicalSort = (nodes: Node[], edges: Edge[]): string[] => {
     }
   }
   
-  // Append any remaining nodes (cycle fallback)
-  for (const id of nodeIds) {
-    if (!sorted.includes(id)) sorted.push(id);
-  }
-  
-  return sorted;
+  const sortedIds = new Set(sorted);
+  return { sorted, blocked: Array.from(nodeIds).filter(id => !sortedIds.has(id)) };
 };
 
-// Get all dependencies for a node (from promptParts and ssotMapDependencies only, NOT visual edges)
+// Topological order with any cycle members appended at the end (used for plans)
+const topologicalSort = (nodes: Node[], edges: Edge[]): string[] => {
+  const { sorted, blocked } = orderNodes(nodes, edges);
+  return [...sorted, ...blocked];
+};
+
+// Get all dependencies for a node (from promptParts, ssotMapDependencies and condition branch edges;
+// other visual edges are cosmetic)
 // Returns both node IDs and workflow context for cross-workflow resolution
 const getAllDependencies = (node: Node, edges: Edge[]): Array<{nodeId: string, workflowId?: string}> => {
   const promptPartDeps = getDependencyNodeIds(node);
@@ -534,9 +706,14 @@ const getAllDependencies = (node: Node, edges: Edge[]): Array<{nodeId: string, w
     }
   }
   
-  // Combine and deduplicate (visual edges are cosmetic and excluded)
+  // Condition or foreach nodes gating this node via a control edge
+  const branchDeps: Array<{nodeId: string, workflowId?: string}> = edges
+    .filter(e => e.to?.node === node.id && isControlEdge(e))
+    .map(e => ({ nodeId: e.from.node }));
+  
+  // Combine and deduplicate
   const allDeps: Array<{nodeId: string, workflowId?: string}> = [...promptPartDeps];
-  for (const dep of ssotMapDeps) {
+  for (const dep of [...ssotMapDeps, ...branchDeps]) {
     if (!allDeps.some(d => d.nodeId === dep.nodeId && d.workflowId === dep.workflowId)) {
       allDeps.push(dep);
     }
@@ -544,6 +721,101 @@ const getAllDependencies = (node: Node, edges: Edge[]): Array<{nodeId: string, w
   return allDeps;
 };
 
+// Parallel execution limits from workflows.settings.execution
+interface WorkflowExecutionSettings {
+  max_parallel_nodes: number;
+  provider_concurrency: Record<string, number>;
+}
+
+const DEFAULT_MAX_PARALLEL_NODES = 4;
+
+const resolveExecutionSettings = (settings: unknown): WorkflowExecutionSettings => {
+  const execution = (settings as { execution?: Partial<WorkflowExecutionSettings> } | null)?.execution;
+  const maxParallel = Math.floor(Number(execution?.max_parallel_nodes));
+  const providerConcurrency: Record<string, number> = {};
+  for (const [provider, limit] of Object.entries(execution?.provider_concurrency || {})) {
+    if (Number(limit) >= 1) providerConcurrency[provider] = Math.floor(Number(limit));
+  }
+  return {
+    max_parallel_nodes: maxParallel >= 1 ? maxParallel : DEFAULT_MAX_PARALLEL_NODES,
+    provider_concurrency: providerConcurrency,
+  };
+};
+
+// Group the topological order into levels that can run in parallel. A node goes one level
+// after the latest node it reads from, counting every same-workflow dependency (also
+// non-triggering ones) that comes earlier in the order, so each node still sees the same
+// outputs it would if the nodes ran one by one.
+const buildExecutionLevels = (sortedNodeIds: string[], nodeMap: Map<string, Node>, edges: Edge[], workflowId: string): string[][] => {
+  const position = new Map(sortedNodeIds.map((id, index) => [id, index]));
+  const levelOf = new Map<string, number>();
+  const levels: string[][] = [];
+  sortedNodeIds.forEach((nodeId, index) => {
+    const node = nodeMap.get(nodeId);
+    const depIds = node
+      ? getAllDependencies(node, edges).filter(d => !d.workflowId || d.workflowId === workflowId).map(d => d.nodeId)
+      : [];
+    if (node?.type === 'agent' && node.config?.sourceNodeId) depIds.push(node.config.sourceNodeId);
+    let level = 0;
+    for (const depId of depIds) {
+      const depPosition = position.get(depId);
+      if (depPosition !== undefined && depPosition < index) {
+        level = Math.max(level, (levelOf.get(depId) ?? 0) + 1);
+      }
+    }
+    levelOf.set(nodeId, level);
+    (levels[level] ||= []).push(nodeId);
+  });
+  return levels;
+};
+
+// Model provider a node calls ("google", "openai", ...), used for per-provider caps
+const nodeProvider = (node: Node | undefined): string | null => {
+  if (node?.type !== 'promptTemplate') return null;
+  return mapModelName(node.config?.model || 'gpt-5-mini').split('/')[0];
+};
+
+// Run items with at most `limit` in flight and at most keyLimits[key] per key. Items start
+// in order, but one whose key is saturated lets later items with a free key go first.
+const runWithConcurrency = (
+  items: string[],
+  limit: number,
+  keyOf: (item: string) => string | null,
+  keyLimits: Record<string, number>,
+  run: (item: string) => Promise<void>
+): Promise<void> => {
+  const pending = [...items];
+  const inFlightByKey = new Map<string, number>();
+  let inFlight = 0;
+
+  return new Promise((resolve, reject) => {
+    const hasCapacity = (item: string) => {
+      const key = keyOf(item);
+      return !key || !keyLimits[key] || (inFlightByKey.get(key) || 0) < keyLimits[key];
+    };
+    const startNext = () => {
+      if (pending.length === 0 && inFlight === 0) {
+        resolve();
+        return;
+      }
+      while (inFlight < limit) {
+        const index = pending.findIndex(hasCapacity);
+        if (index < 0) break;
+        const [item] = pending.splice(index, 1);
+        const key = keyOf(item);
+        inFlight++;
+        if (key) inFlightByKey.set(key, (inFlightByKey.get(key) || 0) + 1);
+        run(item).then(() => {
+          inFlight--;
+          if (key) inFlightByKey.set(key, (inFlightByKey.get(key) || 1) - 1);
+          startNext();
+        }, reject);
+      }
+    };
+    startNext();
+  });
+};
+
 // Check if workflow has a company_ingest node (new ingest type or legacy dataset)
 const hasCompanyIngestNode = (nodes: Node[]): boolean => {
   return nodes.some(node => 
@@ -554,6 +826,47 @@ const hasCompanyIngestNode = (nodes: Node[]): boolean => {
   );
 };
 
+// Check if a workflow runs for a company submission: it has a company_ingest node, is
+// company-relevant, and (for AbiVC submissions) matches the submission's ingest point
+const isCompanyCascadeWorkflow = (
+  w: { id: string; name: string; nodes: Node[] | null; settings: unknown },
+  submissionIngestPoint: string,
+  submissionSource?: string
+): boolean => {
+  const nodes: Node[] = w.nodes || [];
+  const hasIngest = hasCompanyIngestNode(nodes);
+  
+  // Check data attribution - only process company-relevant workflows
+  const settings = w.settings as { data_attribution?: string } | null;
+  const attribution = settings?.data_attribution || 'company_data';
+  const isCompanyRelevant = attribution === 'company_data' || attribution === 'company_related_data';
+  
+  // Find the ingest node to check ingest point matching
+  const ingestNode = nodes.find(n => n.type === 'ingest' || (n.type === 'dataset' && n.config?.sourceType === 'company_ingest'));
+  const workflowIngestPoint = ingestNode?.config?.ingestPointId || 'initial_submission';
+  const workflowIntegrationId = ingestNode?.config?.integrationId;
+  
+  // If submission came from AbiVC, only run workflows with matching ingest points
+  let ingestPointMatches = true;
+  if (submissionSource === 'abivc' && workflowIntegrationId === 'abivc') {
+    ingestPointMatches = workflowIngestPoint === submissionIngestPoint;
+    if (!ingestPointMatches) {
+      console.log(`[run-company-workflows] Skipping workflow "${w.name}": ingest point mismatch (workflow=${workflowIngestPoint}, submission=${submissionIngestPoint})`);
+    }
+  }
+  
+  console.log(`[run-company-workflows] Workflow "${w.name}" (${w.id}): nodes=${nodes.length}, hasCompanyIngest=${hasIngest}, attribution=${attribution}, isCompanyRelevant=${isCompanyRelevant}, ingestPoint=${workflowIngestPoint}, matches=${ingestPointMatches}`);
+  
+  // Debug: log node types and configs
+  nodes.forEach(n => {
+    if (n.type === 'dataset') {
+      console.log(`  - Dataset node "${n.id}": sourceType=${n.config?.sourceType}`);
+    }
+  });
+
+  return hasIngest && isCompanyRelevant && ingestPointMatches;
+};
+
 // Find the most recent submission with actual company data
 // Optionally respects node config for integration/ingest point filtering
 async function findLatestDataSubmission(
@@ -573,79 +886,1014 @@ async function findLatestDataSubmission(
 
   console.log(`[findLatestDataSubmission] Looking for data: integration=${integrationId}, ingestPoint=${ingestPointId}, company=${companyId}`);
 
-  // Query 1: Try to find submission with intake_fields (filtered by source if configured)
-  let query = supabase
-    .from('company_data_submissions')
-    .select('id, raw_data, source_type, metadata')
-    .eq('company_id', companyId)
-    .not('raw_data->intake_fields', 'is', null);
-  
-  if (targetSourceType) {
-    query = query.eq('source_type', targetSourceType);
-  }
-  
-  const { data: intakeSubmissions, error: intakeError } = await query
-    .order('submitted_at', { ascending: false })
-    .limit(5);
+  // Query 1: Try to find submission with intake_fields (filtered by source if configured)
+  let query = supabase
+    .from('company_data_submissions')
+    .select('id, raw_data, source_type, metadata')
+    .eq('company_id', companyId)
+    .not('raw_data->intake_fields', 'is', null);
+  
+  if (targetSourceType) {
+    query = query.eq('source_type', targetSourceType);
+  }
+  
+  const { data: intakeSubmissions, error: intakeError } = await query
+    .order('submitted_at', { ascending: false })
+    .limit(5);
+
+  if (!intakeError && intakeSubmissions && intakeSubmissions.length > 0) {
+    // If ingestPointId specified, try to match metadata.ingest_point
+    let matchingSubmission = intakeSubmissions[0];
+    if (ingestPointId) {
+      matchingSubmission = intakeSubmissions.find((s: any) => 
+        s.metadata?.ingest_point === ingestPointId
+      ) || intakeSubmissions[0];
+    }
+    console.log('[findLatestDataSubmission] Found submission with intake_fields:', matchingSubmission.id);
+    return matchingSubmission;
+  }
+
+  // Query 2: Find submissions from sync sources
+  const syncSources = targetSourceType ? [targetSourceType] : ['abivc_sync', 'abi_sync', 'api'];
+  const { data: syncSubmissions, error: syncError } = await supabase
+    .from('company_data_submissions')
+    .select('id, raw_data, source_type, metadata')
+    .eq('company_id', companyId)
+    .in('source_type', syncSources)
+    .order('submitted_at', { ascending: false })
+    .limit(10);
+
+  if (!syncError && syncSubmissions && syncSubmissions.length > 0) {
+    const realSubmission = syncSubmissions.find((s: any) => 
+      s.raw_data && 
+      !s.raw_data._trigger &&
+      Object.keys(s.raw_data).length > 1
+    );
+
+    if (realSubmission) {
+      console.log('[findLatestDataSubmission] Found real submission from sync source:', realSubmission.id, 'source:', realSubmission.source_type);
+      return realSubmission;
+    }
+  }
+
+  // Query 3: Fallback - search all submissions
+  const { data: allSubmissions, error: allError } = await supabase
+    .from('company_data_submissions')
+    .select('id, raw_data, source_type')
+    .eq('company_id', companyId)
+    .order('submitted_at', { ascending: false })
+    .limit(50);
+
+  if (!allError && allSubmissions && allSubmissions.length > 0) {
+    const realSubmission = allSubmissions.find((s: any) => 
+      s.raw_data && 
+      !s.raw_data._trigger &&
+      (s.raw_data.intake_fields || Object.keys(s.raw_data).length > 2)
+    );
+
+    if (realSubmission) {
+      console.log('[findLatestDataSubmission] Found real submission in fallback search:', realSubmission.id);
+      return realSubmission;
+    }
+  }
+
+  console.warn('[findLatestDataSubmission] No real data submission found for company:', companyId);
+  return null;
+}
+
+// Fire-and-forget process-job-queue invocations; each worker drains the queue on its own
+function startJobQueueWorkers(count: number) {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  for (let i = 0; i < count; i++) {
+    fetch(`${supabaseUrl}/functions/v1/process-job-queue`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseServiceKey}`
+      },
+      body: JSON.stringify({})
+    }).catch(err => console.error('[run-company-workflows] Failed to start job queue worker:', err));
+  }
+}
+
+// Queue a company cascade for process-job-queue instead of running it inline: one job per
+// relevant workflow, then kick the worker. Returns as soon as the jobs are stored.
+async function enqueueCompanyCascade(
+  supabase: ReturnType<typeof createClient>,
+  company_id: string,
+  submission_id: string,
+  specificWorkflowId: string | null,
+  options: {
+    force?: boolean;
+    start_from_node_id?: string | null;
+    refresh_stale?: boolean;
+    priority?: string;
+    trigger_type?: string;
+  } = {}
+): Promise<{ success: boolean; queued: boolean; submission_id: string; company_id: string; jobs: Array<{ job_id: string; workflow_id: string; workflow_name: string }> }> {
+  const { data: submission, error: submissionError } = await supabase
+    .from('company_data_submissions')
+    .select('id, metadata')
+    .eq('id', submission_id)
+    .eq('company_id', company_id)
+    .single();
+
+  if (submissionError || !submission) {
+    throw new Error('Submission not found');
+  }
+
+  let workflowQuery = supabase.from('workflows').select('id, name, nodes, settings');
+  if (specificWorkflowId) {
+    workflowQuery = workflowQuery.eq('id', specificWorkflowId);
+  }
+  const { data: workflows, error: workflowsError } = await workflowQuery;
+  if (workflowsError) throw workflowsError;
+
+  const submissionIngestPoint = submission.metadata?.ingest_point || 'initial_submission';
+  const submissionSource = submission.metadata?.synced_from;
+  const relevantWorkflows = (workflows || []).filter((w: { id: string; name: string; nodes: Node[] | null; settings: unknown }) =>
+    isCompanyCascadeWorkflow(w, submissionIngestPoint, submissionSource)
+  );
+
+  const jobs: Array<{ job_id: string; workflow_id: string; workflow_name: string }> = [];
+  for (const workflow of relevantWorkflows) {
+    const { data: job, error: jobError } = await supabase
+      .from('job_queue')
+      .insert({
+        company_id,
+        workflow_id: workflow.id,
+        priority: options.priority || 'normal',
+        payload: {
+          type: 'company_cascade',
+          company_id,
+          submission_id,
+          force: options.force || false,
+          start_from_node_id: options.start_from_node_id || null,
+          refresh_stale: options.refresh_stale || false,
+          trigger_type: options.trigger_type || 'api',
+          // Like an inline cascade, only a full company cascade pulls in dependent workflows
+          cascade_dependents: !specificWorkflowId,
+        },
+      })
+      .select('id')
+      .single();
+
+    if (jobError) {
+      console.error(`[run-company-workflows] Failed to enqueue workflow ${workflow.id}:`, jobError);
+      continue;
+    }
+    jobs.push({ job_id: job.id, workflow_id: workflow.id, workflow_name: workflow.name });
+  }
+
+  // The submission stays pending until the worker picks the jobs up
+  if (jobs.length === 0) {
+    await supabase
+      .from('company_data_submissions')
+      .update({ status: 'completed', processed_at: new Date().toISOString() })
+      .eq('id', submission_id);
+  } else {
+    startJobQueueWorkers(1);
+  }
+
+  console.log(`[run-company-workflows] Enqueued ${jobs.length} workflow job(s) for company ${company_id}`);
+  return { success: true, queued: true, submission_id, company_id, jobs };
+}
+
+// Resume a failed or cancelled cascade run on the job queue. The worker keeps the run id,
+// skips the steps it already completed and re-executes from the failed node onwards.
+// Budget-paused runs only continue once an admin approves them (approveBudget); the
+// resumed job runs to completion without the cascade cost limits
+async function resumeExecutionRun(
+  supabase: SupabaseClient,
+  runId: string,
+  approveBudget: boolean = false
+): Promise<{ success: boolean; queued: boolean; execution_run_id: string; job_id: string }> {
+  const { data: run, error: runError } = await supabase
+    .from('execution_runs')
+    .select('id, workflow_id, company_id, submission_id, status, run_type, trigger_type, input_data')
+    .eq('id', runId)
+    .single();
+
+  if (runError || !run) {
+    throw new Error('Execution run not found');
+  }
+  if (!['cascade', 'force_run'].includes(run.run_type)) {
+    throw new Error(`Only cascade and force runs can be resumed (this is a ${run.run_type})`);
+  }
+  if (run.status === 'budget_paused') {
+    if (!approveBudget) {
+      throw new Error('This run was paused by a cost limit and needs approve_budget to continue');
+    }
+  } else if (!['failed', 'cancelled'].includes(run.status)) {
+    throw new Error(`Only failed or cancelled runs can be resumed (this run is ${run.status})`);
+  }
+  if (!run.company_id) {
+    throw new Error('Execution run has no company');
+  }
+
+  // Re-queue the run's own job if it has one, so the submission is not left with a failed job
+  const { data: existingJob } = await supabase
+    .from('job_queue')
+    .select('id')
+    .eq('execution_run_id', runId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  let jobId: string;
+  if (existingJob) {
+    const { error: requeueError } = await supabase
+      .from('job_queue')
+      .update({
+        status: 'queued',
+        retry_count: 0,
+        error_message: null,
+        scheduled_for: new Date().toISOString(),
+        worker_id: null,
+        picked_up_at: null,
+        completed_at: null,
+      })
+      .eq('id', existingJob.id);
+    if (requeueError) throw requeueError;
+    jobId = existingJob.id;
+  } else {
+    const { data: job, error: jobError } = await supabase
+      .from('job_queue')
+      .insert({
+        company_id: run.company_id,
+        workflow_id: run.workflow_id,
+        execution_run_id: runId,
+        priority: 'high',
+        payload: {
+          type: 'company_cascade',
+          company_id: run.company_id,
+          submission_id: run.submission_id,
+          force: true,
+          start_from_node_id: run.input_data?.start_from_node_id || null,
+          refresh_stale: run.input_data?.refresh_stale || false,
+          refresh_node_ids: run.input_data?.refresh_node_ids,
+          trigger_type: run.trigger_type,
+        },
+      })
+      .select('id')
+      .single();
+    if (jobError || !job) throw new Error(`Failed to queue resume: ${jobError?.message}`);
+    jobId = job.id;
+  }
+
+  const wasBudgetPaused = run.status === 'budget_paused';
+  await supabase
+    .from('execution_runs')
+    .update({
+      status: 'queued',
+      error_message: null,
+      completed_at: null,
+      ...(wasBudgetPaused ? { input_data: { ...(run.input_data || {}), budget_approved_at: new Date().toISOString() } } : {}),
+    })
+    .eq('id', runId);
+  if (run.submission_id) {
+    await supabase
+      .from('company_data_submissions')
+      .update({ status: 'processing', error_message: null, execution_run_id: runId })
+      .eq('id', run.submission_id);
+  }
+
+  // Once nothing in the cascade is waiting on approval, its budget alert is done
+  if (wasBudgetPaused && run.submission_id) {
+    const { count } = await supabase
+      .from('execution_runs')
+      .select('id', { count: 'exact', head: true })
+      .eq('submission_id', run.submission_id)
+      .eq('status', 'budget_paused');
+    if (!count) {
+      await supabase
+        .from('system_alerts')
+        .update({ is_resolved: true, resolved_at: new Date().toISOString() })
+        .eq('alert_type', 'budget_paused')
+        .eq('affected_model', `submission:${run.submission_id}`)
+        .eq('is_resolved', false);
+    }
+  } else if (wasBudgetPaused) {
+    // Queued cascades without a submission raise their alert per run
+    await supabase
+      .from('system_alerts')
+      .update({ is_resolved: true, resolved_at: new Date().toISOString() })
+      .eq('alert_type', 'budget_paused')
+      .eq('affected_model', `run:${runId}`)
+      .eq('is_resolved', false);
+  }
+
+  startJobQueueWorkers(1);
+
+  console.log(`[run-company-workflows] Resuming run ${runId} as job ${jobId}`);
+  return { success: true, queued: true, execution_run_id: runId, job_id: jobId };
+}
+
+// ============= PORTFOLIO RUNS =============
+// One workflow queued for many companies; claim_next_job enforces the run's concurrency cap
+// and a trigger on job_queue keeps portfolio_run_companies up to date.
+
+interface PortfolioRunOptions {
+  workflow_id: string;
+  statuses?: string[] | null;
+  stale_only?: boolean;
+  missing_outputs_only?: boolean;
+  concurrency?: number;
+  force?: boolean;
+  // Limit the run to these companies (refreshing stale outputs from the canvas)
+  company_ids?: string[] | null;
+  // Only re-run nodes whose stored output came from an older node config, plus their downstream
+  refresh_stale?: boolean;
+}
+
+const DEFAULT_PORTFOLIO_CONCURRENCY = 5;
+const MAX_PORTFOLIO_CONCURRENCY = 20;
+
+interface PortfolioRunRecord {
+  id: string;
+  workflow_id: string;
+  force: boolean;
+  filters: { refresh_stale?: boolean } | null;
+}
+
+// Queue a portfolio run's companies in a fixed number of round trips, however many there are:
+// one readiness check, then one insert each for the trigger submissions, the company rows and
+// the jobs. Companies that cannot run get skipStatus. A failure part-way leaves no company
+// queued without a job, and the run is finished so it does not stay running.
+async function queuePortfolioCompanies(
+  supabase: SupabaseClient,
+  run: PortfolioRunRecord,
+  companies: Array<{ company_id: string; attempts: number }>,
+  skipStatus: 'skipped' | 'failed'
+): Promise<{ queued: number; skipped: number }> {
+  try {
+    const { data: workflow, error: workflowError } = await supabase
+      .from('workflows')
+      .select('id, name, nodes, settings')
+      .eq('id', run.workflow_id)
+      .single();
+    if (workflowError || !workflow) throw new Error('Workflow not found');
+    // Portfolio trigger submissions carry no ingest point, so this is the same for every company
+    const workflowRuns = isCompanyCascadeWorkflow(workflow, 'initial_submission');
+
+    const { data: readiness, error: readinessError } = await supabase.rpc('get_portfolio_company_readiness', {
+      _company_ids: companies.map(c => c.company_id),
+    });
+    if (readinessError) throw readinessError;
+    const readinessByCompany = new Map(
+      ((readiness || []) as Array<{ company_id: string; budget_allowed: boolean; has_data: boolean }>).map(r => [r.company_id, r])
+    );
+
+    const skipReasons = new Map<string, string>();
+    for (const company of companies) {
+      const ready = readinessByCompany.get(company.company_id);
+      if (!ready) skipReasons.set(company.company_id, 'Company not found');
+      else if (!ready.budget_allowed) skipReasons.set(company.company_id, 'Monthly AI budget exceeded');
+      else if (!ready.has_data) skipReasons.set(company.company_id, 'No data submission');
+      else if (!workflowRuns) skipReasons.set(company.company_id, 'Workflow does not run for this company');
+    }
+    const toQueue = companies.filter(c => !skipReasons.has(c.company_id));
+
+    const submissionIds = new Map<string, string>();
+    if (toQueue.length > 0) {
+      const triggeredAt = new Date().toISOString();
+      const { data: submissions, error: submissionError } = await supabase
+        .from('company_data_submissions')
+        .insert(toQueue.map(c => ({
+          company_id: c.company_id,
+          raw_data: { _trigger: 'portfolio_run', portfolio_run_id: run.id, workflow_id: run.workflow_id, timestamp: triggeredAt },
+          source_type: 'manual',
+          status: 'pending',
+        })))
+        .select('id, company_id');
+      if (submissionError || !submissions) throw new Error(`Failed to create submissions: ${submissionError?.message}`);
+      for (const submission of submissions as Array<{ id: string; company_id: string }>) {
+        submissionIds.set(submission.company_id, submission.id);
+      }
+    }
+
+    // The rows exist before the jobs do, so the status trigger always has something to update
+    const now = new Date().toISOString();
+    const { error: rowsError } = await supabase
+      .from('portfolio_run_companies')
+      .upsert(companies.map(c => ({
+        portfolio_run_id: run.id,
+        company_id: c.company_id,
+        status: skipReasons.has(c.company_id) ? skipStatus : 'queued',
+        submission_id: submissionIds.get(c.company_id) || null,
+        error_message: skipReasons.get(c.company_id) || null,
+        attempts: c.attempts,
+        execution_run_id: null,
+        started_at: null,
+        completed_at: skipReasons.has(c.company_id) ? now : null,
+      })), { onConflict: 'portfolio_run_id,company_id' });
+    if (rowsError) throw new Error(`Failed to record portfolio companies: ${rowsError.message}`);
+
+    if (toQueue.length > 0) {
+      const { error: jobsError } = await supabase
+        .from('job_queue')
+        .insert(toQueue.map(c => ({
+          company_id: c.company_id,
+          workflow_id: run.workflow_id,
+          priority: 'normal',
+          portfolio_run_id: run.id,
+          payload: {
+            type: 'company_cascade',
+            company_id: c.company_id,
+            submission_id: submissionIds.get(c.company_id),
+            force: run.force,
+            start_from_node_id: null,
+            refresh_stale: !!run.filters?.refresh_stale,
+            trigger_type: 'api',
+            cascade_dependents: false,
+          },
+        })));
+      if (jobsError) throw new Error(`Failed to queue jobs: ${jobsError.message}`);
+    }
+
+    if (toQueue.length === 0) {
+      await supabase
+        .from('portfolio_runs')
+        .update({ status: 'completed', completed_at: now })
+        .eq('id', run.id);
+    }
+    return { queued: toQueue.length, skipped: companies.length - toQueue.length };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to queue';
+    console.error(`[run-company-workflows] Failed to queue portfolio run ${run.id}:`, err);
+    const now = new Date().toISOString();
+    // In chunks, as the ids go into the request URL
+    for (let i = 0; i < companies.length; i += 200) {
+      await supabase
+        .from('portfolio_run_companies')
+        .update({ status: 'failed', error_message: message, completed_at: now })
+        .eq('portfolio_run_id', run.id)
+        .eq('status', 'queued')
+        .in('company_id', companies.slice(i, i + 200).map(c => c.company_id));
+    }
+    await supabase
+      .from('portfolio_runs')
+      .update({ status: 'completed', completed_at: now })
+      .eq('id', run.id)
+      .eq('status', 'running');
+    throw err;
+  }
+}
+
+async function startPortfolioRun(
+  supabase: SupabaseClient,
+  options: PortfolioRunOptions
+): Promise<{ success: boolean; portfolio_run_id: string; queued: number; skipped: number }> {
+  if (!options.workflow_id) {
+    throw new Error('workflow_id is required for a portfolio run');
+  }
+  const concurrency = Math.min(
+    Math.max(Math.floor(Number(options.concurrency) || DEFAULT_PORTFOLIO_CONCURRENCY), 1),
+    MAX_PORTFOLIO_CONCURRENCY
+  );
+  // Unchanged nodes reuse their outputs unless the run asks to re-execute everything
+  const force = options.force === true;
+  const filters = {
+    statuses: options.statuses?.length ? options.statuses : null,
+    stale_only: !!options.stale_only,
+    missing_outputs_only: !!options.missing_outputs_only,
+    company_ids: options.company_ids?.length ? options.company_ids : null,
+    refresh_stale: !!options.refresh_stale,
+  };
+
+  const { data: companies, error: companiesError } = await supabase.rpc('select_portfolio_companies', {
+    _workflow_id: options.workflow_id,
+    _statuses: filters.statuses,
+    _stale_only: filters.stale_only,
+    _missing_outputs_only: filters.missing_outputs_only,
+  });
+  if (companiesError) throw companiesError;
+  const selectedCompanies = ((companies || []) as Array<{ company_id: string; company_name: string }>)
+    .filter(company => !filters.company_ids || filters.company_ids.includes(company.company_id));
+
+  const { data: run, error: runError } = await supabase
+    .from('portfolio_runs')
+    .insert({ workflow_id: options.workflow_id, filters, concurrency, force })
+    .select('id, workflow_id, force, filters')
+    .single();
+  if (runError || !run) throw new Error(`Failed to create portfolio run: ${runError?.message}`);
+
+  const { queued, skipped } = await queuePortfolioCompanies(
+    supabase,
+    run as PortfolioRunRecord,
+    selectedCompanies.map(company => ({ company_id: company.company_id, attempts: 1 })),
+    'skipped'
+  );
+  if (queued > 0) startJobQueueWorkers(Math.min(concurrency, queued));
+
+  console.log(`[run-company-workflows] Portfolio run ${run.id}: ${queued} queued, ${skipped} skipped`);
+  return { success: true, portfolio_run_id: run.id, queued, skipped };
+}
+
+// Queue the failed companies of a portfolio run again, each with a fresh submission
+async function retryPortfolioRun(
+  supabase: SupabaseClient,
+  portfolioRunId: string
+): Promise<{ success: boolean; portfolio_run_id: string; queued: number; skipped: number }> {
+  const { data: run, error: runError } = await supabase
+    .from('portfolio_runs')
+    .select('id, workflow_id, filters, concurrency, force')
+    .eq('id', portfolioRunId)
+    .single();
+  if (runError || !run) throw new Error('Portfolio run not found');
+
+  const { data: failedRows, error: rowsError } = await supabase
+    .from('portfolio_run_companies')
+    .select('company_id, attempts')
+    .eq('portfolio_run_id', portfolioRunId)
+    .eq('status', 'failed');
+  if (rowsError) throw rowsError;
+  if (!failedRows || failedRows.length === 0) {
+    return { success: true, portfolio_run_id: portfolioRunId, queued: 0, skipped: 0 };
+  }
+
+  await supabase
+    .from('portfolio_runs')
+    .update({ status: 'running', completed_at: null })
+    .eq('id', portfolioRunId);
+
+  // Companies that still cannot be queued stay failed
+  const { queued, skipped } = await queuePortfolioCompanies(
+    supabase,
+    run as PortfolioRunRecord,
+    (failedRows as Array<{ company_id: string; attempts: number }>).map(row => ({ company_id: row.company_id, attempts: row.attempts + 1 })),
+    'failed'
+  );
+  if (queued > 0) startJobQueueWorkers(Math.min(run.concurrency, queued));
+
+  console.log(`[run-company-workflows] Portfolio run ${portfolioRunId} retry: ${queued} queued, ${skipped} could not be queued`);
+  return { success: true, portfolio_run_id: portfolioRunId, queued, skipped };
+}
+
+// ============= DRY RUN PLAN =============
+// dry_run mode walks the cascade the way processCompanyWorkflows would and reports which
+// nodes would run, without calling a model or writing anything.
+
+// Completions are estimated from the node's recent usage when there is any
+const DEFAULT_COMPLETION_TOKENS = 1000;
+
+type PlannedNodeStatus = 'would_execute' | 'cache_hit' | 'paused' | 'stop_trigger' | 'condition_skipped' | 'out_of_scope';
+
+interface PlannedNode {
+  node_id: string;
+  node_label: string;
+  node_type: string;
+  status: PlannedNodeStatus;
+  reason: string;
+  destinations: string[];
+  model?: string;
+  estimated_prompt_tokens?: number;
+  estimated_completion_tokens?: number;
+  estimated_cost?: number;
+  per_item?: boolean;
+  note?: string;
+}
+
+interface PlanTotals {
+  would_execute: number;
+  cache_hit: number;
+  paused: number;
+  stop_trigger: number;
+  condition_skipped: number;
+  out_of_scope: number;
+  estimated_prompt_tokens: number;
+  estimated_completion_tokens: number;
+  estimated_cost: number;
+}
+
+interface WorkflowPlan {
+  workflow_id: string;
+  workflow_name: string;
+  status: 'would_run' | 'cached';
+  message?: string;
+  nodes: PlannedNode[];
+  totals: PlanTotals;
+}
+
+type PricingOverrides = Record<string, { input: number; output: number }>;
+
+interface StoredNodeRow {
+  node_id: string;
+  data: { output?: unknown } | null;
+  content_hash: string | null;
+  dependency_hashes: Record<string, string> | null;
+  config_hash: string | null;
+}
+
+const emptyPlanTotals = (): PlanTotals => ({
+  would_execute: 0,
+  cache_hit: 0,
+  paused: 0,
+  stop_trigger: 0,
+  condition_skipped: 0,
+  out_of_scope: 0,
+  estimated_prompt_tokens: 0,
+  estimated_completion_tokens: 0,
+  estimated_cost: 0,
+});
+
+const addToPlanTotals = (totals: PlanTotals, node: PlannedNode) => {
+  totals[node.status]++;
+  totals.estimated_prompt_tokens += node.estimated_prompt_tokens || 0;
+  totals.estimated_completion_tokens += node.estimated_completion_tokens || 0;
+  totals.estimated_cost += node.estimated_cost || 0;
+};
+
+// Where a node's output goes once it executes, mirroring the sync tracking in processCompanyWorkflows
+const getPlannedDestinations = (node: Node): string[] => {
+  const config = node.config || {};
+  const destinations: string[] = [];
+
+  if (Array.isArray(config.outputDestinations) && config.outputDestinations.length > 0) {
+    for (const dest of config.outputDestinations) {
+      if (!dest.enabled) continue;
+      const destName = dest.destination_name || '';
+      if (destName.includes('Abi Platform')) {
+        destinations.push('Abi');
+      } else if (destName.includes('AbiVC')) {
+        destinations.push('AbiVC');
+      } else if (destName.includes('Master Data') && dest.field_mapping?.domain && dest.field_mapping?.field_key) {
+        destinations.push(`SSOT: ${dest.field_mapping.domain}.${dest.field_mapping.field_key}`);
+      } else if (destName.includes('SSOT Update')) {
+        destinations.push('SSOT Update');
+      }
+    }
+  } else {
+    if (config.isAbiOutput) destinations.push('Abi');
+    if (config.isAbiVCOutput) destinations.push('AbiVC');
+    if (config.isMasterDataOutput && config.masterDataMapping) {
+      destinations.push(`SSOT: ${config.masterDataMapping.domain}.${config.masterDataMapping.field_key}`);
+    }
+  }
+
+  for (const cacheConfig of config.sharedCacheOutputs || []) {
+    if (cacheConfig.enabled && cacheConfig.shared_cache_id) {
+      destinations.push(`Shared cache: ${cacheConfig.shared_cache_name || cacheConfig.shared_cache_id}`);
+    }
+  }
+
+  // Nodes that write to the SSOT as part of executing
+  if (node.type === 'variable' && config.ssotMapMode) {
+    for (const mapping of config.ssotMapDependencies || []) {
+      if (mapping.targetDomain && mapping.targetFieldKey) {
+        destinations.push(`SSOT: ${mapping.targetDomain}.${mapping.targetFieldKey}`);
+      }
+    }
+  }
+  if (node.type === 'agent' && (config.executionType || 'ssot_update') === 'ssot_update' && config.sourceNodeId) {
+    destinations.push('SSOT changes');
+  }
+
+  return destinations;
+};
+
+async function planCompanyWorkflows(
+  supabase: SupabaseClient,
+  company_id: string,
+  submission_id: string,
+  rawData: unknown,
+  workflows: Array<{ id: string; name: string; nodes: Node[] | null; edges: Edge[] | null }>,
+  force: boolean,
+  start_from_node_id: string | null,
+  pricingOverrides: PricingOverrides
+) {
+  const incomingHash = await hashContent(JSON.stringify(rawData));
+  const workflowPlans: WorkflowPlan[] = [];
+  const totals = emptyPlanTotals();
+  const crossWorkflowOutputs = new Map<string, { output: unknown; content_hash: string | null }>();
+  const completionHistory = new Map<string, number | null>();
+
+  // Stored output and hash of a node in another workflow
+  const loadCrossWorkflowNode = async (workflowId: string, nodeId: string) => {
+    const key = `${workflowId}:${nodeId}`;
+    if (!crossWorkflowOutputs.has(key)) {
+      const { data } = await supabase
+        .from('company_node_data')
+        .select('data, content_hash')
+        .match({ company_id, workflow_id: workflowId, node_id: nodeId })
+        .maybeSingle();
+      crossWorkflowOutputs.set(key, { output: data?.data?.output ?? null, content_hash: data?.content_hash ?? null });
+    }
+    return crossWorkflowOutputs.get(key)!;
+  };
+
+  // Average completion size of the node's last few generations, across companies
+  const loadAverageCompletion = async (workflowId: string, nodeId: string) => {
+    const key = `${workflowId}:${nodeId}`;
+    if (!completionHistory.has(key)) {
+      const { data } = await supabase
+        .from('ai_usage_logs')
+        .select('completion_tokens')
+        .match({ workflow_id: workflowId, node_id: nodeId })
+        .order('created_at', { ascending: false })
+        .limit(5);
+      const counts = (data || []).map((row: { completion_tokens: number }) => row.completion_tokens);
+      completionHistory.set(key, counts.length > 0 ? Math.round(counts.reduce((a: number, b: number) => a + b, 0) / counts.length) : null);
+    }
+    return completionHistory.get(key)!;
+  };
+
+  for (const workflow of workflows) {
+    const nodes: Node[] = workflow.nodes || [];
+    const edges: Edge[] = workflow.edges || [];
+    const workflowId = workflow.id;
+
+    const sourceNode = findSourceNode(nodes);
+    if (!sourceNode) continue;
+
+    const nodeMap = new Map(nodes.map(n => [n.id, n]));
+    const nodeLabel = (n: Node) => n.label || n.data?.label || n.type;
+    const workflowTotals = emptyPlanTotals();
+    const plannedNodes: PlannedNode[] = [];
+    const addPlannedNode = (n: Node, status: PlannedNodeStatus, reason: string, extra: Partial<PlannedNode> = {}) => {
+      const planned: PlannedNode = {
+        node_id: n.id,
+        node_label: nodeLabel(n),
+        node_type: n.type,
+        status,
+        reason,
+        destinations: getPlannedDestinations(n),
+        ...extra,
+      };
+      plannedNodes.push(planned);
+      addToPlanTotals(workflowTotals, planned);
+      return planned;
+    };
+
+    const { data: storedRows } = await supabase
+      .from('company_node_data')
+      .select('node_id, data, content_hash, dependency_hashes, config_hash')
+      .match({ company_id, workflow_id: workflowId });
+    const stored = new Map<string, StoredNodeRow>(
+      (storedRows || []).map((row: StoredNodeRow) => [row.node_id, row])
+    );
+
+    // Unchanged source data and no force: the cascade stops right away
+    const sourceHash = stored.get(sourceNode.id)?.content_hash;
+    if (!force && sourceHash && sourceHash === incomingHash) {
+      for (const n of nodes) addPlannedNode(n, 'cache_hit', 'source_data_unchanged');
+      workflowPlans.push({
+        workflow_id: workflowId,
+        workflow_name: workflow.name,
+        status: 'cached',
+        message: 'Data unchanged - no cascade needed',
+        nodes: plannedNodes,
+        totals: workflowTotals,
+      });
+      continue;
+    }
+
+    const sortedNodeIds = topologicalSort(nodes, edges);
+    const foreachOwners = new Map<string, string>();
+    for (const node of nodes) {
+      if (node.type !== 'foreach') continue;
+      for (const bodyId of getForeachBody(node.id, nodes, edges)) {
+        if (!foreachOwners.has(bodyId)) foreachOwners.set(bodyId, node.id);
+      }
+    }
+
+    let nodesToExecute = new Set<string>(sortedNodeIds);
+    if (start_from_node_id) {
+      const startNodeId = foreachOwners.get(start_from_node_id) || start_from_node_id;
+      nodesToExecute = new Set([startNodeId, ...collectDownstreamNodes([startNodeId], nodes, edges)]);
+    }
+
+    const pausedNodes = new Set(nodes.filter(n => n.config?.paused === true).map(n => n.id));
+    const pausedDownstream = collectDownstreamNodes([...pausedNodes], nodes, edges);
+
+    const skippedNodes = new Map<string, string>();
+    const undecidedNodes = new Map<string, string>();
+
+    // Nodes whose output would change this run, and nodes that would emit the stop trigger
+    const changing = new Set<string>([sourceNode.id]);
+    const stopping = new Set<string>();
+    const statusById = new Map<string, PlannedNodeStatus>();
+
+    addPlannedNode(sourceNode, 'would_execute', force ? 'force_rerun' : 'source_data_changed');
+    statusById.set(sourceNode.id, 'would_execute');
+
+    for (const nodeId of sortedNodeIds) {
+      if (nodeId === sourceNode.id) continue;
+      const node = nodeMap.get(nodeId);
+      if (!node) continue;
+      const storedNode = stored.get(nodeId);
+      const plan = (status: PlannedNodeStatus, reason: string, extra: Partial<PlannedNode> = {}) => {
+        statusById.set(nodeId, status);
+        return addPlannedNode(node, status, reason, extra);
+      };
+
+      if (!nodesToExecute.has(nodeId)) {
+        plan('out_of_scope', 'before_start_node');
+        if (node.type === 'condition' && storedNode?.data?.output) {
+          for (const id of getConditionSkipSet(nodeId, getConditionBranch(storedNode.data.output), nodes, edges)) {
+            if (!skippedNodes.has(id)) skippedNodes.set(id, nodeId);
+          }
+        }
+        continue;
+      }
+
+      if (pausedNodes.has(nodeId) || pausedDownstream.has(nodeId)) {
+        plan('paused', pausedNodes.has(nodeId) ? 'paused' : 'downstream_of_paused');
+        continue;
+      }
+
+      const skippedBy = skippedNodes.get(nodeId);
+      if (skippedBy) {
+        plan('condition_skipped', `condition_branch_not_taken:${nodeLabel(nodeMap.get(skippedBy) || node)}`);
+        continue;
+      }
+
+      const undecidedNote = undecidedNodes.get(nodeId);
+
+      const ownerId = foreachOwners.get(nodeId);
+      if (ownerId) {
+        if (statusById.get(ownerId) !== 'would_execute') {
+          plan('cache_hit', 'foreach_not_rerun');
+          continue;
+        }
+        changing.add(nodeId);
+      }
+
+      // Same dependency hash check as the cascade, treating upstream nodes that would run as changed
+      const allDeps = getAllDependencies(node, edges);
+      let executionReason: string | null = null;
+      if (ownerId) {
+        executionReason = `foreach_item:${nodeLabel(nodeMap.get(ownerId) || node)}`;
+      } else if (force) {
+        executionReason = 'force_rerun';
+      } else if (!storedNode?.content_hash) {
+        executionReason = 'never_executed';
+      } else if (storedNode.config_hash && storedNode.config_hash !== await hashNodeConfig(node)) {
+        executionReason = 'config_changed';
+      } else {
+        const storedDepHashes = storedNode.dependency_hashes || {};
+        const promptParts: PromptPart[] = node.config?.promptParts || [];
+        for (const dep of allDeps) {
+          if (nodes.find(n => n.id === dep.nodeId)?.config?.fetchLive === true) continue;
+          const promptPart = promptParts.find(p =>
+            p.type === 'dependency' &&
+            p.value === dep.nodeId &&
+            (!p.workflowId || p.workflowId === dep.workflowId)
+          );
+          if (!(promptPart?.triggersExecution ?? true)) continue;
+
+          const depKey = dep.workflowId ? `${dep.workflowId}:${dep.nodeId}` : dep.nodeId;
+          if (!dep.workflowId && changing.has(dep.nodeId)) {
+            executionReason = `dependency_changed:${dep.nodeId}`;
+            break;
+          }
+          const currentHash = dep.workflowId && dep.workflowId !== workflowId
+            ? (await loadCrossWorkflowNode(dep.workflowId, dep.nodeId)).content_hash
+            : stored.get(dep.nodeId)?.content_hash;
+          if (currentHash !== storedDepHashes[depKey]) {
+            executionReason = `dependency_changed:${dep.nodeId}`;
+            break;
+          }
+        }
+      }
+
+      if (!executionReason) {
+        plan('cache_hit', 'cache_valid', undecidedNote ? { note: undecidedNote } : {});
+        if (node.type === 'condition') {
+          for (const id of getConditionSkipSet(nodeId, getConditionBranch(storedNode?.data?.output), nodes, edges)) {
+            if (!skippedNodes.has(id)) skippedNodes.set(id, nodeId);
+          }
+        }
+        continue;
+      }
+
+      changing.add(nodeId);
+      const extra: Partial<PlannedNode> = ownerId ? { per_item: true } : {};
+      if (undecidedNote) extra.note = undecidedNote;
 
-  if (!intakeError && intakeSubmissions && intakeSubmissions.length > 0) {
-    // If ingestPointId specified, try to match metadata.ingest_point
-    let matchingSubmission = intakeSubmissions[0];
-    if (ingestPointId) {
-      matchingSubmission = intakeSubmissions.find((s: any) => 
-        s.metadata?.ingest_point === ingestPointId
-      ) || intakeSubmissions[0];
-    }
-    console.log('[findLatestDataSubmission] Found submission with intake_fields:', matchingSubmission.id);
-    return matchingSubmission;
-  }
+      if (node.type === 'condition') {
+        // The branch is only known once the condition runs
+        for (const id of getConditionSkipSet(nodeId, null, nodes, edges)) {
+          if (!undecidedNodes.has(id)) undecidedNodes.set(id, `Depends on the branch condition "${nodeLabel(node)}" takes`);
+        }
+      }
 
-  // Query 2: Find submissions from sync sources
-  const syncSources = targetSourceType ? [targetSourceType] : ['abivc_sync', 'abi_sync', 'api'];
-  const { data: syncSubmissions, error: syncError } = await supabase
-    .from('company_data_submissions')
-    .select('id, raw_data, source_type, metadata')
-    .eq('company_id', companyId)
-    .in('source_type', syncSources)
-    .order('submitted_at', { ascending: false })
-    .limit(10);
+      if (node.type !== 'promptTemplate') {
+        plan('would_execute', executionReason, extra);
+        continue;
+      }
 
-  if (!syncError && syncSubmissions && syncSubmissions.length > 0) {
-    const realSubmission = syncSubmissions.find((s: any) => 
-      s.raw_data && 
-      !s.raw_data._trigger &&
-      Object.keys(s.raw_data).length > 1
-    );
+      // Dependency outputs the prompt would see: stored outputs stand in for ones that would change
+      const depOutputs: string[] = [];
+      let hasStopTrigger = false;
+      for (const dep of allDeps) {
+        const crossWorkflow = !!dep.workflowId && dep.workflowId !== workflowId;
+        let depOutput: unknown;
+        if (crossWorkflow) {
+          depOutput = (await loadCrossWorkflowNode(dep.workflowId!, dep.nodeId)).output;
+        } else if (dep.nodeId === sourceNode.id) {
+          depOutput = rawData;
+        } else if (stopping.has(dep.nodeId)) {
+          depOutput = STOP_TRIGGER_CODE;
+        } else {
+          depOutput = stored.get(dep.nodeId)?.data?.output;
+        }
+        // A dependency that re-executes may not repeat its stored stop trigger
+        const settled = crossWorkflow || !changing.has(dep.nodeId) || stopping.has(dep.nodeId);
+        if (settled && typeof depOutput === 'string' && depOutput.includes(STOP_TRIGGER_CODE)) {
+          hasStopTrigger = true;
+          break;
+        }
+        depOutputs.push(typeof depOutput === 'string' ? depOutput : JSON.stringify(depOutput ?? ''));
+      }
 
-    if (realSubmission) {
-      console.log('[findLatestDataSubmission] Found real submission from sync source:', realSubmission.id, 'source:', realSubmission.source_type);
-      return realSubmission;
-    }
-  }
+      if (hasStopTrigger) {
+        stopping.add(nodeId);
+        plan('stop_trigger', 'stop_trigger_in_dependency', extra);
+        continue;
+      }
 
-  // Query 3: Fallback - search all submissions
-  const { data: allSubmissions, error: allError } = await supabase
-    .from('company_data_submissions')
-    .select('id, raw_data, source_type')
-    .eq('company_id', companyId)
-    .order('submitted_at', { ascending: false })
-    .limit(50);
+      const config = node.config || {};
+      const model = mapModelName(config.model || 'gpt-5-mini');
+      const maxTokens = config.maxTokens || config.max_tokens || 8000;
+      let promptText = depOutputs.join('\n\n---\n\n');
+      for (const part of config.promptParts || []) {
+        if (part.systemPromptId) {
+          const { data: sysPrompt } = await supabase
+            .from('system_prompts')
+            .select('prompt')
+            .eq('id', part.systemPromptId)
+            .maybeSingle();
+          promptText += sysPrompt?.prompt || '';
+        } else if (part.type === 'text' || part.type === 'prompt') {
+          promptText += part.value || '';
+        } else if (part.type === 'framework') {
+          const { data: framework } = await supabase
+            .from('frameworks')
+            .select('schema')
+            .eq('id', part.value)
+            .maybeSingle();
+          if (framework?.schema) {
+            promptText += typeof framework.schema === 'string' ? framework.schema : JSON.stringify(framework.schema);
+          }
+        }
+      }
 
-  if (!allError && allSubmissions && allSubmissions.length > 0) {
-    const realSubmission = allSubmissions.find((s: any) => 
-      s.raw_data && 
-      !s.raw_data._trigger &&
-      (s.raw_data.intake_fields || Object.keys(s.raw_data).length > 2)
-    );
+      if (!promptText.trim()) {
+        plan('would_execute', executionReason, { ...extra, model, note: 'Empty prompt - no model call' });
+        continue;
+      }
 
-    if (realSubmission) {
-      console.log('[findLatestDataSubmission] Found real submission in fallback search:', realSubmission.id);
-      return realSubmission;
+      const promptTokens = estimateTokens(promptText);
+      const averageCompletion = await loadAverageCompletion(workflowId, nodeId);
+      const completionTokens = Math.min(maxTokens, averageCompletion ?? DEFAULT_COMPLETION_TOKENS);
+      plan('would_execute', executionReason, {
+        ...extra,
+        model,
+        estimated_prompt_tokens: promptTokens,
+        estimated_completion_tokens: completionTokens,
+        estimated_cost: calculateCost(model, promptTokens, completionTokens, pricingOverrides),
+      });
     }
+
+    workflowPlans.push({
+      workflow_id: workflowId,
+      workflow_name: workflow.name,
+      status: 'would_run',
+      nodes: plannedNodes,
+      totals: workflowTotals,
+    });
   }
 
-  console.warn('[findLatestDataSubmission] No real data submission found for company:', companyId);
-  return null;
+  for (const workflowPlan of workflowPlans) {
+    for (const planned of workflowPlan.nodes) addToPlanTotals(totals, planned);
+  }
+
+  // Outputs that would be synced once the cascade finishes
+  const plannedWrites = workflowPlans
+    .flatMap(w => w.nodes)
+    .filter(n => n.status === 'would_execute')
+    .flatMap(n => n.destinations);
+
+  return {
+    success: true,
+    dry_run: true,
+    company_id,
+    submission_id,
+    force,
+    start_from_node_id,
+    workflows_planned: workflowPlans.length,
+    workflows: workflowPlans,
+    totals,
+    writes: {
+      abi: plannedWrites.filter(d => d === 'Abi').length,
+      abivc: plannedWrites.filter(d => d === 'AbiVC').length,
+      ssot: plannedWrites.filter(d => d.startsWith('SSOT: ')).length,
+      ssot_updates: plannedWrites.filter(d => d === 'SSOT Update' || d === 'SSOT changes').length,
+      shared_cache: plannedWrites.filter(d => d.startsWith('Shared cache: ')).length,
+    },
+  };
 }
 
 // Process workflows for a single company
@@ -656,17 +1904,18 @@ async function processCompanyWorkflows(
   specificWorkflowId: string | null,
   empty_only: boolean = false,
   force: boolean = false,
-  start_from_node_id: string | null = null
+  start_from_node_id: string | null = null,
+  dry_run: boolean = false
 ): Promise<any> {
   const lovableApiKey = Deno.env.get('LOVABLE_API_KEY')!;
 
   // Load pricing overrides from database
   const pricingOverrides = await loadPricingOverrides(supabase);
 
-  // Fetch self-improvement settings from app_settings
+  // Fetch self-improvement and cost limit settings from app_settings
   const { data: appSettings } = await supabase
     .from('app_settings')
-    .select('self_improvement_settings')
+    .select('self_improvement_settings, cost_budget_settings')
     .limit(1)
     .maybeSingle();
 
@@ -680,6 +1929,8 @@ async function processCompanyWorkflows(
     metrics_complexity_enabled: true,
   };
 
+  const costBudgetSettings: CostBudgetSettings = appSettings?.cost_budget_settings || { enabled: false };
+
   const alertThreshold = selfImprovementSettings.alert_threshold ?? 50;
   const autoTagLowQuality = selfImprovementSettings.auto_tag_low_quality ?? true;
   
@@ -709,11 +1960,14 @@ async function processCompanyWorkflows(
   console.log('[run-company-workflows] Submission fetch:', { found: !!submission, error: submissionError?.message });
   
   // Check if this is a trigger-only submission (manual run) without real data
+  // The submission whose data the cascade actually reads, recorded in the source node's lineage
+  let dataSubmissionId = submission_id;
   if (submission && submission.raw_data?._trigger && !submission.raw_data?.intake_fields) {
     console.log('[run-company-workflows] Trigger submission detected, looking for actual company data...');
     
     const realSubmission = await findLatestDataSubmission(supabase, company_id);
     if (realSubmission && realSubmission.raw_data) {
+      dataSubmissionId = realSubmission.id;
       console.log('[run-company-workflows] Found real submission with data, using it instead');
       console.log('[run-company-workflows] Real submission intake_fields keys:', 
         realSubmission.raw_data.intake_fields ? Object.keys(realSubmission.raw_data.intake_fields).length : 0);
@@ -730,10 +1984,12 @@ async function processCompanyWorkflows(
   }
 
   // Update submission to processing
-  await supabase
-    .from('company_data_submissions')
-    .update({ status: 'processing' })
-    .eq('id', submission_id);
+  if (!dry_run) {
+    await supabase
+      .from('company_data_submissions')
+      .update({ status: 'processing' })
+      .eq('id', submission_id);
+  }
 
   // Fetch workflows - either specific one or all
   let workflows: any[] = [];
@@ -767,40 +2023,7 @@ async function processCompanyWorkflows(
   console.log(`[run-company-workflows] Submission ingest point: ${submissionIngestPoint}, source: ${submissionSource}`);
 
   // Filter to only workflows that have company_ingest nodes AND are company-relevant AND match ingest point
-  let relevantWorkflows = workflows.filter(w => {
-    const nodes: Node[] = w.nodes || [];
-    const hasIngest = hasCompanyIngestNode(nodes);
-    
-    // Check data attribution - only process company-relevant workflows
-    const settings = w.settings as { data_attribution?: string } | null;
-    const attribution = settings?.data_attribution || 'company_data';
-    const isCompanyRelevant = attribution === 'company_data' || attribution === 'company_related_data';
-    
-    // Find the ingest node to check ingest point matching
-    const ingestNode = nodes.find(n => n.type === 'ingest' || (n.type === 'dataset' && n.config?.sourceType === 'company_ingest'));
-    const workflowIngestPoint = ingestNode?.config?.ingestPointId || 'initial_submission';
-    const workflowIntegrationId = ingestNode?.config?.integrationId;
-    
-    // If submission came from AbiVC, only run workflows with matching ingest points
-    let ingestPointMatches = true;
-    if (submissionSource === 'abivc' && workflowIntegrationId === 'abivc') {
-      ingestPointMatches = workflowIngestPoint === submissionIngestPoint;
-      if (!ingestPointMatches) {
-        console.log(`[run-company-workflows] Skipping workflow "${w.name}": ingest point mismatch (workflow=${workflowIngestPoint}, submission=${submissionIngestPoint})`);
-      }
-    }
-    
-    console.log(`[run-company-workflows] Workflow "${w.name}" (${w.id}): nodes=${nodes.length}, hasCompanyIngest=${hasIngest}, attribution=${attribution}, isCompanyRelevant=${isCompanyRelevant}, ingestPoint=${workflowIngestPoint}, matches=${ingestPointMatches}`);
-    
-    // Debug: log node types and configs
-    nodes.forEach(n => {
-      if (n.type === 'dataset') {
-        console.log(`  - Dataset node "${n.id}": sourceType=${n.config?.sourceType}`);
-      }
-    });
-    
-    return hasIngest && isCompanyRelevant && ingestPointMatches;
-  });
+  let relevantWorkflows = workflows.filter(w => isCompanyCascadeWorkflow(w, submissionIngestPoint, submissionSource));
 
   console.log('[run-company-workflows] Relevant workflows with company_ingest:', relevantWorkflows.length);
 
@@ -833,13 +2056,16 @@ async function processCompanyWorkflows(
   }
 
   if (relevantWorkflows.length === 0) {
-    await supabase
-      .from('company_data_submissions')
-      .update({ status: 'completed', processed_at: new Date().toISOString() })
-      .eq('id', submission_id);
+    if (!dry_run) {
+      await supabase
+        .from('company_data_submissions')
+        .update({ status: 'completed', processed_at: new Date().toISOString() })
+        .eq('id', submission_id);
+    }
 
     return {
       success: true,
+      dry_run,
       message: empty_only ? 'No workflows with empty nodes found' : 'No workflows with company_ingest nodes found',
       workflows_processed: 0,
       debug: {
@@ -849,55 +2075,28 @@ async function processCompanyWorkflows(
     };
   }
 
+  // Dry run: report the plan instead of executing it
+  if (dry_run) {
+    return await planCompanyWorkflows(supabase, company_id, submission_id, submission.raw_data, relevantWorkflows, force, start_from_node_id, pricingOverrides);
+  }
+
   const startTime = Date.now();
   const workflowResults: any[] = [];
-  
-  // Track outputs for Abi sync
-  const abiOutputNodes: Array<{
-    node_id: string;
-    node_label: string;
-    node_type: string;
-    workflow_id: string;
-    workflow_name: string;
-    data: any;
-    version: number;
-    updated_at: string;
-  }> = [];
 
-  // Track outputs for AbiVC sync
-  const abivcOutputNodes: Array<{
-    node_id: string;
-    node_label: string;
-    node_type: string;
+  // Runs paused by a cost limit, waiting for an admin to approve continuation
+  const budgetPausedRuns: Array<{
+    execution_run_id: string | null;
     workflow_id: string;
     workflow_name: string;
-    data: any;
-    version: number;
-    updated_at: string;
-  }> = [];
-
-  // Track outputs for Master Data sync
-  const masterDataOutputNodes: Array<{
-    node_id: string;
-    node_label: string;
-    workflow_id: string;
-    domain: string;
-    field_key: string;
-    value: any;
+    breach: CostLimitBreach;
+    node_ids: string[];
   }> = [];
+  
+  // Node outputs to sync to Abi, AbiVC, Master Data and SSOT Update
+  const cascadeOutputs = createCascadeOutputs();
 
-  // Track outputs for SSOT Update (AI-generated change plans)
-  const ssotUpdateNodes: Array<{
-    node_id: string;
-    node_label: string;
-    workflow_id: string;
-    output: any;
-    config?: {
-      target_company_source?: 'current' | 'from_input';
-      auto_approve_l4?: boolean;
-      require_approval_create?: boolean;
-    };
-  }> = [];
+  // For the cross-workflow graph checks below
+  const otherWorkflows = await loadOtherWorkflows(supabase);
 
   // Process each relevant workflow
   for (const workflow of relevantWorkflows) {
@@ -915,6 +2114,7 @@ async function processCompanyWorkflows(
     const executionStats = {
       executed: [] as string[],
       cached: [] as string[],
+      skipped: [] as string[],
     };
 
     // Step 1: Hash the incoming data
@@ -942,6 +2142,8 @@ async function processCompanyWorkflows(
         data: { output: submission.raw_data },
         content_hash: incomingHash,
         dependency_hashes: {},
+        lineage: { submission_id: dataSubmissionId, intake_fields: getFilledIntakeFields(submission.raw_data) } as NodeLineage,
+        status: 'completed',
         last_executed_at: new Date().toISOString(),
         version: sourceVersion,
         updated_at: new Date().toISOString()
@@ -961,6 +2163,7 @@ async function processCompanyWorkflows(
         message: 'Data unchanged - no cascade needed',
         executed: [],
         cached: nodes.map(n => n.id),
+        skipped: [],
       });
       continue;
     }
@@ -969,8 +2172,39 @@ async function processCompanyWorkflows(
       console.log(`[run-company-workflows] Force mode enabled - will re-execute all nodes for workflow "${workflow.name}"`);
     }
 
-    // Step 3: Topological sort all nodes
-    const sortedNodeIds = topologicalSort(nodes, edges);
+    // Step 2b: The graph errors the editor's Validate button reports block the run here too
+    const graphErrors = getGraphErrors({ workflowId, nodes, edges, otherWorkflows });
+    if (graphErrors.length > 0) {
+      console.error(`[run-company-workflows] Workflow "${workflow.name}" has graph errors, not running: ${graphErrors.join('; ')}`);
+      workflowResults.push({
+        workflow_id: workflowId,
+        workflow_name: workflow.name,
+        status: 'failed',
+        message: graphErrors.join('; '),
+        executed: [],
+        cached: [],
+        skipped: [],
+      });
+      continue;
+    }
+
+    // Step 3: Topological sort all nodes. A dependency cycle has no valid order, so the
+    // workflow fails instead of running the nodes in and after it in arbitrary order.
+    const { sorted: sortedNodeIds, blocked: cycleNodeIds } = orderNodes(nodes, edges);
+    if (cycleNodeIds.length > 0) {
+      const cycleLabels = cycleNodeIds.map(id => nodeMap.get(id)?.label || id).join(', ');
+      console.error(`[run-company-workflows] Dependency cycle in workflow "${workflow.name}", not running: ${cycleLabels}`);
+      workflowResults.push({
+        workflow_id: workflowId,
+        workflow_name: workflow.name,
+        status: 'failed',
+        message: `Dependency cycle involving ${cycleLabels}`,
+        executed: [],
+        cached: [],
+        skipped: cycleNodeIds,
+      });
+      continue;
+    }
     
     // Log execution order for debugging
     console.log(`[run-company-workflows] Execution order for workflow "${workflow.name}":`);
@@ -984,12 +2218,72 @@ async function processCompanyWorkflows(
       console.log(`  [${idx}] ${n?.label || nodeId} (${n?.type}) <- [${depLabels || 'none'}]`);
     });
 
+    // Step 3.3b: Foreach bodies run per item inside their foreach node, never on their own
+    const foreachOwners = new Map<string, string>();
+    for (const node of nodes) {
+      if (node.type !== 'foreach') continue;
+      for (const bodyId of getForeachBody(node.id, nodes, edges)) {
+        if (!foreachOwners.has(bodyId)) foreachOwners.set(bodyId, node.id);
+      }
+    }
+    const fannedOutNodes = new Set<string>();
+
+    // Run history for this workflow's cascade
+    const runStartedAt = Date.now();
+    const runId = await startExecutionRun(supabase, {
+      workflow_id: workflowId,
+      company_id,
+      run_type: 'cascade',
+      trigger_type: 'api',
+      submission_id,
+      input_data: { force: !!force, start_from_node_id: start_from_node_id || null },
+    });
+    let failedStepCount = 0;
+    const recordStep = (stepNode: Node, status: ExecutionStepFields['status'], startedAt: number, fields: {
+      input_data?: Record<string, unknown> | null;
+      output_data?: Record<string, unknown> | null;
+      error_message?: string | null;
+    } = {}) => {
+      if (status === 'failed') failedStepCount++;
+      return recordExecutionStep(supabase, runId, company_id, workflowId, {
+        node_id: stepNode.id,
+        node_type: stepNode.type,
+        node_label: stepNode.label || stepNode.data?.label || stepNode.type,
+        status,
+        execution_order: sortedNodeIds.indexOf(stepNode.id),
+        started_at: startedAt,
+        ...fields,
+      });
+    };
+    // Dependency values a node saw, from this cascade's results or the stored outputs
+    const collectStepInputs = async (deps: Array<{ nodeId: string; workflowId?: string }>) => {
+      const dependencies: Record<string, unknown> = {};
+      for (const dep of deps) {
+        const depKey = dep.workflowId ? `${dep.workflowId}:${dep.nodeId}` : dep.nodeId;
+        if (!dep.workflowId && results.has(dep.nodeId)) {
+          dependencies[depKey] = results.get(dep.nodeId);
+          continue;
+        }
+        const { data: depData } = await supabase
+          .from('company_node_data')
+          .select('data')
+          .match({ company_id, workflow_id: dep.workflowId || workflowId, node_id: dep.nodeId })
+          .maybeSingle();
+        dependencies[depKey] = depData?.data?.output ?? null;
+      }
+      return { dependencies };
+    };
+
+    await recordStep(sourceNode, 'completed', runStartedAt, { output_data: { output: submission.raw_data } });
+
     // Step 3.4: If start_from_node_id is specified, filter to only that node + downstream
     let nodesToExecute = new Set<string>(sortedNodeIds);
     
     if (start_from_node_id) {
-      // Build set of nodes to execute: start node + all downstream
-      const downstreamNodes = new Set<string>([start_from_node_id]);
+      // Build set of nodes to execute: start node + all downstream.
+      // Starting inside a foreach body starts from the foreach itself.
+      const startNodeId = foreachOwners.get(start_from_node_id) || start_from_node_id;
+      const downstreamNodes = new Set<string>([startNodeId]);
       
       const addDownstream = (nodeId: string) => {
         // 1. Agent nodes referencing this node as sourceNodeId
@@ -1030,12 +2324,22 @@ async function processCompanyWorkflows(
             }
           }
         }
+        
+        // 4. Targets of this node's control edges
+        for (const edge of edges) {
+          if (edge.from?.node === nodeId &&
+              isControlEdge(edge) &&
+              !downstreamNodes.has(edge.to.node)) {
+            downstreamNodes.add(edge.to.node);
+            addDownstream(edge.to.node);
+          }
+        }
       };
       
-      addDownstream(start_from_node_id);
+      addDownstream(startNodeId);
       nodesToExecute = downstreamNodes;
       
-      console.log(`[run-company-workflows] start_from_node_id: ${start_from_node_id}, executing ${nodesToExecute.size} nodes:`, 
+      console.log(`[run-company-workflows] start_from_node_id: ${startNodeId}, executing ${nodesToExecute.size} nodes:`, 
         Array.from(nodesToExecute).map(id => nodeMap.get(id)?.label || id).join(', '));
     }
 
@@ -1081,6 +2385,13 @@ async function processCompanyWorkflows(
           }
         }
       }
+      // Control edge targets
+      for (const edge of edges) {
+        if (edge.from?.node === nodeId && isControlEdge(edge) && !pausedDownstream.has(edge.to.node)) {
+          pausedDownstream.add(edge.to.node);
+          addDownstreamToPaused(edge.to.node);
+        }
+      }
     };
 
     for (const pausedId of pausedNodes) {
@@ -1091,9 +2402,45 @@ async function processCompanyWorkflows(
       console.log(`[run-company-workflows] Paused nodes: ${pausedNodes.size}, Downstream blocked: ${pausedDownstream.size}`);
     }
 
+    // Step 3.6: Condition routing - nodes on a branch that was not taken are skipped
+    const skippedNodes = new Map<string, { condition_node_id: string; branch: string | null }>();
+    const applyConditionBranch = (conditionNodeId: string, conditionOutput: unknown) => {
+      const branch = getConditionBranch(conditionOutput);
+      const skipSet = getConditionSkipSet(conditionNodeId, branch, nodes, edges);
+      for (const id of skipSet) {
+        if (!skippedNodes.has(id)) {
+          skippedNodes.set(id, { condition_node_id: conditionNodeId, branch });
+        }
+      }
+      console.log(`[run-company-workflows] Condition ${conditionNodeId} -> ${branch ?? 'error'}, skipping ${skipSet.size} nodes`);
+    };
+
+    // Set when a cost limit stops the cascade before a node's AI call; nodes running in
+    // parallel can each hit the limit, so all of them are tracked
+    let costPause = null as { breach: CostLimitBreach; node_id: string } | null;
+    const costPausedNodeIds = new Set<string>();
+    // Paused nodes whose budget_paused step execute-single-node already recorded
+    const costPauseRecordedIds = new Set<string>();
+
+    // Parallel nodes check the cost limits one at a time, and a node that passes holds its
+    // estimated cost until it finishes and its usage is logged, so a level of AI calls cannot
+    // cross a limit together
+    const costReservations = new Map<string, number>();
+    let costCheckQueue: Promise<unknown> = Promise.resolve();
+    const reserveCascadeCost = (nodeId: string, estimatedCost: number): Promise<CostLimitBreach | null> => {
+      const check = costCheckQueue.then(async () => {
+        const reservedUsd = Array.from(costReservations.values()).reduce((sum, usd) => sum + usd, 0);
+        const breach = await checkCascadeCostLimits(supabase, costBudgetSettings, company_id, startTime, estimatedCost, reservedUsd);
+        if (!breach) costReservations.set(nodeId, estimatedCost);
+        return breach;
+      });
+      costCheckQueue = check.catch(() => null);
+      return check;
+    };
+
     // Step 4: Execute cascade
-    for (const nodeId of sortedNodeIds) {
-      if (nodeId === sourceNode.id) continue;
+    const executeCascadeNode = async (nodeId: string): Promise<void> => {
+      if (nodeId === sourceNode.id) return;
 
       // Skip nodes not in the execution set (when start_from_node_id is specified)
       if (!nodesToExecute.has(nodeId)) {
@@ -1106,28 +2453,92 @@ async function processCompanyWorkflows(
         
         if (cachedData?.data?.output) {
           results.set(nodeId, cachedData.data.output);
+          if (nodeMap.get(nodeId)?.type === 'condition') {
+            applyConditionBranch(nodeId, cachedData.data.output);
+          }
         }
-        continue;
+        return;
       }
 
       // Skip paused nodes and their downstream
       if (pausedNodes.has(nodeId) || pausedDownstream.has(nodeId)) {
         console.log(`[run-company-workflows] Skipping node ${nodeId}: paused or downstream of paused`);
         executionStats.cached.push(nodeId);
-        continue;
+        const pausedNode = nodeMap.get(nodeId);
+        if (pausedNode) {
+          await recordStep(pausedNode, 'skipped', Date.now(), { error_message: 'Paused or downstream of a paused node' });
+        }
+        return;
       }
 
       const node = nodeMap.get(nodeId);
-      if (!node) continue;
+      if (!node) return;
+
+      // Skip nodes on the untaken side of a condition. The hash is cleared so they
+      // re-execute once the condition routes the cascade their way.
+      const skipInfo = skippedNodes.get(nodeId);
+      if (skipInfo) {
+        await supabase
+          .from('company_node_data')
+          .upsert({
+            company_id,
+            workflow_id: workflowId,
+            node_id: nodeId,
+            node_type: node.type,
+            node_label: node.label || node.data?.label || node.type,
+            data: {
+              output: null,
+              skipped: {
+                ...skipInfo,
+                reason: skipInfo.branch
+                  ? `Condition took the "${skipInfo.branch}" branch`
+                  : 'Condition could not be evaluated',
+              },
+            },
+            content_hash: null,
+            config_hash: null,
+            dependency_hashes: {},
+            status: 'skipped',
+            updated_at: new Date().toISOString()
+          }, {
+            onConflict: 'company_id,workflow_id,node_id'
+          });
+
+        executionStats.skipped.push(nodeId);
+        await recordStep(node, 'skipped', Date.now(), {
+          error_message: `Condition branch not taken (${nodeMap.get(skipInfo.condition_node_id)?.label || skipInfo.condition_node_id})`,
+        });
+        console.log(`[run-company-workflows] Skipping node "${node.label || nodeId}": condition branch not taken`);
+        return;
+      }
+
+      // Foreach body nodes: their per-item outputs were stored when the foreach ran
+      if (foreachOwners.has(nodeId)) {
+        const { data: bodyData } = await supabase
+          .from('company_node_data')
+          .select('data')
+          .match({ company_id, workflow_id: workflowId, node_id: nodeId })
+          .maybeSingle();
+        if (bodyData?.data?.output !== undefined) {
+          results.set(nodeId, bodyData.data.output);
+        }
+        if (fannedOutNodes.has(nodeId)) {
+          executionStats.executed.push(nodeId);
+        } else {
+          executionStats.cached.push(nodeId);
+        }
+        return;
+      }
 
       const allDeps = getAllDependencies(node, edges);
 
       let needsExecution = false;
       let executionReason = 'cache_valid';
+      const configHash = await hashNodeConfig(node);
 
       const { data: nodeData } = await supabase
         .from('company_node_data')
-        .select('dependency_hashes, content_hash')
+        .select('dependency_hashes, content_hash, config_hash')
         .match({ company_id, workflow_id: workflowId, node_id: nodeId })
         .single();
 
@@ -1138,6 +2549,9 @@ async function processCompanyWorkflows(
       } else if (!nodeData || !nodeData.content_hash) {
         needsExecution = true;
         executionReason = 'never_executed';
+      } else if (nodeData.config_hash && nodeData.config_hash !== configHash) {
+        needsExecution = true;
+        executionReason = 'config_changed';
       } else {
         const storedDepHashes = nodeData.dependency_hashes || {};
         
@@ -1197,14 +2611,84 @@ async function processCompanyWorkflows(
 
         results.set(nodeId, cached?.data?.output || '');
         executionStats.cached.push(nodeId);
-        continue;
+        await recordStep(node, 'skipped', Date.now(), {
+          output_data: { output: cached?.data?.output ?? null },
+          error_message: CACHED_STEP_MESSAGE,
+        });
+        if (node.type === 'condition') {
+          applyConditionBranch(nodeId, cached?.data?.output);
+        }
+        return;
       }
 
       executionStats.executed.push(nodeId);
+      const stepStartedAt = Date.now();
+
+      // Foreach nodes fan out in execute-single-node, which stores the foreach, body and per-item outputs
+      if (node.type === 'foreach') {
+        const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+        const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+        // Hold one item's pass through the body while the foreach runs; the item count is only
+        // known in execute-single-node, which checks every item against the limits itself
+        const itemEstimate = [...getForeachBody(nodeId, nodes, edges)].reduce((sum, bodyId) => {
+          const bodyConfig = nodeMap.get(bodyId)?.type === 'promptTemplate' ? nodeMap.get(bodyId)?.config || {} : null;
+          if (!bodyConfig) return sum;
+          const promptText = (bodyConfig.promptParts || []).map((part: PromptPart) => part.type === 'text' ? part.value : '').join('');
+          const maxTokens = bodyConfig.maxTokens || bodyConfig.max_tokens || 8000;
+          return sum + calculateCost(mapModelName(bodyConfig.model || 'gpt-5-mini'), estimateTokens(promptText), maxTokens, pricingOverrides);
+        }, 0);
+        const costBreach = await reserveCascadeCost(nodeId, itemEstimate);
+        if (costBreach) {
+          console.warn(`[run-company-workflows] Pausing cascade at foreach ${nodeId}: ${describeCostBreach(costBreach)}`);
+          costPause ??= { breach: costBreach, node_id: nodeId };
+          costPausedNodeIds.add(nodeId);
+          return;
+        }
+
+        try {
+          const foreachResponse = await fetch(`${supabaseUrl}/functions/v1/execute-single-node`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${supabaseKey}`,
+            },
+            body: JSON.stringify({
+              company_id,
+              workflow_id: workflowId,
+              node_id: nodeId,
+              execution_run_id: runId,
+              execution_order: sortedNodeIds.indexOf(nodeId),
+              cost_limits_since: new Date(startTime).toISOString(),
+            }),
+          });
+          const foreachResult = await foreachResponse.json();
+          // An item crossed a cost limit: the foreach step is already recorded as budget_paused
+          if (foreachResult.budget_paused && foreachResult.cost_limit) {
+            console.warn(`[run-company-workflows] Pausing cascade at foreach ${nodeId}: ${foreachResult.error}`);
+            costPause ??= { breach: foreachResult.cost_limit, node_id: nodeId };
+            costPausedNodeIds.add(nodeId);
+            costPauseRecordedIds.add(nodeId);
+            return;
+          }
+          if (!foreachResult.success) failedStepCount++;
+          for (const bodyId of foreachResult.fanout_nodes || []) {
+            fannedOutNodes.add(bodyId);
+          }
+          results.set(nodeId, foreachResult.success ? foreachResult.output : `[Foreach error: ${foreachResult.error || foreachResponse.status}]`);
+          console.log(`[run-company-workflows] Foreach "${node.label || nodeId}" ran ${(foreachResult.fanout_nodes || []).length} body nodes per item`);
+        } catch (foreachError) {
+          console.error(`[run-company-workflows] Foreach ${nodeId} failed:`, foreachError);
+          results.set(nodeId, `[Foreach error: ${foreachError instanceof Error ? foreachError.message : 'Execution failed'}]`);
+          await recordStep(node, 'failed', stepStartedAt, { error_message: results.get(nodeId) });
+        }
+        return;
+      }
 
       // Execute node based on type
       let output: any = '';
       let evaluationResult: EvaluationResult | null = null;
+      let schemaValidation: SchemaValidationResult | null = null;
       let promptUsedForEvaluation: string | null = null;
       let referenceDataForEvaluation: string | null = null;
 
@@ -1257,19 +2741,26 @@ async function processCompanyWorkflows(
             .update({
               data: { output },
               content_hash: outputHash,
+              config_hash: configHash,
+              status: 'completed',
               last_executed_at: new Date().toISOString(),
               version: 1,
             })
             .match({ company_id, workflow_id: workflowId, node_id: nodeId });
           
           results.set(nodeId, output);
-          continue;
+          await recordStep(node, 'completed', stepStartedAt, {
+            input_data: await collectStepInputs(allDeps),
+            output_data: { output },
+          });
+          return;
         }
       }
 
       if (node.type === 'promptTemplate') {
         const config = node.config || {};
         const model = mapModelName(config.model || 'gpt-5-mini');
+        const fallbackModels: string[] = Array.isArray(config.fallbackModels) ? config.fallbackModels : [];
         const temperature = config.temperature || 0.7;
         const maxTokens = config.maxTokens || config.max_tokens || 8000;
 
@@ -1476,25 +2967,39 @@ async function processCompanyWorkflows(
           promptUsedForEvaluation = trimmedPrompt;
           referenceDataForEvaluation = referenceData.trim() || trimmedPrompt;
           
-          // Determine API endpoint and auth based on model provider
-          const isPerplexityModel = model.startsWith('perplexity/');
-          const perplexityApiKey = Deno.env.get('PERPLEXITY_API_KEY');
-          const apiUrl = isPerplexityModel 
-            ? 'https://api.perplexity.ai/chat/completions'
-            : 'https://ai.gateway.lovable.dev/v1/chat/completions';
-          const apiKey = isPerplexityModel ? perplexityApiKey : lovableApiKey;
-          
-          if (!apiKey) {
-            console.error(`[run-company-workflows] Missing API key for ${isPerplexityModel ? 'Perplexity' : 'Lovable'}`);
-            output = `[Error: ${isPerplexityModel ? 'PERPLEXITY_API_KEY' : 'LOVABLE_API_KEY'} not configured]`;
-            continue;
+          // The model's provider adapter must be configured (API key or endpoint), unless a fallback can serve
+          const providerError = getProviderConfigError(model);
+          if (providerError && fallbackModels.length === 0) {
+            console.error(`[run-company-workflows] Cannot call ${model}: ${providerError}`);
+            output = `[Error: ${providerError}]`;
+            return;
+          }
+
+          // Earlier nodes in this cascade may have used up the budget
+          const nodeBudget = await checkCompanyBudget(supabase, company_id);
+          if (nodeBudget && !nodeBudget.allowed) {
+            console.warn(`[run-company-workflows] Skipping AI call for node ${nodeId}: monthly AI budget exceeded`);
+            output = '[Error: Monthly AI budget exceeded]';
+            return;
           }
-          
-          // For Perplexity, strip the provider prefix from model name
-          const apiModel = isPerplexityModel ? model.replace('perplexity/', '') : model;
 
+          // Pause the cascade here rather than cross a cost limit
+          const estimatedCost = calculateCost(
+            model,
+            estimateTokens(systemPromptContent + trimmedPrompt),
+            maxTokens,
+            pricingOverrides
+          );
+          const costBreach = await reserveCascadeCost(nodeId, estimatedCost);
+          if (costBreach) {
+            console.warn(`[run-company-workflows] Pausing cascade at node ${nodeId}: ${describeCostBreach(costBreach)}`);
+            costPause ??= { breach: costBreach, node_id: nodeId };
+            costPausedNodeIds.add(nodeId);
+            return;
+          }
+          
           const requestBody: any = {
-            model: apiModel,
+            model,
             messages: [
               ...(systemPromptContent ? [{ role: 'system', content: systemPromptContent }] : []),
               { role: 'user', content: trimmedPrompt }
@@ -1504,26 +3009,27 @@ async function processCompanyWorkflows(
           
           // Add Google Search grounding for Gemini models when webSearch is enabled
           // (Perplexity models have built-in web search)
-          if (!isPerplexityModel && config.webSearch && model.startsWith('google/')) {
+          if (config.webSearch && supportsSearchGrounding(model)) {
             requestBody.tools = [{ googleSearch: {} }];
           }
+
+          // Constrain the reply to the node's output schema, if it has one
+          const outputSchema = await resolveOutputSchema(supabase, config);
+          const chatRequest = outputSchema ? applyOutputSchema(requestBody, outputSchema, node.label || nodeId) : requestBody;
           
           // Track AI call timing
           const aiCallStart = Date.now();
           
-          const response = await fetch(apiUrl, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${apiKey}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(requestBody),
+          // Retries and fallback models per the node's policy; servedModel is the one that answered
+          const { response, model: servedModel, attempts } = await chatCompletionWithFallback(chatRequest, {
+            fallbackModels,
+            retryPolicy: config.retryPolicy,
           });
 
           // Check for HTTP errors
           if (!response.ok) {
             const errorText = await response.text();
-            console.error(`[run-company-workflows] AI API error for node "${node.label || nodeId}": ${response.status} - ${errorText}`);
+            console.error(`[run-company-workflows] AI API error for node "${node.label || nodeId}" after ${attempts.length} attempt(s): ${response.status} - ${errorText}`);
             
             // Detect model unavailability patterns and create system alert
             const isModelError = 
@@ -1534,12 +3040,12 @@ async function processCompanyWorkflows(
             if (isModelError) {
               try {
                 await supabase.rpc('upsert_model_alert', {
-                  _model: model,
+                  _model: servedModel,
                   _error_message: errorText,
                   _node_id: nodeId,
                   _status_code: response.status
                 });
-                console.log(`[run-company-workflows] Created/updated system alert for model ${model}`);
+                console.log(`[run-company-workflows] Created/updated system alert for model ${servedModel}`);
               } catch (alertError) {
                 console.error('[run-company-workflows] Failed to create system alert:', alertError);
               }
@@ -1591,14 +3097,16 @@ async function processCompanyWorkflows(
               
               console.log(`[run-company-workflows] AI usage for node "${node.label || nodeId}": ${promptTokens} prompt + ${completionTokens} completion = ${totalTokens} total tokens, ${aiCallDuration}ms`);
               
-              const cost = calculateCost(model, promptTokens, completionTokens, pricingOverrides);
+              const cost = calculateCost(servedModel, promptTokens, completionTokens, pricingOverrides);
               console.log(`[run-company-workflows] Estimated cost: $${cost.toFixed(6)}`);
               
               await supabase.from('ai_usage_logs').insert({
                 workflow_id: workflowId,
                 company_id,
                 node_id: nodeId,
-                model,
+                model: servedModel,
+                requested_model: model,
+                attempt_count: attempts.length,
                 prompt_tokens: promptTokens,
                 completion_tokens: completionTokens,
                 total_tokens: totalTokens,
@@ -1607,6 +3115,34 @@ async function processCompanyWorkflows(
                 dependency_changed_at: latestDependencyUpdate,
               });
             }
+
+            // Validate against the output schema, asking the model to repair invalid replies
+            if (outputSchema) {
+              const enforced = await enforceOutputSchema({
+                request: { ...chatRequest, model: servedModel },
+                content: output,
+                schema: outputSchema,
+                schemaSource: config.outputSchemaSource === 'framework' ? 'framework' : 'inline',
+              });
+              output = stripCodeFences(enforced.output);
+              schemaValidation = enforced.validation;
+              console.log(`[run-company-workflows] Schema validation for node "${node.label || nodeId}": ${schemaValidation.valid ? 'passed' : `failed (${schemaValidation.errors.length} errors)`} after ${schemaValidation.attempts} attempt(s)`);
+
+              if (enforced.repairUsage) {
+                await supabase.from('ai_usage_logs').insert({
+                  workflow_id: workflowId,
+                  company_id,
+                  node_id: nodeId,
+                  model: servedModel,
+                  requested_model: model,
+                  prompt_tokens: enforced.repairUsage.promptTokens,
+                  completion_tokens: enforced.repairUsage.completionTokens,
+                  total_tokens: enforced.repairUsage.totalTokens,
+                  estimated_cost: calculateCost(servedModel, enforced.repairUsage.promptTokens, enforced.repairUsage.completionTokens, pricingOverrides),
+                  dependency_changed_at: latestDependencyUpdate,
+                });
+              }
+            }
             
             // Run quality evaluations on successful generation
             if (output && typeof output === 'string' && output.length > 10 && !output.startsWith('[')) {
@@ -1735,41 +3271,69 @@ async function processCompanyWorkflows(
           output = JSON.stringify(schemaSnapshot, null, 2);
           console.log(`[run-company-workflows] SSOT Schema snapshot: ${schemaSnapshot.total_domains} domains, ${schemaSnapshot.total_fields} fields (with hierarchy)`);
         } else if (config.sourceType === 'dataset' && config.datasetId) {
-          // Fetch the dataset definition to get its dependencies
-          const { data: dataset } = await supabase
-            .from('datasets')
-            .select('dependencies')
-            .eq('id', config.datasetId)
-            .maybeSingle();
+          const aggregatedData: Record<string, any> = {};
+          let snapshotError: string | null = null;
+
+          if (config.snapshotVersion) {
+            // Pinned: use this company's latest snapshot at or before the pinned version
+            const { data: snapshot } = await supabase
+              .from('data_snapshots')
+              .select('version, snapshot_data')
+              .eq('dataset_id', config.datasetId)
+              .eq('company_id', company_id)
+              .lte('version', config.snapshotVersion)
+              .order('version', { ascending: false })
+              .limit(1)
+              .maybeSingle();
+
+            for (const row of (snapshot?.snapshot_data || []) as Array<{ key: string; output: unknown }>) {
+              aggregatedData[row.key] = row.output;
+            }
+            if (!snapshot) {
+              // A pinned node must not silently run on empty data
+              snapshotError = `[Dataset error: no snapshot at or before v${config.snapshotVersion} for this company]`;
+              console.warn(`[run-company-workflows] Dataset node ${nodeId}: no snapshot at or before v${config.snapshotVersion}`);
+            }
+          } else {
+            // Fetch the dataset definition to get its dependencies
+            const { data: dataset } = await supabase
+              .from('datasets')
+              .select('dependencies')
+              .eq('id', config.datasetId)
+              .maybeSingle();
           
-          const dependencies = (dataset?.dependencies || []) as Array<{
-            workflowId: string;
-            nodeId: string;
-            nodeName: string;
-          }>;
-          const aggregatedData: Record<string, any> = {};
+            const dependencies = (dataset?.dependencies || []) as Array<{
+              workflowId: string;
+              nodeId: string;
+              nodeName: string;
+            }>;
           
-          // For each dependency, load its output from company_node_data
-          for (const dep of dependencies) {
-            const { data: depNodeData } = await supabase
-              .from('company_node_data')
-              .select('data, node_label')
-              .match({ 
-                company_id, 
-                workflow_id: dep.workflowId, 
-                node_id: dep.nodeId 
-              })
-              .maybeSingle();
+            // For each dependency, load its output from company_node_data
+            for (const dep of dependencies) {
+              const { data: depNodeData } = await supabase
+                .from('company_node_data')
+                .select('data, node_label')
+                .match({ 
+                  company_id, 
+                  workflow_id: dep.workflowId, 
+                  node_id: dep.nodeId 
+                })
+                .maybeSingle();
             
-            if (depNodeData?.data?.output) {
-              // Use nodeName as key (converted to snake_case for consistency)
-              const key = dep.nodeName.toLowerCase().replace(/\s+/g, '_');
-              aggregatedData[key] = depNodeData.data.output;
+              if (depNodeData?.data?.output) {
+                // Use nodeName as key (converted to snake_case for consistency)
+                const key = dep.nodeName.toLowerCase().replace(/\s+/g, '_');
+                aggregatedData[key] = depNodeData.data.output;
+              }
             }
           }
           
-          output = JSON.stringify(aggregatedData);
-          console.log(`[run-company-workflows] Dataset node ${nodeId}: aggregated ${Object.keys(aggregatedData).length} dependencies`);
+          if (snapshotError) {
+            output = snapshotError;
+          } else {
+            output = JSON.stringify(aggregatedData);
+            console.log(`[run-company-workflows] Dataset node ${nodeId}: aggregated ${Object.keys(aggregatedData).length} dependencies`);
+          }
         } else if (config.sourceType === 'shared_cache' && config.sharedCacheId) {
           // Fetch data from shared cache
           const { data: cacheData } = await supabase
@@ -1855,12 +3419,15 @@ async function processCompanyWorkflows(
               })
               .maybeSingle();
             
+            // The source output's hash lets the lineage view tell if it was recomputed since
             const sourceReference = {
               workflow_id: workflowId,
               node_id: nodeId,
               node_label: node.label || nodeId,
+              source_workflow_id: mapping.workflowId || workflowId,
               source_node_id: mapping.nodeId,
               source_node_label: mapping.nodeLabel,
+              source_content_hash: await hashContent(typeof depOutput === 'string' ? depOutput : JSON.stringify(depOutput)),
               json_path: mapping.jsonPath,
               mapped_at: new Date().toISOString()
             };
@@ -1965,6 +3532,45 @@ async function processCompanyWorkflows(
           type: config.type || 'rating_scale',
           schema: schemaData
         });
+      } else if (node.type === 'condition') {
+        const config = node.config || {};
+        const expression = (config.expression || '').trim();
+        const promptParts: PromptPart[] = config.promptParts || [];
+
+        // Load dependency outputs up front - the evaluator resolves references synchronously
+        const depOutputs = new Map<PromptPart, unknown>();
+        for (const part of promptParts.filter(p => p.type === 'dependency')) {
+          if ((!part.workflowId || part.workflowId === workflowId) && results.has(part.value)) {
+            depOutputs.set(part, results.get(part.value));
+            continue;
+          }
+          const { data: depData } = await supabase
+            .from('company_node_data')
+            .select('data')
+            .match({ company_id, workflow_id: part.workflowId || workflowId, node_id: part.value })
+            .maybeSingle();
+          depOutputs.set(part, depData?.data?.output);
+        }
+
+        try {
+          const evaluation = evaluateConditionExpression(expression, (name) => {
+            const part = findConditionDependency(name, promptParts, nodes);
+            if (!part) {
+              throw new Error(name === null ? 'No dependency selected for $' : `Unknown reference {{${name}}}`);
+            }
+            return depOutputs.get(part);
+          });
+          output = JSON.stringify({
+            result: evaluation.result,
+            branch: evaluation.result ? 'true' : 'false',
+            expression,
+            resolved: evaluation.resolved,
+          });
+          console.log(`[run-company-workflows] Condition "${node.label || nodeId}" evaluated to ${evaluation.result}`);
+        } catch (condError) {
+          output = `[Condition error: ${condError instanceof Error ? condError.message : 'Evaluation failed'}]`;
+          console.error(`[run-company-workflows] Condition evaluation error:`, condError);
+        }
       } else if (node.type === 'integration') {
         // Handle integration nodes (e.g., Firecrawl)
         const config = node.config || {};
@@ -2166,26 +3772,39 @@ async function processCompanyWorkflows(
       }
 
       results.set(nodeId, output);
+      if (node.type === 'condition') {
+        applyConditionBranch(nodeId, output);
+      }
+
+      await recordStep(node, isErrorOutput(output) ? 'failed' : 'completed', stepStartedAt, {
+        input_data: await collectStepInputs(allDeps),
+        output_data: evaluationResult ? { output, evaluation: evaluationResult } : { output },
+        error_message: isErrorOutput(output) ? output : null,
+      });
 
       // Store result with content hash
       const outputStr = typeof output === 'string' ? output : JSON.stringify(output);
       const contentHash = await hashContent(outputStr);
       
       const dependencyHashes: { [key: string]: string } = {};
+      const lineage: NodeLineage = { inputs: [] };
       for (const dep of allDeps) {
+        // Use cross-workflow lookup for storing dependency hashes
+        const targetWorkflowId = dep.workflowId || workflowId;
+
         // Skip fetchLive dependencies from hash tracking
         const depNode = nodes.find((n: Node) => n.id === dep.nodeId);
         if (depNode?.config?.fetchLive === true) {
+          lineage.inputs!.push({ workflow_id: targetWorkflowId, node_id: dep.nodeId, content_hash: null });
           continue; // Don't track live-fetch dependencies
         }
         
-        // Use cross-workflow lookup for storing dependency hashes
-        const targetWorkflowId = dep.workflowId || workflowId;
         const { data: depData } = await supabase
           .from('company_node_data')
           .select('content_hash')
           .match({ company_id, workflow_id: targetWorkflowId, node_id: dep.nodeId })
           .single();
+        lineage.inputs!.push({ workflow_id: targetWorkflowId, node_id: dep.nodeId, content_hash: depData?.content_hash ?? null });
         if (depData?.content_hash) {
           // Store with composite key for cross-workflow deps
           const depKey = dep.workflowId ? `${dep.workflowId}:${dep.nodeId}` : dep.nodeId;
@@ -2205,6 +3824,9 @@ async function processCompanyWorkflows(
       
       // Build data object with output and optional evaluation
       const nodeDataToStore: Record<string, any> = { output };
+      if (schemaValidation) {
+        nodeDataToStore.schema_validation = schemaValidation;
+      }
       
       // Add evaluation data if available (only for promptTemplate nodes)
       if (evaluationResult && node.type === 'promptTemplate') {
@@ -2316,7 +3938,10 @@ async function processCompanyWorkflows(
           node_label: node.label || node.data?.label || node.type,
           data: nodeDataToStore,
           content_hash: contentHash,
+          config_hash: configHash,
           dependency_hashes: dependencyHashes,
+          lineage,
+          status: 'completed',
           last_executed_at: updatedAt,
           version: newVersion,
           updated_at: updatedAt
@@ -2325,108 +3950,7 @@ async function processCompanyWorkflows(
         });
 
       // Track output destinations for sync
-      // NEW FORMAT: Check unified outputDestinations array first
-      if (node.config?.outputDestinations && Array.isArray(node.config.outputDestinations) && node.config.outputDestinations.length > 0) {
-        for (const dest of node.config.outputDestinations) {
-          if (!dest.enabled) continue;
-          
-          const destName = dest.destination_name || '';
-          
-          // Abi Platform
-          if (destName.includes('Abi Platform') || destName === 'Abi Platform') {
-            console.log(`[run-company-workflows] Node "${node.label || nodeId}" -> Abi Platform (new format)`);
-            abiOutputNodes.push({
-              node_id: nodeId,
-              node_label: node.label || node.data?.label || node.type,
-              node_type: node.type,
-              workflow_id: workflowId,
-              workflow_name: workflow.name,
-              data: { output },
-              version: newVersion,
-              updated_at: updatedAt,
-            });
-          }
-          // AbiVC Platform
-          else if (destName.includes('AbiVC') || destName === 'AbiVC Platform') {
-            console.log(`[run-company-workflows] Node "${node.label || nodeId}" -> AbiVC Platform (new format)`);
-            abivcOutputNodes.push({
-              node_id: nodeId,
-              node_label: node.label || node.data?.label || node.type,
-              node_type: node.type,
-              workflow_id: workflowId,
-              workflow_name: workflow.name,
-              data: { output },
-              version: newVersion,
-              updated_at: updatedAt,
-            });
-          }
-          // Master Data (SSOT)
-          else if (destName.includes('Master Data') && dest.field_mapping?.domain && dest.field_mapping?.field_key) {
-            console.log(`[run-company-workflows] Node "${node.label || nodeId}" -> Master Data: ${dest.field_mapping.domain}.${dest.field_mapping.field_key} (new format)`);
-            masterDataOutputNodes.push({
-              node_id: nodeId,
-              node_label: node.label || node.data?.label || node.type,
-              workflow_id: workflowId,
-              domain: dest.field_mapping.domain,
-              field_key: dest.field_mapping.field_key,
-              value: output,
-            });
-          }
-          // SSOT Update (AI-generated change plans)
-          else if (destName.includes('SSOT Update') || destName === 'SSOT Update') {
-            console.log(`[run-company-workflows] Node "${node.label || nodeId}" -> SSOT Update (new format)`);
-            ssotUpdateNodes.push({
-              node_id: nodeId,
-              node_label: node.label || node.data?.label || node.type,
-              workflow_id: workflowId,
-              output: output,
-              config: dest.config || {},
-            });
-          }
-        }
-      } else {
-        // LEGACY FORMAT: Fall back to individual flags for backward compatibility
-        if (node.config?.isAbiOutput) {
-          console.log(`[run-company-workflows] Node "${node.label || nodeId}" marked as Abi output (legacy)`);
-          abiOutputNodes.push({
-            node_id: nodeId,
-            node_label: node.label || node.data?.label || node.type,
-            node_type: node.type,
-            workflow_id: workflowId,
-            workflow_name: workflow.name,
-            data: { output },
-            version: newVersion,
-            updated_at: updatedAt,
-          });
-        }
-
-        if (node.config?.isAbiVCOutput) {
-          console.log(`[run-company-workflows] Node "${node.label || nodeId}" marked as AbiVC output (legacy)`);
-          abivcOutputNodes.push({
-            node_id: nodeId,
-            node_label: node.label || node.data?.label || node.type,
-            node_type: node.type,
-            workflow_id: workflowId,
-            workflow_name: workflow.name,
-            data: { output },
-            version: newVersion,
-            updated_at: updatedAt,
-          });
-        }
-
-        if (node.config?.isMasterDataOutput && node.config?.masterDataMapping) {
-          const mapping = node.config.masterDataMapping;
-          console.log(`[run-company-workflows] Node "${node.label || nodeId}" marked for Master Data: ${mapping.domain}.${mapping.field_key} (legacy)`);
-          masterDataOutputNodes.push({
-            node_id: nodeId,
-            node_label: node.label || node.data?.label || node.type,
-            workflow_id: workflowId,
-            domain: mapping.domain,
-            field_key: mapping.field_key,
-            value: output,
-          });
-        }
-      }
+      collectOutputDestinations(cascadeOutputs, node, workflow, output, newVersion, updatedAt);
 
       // ============= SHARED CACHE OUTPUTS =============
       // Process shared cache outputs for generative nodes
@@ -2467,215 +3991,162 @@ async function processCompanyWorkflows(
           }
         }
       }
+    };
+
+    // Independent nodes run in parallel, one dependency level at a time. Once a cost
+    // limit pauses the cascade no further nodes start; the ones in flight finish.
+    const executionSettings = resolveExecutionSettings(workflow.settings);
+    const executionLevels = buildExecutionLevels(sortedNodeIds, nodeMap, edges, workflowId);
+    // Nodes that ran or were skipped; everything else is still pending if the cascade pauses
+    const settledNodeIds = new Set<string>();
+    console.log(`[run-company-workflows] ${executionLevels.length} execution levels, up to ${executionSettings.max_parallel_nodes} nodes at once`);
+    for (const levelNodeIds of executionLevels) {
+      if (costPause) break;
+      await runWithConcurrency(
+        levelNodeIds,
+        executionSettings.max_parallel_nodes,
+        id => nodeProvider(nodeMap.get(id)),
+        executionSettings.provider_concurrency,
+        async (nodeId) => {
+          if (costPause) return;
+          try {
+            await executeCascadeNode(nodeId);
+          } finally {
+            costReservations.delete(nodeId);
+          }
+          if (!costPausedNodeIds.has(nodeId)) settledNodeIds.add(nodeId);
+        }
+      );
+    }
+
+    // Budget pause: the rest of this workflow waits as budget_paused steps on the same run
+    if (costPause) {
+      const pendingIds = sortedNodeIds.filter(id =>
+        id !== sourceNode.id &&
+        !settledNodeIds.has(id) &&
+        nodesToExecute.has(id) &&
+        !pausedNodes.has(id) &&
+        !pausedDownstream.has(id) &&
+        !skippedNodes.has(id) &&
+        !foreachOwners.has(id)
+      );
+      executionStats.executed = executionStats.executed.filter(id => !costPausedNodeIds.has(id));
+
+      const reason = describeCostBreach(costPause.breach);
+      for (const pendingId of pendingIds) {
+        const pendingNode = nodeMap.get(pendingId);
+        if (pendingNode && !costPauseRecordedIds.has(pendingId)) {
+          await recordStep(pendingNode, 'budget_paused', Date.now(), { error_message: reason });
+        }
+      }
+
+      if (runId) {
+        await supabase
+          .from('execution_runs')
+          .update({
+            status: 'budget_paused',
+            output_data: {
+              executed: executionStats.executed.length,
+              cached: executionStats.cached.length,
+              skipped: executionStats.skipped.length,
+              failed: failedStepCount,
+              budget_paused: pendingIds.length,
+              cost_limit: costPause.breach,
+            },
+            error_message: reason,
+            execution_time_ms: Date.now() - runStartedAt,
+          })
+          .eq('id', runId);
+      }
+
+      budgetPausedRuns.push({
+        execution_run_id: runId,
+        workflow_id: workflowId,
+        workflow_name: workflow.name,
+        breach: costPause.breach,
+        node_ids: pendingIds,
+      });
+      workflowResults.push({
+        workflow_id: workflowId,
+        workflow_name: workflow.name,
+        status: 'budget_paused',
+        message: reason,
+        execution_run_id: runId,
+        executed: executionStats.executed,
+        cached: executionStats.cached,
+        skipped: executionStats.skipped,
+        budget_paused: pendingIds,
+      });
+      continue;
     }
 
+    await finishExecutionRun(
+      supabase,
+      runId,
+      runStartedAt,
+      failedStepCount > 0 ? 'failed' : 'completed',
+      {
+        executed: executionStats.executed.length,
+        cached: executionStats.cached.length,
+        skipped: executionStats.skipped.length,
+        failed: failedStepCount,
+      },
+      failedStepCount > 0 ? `${failedStepCount} node(s) failed` : null
+    );
+
     workflowResults.push({
       workflow_id: workflowId,
       workflow_name: workflow.name,
       status: 'completed',
+      execution_run_id: runId,
       executed: executionStats.executed,
       cached: executionStats.cached,
+      skipped: executionStats.skipped,
     });
   }
 
   const executionTime = Date.now() - startTime;
 
   // Update submission status
-  await supabase
-    .from('company_data_submissions')
-    .update({ 
-      status: 'completed',
-      processed_at: new Date().toISOString()
-    })
-    .eq('id', submission_id);
-
-  // Trigger sync to Abi if there are Abi output nodes
-  if (abiOutputNodes.length > 0) {
-    console.log(`[run-company-workflows] Syncing ${abiOutputNodes.length} Abi output nodes to Abi platform`);
-    
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    
-    try {
-      const syncResponse = await fetch(`${supabaseUrl}/functions/v1/sync-output-to-abi`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${supabaseServiceKey}`,
-        },
-        body: JSON.stringify({
-          company_id,
-          outputs: abiOutputNodes,
-        }),
-      });
-      
-      const syncResult = await syncResponse.json();
-      console.log('[run-company-workflows] Abi sync result:', syncResult);
-    } catch (syncError) {
-      console.error('[run-company-workflows] Error syncing to Abi:', syncError);
-      // Don't fail the workflow execution if sync fails
-    }
-  }
+  if (budgetPausedRuns.length > 0) {
+    const firstPause = budgetPausedRuns[0];
+    const pausedNodeCount = budgetPausedRuns.reduce((sum, run) => sum + run.node_ids.length, 0);
+    const reason = describeCostBreach(firstPause.breach);
 
-  // Trigger sync to AbiVC if there are AbiVC output nodes
-  if (abivcOutputNodes.length > 0) {
-    console.log(`[run-company-workflows] Syncing ${abivcOutputNodes.length} AbiVC output nodes to AbiVC platform`);
-    
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    
-    try {
-      const syncResponse = await fetch(`${supabaseUrl}/functions/v1/sync-output-to-abivc`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${supabaseServiceKey}`,
-        },
-        body: JSON.stringify({
-          company_id,
-          outputs: abivcOutputNodes,
-        }),
-      });
-      
-      const syncResult = await syncResponse.json();
-      console.log('[run-company-workflows] AbiVC sync result:', syncResult);
-    } catch (syncError) {
-      console.error('[run-company-workflows] Error syncing to AbiVC:', syncError);
-      // Don't fail the workflow execution if sync fails
-    }
-  }
+    await supabase
+      .from('company_data_submissions')
+      .update({
+        status: 'budget_paused',
+        error_message: `${reason}. ${pausedNodeCount} node(s) are waiting for approval.`,
+      })
+      .eq('id', submission_id);
 
-  // Trigger sync to Master Data if there are master data output nodes
-  if (masterDataOutputNodes.length > 0) {
-    console.log(`[run-company-workflows] Syncing ${masterDataOutputNodes.length} Master Data output nodes`);
-    
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    
-    try {
-      const syncResponse = await fetch(`${supabaseUrl}/functions/v1/sync-to-master-data`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${supabaseServiceKey}`,
-        },
-        body: JSON.stringify({
-          company_id,
-          outputs: masterDataOutputNodes,
-        }),
+    const { error: alertError } = await supabase
+      .from('system_alerts')
+      .insert({
+        alert_type: 'budget_paused',
+        severity: 'warning',
+        title: `Cascade Paused by Cost Limit: ${companyName}`,
+        description: `${reason}. ${pausedNodeCount} node(s) in ${budgetPausedRuns.map(run => `"${run.workflow_name}"`).join(', ')} are waiting. Approve continuation from Workflow Execution Status.`,
+        affected_model: `submission:${submission_id}`,
+        affected_nodes: budgetPausedRuns.flatMap(run => run.node_ids),
+        action_url: '/admin?tab=errors',
       });
-      
-      const syncResult = await syncResponse.json();
-      console.log('[run-company-workflows] Master Data sync result:', syncResult);
-    } catch (syncError) {
-      console.error('[run-company-workflows] Error syncing to Master Data:', syncError);
-      // Don't fail the workflow execution if sync fails
+    if (alertError) {
+      console.error('[run-company-workflows] Failed to create budget pause alert:', alertError);
     }
+    console.log(`[run-company-workflows] Cascade for ${companyName} paused by cost limit: ${pausedNodeCount} node(s) waiting`);
+  } else {
+    await supabase
+      .from('company_data_submissions')
+      .update({ 
+        status: 'completed',
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', submission_id);
   }
 
-  // Process SSOT Update nodes (AI-generated change plans)
-  if (ssotUpdateNodes.length > 0) {
-    console.log(`[run-company-workflows] Processing ${ssotUpdateNodes.length} SSOT Update nodes`);
-    
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    
-    for (const ssotNode of ssotUpdateNodes) {
-      try {
-        // Parse the output as SSOT_CHANGE_PLAN
-        let changePlan: any = null;
-        let parseError: string | null = null;
-        
-        console.log(`[run-company-workflows] Processing SSOT Update node "${ssotNode.node_label}"`);
-        console.log(`[run-company-workflows] Raw output type: ${typeof ssotNode.output}, length: ${typeof ssotNode.output === 'string' ? ssotNode.output.length : 'n/a'}`);
-        
-        if (typeof ssotNode.output === 'string') {
-          // Log first 500 chars for debugging
-          console.log(`[run-company-workflows] SSOT output preview: ${ssotNode.output.substring(0, 500)}...`);
-          
-          // Try to extract JSON from potential markdown code blocks
-          let jsonStr = ssotNode.output.trim();
-          const jsonMatch = ssotNode.output.match(/```(?:json)?\s*([\s\S]*?)```/);
-          if (jsonMatch) {
-            jsonStr = jsonMatch[1].trim();
-            console.log(`[run-company-workflows] Extracted JSON from code block, length: ${jsonStr.length}`);
-          }
-          
-          try {
-            changePlan = JSON.parse(jsonStr);
-            console.log(`[run-company-workflows] Successfully parsed SSOT_CHANGE_PLAN JSON`);
-          } catch (e: any) {
-            parseError = e.message;
-            console.error(`[run-company-workflows] SSOT Update node "${ssotNode.node_label}" output is not valid JSON: ${parseError}`);
-            console.error(`[run-company-workflows] First 200 chars of attempted parse: ${jsonStr.substring(0, 200)}`);
-          }
-        } else if (typeof ssotNode.output === 'object' && ssotNode.output !== null) {
-          changePlan = ssotNode.output;
-          console.log(`[run-company-workflows] SSOT output is already an object`);
-        }
-        
-        // Validate JSON structure
-        if (!changePlan) {
-          console.error(`[run-company-workflows] SSOT Update node "${ssotNode.node_label}": Failed to parse output as JSON. The node's prompt must be configured to output valid JSON with the SSOT_CHANGE_PLAN schema.`);
-          continue;
-        }
-        
-        // Validate required fields
-        const validationErrors: string[] = [];
-        if (!Array.isArray(changePlan.plan_summary)) {
-          validationErrors.push('Missing or invalid "plan_summary" (expected array of strings)');
-        }
-        if (!Array.isArray(changePlan.validated_changes)) {
-          if (!Array.isArray(changePlan.new_structure_additions) || changePlan.new_structure_additions.length === 0) {
-            validationErrors.push('Missing or invalid "validated_changes" or "new_structure_additions" (expected at least one array)');
-          }
-        }
-        
-        // Validate each change has required fields
-        if (Array.isArray(changePlan.validated_changes)) {
-          for (let i = 0; i < changePlan.validated_changes.length; i++) {
-            const change = changePlan.validated_changes[i];
-            if (!change.change_id) validationErrors.push(`validated_changes[${i}]: missing change_id`);
-            if (!change.target_path?.l1) validationErrors.push(`validated_changes[${i}]: missing target_path.l1 (domain)`);
-            if (!change.target_level) validationErrors.push(`validated_changes[${i}]: missing target_level`);
-            if (!change.action) validationErrors.push(`validated_changes[${i}]: missing action`);
-            if (change.value_to_write === undefined) validationErrors.push(`validated_changes[${i}]: missing value_to_write`);
-          }
-        }
-        
-        if (validationErrors.length > 0) {
-          console.error(`[run-company-workflows] SSOT Update node "${ssotNode.node_label}" has invalid SSOT_CHANGE_PLAN structure:`);
-          validationErrors.forEach(err => console.error(`  - ${err}`));
-          console.error(`[run-company-workflows] The node's prompt must be updated to output the correct JSON schema.`);
-          continue;
-        }
-        
-        console.log(`[run-company-workflows] Executing SSOT Change Plan from node "${ssotNode.node_label}": ${changePlan.validated_changes?.length || 0} changes, ${changePlan.new_structure_additions?.length || 0} additions`);
-        
-        const executeResponse = await fetch(`${supabaseUrl}/functions/v1/execute-ssot-changes`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${supabaseServiceKey}`,
-          },
-          body: JSON.stringify({
-            company_id,
-            workflow_id: ssotNode.workflow_id,
-            node_id: ssotNode.node_id,
-            execution_run_id: submission_id, // Use submission ID as execution context
-            plan: changePlan,
-            config: ssotNode.config,
-          }),
-        });
-        
-        const executeResult = await executeResponse.json();
-        console.log(`[run-company-workflows] SSOT Update result for "${ssotNode.node_label}":`, executeResult);
-      } catch (ssotError) {
-        console.error(`[run-company-workflows] Error processing SSOT Update node "${ssotNode.node_label}":`, ssotError);
-        // Don't fail the workflow execution if SSOT update fails
-      }
-    }
-  }
+  await syncCascadeOutputs(company_id, submission_id, cascadeOutputs);
 
   // Collect all executed node IDs across all workflows for cross-workflow cascade
   const allExecutedNodeIds: Array<{workflowId: string, nodeId: string}> = [];
@@ -2693,165 +4164,38 @@ async function processCompanyWorkflows(
     
     const processedWorkflowIds = new Set(workflowResults.map(wr => wr.workflow_id));
     
-    // Fetch all workflows to check for cross-workflow dependencies
-    const { data: allWorkflows } = await supabase
-      .from('workflows')
-      .select('id, name, nodes, settings');
-    
-    for (const targetWorkflow of allWorkflows || []) {
-      // Skip already-processed workflows
-      if (processedWorkflowIds.has(targetWorkflow.id)) continue;
+    for (const targetWorkflow of await findDependentWorkflows(supabase, allExecutedNodeIds, processedWorkflowIds)) {
+      console.log(`[run-company-workflows] Cross-workflow cascade: triggering workflow "${targetWorkflow.name}" (${targetWorkflow.id})`);
       
-      // Check if this workflow has company-relevant data attribution
-      const settings = targetWorkflow.settings as { data_attribution?: string } | null;
-      const attribution = settings?.data_attribution || 'company_data';
-      if (attribution !== 'company_data' && attribution !== 'company_related_data') continue;
-      
-      const targetNodes: Node[] = targetWorkflow.nodes || [];
-      
-      // Check if any node in this workflow depends on a just-executed node from another workflow
-      const hasCrossWorkflowDep = targetNodes.some(node => {
-        const promptParts: PromptPart[] = node.config?.promptParts || [];
-        return promptParts.some(p => 
-          p.type === 'dependency' && 
-          p.workflowId && 
-          allExecutedNodeIds.some(exec => 
-            exec.workflowId === p.workflowId && exec.nodeId === p.value
-          )
+      try {
+        // Recursively process this dependent workflow
+        const cascadeResult = await processCompanyWorkflows(
+          supabase, 
+          company_id, 
+          submission_id, 
+          targetWorkflow.id, 
+          false, 
+          false
         );
-      });
-      
-      if (hasCrossWorkflowDep) {
-        console.log(`[run-company-workflows] Cross-workflow cascade: triggering workflow "${targetWorkflow.name}" (${targetWorkflow.id})`);
         
-        try {
-          // Recursively process this dependent workflow
-          const cascadeResult = await processCompanyWorkflows(
-            supabase, 
-            company_id, 
-            submission_id, 
-            targetWorkflow.id, 
-            false, 
-            false
-          );
-          
-          // Add to results
-          if (cascadeResult.workflows) {
-            workflowResults.push(...cascadeResult.workflows);
-          }
-        } catch (cascadeError: any) {
-          console.error(`[run-company-workflows] Cross-workflow cascade error for ${targetWorkflow.name}:`, cascadeError.message);
+        // Add to results
+        if (cascadeResult.workflows) {
+          workflowResults.push(...cascadeResult.workflows);
         }
+      } catch (cascadeError: any) {
+        console.error(`[run-company-workflows] Cross-workflow cascade error for ${targetWorkflow.name}:`, cascadeError.message);
       }
     }
   }
 
   // ============= EXECUTION SUMMARY ALERT =============
-  // Aggregate stats across all workflows for monitoring
-  const executionSummary = {
+  const executionSummary = await upsertExecutionSummaryAlert(supabase, company_id, workflowResults, {
     totalWorkflows: relevantWorkflows.length,
-    executedWorkflows: workflowResults.filter(w => w.status === 'completed').length,
-    cachedWorkflows: workflowResults.filter(w => w.status === 'cached').length,
-    skippedWorkflows: workflowResults.filter(w => w.status === 'skipped' || !w.status).length,
-    totalNodes: 0,
-    executedNodes: 0,
-    cachedNodes: 0,
-    pausedNodes: 0,
-    emptyOutputs: 0,
-    issues: [] as Array<{ type: string; node_id?: string; node_label?: string; workflow_id?: string; workflow_name?: string; message: string }>,
-  };
-
-  // Aggregate node stats
-  for (const wr of workflowResults) {
-    if (wr.executed) executionSummary.executedNodes += wr.executed.length;
-    if (wr.cached) executionSummary.cachedNodes += wr.cached.length;
-    executionSummary.totalNodes += (wr.executed?.length || 0) + (wr.cached?.length || 0);
-  }
-
-  // Count paused nodes (need to check workflows)
-  for (const workflow of relevantWorkflows) {
-    const nodes: Node[] = workflow.nodes || [];
-    const pausedCount = nodes.filter((n: Node) => n.config?.paused === true).length;
-    executionSummary.pausedNodes += pausedCount;
-  }
-
-  // Check for empty outputs across all executed nodes
-  if (workflowResults.length > 0) {
-    const { data: nodeDataRecords } = await supabase
-      .from('company_node_data')
-      .select('node_id, node_label, workflow_id, data')
-      .eq('company_id', company_id)
-      .in('workflow_id', workflowResults.map(w => w.workflow_id));
-
-    for (const record of (nodeDataRecords || [])) {
-      const output = record.data?.output;
-      const isEmpty = output === null || output === undefined || output === '' || 
-        (typeof output === 'object' && Object.keys(output).length === 0);
-      
-      if (isEmpty) {
-        executionSummary.emptyOutputs++;
-        executionSummary.issues.push({
-          type: 'empty_output',
-          node_id: record.node_id,
-          node_label: record.node_label,
-          workflow_id: record.workflow_id,
-          message: `Node "${record.node_label || record.node_id}" has empty output`
-        });
-      }
-    }
-  }
-
-  // Add workflow-level issues
-  for (const wr of workflowResults) {
-    if (wr.status === 'cached') {
-      executionSummary.issues.push({
-        type: 'workflow_cached',
-        workflow_id: wr.workflow_id,
-        workflow_name: wr.workflow_name,
-        message: `Workflow "${wr.workflow_name}" was cached (data unchanged)`
-      });
-    }
-    if (wr.message?.includes('no source node') || wr.message?.includes('No source')) {
-      executionSummary.issues.push({
-        type: 'no_source',
-        workflow_id: wr.workflow_id,
-        workflow_name: wr.workflow_name,
-        message: `Workflow "${wr.workflow_name}" has no source node`
-      });
-    }
-  }
-
-  // Create execution summary alert (only if there were workflows to process)
-  if (executionSummary.totalWorkflows > 0) {
-    // Fetch company name for the alert
-    const { data: companyData } = await supabase
-      .from('companies')
-      .select('name')
-      .eq('id', company_id)
-      .single();
-    
-    const companyName = companyData?.name || 'Unknown Company';
-
-    try {
-      await supabase.rpc('upsert_execution_summary_alert', {
-        _company_id: company_id,
-        _company_name: companyName,
-        _workflow_ids: workflowResults.map(w => w.workflow_id),
-        _total_workflows: executionSummary.totalWorkflows,
-        _executed_workflows: executionSummary.executedWorkflows,
-        _skipped_workflows: executionSummary.skippedWorkflows,
-        _total_nodes: executionSummary.totalNodes,
-        _executed_nodes: executionSummary.executedNodes,
-        _cached_nodes: executionSummary.cachedNodes,
-        _paused_nodes: executionSummary.pausedNodes,
-        _empty_outputs: executionSummary.emptyOutputs,
-        _issues: executionSummary.issues
-      });
-      console.log(`[run-company-workflows] Created execution summary alert for ${companyName}`);
-    } catch (alertErr) {
-      console.error('[run-company-workflows] Failed to create execution summary alert:', alertErr);
-    }
-  }
+    pausedNodes: relevantWorkflows.reduce(
+      (sum: number, workflow: any) => sum + (workflow.nodes || []).filter((n: Node) => n.config?.paused === true).length,
+      0
+    ),
+  });
 
   return {
     success: true,
@@ -2860,11 +4204,12 @@ async function processCompanyWorkflows(
     workflows_processed: workflowResults.length,
     execution_time_ms: executionTime,
     workflows: workflowResults,
-    abi_outputs_synced: abiOutputNodes.length,
-    abivc_outputs_synced: abivcOutputNodes.length,
-    master_data_outputs_synced: masterDataOutputNodes.length,
-    ssot_updates_processed: ssotUpdateNodes.length,
+    abi_outputs_synced: cascadeOutputs.abi.length,
+    abivc_outputs_synced: cascadeOutputs.abivc.length,
+    master_data_outputs_synced: cascadeOutputs.masterData.length,
+    ssot_updates_processed: cascadeOutputs.ssotUpdates.length,
     execution_summary: executionSummary,
+    budget_paused: budgetPausedRuns.length > 0 ? budgetPausedRuns : undefined,
   };
 }
 
@@ -2894,9 +4239,33 @@ Deno.serve(async (req) => {
 
     // Parse request body
     const body = await req.json();
-    const { company_id, submission_id, workflow_id: specificWorkflowId, empty_only, all_companies, force, start_from_node_id } = body;
+    const { company_id, submission_id, workflow_id: specificWorkflowId, empty_only, all_companies, force, start_from_node_id, enqueue, priority, resume_run_id, approve_budget, portfolio, retry_portfolio_run_id, dry_run } = body;
+
+    console.log('[run-company-workflows] Request received:', { company_id, submission_id, specificWorkflowId, empty_only, all_companies, force, start_from_node_id, enqueue, resume_run_id, approve_budget, dry_run });
+
+    // Resume a failed run from its failing node
+    if (resume_run_id) {
+      const result = await resumeExecutionRun(supabase, resume_run_id, !!approve_budget);
+      return new Response(JSON.stringify(result), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
 
-    console.log('[run-company-workflows] Request received:', { company_id, submission_id, specificWorkflowId, empty_only, all_companies, force, start_from_node_id });
+    // Portfolio runs queue every matching company and return straight away
+    if (portfolio) {
+      const result = await startPortfolioRun(supabase, portfolio);
+      return new Response(JSON.stringify(result), {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+    if (retry_portfolio_run_id) {
+      const result = await retryPortfolioRun(supabase, retry_portfolio_run_id);
+      return new Response(JSON.stringify(result), {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
 
     // Handle bulk execution for all companies
     if (all_companies) {
@@ -2914,6 +4283,18 @@ Deno.serve(async (req) => {
       let totalWorkflowsProcessed = 0;
 
       for (const company of allCompanies || []) {
+        const budget = await checkCompanyBudget(supabase, company.id);
+        if (budget && !budget.allowed) {
+          console.log(`[run-company-workflows] Company ${company.id} is over its monthly AI budget, skipping`);
+          bulkResults.push({
+            company_id: company.id,
+            company_name: company.name,
+            status: 'skipped',
+            reason: 'budget_exceeded'
+          });
+          continue;
+        }
+
         // First, try to find an existing submission with actual data
         const latestRealSubmission = await findLatestDataSubmission(supabase, company.id);
         
@@ -2975,6 +4356,22 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Dry run plans against the given submission or the company's latest data
+    if (dry_run && company_id) {
+      const planSubmissionId = submission_id || (await findLatestDataSubmission(supabase, company_id))?.id;
+      if (!planSubmissionId) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'No data submission found for this company' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const plan = await processCompanyWorkflows(supabase, company_id, planSubmissionId, specificWorkflowId, empty_only || false, force || false, start_from_node_id || null, true);
+      return new Response(
+        JSON.stringify(plan),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Single company mode
     if (!company_id || !submission_id) {
       console.error('[run-company-workflows] Missing required fields');
@@ -2984,6 +4381,25 @@ Deno.serve(async (req) => {
       );
     }
 
+    const budget = await checkCompanyBudget(supabase, company_id);
+    if (budget && !budget.allowed) {
+      console.warn(`[run-company-workflows] Company ${company_id} is over its monthly AI budget`);
+      return budgetExceededResponse(budget, corsHeaders);
+    }
+
+    // Queued mode: hand the cascade to process-job-queue and return immediately
+    if (enqueue) {
+      const queued = await enqueueCompanyCascade(supabase, company_id, submission_id, specificWorkflowId || null, {
+        force: force || false,
+        start_from_node_id: start_from_node_id || null,
+        priority,
+      });
+      return new Response(
+        JSON.stringify(queued),
+        { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     const result = await processCompanyWorkflows(supabase, company_id, submission_id, specificWorkflowId, empty_only || false, force || false, start_from_node_id || null);
     
     return new Response(
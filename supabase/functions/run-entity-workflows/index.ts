@@ -7,6 +7,126 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// ============= RUN HISTORY =============
+// Runs are recorded in execution_runs with one execution_steps row per node.
+// Recording is best-effort: a failed insert is logged and never fails the run.
+
+interface ExecutionRunFields {
+  workflow_id: string;
+  company_id: string | null;
+  run_type: 'cascade' | 'force_run' | 'node_run' | 'test_run' | 'entity_run';
+  trigger_type?: 'manual' | 'scheduled' | 'webhook' | 'api';
+  submission_id?: string | null;
+  entity_id?: string | null;
+  input_data?: Record<string, unknown>;
+}
+
+interface ExecutionStepFields {
+  node_id: string;
+  node_type: string;
+  node_label: string;
+  status: 'completed' | 'failed' | 'skipped';
+  execution_order: number;
+  // Epoch ms when the node started
+  started_at: number;
+  input_data?: Record<string, unknown> | null;
+  output_data?: Record<string, unknown> | null;
+  error_message?: string | null;
+  tokens_used?: number | null;
+}
+
+async function startExecutionRun(supabase: SupabaseClient, fields: ExecutionRunFields): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('execution_runs')
+    .insert({
+      trigger_type: 'manual',
+      ...fields,
+      status: 'running',
+      started_at: new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+  if (error || !data) {
+    console.error('[run-entity-workflows] Failed to start execution run:', error);
+    return null;
+  }
+  return data.id as string;
+}
+
+// Tokens default to the AI usage the node logged since it started
+async function recordExecutionStep(
+  supabase: SupabaseClient,
+  runId: string | null,
+  companyId: string | null,
+  workflowId: string,
+  step: ExecutionStepFields
+): Promise<string | null> {
+  if (!runId) return null;
+
+  let tokensUsed = step.tokens_used;
+  if (tokensUsed === undefined && step.status !== 'skipped') {
+    let usageQuery = supabase
+      .from('ai_usage_logs')
+      .select('total_tokens')
+      .eq('workflow_id', workflowId)
+      .eq('node_id', step.node_id)
+      .gte('created_at', new Date(step.started_at).toISOString());
+    if (companyId) usageQuery = usageQuery.eq('company_id', companyId);
+    const { data: usage } = await usageQuery;
+    tokensUsed = (usage || []).reduce((sum: number, row: { total_tokens: number | null }) => sum + (row.total_tokens || 0), 0);
+  }
+
+  const completedAt = Date.now();
+  const { data, error } = await supabase
+    .from('execution_steps')
+    .insert({
+      execution_run_id: runId,
+      node_id: step.node_id,
+      node_type: step.node_type,
+      node_label: step.node_label,
+      status: step.status,
+      execution_order: step.execution_order,
+      input_data: step.input_data ?? null,
+      output_data: step.output_data ?? null,
+      error_message: step.error_message ?? null,
+      tokens_used: tokensUsed ?? null,
+      started_at: new Date(step.started_at).toISOString(),
+      completed_at: new Date(completedAt).toISOString(),
+      execution_time_ms: completedAt - step.started_at,
+    })
+    .select('id')
+    .single();
+  if (error || !data) {
+    console.error(`[run-entity-workflows] Failed to record step for node ${step.node_id}:`, error);
+    return null;
+  }
+  return data.id as string;
+}
+
+async function finishExecutionRun(
+  supabase: SupabaseClient,
+  runId: string | null,
+  startedAt: number,
+  status: 'completed' | 'failed',
+  outputData: Record<string, unknown>,
+  errorMessage: string | null = null
+): Promise<void> {
+  if (!runId) return;
+  const { error } = await supabase
+    .from('execution_runs')
+    .update({
+      status,
+      output_data: outputData,
+      error_message: errorMessage,
+      completed_at: new Date().toISOString(),
+      execution_time_ms: Date.now() - startedAt,
+    })
+    .eq('id', runId);
+  if (error) console.error('[run-entity-workflows] Failed to finish execution run:', error);
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -17,7 +137,7 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const { entity_id } = await req.json();
+    const { entity_id, workflow_id } = await req.json();
 
     if (!entity_id) {
       throw new Error('entity_id is required');
@@ -34,12 +154,14 @@ serve(async (req) => {
       throw new Error(`Entity not found: ${entity_id}`);
     }
 
-    // Fetch workflows assigned to this entity
-    const { data: workflows, error: workflowsError } = await supabase
+    // Fetch workflows assigned to this entity, or just the requested one
+    let workflowsQuery = supabase
       .from('workflows')
       .select('*')
       .eq('settings->>data_attribution', 'entity_data')
       .eq('settings->>assigned_entity_id', entity_id);
+    if (workflow_id) workflowsQuery = workflowsQuery.eq('id', workflow_id);
+    const { data: workflows, error: workflowsError } = await workflowsQuery;
 
     if (workflowsError) throw workflowsError;
 
@@ -49,13 +171,38 @@ serve(async (req) => {
 
     // Process each workflow (simplified - just update node data timestamps)
     for (const workflow of workflows || []) {
+      const runStartedAt = Date.now();
+      const runId = await startExecutionRun(supabase, {
+        workflow_id: workflow.id,
+        company_id: null,
+        run_type: 'entity_run',
+        entity_id,
+        input_data: { entity_id },
+      });
+
       // Update entity node data to mark as executed
-      await supabase
+      const { data: nodeRows } = await supabase
         .from('entity_node_data')
         .update({ last_executed_at: new Date().toISOString() })
         .eq('entity_id', entity_id)
-        .eq('workflow_id', workflow.id);
+        .eq('workflow_id', workflow.id)
+        .select('node_id, node_type, node_label, data');
+
+      let order = 0;
+      for (const row of nodeRows || []) {
+        await recordExecutionStep(supabase, runId, null, workflow.id, {
+          node_id: row.node_id,
+          node_type: row.node_type,
+          node_label: row.node_label || row.node_id,
+          status: 'completed',
+          execution_order: order++,
+          started_at: runStartedAt,
+          output_data: { output: row.data?.output ?? null },
+          tokens_used: 0,
+        });
+      }
 
+      await finishExecutionRun(supabase, runId, runStartedAt, 'completed', { nodes: (nodeRows || []).length });
       workflowsProcessed++;
     }
 
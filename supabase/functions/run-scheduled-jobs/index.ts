@@ -0,0 +1,350 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+
+// Version for deployment verification
+const FUNCTION_VERSION = "1.0.0-2026-02-13";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Schedules fired per tick; the rest are picked up by the next tick
+const MAX_SCHEDULES_PER_TICK = 50;
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface ScheduledJob {
+  id: string;
+  company_id: string | null;
+  workflow_id: string;
+  name: string;
+  cron_expression: string;
+  input_data: Record<string, unknown> | null;
+  next_run_at: string | null;
+  run_count: number;
+}
+
+// ============= CRON =============
+// Same 5-field UTC syntax as src/lib/cron.ts - keep the two in sync
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  aliases?: Record<string, number>;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, aliases: Object.fromEntries(MONTH_NAMES.map((m, i) => [m, i + 1])) },
+  { name: 'day of week', min: 0, max: 7, aliases: Object.fromEntries(DAY_NAMES.map((d, i) => [d, i])) },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MAX_SEARCH_YEARS = 30;
+
+const parseValue = (raw: string, spec: FieldSpec): number => {
+  const alias = spec.aliases?.[raw.toUpperCase()];
+  if (alias !== undefined) return alias;
+  if (!/^\d+$/.test(raw)) throw new Error(`Invalid ${spec.name} value "${raw}"`);
+  const value = parseInt(raw, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${spec.name} value ${value} is out of range (${spec.min}-${spec.max})`);
+  }
+  return value;
+};
+
+const parseField = (field: string, spec: FieldSpec): Set<number> => {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rest.length > 0 || rangePart === '') throw new Error(`Invalid ${spec.name} field "${field}"`);
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || parseInt(stepPart, 10) === 0) {
+        throw new Error(`Invalid ${spec.name} step "${stepPart}"`);
+      }
+      step = parseInt(stepPart, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) throw new Error(`Invalid ${spec.name} range "${rangePart}"`);
+    } else {
+      start = parseValue(rangePart, spec);
+      end = stepPart !== undefined ? spec.max : start;
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+};
+
+const parseCron = (expression: string): CronSchedule => {
+  const trimmed = expression.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] || trimmed;
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Expected 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((f, i) => parseField(f, FIELDS[i]));
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+};
+
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+  const domMatch = schedule.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) return true;
+  if (schedule.anyDayOfMonth) return dowMatch;
+  if (schedule.anyDayOfWeek) return domMatch;
+  return domMatch || dowMatch;
+};
+
+// First time strictly after `from` that matches the expression
+const getNextCronRun = (expression: string, from: Date): Date => {
+  const schedule = parseCron(expression);
+  const next = new Date(from.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  const limit = from.getUTCFullYear() + MAX_SEARCH_YEARS;
+  while (next.getUTCFullYear() <= limit) {
+    if (!schedule.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return next;
+  }
+  throw new Error(`"${expression}" never matches a date`);
+};
+
+// ============= TICK =============
+
+// Every tick starts a worker, whether or not a schedule fired: it picks up retries whose
+// backoff has passed and reclaims jobs whose worker died (claim_next_job lease recovery)
+function startJobQueueWorker() {
+  fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/process-job-queue`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+    },
+    body: JSON.stringify({})
+  }).catch(err => console.error('[run-scheduled-jobs] Failed to start job queue worker:', err));
+}
+
+// Queue one company cascade job per target company. A schedule without a company
+// runs for every active company.
+async function enqueueScheduledJob(
+  supabase: SupabaseClient,
+  schedule: ScheduledJob,
+  firedAt: Date
+): Promise<number> {
+  let companyIds: string[];
+  if (schedule.company_id) {
+    companyIds = [schedule.company_id];
+  } else {
+    const { data: companies, error } = await supabase
+      .from('companies')
+      .select('id')
+      .eq('status', 'active');
+    if (error) throw error;
+    companyIds = (companies || []).map((c: { id: string }) => c.id);
+  }
+
+  const inputData = schedule.input_data || {};
+  const rows = companyIds.map(companyId => ({
+    company_id: companyId,
+    workflow_id: schedule.workflow_id,
+    priority: typeof inputData.priority === 'string' ? inputData.priority : 'normal',
+    payload: {
+      type: 'company_cascade',
+      company_id: companyId,
+      submission_id: null,
+      force: inputData.force === true,
+      start_from_node_id: typeof inputData.start_from_node_id === 'string' ? inputData.start_from_node_id : null,
+      trigger_type: 'scheduled',
+      scheduled_job_id: schedule.id,
+      scheduled_for: firedAt.toISOString(),
+      input_data: inputData,
+    },
+  }));
+  if (rows.length === 0) return 0;
+
+  const { error } = await supabase.from('job_queue').insert(rows);
+  if (error) throw error;
+  return rows.length;
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Health check endpoint
+  const url = new URL(req.url);
+  if (url.searchParams.get('health') === 'true') {
+    return new Response(JSON.stringify({
+      status: 'healthy',
+      version: FUNCTION_VERSION,
+      timestamp: new Date().toISOString()
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    // Optional: fire one schedule immediately ("Run now" in the admin tab)
+    const body = await req.json().catch(() => ({}));
+    const runNowId: string | undefined = body.scheduled_job_id;
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+
+    console.log(`[run-scheduled-jobs] v${FUNCTION_VERSION} - tick at ${now.toISOString()}${runNowId ? ` (run now: ${runNowId})` : ''}`);
+
+    let query = supabase
+      .from('scheduled_jobs')
+      .select('id, company_id, workflow_id, name, cron_expression, input_data, next_run_at, run_count')
+      .order('next_run_at', { ascending: true, nullsFirst: true })
+      .limit(MAX_SCHEDULES_PER_TICK);
+    query = runNowId
+      ? query.eq('id', runNowId)
+      : query.eq('is_active', true).or(`next_run_at.is.null,next_run_at.lte.${now.toISOString()}`);
+
+    const { data: schedules, error: schedulesError } = await query;
+    if (schedulesError) throw schedulesError;
+
+    const results: Array<{ scheduled_job_id: string; name: string; jobs_queued: number; next_run_at: string | null; error?: string }> = [];
+
+    for (const schedule of (schedules || []) as ScheduledJob[]) {
+      let nextRunAt: string | null = null;
+      try {
+        nextRunAt = getNextCronRun(schedule.cron_expression, now).toISOString();
+      } catch (cronError) {
+        // An invalid expression would fire on every tick - pause the schedule instead
+        const message = cronError instanceof Error ? cronError.message : 'Invalid cron expression';
+        console.error(`[run-scheduled-jobs] Pausing "${schedule.name}": ${message}`);
+        await supabase.from('scheduled_jobs').update({ is_active: false, next_run_at: null }).eq('id', schedule.id);
+        results.push({ scheduled_job_id: schedule.id, name: schedule.name, jobs_queued: 0, next_run_at: null, error: message });
+        continue;
+      }
+
+      // New schedules without a next run are only initialised, not fired
+      if (!schedule.next_run_at && !runNowId) {
+        await supabase.from('scheduled_jobs').update({ next_run_at: nextRunAt }).eq('id', schedule.id);
+        results.push({ scheduled_job_id: schedule.id, name: schedule.name, jobs_queued: 0, next_run_at: nextRunAt });
+        continue;
+      }
+
+      // Claim the run by moving next_run_at forward; a concurrent tick that already did so gets no row back
+      let claim = supabase
+        .from('scheduled_jobs')
+        .update({ next_run_at: nextRunAt, last_run_at: now.toISOString(), run_count: schedule.run_count + 1 })
+        .eq('id', schedule.id);
+      claim = schedule.next_run_at ? claim.eq('next_run_at', schedule.next_run_at) : claim.is('next_run_at', null);
+      const { data: claimed, error: claimError } = await claim.select('id');
+      if (claimError) throw claimError;
+      if (!claimed || claimed.length === 0) {
+        console.log(`[run-scheduled-jobs] "${schedule.name}" already fired by another tick`);
+        continue;
+      }
+
+      try {
+        const queued = await enqueueScheduledJob(supabase, schedule, now);
+        console.log(`[run-scheduled-jobs] "${schedule.name}" queued ${queued} job(s), next run ${nextRunAt}`);
+        results.push({ scheduled_job_id: schedule.id, name: schedule.name, jobs_queued: queued, next_run_at: nextRunAt });
+      } catch (enqueueError) {
+        const message = enqueueError instanceof Error ? enqueueError.message : 'Failed to enqueue jobs';
+        console.error(`[run-scheduled-jobs] "${schedule.name}" failed to enqueue:`, enqueueError);
+        results.push({ scheduled_job_id: schedule.id, name: schedule.name, jobs_queued: 0, next_run_at: nextRunAt, error: message });
+      }
+    }
+
+    const totalQueued = results.reduce((sum, r) => sum + r.jobs_queued, 0);
+    startJobQueueWorker();
+
+    return new Response(JSON.stringify({
+      success: true,
+      schedules_checked: (schedules || []).length,
+      jobs_queued: totalQueued,
+      results,
+      execution_time_ms: Date.now() - startTime
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('[run-scheduled-jobs] Unexpected error:', error);
+    startJobQueueWorker();
+    return new Response(JSON.stringify({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unexpected error',
+      execution_time_ms: Date.now() - startTime
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
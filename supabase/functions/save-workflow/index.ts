@@ -37,6 +37,59 @@ function calculateOverlapRatio(currentNodes: any[], newNodes: any[]): number {
   return maxSize > 0 ? intersectionCount / maxSize : 1.0;
 }
 
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface SavedWorkflow {
+  id: string;
+  version: number;
+  name: string;
+  nodes: unknown;
+  edges: unknown;
+  variables: unknown;
+  settings: unknown;
+}
+
+// Version history only distinguishes explicit saves from background ones
+function versionSource(source: string, restoredFromVersion: number | null): string {
+  if (restoredFromVersion) return 'rollback';
+  return source === 'user' || source === 'api' ? 'user' : 'autosave';
+}
+
+// Caller of the save, when the request carries a user session (beacon saves don't)
+async function resolveAuthor(req: Request, supabase: SupabaseClient): Promise<{ id: string | null; email: string | null }> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return { id: null, email: null };
+  const { data } = await supabase.auth.getUser(token);
+  return { id: data?.user?.id ?? null, email: data?.user?.email ?? null };
+}
+
+// Immutable snapshot of the saved version, used for history, diffs and rollback
+async function recordWorkflowVersion(
+  supabase: SupabaseClient,
+  req: Request,
+  workflow: SavedWorkflow,
+  source: string,
+  restoredFromVersion: number | null,
+  transactionId: string | null
+) {
+  const author = await resolveAuthor(req, supabase);
+  const { error } = await supabase.from('workflow_versions').insert({
+    workflow_id: workflow.id,
+    version: workflow.version,
+    name: workflow.name,
+    nodes: workflow.nodes || [],
+    edges: workflow.edges || [],
+    variables: workflow.variables || [],
+    settings: workflow.settings ?? null,
+    source: versionSource(source, restoredFromVersion),
+    created_by: author.id,
+    author_email: author.email,
+    restored_from_version: restoredFromVersion,
+    client_transaction_id: transactionId,
+  });
+  if (error) console.error('Failed to write workflow version snapshot:', error);
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -65,6 +118,7 @@ serve(async (req) => {
       _transaction_id,   // Client transaction ID for audit trail
       _identity_name,    // IDENTITY BINDING: Workflow name at load time
       _identity_token,   // IDENTITY BINDING: Session token for this load
+      _restored_from_version, // Rollback: version whose snapshot is being restored
     } = body;
 
     const source = _source || 'api';
@@ -296,6 +350,8 @@ serve(async (req) => {
       });
     }
 
+    await recordWorkflowVersion(supabase, req, result, source, _restored_from_version ?? null, _transaction_id || null);
+
     // Provision node storage based on data attribution
     const dataAttribution = settings?.data_attribution || 'company_data';
     
@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import { resolveValueRules, validateSSOTValue } from '../_shared/ssotValidation.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -42,7 +43,7 @@ Deno.serve(async (req) => {
 
     console.log(`[sync-to-master-data] Processing ${outputs.length} outputs for company ${company_id}`);
 
-    const results: Array<{ field_key: string; status: 'created' | 'updated' | 'error'; error?: string }> = [];
+    const results: Array<{ field_key: string; status: 'created' | 'updated' | 'quarantined' | 'error'; error?: string }> = [];
 
     for (const output of outputs) {
       const { node_id, node_label, workflow_id, domain, field_key, value } = output;
@@ -51,13 +52,73 @@ Deno.serve(async (req) => {
         // Look up field type from definitions
         const { data: fieldDef } = await supabase
           .from('company_field_definitions')
-          .select('field_type')
+          .select('field_type, validation_rules, level')
           .eq('domain', domain)
           .eq('field_key', field_key)
           .single();
 
         const fieldType = fieldDef?.field_type || 'text';
 
+        const sourceReference = {
+          workflow_id,
+          node_id,
+          node_label,
+          synced_at: new Date().toISOString(),
+        };
+
+        // Values that break the field's rules are held in ssot_pending_changes instead of written
+        const violations = fieldDef
+          ? validateSSOTValue(value, resolveValueRules(fieldDef.field_type, fieldDef.validation_rules))
+          : [];
+        if (violations.length > 0) {
+          const level = ['L2', 'L3', 'L4'].includes(fieldDef?.level) ? fieldDef.level : 'L4';
+          const { data: pendingChange, error: quarantineError } = await supabase
+            .from('ssot_pending_changes')
+            .insert({
+              company_id,
+              workflow_id,
+              node_id,
+              change_id: `SYNC-${field_key}`,
+              target_level: level,
+              target_domain: domain,
+              target_path: { l1: domain, [level.toLowerCase()]: field_key },
+              action: 'overwrite',
+              data_type: fieldType === 'number' ? 'measurement' : 'attribute_fact',
+              is_scored: false,
+              proposed_value: value,
+              provenance: { source: `sync-to-master-data: ${node_label || node_id}`, timestamp: sourceReference.synced_at },
+              validation_status: 'invalid',
+              validation_errors: violations.map(v => `${field_key}: ${v}`),
+              status: 'pending',
+            })
+            .select('id')
+            .single();
+
+          if (quarantineError) {
+            console.error(`[sync-to-master-data] Quarantine error for ${field_key}:`, quarantineError);
+            results.push({ field_key, status: 'error', error: quarantineError.message });
+          } else {
+            const { data: alert } = await supabase
+              .from('system_alerts')
+              .insert({
+                alert_type: 'ssot_change_pending',
+                severity: 'warning',
+                title: `SSOT Value Quarantined: ${domain}.${field_key}`,
+                description: violations.join('; '),
+                affected_model: `ssot:${pendingChange.id}`,
+                action_url: `/companies?pending_change=${pendingChange.id}`,
+              })
+              .select('id')
+              .single();
+            if (alert) {
+              await supabase.from('ssot_pending_changes').update({ alert_id: alert.id }).eq('id', pendingChange.id);
+            }
+            console.log(`[sync-to-master-data] Quarantined ${domain}.${field_key}: ${violations.join('; ')}`);
+            results.push({ field_key, status: 'quarantined', error: violations.join('; ') });
+          }
+          continue;
+        }
+
         // Check if record exists
         const { data: existing } = await supabase
           .from('company_master_data')
@@ -70,13 +131,6 @@ Deno.serve(async (req) => {
         // Prepare field_value as JSONB - wrap in object for consistent storage
         const fieldValue = typeof value === 'object' ? value : { value };
 
-        const sourceReference = {
-          workflow_id,
-          node_id,
-          node_label,
-          synced_at: new Date().toISOString(),
-        };
-
         if (existing) {
           // Update existing record
           const { error: updateError } = await supabase
@@ -140,6 +194,7 @@ Deno.serve(async (req) => {
         summary: {
           created: results.filter(r => r.status === 'created').length,
           updated: results.filter(r => r.status === 'updated').length,
+          quarantined: results.filter(r => r.status === 'quarantined').length,
           errors: errorCount,
         },
       }),
@@ -1,11 +1,24 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+import {
+  calculateCost,
+  chatCompletion,
+  chatCompletionWithFallback,
+  getProviderConfigError,
+  loadPricingOverrides,
+  mapModelName,
+  supportsSearchGrounding,
+} from '../_shared/llm.ts';
+import { applyOutputSchema, enforceOutputSchema, resolveOutputSchema, type SchemaValidationResult } from '../_shared/structuredOutput.ts';
+import { hashContent, hashNodeConfig } from '../_shared/nodeConfigHash.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+type SupabaseClient = ReturnType<typeof createClient>;
+
 interface Node {
   id: string;
   type: string;
@@ -34,93 +47,6 @@ interface PromptPart {
   systemPromptName?: string;  // Cached name for display
 }
 
-// Default model pricing configuration (per 1 million tokens) - used as fallback
-const DEFAULT_MODEL_PRICING: Record<string, { input: number; output: number }> = {
-  'google/gemini-3-flash-preview': { input: 0.10, output: 0.40 },
-  'google/gemini-3-pro-preview': { input: 1.25, output: 10.00 },
-  'google/gemini-2.5-pro': { input: 1.25, output: 10.00 },
-  'google/gemini-2.5-flash': { input: 0.15, output: 0.60 },
-  'google/gemini-2.5-flash-lite': { input: 0.075, output: 0.30 },
-  'openai/gpt-5.2': { input: 2.50, output: 10.00 },
-  'openai/gpt-5': { input: 2.50, output: 10.00 },
-  'openai/gpt-5-mini': { input: 0.30, output: 1.20 },
-  'openai/gpt-5-nano': { input: 0.10, output: 0.40 },
-  'perplexity/sonar': { input: 1.00, output: 1.00 },
-  'perplexity/sonar-pro': { input: 3.00, output: 15.00 },
-  'perplexity/sonar-reasoning-pro': { input: 2.00, output: 8.00 },
-  'perplexity/sonar-deep-research': { input: 2.00, output: 8.00 },
-};
-
-// Load pricing overrides from database
-async function loadPricingOverrides(supabase: any): Promise<Record<string, { input: number; output: number }>> {
-  try {
-    const { data } = await supabase
-      .from('model_pricing_overrides')
-      .select('model_id, input_cost_per_million, output_cost_per_million');
-    
-    if (!data) return {};
-    
-    return data.reduce((acc: Record<string, { input: number; output: number }>, row: any) => {
-      if (row.input_cost_per_million !== null || row.output_cost_per_million !== null) {
-        const defaultPricing = DEFAULT_MODEL_PRICING[row.model_id] || { input: 0.10, output: 0.40 };
-        acc[row.model_id] = {
-          input: row.input_cost_per_million ?? defaultPricing.input,
-          output: row.output_cost_per_million ?? defaultPricing.output,
-        };
-      }
-      return acc;
-    }, {} as Record<string, { input: number; output: number }>);
-  } catch (error) {
-    console.error('[loadPricingOverrides] Error:', error);
-    return {};
-  }
-}
-
-// Calculate cost based on token usage with overrides
-const calculateCost = (
-  model: string, 
-  promptTokens: number, 
-  completionTokens: number,
-  overrides: Record<string, { input: number; output: number }> = {}
-): number => {
-  const pricing = overrides[model] || DEFAULT_MODEL_PRICING[model] || { input: 0.10, output: 0.40 };
-  return ((promptTokens * pricing.input) + (completionTokens * pricing.output)) / 1_000_000;
-};
-
-// Map UI model names to Lovable AI model names (standardized across all edge functions)
-const mapModelName = (uiModel: string): string => {
-  const modelMap: { [key: string]: string } = {
-    // Legacy model mappings (deprecated -> current equivalents)
-    'openai-gpt-4o': 'google/gemini-3-flash-preview',
-    'gpt-4o': 'google/gemini-3-flash-preview',
-    'gpt-4': 'openai/gpt-5',
-    'claude-3.5': 'google/gemini-2.5-pro',
-    'sonar': 'google/gemini-2.5-flash',
-    'local-vllm': 'google/gemini-2.5-flash',
-    // Short name mappings (without provider prefix)
-    'gemini-2.5-pro': 'google/gemini-2.5-pro',
-    'gemini-2.5-flash': 'google/gemini-2.5-flash',
-    'gemini-2.5-flash-lite': 'google/gemini-2.5-flash-lite',
-    'gemini-3-flash-preview': 'google/gemini-3-flash-preview',
-    'gemini-3-pro-preview': 'google/gemini-3-pro-preview',
-    'gpt-5': 'openai/gpt-5',
-    'gpt-5-mini': 'openai/gpt-5-mini',
-    'gpt-5-nano': 'openai/gpt-5-nano',
-    'gpt-5.2': 'openai/gpt-5.2',
-  };
-  // Return mapped model or input as-is (allows full model IDs to pass through)
-  return modelMap[uiModel] || uiModel;
-};
-
-// Generate SHA-256 hash of content for change detection
-const hashContent = async (content: string): Promise<string> => {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(content);
-  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-};
-
 // ============= EVALUATION SYSTEM =============
 interface EvaluationResult {
   hallucination: { score: number; reasoning: string };
@@ -143,21 +69,14 @@ async function runSingleEvaluation(
   pricingOverrides: Record<string, { input: number; output: number }> = {}
 ): Promise<{ score: number; reasoning: string }> {
   try {
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash-lite',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userMessage }
-        ],
-        temperature: 0.3,
-        max_tokens: 300,
-      }),
+    const response = await chatCompletion({
+      model: 'google/gemini-2.5-flash-lite',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userMessage }
+      ],
+      temperature: 0.3,
+      max_tokens: 300,
     });
 
     if (!response.ok) {
@@ -418,6 +337,130 @@ const findAllDownstreamDeps = (startIds: Set<string>, nodes: Node[], edges: Edge
   return downstream;
 };
 
+// ============= RUN HISTORY =============
+// Runs are recorded in execution_runs with one execution_steps row per node.
+// Recording is best-effort: a failed insert is logged and never fails the run.
+
+// Node outputs like "[AI Error: ...]" or "[Firecrawl error: ...]" mark a failed node
+const ERROR_OUTPUT_PATTERN = /^\[(?:[A-Za-z ]+ )?error\b/i;
+
+const isErrorOutput = (output: unknown): boolean =>
+  typeof output === 'string' && ERROR_OUTPUT_PATTERN.test(output);
+
+interface ExecutionRunFields {
+  workflow_id: string;
+  company_id: string | null;
+  run_type: 'cascade' | 'force_run' | 'node_run' | 'test_run' | 'entity_run';
+  trigger_type?: 'manual' | 'scheduled' | 'webhook' | 'api';
+  submission_id?: string | null;
+  entity_id?: string | null;
+  input_data?: Record<string, unknown>;
+}
+
+interface ExecutionStepFields {
+  node_id: string;
+  node_type: string;
+  node_label: string;
+  status: 'completed' | 'failed' | 'skipped';
+  execution_order: number;
+  // Epoch ms when the node started
+  started_at: number;
+  input_data?: Record<string, unknown> | null;
+  output_data?: Record<string, unknown> | null;
+  error_message?: string | null;
+  tokens_used?: number | null;
+}
+
+async function startExecutionRun(supabase: SupabaseClient, fields: ExecutionRunFields): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('execution_runs')
+    .insert({
+      trigger_type: 'manual',
+      ...fields,
+      status: 'running',
+      started_at: new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+  if (error || !data) {
+    console.error('[test-nodes] Failed to start execution run:', error);
+    return null;
+  }
+  return data.id as string;
+}
+
+// Tokens default to the AI usage the node logged since it started
+async function recordExecutionStep(
+  supabase: SupabaseClient,
+  runId: string | null,
+  companyId: string | null,
+  workflowId: string,
+  step: ExecutionStepFields
+): Promise<string | null> {
+  if (!runId) return null;
+
+  let tokensUsed = step.tokens_used;
+  if (tokensUsed === undefined && step.status !== 'skipped') {
+    let usageQuery = supabase
+      .from('ai_usage_logs')
+      .select('total_tokens')
+      .eq('workflow_id', workflowId)
+      .eq('node_id', step.node_id)
+      .gte('created_at', new Date(step.started_at).toISOString());
+    if (companyId) usageQuery = usageQuery.eq('company_id', companyId);
+    const { data: usage } = await usageQuery;
+    tokensUsed = (usage || []).reduce((sum: number, row: { total_tokens: number | null }) => sum + (row.total_tokens || 0), 0);
+  }
+
+  const completedAt = Date.now();
+  const { data, error } = await supabase
+    .from('execution_steps')
+    .insert({
+      execution_run_id: runId,
+      node_id: step.node_id,
+      node_type: step.node_type,
+      node_label: step.node_label,
+      status: step.status,
+      execution_order: step.execution_order,
+      input_data: step.input_data ?? null,
+      output_data: step.output_data ?? null,
+      error_message: step.error_message ?? null,
+      tokens_used: tokensUsed ?? null,
+      started_at: new Date(step.started_at).toISOString(),
+      completed_at: new Date(completedAt).toISOString(),
+      execution_time_ms: completedAt - step.started_at,
+    })
+    .select('id')
+    .single();
+  if (error || !data) {
+    console.error(`[test-nodes] Failed to record step for node ${step.node_id}:`, error);
+    return null;
+  }
+  return data.id as string;
+}
+
+async function finishExecutionRun(
+  supabase: SupabaseClient,
+  runId: string | null,
+  startedAt: number,
+  status: 'completed' | 'failed',
+  outputData: Record<string, unknown>,
+  errorMessage: string | null = null
+): Promise<void> {
+  if (!runId) return;
+  const { error } = await supabase
+    .from('execution_runs')
+    .update({
+      status,
+      output_data: outputData,
+      error_message: errorMessage,
+      completed_at: new Date().toISOString(),
+      execution_time_ms: Date.now() - startedAt,
+    })
+    .eq('id', runId);
+  if (error) console.error('[test-nodes] Failed to finish execution run:', error);
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -583,12 +626,37 @@ Deno.serve(async (req) => {
       errors: [] as { nodeId: string; error: string }[],
     };
 
+    const runId = await startExecutionRun(supabase, {
+      workflow_id: workflowId,
+      company_id: companyId,
+      run_type: 'test_run',
+      input_data: { node_ids: nodeIds },
+    });
+    const recordStep = (stepNode: Node, status: 'completed' | 'failed' | 'skipped', startedAt: number, fields: {
+      input_data?: Record<string, unknown> | null;
+      output_data?: Record<string, unknown> | null;
+      error_message?: string | null;
+    } = {}) =>
+      recordExecutionStep(supabase, runId, companyId, workflowId, {
+        node_id: stepNode.id,
+        node_type: stepNode.type,
+        node_label: stepNode.label || stepNode.data?.label || stepNode.type,
+        status,
+        execution_order: sortedNodeIds.indexOf(stepNode.id),
+        started_at: startedAt,
+        ...fields,
+      });
+
     // Execute nodes in topological order
     for (const nodeId of sortedNodeIds) {
       // Skip paused nodes and their downstream
       if (pausedNodes.has(nodeId) || pausedDownstream.has(nodeId)) {
         console.log(`[test-nodes] Skipping node ${nodeId}: paused or downstream of paused`);
         executionStats.cached.push(nodeId);
+        const pausedNode = nodeMap.get(nodeId);
+        if (pausedNode) {
+          await recordStep(pausedNode, 'skipped', Date.now(), { error_message: 'Paused or downstream of a paused node' });
+        }
         continue;
       }
 
@@ -665,19 +733,41 @@ Deno.serve(async (req) => {
       if (!needsExecution && nodeData?.data?.output !== undefined) {
         results.set(nodeId, nodeData.data.output);
         executionStats.cached.push(nodeId);
+        await recordStep(node, 'skipped', Date.now(), {
+          output_data: { output: nodeData.data.output },
+          error_message: 'Up to date - cached output reused',
+        });
         console.log(`Node ${nodeId}: CACHED`);
         continue;
       }
 
       console.log(`Node ${nodeId}: EXECUTING (${executionReason})`);
       executionStats.executed.push(nodeId);
+      const stepStartedAt = Date.now();
+
+      // Dependency values this node sees, from this run's results or the stored outputs
+      const stepInputs: Record<string, unknown> = {};
+      for (const depId of allDeps) {
+        if (results.has(depId)) {
+          stepInputs[depId] = results.get(depId);
+          continue;
+        }
+        const { data: depData } = await supabase
+          .from('company_node_data')
+          .select('data')
+          .match({ company_id: companyId, workflow_id: workflowId, node_id: depId })
+          .maybeSingle();
+        stepInputs[depId] = depData?.data?.output ?? null;
+      }
 
       try {
         let output: any = '';
         let evaluationResult: EvaluationResult | null = null;
+        let schemaValidation: SchemaValidationResult | null = null;
 
         if (node.type === 'promptTemplate') {
           const model = mapModelName(config.model || 'gpt-5-mini');
+          const fallbackModels: string[] = Array.isArray(config.fallbackModels) ? config.fallbackModels : [];
           const temperature = config.temperature || 0.7;
           const maxTokens = config.maxTokens || config.max_tokens || 8000;
           let systemPrompt = config.system_prompt || '';
@@ -860,26 +950,14 @@ Deno.serve(async (req) => {
             }
           }
 
-          // Determine API endpoint and auth based on model provider
-          const isPerplexityModel = model.startsWith('perplexity/');
-          const perplexityApiKey = Deno.env.get('PERPLEXITY_API_KEY');
-          const apiUrl = isPerplexityModel 
-            ? 'https://api.perplexity.ai/chat/completions'
-            : 'https://ai.gateway.lovable.dev/v1/chat/completions';
-          const apiKey = isPerplexityModel ? perplexityApiKey : lovableApiKey;
-          
-          if (!apiKey) {
-            throw new Error(isPerplexityModel 
-              ? 'PERPLEXITY_API_KEY not configured - please add it via Settings'
-              : 'LOVABLE_API_KEY not configured');
+          const providerError = getProviderConfigError(model);
+          if (providerError && fallbackModels.length === 0) {
+            throw new Error(`${providerError} - please add it via Settings`);
           }
-          
-          // For Perplexity, strip the provider prefix from model name
-          const apiModel = isPerplexityModel ? model.replace('perplexity/', '') : model;
 
           // Build request body
           const requestBody: any = {
-            model: apiModel,
+            model,
             messages: [
               ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
               { role: 'user', content: prompt }
@@ -890,26 +968,27 @@ Deno.serve(async (req) => {
 
           // Add Google Search grounding for Gemini models when webSearch is enabled
           // (Perplexity models have built-in web search)
-          if (!isPerplexityModel && config.webSearch && model.startsWith('google/')) {
+          if (config.webSearch && supportsSearchGrounding(model)) {
             requestBody.tools = [{ googleSearch: {} }];
           }
 
+          // Constrain the reply to the node's output schema, if it has one
+          const outputSchema = await resolveOutputSchema(supabase, config);
+          const chatRequest = outputSchema ? applyOutputSchema(requestBody, outputSchema, node.label || nodeId) : requestBody;
+
           // Track AI call timing
           const aiCallStart = Date.now();
 
-          // Call AI API (Perplexity or Lovable Gateway)
-          const response = await fetch(apiUrl, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${apiKey}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(requestBody),
+          // Call the model's provider (gateway, Perplexity, self-hosted or mock) with the node's
+          // retries and fallback models; servedModel is the one that answered
+          const { response, model: servedModel, attempts } = await chatCompletionWithFallback(chatRequest, {
+            fallbackModels,
+            retryPolicy: config.retryPolicy,
           });
 
           if (!response.ok) {
             const errorText = await response.text();
-            console.error(`AI API error for node ${nodeId}:`, errorText);
+            console.error(`AI API error for node ${nodeId} after ${attempts.length} attempt(s):`, errorText);
             
             // Detect model unavailability patterns and create system alert
             const isModelError = 
@@ -920,12 +999,12 @@ Deno.serve(async (req) => {
             if (isModelError) {
               try {
                 await supabase.rpc('upsert_model_alert', {
-                  _model: model,
+                  _model: servedModel,
                   _error_message: errorText,
                   _node_id: nodeId,
                   _status_code: response.status
                 });
-                console.log(`[test-nodes] Created/updated system alert for model ${model}`);
+                console.log(`[test-nodes] Created/updated system alert for model ${servedModel}`);
               } catch (alertError) {
                 console.error('[test-nodes] Failed to create system alert:', alertError);
               }
@@ -963,13 +1042,15 @@ Deno.serve(async (req) => {
             const promptTokens = usage.prompt_tokens || 0;
             const completionTokens = usage.completion_tokens || 0;
             const totalTokens = usage.total_tokens || promptTokens + completionTokens;
-            const estimatedCost = calculateCost(model, promptTokens, completionTokens, pricingOverrides);
+            const estimatedCost = calculateCost(servedModel, promptTokens, completionTokens, pricingOverrides);
 
             await supabase.from('ai_usage_logs').insert({
               workflow_id: workflowId,
               company_id: companyId,
               node_id: nodeId,
-              model,
+              model: servedModel,
+              requested_model: model,
+              attempt_count: attempts.length,
               prompt_tokens: promptTokens,
               completion_tokens: completionTokens,
               total_tokens: totalTokens,
@@ -978,6 +1059,34 @@ Deno.serve(async (req) => {
               dependency_changed_at: latestDependencyUpdate,
             });
           }
+
+          // Validate against the output schema, asking the model to repair invalid replies
+          if (outputSchema) {
+            const enforced = await enforceOutputSchema({
+              request: { ...chatRequest, model: servedModel },
+              content: output,
+              schema: outputSchema,
+              schemaSource: config.outputSchemaSource === 'framework' ? 'framework' : 'inline',
+            });
+            output = enforced.output;
+            schemaValidation = enforced.validation;
+            console.log(`[test-nodes] Schema validation for node "${node.label || nodeId}": ${schemaValidation.valid ? 'passed' : 'failed'} after ${schemaValidation.attempts} attempt(s)`);
+
+            if (enforced.repairUsage) {
+              await supabase.from('ai_usage_logs').insert({
+                workflow_id: workflowId,
+                company_id: companyId,
+                node_id: nodeId,
+                model: servedModel,
+                requested_model: model,
+                prompt_tokens: enforced.repairUsage.promptTokens,
+                completion_tokens: enforced.repairUsage.completionTokens,
+                total_tokens: enforced.repairUsage.totalTokens,
+                estimated_cost: calculateCost(servedModel, enforced.repairUsage.promptTokens, enforced.repairUsage.completionTokens, pricingOverrides),
+                dependency_changed_at: latestDependencyUpdate,
+              });
+            }
+          }
           
           // Run quality evaluations on successful generation
           if (output && typeof output === 'string' && output.length > 10 && !output.startsWith('[')) {
@@ -1214,41 +1323,69 @@ Deno.serve(async (req) => {
             output = JSON.stringify(schemaSnapshot, null, 2);
             console.log(`[test-nodes] SSOT Schema snapshot: ${schemaSnapshot.total_domains} domains, ${schemaSnapshot.total_fields} fields (with hierarchy)`);
           } else if (config.sourceType === 'dataset' && config.datasetId) {
-            // Fetch the dataset definition to get its dependencies
-            const { data: dataset } = await supabase
-              .from('datasets')
-              .select('dependencies')
-              .eq('id', config.datasetId)
-              .maybeSingle();
-            
-            const dependencies = (dataset?.dependencies || []) as Array<{
-              workflowId: string;
-              nodeId: string;
-              nodeName: string;
-            }>;
             const aggregatedData: Record<string, any> = {};
-            
-            // For each dependency, load its output from company_node_data
-            for (const dep of dependencies) {
-              const { data: depNodeData } = await supabase
-                .from('company_node_data')
-                .select('data, node_label')
-                .match({ 
-                  company_id: companyId, 
-                  workflow_id: dep.workflowId, 
-                  node_id: dep.nodeId 
-                })
+            let snapshotError: string | null = null;
+
+            if (config.snapshotVersion) {
+              // Pinned: use this company's latest snapshot at or before the pinned version
+              const { data: snapshot } = await supabase
+                .from('data_snapshots')
+                .select('version, snapshot_data')
+                .eq('dataset_id', config.datasetId)
+                .eq('company_id', companyId)
+                .lte('version', config.snapshotVersion)
+                .order('version', { ascending: false })
+                .limit(1)
                 .maybeSingle();
+
+              for (const row of (snapshot?.snapshot_data || []) as Array<{ key: string; output: unknown }>) {
+                aggregatedData[row.key] = row.output;
+              }
+              if (!snapshot) {
+                // A pinned node must not silently run on empty data
+                snapshotError = `[Dataset error: no snapshot at or before v${config.snapshotVersion} for this company]`;
+                console.warn(`[test-nodes] Dataset node ${nodeId}: no snapshot at or before v${config.snapshotVersion}`);
+              }
+            } else {
+              // Fetch the dataset definition to get its dependencies
+              const { data: dataset } = await supabase
+                .from('datasets')
+                .select('dependencies')
+                .eq('id', config.datasetId)
+                .maybeSingle();
+            
+              const dependencies = (dataset?.dependencies || []) as Array<{
+                workflowId: string;
+                nodeId: string;
+                nodeName: string;
+              }>;
+            
+              // For each dependency, load its output from company_node_data
+              for (const dep of dependencies) {
+                const { data: depNodeData } = await supabase
+                  .from('company_node_data')
+                  .select('data, node_label')
+                  .match({ 
+                    company_id: companyId, 
+                    workflow_id: dep.workflowId, 
+                    node_id: dep.nodeId 
+                  })
+                  .maybeSingle();
               
-              if (depNodeData?.data?.output) {
-                // Use nodeName as key (converted to snake_case for consistency)
-                const key = dep.nodeName.toLowerCase().replace(/\s+/g, '_');
-                aggregatedData[key] = depNodeData.data.output;
+                if (depNodeData?.data?.output) {
+                  // Use nodeName as key (converted to snake_case for consistency)
+                  const key = dep.nodeName.toLowerCase().replace(/\s+/g, '_');
+                  aggregatedData[key] = depNodeData.data.output;
+                }
               }
             }
             
-            output = JSON.stringify(aggregatedData);
-            console.log(`[test-nodes] Dataset node ${nodeId}: aggregated ${Object.keys(aggregatedData).length} dependencies`);
+            if (snapshotError) {
+              output = snapshotError;
+            } else {
+              output = JSON.stringify(aggregatedData);
+              console.log(`[test-nodes] Dataset node ${nodeId}: aggregated ${Object.keys(aggregatedData).length} dependencies`);
+            }
           } else if (config.sourceType === 'shared_cache' && config.sharedCacheId) {
             // Fetch data from shared cache
             const { data: cacheData } = await supabase
@@ -1403,6 +1540,9 @@ Deno.serve(async (req) => {
 
         // Build data object with output and optional evaluation
         const nodeDataToStore: Record<string, any> = { output };
+        if (schemaValidation) {
+          nodeDataToStore.schema_validation = schemaValidation;
+        }
         if (evaluationResult && node.type === 'promptTemplate') {
           nodeDataToStore.evaluation = {
             hallucination: evaluationResult.hallucination,
@@ -1513,6 +1653,7 @@ Deno.serve(async (req) => {
             node_label: node.label || node.data?.label || node.type,
             data: nodeDataToStore,
             content_hash: contentHash,
+            config_hash: await hashNodeConfig({ type: node.type, config: node.config || node.data?.config }),
             dependency_hashes: depHashes,
             last_executed_at: new Date().toISOString(),
             updated_at: new Date().toISOString()
@@ -1568,10 +1709,32 @@ Deno.serve(async (req) => {
         });
         results.set(nodeId, `Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
+
+      const stepOutput = results.get(nodeId);
+      const stepError = executionStats.errors.find(e => e.nodeId === nodeId)?.error
+        || (isErrorOutput(stepOutput) ? stepOutput as string : null);
+      await recordStep(node, stepError ? 'failed' : 'completed', stepStartedAt, {
+        input_data: { dependencies: stepInputs },
+        output_data: { output: stepOutput ?? null },
+        error_message: stepError,
+      });
     }
 
+    await finishExecutionRun(
+      supabase,
+      runId,
+      startTime,
+      executionStats.errors.length > 0 ? 'failed' : 'completed',
+      {
+        executed: executionStats.executed.length,
+        cached: executionStats.cached.length,
+        errors: executionStats.errors.length,
+      },
+      executionStats.errors.length > 0 ? `${executionStats.errors.length} node(s) failed` : null
+    );
+
     // Build response with results for requested nodes
-    const nodeResults: Record<string, { output: any; executedAt: string; cached: boolean }> = {};
+    const nodeResults: Record<string, { output: any; executedAt: string; cached: boolean; schemaValidation: SchemaValidationResult | null }> = {};
     
     for (const nodeId of nodeIds) {
       const output = results.get(nodeId);
@@ -1580,20 +1743,22 @@ Deno.serve(async (req) => {
       // Get stored timestamp
       const { data: storedData } = await supabase
         .from('company_node_data')
-        .select('last_executed_at')
+        .select('last_executed_at, data')
         .match({ company_id: companyId, workflow_id: workflowId, node_id: nodeId })
         .single();
       
       nodeResults[nodeId] = {
         output,
         executedAt: storedData?.last_executed_at || new Date().toISOString(),
-        cached
+        cached,
+        schemaValidation: storedData?.data?.schema_validation ?? null,
       };
     }
 
     return new Response(
       JSON.stringify({
         success: true,
+        execution_run_id: runId,
         results: nodeResults,
         stats: {
           executed: executionStats.executed.length,
@@ -0,0 +1,340 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.58.0';
+
+// Version for deployment verification
+const FUNCTION_VERSION = "1.0.0-2026-02-13";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-webhook-signature, x-webhook-timestamp',
+};
+
+// Signed requests older or newer than this are rejected
+const TIMESTAMP_TOLERANCE_SECONDS = 300;
+// The previous secret keeps working this long after a rotation
+const ROTATION_GRACE_MS = 24 * 60 * 60 * 1000;
+const PAYLOAD_PREVIEW_LENGTH = 2000;
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface WebhookEndpoint {
+  id: string;
+  company_id: string;
+  workflow_id: string;
+  name: string;
+  secret_key: string;
+  previous_secret_key: string | null;
+  secret_rotated_at: string | null;
+  is_active: boolean;
+}
+
+interface DeliveryRecord {
+  status: 'accepted' | 'rejected';
+  status_code: number;
+  error_message?: string | null;
+  signature?: string | null;
+  request_timestamp?: string | null;
+  submission_id?: string | null;
+  job_id?: string | null;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// HMAC-SHA256 of `${timestamp}.${body}` as lowercase hex
+const computeSignature = async (secret: string, timestamp: string, body: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Constant-time comparison so the signature cannot be guessed byte by byte
+const timingSafeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+// Check the signature against the current secret, or the previous one during the rotation grace period
+const verifySignature = async (
+  endpoint: WebhookEndpoint,
+  signature: string,
+  timestamp: string,
+  body: string
+): Promise<boolean> => {
+  const secrets = [endpoint.secret_key];
+  if (
+    endpoint.previous_secret_key &&
+    endpoint.secret_rotated_at &&
+    Date.now() - new Date(endpoint.secret_rotated_at).getTime() < ROTATION_GRACE_MS
+  ) {
+    secrets.push(endpoint.previous_secret_key);
+  }
+
+  let valid = false;
+  for (const secret of secrets) {
+    const expected = await computeSignature(secret, timestamp, body);
+    if (timingSafeEqual(expected, signature)) valid = true;
+  }
+  return valid;
+};
+
+// `failed` is set when the row could not be written for any reason other than a replay
+async function recordDelivery(
+  supabase: SupabaseClient,
+  endpoint: WebhookEndpoint,
+  rawBody: string,
+  delivery: DeliveryRecord
+): Promise<{ id: string | null; duplicate: boolean; failed: boolean }> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      webhook_endpoint_id: endpoint.id,
+      company_id: endpoint.company_id,
+      payload_preview: rawBody.slice(0, PAYLOAD_PREVIEW_LENGTH),
+      ...delivery,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    // Unique violation on (endpoint, signature) for accepted deliveries means a replay
+    if (error.code === '23505') return { id: null, duplicate: true, failed: false };
+    console.error('[webhook-trigger] Failed to record delivery:', error);
+    return { id: null, duplicate: false, failed: true };
+  }
+  return { id: data.id, duplicate: false, failed: false };
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Health check endpoint
+  const url = new URL(req.url);
+  if (url.searchParams.get('health') === 'true') {
+    return new Response(JSON.stringify({
+      status: 'healthy',
+      version: FUNCTION_VERSION,
+      timestamp: new Date().toISOString()
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    // Endpoint id from the path (/webhook-trigger/<id>) or ?endpoint_id=
+    const pathId = url.pathname.split('/').filter(Boolean).pop();
+    const endpointId = url.searchParams.get('endpoint_id') || (pathId !== 'webhook-trigger' ? pathId : null);
+    if (!endpointId || !/^[0-9a-f-]{36}$/i.test(endpointId)) {
+      return jsonResponse({ error: 'Missing or invalid webhook endpoint id' }, 404);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: endpoint, error: endpointError } = await supabase
+      .from('webhook_endpoints')
+      .select('id, company_id, workflow_id, name, secret_key, previous_secret_key, secret_rotated_at, is_active')
+      .eq('id', endpointId)
+      .maybeSingle();
+
+    if (endpointError || !endpoint) {
+      return jsonResponse({ error: 'Webhook endpoint not found' }, 404);
+    }
+
+    // Read the raw body once - the signature covers the exact bytes sent
+    const rawBody = await req.text();
+    const signatureHeader = req.headers.get('x-webhook-signature') || '';
+    const signature = signatureHeader.replace(/^sha256=/, '').trim().toLowerCase();
+    const timestampHeader = req.headers.get('x-webhook-timestamp') || '';
+
+    // Requests that fail before the signature is verified are only logged, so unsigned
+    // traffic cannot fill webhook_deliveries
+    const refuse = (status: number, message: string) => {
+      console.warn(`[webhook-trigger] Refused request for "${endpoint.name}": ${message}`);
+      return jsonResponse({ error: message }, status);
+    };
+
+    // Signed deliveries that are still rejected are recorded in the endpoint's history
+    const reject = async (status: number, message: string, requestTimestamp: string | null = null) => {
+      await recordDelivery(supabase, endpoint, rawBody, {
+        status: 'rejected',
+        status_code: status,
+        error_message: message,
+        signature: signature || null,
+        request_timestamp: requestTimestamp,
+      });
+      console.warn(`[webhook-trigger] Rejected delivery for "${endpoint.name}": ${message}`);
+      return jsonResponse({ error: message }, status);
+    };
+
+    if (!endpoint.is_active) {
+      return refuse(403, 'Webhook endpoint is disabled');
+    }
+
+    if (!signature || !timestampHeader) {
+      return refuse(401, 'Missing X-Webhook-Signature or X-Webhook-Timestamp header');
+    }
+
+    const timestampSeconds = Number(timestampHeader);
+    if (!Number.isInteger(timestampSeconds)) {
+      return refuse(401, 'X-Webhook-Timestamp must be a Unix timestamp in seconds');
+    }
+    const requestTimestamp = new Date(timestampSeconds * 1000).toISOString();
+    if (Math.abs(Date.now() / 1000 - timestampSeconds) > TIMESTAMP_TOLERANCE_SECONDS) {
+      return refuse(401, `Timestamp is outside the ${TIMESTAMP_TOLERANCE_SECONDS}s tolerance`);
+    }
+
+    if (!(await verifySignature(endpoint, signature, timestampHeader, rawBody))) {
+      return refuse(401, 'Invalid signature');
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return await reject(400, 'Body must be valid JSON', requestTimestamp);
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return await reject(400, 'Body must be a JSON object', requestTimestamp);
+    }
+
+    // Claim the signature first: a second delivery with the same signature is a replay
+    const delivery = await recordDelivery(supabase, endpoint, rawBody, {
+      status: 'accepted',
+      status_code: 202,
+      signature,
+      request_timestamp: requestTimestamp,
+    });
+    // A replay is already recorded as the original delivery
+    if (delivery.duplicate) {
+      return refuse(409, 'Duplicate delivery (signature already used)');
+    }
+    // Without the claimed signature a replay could not be told apart, so nothing is accepted
+    if (delivery.failed) {
+      return jsonResponse({ error: 'Failed to record delivery' }, 500);
+    }
+
+    // Turning the accepted delivery into a rejected one frees its signature (only accepted
+    // signatures are unique), so the sender can retry the same delivery
+    const failAccepted = async (message: string) => {
+      if (delivery.id) {
+        await supabase
+          .from('webhook_deliveries')
+          .update({ status: 'rejected', status_code: 500, error_message: message })
+          .eq('id', delivery.id);
+      }
+      return jsonResponse({ error: message }, 500);
+    };
+
+    // Same shape as ingest-data ({ data, metadata }); any other object is taken as the data itself
+    const data = body.data && typeof body.data === 'object' ? body.data : body;
+    const metadata = body.data && typeof body.metadata === 'object' && body.metadata ? body.metadata : {};
+
+    const { data: submission, error: submissionError } = await supabase
+      .from('company_data_submissions')
+      .insert({
+        company_id: endpoint.company_id,
+        raw_data: data,
+        metadata: {
+          ...metadata,
+          webhook_endpoint_id: endpoint.id,
+          webhook_name: endpoint.name,
+          webhook_delivery_id: delivery.id,
+        },
+        source_type: 'webhook',
+        status: 'pending',
+      })
+      .select('id')
+      .single();
+
+    if (submissionError || !submission) {
+      console.error('[webhook-trigger] Failed to create submission:', submissionError);
+      return await failAccepted('Failed to store submission');
+    }
+
+    // Queue the endpoint's workflow for this submission
+    const { data: job, error: jobError } = await supabase
+      .from('job_queue')
+      .insert({
+        company_id: endpoint.company_id,
+        workflow_id: endpoint.workflow_id,
+        priority: 'normal',
+        payload: {
+          type: 'company_cascade',
+          company_id: endpoint.company_id,
+          submission_id: submission.id,
+          force: false,
+          start_from_node_id: null,
+          trigger_type: 'webhook',
+          webhook_endpoint_id: endpoint.id,
+        },
+      })
+      .select('id')
+      .single();
+
+    // Nothing would ever process the submission, so it fails and the sender retries
+    if (jobError || !job) {
+      console.error('[webhook-trigger] Failed to enqueue workflow:', jobError);
+      await supabase
+        .from('company_data_submissions')
+        .update({ status: 'failed', error_message: 'Failed to queue workflow' })
+        .eq('id', submission.id);
+      return await failAccepted('Failed to queue workflow');
+    }
+
+    await Promise.all([
+      delivery.id
+        ? supabase
+            .from('webhook_deliveries')
+            .update({ submission_id: submission.id, job_id: job.id })
+            .eq('id', delivery.id)
+        : Promise.resolve(),
+      // Incremented in SQL so concurrent deliveries are all counted
+      supabase.rpc('record_webhook_trigger', { _endpoint_id: endpoint.id }),
+    ]);
+
+    fetch(`${supabaseUrl}/functions/v1/process-job-queue`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseServiceKey}`
+      },
+      body: JSON.stringify({})
+    }).catch(err => console.error('[webhook-trigger] Failed to start job queue worker:', err));
+
+    console.log(`[webhook-trigger] Accepted delivery for "${endpoint.name}" - submission ${submission.id}`);
+
+    return jsonResponse({
+      success: true,
+      delivery_id: delivery.id,
+      submission_id: submission.id,
+      job_id: job.id,
+    }, 202);
+
+  } catch (error) {
+    console.error('[webhook-trigger] Unexpected error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unexpected error' }, 500);
+  }
+});
@@ -0,0 +1,8 @@
+-- Track per-node execution status so branch-skipped nodes are distinguishable from completed ones
+ALTER TABLE public.company_node_data
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'completed';
+
+CREATE INDEX IF NOT EXISTS idx_company_node_data_status
+ON public.company_node_data(company_id, workflow_id, status);
+
+COMMENT ON COLUMN public.company_node_data.status IS 'Execution status of the last run: completed, or skipped when a condition node routed the cascade down the other branch';
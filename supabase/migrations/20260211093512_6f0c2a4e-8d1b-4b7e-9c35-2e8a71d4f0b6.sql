@@ -0,0 +1,41 @@
+-- Per-item results of foreach nodes: one row per item for the foreach node and for each node in its body
+CREATE TABLE public.company_node_item_results (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+    workflow_id uuid NOT NULL REFERENCES public.workflows(id) ON DELETE CASCADE,
+    foreach_node_id text NOT NULL,
+    node_id text NOT NULL,
+    item_index integer NOT NULL,
+    item jsonb,
+    output jsonb,
+    status text NOT NULL DEFAULT 'completed',
+    error text,
+    execution_time_ms integer,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    UNIQUE(company_id, workflow_id, foreach_node_id, node_id, item_index)
+);
+
+-- Enable RLS
+ALTER TABLE public.company_node_item_results ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Platform admins can manage all node item results"
+ON public.company_node_item_results FOR ALL TO authenticated
+USING (public.is_platform_admin(auth.uid()))
+WITH CHECK (public.is_platform_admin(auth.uid()));
+
+CREATE POLICY "Company members can view their node item results"
+ON public.company_node_item_results FOR SELECT TO authenticated
+USING (public.is_company_member(auth.uid(), company_id));
+
+-- Index for paging through a node's items
+CREATE INDEX idx_company_node_item_results_lookup
+ON public.company_node_item_results(company_id, workflow_id, node_id, item_index);
+
+CREATE TRIGGER update_company_node_item_results_updated_at
+BEFORE UPDATE ON public.company_node_item_results
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.company_node_item_results IS 'Per-item outputs of foreach fan-out runs, replaced on every run of the foreach node';
@@ -0,0 +1,59 @@
+-- Job queue worker support: claim jobs atomically and record skipped steps
+
+-- Nodes on an untaken condition branch are recorded as skipped steps
+ALTER TYPE public.execution_status ADD VALUE IF NOT EXISTS 'skipped';
+
+-- Claim the next runnable job for a worker.
+-- Jobs still marked running whose worker stopped heartbeating (updated_at older than the lease)
+-- count as a failed attempt and go back to the queue, or fail once out of retries.
+-- The claim itself uses FOR UPDATE SKIP LOCKED so concurrent workers never take the same job.
+CREATE OR REPLACE FUNCTION public.claim_next_job(_worker_id text, _lease_seconds integer DEFAULT 600)
+RETURNS SETOF public.job_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    WITH expired AS (
+        UPDATE public.job_queue
+        SET status = CASE WHEN retry_count + 1 > max_retries THEN 'failed'::execution_status ELSE 'queued'::execution_status END,
+            retry_count = retry_count + 1,
+            worker_id = NULL,
+            error_message = 'Worker lease expired',
+            completed_at = CASE WHEN retry_count + 1 > max_retries THEN now() ELSE NULL END
+        WHERE status = 'running'
+          AND updated_at < now() - make_interval(secs => _lease_seconds)
+        RETURNING execution_run_id, status
+    )
+    UPDATE public.execution_runs r
+    SET status = 'failed',
+        error_message = 'Worker lease expired',
+        completed_at = now()
+    FROM expired e
+    WHERE r.id = e.execution_run_id
+      AND e.status = 'failed';
+
+    RETURN QUERY
+    UPDATE public.job_queue j
+    SET status = 'running',
+        worker_id = _worker_id,
+        picked_up_at = now()
+    WHERE j.id = (
+        SELECT q.id
+        FROM public.job_queue q
+        WHERE q.status = 'queued'
+          AND q.scheduled_for <= now()
+          AND q.retry_count <= q.max_retries
+        ORDER BY q.priority DESC, q.scheduled_for ASC, q.created_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_job_queue_running
+ON public.job_queue(updated_at) WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_execution_steps_node
+ON public.execution_steps(execution_run_id, node_id);
@@ -0,0 +1,35 @@
+-- Cron scheduler for scheduled_jobs
+
+-- A schedule without a company runs its workflow for every active company
+ALTER TABLE public.scheduled_jobs ALTER COLUMN company_id DROP NOT NULL;
+
+COMMENT ON COLUMN public.scheduled_jobs.cron_expression IS '5-field cron expression evaluated in UTC (minute hour day-of-month month day-of-week)';
+COMMENT ON COLUMN public.scheduled_jobs.company_id IS 'Company to run for; NULL runs for every active company';
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_workflow
+ON public.scheduled_jobs(workflow_id);
+
+-- Lets the admin tab list the jobs a schedule queued
+CREATE INDEX IF NOT EXISTS idx_job_queue_scheduled_job
+ON public.job_queue((payload->>'scheduled_job_id'))
+WHERE payload->>'scheduled_job_id' IS NOT NULL;
+
+-- Tick the scheduler every minute. The service role key is read from Vault
+-- (secret name: service_role_key) so it is not stored in the migration.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'run-scheduled-jobs',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://mzfbpykokhlfwutllcny.supabase.co/functions/v1/run-scheduled-jobs',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,91 @@
+-- Signed inbound webhooks for webhook_endpoints
+
+-- Rotation keeps the previous secret valid for a grace period so senders can switch over
+ALTER TABLE public.webhook_endpoints
+  ADD COLUMN IF NOT EXISTS previous_secret_key TEXT,
+  ADD COLUMN IF NOT EXISTS secret_rotated_at TIMESTAMPTZ;
+
+-- Every delivery attempt, accepted or rejected. Accepted signatures are unique per
+-- endpoint, which is what rejects replays.
+CREATE TABLE public.webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    webhook_endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+    company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+    status TEXT NOT NULL CHECK (status IN ('accepted', 'rejected')),
+    status_code INTEGER NOT NULL,
+    error_message TEXT,
+    signature TEXT,
+    request_timestamp TIMESTAMPTZ,
+    submission_id UUID REFERENCES public.company_data_submissions(id) ON DELETE SET NULL,
+    job_id UUID REFERENCES public.job_queue(id) ON DELETE SET NULL,
+    payload_preview TEXT,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_webhook_deliveries_signature
+ON public.webhook_deliveries(webhook_endpoint_id, signature)
+WHERE status = 'accepted';
+
+CREATE INDEX idx_webhook_deliveries_endpoint
+ON public.webhook_deliveries(webhook_endpoint_id, received_at DESC);
+
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Platform admins can manage webhook deliveries"
+ON public.webhook_deliveries FOR ALL TO authenticated
+USING (public.is_platform_admin(auth.uid()))
+WITH CHECK (public.is_platform_admin(auth.uid()));
+
+CREATE POLICY "Company members can view webhook deliveries"
+ON public.webhook_deliveries FOR SELECT TO authenticated
+USING (public.is_company_member(auth.uid(), company_id));
+
+-- Endpoint secrets were readable by every signed-in user; limit them to the owning company
+DROP POLICY IF EXISTS "Authenticated users can view webhook endpoints" ON public.webhook_endpoints;
+
+CREATE POLICY "Company members can view webhook endpoints"
+ON public.webhook_endpoints FOR SELECT TO authenticated
+USING (public.is_company_member(auth.uid(), company_id));
+
+-- Reference pgcrypto from the extensions schema (same fix as generate_org_api_key)
+CREATE OR REPLACE FUNCTION public.generate_webhook_secret()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF NEW.secret_key IS NULL OR NEW.secret_key = '' THEN
+        NEW.secret_key := 'whsec_' || encode(extensions.gen_random_bytes(32), 'hex');
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- Issue a new secret, keeping the old one as previous_secret_key for the grace period
+CREATE OR REPLACE FUNCTION public.rotate_webhook_secret(_endpoint_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _new_secret text := 'whsec_' || encode(extensions.gen_random_bytes(32), 'hex');
+BEGIN
+    IF NOT public.is_platform_admin(auth.uid()) THEN
+        RAISE EXCEPTION 'Only platform admins can rotate webhook secrets';
+    END IF;
+
+    UPDATE public.webhook_endpoints
+    SET previous_secret_key = secret_key,
+        secret_key = _new_secret,
+        secret_rotated_at = now()
+    WHERE id = _endpoint_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Webhook endpoint not found';
+    END IF;
+
+    RETURN _new_secret;
+END;
+$$;
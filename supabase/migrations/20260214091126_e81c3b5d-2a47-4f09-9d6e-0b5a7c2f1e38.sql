@@ -0,0 +1,14 @@
+-- Unified run history: every cascade, force run, test run and entity run writes an
+-- execution_runs row with one execution_steps row per node
+
+ALTER TABLE public.execution_runs
+  ADD COLUMN IF NOT EXISTS run_type TEXT NOT NULL DEFAULT 'cascade'
+    CHECK (run_type IN ('cascade', 'force_run', 'node_run', 'test_run', 'entity_run')),
+  ADD COLUMN IF NOT EXISTS submission_id UUID REFERENCES public.company_data_submissions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS entity_id UUID REFERENCES public.entities(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_execution_runs_workflow_created
+ON public.execution_runs(workflow_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_execution_runs_submission
+ON public.execution_runs(submission_id) WHERE submission_id IS NOT NULL;
@@ -0,0 +1,56 @@
+-- Workflow version history: save-workflow writes an immutable snapshot of every saved version
+
+CREATE TABLE public.workflow_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workflow_id UUID NOT NULL REFERENCES public.workflows(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    nodes JSONB NOT NULL DEFAULT '[]'::jsonb,
+    edges JSONB NOT NULL DEFAULT '[]'::jsonb,
+    variables JSONB NOT NULL DEFAULT '[]'::jsonb,
+    settings JSONB,
+    source TEXT NOT NULL DEFAULT 'user' CHECK (source IN ('user', 'autosave', 'rollback', 'migration')),
+    created_by UUID,
+    author_email TEXT,
+    restored_from_version INTEGER,
+    client_transaction_id TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (workflow_id, version)
+);
+
+CREATE INDEX idx_workflow_versions_workflow
+ON public.workflow_versions(workflow_id, version DESC);
+
+ALTER TABLE public.workflow_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Platform admins can manage workflow versions"
+ON public.workflow_versions FOR ALL TO authenticated
+USING (public.is_platform_admin(auth.uid()))
+WITH CHECK (public.is_platform_admin(auth.uid()));
+
+CREATE POLICY "Authenticated users can view workflow versions"
+ON public.workflow_versions FOR SELECT TO authenticated
+USING (auth.uid() IS NOT NULL);
+
+-- Snapshots never change once written
+CREATE OR REPLACE FUNCTION public.prevent_workflow_version_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+    RAISE EXCEPTION 'Workflow versions are immutable';
+END;
+$$;
+
+CREATE TRIGGER workflow_versions_immutable
+BEFORE UPDATE ON public.workflow_versions
+FOR EACH ROW EXECUTE FUNCTION public.prevent_workflow_version_update();
+
+-- Seed history with the current state of every workflow
+INSERT INTO public.workflow_versions (workflow_id, version, name, nodes, edges, variables, settings, source)
+SELECT id, version, name, nodes, edges, variables, settings, 'migration'
+FROM public.workflows
+ON CONFLICT (workflow_id, version) DO NOTHING;
+
+COMMENT ON TABLE public.workflow_versions IS 'Immutable snapshot of each saved workflow version, used for history, diffs and rollback';
@@ -0,0 +1,250 @@
+-- Deterministic domain scores: roll scored SSOT fields up into company_domain_scores
+--
+-- L2 field score = its own score, or else the weighted average of its scored L3 children.
+-- Domain score   = weighted average (score_weight) of the L2 field scores that exist.
+-- Confidence     = sum(confidence * weight) / sum(weight) over ALL scored fields, so missing
+--                  fields pull confidence down. A score without score_confidence counts as 0.5.
+
+CREATE OR REPLACE FUNCTION public.refresh_company_domain_score(_company_id uuid, _domain company_domain)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _l2 RECORD;
+    _l3 RECORD;
+    _children jsonb;
+    _child_total_weight numeric;
+    _child_scored_weight numeric;
+    _child_score_sum numeric;
+    _child_confidence_sum numeric;
+    _field_score numeric;
+    _field_confidence numeric;
+    _field_source text;
+    _contributing jsonb := '[]'::jsonb;
+    _total_weight numeric := 0;
+    _scored_weight numeric := 0;
+    _score_sum numeric := 0;
+    _confidence_sum numeric := 0;
+    _total_fields integer := 0;
+    _scored_fields integer := 0;
+BEGIN
+    FOR _l2 IN
+        SELECT fd.id, fd.field_key, fd.display_name, COALESCE(fd.score_weight, 1.0) AS weight,
+               md.score, md.score_confidence
+        FROM company_field_definitions fd
+        LEFT JOIN company_master_data md
+          ON md.company_id = _company_id AND md.domain = fd.domain AND md.field_key = fd.field_key
+        WHERE fd.domain = _domain
+          AND fd.level = 'L2'
+          AND fd.is_scored
+          AND COALESCE(fd.score_weight, 1.0) > 0
+        ORDER BY fd.sort_order, fd.field_key
+    LOOP
+        _children := '[]'::jsonb;
+        _child_total_weight := 0;
+        _child_scored_weight := 0;
+        _child_score_sum := 0;
+        _child_confidence_sum := 0;
+
+        FOR _l3 IN
+            SELECT fd.field_key, COALESCE(fd.score_weight, 1.0) AS weight, md.score, md.score_confidence
+            FROM company_field_definitions fd
+            LEFT JOIN company_master_data md
+              ON md.company_id = _company_id AND md.domain = fd.domain AND md.field_key = fd.field_key
+            WHERE fd.parent_field_id = _l2.id
+              AND fd.is_scored
+              AND COALESCE(fd.score_weight, 1.0) > 0
+            ORDER BY fd.sort_order, fd.field_key
+        LOOP
+            _child_total_weight := _child_total_weight + _l3.weight;
+            IF _l3.score IS NOT NULL THEN
+                _child_scored_weight := _child_scored_weight + _l3.weight;
+                _child_score_sum := _child_score_sum + _l3.score * _l3.weight;
+                _child_confidence_sum := _child_confidence_sum + COALESCE(_l3.score_confidence, 0.5) * _l3.weight;
+            END IF;
+            _children := _children || jsonb_build_object(
+                'field_key', _l3.field_key,
+                'score', _l3.score,
+                'confidence', _l3.score_confidence,
+                'weight', _l3.weight
+            );
+        END LOOP;
+
+        IF _l2.score IS NOT NULL THEN
+            _field_score := _l2.score;
+            _field_confidence := COALESCE(_l2.score_confidence, 0.5);
+            _field_source := 'field';
+        ELSIF _child_scored_weight > 0 THEN
+            _field_score := round(_child_score_sum / _child_scored_weight, 2);
+            _field_confidence := round(_child_confidence_sum / _child_total_weight, 3);
+            _field_source := 'rollup';
+        ELSE
+            _field_score := NULL;
+            _field_confidence := 0;
+            _field_source := 'missing';
+        END IF;
+
+        _total_fields := _total_fields + 1;
+        _total_weight := _total_weight + _l2.weight;
+        IF _field_score IS NOT NULL THEN
+            _scored_fields := _scored_fields + 1;
+            _scored_weight := _scored_weight + _l2.weight;
+            _score_sum := _score_sum + _field_score * _l2.weight;
+            _confidence_sum := _confidence_sum + _field_confidence * _l2.weight;
+        END IF;
+
+        _contributing := _contributing || jsonb_build_object(
+            'field_key', _l2.field_key,
+            'display_name', _l2.display_name,
+            'score', _field_score,
+            'confidence', _field_confidence,
+            'weight', _l2.weight,
+            'source', _field_source,
+            'children', _children
+        );
+    END LOOP;
+
+    -- No scored L2 fields defined for this domain: nothing to derive a score from
+    IF _total_fields = 0 THEN
+        DELETE FROM company_domain_scores WHERE company_id = _company_id AND domain = _domain;
+        RETURN;
+    END IF;
+
+    INSERT INTO company_domain_scores (company_id, domain, score, confidence, reasoning, contributing_fields, calculated_at)
+    VALUES (
+        _company_id,
+        _domain,
+        CASE WHEN _scored_weight > 0 THEN round(_score_sum / _scored_weight)::integer END,
+        round(_confidence_sum / _total_weight, 3),
+        format('Weighted average of %s of %s scored L2 fields', _scored_fields, _total_fields),
+        _contributing,
+        now()
+    )
+    ON CONFLICT (company_id, domain) DO UPDATE
+    SET score = EXCLUDED.score,
+        confidence = EXCLUDED.confidence,
+        reasoning = EXCLUDED.reasoning,
+        contributing_fields = EXCLUDED.contributing_fields,
+        calculated_at = EXCLUDED.calculated_at;
+END;
+$$;
+
+-- Recompute every domain score for a company (admin UI / service role)
+CREATE OR REPLACE FUNCTION public.recalculate_company_domain_scores(_company_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _domain company_domain;
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT public.is_platform_admin(auth.uid()) THEN
+        RAISE EXCEPTION 'Only platform admins can recalculate domain scores';
+    END IF;
+
+    FOR _domain IN SELECT unnest(enum_range(NULL::company_domain)) LOOP
+        PERFORM public.refresh_company_domain_score(_company_id, _domain);
+    END LOOP;
+END;
+$$;
+
+-- Re-run whenever a scored master-data field changes
+CREATE OR REPLACE FUNCTION public.trigger_refresh_domain_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM public.refresh_company_domain_score(OLD.company_id, OLD.domain);
+        RETURN OLD;
+    END IF;
+
+    PERFORM public.refresh_company_domain_score(NEW.company_id, NEW.domain);
+    IF TG_OP = 'UPDATE' AND (OLD.company_id, OLD.domain) IS DISTINCT FROM (NEW.company_id, NEW.domain) THEN
+        PERFORM public.refresh_company_domain_score(OLD.company_id, OLD.domain);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_domain_score_on_insert
+AFTER INSERT ON company_master_data
+FOR EACH ROW
+WHEN (NEW.score IS NOT NULL)
+EXECUTE FUNCTION public.trigger_refresh_domain_score();
+
+CREATE TRIGGER refresh_domain_score_on_update
+AFTER UPDATE ON company_master_data
+FOR EACH ROW
+WHEN (
+    OLD.score IS DISTINCT FROM NEW.score
+    OR OLD.score_confidence IS DISTINCT FROM NEW.score_confidence
+    OR OLD.company_id IS DISTINCT FROM NEW.company_id
+    OR OLD.domain IS DISTINCT FROM NEW.domain
+    OR OLD.field_key IS DISTINCT FROM NEW.field_key
+)
+EXECUTE FUNCTION public.trigger_refresh_domain_score();
+
+CREATE TRIGGER refresh_domain_score_on_delete
+AFTER DELETE ON company_master_data
+FOR EACH ROW
+WHEN (OLD.score IS NOT NULL)
+EXECUTE FUNCTION public.trigger_refresh_domain_score();
+
+-- Weight or hierarchy edits change every company's score in that domain
+CREATE OR REPLACE FUNCTION public.trigger_refresh_domain_scores_for_definition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _company_id uuid;
+    _domains company_domain[];
+    _domain company_domain;
+BEGIN
+    _domains := CASE TG_OP
+        WHEN 'INSERT' THEN ARRAY[NEW.domain]
+        WHEN 'DELETE' THEN ARRAY[OLD.domain]
+        ELSE ARRAY(SELECT DISTINCT d FROM unnest(ARRAY[OLD.domain, NEW.domain]) AS d)
+    END;
+
+    FOREACH _domain IN ARRAY _domains LOOP
+        FOR _company_id IN
+            SELECT company_id FROM company_master_data WHERE domain = _domain
+            UNION
+            SELECT company_id FROM company_domain_scores WHERE domain = _domain
+        LOOP
+            PERFORM public.refresh_company_domain_score(_company_id, _domain);
+        END LOOP;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_domain_scores_on_definition_change
+AFTER INSERT OR DELETE OR UPDATE OF domain, field_key, level, parent_field_id, is_scored, score_weight
+ON company_field_definitions
+FOR EACH ROW
+EXECUTE FUNCTION public.trigger_refresh_domain_scores_for_definition();
+
+-- Backfill: replace prompt-written scores with computed ones
+DO $$
+DECLARE
+    _pair RECORD;
+BEGIN
+    FOR _pair IN
+        SELECT DISTINCT company_id, domain FROM company_master_data
+        UNION
+        SELECT company_id, domain FROM company_domain_scores
+    LOOP
+        PERFORM public.refresh_company_domain_score(_pair.company_id, _pair.domain);
+    END LOOP;
+END;
+$$;
@@ -0,0 +1,529 @@
+-- Apply score_influence_references when scoring fields
+--
+-- influence_config: { "values": { "<fact value>": <selection> }, "default": <selection> }
+--   benchmark_selector: selection is a key into benchmark_reference (or an inline { min, max } object)
+--   rubric_selector:    selection is a key into evaluation_config.rubrics (or an inline band array)
+--   weight_modifier:    selection is a multiplier for score_weight
+
+-- Resolve the influences attached to a field definition against a company's context facts
+CREATE OR REPLACE FUNCTION public.resolve_score_influences(_company_id uuid, _field_definition_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _ref RECORD;
+    _fact_text text;
+    _selected jsonb;
+    _multiplier numeric := 1;
+    _benchmark jsonb;
+    _rubric jsonb;
+    _applied jsonb := '[]'::jsonb;
+    _missing jsonb := '[]'::jsonb;
+BEGIN
+    FOR _ref IN
+        SELECT sir.fact_key, sir.influence_type, sir.influence_config,
+               fd.benchmark_reference, fd.evaluation_config, cf.fact_value
+        FROM score_influence_references sir
+        JOIN company_field_definitions fd ON fd.id = sir.field_definition_id
+        LEFT JOIN company_context_facts cf ON cf.company_id = _company_id AND cf.fact_key = sir.fact_key
+        WHERE sir.field_definition_id = _field_definition_id
+        ORDER BY sir.influence_type, sir.fact_key
+    LOOP
+        _fact_text := _ref.fact_value #>> '{}';
+        IF _fact_text IS NULL THEN
+            _missing := _missing || to_jsonb(_ref.fact_key);
+        END IF;
+
+        _selected := COALESCE(_ref.influence_config -> 'values' -> _fact_text, _ref.influence_config -> 'default');
+        CONTINUE WHEN _selected IS NULL;
+
+        IF _ref.influence_type = 'weight_modifier' THEN
+            CONTINUE WHEN jsonb_typeof(_selected) <> 'number';
+            _multiplier := _multiplier * (_selected #>> '{}')::numeric;
+        ELSIF _ref.influence_type = 'benchmark_selector' THEN
+            _benchmark := CASE WHEN jsonb_typeof(_selected) = 'string'
+                THEN _ref.benchmark_reference -> (_selected #>> '{}')
+                ELSE _selected END;
+            CONTINUE WHEN _benchmark IS NULL;
+        ELSIF _ref.influence_type = 'rubric_selector' THEN
+            _rubric := CASE WHEN jsonb_typeof(_selected) = 'string'
+                THEN _ref.evaluation_config -> 'rubrics' -> (_selected #>> '{}')
+                ELSE _selected END;
+            CONTINUE WHEN _rubric IS NULL;
+        ELSE
+            CONTINUE;
+        END IF;
+
+        _applied := _applied || jsonb_build_object(
+            'fact_key', _ref.fact_key,
+            'fact_value', _fact_text,
+            'influence_type', _ref.influence_type,
+            'selected', _selected
+        );
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'weight_multiplier', _multiplier,
+        'benchmark', _benchmark,
+        'rubric', _rubric,
+        'applied', _applied,
+        'missing_facts', _missing
+    );
+END;
+$$;
+
+-- "funding_stage=Seed → benchmark seed; business_model=B2B → weight ×1.5"
+CREATE OR REPLACE FUNCTION public.describe_score_influences(_influences jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+    SELECT string_agg(
+        format('%s=%s → %s',
+            a ->> 'fact_key',
+            COALESCE(a ->> 'fact_value', 'default'),
+            CASE a ->> 'influence_type'
+                WHEN 'weight_modifier' THEN 'weight ×' || (a ->> 'selected')
+                WHEN 'benchmark_selector' THEN 'benchmark ' || (a -> 'selected' #>> '{}')
+                ELSE 'rubric ' || (a -> 'selected' #>> '{}')
+            END),
+        '; ')
+    FROM jsonb_array_elements(COALESCE(_influences -> 'applied', '[]'::jsonb)) AS a;
+$$;
+
+-- Deterministic score for one field value. NULL when the field's method is not deterministic
+-- (ai_assessment, weighted_aggregate), so AI-written scores are left alone.
+CREATE OR REPLACE FUNCTION public.evaluate_field_score(
+    _company_id uuid,
+    _domain company_domain,
+    _field_key text,
+    _value jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _def RECORD;
+    _influences jsonb;
+    _text text;
+    _num numeric;
+    _rubric jsonb;
+    _benchmark jsonb;
+    _band jsonb;
+    _min numeric;
+    _max numeric;
+    _score numeric;
+    _reasoning text;
+    _applied text;
+BEGIN
+    SELECT id, is_scored, evaluation_method, evaluation_config, benchmark_reference INTO _def
+    FROM company_field_definitions
+    WHERE domain = _domain AND field_key = _field_key;
+
+    IF NOT FOUND OR NOT COALESCE(_def.is_scored, false)
+       OR _def.evaluation_method NOT IN ('numeric_range', 'boolean_check', 'existence_check') THEN
+        RETURN NULL;
+    END IF;
+
+    _influences := public.resolve_score_influences(_company_id, _def.id);
+    _text := _value #>> '{}';
+
+    IF _def.evaluation_method = 'existence_check' THEN
+        IF _text IS NULL OR btrim(_text) = '' OR _value IN ('[]'::jsonb, '{}'::jsonb) THEN
+            _score := 0;
+            _reasoning := 'Value missing';
+        ELSE
+            _score := 100;
+            _reasoning := 'Value present';
+        END IF;
+
+    ELSIF _def.evaluation_method = 'boolean_check' THEN
+        IF lower(_text) IN ('true', 'yes', '1') THEN
+            _score := 100;
+            _reasoning := 'Check passed';
+        ELSIF lower(_text) IN ('false', 'no', '0') THEN
+            _score := 0;
+            _reasoning := 'Check failed';
+        ELSE
+            _reasoning := 'Value is not a boolean';
+        END IF;
+
+    ELSE
+        IF _text ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*$' THEN
+            _num := _text::numeric;
+        END IF;
+
+        _rubric := COALESCE(_influences -> 'rubric', _def.evaluation_config -> 'rubric');
+        _benchmark := COALESCE(_influences -> 'benchmark', _def.benchmark_reference);
+
+        IF _num IS NULL THEN
+            _reasoning := 'Value is not numeric';
+        ELSIF jsonb_typeof(_rubric) = 'array' THEN
+            -- Rubric bands: highest band whose min the value reaches
+            SELECT band INTO _band
+            FROM jsonb_array_elements(_rubric) AS band
+            WHERE (band ->> 'min')::numeric <= _num
+            ORDER BY (band ->> 'min')::numeric DESC
+            LIMIT 1;
+            _score := (_band ->> 'score')::numeric;
+            _reasoning := CASE WHEN _band IS NULL
+                THEN format('%s is below every rubric band', _num)
+                ELSE format('%s falls in rubric band %s', _num, COALESCE(_band ->> 'label', _band ->> 'min')) END;
+        ELSIF _benchmark ? 'min' AND _benchmark ? 'max' THEN
+            _min := (_benchmark ->> 'min')::numeric;
+            _max := (_benchmark ->> 'max')::numeric;
+            IF _max = _min THEN
+                _score := CASE WHEN _num >= _max THEN 100 ELSE 0 END;
+            ELSE
+                _score := greatest(0, least(100, (_num - _min) / (_max - _min) * 100));
+            END IF;
+            IF COALESCE((_benchmark ->> 'higher_is_better')::boolean, true) = false THEN
+                _score := 100 - _score;
+            END IF;
+            _reasoning := format('%s against benchmark %s–%s', _num, _min, _max);
+        ELSE
+            _reasoning := 'No benchmark or rubric configured';
+        END IF;
+    END IF;
+
+    _applied := public.describe_score_influences(_influences);
+    IF _applied IS NOT NULL THEN
+        _reasoning := _reasoning || '. Influences: ' || _applied;
+    END IF;
+    IF jsonb_array_length(_influences -> 'missing_facts') > 0 THEN
+        _reasoning := _reasoning || '. Missing context facts: ' ||
+            (SELECT string_agg(f, ', ') FROM jsonb_array_elements_text(_influences -> 'missing_facts') AS f);
+    END IF;
+
+    RETURN jsonb_build_object(
+        'score', round(_score)::integer,
+        -- Defaults stood in for missing facts, so trust the score less
+        'confidence', CASE
+            WHEN _score IS NULL THEN NULL
+            WHEN jsonb_array_length(_influences -> 'missing_facts') > 0 THEN 0.8
+            ELSE 1.0 END,
+        'reasoning', _reasoning
+    );
+END;
+$$;
+
+-- Score master data as it is written
+CREATE OR REPLACE FUNCTION public.trigger_score_master_data_field()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _result jsonb;
+BEGIN
+    _result := public.evaluate_field_score(NEW.company_id, NEW.domain, NEW.field_key, NEW.field_value);
+    IF _result IS NOT NULL THEN
+        NEW.score := (_result ->> 'score')::integer;
+        NEW.score_confidence := (_result ->> 'confidence')::numeric;
+        NEW.score_reasoning := _result ->> 'reasoning';
+        NEW.score_calculated_at := now();
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER score_master_data_field
+BEFORE INSERT OR UPDATE OF field_value ON company_master_data
+FOR EACH ROW
+EXECUTE FUNCTION public.trigger_score_master_data_field();
+
+-- Re-score one company's stored values for the given field definitions, then refresh their domains
+CREATE OR REPLACE FUNCTION public.rescore_company_fields(_company_id uuid, _field_definition_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _row RECORD;
+    _result jsonb;
+    _domain company_domain;
+BEGIN
+    FOR _row IN
+        SELECT md.id, md.domain, md.field_key, md.field_value, md.score, md.score_confidence, md.score_reasoning
+        FROM company_master_data md
+        JOIN company_field_definitions fd ON fd.domain = md.domain AND fd.field_key = md.field_key
+        WHERE md.company_id = _company_id AND fd.id = ANY(_field_definition_ids)
+    LOOP
+        _result := public.evaluate_field_score(_company_id, _row.domain, _row.field_key, _row.field_value);
+        CONTINUE WHEN _result IS NULL;
+        CONTINUE WHEN (_result ->> 'score')::integer IS NOT DISTINCT FROM _row.score
+            AND (_result ->> 'confidence')::numeric IS NOT DISTINCT FROM _row.score_confidence
+            AND (_result ->> 'reasoning') IS NOT DISTINCT FROM _row.score_reasoning;
+
+        UPDATE company_master_data
+        SET score = (_result ->> 'score')::integer,
+            score_confidence = (_result ->> 'confidence')::numeric,
+            score_reasoning = _result ->> 'reasoning',
+            score_calculated_at = now()
+        WHERE id = _row.id;
+    END LOOP;
+
+    -- Weight modifiers change domain scores even when no field score moved
+    FOR _domain IN
+        SELECT DISTINCT domain FROM company_field_definitions WHERE id = ANY(_field_definition_ids)
+    LOOP
+        PERFORM public.refresh_company_domain_score(_company_id, _domain);
+    END LOOP;
+END;
+$$;
+
+-- A context fact changed: re-score the company's fields it influences
+CREATE OR REPLACE FUNCTION public.trigger_rescore_on_context_fact()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _company_id uuid := COALESCE(NEW.company_id, OLD.company_id);
+    _fact_keys text[] := ARRAY(SELECT DISTINCT k FROM unnest(ARRAY[NEW.fact_key, OLD.fact_key]) AS k WHERE k IS NOT NULL);
+    _field_ids uuid[];
+BEGIN
+    _field_ids := ARRAY(
+        SELECT DISTINCT field_definition_id FROM score_influence_references
+        WHERE fact_key = ANY(_fact_keys) AND field_definition_id IS NOT NULL
+    );
+    IF array_length(_field_ids, 1) > 0 THEN
+        PERFORM public.rescore_company_fields(_company_id, _field_ids);
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER rescore_on_context_fact_change
+AFTER INSERT OR DELETE OR UPDATE OF fact_key, fact_value ON company_context_facts
+FOR EACH ROW
+EXECUTE FUNCTION public.trigger_rescore_on_context_fact();
+
+-- An influence or a field's scoring config changed: re-score every company holding that field
+CREATE OR REPLACE FUNCTION public.rescore_field_definition(_field_definition_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _company_id uuid;
+BEGIN
+    FOR _company_id IN
+        SELECT DISTINCT md.company_id
+        FROM company_master_data md
+        JOIN company_field_definitions fd ON fd.domain = md.domain AND fd.field_key = md.field_key
+        WHERE fd.id = _field_definition_id
+    LOOP
+        PERFORM public.rescore_company_fields(_company_id, ARRAY[_field_definition_id]);
+    END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.trigger_rescore_on_influence_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF TG_OP <> 'INSERT' AND OLD.field_definition_id IS NOT NULL THEN
+        PERFORM public.rescore_field_definition(OLD.field_definition_id);
+    END IF;
+    IF TG_OP <> 'DELETE' AND NEW.field_definition_id IS NOT NULL
+       AND (TG_OP = 'INSERT' OR NEW.field_definition_id IS DISTINCT FROM OLD.field_definition_id) THEN
+        PERFORM public.rescore_field_definition(NEW.field_definition_id);
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER rescore_on_influence_change
+AFTER INSERT OR UPDATE OR DELETE ON score_influence_references
+FOR EACH ROW
+EXECUTE FUNCTION public.trigger_rescore_on_influence_change();
+
+CREATE OR REPLACE FUNCTION public.trigger_rescore_on_scoring_config_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    PERFORM public.rescore_field_definition(NEW.id);
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER rescore_on_scoring_config_change
+AFTER UPDATE OF is_scored, evaluation_method, evaluation_config, benchmark_reference ON company_field_definitions
+FOR EACH ROW
+EXECUTE FUNCTION public.trigger_rescore_on_scoring_config_change();
+
+-- Domain roll-up: same as before, with weight_modifier influences applied to each field's weight
+CREATE OR REPLACE FUNCTION public.refresh_company_domain_score(_company_id uuid, _domain company_domain)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _l2 RECORD;
+    _l3 RECORD;
+    _influences jsonb;
+    _weight numeric;
+    _child_weight numeric;
+    _children jsonb;
+    _child_total_weight numeric;
+    _child_scored_weight numeric;
+    _child_score_sum numeric;
+    _child_confidence_sum numeric;
+    _field_score numeric;
+    _field_confidence numeric;
+    _field_source text;
+    _contributing jsonb := '[]'::jsonb;
+    _total_weight numeric := 0;
+    _scored_weight numeric := 0;
+    _score_sum numeric := 0;
+    _confidence_sum numeric := 0;
+    _total_fields integer := 0;
+    _scored_fields integer := 0;
+    _adjusted_fields integer := 0;
+BEGIN
+    FOR _l2 IN
+        SELECT fd.id, fd.field_key, fd.display_name, COALESCE(fd.score_weight, 1.0) AS weight,
+               md.score, md.score_confidence
+        FROM company_field_definitions fd
+        LEFT JOIN company_master_data md
+          ON md.company_id = _company_id AND md.domain = fd.domain AND md.field_key = fd.field_key
+        WHERE fd.domain = _domain
+          AND fd.level = 'L2'
+          AND fd.is_scored
+          AND COALESCE(fd.score_weight, 1.0) > 0
+        ORDER BY fd.sort_order, fd.field_key
+    LOOP
+        _influences := public.resolve_score_influences(_company_id, _l2.id);
+        _weight := _l2.weight * (_influences ->> 'weight_multiplier')::numeric;
+        CONTINUE WHEN _weight <= 0;
+        IF _weight <> _l2.weight THEN
+            _adjusted_fields := _adjusted_fields + 1;
+        END IF;
+
+        _children := '[]'::jsonb;
+        _child_total_weight := 0;
+        _child_scored_weight := 0;
+        _child_score_sum := 0;
+        _child_confidence_sum := 0;
+
+        FOR _l3 IN
+            SELECT fd.id, fd.field_key, COALESCE(fd.score_weight, 1.0) AS weight, md.score, md.score_confidence
+            FROM company_field_definitions fd
+            LEFT JOIN company_master_data md
+              ON md.company_id = _company_id AND md.domain = fd.domain AND md.field_key = fd.field_key
+            WHERE fd.parent_field_id = _l2.id
+              AND fd.is_scored
+              AND COALESCE(fd.score_weight, 1.0) > 0
+            ORDER BY fd.sort_order, fd.field_key
+        LOOP
+            _child_weight := _l3.weight * (public.resolve_score_influences(_company_id, _l3.id) ->> 'weight_multiplier')::numeric;
+            CONTINUE WHEN _child_weight <= 0;
+            _child_total_weight := _child_total_weight + _child_weight;
+            IF _l3.score IS NOT NULL THEN
+                _child_scored_weight := _child_scored_weight + _child_weight;
+                _child_score_sum := _child_score_sum + _l3.score * _child_weight;
+                _child_confidence_sum := _child_confidence_sum + COALESCE(_l3.score_confidence, 0.5) * _child_weight;
+            END IF;
+            _children := _children || jsonb_build_object(
+                'field_key', _l3.field_key,
+                'score', _l3.score,
+                'confidence', _l3.score_confidence,
+                'weight', _child_weight
+            );
+        END LOOP;
+
+        IF _l2.score IS NOT NULL THEN
+            _field_score := _l2.score;
+            _field_confidence := COALESCE(_l2.score_confidence, 0.5);
+            _field_source := 'field';
+        ELSIF _child_scored_weight > 0 THEN
+            _field_score := round(_child_score_sum / _child_scored_weight, 2);
+            _field_confidence := round(_child_confidence_sum / _child_total_weight, 3);
+            _field_source := 'rollup';
+        ELSE
+            _field_score := NULL;
+            _field_confidence := 0;
+            _field_source := 'missing';
+        END IF;
+
+        _total_fields := _total_fields + 1;
+        _total_weight := _total_weight + _weight;
+        IF _field_score IS NOT NULL THEN
+            _scored_fields := _scored_fields + 1;
+            _scored_weight := _scored_weight + _weight;
+            _score_sum := _score_sum + _field_score * _weight;
+            _confidence_sum := _confidence_sum + _field_confidence * _weight;
+        END IF;
+
+        _contributing := _contributing || jsonb_build_object(
+            'field_key', _l2.field_key,
+            'display_name', _l2.display_name,
+            'score', _field_score,
+            'confidence', _field_confidence,
+            'weight', _weight,
+            'source', _field_source,
+            'influences', _influences -> 'applied',
+            'children', _children
+        );
+    END LOOP;
+
+    IF _total_fields = 0 THEN
+        DELETE FROM company_domain_scores WHERE company_id = _company_id AND domain = _domain;
+        RETURN;
+    END IF;
+
+    INSERT INTO company_domain_scores (company_id, domain, score, confidence, reasoning, contributing_fields, calculated_at)
+    VALUES (
+        _company_id,
+        _domain,
+        CASE WHEN _scored_weight > 0 THEN round(_score_sum / _scored_weight)::integer END,
+        round(_confidence_sum / _total_weight, 3),
+        format('Weighted average of %s of %s scored L2 fields', _scored_fields, _total_fields)
+            || CASE WHEN _adjusted_fields > 0 THEN format('; %s weights adjusted by context facts', _adjusted_fields) ELSE '' END,
+        _contributing,
+        now()
+    )
+    ON CONFLICT (company_id, domain) DO UPDATE
+    SET score = EXCLUDED.score,
+        confidence = EXCLUDED.confidence,
+        reasoning = EXCLUDED.reasoning,
+        contributing_fields = EXCLUDED.contributing_fields,
+        calculated_at = EXCLUDED.calculated_at;
+END;
+$$;
+
+-- Backfill: score existing values with deterministic methods
+DO $$
+DECLARE
+    _pair RECORD;
+BEGIN
+    FOR _pair IN
+        SELECT md.company_id, array_agg(DISTINCT fd.id) AS field_ids
+        FROM company_master_data md
+        JOIN company_field_definitions fd ON fd.domain = md.domain AND fd.field_key = md.field_key
+        WHERE fd.is_scored
+        GROUP BY md.company_id
+    LOOP
+        PERFORM public.rescore_company_fields(_pair.company_id, _pair.field_ids);
+    END LOOP;
+END;
+$$;
@@ -0,0 +1,165 @@
+-- Versioned dataset snapshots: freeze a dataset's per-company content into data_snapshots
+--
+-- Snapshot rows mirror how executors aggregate a dataset: one row per dependency that has
+-- output, keyed by the node name in snake_case. Versions are numbered per dataset.
+
+ALTER TABLE public.datasets
+ADD COLUMN IF NOT EXISTS auto_snapshot boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_data_snapshots_dataset_company_version
+ON public.data_snapshots (dataset_id, company_id, version DESC);
+
+-- Current dataset content for a company, as snapshot rows
+CREATE OR REPLACE FUNCTION public.build_dataset_snapshot_rows(_dataset_id uuid, _company_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+    SELECT COALESCE(
+        jsonb_agg(
+            jsonb_build_object(
+                'key', lower(regexp_replace(deps.dep->>'nodeName', '\s+', '_', 'g')),
+                'workflow_id', deps.dep->>'workflowId',
+                'node_id', deps.dep->>'nodeId',
+                'node_name', deps.dep->>'nodeName',
+                'output', cnd.data->'output'
+            )
+            ORDER BY deps.ord
+        ),
+        '[]'::jsonb
+    )
+    FROM datasets d
+    CROSS JOIN LATERAL jsonb_array_elements(COALESCE(d.dependencies, '[]'::jsonb)) WITH ORDINALITY AS deps(dep, ord)
+    JOIN company_node_data cnd
+      ON cnd.company_id = _company_id
+     AND cnd.workflow_id::text = deps.dep->>'workflowId'
+     AND cnd.node_id = deps.dep->>'nodeId'
+    WHERE d.id = _dataset_id
+      AND cnd.data->'output' IS NOT NULL
+      AND cnd.data->'output' NOT IN ('null'::jsonb, '""'::jsonb);
+$$;
+
+-- Store a new version unless the content matches the company's latest snapshot
+CREATE OR REPLACE FUNCTION public.snapshot_dataset(_dataset_id uuid, _company_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _rows jsonb;
+    _latest RECORD;
+    _version integer;
+BEGIN
+    -- Serialize version numbering per dataset
+    PERFORM pg_advisory_xact_lock(hashtext('data_snapshots:' || _dataset_id::text));
+
+    _rows := public.build_dataset_snapshot_rows(_dataset_id, _company_id);
+
+    SELECT version, snapshot_data INTO _latest
+    FROM data_snapshots
+    WHERE dataset_id = _dataset_id AND company_id = _company_id
+    ORDER BY version DESC
+    LIMIT 1;
+
+    IF FOUND AND _latest.snapshot_data = _rows THEN
+        RETURN jsonb_build_object('version', _latest.version, 'created', false);
+    END IF;
+
+    _version := public.next_snapshot_version(_dataset_id);
+
+    INSERT INTO data_snapshots (dataset_id, company_id, version, snapshot_data, row_count, size_bytes, created_by)
+    VALUES (_dataset_id, _company_id, _version, _rows, jsonb_array_length(_rows), octet_length(_rows::text), auth.uid());
+
+    RETURN jsonb_build_object('version', _version, 'created', true);
+END;
+$$;
+
+-- "Snapshot now" from the admin UI
+CREATE OR REPLACE FUNCTION public.create_dataset_snapshot(_dataset_id uuid, _company_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT public.is_platform_admin(auth.uid()) THEN
+        RAISE EXCEPTION 'Only platform admins can snapshot datasets';
+    END IF;
+
+    RETURN public.snapshot_dataset(_dataset_id, _company_id);
+END;
+$$;
+
+-- Auto-snapshot datasets that depend on a node whose output just changed
+CREATE OR REPLACE FUNCTION public.trigger_auto_snapshot_datasets()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _dataset_id uuid;
+BEGIN
+    FOR _dataset_id IN
+        SELECT id FROM datasets
+        WHERE auto_snapshot
+          AND dependencies @> jsonb_build_array(
+              jsonb_build_object('workflowId', NEW.workflow_id::text, 'nodeId', NEW.node_id)
+          )
+    LOOP
+        PERFORM public.snapshot_dataset(_dataset_id, NEW.company_id);
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER auto_snapshot_datasets_on_node_insert
+AFTER INSERT ON company_node_data
+FOR EACH ROW
+WHEN (NEW.data->'output' IS NOT NULL)
+EXECUTE FUNCTION public.trigger_auto_snapshot_datasets();
+
+CREATE TRIGGER auto_snapshot_datasets_on_node_update
+AFTER UPDATE OF data ON company_node_data
+FOR EACH ROW
+WHEN (OLD.data->'output' IS DISTINCT FROM NEW.data->'output')
+EXECUTE FUNCTION public.trigger_auto_snapshot_datasets();
+
+-- Editing an auto-snapshotted dataset's dependencies changes its content for every company
+CREATE OR REPLACE FUNCTION public.trigger_auto_snapshot_dataset_definition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _company_id uuid;
+BEGIN
+    FOR _company_id IN
+        SELECT DISTINCT cnd.company_id
+        FROM jsonb_array_elements(COALESCE(NEW.dependencies, '[]'::jsonb)) AS dep
+        JOIN company_node_data cnd
+          ON cnd.workflow_id::text = dep->>'workflowId'
+         AND cnd.node_id = dep->>'nodeId'
+        UNION
+        SELECT company_id FROM data_snapshots WHERE dataset_id = NEW.id AND company_id IS NOT NULL
+    LOOP
+        PERFORM public.snapshot_dataset(NEW.id, _company_id);
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER auto_snapshot_dataset_on_definition_change
+AFTER UPDATE OF dependencies, auto_snapshot ON datasets
+FOR EACH ROW
+WHEN (
+    NEW.auto_snapshot
+    AND (OLD.dependencies IS DISTINCT FROM NEW.dependencies OR NOT OLD.auto_snapshot)
+)
+EXECUTE FUNCTION public.trigger_auto_snapshot_dataset_definition();
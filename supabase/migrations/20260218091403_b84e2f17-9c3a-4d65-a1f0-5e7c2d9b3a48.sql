@@ -0,0 +1,191 @@
+-- Per-company rate limits and monthly AI budgets
+--
+-- Requests are counted in fixed one-minute windows against companies.rate_limit_rpm.
+-- AI usage is rolled up into company_usage (one row per company per month) from
+-- ai_usage_logs, and checked against the optional monthly token/cost budgets.
+
+ALTER TABLE public.companies
+ADD COLUMN IF NOT EXISTS monthly_token_budget bigint,
+ADD COLUMN IF NOT EXISTS monthly_cost_budget numeric(12, 2);
+
+ALTER TABLE public.company_usage
+ADD COLUMN IF NOT EXISTS api_requests integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS ai_cost numeric(12, 6) NOT NULL DEFAULT 0;
+
+CREATE TABLE public.company_rate_limit_windows (
+    company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+    window_start timestamptz NOT NULL,
+    request_count integer NOT NULL DEFAULT 0,
+    PRIMARY KEY (company_id, window_start)
+);
+
+ALTER TABLE public.company_rate_limit_windows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Platform admins can view rate limit windows"
+ON public.company_rate_limit_windows FOR SELECT TO authenticated
+USING (public.is_platform_admin(auth.uid()));
+
+-- Count a request against the company's per-minute limit (service role only)
+CREATE OR REPLACE FUNCTION public.check_company_rate_limit(_company_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _limit integer;
+    _window timestamptz := date_trunc('minute', now());
+    _count integer;
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT public.is_platform_admin(auth.uid()) THEN
+        RAISE EXCEPTION 'Only platform admins can record API requests';
+    END IF;
+
+    SELECT rate_limit_rpm INTO _limit FROM companies WHERE id = _company_id;
+
+    -- Unknown companies and non-positive limits are not throttled
+    IF _limit IS NULL OR _limit <= 0 THEN
+        RETURN jsonb_build_object('allowed', true, 'limit', NULL, 'remaining', NULL, 'retry_after', 0);
+    END IF;
+
+    INSERT INTO company_rate_limit_windows (company_id, window_start, request_count)
+    VALUES (_company_id, _window, 1)
+    ON CONFLICT (company_id, window_start)
+    DO UPDATE SET request_count = company_rate_limit_windows.request_count + 1
+    RETURNING request_count INTO _count;
+
+    DELETE FROM company_rate_limit_windows
+    WHERE company_id = _company_id AND window_start < _window - interval '1 hour';
+
+    IF _count <= _limit THEN
+        INSERT INTO company_usage (company_id, period, api_requests)
+        VALUES (_company_id, date_trunc('month', now())::date, 1)
+        ON CONFLICT (company_id, period)
+        DO UPDATE SET api_requests = company_usage.api_requests + 1, updated_at = now();
+    END IF;
+
+    RETURN jsonb_build_object(
+        'allowed', _count <= _limit,
+        'limit', _limit,
+        'remaining', greatest(_limit - _count, 0),
+        'retry_after', greatest(ceil(extract(epoch FROM (_window + interval '1 minute' - now())))::integer, 1)
+    );
+END;
+$$;
+
+-- Current month's AI usage against the company's budgets
+CREATE OR REPLACE FUNCTION public.check_company_budget(_company_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _period date := date_trunc('month', now())::date;
+    _token_budget bigint;
+    _cost_budget numeric;
+    _tokens_used bigint := 0;
+    _cost_used numeric := 0;
+BEGIN
+    IF auth.uid() IS NOT NULL
+       AND NOT public.is_platform_admin(auth.uid())
+       AND NOT public.is_company_member(auth.uid(), _company_id) THEN
+        RAISE EXCEPTION 'Not allowed to view this company''s budget';
+    END IF;
+
+    SELECT monthly_token_budget, monthly_cost_budget INTO _token_budget, _cost_budget
+    FROM companies WHERE id = _company_id;
+
+    SELECT ai_tokens_used, ai_cost INTO _tokens_used, _cost_used
+    FROM company_usage WHERE company_id = _company_id AND period = _period;
+
+    _tokens_used := COALESCE(_tokens_used, 0);
+    _cost_used := COALESCE(_cost_used, 0);
+
+    RETURN jsonb_build_object(
+        'allowed', (_token_budget IS NULL OR _tokens_used < _token_budget)
+               AND (_cost_budget IS NULL OR _cost_used < _cost_budget),
+        'period', _period,
+        'reset_at', (_period + interval '1 month')::date,
+        'tokens_used', _tokens_used,
+        'token_budget', _token_budget,
+        'tokens_remaining', CASE WHEN _token_budget IS NOT NULL THEN greatest(_token_budget - _tokens_used, 0) END,
+        'cost_used', round(_cost_used, 6),
+        'cost_budget', _cost_budget,
+        'cost_remaining', CASE WHEN _cost_budget IS NOT NULL THEN round(greatest(_cost_budget - _cost_used, 0), 6) END
+    );
+END;
+$$;
+
+-- Roll AI calls into the monthly usage row
+CREATE OR REPLACE FUNCTION public.trigger_rollup_ai_usage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    INSERT INTO company_usage (company_id, period, ai_tokens_used, ai_cost)
+    VALUES (
+        NEW.company_id,
+        date_trunc('month', NEW.created_at)::date,
+        COALESCE(NEW.total_tokens, 0),
+        COALESCE(NEW.estimated_cost, 0)
+    )
+    ON CONFLICT (company_id, period)
+    DO UPDATE SET ai_tokens_used = company_usage.ai_tokens_used + EXCLUDED.ai_tokens_used,
+                  ai_cost = company_usage.ai_cost + EXCLUDED.ai_cost,
+                  updated_at = now();
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER rollup_ai_usage_on_insert
+AFTER INSERT ON ai_usage_logs
+FOR EACH ROW
+WHEN (NEW.company_id IS NOT NULL)
+EXECUTE FUNCTION public.trigger_rollup_ai_usage();
+
+-- Count execution runs per company per month
+CREATE OR REPLACE FUNCTION public.trigger_rollup_execution_run()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    INSERT INTO company_usage (company_id, period, workflow_executions)
+    VALUES (NEW.company_id, date_trunc('month', NEW.created_at)::date, 1)
+    ON CONFLICT (company_id, period)
+    DO UPDATE SET workflow_executions = company_usage.workflow_executions + 1,
+                  updated_at = now();
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER rollup_execution_run_on_insert
+AFTER INSERT ON execution_runs
+FOR EACH ROW
+WHEN (NEW.company_id IS NOT NULL)
+EXECUTE FUNCTION public.trigger_rollup_execution_run();
+
+-- Backfill usage from existing logs and runs
+INSERT INTO company_usage (company_id, period, ai_tokens_used, ai_cost, workflow_executions)
+SELECT company_id, period, sum(tokens), sum(cost), sum(runs)
+FROM (
+    SELECT company_id, date_trunc('month', created_at)::date AS period,
+           COALESCE(total_tokens, 0)::bigint AS tokens, COALESCE(estimated_cost, 0) AS cost, 0 AS runs
+    FROM ai_usage_logs
+    WHERE company_id IS NOT NULL
+    UNION ALL
+    SELECT company_id, date_trunc('month', created_at)::date, 0, 0, 1
+    FROM execution_runs
+    WHERE company_id IS NOT NULL
+) usage
+GROUP BY company_id, period
+ON CONFLICT (company_id, period)
+DO UPDATE SET ai_tokens_used = EXCLUDED.ai_tokens_used,
+              ai_cost = EXCLUDED.ai_cost,
+              workflow_executions = EXCLUDED.workflow_executions,
+              updated_at = now();
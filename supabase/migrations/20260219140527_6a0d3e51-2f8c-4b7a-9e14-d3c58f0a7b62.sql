@@ -0,0 +1,54 @@
+-- Hard cost limits for company cascades
+--
+-- Limits live in app_settings.cost_budget_settings (USD, null = no limit):
+--   per_run_usd            spend of a single cascade
+--   per_company_daily_usd  spend of one company today (UTC)
+--   daily_usd              spend across all companies today (UTC)
+-- A cascade that would cross a limit is paused; its remaining nodes are recorded as
+-- budget_paused steps until an admin approves continuation.
+
+ALTER TABLE public.app_settings
+ADD COLUMN IF NOT EXISTS cost_budget_settings jsonb NOT NULL DEFAULT jsonb_build_object(
+    'enabled', false,
+    'per_run_usd', NULL,
+    'per_company_daily_usd', NULL,
+    'daily_usd', NULL
+);
+
+ALTER TYPE public.execution_status ADD VALUE IF NOT EXISTS 'budget_paused';
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_logs_created_at
+ON public.ai_usage_logs (created_at);
+
+-- AI spend a cascade is measured against: since the cascade started, and today
+CREATE OR REPLACE FUNCTION public.get_cascade_spend(_company_id uuid, _run_started_at timestamptz)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _day_start timestamptz := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT public.is_platform_admin(auth.uid()) THEN
+        RAISE EXCEPTION 'Only platform admins can view cascade spend';
+    END IF;
+
+    RETURN (
+        SELECT jsonb_build_object(
+            'run_cost', round(COALESCE(sum(estimated_cost) FILTER (
+                WHERE company_id = _company_id AND created_at >= _run_started_at
+            ), 0), 6),
+            'company_daily_cost', round(COALESCE(sum(estimated_cost) FILTER (
+                WHERE company_id = _company_id AND created_at >= _day_start
+            ), 0), 6),
+            'daily_cost', round(COALESCE(sum(estimated_cost) FILTER (
+                WHERE created_at >= _day_start
+            ), 0), 6)
+        )
+        FROM ai_usage_logs
+        WHERE created_at >= LEAST(_day_start, _run_started_at)
+    );
+END;
+$$;
@@ -0,0 +1,263 @@
+-- Portfolio runs: one workflow cascaded across many companies through the job queue
+--
+-- Each company gets a trigger submission and a job tagged with the portfolio run.
+-- claim_next_job keeps at most `concurrency` of a run's jobs running at once, and
+-- job status changes are mirrored onto portfolio_run_companies for the dashboard.
+
+CREATE TABLE public.portfolio_runs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    workflow_id uuid NOT NULL REFERENCES public.workflows(id) ON DELETE CASCADE,
+    filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+    concurrency integer NOT NULL DEFAULT 5 CHECK (concurrency > 0),
+    force boolean NOT NULL DEFAULT true,
+    status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed')),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    completed_at timestamptz
+);
+
+CREATE TABLE public.portfolio_run_companies (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    portfolio_run_id uuid NOT NULL REFERENCES public.portfolio_runs(id) ON DELETE CASCADE,
+    company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+    status text NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'completed', 'failed', 'skipped')),
+    submission_id uuid REFERENCES public.company_data_submissions(id) ON DELETE SET NULL,
+    execution_run_id uuid REFERENCES public.execution_runs(id) ON DELETE SET NULL,
+    error_message text,
+    attempts integer NOT NULL DEFAULT 1,
+    cost numeric(12, 6) NOT NULL DEFAULT 0,
+    started_at timestamptz,
+    completed_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (portfolio_run_id, company_id)
+);
+
+CREATE INDEX idx_portfolio_runs_created
+ON public.portfolio_runs (created_at DESC);
+
+CREATE INDEX idx_portfolio_run_companies_status
+ON public.portfolio_run_companies (portfolio_run_id, status);
+
+ALTER TABLE public.job_queue
+ADD COLUMN IF NOT EXISTS portfolio_run_id uuid REFERENCES public.portfolio_runs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_job_queue_portfolio_run
+ON public.job_queue (portfolio_run_id, status) WHERE portfolio_run_id IS NOT NULL;
+
+ALTER TABLE public.portfolio_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.portfolio_run_companies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Platform admins can manage portfolio runs"
+ON public.portfolio_runs FOR ALL TO authenticated
+USING (public.is_platform_admin(auth.uid()))
+WITH CHECK (public.is_platform_admin(auth.uid()));
+
+CREATE POLICY "Platform admins can manage portfolio run companies"
+ON public.portfolio_run_companies FOR ALL TO authenticated
+USING (public.is_platform_admin(auth.uid()))
+WITH CHECK (public.is_platform_admin(auth.uid()));
+
+CREATE TRIGGER update_portfolio_runs_updated_at
+BEFORE UPDATE ON public.portfolio_runs
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_portfolio_run_companies_updated_at
+BEFORE UPDATE ON public.portfolio_run_companies
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Companies a portfolio run would cover, with the signals the filters use:
+--   stale            no finished cascade of the workflow since its current version was saved
+--   missing_outputs  executable nodes of the workflow without output for the company
+CREATE OR REPLACE FUNCTION public.select_portfolio_companies(
+    _workflow_id uuid,
+    _statuses text[] DEFAULT NULL,
+    _stale_only boolean DEFAULT false,
+    _missing_outputs_only boolean DEFAULT false
+)
+RETURNS TABLE (
+    company_id uuid,
+    company_name text,
+    company_status text,
+    stale boolean,
+    missing_outputs integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _nodes jsonb;
+    _version_at timestamptz;
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT public.is_platform_admin(auth.uid()) THEN
+        RAISE EXCEPTION 'Only platform admins can plan portfolio runs';
+    END IF;
+
+    SELECT w.nodes, COALESCE(v.created_at, w.updated_at) INTO _nodes, _version_at
+    FROM workflows w
+    LEFT JOIN workflow_versions v ON v.workflow_id = w.id AND v.version = w.version
+    WHERE w.id = _workflow_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Workflow not found';
+    END IF;
+
+    RETURN QUERY
+    WITH signals AS (
+        SELECT
+            c.id,
+            c.name,
+            c.status,
+            NOT EXISTS (
+                SELECT 1 FROM execution_runs r
+                WHERE r.company_id = c.id
+                  AND r.workflow_id = _workflow_id
+                  AND r.run_type IN ('cascade', 'force_run')
+                  AND r.status = 'completed'
+                  AND r.completed_at >= _version_at
+            ) AS is_stale,
+            (
+                SELECT count(*)::integer
+                FROM jsonb_array_elements(COALESCE(_nodes, '[]'::jsonb)) AS n
+                WHERE n->>'type' NOT IN ('note', 'divider', 'shape', 'floatingEndpoint')
+                  AND NOT EXISTS (
+                      SELECT 1 FROM company_node_data cnd
+                      WHERE cnd.company_id = c.id
+                        AND cnd.workflow_id = _workflow_id
+                        AND cnd.node_id = n->>'id'
+                        AND cnd.data->'output' IS NOT NULL
+                        AND cnd.data->'output' NOT IN ('null'::jsonb, '""'::jsonb)
+                  )
+            ) AS missing
+        FROM companies c
+        WHERE _statuses IS NULL OR c.status = ANY (_statuses)
+    )
+    SELECT s.id, s.name, s.status, s.is_stale, s.missing
+    FROM signals s
+    WHERE (NOT _stale_only OR s.is_stale)
+      AND (NOT _missing_outputs_only OR s.missing > 0)
+    ORDER BY s.name;
+END;
+$$;
+
+-- Claim the next runnable job, holding back portfolio jobs whose run is at its concurrency cap.
+-- Claims are serialized so concurrent workers cannot both take the last free slot.
+CREATE OR REPLACE FUNCTION public.claim_next_job(_worker_id text, _lease_seconds integer DEFAULT 600)
+RETURNS SETOF public.job_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('claim_next_job'));
+
+    WITH expired AS (
+        UPDATE public.job_queue
+        SET status = CASE WHEN retry_count + 1 > max_retries THEN 'failed'::execution_status ELSE 'queued'::execution_status END,
+            retry_count = retry_count + 1,
+            worker_id = NULL,
+            error_message = 'Worker lease expired',
+            completed_at = CASE WHEN retry_count + 1 > max_retries THEN now() ELSE NULL END
+        WHERE status = 'running'
+          AND updated_at < now() - make_interval(secs => _lease_seconds)
+        RETURNING execution_run_id, status
+    )
+    UPDATE public.execution_runs r
+    SET status = 'failed',
+        error_message = 'Worker lease expired',
+        completed_at = now()
+    FROM expired e
+    WHERE r.id = e.execution_run_id
+      AND e.status = 'failed';
+
+    RETURN QUERY
+    UPDATE public.job_queue j
+    SET status = 'running',
+        worker_id = _worker_id,
+        picked_up_at = now()
+    WHERE j.id = (
+        SELECT q.id
+        FROM public.job_queue q
+        WHERE q.status = 'queued'
+          AND q.scheduled_for <= now()
+          AND q.retry_count <= q.max_retries
+          AND (
+              q.portfolio_run_id IS NULL
+              OR (
+                  SELECT count(*) FROM public.job_queue running
+                  WHERE running.portfolio_run_id = q.portfolio_run_id
+                    AND running.status = 'running'
+              ) < (
+                  SELECT p.concurrency FROM public.portfolio_runs p
+                  WHERE p.id = q.portfolio_run_id
+              )
+          )
+        ORDER BY q.priority DESC, q.scheduled_for ASC, q.created_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+END;
+$$;
+
+-- Mirror a portfolio job's status onto its company row; finished attempts add their AI cost
+CREATE OR REPLACE FUNCTION public.trigger_sync_portfolio_run_company()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _finished boolean := NEW.status IN ('completed', 'failed', 'cancelled');
+BEGIN
+    UPDATE portfolio_run_companies prc
+    SET status = CASE NEW.status
+                     WHEN 'running' THEN 'running'
+                     WHEN 'completed' THEN 'completed'
+                     WHEN 'failed' THEN 'failed'
+                     WHEN 'cancelled' THEN 'failed'
+                     ELSE 'queued'
+                 END,
+        execution_run_id = COALESCE(NEW.execution_run_id, prc.execution_run_id),
+        error_message = CASE
+                            WHEN NEW.status = 'cancelled' THEN 'Job cancelled'
+                            WHEN NEW.status IN ('failed', 'queued') THEN NEW.error_message
+                        END,
+        started_at = CASE WHEN NEW.status = 'running' THEN COALESCE(prc.started_at, now()) ELSE prc.started_at END,
+        completed_at = CASE WHEN _finished THEN now() END,
+        cost = prc.cost + CASE
+                              WHEN _finished AND prc.started_at IS NOT NULL THEN (
+                                  SELECT COALESCE(sum(l.estimated_cost), 0)
+                                  FROM ai_usage_logs l
+                                  WHERE l.company_id = NEW.company_id
+                                    AND l.workflow_id = NEW.workflow_id
+                                    AND l.created_at >= prc.started_at
+                              )
+                              ELSE 0
+                          END
+    WHERE prc.portfolio_run_id = NEW.portfolio_run_id
+      AND prc.company_id = NEW.company_id
+      AND prc.status NOT IN ('completed', 'skipped');
+
+    IF _finished AND NOT EXISTS (
+        SELECT 1 FROM portfolio_run_companies
+        WHERE portfolio_run_id = NEW.portfolio_run_id
+          AND status IN ('queued', 'running')
+    ) THEN
+        UPDATE portfolio_runs
+        SET status = 'completed', completed_at = now()
+        WHERE id = NEW.portfolio_run_id AND status = 'running';
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_portfolio_run_company_on_job_update
+AFTER UPDATE OF status ON public.job_queue
+FOR EACH ROW
+WHEN (NEW.portfolio_run_id IS NOT NULL AND OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.trigger_sync_portfolio_run_company();
@@ -0,0 +1,48 @@
+-- Tag stored node outputs with the hash of the node config that produced them, so
+-- outputs made by an older prompt or model can be found once the workflow is edited
+
+ALTER TABLE public.company_node_data
+ADD COLUMN IF NOT EXISTS config_hash text;
+
+COMMENT ON COLUMN public.company_node_data.config_hash IS 'SHA-256 hash of the node type and output-affecting config when this output was produced';
+
+CREATE INDEX IF NOT EXISTS idx_company_node_data_workflow_config
+ON public.company_node_data (workflow_id, node_id, config_hash);
+
+-- Outputs produced by a node config that differs from the current one.
+-- _config_hashes maps node id -> current config hash (hashed by the caller, like the edge functions do).
+-- Outputs stored before config hashes were recorded have no hash and are not reported.
+CREATE OR REPLACE FUNCTION public.get_stale_node_outputs(
+    _workflow_id uuid,
+    _config_hashes jsonb,
+    _company_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    company_id uuid,
+    company_name text,
+    node_id text,
+    node_label text,
+    last_executed_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT public.is_platform_admin(auth.uid()) THEN
+        RAISE EXCEPTION 'Only platform admins can view stale outputs';
+    END IF;
+
+    RETURN QUERY
+    SELECT cnd.company_id, c.name, cnd.node_id, cnd.node_label, cnd.last_executed_at
+    FROM company_node_data cnd
+    JOIN companies c ON c.id = cnd.company_id
+    WHERE cnd.workflow_id = _workflow_id
+      AND (_company_id IS NULL OR cnd.company_id = _company_id)
+      AND cnd.config_hash IS NOT NULL
+      AND _config_hashes ? cnd.node_id
+      AND cnd.config_hash <> _config_hashes->>cnd.node_id
+    ORDER BY c.name, cnd.node_label;
+END;
+$$;
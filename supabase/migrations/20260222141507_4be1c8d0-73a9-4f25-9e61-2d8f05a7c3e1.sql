@@ -0,0 +1,56 @@
+-- Field lineage: each stored node output records what it was computed from, and master
+-- data history keeps the source reference of every revision, so an SSOT value can be
+-- traced back through the workflow to the submission it came from
+
+ALTER TABLE public.company_node_data
+ADD COLUMN IF NOT EXISTS lineage jsonb;
+
+COMMENT ON COLUMN public.company_node_data.lineage IS 'Inputs of this output: upstream node outputs {workflow_id, node_id, content_hash}, or for source nodes the submission_id and filled intake_fields';
+
+-- Snapshot the source reference into history and label generated values as workflow changes
+CREATE OR REPLACE FUNCTION public.track_master_data_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _change_source text;
+  _change_metadata jsonb;
+BEGIN
+  _change_source := CASE NEW.source_type
+    WHEN 'generated' THEN 'workflow'
+    WHEN 'api' THEN 'api'
+    WHEN 'webhook' THEN 'api'
+    WHEN 'import' THEN 'import'
+    ELSE 'user'
+  END;
+  _change_metadata := CASE
+    WHEN NEW.source_reference IS NOT NULL THEN jsonb_build_object('source_reference', NEW.source_reference)
+    ELSE NULL
+  END;
+
+  IF TG_OP = 'UPDATE' THEN
+    INSERT INTO company_master_data_history (
+      master_data_id, company_id, domain, field_key,
+      previous_value, new_value, change_type,
+      changed_by, change_source, change_metadata, version
+    ) VALUES (
+      OLD.id, OLD.company_id, OLD.domain, OLD.field_key,
+      OLD.field_value, NEW.field_value, 'update',
+      auth.uid(), _change_source, _change_metadata, NEW.version
+    );
+  ELSIF TG_OP = 'INSERT' THEN
+    INSERT INTO company_master_data_history (
+      master_data_id, company_id, domain, field_key,
+      previous_value, new_value, change_type,
+      changed_by, change_source, change_metadata, version
+    ) VALUES (
+      NEW.id, NEW.company_id, NEW.domain, NEW.field_key,
+      NULL, NEW.field_value, 'create',
+      auth.uid(), _change_source, _change_metadata, NEW.version
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
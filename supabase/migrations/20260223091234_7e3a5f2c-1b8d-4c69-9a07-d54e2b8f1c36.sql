@@ -0,0 +1,9 @@
+-- Retries and fallback models: ai_usage_logs.model is the model that served the call,
+-- requested_model the node's configured model when a fallback served it instead
+
+ALTER TABLE public.ai_usage_logs
+ADD COLUMN IF NOT EXISTS requested_model text,
+ADD COLUMN IF NOT EXISTS attempt_count integer NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN public.ai_usage_logs.requested_model IS 'Configured model of the node; differs from model when a fallback model served the request';
+COMMENT ON COLUMN public.ai_usage_logs.attempt_count IS 'Provider calls made for this generation, including retries and fallbacks';
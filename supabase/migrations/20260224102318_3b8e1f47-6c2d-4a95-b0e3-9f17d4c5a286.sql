@@ -0,0 +1,23 @@
+-- Webhook deliveries: only signed requests are recorded, and trigger_count is counted in SQL
+
+COMMENT ON TABLE public.webhook_deliveries IS 'Deliveries that passed signature verification, accepted or rejected. Accepted signatures are unique per endpoint, which is what rejects replays.';
+
+-- Count an accepted delivery; the increment happens in one statement so concurrent
+-- deliveries are not lost
+CREATE OR REPLACE FUNCTION public.record_webhook_trigger(_endpoint_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT public.is_platform_admin(auth.uid()) THEN
+        RAISE EXCEPTION 'Only platform admins can record webhook triggers';
+    END IF;
+
+    UPDATE public.webhook_endpoints
+    SET trigger_count = trigger_count + 1,
+        last_triggered_at = now()
+    WHERE id = _endpoint_id;
+END;
+$$;
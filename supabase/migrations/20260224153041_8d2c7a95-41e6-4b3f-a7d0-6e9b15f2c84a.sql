@@ -0,0 +1,40 @@
+-- Portfolio runs: companies are checked in one query when a run is queued, and runs only
+-- force re-execution of unchanged nodes when asked to
+
+ALTER TABLE public.portfolio_runs ALTER COLUMN force SET DEFAULT false;
+
+-- Whether each company can be queued: within its monthly AI budget (check_company_budget)
+-- and with a data submission to run on (a trigger submission alone is not data)
+CREATE OR REPLACE FUNCTION public.get_portfolio_company_readiness(_company_ids uuid[])
+RETURNS TABLE (
+    company_id uuid,
+    budget_allowed boolean,
+    has_data boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT public.is_platform_admin(auth.uid()) THEN
+        RAISE EXCEPTION 'Only platform admins can plan portfolio runs';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        c.id,
+        COALESCE((public.check_company_budget(c.id)->>'allowed')::boolean, true),
+        EXISTS (
+            SELECT 1 FROM company_data_submissions s
+            WHERE s.company_id = c.id
+              AND jsonb_typeof(s.raw_data) = 'object'
+              AND (
+                  s.raw_data ? 'intake_fields'
+                  OR (NOT s.raw_data ? '_trigger' AND (SELECT count(*) FROM jsonb_object_keys(s.raw_data)) > 1)
+              )
+        )
+    FROM companies c
+    WHERE c.id = ANY(_company_ids);
+END;
+$$;
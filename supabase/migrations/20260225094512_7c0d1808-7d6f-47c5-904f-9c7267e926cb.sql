@@ -0,0 +1,17 @@
+-- Read the project URL for the scheduler tick from Vault (secret name: project_url)
+-- instead of hardcoding it, so the cron job calls the right project in every environment.
+-- Scheduling under the same name replaces the existing job.
+SELECT cron.schedule(
+  'run-scheduled-jobs',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/run-scheduled-jobs',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,58 @@
+-- A portfolio job paused by a cost limit (budget_paused) shows as a failed company with the
+-- limit in its error, so the run can complete and the dashboard can show and retry it.
+-- An admin-approved resume moves the row on again, since failed rows keep syncing.
+
+-- Mirror a portfolio job's status onto its company row; finished attempts add their AI cost
+CREATE OR REPLACE FUNCTION public.trigger_sync_portfolio_run_company()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _finished boolean := NEW.status IN ('completed', 'failed', 'cancelled', 'budget_paused');
+BEGIN
+    UPDATE portfolio_run_companies prc
+    SET status = CASE NEW.status
+                     WHEN 'running' THEN 'running'
+                     WHEN 'completed' THEN 'completed'
+                     WHEN 'failed' THEN 'failed'
+                     WHEN 'cancelled' THEN 'failed'
+                     WHEN 'budget_paused' THEN 'failed'
+                     ELSE 'queued'
+                 END,
+        execution_run_id = COALESCE(NEW.execution_run_id, prc.execution_run_id),
+        error_message = CASE
+                            WHEN NEW.status = 'cancelled' THEN 'Job cancelled'
+                            WHEN NEW.status = 'budget_paused' THEN 'Paused by a cost limit: ' || COALESCE(NEW.error_message, 'awaiting approval')
+                            WHEN NEW.status IN ('failed', 'queued') THEN NEW.error_message
+                        END,
+        started_at = CASE WHEN NEW.status = 'running' THEN COALESCE(prc.started_at, now()) ELSE prc.started_at END,
+        completed_at = CASE WHEN _finished THEN now() END,
+        cost = prc.cost + CASE
+                              WHEN _finished AND prc.started_at IS NOT NULL THEN (
+                                  SELECT COALESCE(sum(l.estimated_cost), 0)
+                                  FROM ai_usage_logs l
+                                  WHERE l.company_id = NEW.company_id
+                                    AND l.workflow_id = NEW.workflow_id
+                                    AND l.created_at >= prc.started_at
+                              )
+                              ELSE 0
+                          END
+    WHERE prc.portfolio_run_id = NEW.portfolio_run_id
+      AND prc.company_id = NEW.company_id
+      AND prc.status NOT IN ('completed', 'skipped');
+
+    IF _finished AND NOT EXISTS (
+        SELECT 1 FROM portfolio_run_companies
+        WHERE portfolio_run_id = NEW.portfolio_run_id
+          AND status IN ('queued', 'running')
+    ) THEN
+        UPDATE portfolio_runs
+        SET status = 'completed', completed_at = now()
+        WHERE id = NEW.portfolio_run_id AND status = 'running';
+    END IF;
+
+    RETURN NULL;
+END;
+$$;